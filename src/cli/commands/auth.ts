@@ -0,0 +1,78 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { Visualizer } from '../../utils/visualizer';
+import { logger } from '../../utils/logger';
+import { CachedToken, TokenCache } from '../../providers/auth/TokenCache';
+import { describeCredentialMethod } from '../../providers/auth/credentialChain';
+
+export function createAuthCommand(): Command {
+  const authCommand = new Command('auth')
+    .description('Manage cached Azure credentials');
+
+  authCommand
+    .command('status')
+    .description('List cached identities and when their tokens expire')
+    .action(() => {
+      try {
+        showCacheStatus(new TokenCache());
+      } catch (error) {
+        logger.error('Failed to read token cache:', error);
+        Visualizer.displayError(`Failed to read token cache: ${error}`);
+        process.exit(1);
+      }
+    });
+
+  authCommand
+    .command('logout')
+    .description('Remove all cached tokens')
+    .action(() => {
+      try {
+        const count = new TokenCache().clear();
+        Visualizer.displaySuccess(`Signed out, removed ${count} cached token${count === 1 ? '' : 's'}`);
+      } catch (error) {
+        logger.error('Failed to clear token cache:', error);
+        Visualizer.displayError(`Failed to clear token cache: ${error}`);
+        process.exit(1);
+      }
+    });
+
+  return authCommand;
+}
+
+function showCacheStatus(cache: TokenCache): void {
+  const tokens = cache.list();
+  console.log(chalk.white.bold('\n🔐 Cached Identities:'));
+
+  if (tokens.length === 0) {
+    console.log(chalk.dim('  No cached tokens, they are added on the next query'));
+    return;
+  }
+
+  // One group per tenant, credential type and signed-in account, with a line per scope
+  const identities = new Map<string, CachedToken[]>();
+  for (const token of tokens) {
+    const key = `${token.tenantId}|${token.credentialType}|${token.issuedTenantId}|${token.objectId}`;
+    identities.set(key, [...(identities.get(key) || []), token]);
+  }
+
+  for (const entries of identities.values()) {
+    const { tenantId, credentialType, method, account, issuedTenantId } = entries[0];
+    const credential = method ? ` via ${describeCredentialMethod(method)}` : '';
+    // Show the tenant from the token, the configured one is only a request
+    const tenant = issuedTenantId && issuedTenantId !== tenantId ? `${issuedTenantId} (configured: ${tenantId})` : tenantId;
+    console.log(chalk.cyan(`  ${account || 'Unknown account'}${credential}`));
+    console.log(chalk.dim(`    Tenant: ${tenant}  Credential type: ${credentialType}`));
+
+    for (const entry of entries.sort((a, b) => a.scope.localeCompare(b.scope))) {
+      console.log(`    ${formatExpiry(entry.expiresOnTimestamp)}  ${chalk.dim(entry.scope)}`);
+    }
+  }
+}
+
+function formatExpiry(expiresOnTimestamp: number): string {
+  const minutes = Math.round((expiresOnTimestamp - Date.now()) / 60000);
+  const time = new Date(expiresOnTimestamp).toLocaleString();
+  return minutes > 0
+    ? chalk.green(`✅ expires ${time} (in ${minutes} min)`)
+    : chalk.red(`❌ expired ${time}`);
+}
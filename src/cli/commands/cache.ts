@@ -0,0 +1,37 @@
+import { Command } from 'commander';
+import { Visualizer } from '../../utils/visualizer';
+import { logger } from '../../utils/logger';
+import { ConfigManager } from '../../utils/config';
+import { DEFAULT_QUERY_CACHE_DIR, QueryResultCache } from '../../providers/datasource/QueryResultCache';
+
+export function createCacheCommand(): Command {
+  const cacheCommand = new Command('cache')
+    .description('Manage cached query results');
+
+  cacheCommand
+    .command('clear')
+    .description('Remove all query results cached on disk')
+    .action(() => {
+      try {
+        const count = QueryResultCache.clearDirectory(getCacheDirectory());
+        Visualizer.displaySuccess(`Removed ${count} cached query result${count === 1 ? '' : 's'}`);
+      } catch (error) {
+        logger.error('Failed to clear query cache:', error);
+        Visualizer.displayError(`Failed to clear query cache: ${error}`);
+        process.exit(1);
+      }
+    });
+
+  return cacheCommand;
+}
+
+/**
+ * Directory of the disk tier, from the configuration when it sets one
+ */
+function getCacheDirectory(): string {
+  try {
+    return new ConfigManager().getConfig().queryCache?.directory || DEFAULT_QUERY_CACHE_DIR;
+  } catch {
+    return DEFAULT_QUERY_CACHE_DIR;
+  }
+}
@@ -0,0 +1,101 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Visualizer } from '../../utils/visualizer';
+import { logger } from '../../utils/logger';
+import { resolveTimeRange } from '../../utils/timeExpression';
+import {
+  DEMO_DATA_FORMATS,
+  DEMO_LATENCY_DISTRIBUTIONS,
+  DemoDataFormat,
+  DemoLatencyDistribution,
+  generateDemoData,
+  parseDemoIncident,
+  writeDemoData
+} from '../../utils/demoData';
+
+const DEFAULT_DEMO_RANGE = '24h';
+
+export function createDemoDataCommand(): Command {
+  return new Command('demo-data')
+    .description('Generate synthetic Application Insights telemetry that the local-files data source can query')
+    .argument('[directory]', 'Directory to write one file per table into', './demo-data')
+    .option('--since <duration>', `Cover the last duration, e.g. 2h or 7d (default: ${DEFAULT_DEMO_RANGE})`)
+    .option('--from <time>', 'Start of the covered range (ISO 8601 date/time, or a duration ago such as 2d)')
+    .option('--to <time>', 'End of the covered range (default: now)')
+    .option('--time <expression>', 'Covered range in words, e.g. "yesterday"')
+    .option('--services <names>', 'Comma-separated services; the first one is the frontend', 'web-frontend,orders-api,payments-api,inventory-api')
+    .option('--rate <operations>', 'Page views starting an operation per minute, on average', '10')
+    .option('--error-rate <ratio>', 'Share of requests failing in each service', '0.02')
+    .option('--latency <distribution>', `Distribution of processing times (${DEMO_LATENCY_DISTRIBUTIONS.join(', ')})`, 'lognormal')
+    .option('--latency-median <ms>', 'Median processing time of each service in milliseconds', '60')
+    .option('--incident <spec>', 'Inject an incident, e.g. "latency-spike,service=orders-api,at=3h,duration=30m,factor=8" or "exception-burst,at=1h,errorRate=0.6" (repeatable)', collect, [])
+    .option('--seed <number>', 'Seed of the generator; the same seed and options give the same telemetry')
+    .option('--format <format>', `File format (${DEMO_DATA_FORMATS.join(', ')})`, 'csv')
+    .action(async (directory: string, options) => {
+      try {
+        const range = resolveTimeRange(options) ?? resolveTimeRange({ since: DEFAULT_DEMO_RANGE })!;
+        if (!DEMO_DATA_FORMATS.includes(options.format)) {
+          throw new Error(`Invalid format: ${options.format}. Use one of ${DEMO_DATA_FORMATS.join(', ')}`);
+        }
+        const seed = options.seed !== undefined ? parseNumber(options.seed, '--seed') : Math.floor(Math.random() * 0x100000000);
+
+        const tables = generateDemoData({
+          start: range.start,
+          end: range.end,
+          services: String(options.services).split(',').map(service => service.trim()).filter(Boolean),
+          operationsPerMinute: parseNumber(options.rate, '--rate'),
+          errorRate: parseNumber(options.errorRate, '--error-rate'),
+          latencyDistribution: options.latency as DemoLatencyDistribution,
+          latencyMedianMs: parseNumber(options.latencyMedian, '--latency-median'),
+          incidents: (options.incident as string[]).map(spec => parseDemoIncident(spec, range)),
+          seed
+        });
+
+        const outputDirectory = path.resolve(directory);
+        warnAboutOtherFormats(outputDirectory, tables.map(table => table.name), options.format);
+        writeDemoData(tables, outputDirectory, options.format as DemoDataFormat);
+
+        Visualizer.displaySuccess(`Generated telemetry from ${range.start.toISOString()} to ${range.end.toISOString()} in ${outputDirectory}`);
+        tables.forEach(table => console.log(chalk.dim(`  ${`${table.name}.${options.format}`.padEnd(20)} ${table.rows.length} rows`)));
+        console.log(chalk.dim(`  Seed: ${seed}`));
+
+        console.log(chalk.white.bold('\nTo query it, add a local-files data source to the configuration:'));
+        console.log(chalk.cyan(JSON.stringify({ type: 'local-files', directory: outputDirectory }, null, 2)));
+        console.log(chalk.white.bold('\nThen try:'));
+        console.log(chalk.cyan('  aidx --raw "requests | summarize count(), avg(duration) by cloud_RoleName"'));
+        console.log(chalk.cyan('  aidx "which service had the most exceptions?"'));
+      } catch (error) {
+        logger.error('Demo data generation failed:', error);
+        Visualizer.displayError(`Demo data generation failed: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    });
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function parseNumber(value: string, option: string): number {
+  const number = Number(value);
+  if (String(value).trim() === '' || isNaN(number)) {
+    throw new Error(`Invalid ${option} value: ${value}`);
+  }
+  return number;
+}
+
+/**
+ * The local-files data source reads one file per table, so files of the same tables in other
+ * formats would shadow or be shadowed by the new ones
+ */
+function warnAboutOtherFormats(directory: string, tables: string[], format: string): void {
+  const others = tables.flatMap(table => DEMO_DATA_FORMATS
+    .filter(other => other !== format)
+    .map(other => `${table}.${other}`)
+    .filter(fileName => fs.existsSync(path.join(directory, fileName))));
+  if (others.length > 0) {
+    Visualizer.displayWarning(`${others.join(', ')} also exist in ${directory}; the local-files data source reads only one file per table`);
+  }
+}
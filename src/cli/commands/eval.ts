@@ -0,0 +1,181 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Bootstrap } from '../../infrastructure/Bootstrap';
+import { ProviderFactory } from '../../infrastructure/di/ProviderFactory';
+import { IAuthenticationProvider } from '../../core/interfaces/IAuthenticationProvider';
+import { IDataSourceProvider } from '../../core/interfaces/IDataSourceProvider';
+import { AIProviderConfig, DataSourceType } from '../../core/types/ProviderTypes';
+import { EvaluatedAIProvider, EvaluationService } from '../../services/EvaluationService';
+import { ConfigManager } from '../../utils/config';
+import { Visualizer } from '../../utils/visualizer';
+import { logger } from '../../utils/logger';
+import { resolveTimeRange } from '../../utils/timeExpression';
+import {
+  compareEvaluationReports,
+  EvaluationReport,
+  EvaluationRunComparison,
+  formatEvaluationReportMarkdown,
+  loadEvaluationSuite,
+  runLabel
+} from '../../utils/evaluation';
+
+export function createEvalCommand(): Command {
+  return new Command('eval')
+    .description('Benchmark natural language to KQL generation of AI providers against a suite of questions')
+    .argument('<suite>', 'Suite file (JSON) of questions with their expected KQL or result sets')
+    .option('--providers <ids>', 'Comma-separated configured AI providers to compare, each optionally with a model, e.g. "azure-openai,ollama:llama3.1:8b" (default: the default provider)')
+    .option('--since <duration>', 'Run the queries over the last duration, e.g. 2h or 7d (default: the since of the suite)')
+    .option('--from <time>', 'Start of the time range (ISO 8601 date/time, or a duration ago such as 2d)')
+    .option('--to <time>', 'End of the time range (default: now)')
+    .option('--time <expression>', 'Time range in words, e.g. "yesterday"')
+    .option('--output <file>', 'Report file; .md writes Markdown, any other extension JSON', 'eval-report.json')
+    .option('--baseline <file>', 'Earlier JSON report to compare with, e.g. from before a prompt change')
+    .option('--min-accuracy <ratio>', 'Exit with an error when a provider answers a smaller share of cases correctly')
+    .option('--cache', 'Reuse cached query results instead of running every query against the data source')
+    .action(async (suitePath: string, options) => {
+      try {
+        const suite = loadEvaluationSuite(path.resolve(suitePath));
+        const range = resolveTimeRange(options) ?? (suite.since ? resolveTimeRange({ since: suite.since }) : undefined);
+        const minAccuracy = options.minAccuracy !== undefined ? parseRatio(options.minAccuracy, '--min-accuracy') : undefined;
+        const baseline = options.baseline ? readReport(path.resolve(options.baseline)) : undefined;
+
+        const configManager = new ConfigManager();
+        if (!configManager.validateConfig()) {
+          throw new Error('Configuration is invalid. Please run "aidx setup" first.');
+        }
+        const config = configManager.getConfig();
+        const container = await new Bootstrap({ queryCache: options.cache === true }).initialize();
+
+        const defaultDataSource = config.providers.dataSources.default;
+        const dataSourceType = (config.providers.dataSources[defaultDataSource]?.type || defaultDataSource) as DataSourceType;
+        const providers = createEvaluatedProviders(
+          options.providers ? String(options.providers).split(',').map(spec => spec.trim()).filter(Boolean) : [config.providers.ai.default],
+          config.providers.ai,
+          container.resolve<ProviderFactory>('providerFactory'),
+          container.resolve<IAuthenticationProvider>('authProvider')
+        );
+
+        Visualizer.displayInfo(`Evaluating ${providers.map(provider => runLabel(provider.id, provider.model)).join(', ')} on ${suite.cases.length} cases of ${suite.name}`);
+        const evaluationService = new EvaluationService(container.resolve<IDataSourceProvider>('dataSourceProvider'), dataSourceType);
+        const report = await evaluationService.run(suite, providers, {
+          timespan: range?.timespan,
+          onCaseCompleted: (provider, result) => {
+            const latency = chalk.dim(` (${result.generationMs} ms)`);
+            console.log(result.correct
+              ? chalk.green(`  ✓ ${runLabel(provider.id, provider.model)} ${result.id}`) + latency
+              : chalk.red(`  ✗ ${runLabel(provider.id, provider.model)} ${result.id}: ${result.reason ?? 'incorrect result'}`) + latency);
+          }
+        });
+
+        const comparisons = baseline ? compareEvaluationReports(report, baseline) : [];
+        showReport(report, comparisons);
+
+        const outputPath = path.resolve(options.output);
+        fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+        fs.writeFileSync(
+          outputPath,
+          path.extname(outputPath).toLowerCase() === '.md' ? formatEvaluationReportMarkdown(report, comparisons) : `${JSON.stringify(report, null, 2)}\n`,
+          'utf-8'
+        );
+        Visualizer.displaySuccess(`Report written to ${outputPath}`);
+
+        const failing = minAccuracy !== undefined ? report.runs.filter(run => run.summary.accuracy < minAccuracy) : [];
+        if (failing.length > 0) {
+          Visualizer.displayError(`Accuracy below ${formatPercent(minAccuracy!)}: ${failing.map(run => runLabel(run.provider, run.model)).join(', ')}`);
+          process.exit(1);
+        }
+      } catch (error) {
+        logger.error('Evaluation failed:', error);
+        Visualizer.displayError(`Evaluation failed: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    });
+}
+
+/**
+ * Create the AI providers of specs such as "openai" or "ollama:llama3.1:8b", a configured provider
+ * with the model (the deployment for Azure OpenAI) replaced
+ */
+function createEvaluatedProviders(
+  specs: string[],
+  configs: Record<string, AIProviderConfig | string>,
+  providerFactory: ProviderFactory,
+  authProvider: IAuthenticationProvider
+): EvaluatedAIProvider[] {
+  return specs.map(spec => {
+    const separator = spec.indexOf(':');
+    const id = separator >= 0 ? spec.slice(0, separator) : spec;
+    const model = separator >= 0 ? spec.slice(separator + 1) : undefined;
+
+    const configured = configs[id];
+    if (!configured || typeof configured === 'string') {
+      throw new Error(`AI provider '${id}' is not configured`);
+    }
+    const providerConfig: AIProviderConfig = model
+      ? { ...configured, ...(configured.type === 'azure-openai' ? { deploymentName: model } : { model }) }
+      : configured;
+
+    return {
+      id,
+      type: providerConfig.type,
+      model: model ?? providerConfig.deploymentName ?? providerConfig.model,
+      provider: providerFactory.createAIProvider(providerConfig.type, providerConfig, authProvider)
+    };
+  });
+}
+
+function showReport(report: EvaluationReport, comparisons: EvaluationRunComparison[]): void {
+  console.log(chalk.white.bold(`\n📏 ${report.suite}`));
+  for (const run of report.runs) {
+    const { summary } = run;
+    console.log(chalk.cyan(`\n  ${runLabel(run.provider, run.model)}`) + chalk.dim(` · prompt ${run.promptHash}`));
+    console.log(`    Accuracy:        ${formatPercent(summary.accuracy)}`);
+    console.log(`    Syntax valid:    ${formatPercent(summary.syntaxValidity)}`);
+    console.log(`    Executed:        ${formatPercent(summary.executionRate)}`);
+    if (summary.meanConfidence !== undefined) {
+      console.log(`    Confidence:      ${formatPercent(summary.meanConfidence)} mean, Brier score ${summary.brierScore!.toFixed(3)}, ` +
+        `${summary.overconfidence! >= 0 ? 'overconfident' : 'underconfident'} by ${formatPercent(Math.abs(summary.overconfidence!))}`);
+    }
+    console.log(`    Latency:         ${summary.latency.p50Ms} ms p50, ${summary.latency.p95Ms} ms p95`);
+
+    const comparison = comparisons.find(candidate => candidate.label === runLabel(run.provider, run.model));
+    if (comparison) {
+      const delta = `${comparison.accuracyDelta >= 0 ? '+' : ''}${formatPercent(comparison.accuracyDelta)}`;
+      console.log((comparison.accuracyDelta < 0 ? chalk.red : chalk.green)(`    Since baseline:  accuracy ${delta}`));
+      if (comparison.regressions.length > 0) {
+        console.log(chalk.red(`    Regressions:     ${comparison.regressions.join(', ')}`));
+      }
+      if (comparison.fixes.length > 0) {
+        console.log(chalk.green(`    Fixes:           ${comparison.fixes.join(', ')}`));
+      }
+    }
+  }
+  console.log();
+}
+
+function readReport(filePath: string): EvaluationReport {
+  let report: EvaluationReport;
+  try {
+    report = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read baseline report ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!report || !Array.isArray(report.runs)) {
+    throw new Error(`${filePath} is not an evaluation report`);
+  }
+  return report;
+}
+
+function parseRatio(value: string, option: string): number {
+  const ratio = Number(value);
+  if (String(value).trim() === '' || isNaN(ratio) || ratio < 0 || ratio > 1) {
+    throw new Error(`Invalid ${option} value: ${value} (expected a number between 0 and 1)`);
+  }
+  return ratio;
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
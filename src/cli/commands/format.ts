@@ -0,0 +1,38 @@
+import { Command } from 'commander';
+import { Visualizer } from '../../utils/visualizer';
+import { logger } from '../../utils/logger';
+import { formatKql } from '../../utils/kql';
+
+export function createFormatCommand(): Command {
+  return new Command('format')
+    .description('Format a KQL query read from stdin and write it to stdout')
+    .option('--indent <size>', 'Spaces per indentation level', '4')
+    .option('--max-line-length <length>', 'Put summarize/project/extend list items on separate lines beyond this length', '100')
+    .action(async (options) => {
+      try {
+        const indentSize = parseInt(options.indent, 10);
+        const maxLineLength = parseInt(options.maxLineLength, 10);
+        if (isNaN(indentSize) || indentSize < 0) {
+          throw new Error(`Invalid indent size: ${options.indent}`);
+        }
+        if (isNaN(maxLineLength) || maxLineLength <= 0) {
+          throw new Error(`Invalid max line length: ${options.maxLineLength}`);
+        }
+
+        const query = await readStdin();
+        process.stdout.write(`${formatKql(query, { indentSize, maxLineLength })}\n`);
+      } catch (error) {
+        logger.error('Format failed:', error);
+        Visualizer.displayError(`Format failed: ${error}`);
+        process.exit(1);
+      }
+    });
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
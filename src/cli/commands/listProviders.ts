@@ -17,9 +17,14 @@ export function createListProvidersCommand(): Command {
         const { AzureOpenAIProvider } = await import('../../providers/ai/AzureOpenAIProvider');
         const { OpenAIProvider } = await import('../../providers/ai/OpenAIProvider');
         const { OllamaProvider } = await import('../../providers/ai/OllamaProvider');
+        const { AnthropicProvider } = await import('../../providers/ai/AnthropicProvider');
+        const { OpenAICompatibleProvider } = await import('../../providers/ai/OpenAICompatibleProvider');
+        const { MockAIProvider } = await import('../../providers/ai/MockAIProvider');
         const { ApplicationInsightsProvider } = await import('../../providers/datasource/ApplicationInsightsProvider');
         const { LogAnalyticsProvider } = await import('../../providers/datasource/LogAnalyticsProvider');
         const { AzureDataExplorerProvider } = await import('../../providers/datasource/AzureDataExplorerProvider');
+        const { AzureMetricsProvider } = await import('../../providers/datasource/AzureMetricsProvider');
+        const { LocalFilesProvider } = await import('../../providers/datasource/LocalFilesProvider');
         const { AzureManagedIdentityProvider } = await import('../../providers/auth/AzureManagedIdentityProvider');
 
         const providerFactory = new ProviderFactory();
@@ -28,9 +33,14 @@ export function createListProvidersCommand(): Command {
         providerFactory.registerAIProvider('azure-openai', AzureOpenAIProvider);
         providerFactory.registerAIProvider('openai', OpenAIProvider);
         providerFactory.registerAIProvider('ollama', OllamaProvider);
+        providerFactory.registerAIProvider('anthropic', AnthropicProvider);
+        providerFactory.registerAIProvider('openai-compatible', OpenAICompatibleProvider);
+        providerFactory.registerAIProvider('mock', MockAIProvider);
         providerFactory.registerDataSourceProvider('application-insights', ApplicationInsightsProvider);
         providerFactory.registerDataSourceProvider('log-analytics', LogAnalyticsProvider);
         providerFactory.registerDataSourceProvider('azure-data-explorer', AzureDataExplorerProvider);
+        providerFactory.registerDataSourceProvider('azure-metrics', AzureMetricsProvider);
+        providerFactory.registerDataSourceProvider('local-files', LocalFilesProvider);
         providerFactory.registerAuthProvider('azure-managed-identity', AzureManagedIdentityProvider);
 
         // Get available providers
@@ -59,7 +69,13 @@ export function createListProvidersCommand(): Command {
                   console.log('      Local LLM using Ollama for offline AI capabilities');
                   break;
                 case 'anthropic':
-                  console.log('      Anthropic Claude API (not yet implemented)');
+                  console.log('      Anthropic Claude API with direct API key authentication');
+                  break;
+                case 'openai-compatible':
+                  console.log('      Any OpenAI-compatible endpoint (vLLM, LM Studio, LiteLLM gateways)');
+                  break;
+                case 'mock':
+                  console.log('      Deterministic answers from a rules file, for offline use and CI');
                   break;
               }
             });
@@ -85,7 +101,10 @@ export function createListProvidersCommand(): Command {
                   console.log('      Azure Monitor Log Analytics for comprehensive log querying');
                   break;
                 case 'azure-metrics':
-                  console.log('      Azure Monitor Metrics (not yet implemented)');
+                  console.log('      Azure Monitor platform metrics of a single resource');
+                  break;
+                case 'local-files':
+                  console.log('      CSV, JSON and NDJSON files queried offline with a subset of KQL');
                   break;
               }
             });
@@ -108,7 +127,7 @@ export function createListProvidersCommand(): Command {
                   console.log('      Azure Managed Identity for passwordless authentication');
                   break;
                 case 'service-principal':
-                  console.log('      Azure Service Principal (not yet implemented)');
+                  console.log('      Azure Service Principal with client secret or certificate');
                   break;
               }
             });
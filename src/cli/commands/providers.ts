@@ -4,6 +4,9 @@ import { ConfigManager } from '../../utils/config';
 import { Visualizer } from '../../utils/visualizer';
 import { logger } from '../../utils/logger';
 import chalk from 'chalk';
+import { AzureCredentialMethod } from '../../core/types/ProviderTypes';
+import { AZURE_CREDENTIAL_METHODS } from '../../providers/auth/credentialChain';
+import { APPLICATION_INSIGHTS_API_KEY_ENV, getEnvReference } from '../../utils/secrets';
 
 /**
  * Create provider management command
@@ -99,6 +102,12 @@ export function createProvidersCommand(): Command {
           case 'ai:ollama':
             newConfig = await configureOllama(currentConfig);
             break;
+          case 'ai:anthropic':
+            newConfig = await configureAnthropic(currentConfig);
+            break;
+          case 'ai:openai-compatible':
+            newConfig = await configureOpenAICompatible(currentConfig);
+            break;
           case 'dataSources:application-insights':
             newConfig = await configureApplicationInsights(currentConfig);
             break;
@@ -108,6 +117,9 @@ export function createProvidersCommand(): Command {
           case 'auth:azure-managed-identity':
             newConfig = await configureAzureManagedIdentity(currentConfig);
             break;
+          case 'auth:service-principal':
+            newConfig = await configureServicePrincipal(currentConfig);
+            break;
           default:
             throw new Error(`Configuration for ${type}:${providerId} is not supported yet`);
         }
@@ -182,6 +194,7 @@ export function createProvidersCommand(): Command {
           }
           if (config.fallbackBehavior.dataSourceProviderOrder) {
             console.log(chalk.dim(`  Data Source Order: ${config.fallbackBehavior.dataSourceProviderOrder.join(' → ')}`));
+            console.log(chalk.dim(`  Data Source Mode: ${config.fallbackBehavior.dataSourceMode || 'failover'}`));
           }
         }
 
@@ -378,6 +391,107 @@ async function configureOllama(currentConfig: any): Promise<any> {
   };
 }
 
+async function configureAnthropic(currentConfig: any): Promise<any> {
+  const updateApiKey = currentConfig.apiKey ? await inquirer.prompt([
+    {
+      type: 'confirm',
+      name: 'updateApiKey',
+      message: 'Update existing API key?',
+      default: false,
+    },
+  ]).then(r => r.updateApiKey) : true;
+
+  let apiKey = currentConfig.apiKey;
+  if (updateApiKey) {
+    const apiKeyAnswer = await inquirer.prompt([
+      {
+        type: 'password',
+        name: 'apiKey',
+        message: 'Anthropic API key:',
+        validate: (input: string) => input.length > 0 || 'API key is required',
+      },
+    ]);
+    apiKey = apiKeyAnswer.apiKey;
+  }
+
+  const modelAnswer = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'model',
+      message: 'Claude model:',
+      choices: [
+        { name: 'Claude Sonnet 4.5 (Recommended)', value: 'claude-sonnet-4-5' },
+        { name: 'Claude Opus 4.1 (Most Capable)', value: 'claude-opus-4-1' },
+        { name: 'Claude Haiku 3.5 (Fast & Cost-effective)', value: 'claude-3-5-haiku-latest' },
+      ],
+      default: currentConfig.model || 'claude-sonnet-4-5',
+    },
+  ]);
+
+  return {
+    type: 'anthropic',
+    ...(currentConfig.endpoint && { endpoint: currentConfig.endpoint }),
+    apiKey,
+    model: modelAnswer.model,
+  };
+}
+
+async function configureOpenAICompatible(currentConfig: any): Promise<any> {
+  const answers = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'endpoint',
+      message: 'Base URL:',
+      default: currentConfig.endpoint || 'http://localhost:8000/v1',
+      validate: (input: string) => {
+        if (!input.length) return 'Base URL is required';
+        try {
+          new URL(input);
+          return true;
+        } catch {
+          return 'Please enter a valid URL';
+        }
+      },
+    },
+    {
+      type: 'input',
+      name: 'model',
+      message: 'Model name:',
+      default: currentConfig.model,
+      validate: (input: string) => input.length > 0 || 'Model name is required',
+    },
+    {
+      type: 'password',
+      name: 'apiKey',
+      message: currentConfig.apiKey ? 'API key (leave empty to keep existing):' : 'API key (leave empty if not required):',
+    },
+    {
+      type: 'input',
+      name: 'authHeader',
+      message: 'Header used to send the API key:',
+      default: currentConfig.authHeader || 'Authorization',
+    },
+    {
+      type: 'confirm',
+      name: 'jsonMode',
+      message: 'Request JSON responses (response_format: json_object)?',
+      default: currentConfig.jsonMode || false,
+    },
+  ]);
+
+  const apiKey = answers.apiKey || currentConfig.apiKey;
+
+  return {
+    type: 'openai-compatible',
+    endpoint: answers.endpoint,
+    model: answers.model,
+    ...(apiKey && { apiKey }),
+    ...(answers.authHeader.toLowerCase() !== 'authorization' && { authHeader: answers.authHeader }),
+    ...(currentConfig.headers && { headers: currentConfig.headers }),
+    jsonMode: answers.jsonMode,
+  };
+}
+
 async function configureApplicationInsights(currentConfig: any): Promise<any> {
   const answers = await inquirer.prompt([
     {
@@ -394,13 +508,36 @@ async function configureApplicationInsights(currentConfig: any): Promise<any> {
       default: currentConfig.tenantId,
       validate: (input: string) => input.length > 0 || 'Tenant ID is required',
     },
+    {
+      type: 'list',
+      name: 'authMode',
+      message: 'Authentication:',
+      choices: [
+        { name: 'Azure AD (auth provider)', value: 'aad' },
+        { name: 'API key', value: 'api-key' },
+      ],
+      default: currentConfig.authMode || 'aad',
+    },
+    {
+      type: 'input',
+      name: 'apiKeyEnv',
+      message: 'Environment variable holding the API key:',
+      when: (answers: any) => answers.authMode === 'api-key',
+      default: getEnvReference(currentConfig.apiKey) || APPLICATION_INSIGHTS_API_KEY_ENV,
+      validate: (input: string) => /^[A-Za-z_][A-Za-z0-9_]*$/.test(input.trim()) || 'Enter a valid environment variable name',
+    },
   ]);
 
+  const apiKeyEnv = answers.apiKeyEnv?.trim();
+  const apiKey = apiKeyEnv && apiKeyEnv !== APPLICATION_INSIGHTS_API_KEY_ENV ? `\${${apiKeyEnv}}` : undefined;
+
   return {
     type: 'application-insights',
     applicationId: answers.applicationId,
     tenantId: answers.tenantId,
     endpoint: 'https://api.applicationinsights.io/v1/apps',
+    ...(answers.authMode === 'api-key' && { authMode: 'api-key' }),
+    ...(apiKey && { apiKey }),
   };
 }
 
@@ -439,10 +576,104 @@ async function configureAzureManagedIdentity(currentConfig: any): Promise<any> {
       default: currentConfig.tenantId,
       validate: (input: string) => input.length > 0 || 'Tenant ID is required',
     },
+    {
+      type: 'input',
+      name: 'credentials',
+      message: `Credentials to try in order, comma-separated (empty for automatic; ${AZURE_CREDENTIAL_METHODS.join(', ')}):`,
+      default: currentConfig.credentials?.join(', ') || '',
+      validate: (input: string) => {
+        const unknown = input.split(',').map(method => method.trim())
+          .filter(method => method !== '' && !AZURE_CREDENTIAL_METHODS.includes(method as AzureCredentialMethod));
+        return unknown.length === 0 || `Unknown credential(s): ${unknown.join(', ')}`;
+      },
+    },
   ]);
 
+  const credentials = answers.credentials.split(',').map((method: string) => method.trim()).filter((method: string) => method !== '');
+
   return {
     type: 'azure-managed-identity',
     tenantId: answers.tenantId,
+    ...(credentials.length > 0 && { credentials }),
   };
-}
\ No newline at end of file
+}
+
+async function configureServicePrincipal(currentConfig: any): Promise<any> {
+  const answers = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'tenantId',
+      message: 'Azure Tenant ID:',
+      default: currentConfig.tenantId,
+      validate: (input: string) => input.length > 0 || 'Tenant ID is required',
+    },
+    {
+      type: 'input',
+      name: 'clientId',
+      message: 'Client (Application) ID:',
+      default: currentConfig.clientId,
+      validate: (input: string) => input.length > 0 || 'Client ID is required',
+    },
+    {
+      type: 'list',
+      name: 'credentialType',
+      message: 'Credential type:',
+      choices: [
+        { name: 'Client secret', value: 'secret' },
+        { name: 'Certificate (PEM file)', value: 'certificate' },
+      ],
+      default: currentConfig.certificatePath ? 'certificate' : 'secret',
+    },
+  ]);
+
+  const config: any = {
+    type: 'service-principal',
+    tenantId: answers.tenantId,
+    clientId: answers.clientId,
+  };
+
+  if (answers.credentialType === 'certificate') {
+    const certificateAnswers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'certificatePath',
+        message: 'Path to the PEM certificate (including the private key):',
+        default: currentConfig.certificatePath,
+        validate: (input: string) => input.length > 0 || 'Certificate path is required',
+      },
+      {
+        type: 'password',
+        name: 'certificatePassword',
+        message: 'Certificate password (leave empty if none):',
+      },
+    ]);
+    config.certificatePath = certificateAnswers.certificatePath;
+    if (certificateAnswers.certificatePassword) {
+      config.certificatePassword = certificateAnswers.certificatePassword;
+    }
+  } else {
+    const updateSecret = currentConfig.clientSecret ? await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'updateSecret',
+        message: 'Update existing client secret?',
+        default: false,
+      },
+    ]).then(r => r.updateSecret) : true;
+
+    config.clientSecret = currentConfig.clientSecret;
+    if (updateSecret) {
+      const { clientSecret } = await inquirer.prompt([
+        {
+          type: 'password',
+          name: 'clientSecret',
+          message: 'Client secret:',
+          validate: (input: string) => input.length > 0 || 'Client secret is required',
+        },
+      ]);
+      config.clientSecret = clientSecret;
+    }
+  }
+
+  return config;
+}
@@ -0,0 +1,88 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { Bootstrap } from '../../infrastructure/Bootstrap';
+import { SchemaDiffResult, SchemaService } from '../../services/SchemaService';
+import { ConfigManager } from '../../utils/config';
+import { Visualizer } from '../../utils/visualizer';
+import { logger } from '../../utils/logger';
+
+export function createSchemaCommand(): Command {
+  const schemaCommand = new Command('schema')
+    .description('Manage the cached schema of the data source');
+
+  schemaCommand
+    .command('refresh')
+    .description('Fetch the schema from the data source into the cache')
+    .action(async () => {
+      try {
+        const schemaService = await getSchemaService();
+        Visualizer.displayInfo('Fetching schema from the data source...');
+        const schema = await schemaService.refresh();
+        const count = Object.keys(schema.tables).length;
+        Visualizer.displaySuccess(`Schema refreshed: ${count} table${count === 1 ? '' : 's'}`);
+      } catch (error) {
+        logger.error('Failed to refresh schema:', error);
+        Visualizer.displayError(`Failed to refresh schema: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    });
+
+  schemaCommand
+    .command('diff')
+    .description('Show tables, columns and custom dimensions added or removed since the last snapshot')
+    .option('--no-save', 'Keep the last snapshot instead of replacing it with the current schema')
+    .action(async (options) => {
+      try {
+        const schemaService = await getSchemaService();
+        Visualizer.displayInfo('Fetching schema from the data source...');
+        showSchemaDiff(await schemaService.diff({ save: options.save }), options.save);
+      } catch (error) {
+        logger.error('Failed to diff schema:', error);
+        Visualizer.displayError(`Failed to diff schema: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    });
+
+  return schemaCommand;
+}
+
+async function getSchemaService(): Promise<SchemaService> {
+  if (!new ConfigManager().validateConfig()) {
+    throw new Error('Configuration is invalid. Please run "aidx setup" first.');
+  }
+  const container = await new Bootstrap().initialize();
+  return container.resolve<SchemaService>('schemaService');
+}
+
+function showSchemaDiff({ previous, current, diff }: SchemaDiffResult, saved: boolean): void {
+  if (!previous || !diff) {
+    const count = Object.keys(current.tables).length;
+    console.log(chalk.dim('\nNo earlier snapshot to compare with'));
+    if (saved) {
+      console.log(chalk.dim(`Saved the current schema (${count} tables) as the baseline of the next diff`));
+    }
+    return;
+  }
+
+  console.log(chalk.white.bold(`\n🔎 Schema changes since ${new Date(previous.takenAt).toLocaleString()}:`));
+  if (diff.addedTables.length === 0 && diff.removedTables.length === 0 && diff.changedTables.length === 0) {
+    console.log(chalk.dim('  No tables or columns were added or removed'));
+  }
+
+  for (const table of diff.addedTables) {
+    const columns = Object.keys(current.tables[table] || {});
+    console.log(chalk.green(`  + ${table}`) + chalk.dim(columns.length > 0 ? ` (${columns.length} columns)` : ''));
+  }
+  for (const table of diff.removedTables) {
+    console.log(chalk.red(`  - ${table}`));
+  }
+  for (const { table, addedColumns, removedColumns } of diff.changedTables) {
+    console.log(chalk.cyan(`  ~ ${table}`));
+    addedColumns.forEach(column => console.log(chalk.green(`      + ${column}`)));
+    removedColumns.forEach(column => console.log(chalk.red(`      - ${column}`)));
+  }
+
+  if (!saved) {
+    console.log(chalk.dim('\nThe snapshot was kept, the next diff compares with it again'));
+  }
+}
@@ -5,6 +5,9 @@ import { Visualizer } from '../../utils/visualizer';
 import { logger } from '../../utils/logger';
 import chalk from 'chalk';
 import { Config } from '../../types';
+import { AzureCredentialMethod } from '../../core/types/ProviderTypes';
+import { AZURE_CREDENTIAL_METHODS } from '../../providers/auth/credentialChain';
+import { APPLICATION_INSIGHTS_API_KEY_ENV } from '../../utils/secrets';
 
 export function createSetupCommand(): Command {
   const setupCommand = new Command('setup')
@@ -100,6 +103,9 @@ async function chooseAIProvider(): Promise<string> {
         { name: '🔷 Azure OpenAI (Recommended)', value: 'azure-openai' },
         { name: '🟢 OpenAI', value: 'openai' },
         { name: '🏠 Ollama (Local LLM)', value: 'ollama' },
+        { name: '🟠 Anthropic Claude', value: 'anthropic' },
+        { name: '🔌 OpenAI-compatible endpoint (vLLM, LM Studio, LiteLLM)', value: 'openai-compatible' },
+        { name: '🧪 Mock (rules file, offline)', value: 'mock' },
       ],
     },
   ]);
@@ -118,6 +124,12 @@ async function configureAIProvider(provider: string): Promise<any> {
       return await configureOpenAI();
     case 'ollama':
       return await configureOllama();
+    case 'anthropic':
+      return await configureAnthropic();
+    case 'openai-compatible':
+      return await configureOpenAICompatible();
+    case 'mock':
+      return await configureMock();
     default:
       throw new Error(`Unsupported AI provider: ${provider}`);
   }
@@ -243,6 +255,116 @@ async function configureOllama(): Promise<any> {
   };
 }
 
+/**
+ * Configure Anthropic
+ */
+async function configureAnthropic(): Promise<any> {
+  const answers = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'apiKey',
+      message: 'Enter your Anthropic API key:',
+      validate: (input) => input.trim() !== '' || 'Anthropic API key is required',
+    },
+    {
+      type: 'list',
+      name: 'model',
+      message: 'Select Claude model:',
+      choices: [
+        { name: 'Claude Sonnet 4.5 (Recommended)', value: 'claude-sonnet-4-5' },
+        { name: 'Claude Opus 4.1 (Most Capable)', value: 'claude-opus-4-1' },
+        { name: 'Claude Haiku 3.5 (Fast & Cost-effective)', value: 'claude-3-5-haiku-latest' },
+      ],
+      default: 'claude-sonnet-4-5',
+    },
+  ]);
+
+  return {
+    type: 'anthropic',
+    apiKey: answers.apiKey,
+    model: answers.model,
+  };
+}
+
+/**
+ * Configure OpenAI-compatible endpoint
+ */
+async function configureOpenAICompatible(): Promise<any> {
+  const answers = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'endpoint',
+      message: 'Enter the base URL of the OpenAI-compatible API:',
+      default: 'http://localhost:8000/v1',
+      validate: (input) => {
+        const trimmedInput = input.trim();
+        if (trimmedInput === '') return 'Base URL is required';
+        try {
+          new URL(trimmedInput);
+          return true;
+        } catch {
+          return 'Please enter a valid URL';
+        }
+      },
+    },
+    {
+      type: 'input',
+      name: 'model',
+      message: 'Enter the model name served by the endpoint:',
+      validate: (input) => input.trim() !== '' || 'Model name is required',
+    },
+    {
+      type: 'password',
+      name: 'apiKey',
+      message: 'Enter API key (leave empty if not required):',
+    },
+    {
+      type: 'input',
+      name: 'authHeader',
+      message: 'Header used to send the API key:',
+      default: 'Authorization',
+      when: (answers) => answers.apiKey.trim() !== '',
+    },
+    {
+      type: 'confirm',
+      name: 'jsonMode',
+      message: 'Request JSON responses (response_format: json_object)?',
+      default: false,
+    },
+  ]);
+
+  const apiKey = answers.apiKey.trim();
+  const authHeader = answers.authHeader?.trim();
+
+  return {
+    type: 'openai-compatible',
+    endpoint: answers.endpoint.trim(),
+    model: answers.model.trim(),
+    ...(apiKey && { apiKey }),
+    ...(authHeader && authHeader.toLowerCase() !== 'authorization' && { authHeader }),
+    jsonMode: answers.jsonMode,
+  };
+}
+
+/**
+ * Configure the mock provider
+ */
+async function configureMock(): Promise<any> {
+  const answers = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'rulesFile',
+      message: 'Enter the rules file mapping questions to KQL (optional, templates are used otherwise):',
+    },
+  ]);
+
+  const rulesFile = answers.rulesFile.trim();
+  return {
+    type: 'mock',
+    ...(rulesFile && { rulesFile }),
+  };
+}
+
 /**
  * Choose Data Source Provider
  */
@@ -256,6 +378,8 @@ async function chooseDataSourceProvider(): Promise<string> {
         { name: '📊 Application Insights (Recommended)', value: 'application-insights' },
         { name: '📈 Log Analytics', value: 'log-analytics' },
         { name: '🔍 Azure Data Explorer', value: 'azure-data-explorer' },
+        { name: '📉 Azure Metrics', value: 'azure-metrics' },
+        { name: '📁 Local files (offline)', value: 'local-files' },
       ],
     },
   ]);
@@ -274,6 +398,10 @@ async function configureDataSourceProvider(provider: string): Promise<any> {
       return await configureLogAnalytics();
     case 'azure-data-explorer':
       return await configureAzureDataExplorer();
+    case 'azure-metrics':
+      return await configureAzureMetrics();
+    case 'local-files':
+      return await configureLocalFiles();
     default:
       throw new Error(`Unsupported data source provider: ${provider}`);
   }
@@ -302,13 +430,57 @@ async function configureApplicationInsights(): Promise<any> {
       message: 'Enter Application Insights endpoint:',
       default: 'https://api.applicationinsights.io/v1/apps',
     },
+    {
+      type: 'list',
+      name: 'authMode',
+      message: 'How should requests be authenticated?',
+      choices: [
+        { name: 'Azure AD (auth provider)', value: 'aad' },
+        { name: 'API key (read-only key from the API Access blade)', value: 'api-key' },
+      ],
+    },
+    {
+      type: 'list',
+      name: 'apiKeySource',
+      message: 'Where should the API key be read from?',
+      when: (answers) => answers.authMode === 'api-key',
+      choices: [
+        { name: 'Environment variable (recommended, keeps the key out of config.json)', value: 'env' },
+        { name: 'Configuration file', value: 'config' },
+      ],
+    },
+    {
+      type: 'input',
+      name: 'apiKeyEnv',
+      message: 'Environment variable holding the API key:',
+      when: (answers) => answers.apiKeySource === 'env',
+      default: APPLICATION_INSIGHTS_API_KEY_ENV,
+      validate: (input) => /^[A-Za-z_][A-Za-z0-9_]*$/.test(input.trim()) || 'Enter a valid environment variable name',
+    },
+    {
+      type: 'password',
+      name: 'apiKey',
+      message: 'Enter the API key:',
+      when: (answers) => answers.apiKeySource === 'config',
+      validate: (input) => input.trim() !== '' || 'API key is required',
+    },
   ]);
 
+  // The default variable is read without a reference, other variables are stored as "${NAME}"
+  const apiKeyEnv = answers.apiKeyEnv?.trim();
+  const apiKey = answers.apiKey?.trim() || (apiKeyEnv && apiKeyEnv !== APPLICATION_INSIGHTS_API_KEY_ENV ? `\${${apiKeyEnv}}` : undefined);
+
+  if (apiKeyEnv && !process.env[apiKeyEnv]) {
+    Visualizer.displayWarning(`${apiKeyEnv} is not set, export it before running queries`);
+  }
+
   return {
     type: 'application-insights',
     applicationId: answers.applicationId,
     tenantId: answers.tenantId,
     endpoint: answers.endpoint,
+    ...(answers.authMode === 'api-key' && { authMode: 'api-key' }),
+    ...(apiKey && { apiKey }),
   };
 }
 
@@ -471,6 +643,52 @@ async function configureAzureDataExplorer(): Promise<any> {
   }
 }
 
+/**
+ * Configure Azure Metrics
+ */
+async function configureAzureMetrics(): Promise<any> {
+  const answers = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'resourceId',
+      message: 'Enter the resource ID to query metrics for (/subscriptions/.../providers/...):',
+      validate: (input) => /^\/subscriptions\/[^/]+\/resourceGroups\/[^/]+\/providers\/.+\/.+/i.test(input.trim()) ||
+        'Resource ID must look like /subscriptions/{id}/resourceGroups/{group}/providers/{namespace}/{type}/{name}',
+    },
+    {
+      type: 'input',
+      name: 'tenantId',
+      message: 'Enter your Azure Tenant ID:',
+      validate: (input) => input.trim() !== '' || 'Tenant ID is required',
+    },
+  ]);
+
+  return {
+    type: 'azure-metrics',
+    resourceId: answers.resourceId.trim(),
+    tenantId: answers.tenantId,
+  };
+}
+
+/**
+ * Configure local files
+ */
+async function configureLocalFiles(): Promise<any> {
+  const answers = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'directory',
+      message: 'Enter the directory of CSV, JSON or NDJSON files (one table per file):',
+      validate: (input) => input.trim() !== '' || 'Directory is required',
+    },
+  ]);
+
+  return {
+    type: 'local-files',
+    directory: answers.directory.trim(),
+  };
+}
+
 /**
  * Choose Authentication Provider
  */
@@ -482,6 +700,7 @@ async function chooseAuthProvider(): Promise<string> {
       message: 'Choose your authentication method:',
       choices: [
         { name: '🔐 Azure Managed Identity (Recommended)', value: 'azure-managed-identity' },
+        { name: '🔑 Service Principal (client secret or certificate)', value: 'service-principal' },
       ],
     },
   ]);
@@ -496,6 +715,8 @@ async function configureAuthProvider(provider: string): Promise<any> {
   switch (provider) {
     case 'azure-managed-identity':
       return await configureAzureManagedIdentity();
+    case 'service-principal':
+      return await configureServicePrincipal();
     default:
       throw new Error(`Unsupported auth provider: ${provider}`);
   }
@@ -512,11 +733,101 @@ async function configureAzureManagedIdentity(): Promise<any> {
       message: 'Enter your Azure Tenant ID:',
       validate: (input) => input.trim() !== '' || 'Tenant ID is required',
     },
+    {
+      type: 'list',
+      name: 'credentialChain',
+      message: 'Which Azure credentials should be used?',
+      choices: [
+        { name: 'Automatic (environment, workload identity, managed identity, Azure CLI, ...)', value: 'default' },
+        { name: 'Azure CLI only (az login)', value: 'azure-cli' },
+        { name: 'Managed identity only', value: 'managed-identity' },
+        { name: 'Azure CLI, then device code login (headless/SSH sessions)', value: 'azure-cli,device-code' },
+        { name: 'Custom order', value: 'custom' },
+      ],
+      default: 'default',
+    },
+    {
+      type: 'input',
+      name: 'customChain',
+      message: `Enter credentials in order, comma-separated (${AZURE_CREDENTIAL_METHODS.join(', ')}):`,
+      when: (answers) => answers.credentialChain === 'custom',
+      validate: (input) => {
+        const methods = parseCredentialChain(input);
+        if (methods.length === 0) return 'At least one credential is required';
+        const unknown = methods.filter(method => !AZURE_CREDENTIAL_METHODS.includes(method as AzureCredentialMethod));
+        return unknown.length === 0 || `Unknown credential(s): ${unknown.join(', ')}`;
+      },
+    },
   ]);
 
+  const chain = answers.credentialChain === 'custom' ? answers.customChain : answers.credentialChain;
+
   return {
     type: 'azure-managed-identity',
     tenantId: answers.tenantId,
+    ...(chain !== 'default' && { credentials: parseCredentialChain(chain) }),
+  };
+}
+
+function parseCredentialChain(input: string): string[] {
+  return input.split(',').map(method => method.trim()).filter(method => method !== '');
+}
+
+/**
+ * Configure Service Principal
+ */
+async function configureServicePrincipal(): Promise<any> {
+  const answers = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'tenantId',
+      message: 'Enter your Azure Tenant ID:',
+      validate: (input) => input.trim() !== '' || 'Tenant ID is required',
+    },
+    {
+      type: 'input',
+      name: 'clientId',
+      message: 'Enter the Client (Application) ID of the service principal:',
+      validate: (input) => input.trim() !== '' || 'Client ID is required',
+    },
+    {
+      type: 'list',
+      name: 'credentialType',
+      message: 'Choose the credential type:',
+      choices: [
+        { name: 'Client secret', value: 'secret' },
+        { name: 'Certificate (PEM file)', value: 'certificate' },
+      ],
+    },
+    {
+      type: 'password',
+      name: 'clientSecret',
+      message: 'Enter the client secret:',
+      when: (answers) => answers.credentialType === 'secret',
+      validate: (input) => input.trim() !== '' || 'Client secret is required',
+    },
+    {
+      type: 'input',
+      name: 'certificatePath',
+      message: 'Enter the path to the PEM certificate (including the private key):',
+      when: (answers) => answers.credentialType === 'certificate',
+      validate: (input) => input.trim() !== '' || 'Certificate path is required',
+    },
+    {
+      type: 'password',
+      name: 'certificatePassword',
+      message: 'Enter the certificate password (optional):',
+      when: (answers) => answers.credentialType === 'certificate',
+    },
+  ]);
+
+  return {
+    type: 'service-principal',
+    tenantId: answers.tenantId.trim(),
+    clientId: answers.clientId.trim(),
+    ...(answers.clientSecret && { clientSecret: answers.clientSecret }),
+    ...(answers.certificatePath && { certificatePath: answers.certificatePath.trim() }),
+    ...(answers.certificatePassword && { certificatePassword: answers.certificatePassword }),
   };
 }
 
@@ -3,6 +3,10 @@ import { ConfigManager } from '../../utils/config';
 import { Visualizer } from '../../utils/visualizer';
 import { logger } from '../../utils/logger';
 import { ProviderConfigValidator } from '../../utils/providerValidation';
+import { Bootstrap } from '../../infrastructure/Bootstrap';
+import { IAuthenticationProvider } from '../../core/interfaces';
+import { describeCredentialMethod } from '../../providers/auth/credentialChain';
+import { APPLICATION_INSIGHTS_API_KEY_ENV, describeSecretSource } from '../../utils/secrets';
 import chalk from 'chalk';
 
 export function createStatusCommand(): Command {
@@ -48,7 +52,12 @@ async function checkStatus(configManager: ConfigManager, options: any): Promise<
   const aiConfig = configManager.getProviderConfig('ai', defaultAI);
   
   console.log(chalk.cyan(`  🤖 AI Provider: ${defaultAI}`));
-  if (aiConfig && aiConfig.endpoint) {
+  if (aiConfig && aiConfig.type === 'mock') {
+    console.log(chalk.green('    ✅ Configured (mock)'));
+    if (options.verbose) {
+      console.log(chalk.dim(`    Rules file: ${aiConfig.rulesFile || 'none (query templates only)'}`));
+    }
+  } else if (aiConfig && aiConfig.endpoint) {
     console.log(chalk.green('    ✅ Configured'));
     if (options.verbose) {
       console.log(chalk.dim(`    Endpoint: ${aiConfig.endpoint}`));
@@ -68,17 +77,29 @@ async function checkStatus(configManager: ConfigManager, options: any): Promise<
     const validation = ProviderConfigValidator.validateDataSourceConfig(dataSourceConfig);
     if (validation.isValid) {
       console.log(chalk.green('    ✅ Configured'));
+      validation.warnings.forEach(warning => {
+        console.log(chalk.yellow(`    ⚠️  ${warning}`));
+      });
       if (options.verbose) {
         // Show different details based on provider type
         if (dataSourceConfig.type === 'azure-data-explorer') {
           console.log(chalk.dim(`    Cluster URI: ${dataSourceConfig.clusterUri}`));
           console.log(chalk.dim(`    Database: ${dataSourceConfig.database}`));
-          console.log(chalk.dim(`    Authentication: ${dataSourceConfig.requiresAuthentication ? 'Required' : 'Not required'}`));
+          console.log(chalk.dim(`    Authentication: ${dataSourceConfig.requiresAuthentication !== false ? 'Auth provider' : 'DefaultAzureCredential (any signed-in identity)'}`));
+        } else if (dataSourceConfig.type === 'azure-metrics') {
+          const resource = dataSourceConfig.resourceId ||
+            `${dataSourceConfig.resourceGroup}/${dataSourceConfig.resourceType}/${dataSourceConfig.resourceName}`;
+          console.log(chalk.dim(`    Resource: ${resource}`));
+        } else if (dataSourceConfig.type === 'local-files') {
+          console.log(chalk.dim(`    Directory: ${dataSourceConfig.directory}`));
         } else {
           console.log(chalk.dim(`    Endpoint: ${dataSourceConfig.endpoint}`));
           if (dataSourceConfig.applicationId) {
             console.log(chalk.dim(`    Application ID: ${dataSourceConfig.applicationId}`));
           }
+          if (dataSourceConfig.authMode === 'api-key') {
+            console.log(chalk.dim(`    Authentication: API key (${describeSecretSource(dataSourceConfig.apiKey, APPLICATION_INSIGHTS_API_KEY_ENV)})`));
+          }
           if (dataSourceConfig.workspaceId) {
             console.log(chalk.dim(`    Workspace ID: ${dataSourceConfig.workspaceId}`));
           }
@@ -106,6 +127,13 @@ async function checkStatus(configManager: ConfigManager, options: any): Promise<
     console.log(chalk.green('    ✅ Configured'));
     if (options.verbose) {
       console.log(chalk.dim(`    Tenant ID: ${authConfig.tenantId?.substring(0, 8)}...`));
+      if (authConfig.type === 'azure-managed-identity') {
+        console.log(chalk.dim(`    Credential Chain: ${authConfig.credentials?.length ? authConfig.credentials.join(' → ') : 'automatic'}`));
+      }
+      if (authConfig.type === 'service-principal') {
+        console.log(chalk.dim(`    Client ID: ${authConfig.clientId?.substring(0, 8)}...`));
+        console.log(chalk.dim(`    Credential: ${authConfig.certificatePath ? `Certificate (${authConfig.certificatePath})` : 'Client secret'}`));
+      }
     }
   } else {
     console.log(chalk.red('    ❌ Not properly configured'));
@@ -114,7 +142,7 @@ async function checkStatus(configManager: ConfigManager, options: any): Promise<
   // Connection Tests
   if (isValid) {
     console.log(chalk.white.bold('\n🔗 Connection Tests:'));
-    await testConnections(configManager);
+    await testConnections(configManager, options);
   }
 
   // Auto-enhancement check
@@ -151,13 +179,14 @@ async function showDetailedStatus(configManager: ConfigManager, config: any): Pr
     }
     if (config.fallbackBehavior.dataSourceProviderOrder?.length > 1) {
       console.log(chalk.dim(`    Data Source Order: ${config.fallbackBehavior.dataSourceProviderOrder.join(' → ')}`));
+      console.log(chalk.dim(`    Data Source Mode: ${config.fallbackBehavior.dataSourceMode || 'failover'}`));
     }
   } else {
     console.log(chalk.dim('  Provider Fallback: ❌ Disabled'));
   }
 }
 
-async function testConnections(configManager: ConfigManager): Promise<void> {
+async function testConnections(configManager: ConfigManager, options: any): Promise<void> {
   // For now, just show that connections would be tested
   // In a full implementation, you would actually test the connections
   console.log(chalk.dim('  🔍 Testing AI provider connection...'));
@@ -167,5 +196,41 @@ async function testConnections(configManager: ConfigManager): Promise<void> {
   console.log(chalk.green('  ✅ Data source connection: OK'));
   
   console.log(chalk.dim('  🔍 Testing authentication...'));
-  console.log(chalk.green('  ✅ Authentication: OK'));
+  await testAuthentication(options);
+}
+
+/**
+ * Acquire a token with the configured auth provider and report which credential succeeded
+ */
+async function testAuthentication(options: any): Promise<void> {
+  let authProvider: IAuthenticationProvider;
+  try {
+    const container = await new Bootstrap().initialize();
+    authProvider = container.resolve<IAuthenticationProvider>('authProvider');
+  } catch (error) {
+    console.log(chalk.red(`  ❌ Authentication: could not create auth provider (${error})`));
+    return;
+  }
+
+  const isValid = await authProvider.validateCredentials();
+  const report = authProvider.getCredentialReport?.();
+
+  if (isValid) {
+    const details = [
+      ...(report?.method ? [describeCredentialMethod(report.method)] : []),
+      ...(report?.cached ? ['cached token'] : []),
+    ];
+    const credential = details.length > 0 ? ` (${details.join(', ')})` : '';
+    console.log(chalk.green(`  ✅ Authentication: OK${credential}`));
+  } else {
+    console.log(chalk.red('  ❌ Authentication: failed'));
+  }
+
+  // Credentials tried before the one that succeeded, or all of them when none did
+  const failures = report?.attempts.filter(attempt => attempt.error) || [];
+  if (failures.length > 0 && (!isValid || options.verbose)) {
+    for (const attempt of failures) {
+      console.log(chalk.dim(`    ✗ ${describeCredentialMethod(attempt.method)}: ${attempt.error?.split('\n')[0]}`));
+    }
+  }
 }
\ No newline at end of file
@@ -11,6 +11,8 @@ export interface WebUIOptions {
   port: number;
   host: string;
   open: boolean;
+  record?: string;
+  replay?: string;
 }
 
 export function createWebUICommand(): Command {
@@ -19,12 +21,16 @@ export function createWebUICommand(): Command {
     .option('-p, --port <port>', 'Port to run the web server on', '3000')
     .option('-h, --host <host>', 'Host to bind the web server to', 'localhost')
     .option('--no-open', 'Do not automatically open browser')
+    .option('--record <file>', 'Record AI and data source requests and responses into a cassette file, with secrets redacted')
+    .option('--replay <file>', 'Answer AI and data source requests from a recorded cassette file instead of calling them')
     .action(async (options) => {
       try {
         const webUIOptions: WebUIOptions = {
           port: parseInt(options.port, 10),
           host: options.host,
-          open: options.open !== false
+          open: options.open !== false,
+          record: options.record,
+          replay: options.replay
         };
 
         await startWebUI(webUIOptions);
@@ -50,7 +56,7 @@ async function startWebUI(options: WebUIOptions): Promise<void> {
 
   // Initialize Bootstrap and get container
   console.log(chalk.blue('🤖 Initializing services...'));
-  const bootstrap = new Bootstrap();
+  const bootstrap = new Bootstrap({ record: options.record, replay: options.replay });
   await bootstrap.initialize();
   const container = bootstrap.getContainer();
 
@@ -8,10 +8,16 @@ import { createTemplateCommand } from './commands/template';
 import { createListProvidersCommand } from './commands/listProviders';
 import { createProvidersCommand } from './commands/providers';
 import { createWebUICommand } from './commands/webui';
+import { createFormatCommand } from './commands/format';
+import { createAuthCommand } from './commands/auth';
+import { createCacheCommand } from './commands/cache';
+import { createSchemaCommand } from './commands/schema';
+import { createDemoDataCommand } from './commands/demoData';
+import { createEvalCommand } from './commands/eval';
 import { logger } from '../utils/logger';
 import chalk from 'chalk';
 import { Bootstrap } from '../infrastructure/Bootstrap';
-import { IAIProvider, IDataSourceProvider, IAuthenticationProvider } from '../core/interfaces';
+import { IAIProvider, IDataSourceProvider, IAuthenticationProvider, IQueryOrchestrator, ISessionManager } from '../core/interfaces';
 import { QueryGenerationRequest } from '../core/interfaces/IAIProvider';
 import { QueryExecutionRequest } from '../core/interfaces/IDataSourceProvider';
 import { DataSourceType } from '../core/types/ProviderTypes';
@@ -21,8 +27,11 @@ import { ConfigManager } from '../utils/config';
 import { Visualizer } from '../utils/visualizer';
 import { OutputFormatter } from '../utils/outputFormatter';
 import { FileOutputManager } from '../utils/fileOutput';
-import { OutputFormat } from '../types';
+import { NLQuery, OutputFormat, QueryResult } from '../types';
 import { detectTimeSeriesData } from '../utils/chart';
+import { analyzeKqlPerformance, containsKqlManagementCommand, formatKql, KQL_PERFORMANCE_CONFIRM_SCORE } from '../utils/kql';
+import { formatTimeRange, ResolvedTimeRange, resolveTimeRange, TimeOptions } from '../utils/timeExpression';
+import { describeUnappliedTimespan } from '../utils/timeRange';
 
 // Global bootstrap instance
 let bootstrap: Bootstrap;
@@ -50,7 +59,7 @@ export async function handleOutput(result: any, options: any, executionTime: num
       const hideEmptyColumns = !options.showEmptyColumns;
       Visualizer.displayResult(result, { hideEmptyColumns });
       const totalRows = result.tables.reduce((sum: number, table: any) => sum + table.rows.length, 0);
-      Visualizer.displaySummary(executionTime, totalRows);
+      Visualizer.displaySummary(executionTime, totalRows, result.cache);
 
       // Display chart for numeric data when showing table format
       if (result.tables.length > 0 && result.tables[0].rows.length > 1) {
@@ -85,7 +94,7 @@ export async function handleOutput(result: any, options: any, executionTime: num
       
       // Show summary for non-table formats
       const totalRows = result.tables.reduce((sum: number, table: any) => sum + table.rows.length, 0);
-      Visualizer.displaySummary(executionTime, totalRows);
+      Visualizer.displaySummary(executionTime, totalRows, result.cache);
     }
   } else {
     // Output file specified - show table format to console if format is table
@@ -93,7 +102,7 @@ export async function handleOutput(result: any, options: any, executionTime: num
       const hideEmptyColumns = !options.showEmptyColumns;
       Visualizer.displayResult(result, { hideEmptyColumns });
       const totalRows = result.tables.reduce((sum: number, table: any) => sum + table.rows.length, 0);
-      Visualizer.displaySummary(executionTime, totalRows);
+      Visualizer.displaySummary(executionTime, totalRows, result.cache);
 
       // Display chart for table format
       if (result.tables.length > 0 && result.tables[0].rows.length > 1) {
@@ -176,7 +185,9 @@ const program = new Command();
 program
   .name('aidx')
   .description('AppInsights Detective - Query Application Insights with natural language')
-  .version('1.0.0');
+  .version('1.0.0')
+  // Options after a sub command name belong to it, so sub commands can reuse names such as --format and --since
+  .enablePositionalOptions();
 
 // Sub commands
 program.addCommand(createSetupCommand());
@@ -185,6 +196,12 @@ program.addCommand(createTemplateCommand());
 program.addCommand(createListProvidersCommand());
 program.addCommand(createProvidersCommand());
 program.addCommand(createWebUICommand());
+program.addCommand(createFormatCommand());
+program.addCommand(createAuthCommand());
+program.addCommand(createCacheCommand());
+program.addCommand(createSchemaCommand());
+program.addCommand(createDemoDataCommand());
+program.addCommand(createEvalCommand());
 
 // Default Action
 program
@@ -197,6 +214,14 @@ program
   .option('--no-headers', 'Exclude headers in CSV/TSV output')
   .option('--encoding <encoding>', 'File encoding (utf8, utf16le, etc.)', 'utf8')
   .option('--show-empty-columns', 'Show all columns including empty ones (default: hide empty columns)')
+  .option('--since <duration>', 'Query the last duration, e.g. 30m, 2h, 7d or PT2H')
+  .option('--from <time>', 'Start of the time range (ISO 8601 date/time, or a duration ago such as 2d)')
+  .option('--to <time>', 'End of the time range (default: now)')
+  .option('--time <expression>', 'Time range in words, e.g. "yesterday", "last Tuesday" or "between 14:00 and 15:30 yesterday UTC"')
+  .option('--timeout <seconds>', 'Cancel queries that run longer than this on the data source')
+  .option('--no-cache', 'Run the query against the data source instead of reusing a cached result')
+  .option('--record <file>', 'Record AI and data source requests and responses into a cassette file, with secrets redacted')
+  .option('--replay <file>', 'Answer AI and data source requests from a recorded cassette file instead of calling them')
   .action(async (question, options) => {
     try {
       if (question) {
@@ -212,7 +237,7 @@ program
 
         // Initialize providers using bootstrap
         if (!bootstrap) {
-          bootstrap = new Bootstrap();
+          bootstrap = new Bootstrap({ queryCache: options.cache, record: options.record, replay: options.replay });
           await bootstrap.initialize();
         }
         const container = bootstrap.getContainer();
@@ -220,9 +245,12 @@ program
         // Get interactive session controller from container
         const interactiveSessionController = container.resolve<InteractiveSessionController>('interactiveSessionController');
         
-        // Set options from CLI to controller
+        // Set options from CLI to controller; --time is kept as written and resolved for each query of the session
+        const timeRange = getTimeRangeOption(options);
         interactiveSessionController.setOptions({
-          defaultMode: options.raw ? 'raw' : 'step'
+          defaultMode: options.raw ? 'raw' : 'step',
+          timeRange: timeRange && (options.time ?? timeRange.timespan),
+          queryTimeout: getTimeoutOption(options)
         });
 
         await interactiveSessionController.startSession();
@@ -237,8 +265,38 @@ program
     }
   });
 
+/**
+ * Time range of the --time, --since, --from and --to options; exits with an error when they are invalid
+ */
+function getTimeRangeOption(options: TimeOptions): ResolvedTimeRange | undefined {
+  try {
+    return resolveTimeRange(options);
+  } catch (error) {
+    Visualizer.displayError(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+/**
+ * --timeout in milliseconds; exits with an error when it is not a positive number of seconds
+ */
+function getTimeoutOption(options: { timeout?: string }): number | undefined {
+  if (options.timeout === undefined) {
+    return undefined;
+  }
+  const seconds = Number(options.timeout);
+  if (String(options.timeout).trim() === '' || !isFinite(seconds) || seconds <= 0) {
+    Visualizer.displayError(`Invalid --timeout value: ${options.timeout} (expected a number of seconds)`);
+    process.exit(1);
+  }
+  return Math.round(seconds * 1000);
+}
+
 async function executeDirectQuery(question: string, options: any): Promise<void> {
   try {
+    const timeRange = getTimeRangeOption(options);
+    const timespan = timeRange?.timespan;
+    const timeout = getTimeoutOption(options);
     const configManager = new ConfigManager();
 
     if (!configManager.validateConfig()) {
@@ -248,7 +306,7 @@ async function executeDirectQuery(question: string, options: any): Promise<void>
 
     // Initialize the bootstrap container
     if (!bootstrap) {
-      bootstrap = new Bootstrap();
+      bootstrap = new Bootstrap({ queryCache: options.cache, record: options.record, replay: options.replay });
       await bootstrap.initialize();
     }
     const container = bootstrap.getContainer();
@@ -257,11 +315,33 @@ async function executeDirectQuery(question: string, options: any): Promise<void>
     const aiProvider = container.resolve<IAIProvider>('aiProvider');
     const dataSourceProvider = container.resolve<IDataSourceProvider>('dataSourceProvider');
 
+    // Get data source type from configuration
+    const config = configManager.getConfig();
+    const dataSourceType = config.providers.dataSources.default as DataSourceType;
+
     const startTime = Date.now();
 
+    if (timeRange && options.raw && dataSourceType === 'azure-data-explorer') {
+      Visualizer.displayWarning(describeUnappliedTimespan(timeRange.timespan));
+    } else if (timeRange) {
+      Visualizer.displayInfo(`Time range: ${formatTimeRange(timeRange)}`);
+    }
+
     if (options.raw) {
+      // Check the query locally so syntax errors are reported with their position. The local parser
+      // covers a subset of KQL, so the data source has the final say, except on management commands.
+      const validation = await container.resolve<IQueryOrchestrator>('queryOrchestrator').validateQuery(question, { dataSourceType });
+      if (!validation.isValid) {
+        Visualizer.displayDiagnostics(question, validation.diagnostics || []);
+        if (dataSourceType !== 'azure-metrics' && containsKqlManagementCommand(question)) {
+          Visualizer.displayError(validation.error || 'Query validation failed');
+          process.exit(1);
+        }
+        Visualizer.displayWarning(`${validation.error || 'Query validation failed'} (sending the query anyway)`);
+      }
+
       Visualizer.displayInfo(`Executing raw KQL query: ${question}`);
-      const result = await dataSourceProvider.executeQuery({ query: question });
+      const result = await dataSourceProvider.executeQuery({ query: question, timespan, timeout });
       const executionTime = Date.now() - startTime;
 
       await handleOutput(result, options, executionTime);
@@ -272,7 +352,7 @@ async function executeDirectQuery(question: string, options: any): Promise<void>
       await aiProvider.initialize();
 
       // Retrieve schema (optional)
-      let schema;
+      let schema: unknown;
       try {
         const schemaResult = await dataSourceProvider.getSchema();
         schema = schemaResult.schema;
@@ -281,19 +361,42 @@ async function executeDirectQuery(question: string, options: any): Promise<void>
         logger.warn('Could not retrieve schema, proceeding without it');
       }
 
-      // Get data source type from configuration
-      const config = configManager.getConfig();
-      const dataSourceType = config.providers.dataSources.default as DataSourceType;
-
-      // Generate KQL query
-      const nlQuery = await aiProvider.generateQuery({
+      // Generate KQL query, formatted with one pipe stage per line for display (metric queries are JSON and kept as is)
+      const generated = await aiProvider.generateQuery({
         userInput: question,
         schema,
-        dataSourceType
+        dataSourceType,
+        timespan
       });
+      const nlQuery: NLQuery = dataSourceType === 'azure-metrics'
+        ? generated
+        : { ...generated, generatedKQL: formatKql(generated.generatedKQL) };
+
+      // Generated queries run through the orchestrator so execution errors are repaired automatically
+      const queryOrchestrator = container.resolve<IQueryOrchestrator>('queryOrchestrator');
+      const session = await container.resolve<ISessionManager>('sessionManager').createSession({ defaultMode: 'direct' });
+      session.addToHistory(nlQuery.generatedKQL, nlQuery.confidence, 'generated', nlQuery.reasoning);
+
+      const executeGeneratedQuery = async (query: NLQuery): Promise<QueryResult> => {
+        const execution = await queryOrchestrator.executeGeneratedQuery(query, {
+          userInput: question,
+          schema,
+          dataSourceType,
+          session,
+          timespan,
+          timeout
+        });
+        if (execution.repairAttempts > 0) {
+          Visualizer.displayWarning(`Query failed and was repaired automatically (${execution.repairAttempts} attempt(s))`);
+          Visualizer.displayKQLQuery(execution.nlQuery.generatedKQL, execution.nlQuery.confidence, execution.nlQuery.provider);
+        }
+        return execution.result;
+      };
 
-      // Step execution mode for low confidence
-      const shouldUseStepMode = nlQuery.confidence < 0.7;
+      // Step execution mode for low confidence or tables and columns missing from the schema
+      const validation = await queryOrchestrator.validateQuery(nlQuery.generatedKQL, { checkSchema: true, dataSourceType });
+      const shouldUseStepMode = nlQuery.confidence < 0.7 || !validation.isValid || !!validation.diagnostics?.length;
+      const performance = analyzeKqlPerformance(nlQuery.generatedKQL, dataSourceType, timespan);
 
       if (shouldUseStepMode) {
         console.log(chalk.blue.bold('\n🔍 Generated Query Review'));
@@ -303,13 +406,16 @@ async function executeDirectQuery(question: string, options: any): Promise<void>
         console.log(chalk.cyan.bold('\n📝 Original Question:'));
         console.log(chalk.white(`  "${question}"`));
 
-        Visualizer.displayKQLQuery(nlQuery.generatedKQL, nlQuery.confidence);
+        Visualizer.displayKQLQuery(nlQuery.generatedKQL, nlQuery.confidence, nlQuery.provider);
+        console.log(Visualizer.formatPerformanceReport(performance));
 
         if (nlQuery.reasoning) {
           console.log(chalk.cyan.bold('\n💭 AI Reasoning:'));
           console.log(chalk.dim(`  ${nlQuery.reasoning}`));
         }
 
+        Visualizer.displayDiagnostics(nlQuery.generatedKQL, validation.diagnostics || []);
+
         // Show confidence warning
         if (nlQuery.confidence < 0.7) {
           console.log(chalk.yellow.bold('\n⚠️  Low Confidence Warning:'));
@@ -340,7 +446,7 @@ async function executeDirectQuery(question: string, options: any): Promise<void>
 
         if (action === 'execute') {
           // Execute the query normally
-          const result = await dataSourceProvider.executeQuery({ query: nlQuery.generatedKQL });
+          const result = await executeGeneratedQuery(nlQuery);
           const executionTime = Date.now() - startTime;
           await handleOutput(result, options, executionTime);
           return;
@@ -350,17 +456,36 @@ async function executeDirectQuery(question: string, options: any): Promise<void>
         console.log(chalk.yellow(`Action "${action}" is not yet implemented in the simplified mode.`));
         console.log(chalk.cyan('Executing query instead...'));
         
-        const result = await dataSourceProvider.executeQuery({ query: nlQuery.generatedKQL });
+        const result = await executeGeneratedQuery(nlQuery);
         const executionTime = Date.now() - startTime;
         await handleOutput(result, options, executionTime);
         return;
       } else {
         // Normal execution (high confidence) - display the generated query
-        Visualizer.displayKQLQuery(nlQuery.generatedKQL, nlQuery.confidence);
+        Visualizer.displayKQLQuery(nlQuery.generatedKQL, nlQuery.confidence, nlQuery.provider);
+
+        // Queries the performance advisor scores low run only after confirmation
+        if (performance.score < KQL_PERFORMANCE_CONFIRM_SCORE) {
+          Visualizer.displayPerformanceReport(performance);
+          const inquirer = await import('inquirer');
+          const { executeAnyway } = await inquirer.default.prompt([
+            {
+              type: 'confirm',
+              name: 'executeAnyway',
+              message: 'This query may be slow or expensive. Execute anyway?',
+              default: false
+            }
+          ]);
+
+          if (!executeAnyway) {
+            console.log(chalk.yellow('Query execution cancelled.'));
+            return;
+          }
+        }
       }
 
       // Execute query
-      const result = await dataSourceProvider.executeQuery({ query: nlQuery.generatedKQL });
+      const result = await executeGeneratedQuery(nlQuery);
       const executionTime = Date.now() - startTime;
 
       await handleOutput(result, options, executionTime);
@@ -380,6 +505,8 @@ function showWelcomeMessage(): void {
   console.log(chalk.cyan('  aidx setup') + chalk.dim('                    # Configure your settings'));
   console.log(chalk.cyan('  aidx status') + chalk.dim('                   # Check configuration status'));
   console.log(chalk.cyan('  aidx "show me errors"') + chalk.dim('        # Ask a question (auto step-mode for low confidence)'));
+  console.log(chalk.cyan('  aidx "show me errors" --since 2h') + chalk.dim(' # Ask about the last 2 hours only'));
+  console.log(chalk.cyan('  aidx "show me errors" --time "between 14:00 and 15:30 yesterday"') + chalk.dim(' # Ask about a time range in words'));
   console.log(chalk.cyan('  aidx --interactive') + chalk.dim('           # Full interactive session'));
   console.log(chalk.cyan('  aidx --raw "requests | take 5"') + chalk.dim(' # Raw KQL query'));
   console.log('');
@@ -10,6 +10,8 @@ export interface QueryGenerationRequest {
   language?: SupportedLanguage;
   dataSourceType?: DataSourceType;
   extraContext?: string;
+  signal?: AbortSignal;
+  timespan?: string; // Time window the query will run over, so that the AI does not hardcode one
 }
 
 /**
@@ -30,6 +32,8 @@ export interface RegenerationRequest {
   language?: SupportedLanguage;
   dataSourceType?: DataSourceType;
   extraContext?: string;
+  signal?: AbortSignal;
+  timespan?: string;
 }
 
 /**
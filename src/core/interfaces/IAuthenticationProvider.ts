@@ -1,3 +1,28 @@
+/**
+ * Credential tried while acquiring a token, with the error when it failed
+ */
+export interface CredentialAttempt {
+  method: string;
+  error?: string;
+}
+
+/**
+ * Which credential the provider authenticated with, for status reporting
+ */
+export interface CredentialReport {
+  method?: string; // Credential that returned the last token, undefined before the first success
+  attempts: CredentialAttempt[]; // Credentials tried for the last token request, in order
+  cached?: boolean; // The last token came from the token cache
+}
+
+/**
+ * Access token with the time it expires
+ */
+export interface AccessTokenWithExpiry {
+  token: string;
+  expiresOnTimestamp: number;
+}
+
 /**
  * Core interface for authentication providers
  */
@@ -7,6 +32,11 @@ export interface IAuthenticationProvider {
    */
   getAccessToken(scopes: string[]): Promise<string>;
 
+  /**
+   * Get access token for specified scopes together with its expiry
+   */
+  getAccessTokenWithExpiry?(scopes: string[]): Promise<AccessTokenWithExpiry>;
+
   /**
    * Validate current credentials
    */
@@ -16,4 +46,9 @@ export interface IAuthenticationProvider {
    * Get token specifically for OpenAI/AI services
    */
   getOpenAIToken(): Promise<string>;
-}
+
+  /**
+   * Report the credential used for the last token request
+   */
+  getCredentialReport?(): CredentialReport;
+}
\ No newline at end of file
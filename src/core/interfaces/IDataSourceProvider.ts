@@ -5,8 +5,9 @@ import { QueryResult } from '../../types';
  */
 export interface QueryExecutionRequest {
   query: string;
-  timeout?: number;
-  timespan?: string;
+  timeout?: number; // Milliseconds
+  timespan?: string; // ISO 8601 duration (PT24H) or interval (start/end)
+  signal?: AbortSignal; // Cancels the request, and the query on the service where supported
 }
 
 /**
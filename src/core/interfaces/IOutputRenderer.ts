@@ -1,4 +1,4 @@
-import { QueryResult, AnalysisResult } from '../../types';
+import { QueryResult, AnalysisResult, KqlDiagnostic, KqlPerformanceReport } from '../../types';
 
 /**
  * Options for rendering output
@@ -42,7 +42,17 @@ export interface IOutputRenderer {
   /**
    * Render query with metadata
    */
-  renderQuery(query: string, confidence: number, reasoning?: string): RenderedOutput;
+  renderQuery(query: string, confidence: number, reasoning?: string, provider?: string): RenderedOutput;
+  
+  /**
+   * Render positioned query diagnostics
+   */
+  renderDiagnostics(query: string, diagnostics: KqlDiagnostic[]): RenderedOutput;
+  
+  /**
+   * Render performance advisor score and findings
+   */
+  renderPerformanceReport(report: KqlPerformanceReport): RenderedOutput;
   
   /**
    * Render error message
@@ -1,5 +1,6 @@
-import { QueryResult, NLQuery, QueryResultWithTiming } from '../../types';
+import { QueryResult, NLQuery, QueryResultWithTiming, KqlDiagnostic } from '../../types';
 import { DataSourceType } from '../types/ProviderTypes';
+import { IQuerySession } from './ISessionManager';
 
 /**
  * Request for natural language query execution
@@ -10,6 +11,36 @@ export interface NLQueryRequest {
   language?: string;
   dataSourceType?: DataSourceType;
   extraContext?: string;
+  session?: IQuerySession; // Session that records generated and repaired queries
+  maxRegenerationAttempts?: number; // Overrides session.options.maxRegenerationAttempts
+  signal?: AbortSignal; // Cancels query generation, execution and repairs
+  timespan?: string; // ISO 8601 duration or interval the query runs over, also described to the AI
+  timeout?: number; // Execution timeout in milliseconds
+}
+
+/**
+ * Result of executing a generated query, including automatic repairs
+ */
+export interface GeneratedQueryExecutionResult extends QueryResultWithTiming {
+  nlQuery: NLQuery; // Query that finally executed (the repaired one if repairs happened)
+  repairAttempts: number;
+}
+
+/**
+ * Result of validating a KQL query
+ */
+export interface QueryValidationResult {
+  isValid: boolean;
+  error?: string; // First error, prefixed with its line and column
+  diagnostics?: KqlDiagnostic[];
+}
+
+/**
+ * Options for validating a KQL query
+ */
+export interface QueryValidationOptions {
+  checkSchema?: boolean; // Also resolve referenced tables and columns against the data source schema
+  dataSourceType?: DataSourceType; // azure-metrics queries are metric query JSON rather than KQL
 }
 
 /**
@@ -19,6 +50,18 @@ export interface TemplateQueryRequest {
   templateId: string;
   parameters: Record<string, any>;
   schema?: any;
+  signal?: AbortSignal;
+  timespan?: string;
+  timeout?: number;
+}
+
+/**
+ * Options for raw KQL query execution
+ */
+export interface RawQueryOptions {
+  signal?: AbortSignal;
+  timespan?: string;
+  timeout?: number;
 }
 
 /**
@@ -28,7 +71,13 @@ export interface IQueryOrchestrator {
   /**
    * Execute a natural language query
    */
-  executeNaturalLanguageQuery(request: NLQueryRequest): Promise<QueryResultWithTiming>;
+  executeNaturalLanguageQuery(request: NLQueryRequest): Promise<GeneratedQueryExecutionResult>;
+
+  /**
+   * Execute an already generated query; when execution fails, the error and the
+   * failing KQL are fed back to the AI provider to repair the query
+   */
+  executeGeneratedQuery(nlQuery: NLQuery, request: NLQueryRequest): Promise<GeneratedQueryExecutionResult>;
 
   /**
    * Execute a template query
@@ -38,10 +87,10 @@ export interface IQueryOrchestrator {
   /**
    * Execute a raw KQL query
    */
-  executeRawQuery(query: string): Promise<QueryResultWithTiming>;
+  executeRawQuery(query: string, options?: RawQueryOptions): Promise<QueryResultWithTiming>;
 
   /**
    * Validate a KQL query
    */
-  validateQuery(query: string): Promise<{ isValid: boolean; error?: string }>;
+  validateQuery(query: string, options?: QueryValidationOptions): Promise<QueryValidationResult>;
 }
\ No newline at end of file
@@ -9,6 +9,9 @@ export interface SessionOptions {
   showConfidenceThreshold?: number;
   allowEditing?: boolean;
   maxRegenerationAttempts?: number;
+  timeRange?: string; // Time window of the session's queries as written: a duration (24h), an ISO 8601 interval or an expression ("since 9am")
+  timeZone?: string; // Zone the time range is resolved in when it names none
+  queryTimeout?: number; // Milliseconds a query may run on the service before it is cancelled there
 }
 
 /**
@@ -22,14 +25,14 @@ export interface IQuerySession {
     query: string;
     timestamp: Date;
     confidence: number;
-    action: 'generated' | 'edited' | 'regenerated';
+    action: 'generated' | 'edited' | 'regenerated' | 'failed';
     reason?: string;
   }>;
   
   /**
    * Add a query to the session history
    */
-  addToHistory(query: string, confidence: number, action: 'generated' | 'edited' | 'regenerated', reason?: string): void;
+  addToHistory(query: string, confidence: number, action: 'generated' | 'edited' | 'regenerated' | 'failed', reason?: string): void;
   
   /**
    * Get query history
@@ -43,7 +46,7 @@ export interface IQuerySession {
     query: string;
     timestamp: Date;
     confidence: number;
-    action: 'generated' | 'edited' | 'regenerated';
+    action: 'generated' | 'edited' | 'regenerated' | 'failed';
     reason?: string;
   }>;
 }
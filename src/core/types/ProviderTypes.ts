@@ -1,7 +1,17 @@
 // Provider type enums
-export type AIProviderType = 'azure-openai' | 'openai' | 'anthropic' | 'ollama';
-export type DataSourceType = 'application-insights' | 'log-analytics' | 'azure-metrics' | 'azure-data-explorer';
+export type AIProviderType = 'azure-openai' | 'openai' | 'anthropic' | 'ollama' | 'openai-compatible' | 'mock';
+export type DataSourceType = 'application-insights' | 'log-analytics' | 'azure-metrics' | 'azure-data-explorer' | 'local-files';
 export type AuthType = 'azure-managed-identity' | 'service-principal';
+export type DataSourceAuthMode = 'aad' | 'api-key';
+export type AzureCredentialMethod =
+  | 'environment'
+  | 'workload-identity'
+  | 'managed-identity'
+  | 'azure-cli'
+  | 'azure-developer-cli'
+  | 'azure-powershell'
+  | 'device-code'
+  | 'interactive-browser';
 export type ExternalExecutionProviderType = 'application-insights' | 'log-analytics';
 
 // Configuration interfaces for providers
@@ -11,6 +21,24 @@ export interface AIProviderConfig {
   apiKey?: string;
   deploymentName?: string;
   model?: string;
+  // OpenAI-compatible endpoint specific fields
+  authHeader?: string;
+  headers?: Record<string, string>;
+  jsonMode?: boolean;
+  // Mock provider specific fields: JSON file of rules mapping questions to answers
+  rulesFile?: string;
+}
+
+/**
+ * Retry and circuit breaker settings for the HTTP calls of a data source
+ */
+export interface HttpRetryConfig {
+  maxRetries?: number; // Retries after the first attempt (default: 3, 0 disables retries)
+  baseDelayMs?: number; // First backoff delay, doubled on every retry (default: 500)
+  maxDelayMs?: number; // Upper bound of a backoff delay (default: 30000)
+  maxRetryAfterMs?: number; // Longer Retry-After waits fail the request instead (default: 60000)
+  circuitBreakerThreshold?: number; // Consecutive failed requests that open the circuit (default: 5)
+  circuitBreakerResetMs?: number; // How long the circuit stays open before a trial request (default: 30000)
 }
 
 export interface DataSourceConfig {
@@ -26,13 +54,27 @@ export interface DataSourceConfig {
   clusterUri?: string;
   database?: string;
   requiresAuthentication?: boolean;
+  // Application Insights API key authentication (apiKey can be a "${ENV_VAR}" reference)
+  authMode?: DataSourceAuthMode;
+  apiKey?: string;
+  // Azure Metrics specific fields (resourceId, or resourceType with subscriptionId, resourceGroup and resourceName)
+  resourceId?: string;
+  resourceType?: string; // e.g. Microsoft.Compute/virtualMachines
+  // Local files specific fields: directory of CSV, JSON and NDJSON files, one table per file
+  directory?: string;
+  retry?: HttpRetryConfig;
 }
 
 export interface AuthConfig {
   type: AuthType;
   tenantId?: string;
-  clientId?: string;
+  clientId?: string; // Service principal, or user-assigned managed identity / workload identity
   clientSecret?: string;
+  credentials?: AzureCredentialMethod[]; // Credentials tried in order (azure-managed-identity, default: like DefaultAzureCredential)
+  certificatePath?: string; // PEM file with the certificate and private key (service principal)
+  certificatePassword?: string;
+  sendCertificateChain?: boolean; // Needed for subject name/issuer authentication
+  tokenCache?: boolean; // Keep tokens in the encrypted on-disk cache (default: true)
 }
 
 export interface ExternalExecutionProviderConfig {
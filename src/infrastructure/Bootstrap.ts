@@ -3,10 +3,25 @@ import { ProviderFactory } from '../infrastructure/di/ProviderFactory';
 import { AzureOpenAIProvider } from '../providers/ai/AzureOpenAIProvider';
 import { OpenAIProvider } from '../providers/ai/OpenAIProvider';
 import { OllamaProvider } from '../providers/ai/OllamaProvider';
+import { AnthropicProvider } from '../providers/ai/AnthropicProvider';
+import { OpenAICompatibleProvider } from '../providers/ai/OpenAICompatibleProvider';
+import { MockAIProvider } from '../providers/ai/MockAIProvider';
+import { FailoverAIProvider, NamedAIProvider } from '../providers/ai/FailoverAIProvider';
+import { RecordingAIProvider } from '../providers/ai/RecordingAIProvider';
 import { ApplicationInsightsProvider } from '../providers/datasource/ApplicationInsightsProvider';
 import { LogAnalyticsProvider } from '../providers/datasource/LogAnalyticsProvider';
 import { AzureDataExplorerProvider } from '../providers/datasource/AzureDataExplorerProvider';
+import { AzureMetricsProvider } from '../providers/datasource/AzureMetricsProvider';
+import { LocalFilesProvider } from '../providers/datasource/LocalFilesProvider';
+import { CompositeDataSourceProvider, NamedDataSourceProvider } from '../providers/datasource/CompositeDataSourceProvider';
+import { CachedDataSourceProvider, getDataSourceCacheIdentity } from '../providers/datasource/CachedDataSourceProvider';
+import { QueryResultCache } from '../providers/datasource/QueryResultCache';
+import { CachedSchemaDataSourceProvider } from '../providers/datasource/CachedSchemaDataSourceProvider';
+import { RecordingDataSourceProvider } from '../providers/datasource/RecordingDataSourceProvider';
+import { SchemaCache } from '../providers/datasource/SchemaCache';
 import { AzureManagedIdentityProvider } from '../providers/auth/AzureManagedIdentityProvider';
+import { ServicePrincipalProvider } from '../providers/auth/ServicePrincipalProvider';
+import { CachedAuthenticationProvider } from '../providers/auth/CachedAuthenticationProvider';
 import { ApplicationInsightsExternalProvider } from '../providers/external-execution/ApplicationInsightsExternalProvider';
 import { LogAnalyticsExternalProvider } from '../providers/external-execution/LogAnalyticsExternalProvider';
 import { 
@@ -19,8 +34,10 @@ import {
   IOutputRenderer,
   ITemplateRepository
 } from '../core/interfaces';
+import { Config } from '../types';
 import { ConfigManager } from '../utils/config';
 import { logger } from '../utils/logger';
+import { Cassette, collectSecrets } from '../utils/cassette';
 // Phase 3 imports
 import { QueryOrchestrator, SessionManager } from '../services/orchestration';
 import { QueryService } from '../services/QueryService';
@@ -29,8 +46,18 @@ import { ConsoleOutputRenderer } from '../presentation/renderers/ConsoleOutputRe
 import { InteractiveSessionController } from '../presentation/InteractiveSessionController';
 import { QueryEditorService } from '../services/QueryEditorService';
 import { ExternalExecutionService } from '../services/externalExecutionService';
+import { SchemaService } from '../services/SchemaService';
 import { IQueryEditorService } from '../core/interfaces/IQueryEditorService';
 
+/**
+ * Options of a bootstrap run, set from command line flags
+ */
+export interface BootstrapOptions {
+  queryCache?: boolean; // false runs every query against the data source (--no-cache)
+  record?: string; // Cassette file recording the AI and data source interactions (--record)
+  replay?: string; // Cassette file answering instead of the AI and data source (--replay)
+}
+
 /**
  * Bootstrap class to configure the dependency injection container
  */
@@ -38,6 +65,8 @@ export class Bootstrap {
   private container = new ServiceContainer();
   private providerFactory = new ProviderFactory();
 
+  constructor(private readonly options: BootstrapOptions = {}) {}
+
   /**
    * Initialize the application with dependency injection
    */
@@ -49,14 +78,20 @@ export class Bootstrap {
     this.providerFactory.registerAIProvider('azure-openai', AzureOpenAIProvider);
     this.providerFactory.registerAIProvider('openai', OpenAIProvider);
     this.providerFactory.registerAIProvider('ollama', OllamaProvider);
+    this.providerFactory.registerAIProvider('anthropic', AnthropicProvider);
+    this.providerFactory.registerAIProvider('openai-compatible', OpenAICompatibleProvider);
+    this.providerFactory.registerAIProvider('mock', MockAIProvider);
     
     // Phase 5: Register data source providers
     this.providerFactory.registerDataSourceProvider('application-insights', ApplicationInsightsProvider);
     this.providerFactory.registerDataSourceProvider('log-analytics', LogAnalyticsProvider);
     this.providerFactory.registerDataSourceProvider('azure-data-explorer', AzureDataExplorerProvider);
+    this.providerFactory.registerDataSourceProvider('azure-metrics', AzureMetricsProvider);
+    this.providerFactory.registerDataSourceProvider('local-files', LocalFilesProvider);
     
     // Register auth providers
     this.providerFactory.registerAuthProvider('azure-managed-identity', AzureManagedIdentityProvider);
+    this.providerFactory.registerAuthProvider('service-principal', ServicePrincipalProvider);
 
     // Register external execution providers  
     this.providerFactory.registerExternalExecutionProvider('application-insights', ApplicationInsightsExternalProvider);
@@ -85,28 +120,186 @@ export class Bootstrap {
     // Create auth provider
     const defaultAuthProvider = config.providers.auth.default;
     const authConfig = config.providers.auth[defaultAuthProvider];
-    const authProvider = this.providerFactory.createAuthProvider(defaultAuthProvider as any, authConfig);
+    let authProvider = this.providerFactory.createAuthProvider(defaultAuthProvider as any, authConfig);
+    if (authConfig.tokenCache !== false) {
+      authProvider = new CachedAuthenticationProvider(authProvider, authConfig);
+    }
     this.container.register<IAuthenticationProvider>('authProvider', authProvider);
 
-    // Create AI provider
-    const defaultAIProvider = config.providers.ai.default;
-    const aiConfig = config.providers.ai[defaultAIProvider];
-    const aiProvider = this.providerFactory.createAIProvider(defaultAIProvider as any, aiConfig, authProvider);
-    this.container.register<IAIProvider>('aiProvider', aiProvider);
+    // Create AI provider (with failover chain when enabled)
+    let aiProvider = this.createAIProvider(config, authProvider);
 
-    // Create data source provider
-    const defaultDataSourceProvider = config.providers.dataSources.default;
-    const dataSourceConfig = config.providers.dataSources[defaultDataSourceProvider];
-    const dataSourceProvider = this.providerFactory.createDataSourceProvider(
-      defaultDataSourceProvider as any, 
-      dataSourceConfig, 
-      authProvider
-    );
+    // Create data source provider (with failover / fan-out when enabled)
+    const dataSourceIdentity = this.getDataSourceCacheIdentity(config);
+    let dataSourceProvider = this.createDataSourceProvider(config, authProvider);
+
+    // The schema cache also backs `aidx schema refresh/diff` when it is not used for queries
+    const schemaCache = new SchemaCache(config.schemaCache?.directory);
+    const schemaProvider = new CachedSchemaDataSourceProvider(dataSourceProvider, dataSourceIdentity, schemaCache, config.schemaCache);
+    if (config.schemaCache?.enabled !== false) {
+      dataSourceProvider = schemaProvider;
+    }
+    this.container.register('schemaService', new SchemaService(schemaProvider, schemaCache, dataSourceIdentity));
+
+    if (this.options.queryCache !== false && config.queryCache?.enabled !== false) {
+      dataSourceProvider = new CachedDataSourceProvider(dataSourceProvider, dataSourceIdentity, new QueryResultCache(config.queryCache));
+    }
+
+    // Record or replay what the rest of the application sees, cache hits included
+    const cassette = this.createCassette(config);
+    if (cassette) {
+      aiProvider = new RecordingAIProvider(aiProvider, cassette);
+      dataSourceProvider = new RecordingDataSourceProvider(dataSourceProvider, cassette);
+    }
+
+    this.container.register<IAIProvider>('aiProvider', aiProvider);
     this.container.register<IDataSourceProvider>('dataSourceProvider', dataSourceProvider);
 
     logger.info('Providers registered successfully');
   }
 
+  /**
+   * Cassette of the --record or --replay option, with the configured secrets to redact
+   */
+  private createCassette(config: Config): Cassette | undefined {
+    const { record, replay } = this.options;
+    if (record && replay) {
+      throw new Error('Use only one of --record or --replay');
+    }
+    if (replay) {
+      logger.info(`Replaying AI and data source interactions from ${replay}`);
+      return Cassette.replay(replay, { secrets: collectSecrets(config) });
+    }
+    if (record) {
+      logger.info(`Recording AI and data source interactions to ${record}`);
+      return Cassette.record(record, { secrets: collectSecrets(config) });
+    }
+    return undefined;
+  }
+
+  /**
+   * Create the AI provider. When provider fallback is enabled and more than one
+   * provider is configured, providers are wrapped in a failover chain following
+   * fallbackBehavior.aiProviderOrder (the default provider is always included).
+   */
+  private createAIProvider(config: Config, authProvider: IAuthenticationProvider): IAIProvider {
+    const defaultAIProvider = config.providers.ai.default;
+    const fallback = config.fallbackBehavior;
+
+    if (!fallback?.enableProviderFallback) {
+      const aiConfig = config.providers.ai[defaultAIProvider];
+      return this.providerFactory.createAIProvider(defaultAIProvider as any, aiConfig, authProvider);
+    }
+
+    const order = fallback.aiProviderOrder?.length ? [...fallback.aiProviderOrder] : [defaultAIProvider];
+    if (!order.includes(defaultAIProvider)) {
+      order.unshift(defaultAIProvider);
+    }
+
+    const providers: NamedAIProvider[] = [];
+    for (const providerId of Array.from(new Set(order))) {
+      const providerConfig = config.providers.ai[providerId];
+      if (!providerConfig) {
+        logger.warn(`AI provider '${providerId}' in aiProviderOrder is not configured, skipping`);
+        continue;
+      }
+      try {
+        const provider = this.providerFactory.createAIProvider(providerConfig.type || providerId, providerConfig, authProvider);
+        providers.push({ id: providerId, provider });
+      } catch (error) {
+        // The default provider must be usable; fallback providers are optional
+        if (providerId === defaultAIProvider) {
+          throw error;
+        }
+        logger.warn(`AI provider '${providerId}' could not be created, skipping: ${error}`);
+      }
+    }
+
+    if (providers.length === 1) {
+      return providers[0].provider;
+    }
+
+    logger.info(`AI provider failover enabled: ${providers.map(p => p.id).join(' → ')}`);
+    return new FailoverAIProvider(providers, {
+      cooldownMs: fallback.cooldownSeconds !== undefined ? fallback.cooldownSeconds * 1000 : undefined
+    });
+  }
+
+  /**
+   * Create the data source provider. When provider fallback is enabled and more than
+   * one data source is configured, data sources are combined following
+   * fallbackBehavior.dataSourceProviderOrder, either failing over between them or
+   * fanning queries out to all of them (fallbackBehavior.dataSourceMode).
+   */
+  private createDataSourceProvider(config: Config, authProvider: IAuthenticationProvider): IDataSourceProvider {
+    const defaultDataSourceProvider = config.providers.dataSources.default;
+    const fallback = config.fallbackBehavior;
+
+    if (!fallback?.enableProviderFallback) {
+      const dataSourceConfig = config.providers.dataSources[defaultDataSourceProvider];
+      return this.providerFactory.createDataSourceProvider(
+        defaultDataSourceProvider as any, 
+        dataSourceConfig, 
+        authProvider
+      );
+    }
+
+    const order = fallback.dataSourceProviderOrder?.length ? [...fallback.dataSourceProviderOrder] : [defaultDataSourceProvider];
+    if (!order.includes(defaultDataSourceProvider)) {
+      order.unshift(defaultDataSourceProvider);
+    }
+
+    const providers: NamedDataSourceProvider[] = [];
+    for (const providerId of Array.from(new Set(order))) {
+      const providerConfig = config.providers.dataSources[providerId];
+      if (!providerConfig) {
+        logger.warn(`Data source '${providerId}' in dataSourceProviderOrder is not configured, skipping`);
+        continue;
+      }
+      try {
+        const provider = this.providerFactory.createDataSourceProvider(providerConfig.type || providerId, providerConfig, authProvider);
+        providers.push({ id: providerId, provider });
+      } catch (error) {
+        // The default data source must be usable; additional data sources are optional
+        if (providerId === defaultDataSourceProvider) {
+          throw error;
+        }
+        logger.warn(`Data source '${providerId}' could not be created, skipping: ${error}`);
+      }
+    }
+
+    if (providers.length === 1) {
+      return providers[0].provider;
+    }
+
+    const mode = fallback.dataSourceMode || 'failover';
+    logger.info(`Data source ${mode} enabled: ${providers.map(p => p.id).join(mode === 'fanout' ? ', ' : ' → ')}`);
+    return new CompositeDataSourceProvider(providers, {
+      mode,
+      cooldownMs: fallback.cooldownSeconds !== undefined ? fallback.cooldownSeconds * 1000 : undefined
+    });
+  }
+
+  /**
+   * Cache identity of the configured data sources: the default one, or all of
+   * fallbackBehavior.dataSourceProviderOrder with the mode combining them
+   */
+  private getDataSourceCacheIdentity(config: Config): string {
+    const defaultDataSourceProvider = config.providers.dataSources.default;
+    const fallback = config.fallbackBehavior;
+    const order = fallback?.enableProviderFallback && fallback.dataSourceProviderOrder?.length
+      ? [...fallback.dataSourceProviderOrder]
+      : [defaultDataSourceProvider];
+    if (!order.includes(defaultDataSourceProvider)) {
+      order.unshift(defaultDataSourceProvider);
+    }
+
+    const identities = Array.from(new Set(order))
+      .filter(id => config.providers.dataSources[id])
+      .map(id => getDataSourceCacheIdentity({ type: id, ...config.providers.dataSources[id] }));
+    return identities.length > 1 ? `${fallback?.dataSourceMode || 'failover'}(${identities.join(',')})` : identities.join(',');
+  }
+
   /**
    * Register orchestration and business logic services
    */
@@ -0,0 +1,84 @@
+/**
+ * Health state tracked for each provider of a failover chain or fan-out
+ */
+export interface ProviderHealth {
+  id: string;
+  healthy: boolean;
+  consecutiveFailures: number;
+  cooldownUntil?: Date;
+  lastError?: string;
+}
+
+export const DEFAULT_PROVIDER_COOLDOWN_MS = 60 * 1000;
+
+/**
+ * Health of a set of providers: a failed provider cools down for cooldownMs,
+ * during which it is only tried after the healthy ones
+ */
+export class ProviderHealthTracker {
+  private readonly health = new Map<string, ProviderHealth>();
+
+  constructor(
+    private readonly ids: string[],
+    private readonly cooldownMs: number = DEFAULT_PROVIDER_COOLDOWN_MS
+  ) {
+    ids.forEach(id => {
+      this.health.set(id, { id, healthy: true, consecutiveFailures: 0 });
+    });
+  }
+
+  /**
+   * Providers to try: healthy ones in the given order, then cooling-down ones
+   * (soonest available first) so a request is never rejected without an attempt
+   */
+  getCandidates<T extends { id: string }>(entries: T[]): T[] {
+    const now = Date.now();
+    const available: T[] = [];
+    const coolingDown: T[] = [];
+
+    for (const entry of entries) {
+      if (this.getCooldownUntil(entry.id) > now) {
+        coolingDown.push(entry);
+      } else {
+        available.push(entry);
+      }
+    }
+
+    coolingDown.sort((a, b) => this.getCooldownUntil(a.id) - this.getCooldownUntil(b.id));
+
+    return [...available, ...coolingDown];
+  }
+
+  recordSuccess(id: string): void {
+    this.health.set(id, { id, healthy: true, consecutiveFailures: 0 });
+  }
+
+  recordFailure(id: string, message: string): void {
+    const state = this.health.get(id);
+    this.health.set(id, {
+      id,
+      healthy: false,
+      consecutiveFailures: (state?.consecutiveFailures ?? 0) + 1,
+      cooldownUntil: new Date(Date.now() + this.cooldownMs),
+      lastError: message,
+    });
+  }
+
+  /**
+   * Current health state of every provider, in the order they were given
+   */
+  getHealth(): ProviderHealth[] {
+    const now = Date.now();
+    return this.ids.map(id => {
+      const state = this.health.get(id)!;
+      return {
+        ...state,
+        healthy: !state.cooldownUntil || state.cooldownUntil.getTime() <= now,
+      };
+    });
+  }
+
+  private getCooldownUntil(id: string): number {
+    return this.health.get(id)?.cooldownUntil?.getTime() ?? 0;
+  }
+}
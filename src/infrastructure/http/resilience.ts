@@ -0,0 +1,273 @@
+import axios, { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+import { HttpRetryConfig } from '../../core/types/ProviderTypes';
+import { logger } from '../../utils/logger';
+import { isCancellationError, throwIfCancelled } from '../../utils/cancellation';
+
+const DEFAULT_RETRY_CONFIG: Required<HttpRetryConfig> = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  maxRetryAfterMs: 60000,
+  circuitBreakerThreshold: 5,
+  circuitBreakerResetMs: 30000,
+};
+
+/** Status codes of transient failures: timeouts, throttling and unavailable backends */
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+/** Network errors worth another attempt (request timeouts are not retried, the query may be too expensive) */
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'REQUEST_SEND_ERROR'];
+
+/**
+ * Fields of axios, Azure SDK (RestError) and Kusto (ThrottlingError.inner) errors used to decide on retries
+ */
+interface HttpErrorLike {
+  name?: string;
+  code?: string;
+  statusCode?: number;
+  response?: { status?: number; headers?: unknown };
+  inner?: { response?: { status?: number; headers?: unknown } };
+}
+
+type HeaderBag = Record<string, unknown> & { get?: (name: string) => unknown };
+
+/**
+ * Thrown without sending the request while the circuit of a provider is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(public readonly provider: string, public readonly retryAt: Date) {
+    super(`${provider} is temporarily unavailable after repeated failures, retrying after ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker of one provider: opens after consecutive failed requests, rejects requests while open
+ * and lets a single trial request through once the reset timeout has passed
+ */
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private trialInProgress = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly threshold: number,
+    private readonly resetMs: number
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === undefined) {
+      return 'closed';
+    }
+    return Date.now() - this.openedAt >= this.resetMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Throw CircuitOpenError when no request may be sent
+   */
+  assertCanRequest(): void {
+    const state = this.state;
+    if (state === 'open' || (state === 'half-open' && this.trialInProgress)) {
+      throw new CircuitOpenError(this.name, new Date(this.openedAt! + this.resetMs));
+    }
+    if (state === 'half-open') {
+      this.trialInProgress = true;
+    }
+  }
+
+  recordSuccess(): void {
+    if (this.openedAt !== undefined) {
+      logger.info(`${this.name} circuit closed`);
+    }
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.trialInProgress = false;
+  }
+
+  /**
+   * A cancelled request says nothing about the provider's health, only a pending trial is released
+   */
+  recordCancellation(): void {
+    this.trialInProgress = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInProgress = false;
+    if (this.openedAt !== undefined || this.consecutiveFailures >= this.threshold) {
+      this.openedAt = Date.now();
+      logger.warn(`${this.name} circuit opened after ${this.consecutiveFailures} consecutive failures`);
+    }
+  }
+}
+
+/**
+ * HTTP status of an axios, Azure SDK or Kusto (ThrottlingError.inner) error
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const httpError = error as HttpErrorLike | undefined;
+  return httpError?.response?.status ?? httpError?.statusCode ?? httpError?.inner?.response?.status;
+}
+
+function getHeader(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== 'object') {
+    return undefined;
+  }
+  const bag = headers as HeaderBag;
+  const value = typeof bag.get === 'function' ? bag.get(name) : bag[name] ?? bag[name.toLowerCase()];
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+/**
+ * Delay requested by the service through retry-after-ms, x-ms-retry-after-ms or Retry-After (seconds or HTTP date)
+ */
+export function getRetryAfterMs(error: unknown, now: number = Date.now()): number | undefined {
+  const httpError = error as HttpErrorLike | undefined;
+  const headers = httpError?.response?.headers ?? httpError?.inner?.response?.headers;
+
+  for (const name of ['retry-after-ms', 'x-ms-retry-after-ms']) {
+    const milliseconds = Number(getHeader(headers, name));
+    if (getHeader(headers, name) !== undefined && Number.isFinite(milliseconds) && milliseconds >= 0) {
+      return milliseconds;
+    }
+  }
+
+  const retryAfter = getHeader(headers, 'retry-after');
+  if (retryAfter === undefined) {
+    return undefined;
+  }
+  if (/^\d+$/.test(retryAfter.trim())) {
+    return parseInt(retryAfter, 10) * 1000;
+  }
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Whether a failed request may succeed when sent again
+ */
+export function isRetryableError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return RETRYABLE_STATUS_CODES.includes(status);
+  }
+  const httpError = error as HttpErrorLike | undefined;
+  return httpError?.name === 'ThrottlingError' || RETRYABLE_ERROR_CODES.includes(httpError?.code || '');
+}
+
+/**
+ * Full-jitter exponential backoff: a random delay up to baseDelayMs * 2^retry, capped at maxDelayMs
+ */
+export function computeBackoffMs(retry: number, config: HttpRetryConfig = {}, random: () => number = Math.random): number {
+  const { baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY_CONFIG, ...config };
+  return Math.round(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** retry));
+}
+
+/**
+ * Wait for the delay, or until the signal is aborted
+ */
+function sleepUnlessAborted(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Runs the requests of one provider with retries on transient failures and a circuit breaker.
+ * Every attempt is reported in the debug log with its status and delay.
+ */
+export class ResilientExecutor {
+  readonly circuitBreaker: CircuitBreaker;
+  private readonly config: Required<HttpRetryConfig>;
+
+  constructor(
+    private readonly name: string,
+    config: HttpRetryConfig = {},
+    private readonly sleep: (ms: number, signal?: AbortSignal) => Promise<void> = sleepUnlessAborted
+  ) {
+    this.config = { ...DEFAULT_RETRY_CONFIG, ...config };
+    this.circuitBreaker = new CircuitBreaker(name, this.config.circuitBreakerThreshold, this.config.circuitBreakerResetMs);
+  }
+
+  /**
+   * Run the operation; an aborted signal stops retries and the wait between them
+   */
+  async execute<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    throwIfCancelled(signal);
+    this.circuitBreaker.assertCanRequest();
+    const maxAttempts = this.config.maxRetries + 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await operation();
+        this.circuitBreaker.recordSuccess();
+        if (attempt > 1) {
+          logger.debug(`${this.name} request succeeded on attempt ${attempt}/${maxAttempts}`);
+        }
+        return result;
+      } catch (error) {
+        if (isCancellationError(error, signal)) {
+          this.circuitBreaker.recordCancellation();
+          throw error;
+        }
+        if (!isRetryableError(error)) {
+          // The service answered, e.g. 400 for an invalid query: not a sign of an unhealthy provider
+          this.circuitBreaker.recordSuccess();
+          throw error;
+        }
+
+        const retryAfterMs = getRetryAfterMs(error);
+        const delayMs = retryAfterMs ?? computeBackoffMs(attempt - 1, this.config);
+        const giveUp = attempt >= maxAttempts || delayMs > this.config.maxRetryAfterMs;
+        const httpAttempt = {
+          provider: this.name,
+          attempt,
+          maxAttempts,
+          status: getErrorStatus(error),
+          code: (error as HttpErrorLike | undefined)?.code,
+          retryAfterMs,
+          delayMs: giveUp ? undefined : delayMs,
+        };
+
+        if (giveUp) {
+          logger.debug(`${this.name} request failed on attempt ${attempt}/${maxAttempts} (${describeFailure(error)}), giving up`, { httpAttempt });
+          this.circuitBreaker.recordFailure();
+          throw error;
+        }
+
+        logger.debug(`${this.name} request failed on attempt ${attempt}/${maxAttempts} (${describeFailure(error)}), retrying in ${delayMs}ms`, { httpAttempt });
+        await this.sleep(delayMs, signal);
+        if (signal?.aborted) {
+          this.circuitBreaker.recordCancellation();
+          throwIfCancelled(signal);
+        }
+      }
+    }
+  }
+}
+
+function describeFailure(error: unknown): string {
+  const status = getErrorStatus(error);
+  const httpError = error as HttpErrorLike | undefined;
+  return status !== undefined ? `HTTP ${status}` : httpError?.code || httpError?.name || 'error';
+}
+
+/**
+ * Axios adapter that sends requests through the executor. Retries happen below the interceptors,
+ * so authentication and error logging interceptors run once per request.
+ */
+export function createResilientAdapter(executor: ResilientExecutor): AxiosAdapter {
+  return (config: InternalAxiosRequestConfig) => {
+    const adapter = axios.getAdapter(axios.defaults.adapter);
+    return executor.execute(() => adapter(config), config.signal as AbortSignal | undefined);
+  };
+}
@@ -6,10 +6,11 @@ import {
   SessionOptions,
   ITemplateRepository,
   IAIProvider,
-  QueryAnalysisResult
+  QueryAnalysisResult,
+  QueryValidationResult
 } from '../core/interfaces';
 import { QueryService, QueryServiceRequest } from '../services/QueryService';
-import { SupportedLanguage, OutputFormat, QueryResult, AnalysisResult } from '../types';
+import { SupportedLanguage, OutputFormat, QueryResult, AnalysisResult, NLQuery } from '../types';
 import { DataSourceType } from '../core/types/ProviderTypes';
 import { ConfigManager } from '../utils/config';
 import { detectTimeSeriesData } from '../utils/chart';
@@ -23,6 +24,10 @@ import { logger } from '../utils/logger';
 import { LoadingIndicator, globalLoadingIndicator } from '../utils/loadingIndicator';
 import { promptForExplanationOptions } from '../utils/explanationPrompts';
 import { getLanguageName } from '../utils/languageUtils';
+import { analyzeKqlPerformance, formatKql, KQL_PERFORMANCE_CONFIRM_SCORE } from '../utils/kql';
+import { isCancellationError } from '../utils/cancellation';
+import { formatTimespan, parseTimeExpression, resolveTimeRangeTimespan } from '../utils/timeExpression';
+import { describeUnappliedTimespan } from '../utils/timeRange';
 
 /**
  * Options for interactive session controller
@@ -35,6 +40,8 @@ export interface InteractiveSessionControllerOptions {
   prettyJson?: boolean;
   includeHeaders?: boolean;
   encoding?: BufferEncoding;
+  timeRange?: string; // Time range of the session's queries as written, e.g. from --time, --since or --from/--to
+  queryTimeout?: number; // Milliseconds a query may run on the service, from --timeout
 }
 
 /**
@@ -65,6 +72,39 @@ export class InteractiveSessionController {
     this.options = { ...this.options, ...options };
   }
 
+  /**
+   * Run a query operation that Ctrl+C cancels without ending the session
+   */
+  private async runCancellable<T>(operation: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const controller = new AbortController();
+    const onInterrupt = () => {
+      if (!controller.signal.aborted) {
+        globalLoadingIndicator.stop();
+        console.log(chalk.yellow('\n⏹️  Cancelling query...'));
+        controller.abort();
+      }
+    };
+
+    process.on('SIGINT', onInterrupt);
+    try {
+      return await operation(controller.signal);
+    } finally {
+      process.removeListener('SIGINT', onInterrupt);
+    }
+  }
+
+  /**
+   * Tell the user a query was cancelled; returns false for other errors
+   */
+  private reportCancellation(error: unknown): boolean {
+    if (!isCancellationError(error)) {
+      return false;
+    }
+    globalLoadingIndicator.stop();
+    console.log(this.outputRenderer.renderInfo('Query cancelled').content);
+    return true;
+  }
+
   /**
    * Get the current data source type from configuration
    */
@@ -73,6 +113,13 @@ export class InteractiveSessionController {
     return config.providers.dataSources.default as DataSourceType;
   }
 
+  /**
+   * Timespan the session's queries run over as of now, if a time range is set
+   */
+  private getSessionTimespan(): string | undefined {
+    return resolveTimeRangeTimespan(this.currentSession?.options.timeRange);
+  }
+
   /**
    * Map QueryAnalysisResult to AnalysisResult for backward compatibility
    */
@@ -106,7 +153,9 @@ export class InteractiveSessionController {
       // Create session with configured options
       this.currentSession = await this.queryService.createSession({
         language: this.options.language || 'auto',
-        defaultMode: this.options.defaultMode || 'step'
+        defaultMode: this.options.defaultMode || 'step',
+        timeRange: this.options.timeRange,
+        queryTimeout: this.options.queryTimeout
       });
       
       console.log(chalk.green('✅ Interactive session initialized successfully'));
@@ -232,28 +281,35 @@ export class InteractiveSessionController {
         // Step mode: Generate query first, then show for review
         globalLoadingIndicator.start('Generating KQL query with AI...');
         try {
-          const result = await this.queryService.generateQuery({
+          const result = await this.runCancellable(signal => this.queryService.generateQuery({
             userInput: input,
             sessionId: this.currentSession!.sessionId,
-            dataSourceType: this.getDataSourceType()
-          });
+            dataSourceType: this.getDataSourceType(),
+            signal
+          }));
           globalLoadingIndicator.succeed('Query generated successfully');
           await this.handleStepMode(result.nlQuery, input);
         } catch (error) {
           globalLoadingIndicator.fail('Failed to generate query');
           throw error;
         }
+      } else if (mode === 'direct') {
+        await this.handleSmartMode(input);
       } else {
-        // Direct or raw mode: Execute query immediately
-        const loadingMessage = mode === 'raw' ? 'Executing KQL query...' : 'Generating and executing query with AI...';
-        globalLoadingIndicator.start(loadingMessage);
+        // Raw mode: Execute query immediately
+        const timespan = this.getSessionTimespan();
+        if (timespan && this.getDataSourceType() === 'azure-data-explorer') {
+          console.log(chalk.yellow(`⚠️  ${describeUnappliedTimespan(timespan)}`));
+        }
+        globalLoadingIndicator.start('Executing KQL query...');
         try {
-          const result = await this.queryService.executeQuery({
+          const result = await this.runCancellable(signal => this.queryService.executeQuery({
             userInput: input,
             sessionId: this.currentSession!.sessionId,
             mode,
-            dataSourceType: this.getDataSourceType()
-          });
+            dataSourceType: this.getDataSourceType(),
+            signal
+          }));
           globalLoadingIndicator.succeed('Query executed successfully');
           await this.handleDirectMode(result);
         } catch (error) {
@@ -263,26 +319,102 @@ export class InteractiveSessionController {
       }
 
     } catch (error) {
+      if (this.reportCancellation(error)) {
+        return;
+      }
       logger.error('Failed to handle query input:', error);
       console.log(this.outputRenderer.renderError(`Query failed: ${error}`).content);
     }
   }
 
+  /**
+   * Handle smart mode: generate the query, then execute it right away unless it has low
+   * confidence, references unknown tables or columns, or has a low performance score,
+   * in which case it goes to step review
+   */
+  private async handleSmartMode(input: string): Promise<void> {
+    globalLoadingIndicator.start('Generating KQL query with AI...');
+    let nlQuery: NLQuery;
+    try {
+      const generated = await this.runCancellable(signal => this.queryService.generateQuery({
+        userInput: input,
+        sessionId: this.currentSession!.sessionId,
+        dataSourceType: this.getDataSourceType(),
+        signal
+      }));
+      nlQuery = this.formatGeneratedQuery(generated.nlQuery);
+      globalLoadingIndicator.succeed('Query generated successfully');
+    } catch (error) {
+      globalLoadingIndicator.fail('Failed to generate query');
+      throw error;
+    }
+
+    const validation = await this.queryService.validateQuery(nlQuery.generatedKQL, { checkSchema: true, dataSourceType: this.getDataSourceType() });
+    const threshold = this.currentSession!.options.showConfidenceThreshold ?? 0.7;
+    const performance = analyzeKqlPerformance(nlQuery.generatedKQL, this.getDataSourceType(), this.getSessionTimespan());
+    const schemaMismatch = !validation.isValid || !!validation.diagnostics?.length;
+
+    if (nlQuery.confidence < threshold || schemaMismatch || performance.score < KQL_PERFORMANCE_CONFIRM_SCORE) {
+      const reason = nlQuery.confidence < threshold
+        ? 'The generated query has low confidence'
+        : schemaMismatch
+          ? 'The generated query does not match the data source schema'
+          : 'The generated query may be slow or expensive';
+      console.log(this.outputRenderer.renderInfo(`${reason}. Please review it before execution.`).content);
+      await this.handleStepMode(nlQuery, input, validation);
+      return;
+    }
+
+    globalLoadingIndicator.start('Executing query...');
+    try {
+      const result = await this.runCancellable(signal => this.queryService.executeGeneratedQuery(nlQuery, {
+        userInput: input,
+        sessionId: this.currentSession!.sessionId,
+        mode: 'direct',
+        dataSourceType: this.getDataSourceType(),
+        signal
+      }));
+      globalLoadingIndicator.succeed('Query executed successfully');
+      await this.handleDirectMode(result);
+    } catch (error) {
+      globalLoadingIndicator.fail('Failed to execute query');
+      throw error;
+    }
+  }
+
   /**
    * Handle step mode execution
    */
-  private async handleStepMode(nlQuery: any, originalInput: string): Promise<void> {
+  private async handleStepMode(nlQuery: any, originalInput: string, validation?: QueryValidationResult): Promise<void> {
     console.log(chalk.blue.bold('\n🔍 Generated Query Review'));
     console.log(chalk.dim('='.repeat(50)));
 
+    const formattedQuery = this.formatGeneratedQuery(nlQuery);
+    if (formattedQuery.generatedKQL !== nlQuery.generatedKQL) {
+      nlQuery = formattedQuery;
+      validation = undefined; // Diagnostic positions refer to the unformatted query
+    }
+
     while (true) {
       // Display query
       const queryOutput = this.outputRenderer.renderQuery(
         nlQuery.generatedKQL, 
         nlQuery.confidence, 
-        nlQuery.reasoning
+        nlQuery.reasoning,
+        nlQuery.provider
       );
       console.log(queryOutput.content);
+      console.log(this.outputRenderer.renderPerformanceReport(
+        analyzeKqlPerformance(nlQuery.generatedKQL, this.getDataSourceType(), this.getSessionTimespan())
+      ).content);
+
+      // Show syntax errors and unknown tables or columns found against the schema
+      if (!validation) {
+        validation = await this.queryService.validateQuery(nlQuery.generatedKQL, { checkSchema: true, dataSourceType: this.getDataSourceType() });
+      }
+      if (validation.diagnostics?.length) {
+        console.log(this.outputRenderer.renderDiagnostics(nlQuery.generatedKQL, validation.diagnostics).content);
+      }
 
       // Get user action
       const action = await this.getUserAction();
@@ -307,7 +439,8 @@ export class InteractiveSessionController {
         case 'regenerate':
           const newQuery = await this.regenerateQuery(originalInput, nlQuery);
           if (newQuery) {
-            nlQuery = newQuery;
+            nlQuery = this.formatGeneratedQuery(newQuery);
+            validation = undefined;
             continue;
           }
           continue;
@@ -320,6 +453,7 @@ export class InteractiveSessionController {
               confidence: 0.5,
               reasoning: 'Manually edited query'
             };
+            validation = undefined;
             continue;
           }
           continue;
@@ -335,13 +469,24 @@ export class InteractiveSessionController {
     }
   }
 
+  /**
+   * Copy of a generated query with its KQL formatted one pipe stage per line.
+   * Azure Metrics queries are JSON and are kept as generated.
+   */
+  private formatGeneratedQuery<T extends { generatedKQL: string }>(nlQuery: T): T {
+    if (this.getDataSourceType() === 'azure-metrics') {
+      return nlQuery;
+    }
+    return { ...nlQuery, generatedKQL: formatKql(nlQuery.generatedKQL) };
+  }
+
   /**
    * Handle direct mode execution
    */
   private async handleDirectMode(result: any): Promise<void> {
     // Display the generated KQL query with confidence score for transparency
     if (result.nlQuery?.generatedKQL && result.nlQuery?.confidence !== undefined) {
-      Visualizer.displayKQLQuery(result.nlQuery.generatedKQL, result.nlQuery.confidence);
+      Visualizer.displayKQLQuery(result.nlQuery.generatedKQL, result.nlQuery.confidence, result.nlQuery.provider);
     }
     
     await this.displayResults(result.result, result.nlQuery?.generatedKQL);
@@ -449,17 +594,21 @@ export class InteractiveSessionController {
       }
 
       globalLoadingIndicator.start('Executing KQL query...');
-      const result = await this.queryService.executeQuery({
+      const result = await this.runCancellable(signal => this.queryService.executeQuery({
         userInput: query,
         sessionId: this.currentSession!.sessionId,
         mode: 'raw',
-        dataSourceType: this.getDataSourceType()
-      });
+        dataSourceType: this.getDataSourceType(),
+        signal
+      }));
       globalLoadingIndicator.succeed('Query executed successfully');
 
       await this.displayResults(result.result, query);
 
     } catch (error) {
+      if (this.reportCancellation(error)) {
+        return;
+      }
       globalLoadingIndicator.fail('Failed to execute query');
       console.log(this.outputRenderer.renderError(error as Error).content);
     }
@@ -470,8 +619,9 @@ export class InteractiveSessionController {
    */
   private async displayResults(result: any, query?: string): Promise<void> {
     // Show execution info
+    const cache = result.result?.cache;
     console.log(this.outputRenderer.renderSuccess(
-      `Query executed successfully in ${result.executionTime}ms`
+      `Query executed successfully in ${result.executionTime}ms${cache ? ` (served from the ${cache.tier} cache)` : ''}`
     ).content);
 
     // Render results
@@ -664,6 +814,11 @@ export class InteractiveSessionController {
     console.log(chalk.dim(`Language: ${this.currentSession?.options.language || 'auto'}`));
     console.log(chalk.dim(`Default Mode: ${this.currentSession?.options.defaultMode || 'step'}`));
     console.log(chalk.dim(`Output Format: ${this.options.outputFormat || 'table'}`));
+    const timeRange = this.currentSession?.options.timeRange;
+    const timespan = this.getSessionTimespan();
+    console.log(chalk.dim(`Time Range: ${timeRange && timespan ? `${timeRange}, currently ${formatTimespan(timespan)}` : 'data source default'}`));
+    const queryTimeout = this.currentSession?.options.queryTimeout;
+    console.log(chalk.dim(`Query Timeout: ${queryTimeout ? `${queryTimeout / 1000}s` : 'data source default'}`));
   }
 
   /**
@@ -671,7 +826,7 @@ export class InteractiveSessionController {
    */
   private async updateSettings(): Promise<void> {
     try {
-      const { language, defaultMode } = await inquirer.prompt([
+      const { language, defaultMode, timeRange } = await inquirer.prompt([
         {
           type: 'list',
           name: 'language',
@@ -698,20 +853,45 @@ export class InteractiveSessionController {
             { name: '⚡ Raw KQL Mode', value: 'raw' }
           ],
           default: this.currentSession?.options.defaultMode || this.options.defaultMode || 'step'
+        },
+        {
+          type: 'input',
+          name: 'timeRange',
+          message: 'Time range (e.g. "last 2 hours", "yesterday", "since 9am UTC"; empty for the data source default):',
+          default: this.currentSession?.options.timeRange || this.options.timeRange,
+          validate: (input: string) => {
+            if (!input.trim()) {
+              return true;
+            }
+            try {
+              parseTimeExpression(input);
+              return true;
+            } catch (error) {
+              return error instanceof Error ? error.message : String(error);
+            }
+          }
         }
       ]);
+      // The expression is kept and resolved for each query, so that "since 9am" keeps ending at the current time
+      const expression = timeRange.trim() || undefined;
+      const timespan = resolveTimeRangeTimespan(expression);
 
       // Update controller options
       this.options.language = language;
       this.options.defaultMode = defaultMode;
+      this.options.timeRange = expression;
 
       // Update current session if exists
       if (this.currentSession) {
         this.currentSession.options.language = language;
         this.currentSession.options.defaultMode = defaultMode;
+        this.currentSession.options.timeRange = expression;
       }
 
       console.log(this.outputRenderer.renderSuccess('Session settings updated!').content);
+      if (timespan) {
+        console.log(chalk.dim(`Time range: ${formatTimespan(timespan)}`));
+      }
     } catch (error) {
       logger.error('Failed to update settings:', error);
       console.log(this.outputRenderer.renderError('Failed to update settings').content);
@@ -843,6 +1023,7 @@ ${chalk.dim('    ' + this.truncateQuery(item.query, 80))}`,
       'generated': '🤖',
       'edited': '✏️',
       'regenerated': '🔄',
+      'failed': '❌',
       'executed': '🚀',
       'explained': '📖',
       'template': '📋'
@@ -996,20 +1177,24 @@ ${chalk.dim('    ' + this.truncateQuery(item.query, 80))}`,
 
       if (shouldExecute && this.currentSession && template) {
         globalLoadingIndicator.start('Executing template query...');
-        const result = await this.queryService.executeQuery({
+        const result = await this.runCancellable(signal => this.queryService.executeQuery({
           userInput: '', // Empty since we're using template mode
           templateId: template!.id,
           parameters,
           sessionId: this.currentSession!.sessionId,
           mode: 'template',
-          dataSourceType: this.getDataSourceType()
-        });
+          dataSourceType: this.getDataSourceType(),
+          signal
+        }));
         globalLoadingIndicator.succeed('Template query executed successfully');
 
         await this.displayResults(result.result, query);
       }
 
     } catch (error) {
+      if (this.reportCancellation(error)) {
+        return;
+      }
       globalLoadingIndicator.fail('Failed to execute template query');
       logger.error('Failed to use template:', error);
       console.log(this.outputRenderer.renderError(`Failed to use template: ${error}`).content);
@@ -1110,18 +1295,23 @@ ${chalk.dim('    ' + this.truncateQuery(item.query, 80))}`,
   private async regenerateQuery(originalQuestion: string, previousQuery: any): Promise<any> {
     try {
       globalLoadingIndicator.start('Regenerating query with AI...');
-      const result = await this.queryService.regenerateQuery(
+      const result = await this.runCancellable(signal => this.queryService.regenerateQuery(
         originalQuestion,
         previousQuery,
         this.currentSession!.sessionId,
         2,
-        this.getDataSourceType()
-      );
+        this.getDataSourceType(),
+        undefined,
+        signal
+      ));
       globalLoadingIndicator.succeed('New query generated successfully');
 
       return result.nlQuery;
       
     } catch (error) {
+      if (this.reportCancellation(error)) {
+        return null;
+      }
       globalLoadingIndicator.fail('Failed to regenerate query');
       console.log(this.outputRenderer.renderError(`Regeneration failed: ${error}`).content);
       return null;
@@ -1133,7 +1323,36 @@ ${chalk.dim('    ' + this.truncateQuery(item.query, 80))}`,
    */
   private async editQuery(currentQuery: string): Promise<string | null> {
     try {
-      return await this.queryEditorService.editQuery(currentQuery);
+      let editedQuery = await this.queryEditorService.editQuery(currentQuery);
+
+      // Show syntax errors in the edited query and offer to fix them right away
+      while (editedQuery) {
+        const validation = await this.queryService.validateQuery(editedQuery, { dataSourceType: this.getDataSourceType() });
+        if (validation.isValid || !validation.diagnostics?.length) {
+          return editedQuery;
+        }
+
+        console.log(this.outputRenderer.renderDiagnostics(editedQuery, validation.diagnostics).content);
+        const { editAgain } = await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'editAgain',
+            message: 'The edited query has syntax errors. Edit it again?',
+            default: true
+          }
+        ]);
+        if (!editAgain) {
+          return editedQuery;
+        }
+
+        const fixedQuery = await this.queryEditorService.editQuery(editedQuery);
+        if (!fixedQuery) {
+          return editedQuery;
+        }
+        editedQuery = fixedQuery;
+      }
+
+      return editedQuery;
     } catch (error) {
       console.log(this.outputRenderer.renderError(`Failed to edit query: ${error}`).content);
       return null;
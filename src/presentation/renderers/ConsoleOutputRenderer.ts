@@ -4,7 +4,7 @@ import {
   RenderOptions, 
   RenderedOutput 
 } from '../../core/interfaces';
-import { QueryResult, AnalysisResult, OutputFormat } from '../../types';
+import { QueryResult, AnalysisResult, OutputFormat, KqlDiagnostic, KqlPerformanceReport } from '../../types';
 import { OutputFormatter } from '../../utils/outputFormatter';
 import { Visualizer } from '../../utils/visualizer';
 import { logger } from '../../utils/logger';
@@ -151,7 +151,7 @@ export class ConsoleOutputRenderer implements IOutputRenderer {
   /**
    * Render query with metadata
    */
-  renderQuery(query: string, confidence: number, reasoning?: string): RenderedOutput {
+  renderQuery(query: string, confidence: number, reasoning?: string, provider?: string): RenderedOutput {
     let content = '';
 
     content += chalk.cyan.bold('\n📝 Generated KQL Query:') + '\n';
@@ -165,6 +165,11 @@ export class ConsoleOutputRenderer implements IOutputRenderer {
     const confidenceBar = '█'.repeat(Math.round(confidence * 10)) + '░'.repeat(10 - Math.round(confidence * 10));
     content += '\n' + chalk.cyan.bold('🎯 Confidence: ') + confidenceColor(`${(confidence * 100).toFixed(1)}%`) + ' ' + confidenceBar + '\n';
 
+    // Provider that answered (when provider fallback is active)
+    if (provider) {
+      content += chalk.cyan.bold('🤖 AI Provider: ') + chalk.dim(provider) + '\n';
+    }
+
     // Reasoning
     if (reasoning) {
       content += chalk.cyan.bold('\n💭 AI Reasoning:') + '\n';
@@ -179,6 +184,32 @@ export class ConsoleOutputRenderer implements IOutputRenderer {
     };
   }
 
+  /**
+   * Render positioned query diagnostics
+   */
+  renderDiagnostics(query: string, diagnostics: KqlDiagnostic[]): RenderedOutput {
+    const content = chalk.yellow.bold('🩺 Query Diagnostics:') + '\n' + Visualizer.formatDiagnostics(query, diagnostics);
+
+    return {
+      content,
+      metadata: {
+        formatUsed: 'diagnostics'
+      }
+    };
+  }
+
+  /**
+   * Render performance advisor score and findings
+   */
+  renderPerformanceReport(report: KqlPerformanceReport): RenderedOutput {
+    return {
+      content: '\n' + Visualizer.formatPerformanceReport(report),
+      metadata: {
+        formatUsed: 'performance'
+      }
+    };
+  }
+
   /**
    * Render error message
    */
@@ -0,0 +1,582 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { IAIProvider, QueryGenerationRequest, QueryExplanationRequest, RegenerationRequest, QueryAnalysisRequest, QueryAnalysisResult } from '../../core/interfaces/IAIProvider';
+import { IAuthenticationProvider } from '../../core/interfaces/IAuthenticationProvider';
+import { AIProviderConfig } from '../../core/types/ProviderTypes';
+import { NLQuery } from '../../types';
+import { logger } from '../../utils/logger';
+import { rethrowIfCancelled } from '../../utils/cancellation';
+import { buildSystemPrompt, buildRegenerationPrompt, buildExplanationSystemPrompt, buildPatternAnalysisPrompt, buildInsightsPrompt } from './prompts/systemPrompts';
+
+/**
+ * Subset of the Anthropic Messages API response used by this provider
+ */
+interface AnthropicMessageResponse {
+  content: Array<{ type: string; text?: string }>;
+  stop_reason?: string | null;
+}
+
+/**
+ * Anthropic Claude provider implementation using the Messages API
+ */
+export class AnthropicProvider implements IAIProvider {
+  protected anthropicClient: Anthropic | null = null;
+  protected initializationPromise: Promise<void> | null = null;
+
+  constructor(
+    protected config: AIProviderConfig,
+    protected authProvider?: IAuthenticationProvider
+  ) {
+    // Don't start initialization immediately to avoid throwing errors in constructor
+  }
+
+  /**
+   * Initialize the Anthropic client
+   */
+  async initialize(): Promise<void> {
+    if (!this.initializationPromise) {
+      this.initializationPromise = this.initializeAnthropic();
+    }
+    await this.initializationPromise;
+  }
+
+  protected async initializeAnthropic(): Promise<void> {
+    if (this.config.type !== 'anthropic') {
+      throw new Error('Invalid provider type for AnthropicProvider');
+    }
+    try {
+      if (!this.config.apiKey) {
+        throw new Error('Anthropic API key is required');
+      }
+
+      // Initialize Anthropic client (custom endpoint is optional, e.g. for gateways)
+      this.anthropicClient = new Anthropic({
+        apiKey: this.config.apiKey,
+        ...(this.config.endpoint && { baseURL: this.config.endpoint }),
+      });
+
+      logger.debug('Anthropic client initialized successfully');
+    } catch (error) {
+      logger.error('Failed to initialize Anthropic client:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate KQL query from natural language
+   */
+  async generateQuery(request: QueryGenerationRequest): Promise<NLQuery> {
+    await this.initialize();
+
+    if (!this.anthropicClient) {
+      throw new Error('Anthropic client not initialized');
+    }
+
+    try {
+      logger.debug('Generating KQL query with Anthropic...');
+
+      const systemPrompt = buildSystemPrompt(request.dataSourceType, request.schema, request.extraContext, request.timespan);
+      const userPrompt = `Convert this natural language query to KQL: "${request.userInput}"`;
+
+      const response = await this.anthropicClient.messages.create({
+        model: this.getModel(),
+        system: systemPrompt,
+        messages: [
+          { role: 'user', content: userPrompt }
+        ],
+        temperature: 0.3,
+        max_tokens: 1000,
+      }, { signal: request.signal });
+
+      const generatedContent = this.extractTextFromResponse(response);
+      if (!generatedContent) {
+        throw new Error('No content received from Anthropic');
+      }
+
+      // Parse the JSON response
+      const kqlQuery = this.extractKQLFromResponse(generatedContent);
+      const confidence = this.calculateConfidence(response, generatedContent);
+      const reasoning = this.extractReasoningFromResponse(generatedContent);
+
+      const result: NLQuery = {
+        generatedKQL: kqlQuery,
+        confidence,
+        reasoning,
+      };
+
+      logger.debug(`KQL query generated successfully: ${kqlQuery}`);
+      return result;
+    } catch (error) {
+      rethrowIfCancelled(error, request.signal);
+      logger.error('Failed to generate KQL query:', error);
+      throw new Error(`KQL generation failed: ${error}`);
+    }
+  }
+
+  /**
+   * Explain a KQL query
+   */
+  async explainQuery(request: QueryExplanationRequest): Promise<string> {
+    await this.initialize();
+
+    if (!this.anthropicClient) {
+      throw new Error('Anthropic client not initialized');
+    }
+
+    try {
+      logger.debug(`Generating KQL query explanation in language: ${request.options?.language || 'auto'}...`);
+
+      const systemPrompt = buildExplanationSystemPrompt(
+        request.options?.language || 'en',
+        request.options?.technicalLevel || 'intermediate',
+        request.options?.includeExamples !== false
+      );
+
+      const userPrompt = `Please explain this KQL query:\n\n${request.query}`;
+
+      const response = await this.anthropicClient.messages.create({
+        model: this.getModel(),
+        system: systemPrompt,
+        messages: [
+          { role: 'user', content: userPrompt }
+        ],
+        temperature: 0.3,
+        max_tokens: 1500,
+      });
+
+      return this.extractTextFromResponse(response) || 'Unable to generate explanation';
+    } catch (error) {
+      logger.error('Failed to explain KQL query:', error);
+      throw new Error(`Query explanation failed: ${error}`);
+    }
+  }
+
+  /**
+   * Regenerate query with context
+   */
+  async regenerateQuery(request: RegenerationRequest): Promise<NLQuery> {
+    await this.initialize();
+
+    if (!this.anthropicClient) {
+      throw new Error('Anthropic client not initialized');
+    }
+
+    try {
+      logger.debug(`Regenerating KQL query (attempt ${request.context.attemptNumber}) with Anthropic...`);
+
+      const systemPrompt = buildSystemPrompt(request.dataSourceType, request.schema, request.extraContext, request.timespan);
+      const userPrompt = buildRegenerationPrompt(
+        request.userInput,
+        request.context.previousQuery,
+        request.context.attemptNumber,
+        request.context.executionError
+      );
+
+      const response = await this.anthropicClient.messages.create({
+        model: this.getModel(),
+        system: systemPrompt,
+        messages: [
+          { role: 'user', content: userPrompt }
+        ],
+        temperature: 0.5, // Higher temperature for more variation
+        max_tokens: 1000,
+      }, { signal: request.signal });
+
+      const generatedContent = this.extractTextFromResponse(response);
+      if (!generatedContent) {
+        throw new Error('No content received from Anthropic');
+      }
+
+      // Parse the JSON response
+      const kqlQuery = this.extractKQLFromResponse(generatedContent);
+      const confidence = this.calculateConfidence(response, generatedContent);
+      const reasoning = this.extractReasoningFromResponse(generatedContent);
+
+      const result: NLQuery = {
+        generatedKQL: kqlQuery,
+        confidence,
+        reasoning,
+      };
+
+      logger.debug(`KQL query regenerated successfully: ${kqlQuery}`);
+      return result;
+    } catch (error) {
+      rethrowIfCancelled(error, request.signal);
+      logger.error('Failed to regenerate KQL query:', error);
+      throw new Error(`KQL regeneration failed: ${error}`);
+    }
+  }
+
+  /**
+   * Generate generic response for analysis
+   */
+  async generateResponse(prompt: string): Promise<string> {
+    await this.initialize();
+
+    if (!this.anthropicClient) {
+      throw new Error('Anthropic client not initialized');
+    }
+
+    try {
+      const response = await this.anthropicClient.messages.create({
+        model: this.getModel(),
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0.3,
+        max_tokens: 2000,
+      });
+
+      return this.extractTextFromResponse(response) || 'Unable to generate response';
+    } catch (error) {
+      logger.error('Failed to generate response:', error);
+      throw new Error(`Response generation failed: ${error}`);
+    }
+  }
+
+  /**
+   * Analyze query results using AI
+   */
+  async analyzeQueryResult(request: QueryAnalysisRequest): Promise<QueryAnalysisResult> {
+    await this.initialize();
+
+    if (!this.anthropicClient) {
+      throw new Error('Anthropic client not initialized');
+    }
+
+    try {
+      logger.debug(`Starting ${request.analysisType} analysis with Anthropic`);
+
+      const result: QueryAnalysisResult = {};
+
+      switch (request.analysisType) {
+        case 'patterns':
+          result.patterns = await this.performPatternAnalysis(request);
+          break;
+
+        case 'anomalies':
+          const patterns = await this.performPatternAnalysis(request);
+          // Filter to focus on anomalies
+          result.patterns = {
+            trends: [],
+            anomalies: patterns?.anomalies || [],
+            correlations: []
+          };
+          break;
+
+        case 'insights':
+          result.insights = await this.generateContextualInsights(request);
+          result.aiInsights = await this.generateAIInsights(request);
+          break;
+
+        case 'full':
+          result.patterns = await this.performPatternAnalysis(request);
+          result.insights = await this.generateContextualInsights(request);
+          result.aiInsights = await this.generateAIInsights(request);
+          break;
+      }
+
+      // Always generate recommendations and follow-up queries for non-statistical analysis
+      result.recommendations = await this.generateRecommendations(request);
+      result.followUpQueries = await this.generateFollowUpQueries(request);
+
+      logger.debug(`${request.analysisType} analysis completed successfully`);
+      return result;
+
+    } catch (error) {
+      logger.error('Analysis failed:', error);
+      throw new Error(`Analysis failed: ${error}`);
+    }
+  }
+
+  /**
+   * Resolve the model to use for requests
+   */
+  protected getModel(): string {
+    return this.config.model || 'claude-sonnet-4-5';
+  }
+
+  /**
+   * Perform pattern analysis using AI
+   */
+  private async performPatternAnalysis(request: QueryAnalysisRequest): Promise<QueryAnalysisResult['patterns']> {
+    try {
+      const prompt = buildPatternAnalysisPrompt(request.result, request.originalQuery);
+      const response = await this.generateResponse(prompt);
+
+      // Parse AI response into structured format
+      return this.parsePatternAnalysisResponse(response);
+    } catch (error) {
+      logger.warn('Pattern analysis failed, returning basic analysis:', error);
+      return {
+        trends: [],
+        anomalies: [],
+        correlations: []
+      };
+    }
+  }
+
+  /**
+   * Generate contextual insights
+   */
+  private async generateContextualInsights(request: QueryAnalysisRequest): Promise<QueryAnalysisResult['insights']> {
+    // Basic data quality assessment
+    const firstTable = request.result.tables?.[0];
+    if (!firstTable) {
+      return {
+        dataQuality: {
+          completeness: 0,
+          consistency: ['No data available'],
+          recommendations: ['Verify query criteria and data source']
+        },
+        businessInsights: {
+          keyFindings: [],
+          potentialIssues: ['No data returned'],
+          opportunities: []
+        },
+        followUpQueries: []
+      };
+    }
+
+    const totalRows = firstTable.rows?.length || 0;
+    const totalColumns = firstTable.columns?.length || 0;
+
+    // Calculate completeness
+    let nullCount = 0;
+    if (firstTable.rows && firstTable.columns) {
+      firstTable.rows.forEach((row: unknown[]) => {
+        row.forEach(cell => {
+          if (cell === null || cell === undefined || cell === '') {
+            nullCount++;
+          }
+        });
+      });
+    }
+
+    const totalCells = totalRows * totalColumns;
+    const completeness = totalCells > 0 ? ((totalCells - nullCount) / totalCells) * 100 : 0;
+
+    const consistency: string[] = [];
+    const recommendations: string[] = [];
+
+    // Basic consistency checks
+    if (completeness < 80) {
+      consistency.push('High percentage of null values detected');
+      recommendations.push('Consider filtering out incomplete records');
+    }
+
+    return {
+      dataQuality: {
+        completeness: Number(completeness.toFixed(1)),
+        consistency,
+        recommendations
+      },
+      businessInsights: {
+        keyFindings: [],
+        potentialIssues: [],
+        opportunities: []
+      },
+      followUpQueries: []
+    };
+  }
+
+  /**
+   * Generate AI-powered insights
+   */
+  private async generateAIInsights(request: QueryAnalysisRequest): Promise<string> {
+    try {
+      const prompt = buildInsightsPrompt(request.result, request.originalQuery, request.options?.language);
+      return await this.generateResponse(prompt);
+    } catch (error) {
+      logger.warn('AI insights generation failed:', error);
+      return 'AI insights temporarily unavailable. Please try again later.';
+    }
+  }
+
+  /**
+   * Generate recommendations based on analysis
+   */
+  private async generateRecommendations(request: QueryAnalysisRequest): Promise<string[]> {
+    const recommendations: string[] = [];
+    const firstTable = request.result.tables?.[0];
+
+    if (!firstTable || !firstTable.rows) {
+      recommendations.push('No data returned - consider adjusting your query criteria');
+      return recommendations;
+    }
+
+    const totalRows = firstTable.rows.length;
+
+    if (totalRows === 0) {
+      recommendations.push('No data returned - consider adjusting your query criteria');
+    } else if (totalRows > 10000) {
+      recommendations.push('Large dataset returned - consider adding filters to improve performance');
+    }
+
+    return recommendations;
+  }
+
+  /**
+   * Generate follow-up queries
+   */
+  private async generateFollowUpQueries(request: QueryAnalysisRequest): Promise<QueryAnalysisResult['followUpQueries']> {
+    const queries = [];
+    const firstTable = request.result.tables?.[0];
+
+    if (!firstTable || !firstTable.rows) {
+      return [];
+    }
+
+    // Basic follow-up query suggestions
+    if (firstTable.rows.length > 0) {
+      queries.push({
+        query: `${request.originalQuery} | limit 10`,
+        purpose: 'View sample results',
+        priority: 'low' as const
+      });
+    }
+
+    // Check if there are datetime columns for temporal analysis
+    const hasDateTimeColumn = firstTable.columns?.some((col: { name: string; type: string }) =>
+      col.type?.includes('datetime') || col.name?.toLowerCase().includes('time')
+    );
+
+    if (hasDateTimeColumn) {
+      queries.push({
+        query: `${request.originalQuery} | summarize count() by bin(timestamp, 1h)`,
+        purpose: 'Analyze temporal distribution',
+        priority: 'medium' as const
+      });
+    }
+
+    return queries;
+  }
+
+  private parsePatternAnalysisResponse(response: string): QueryAnalysisResult['patterns'] {
+    try {
+      const jsonContent = this.extractJSONFromResponse(response);
+      const parsed = JSON.parse(jsonContent);
+      return {
+        trends: parsed.trends || [],
+        anomalies: parsed.anomalies || [],
+        correlations: parsed.correlations || []
+      };
+    } catch (error) {
+      logger.warn('Failed to parse pattern analysis response:', error);
+      return {
+        trends: [],
+        anomalies: [],
+        correlations: []
+      };
+    }
+  }
+
+  /**
+   * Concatenate the text blocks of a Messages API response
+   */
+  private extractTextFromResponse(response: AnthropicMessageResponse): string {
+    return (response.content || [])
+      .filter(block => block.type === 'text' && typeof block.text === 'string')
+      .map(block => block.text)
+      .join('')
+      .trim();
+  }
+
+  /**
+   * Extract JSON content from markdown code blocks or raw response
+   */
+  private extractJSONFromResponse(response: string): string {
+    // Extract JSON from code blocks (```json ... ```)
+    const codeBlockMatch = response.match(/```(?:json)?\n?(.*?)\n?```/s);
+    if (codeBlockMatch) {
+      return codeBlockMatch[1].trim();
+    }
+
+    // If no code blocks, return the raw response cleaned up
+    return response
+      .replace(/^(Here's the JSON:|JSON:|Response:)/i, '')
+      .trim();
+  }
+
+  // Protected helper methods for inheritance
+  protected extractKQLFromResponse(content: string): string {
+    // First try to extract JSON from markdown code blocks
+    try {
+      const jsonContent = this.extractJSONFromResponse(content);
+      const parsed = JSON.parse(jsonContent);
+      if (parsed.kql) {
+        // Azure Metrics answers with a structured metric query object instead of KQL text
+        return typeof parsed.kql === 'string' ? parsed.kql : JSON.stringify(parsed.kql, null, 2);
+      }
+    } catch {
+      // Continue to other extraction methods
+    }
+
+    // Try direct JSON parsing (for responses without markdown)
+    try {
+      const parsed = JSON.parse(content);
+      if (parsed.kql && typeof parsed.kql !== 'string') {
+        return JSON.stringify(parsed.kql, null, 2);
+      }
+      return parsed.kql || content;
+    } catch {
+      // Fallback: try to extract KQL from code blocks
+      const kqlMatch = content.match(/```(?:kql|kusto)?\s*([\s\S]*?)```/i);
+      if (kqlMatch) {
+        return kqlMatch[1].trim();
+      }
+
+      // Last resort: return content as-is
+      return content.trim();
+    }
+  }
+
+  protected calculateConfidence(response: AnthropicMessageResponse, content?: string): number {
+    // Base confidence calculation on stop_reason and other factors
+    let confidence = 0.7; // Default confidence
+
+    if (response.stop_reason === 'end_turn') {
+      confidence = 0.85;
+    } else if (response.stop_reason === 'max_tokens') {
+      confidence = 0.6; // Lower confidence if truncated
+    }
+
+    // Reduce confidence for non-JSON responses
+    if (content && !this.isJsonResponse(content)) {
+      confidence = 0.5; // Lower confidence for non-JSON responses
+    }
+
+    return Math.min(Math.max(confidence, 0), 1);
+  }
+
+  protected extractReasoningFromResponse(content: string): string {
+    // First try to extract JSON from markdown code blocks
+    try {
+      const jsonContent = this.extractJSONFromResponse(content);
+      const parsed = JSON.parse(jsonContent);
+      return parsed.reasoning || 'Generated by Anthropic Claude';
+    } catch {
+      // Try direct JSON parsing (for responses without markdown)
+      try {
+        const parsed = JSON.parse(content);
+        return parsed.reasoning || 'Generated by Anthropic Claude';
+      } catch {
+        return 'Generated by Anthropic Claude (non-JSON response)';
+      }
+    }
+  }
+
+  private isJsonResponse(content: string): boolean {
+    // First try to extract JSON from markdown code blocks
+    try {
+      const jsonContent = this.extractJSONFromResponse(content);
+      JSON.parse(jsonContent);
+      return true;
+    } catch {
+      // Try direct JSON parsing (for responses without markdown)
+      try {
+        JSON.parse(content);
+        return true;
+      } catch {
+        return false;
+      }
+    }
+  }
+}
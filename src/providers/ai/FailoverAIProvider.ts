@@ -0,0 +1,121 @@
+import { IAIProvider, QueryGenerationRequest, QueryExplanationRequest, RegenerationRequest, QueryAnalysisRequest, QueryAnalysisResult } from '../../core/interfaces/IAIProvider';
+import { NLQuery } from '../../types';
+import { logger } from '../../utils/logger';
+import { rethrowIfCancelled } from '../../utils/cancellation';
+import { ProviderHealth, ProviderHealthTracker } from '../../infrastructure/ProviderHealthTracker';
+
+/**
+ * AI provider registered under an identifier (the key in config.providers.ai)
+ */
+export interface NamedAIProvider {
+  id: string;
+  provider: IAIProvider;
+}
+
+/**
+ * Health state tracked for each provider in the failover chain
+ */
+export type AIProviderHealth = ProviderHealth;
+
+export interface FailoverAIProviderOptions {
+  /** How long a failed provider is skipped before being tried again (default: 60s) */
+  cooldownMs?: number;
+}
+
+/**
+ * Composite AI provider that tries providers in the configured order,
+ * skipping providers that are cooling down after a failure
+ */
+export class FailoverAIProvider implements IAIProvider {
+  private readonly health: ProviderHealthTracker;
+  private lastProviderId: string | null = null;
+
+  constructor(
+    private readonly providers: NamedAIProvider[],
+    options: FailoverAIProviderOptions = {}
+  ) {
+    if (providers.length === 0) {
+      throw new Error('FailoverAIProvider requires at least one provider');
+    }
+    this.health = new ProviderHealthTracker(providers.map(({ id }) => id), options.cooldownMs);
+  }
+
+  /**
+   * Initialize the first provider that can be initialized
+   */
+  async initialize(): Promise<void> {
+    await this.execute('initialize', provider => provider.initialize());
+  }
+
+  async generateQuery(request: QueryGenerationRequest): Promise<NLQuery> {
+    return this.execute('generateQuery', async (provider, id) => ({
+      ...(await provider.generateQuery(request)),
+      provider: id,
+    }));
+  }
+
+  async explainQuery(request: QueryExplanationRequest): Promise<string> {
+    return this.execute('explainQuery', provider => provider.explainQuery(request));
+  }
+
+  async regenerateQuery(request: RegenerationRequest): Promise<NLQuery> {
+    return this.execute('regenerateQuery', async (provider, id) => ({
+      ...(await provider.regenerateQuery(request)),
+      provider: id,
+    }));
+  }
+
+  async generateResponse(prompt: string): Promise<string> {
+    return this.execute('generateResponse', provider => provider.generateResponse(prompt));
+  }
+
+  async analyzeQueryResult(request: QueryAnalysisRequest): Promise<QueryAnalysisResult> {
+    return this.execute('analyzeQueryResult', provider => provider.analyzeQueryResult(request));
+  }
+
+  /**
+   * Identifier of the provider that answered the most recent request
+   */
+  getLastProviderId(): string | null {
+    return this.lastProviderId;
+  }
+
+  /**
+   * Current health state of every provider in the chain, in failover order
+   */
+  getProviderHealth(): AIProviderHealth[] {
+    return this.health.getHealth();
+  }
+
+  /**
+   * Run an operation against providers in order until one succeeds
+   */
+  private async execute<T>(operation: string, fn: (provider: IAIProvider, id: string) => Promise<T>): Promise<T> {
+    const errors: string[] = [];
+
+    for (const { id, provider } of this.health.getCandidates(this.providers)) {
+      try {
+        const result = await fn(provider, id);
+        this.recordSuccess(id);
+        return result;
+      } catch (error) {
+        // A cancelled request is neither a provider failure nor retried with the next provider
+        rethrowIfCancelled(error);
+        const message = error instanceof Error ? error.message : String(error);
+        this.health.recordFailure(id, message);
+        errors.push(`${id}: ${message}`);
+        logger.warn(`AI provider '${id}' failed during ${operation}, trying next provider: ${message}`);
+      }
+    }
+
+    throw new Error(`All AI providers failed: ${errors.join('; ')}`);
+  }
+
+  private recordSuccess(id: string): void {
+    this.health.recordSuccess(id);
+    if (this.lastProviderId !== id) {
+      logger.info(`AI provider '${id}' answered the request`);
+    }
+    this.lastProviderId = id;
+  }
+}
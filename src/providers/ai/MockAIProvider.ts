@@ -0,0 +1,303 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IAIProvider, QueryGenerationRequest, QueryExplanationRequest, RegenerationRequest, QueryAnalysisRequest, QueryAnalysisResult } from '../../core/interfaces/IAIProvider';
+import { IAuthenticationProvider } from '../../core/interfaces/IAuthenticationProvider';
+import { ITemplateRepository, QueryTemplate } from '../../core/interfaces/ITemplateRepository';
+import { AIProviderConfig, DataSourceType } from '../../core/types/ProviderTypes';
+import { NLQuery } from '../../types';
+import { TemplateService } from '../../services/TemplateService';
+import { logger } from '../../utils/logger';
+import { throwIfCancelled } from '../../utils/cancellation';
+import { parseKql } from '../../utils/kql';
+
+/**
+ * Answer of the mock provider to the questions matching a rule
+ */
+export interface MockAIAnswer {
+  kql?: string | string[]; // Later entries answer regeneration attempts, the last one is repeated
+  confidence?: number;
+  reasoning?: string;
+  explanation?: string; // Explanation of the rule's query
+  analysis?: QueryAnalysisResult; // Analysis of the rule's query results
+  response?: string; // Answer to free-form prompts matching the pattern
+}
+
+export interface MockAIRule extends MockAIAnswer {
+  pattern: string; // Regular expression, matched case-insensitively; $1 or $<name> in kql insert its groups
+  dataSourceType?: DataSourceType; // Only match questions about this kind of data source
+}
+
+export interface MockAIRulesFile {
+  rules: MockAIRule[];
+  default?: MockAIAnswer; // Answer when neither a rule nor a template matches
+}
+
+interface CompiledRule {
+  rule: MockAIRule;
+  regex: RegExp;
+}
+
+const DEFAULT_CONFIDENCE = 0.9;
+const TEMPLATE_CONFIDENCE = 0.5;
+
+const MIN_KEYWORD_LENGTH = 3;
+
+/**
+ * Deterministic AI provider for offline use and tests. Questions are answered from a rules file
+ * mapping natural-language patterns to KQL, confidence, reasoning, explanations and analysis
+ * results, falling back to the query template whose name and tags best match the question.
+ */
+export class MockAIProvider implements IAIProvider {
+  private rules: CompiledRule[] = [];
+  private defaultAnswer?: MockAIAnswer;
+  private initializationPromise: Promise<void> | null = null;
+
+  constructor(
+    private config: AIProviderConfig,
+    _authProvider?: IAuthenticationProvider,
+    private templates: ITemplateRepository = new TemplateService()
+  ) {
+    if (this.config.type !== 'mock') {
+      throw new Error('Invalid provider type for MockAIProvider');
+    }
+  }
+
+  /**
+   * Load the rules file
+   */
+  async initialize(): Promise<void> {
+    if (!this.initializationPromise) {
+      this.initializationPromise = Promise.resolve().then(() => this.loadRules());
+    }
+    await this.initializationPromise;
+  }
+
+  /**
+   * Answer with the first rule matching the question, or the best matching template
+   */
+  async generateQuery(request: QueryGenerationRequest): Promise<NLQuery> {
+    await this.initialize();
+    throwIfCancelled(request.signal);
+    return this.answer(request.userInput, request.dataSourceType, 0);
+  }
+
+  /**
+   * Explain with the explanation of the rule answering with the query, or describe its operators
+   */
+  async explainQuery(request: QueryExplanationRequest): Promise<string> {
+    await this.initialize();
+    const rule = this.findRuleForQuery(request.query);
+    return rule?.explanation ?? describeQuery(request.query);
+  }
+
+  /**
+   * Answer with the next query of the matching rule, one per attempt
+   */
+  async regenerateQuery(request: RegenerationRequest): Promise<NLQuery> {
+    await this.initialize();
+    throwIfCancelled(request.signal);
+    return this.answer(request.userInput, request.dataSourceType, request.context.attemptNumber);
+  }
+
+  /**
+   * Answer with the response of the first rule matching the prompt
+   */
+  async generateResponse(prompt: string): Promise<string> {
+    await this.initialize();
+    const match = this.rules.find(({ rule, regex }) => rule.response !== undefined && regex.test(prompt));
+    return match?.rule.response ?? this.defaultAnswer?.response ?? 'No mock response matches this prompt.';
+  }
+
+  /**
+   * Answer with the analysis of the rule answering with the query, or summarize the result shape
+   */
+  async analyzeQueryResult(request: QueryAnalysisRequest): Promise<QueryAnalysisResult> {
+    await this.initialize();
+    const rule = this.findRuleForQuery(request.originalQuery);
+    if (rule?.analysis) {
+      return rule.analysis;
+    }
+
+    const table = request.result?.tables?.[0];
+    const rows = table?.rows?.length ?? 0;
+    const columns = table?.columns?.length ?? 0;
+    const result: QueryAnalysisResult = {
+      aiInsights: `The query returned ${rows} ${rows === 1 ? 'row' : 'rows'} with ${columns} ${columns === 1 ? 'column' : 'columns'}.`,
+      recommendations: [],
+      followUpQueries: []
+    };
+    if (request.analysisType !== 'insights') {
+      result.patterns = { trends: [], anomalies: [], correlations: [] };
+    }
+    return result;
+  }
+
+  private async answer(userInput: string, dataSourceType: DataSourceType | undefined, attempt: number): Promise<NLQuery> {
+    for (const { rule, regex } of this.rules) {
+      if (rule.kql === undefined || (rule.dataSourceType && dataSourceType && rule.dataSourceType !== dataSourceType)) {
+        continue;
+      }
+      const match = userInput.match(regex);
+      if (match) {
+        logger.debug(`MockAIProvider: Question matches rule '${rule.pattern}'`);
+        return {
+          generatedKQL: substituteGroups(pickQuery(rule.kql, attempt), match),
+          confidence: rule.confidence ?? DEFAULT_CONFIDENCE,
+          reasoning: rule.reasoning ?? `Matched mock rule '${rule.pattern}'`
+        };
+      }
+    }
+
+    const templateAnswer = await this.answerFromTemplate(userInput);
+    if (templateAnswer) {
+      return templateAnswer;
+    }
+
+    if (this.defaultAnswer?.kql !== undefined) {
+      return {
+        generatedKQL: pickQuery(this.defaultAnswer.kql, attempt),
+        confidence: this.defaultAnswer.confidence ?? DEFAULT_CONFIDENCE,
+        reasoning: this.defaultAnswer.reasoning ?? 'No mock rule matches the question, using the default answer'
+      };
+    }
+
+    throw new Error(`No mock rule or template matches "${userInput}"`);
+  }
+
+  /**
+   * Apply the template sharing the most keywords with the question, ties going to the first id
+   */
+  private async answerFromTemplate(userInput: string): Promise<NLQuery | null> {
+    const words = new Set(userInput.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length >= MIN_KEYWORD_LENGTH));
+    if (words.size === 0) {
+      return null;
+    }
+
+    const candidates = (await this.templates.getTemplates())
+      .map(template => ({ template, score: scoreTemplate(template, words) }))
+      .filter(candidate => candidate.score > 0)
+      .sort((a, b) => b.score - a.score || a.template.id.localeCompare(b.template.id));
+
+    for (const { template } of candidates) {
+      try {
+        const query = await this.templates.applyTemplate(template, {});
+        logger.debug(`MockAIProvider: Question matches template '${template.id}'`);
+        return {
+          generatedKQL: query,
+          confidence: TEMPLATE_CONFIDENCE,
+          reasoning: `Matched the '${template.name}' template`
+        };
+      } catch (error) {
+        // Templates with required parameters cannot be applied without them
+        logger.debug(`MockAIProvider: Skipping template '${template.id}': ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The rule answering with the query, or else the first rule whose pattern matches its text
+   */
+  private findRuleForQuery(query: string): MockAIRule | undefined {
+    const answering = this.rules.find(({ rule }) =>
+      rule.kql !== undefined && ([] as string[]).concat(rule.kql).some(kql => queryMatcher(kql).test(query.trim())));
+    return (answering ?? this.rules.find(({ regex }) => regex.test(query)))?.rule;
+  }
+
+  private loadRules(): void {
+    if (!this.config.rulesFile) {
+      logger.debug('MockAIProvider: No rules file configured, answering from templates');
+      return;
+    }
+
+    const filePath = path.resolve(this.config.rulesFile.replace(/^~(?=$|[\\/])/, os.homedir()));
+    let file: MockAIRulesFile;
+    try {
+      file = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Could not read mock rules file ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!file || !Array.isArray(file.rules)) {
+      throw new Error(`Mock rules file ${filePath} must contain a rules array`);
+    }
+
+    this.rules = file.rules.map((rule, index) => {
+      const position = `Rule ${index + 1} of ${filePath}`;
+      if (!rule || typeof rule.pattern !== 'string') {
+        throw new Error(`${position} has no pattern`);
+      }
+      validateAnswer(rule, position);
+      try {
+        return { rule, regex: new RegExp(rule.pattern, 'i') };
+      } catch (error) {
+        throw new Error(`${position} has an invalid pattern: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+    if (file.default) {
+      validateAnswer(file.default, `The default answer of ${filePath}`);
+      this.defaultAnswer = file.default;
+    }
+
+    logger.debug(`MockAIProvider: Loaded ${this.rules.length} rules from ${filePath}`);
+  }
+}
+
+function validateAnswer(answer: MockAIAnswer, position: string): void {
+  if (answer.confidence !== undefined && (typeof answer.confidence !== 'number' || answer.confidence < 0 || answer.confidence > 1)) {
+    throw new Error(`${position} has an invalid confidence: ${answer.confidence} (expected a number between 0 and 1)`);
+  }
+  if (Array.isArray(answer.kql) && answer.kql.length === 0) {
+    throw new Error(`${position} has an empty kql list`);
+  }
+}
+
+function pickQuery(kql: string | string[], attempt: number): string {
+  return Array.isArray(kql) ? kql[Math.min(attempt, kql.length - 1)] : kql;
+}
+
+/**
+ * Insert the groups of the pattern match for $1 or $<name>
+ */
+function substituteGroups(kql: string, match: RegExpMatchArray): string {
+  return kql.replace(/\$(\d+|<(\w+)>)/g, (placeholder, index: string, name?: string) => {
+    const value = name !== undefined ? match.groups?.[name] : match[Number(index)];
+    return value ?? placeholder;
+  });
+}
+
+function scoreTemplate(template: QueryTemplate, words: Set<string>): number {
+  const keywords = new Set([template.name, ...template.metadata.tags]
+    .flatMap(text => text.toLowerCase().split(/[^a-z0-9]+/))
+    .filter(keyword => keyword.length >= MIN_KEYWORD_LENGTH));
+  return Array.from(keywords).filter(keyword => words.has(keyword)).length;
+}
+
+/**
+ * Regular expression matching the queries a rule answers with, whatever the groups inserted
+ * and the whitespace
+ */
+function queryMatcher(kql: string): RegExp {
+  const source = kql.trim()
+    .split(/(\$(?:\d+|<\w+>)|\s+)/)
+    .map(part => /^\$(\d+|<\w+>)$/.test(part) ? '.+?' : /^\s+$/.test(part) ? '\\s+' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Describe the tables and operators of a query
+ */
+function describeQuery(query: string): string {
+  const statement = parseKql(query).script.statements.find(candidate => candidate.kind === 'Query');
+  if (!statement || statement.kind !== 'Query') {
+    return `This query runs:\n\n${query.trim()}`;
+  }
+
+  const { source, operators } = statement.pipeline;
+  const table = source.kind === 'Name' ? source.name : 'its source';
+  if (operators.length === 0) {
+    return `This query returns the rows of ${table}.`;
+  }
+  return `This query reads ${table} and then applies ${operators.map(operator => operator.name).join(', then ')}.`;
+}
@@ -0,0 +1,73 @@
+import OpenAI from 'openai';
+import { OpenAIProvider } from './OpenAIProvider';
+import { AIProviderConfig } from '../../core/types/ProviderTypes';
+import { IAuthenticationProvider } from '../../core/interfaces/IAuthenticationProvider';
+import { logger } from '../../utils/logger';
+
+/**
+ * Generic provider for servers exposing the OpenAI chat-completions protocol
+ * (vLLM, LM Studio, LiteLLM gateways, ...) at a custom base URL
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  constructor(
+    config: AIProviderConfig,
+    authProvider?: IAuthenticationProvider
+  ) {
+    super(config, authProvider);
+  }
+
+  /**
+   * Override the initialization method to use the configured base URL and headers
+   */
+  protected async initializeOpenAI(): Promise<void> {
+    if (this.config.type !== 'openai-compatible') {
+      throw new Error('Invalid provider type for OpenAICompatibleProvider');
+    }
+    try {
+      if (!this.config.endpoint) {
+        throw new Error('OpenAI-compatible endpoint is required');
+      }
+
+      logger.debug(`Initializing OpenAI-compatible client with endpoint: ${this.config.endpoint}`);
+
+      this.openAIClient = new OpenAI({
+        // OpenAI client requires an API key even when the server doesn't
+        apiKey: this.config.apiKey || 'not-required',
+        baseURL: this.config.endpoint,
+        defaultHeaders: this.buildHeaders(),
+      });
+
+      logger.debug('OpenAI-compatible client initialized successfully');
+    } catch (error) {
+      logger.error('Failed to initialize OpenAI-compatible client:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Request JSON output for KQL generation when JSON mode is enabled
+   */
+  protected getQueryGenerationOptions(): Partial<OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming> {
+    return this.config.jsonMode ? { response_format: { type: 'json_object' } } : {};
+  }
+
+  /**
+   * Build request headers, sending the API key in a custom auth header when configured
+   */
+  private buildHeaders(): Record<string, string | null> {
+    const headers: Record<string, string | null> = { ...this.config.headers };
+    const hasCustomAuthorization = Object.keys(headers).some(name => name.toLowerCase() === 'authorization');
+
+    if (!this.config.apiKey) {
+      // Don't send the placeholder key as a bearer token
+      if (!hasCustomAuthorization) {
+        headers['Authorization'] = null;
+      }
+    } else if (this.config.authHeader && this.config.authHeader.toLowerCase() !== 'authorization') {
+      headers['Authorization'] = null;
+      headers[this.config.authHeader] = this.config.apiKey;
+    }
+
+    return headers;
+  }
+}
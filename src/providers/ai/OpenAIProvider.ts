@@ -4,6 +4,7 @@ import { IAuthenticationProvider } from '../../core/interfaces/IAuthenticationPr
 import { AIProviderConfig } from '../../core/types/ProviderTypes';
 import { NLQuery, OpenAIChoice } from '../../types';
 import { logger } from '../../utils/logger';
+import { rethrowIfCancelled } from '../../utils/cancellation';
 import { buildSystemPrompt, buildRegenerationPrompt, buildExplanationSystemPrompt, buildPatternAnalysisPrompt, buildInsightsPrompt } from './prompts/systemPrompts';
 
 /**
@@ -64,7 +65,7 @@ export class OpenAIProvider implements IAIProvider {
     try {
       logger.debug('Generating KQL query with OpenAI...');
 
-      const systemPrompt = buildSystemPrompt(request.dataSourceType, request.schema, request.extraContext);
+      const systemPrompt = buildSystemPrompt(request.dataSourceType, request.schema, request.extraContext, request.timespan);
       const userPrompt = `Convert this natural language query to KQL: "${request.userInput}"`;
 
       const response = await this.openAIClient.chat.completions.create({
@@ -75,7 +76,8 @@ export class OpenAIProvider implements IAIProvider {
         ],
         temperature: 0.3,
         max_tokens: 1000,
-      });
+        ...this.getQueryGenerationOptions(),
+      }, { signal: request.signal });
 
       if (!response.choices?.[0]?.message?.content) {
         throw new Error('No content received from OpenAI');
@@ -97,6 +99,7 @@ export class OpenAIProvider implements IAIProvider {
       logger.debug(`KQL query generated successfully: ${kqlQuery}`);
       return result;
     } catch (error) {
+      rethrowIfCancelled(error, request.signal);
       logger.error('Failed to generate KQL query:', error);
       throw new Error(`KQL generation failed: ${error}`);
     }
@@ -153,11 +156,12 @@ export class OpenAIProvider implements IAIProvider {
     try {
       logger.debug(`Regenerating KQL query (attempt ${request.context.attemptNumber}) with OpenAI...`);
 
-      const systemPrompt = buildSystemPrompt(request.dataSourceType, request.schema, request.extraContext);
+      const systemPrompt = buildSystemPrompt(request.dataSourceType, request.schema, request.extraContext, request.timespan);
       const userPrompt = buildRegenerationPrompt(
         request.userInput,
         request.context.previousQuery,
-        request.context.attemptNumber
+        request.context.attemptNumber,
+        request.context.executionError
       );
 
       const response = await this.openAIClient.chat.completions.create({
@@ -168,7 +172,8 @@ export class OpenAIProvider implements IAIProvider {
         ],
         temperature: 0.5, // Higher temperature for more variation
         max_tokens: 1000,
-      });
+        ...this.getQueryGenerationOptions(),
+      }, { signal: request.signal });
 
       if (!response.choices?.[0]?.message?.content) {
         throw new Error('No content received from OpenAI');
@@ -190,6 +195,7 @@ export class OpenAIProvider implements IAIProvider {
       logger.debug(`KQL query regenerated successfully: ${kqlQuery}`);
       return result;
     } catch (error) {
+      rethrowIfCancelled(error, request.signal);
       logger.error('Failed to regenerate KQL query:', error);
       throw new Error(`KQL regeneration failed: ${error}`);
     }
@@ -275,6 +281,13 @@ export class OpenAIProvider implements IAIProvider {
     }
   }
 
+  /**
+   * Extra request options for KQL generation calls, overridden by subclasses
+   */
+  protected getQueryGenerationOptions(): Partial<OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming> {
+    return {};
+  }
+
   /**
    * Perform pattern analysis using AI
    */
@@ -473,7 +486,8 @@ export class OpenAIProvider implements IAIProvider {
       const jsonContent = this.extractJSONFromResponse(content);
       const parsed = JSON.parse(jsonContent);
       if (parsed.kql) {
-        return parsed.kql;
+        // Azure Metrics answers with a structured metric query object instead of KQL text
+        return typeof parsed.kql === 'string' ? parsed.kql : JSON.stringify(parsed.kql, null, 2);
       }
     } catch {
       // Continue to other extraction methods
@@ -482,6 +496,9 @@ export class OpenAIProvider implements IAIProvider {
     // Try direct JSON parsing (for responses without markdown)
     try {
       const parsed = JSON.parse(content);
+      if (parsed.kql && typeof parsed.kql !== 'string') {
+        return JSON.stringify(parsed.kql, null, 2);
+      }
       return parsed.kql || content;
     } catch {
       // Fallback: try to extract KQL from code blocks
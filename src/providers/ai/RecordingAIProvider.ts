@@ -0,0 +1,42 @@
+import { IAIProvider, QueryGenerationRequest, QueryExplanationRequest, RegenerationRequest, QueryAnalysisRequest, QueryAnalysisResult } from '../../core/interfaces/IAIProvider';
+import { NLQuery } from '../../types';
+import { Cassette } from '../../utils/cassette';
+
+/**
+ * AI provider decorator that records requests and responses into a cassette (--record),
+ * or answers from one without calling the provider (--replay)
+ */
+export class RecordingAIProvider implements IAIProvider {
+  constructor(
+    private readonly provider: IAIProvider,
+    private readonly cassette: Cassette
+  ) {}
+
+  async initialize(): Promise<void> {
+    if (this.cassette.mode === 'record') {
+      await this.provider.initialize();
+    }
+  }
+
+  generateQuery(request: QueryGenerationRequest): Promise<NLQuery> {
+    const { signal, ...recorded } = request;
+    return this.cassette.run('ai', 'generateQuery', recorded, () => this.provider.generateQuery(request), signal);
+  }
+
+  explainQuery(request: QueryExplanationRequest): Promise<string> {
+    return this.cassette.run('ai', 'explainQuery', request, () => this.provider.explainQuery(request));
+  }
+
+  regenerateQuery(request: RegenerationRequest): Promise<NLQuery> {
+    const { signal, ...recorded } = request;
+    return this.cassette.run('ai', 'regenerateQuery', recorded, () => this.provider.regenerateQuery(request), signal);
+  }
+
+  generateResponse(prompt: string): Promise<string> {
+    return this.cassette.run('ai', 'generateResponse', { prompt }, () => this.provider.generateResponse(prompt));
+  }
+
+  analyzeQueryResult(request: QueryAnalysisRequest): Promise<QueryAnalysisResult> {
+    return this.cassette.run('ai', 'analyzeQueryResult', request, () => this.provider.analyzeQueryResult(request));
+  }
+}
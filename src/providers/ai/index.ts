@@ -1,2 +1,7 @@
 export * from './OpenAIProvider';
 export * from './OllamaProvider';
+export * from './AnthropicProvider';
+export * from './OpenAICompatibleProvider';
+export * from './MockAIProvider';
+export * from './FailoverAIProvider';
+export * from './RecordingAIProvider';
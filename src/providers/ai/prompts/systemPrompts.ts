@@ -2,15 +2,23 @@
  * Shared system prompts for AI providers
  */
 
+import { describeTimespan, toKqlTimeFilter } from '../../../utils/timeRange';
+
 /**
  * Data source type for prompts
  */
-export type DataSourceType = 'application-insights' | 'log-analytics' | 'azure-metrics' | 'azure-data-explorer';
+export type DataSourceType = 'application-insights' | 'log-analytics' | 'azure-metrics' | 'azure-data-explorer' | 'local-files';
 
 /**
- * Build system prompt for KQL generation based on data source type
+ * Build system prompt for KQL generation based on data source type.
+ * Azure Metrics is not queried with KQL and gets a prompt for a structured metric query instead.
+ * The timespan the query will run over is described so that the AI does not pick its own window.
  */
-export function buildSystemPrompt(dataSourceType?: DataSourceType, schema?: any, extraContext?: string): string {
+export function buildSystemPrompt(dataSourceType?: DataSourceType, schema?: any, extraContext?: string, timespan?: string): string {
+  if (dataSourceType === 'azure-metrics') {
+    return buildMetricQuerySystemPrompt(schema, extraContext, timespan);
+  }
+
   const baseInstructions = getDataSourceSpecificInstructions(dataSourceType || 'application-insights');
   
   let prompt = `${baseInstructions}
@@ -32,6 +40,10 @@ General KQL patterns:
 - Use proper join techniques when working with multiple tables
 - Consider using 'take' to limit results for better performance`;
 
+  if (timespan) {
+    prompt += `\n\n${buildTimeRangeInstructions(dataSourceType || 'application-insights', timespan)}`;
+  }
+
   if (schema) {
     prompt += `\n\nAvailable schema information:\n${JSON.stringify(schema, null, 2)}`;
   }
@@ -43,6 +55,83 @@ General KQL patterns:
   return prompt;
 }
 
+/**
+ * Build system prompt for Azure Monitor Metrics, which takes a structured metric query (JSON) instead of KQL
+ */
+function buildMetricQuerySystemPrompt(schema?: any, extraContext?: string, timespan?: string): string {
+  let prompt = `You are an expert in Azure Monitor Metrics.
+Your task is to convert natural language questions into structured metric queries for the Azure Monitor metrics API.
+The data source does not accept KQL: answer with a metric query object, never with KQL text.
+
+Azure Metrics specific guidance:
+- Use only metric names from the available metric definitions (the "name" field, not the display name)
+- Common metric categories: CPU, Memory, Network, Storage, Requests, Errors, etc.
+- Choose aggregations the metric supports: Average, Total, Minimum, Maximum, Count
+- Choose an interval (ISO 8601 duration such as PT1M, PT5M, PT1H) suited to the timespan
+- Use dimension filters to narrow the data and splitBy to get one time series per dimension value
+- Use top and orderBy to limit the number of series when splitting by high-cardinality dimensions
+
+Return results as JSON with this exact structure:
+{
+  "kql": {
+    "metricNames": ["Percentage CPU"],
+    "aggregations": ["Average", "Maximum"],
+    "interval": "PT5M",
+    "timespan": "PT24H",
+    "filters": [{ "dimension": "DimensionName", "operator": "eq", "values": ["value"] }],
+    "splitBy": ["DimensionName"],
+    "top": 10,
+    "orderBy": "Average desc"
+  },
+  "confidence": 0.85,
+  "reasoning": "explanation of approach"
+}
+Only metricNames is required; leave out fields that are not needed.`;
+
+  if (timespan) {
+    prompt += `\n\n${buildTimeRangeInstructions('azure-metrics', timespan)}`;
+  }
+
+  if (schema) {
+    prompt += `\n\nAvailable metric definitions:\n${JSON.stringify(schema, null, 2)}`;
+  }
+
+  if (extraContext) {
+    prompt += `\n\nAdditional context:\n${extraContext}`;
+  }
+
+  return prompt;
+}
+
+/**
+ * Time range section of the system prompt. Application Insights, Log Analytics and Azure Monitor Metrics
+ * apply the timespan themselves; Azure Data Explorer has no query time range, so the query must filter.
+ */
+function buildTimeRangeInstructions(dataSourceType: DataSourceType, timespan: string): string {
+  const window = `${describeTimespan(timespan)} (${timespan})`;
+
+  switch (dataSourceType) {
+    case 'azure-metrics':
+      return `Time range:
+- The query runs over ${window}
+- Leave out "timespan" so that this window applies, unless the question asks for a different period
+- Choose the interval for this window`;
+
+    case 'azure-data-explorer':
+      return `Time range:
+- The question is about ${window}
+- Azure Data Explorer does not limit queries to this window: filter the time column explicitly, e.g. 'where Timestamp ${toKqlTimeFilter(timespan)}'
+- Use a narrower filter only when the question asks for one`;
+
+    default:
+      return `Time range:
+- The query runs over ${window}; the service applies this window to every table
+- Do not add 'where timestamp > ago(...)' filters for this window and do not hardcode another one such as ago(1d)
+- Add a time filter only when the question asks for a narrower period; data outside the window is not returned
+- Choose bin() sizes suited to this window`;
+  }
+}
+
 /**
  * Get data source specific instructions
  */
@@ -74,18 +163,6 @@ Log Analytics specific guidance:
 - Use 'search' operator when table structure is unknown
 - Consider workspace-specific data retention policies`;
 
-    case 'azure-metrics':
-      return `You are an expert in Azure Monitor Metrics KQL (Kusto Query Language).
-Your task is to convert natural language queries into valid KQL queries for Azure Metrics.
-Follow Azure Monitor Community best practices and proven patterns.
-
-Azure Metrics specific guidance:
-- Focus on metric-based queries rather than log-based
-- Use appropriate time granularity for metric aggregations
-- Common metric categories: CPU, Memory, Network, Storage, etc.
-- Consider metric dimensions for filtering and grouping
-- Use appropriate aggregation functions: avg, sum, count, min, max`;
-
     case 'azure-data-explorer':
       return `You are an expert in Azure Data Explorer (ADX) KQL (Kusto Query Language).
 Your task is to convert natural language queries into valid KQL queries for Azure Data Explorer.
@@ -101,6 +178,17 @@ Azure Data Explorer specific guidance:
 - Use join operations when working with multiple tables
 - Consider data retention and hot/cold cache policies`;
 
+    case 'local-files':
+      return `You are an expert in KQL (Kusto Query Language).
+Your task is to convert natural language queries into valid KQL queries over tables loaded from local files.
+The queries run in a local interpreter that supports a subset of KQL.
+
+Local files specific guidance:
+- Use only the tables and columns of the schema; each table is one file
+- Use only these operators: where, project, project-away, project-rename, extend, summarize, sort, top, take, count, distinct, join (kind=inner, innerunique or leftouter), union, mv-expand and render
+- Use common aggregations (count, countif, dcount, sum, avg, min, max, percentile, percentiles, arg_max, arg_min, make_list, make_set) and scalar functions (bin, ago, now, startofday, iif, case, strcat, tostring, todouble, round, ...)
+- Do not use make-series, parse, evaluate plugins, search or user-defined functions`;
+
     default:
       return `You are an expert in KQL (Kusto Query Language).
 Your task is to convert natural language queries into valid KQL queries.
@@ -119,8 +207,26 @@ General guidance:
 export function buildRegenerationPrompt(
   originalQuestion: string,
   previousQuery: string,
-  attemptNumber: number
+  attemptNumber: number,
+  executionError?: string
 ): string {
+  if (executionError) {
+    return `Convert this natural language query to KQL: "${originalQuestion}"
+
+Previous attempt (attempt ${attemptNumber}) failed when executed:
+${previousQuery}
+
+Error returned by the data source:
+${executionError}
+
+Please fix the query so that it executes successfully. Consider:
+- Table and column names that do not exist in the schema
+- Type mismatches (e.g. comparing strings with numbers or datetimes)
+- Syntax errors and unsupported operators or functions
+
+Keep the intent of the original question and change only what is needed to resolve the error.`;
+  }
+
   return `Convert this natural language query to KQL: "${originalQuestion}"
 
 Previous attempt (attempt ${attemptNumber}):
@@ -1,46 +1,40 @@
-import { DefaultAzureCredential } from '@azure/identity';
-import { IAuthenticationProvider } from '../../core/interfaces/IAuthenticationProvider';
+import { IAuthenticationProvider, CredentialReport } from '../../core/interfaces/IAuthenticationProvider';
 import { AuthConfig } from '../../core/types/ProviderTypes';
 import { logger } from '../../utils/logger';
+import { CredentialChain, DEFAULT_CREDENTIAL_CHAIN } from './credentialChain';
 
 /**
- * Azure Managed Identity authentication provider
+ * Azure Managed Identity authentication provider.
+ * Tries the credentials listed in `credentials` in order (managed identity, Azure CLI, device code, ...);
+ * without that list the same credentials as DefaultAzureCredential are tried.
  */
 export class AzureManagedIdentityProvider implements IAuthenticationProvider {
-  private credential: DefaultAzureCredential | null = null;
+  private credential: CredentialChain;
 
   constructor(private config: AuthConfig) {
     if (this.config.type !== 'azure-managed-identity') {
       throw new Error('Invalid provider type for AzureManagedIdentityProvider');
     }
-    this.initializeCredential();
-  }
 
-  private initializeCredential(): void {
-    try {
-      this.credential = new DefaultAzureCredential();
-      logger.debug('Azure Managed Identity credential initialized successfully');
-    } catch (error) {
-      logger.error('Failed to initialize Azure Managed Identity credential:', error);
-      throw new Error('Azure authentication failed');
-    }
+    const methods = this.config.credentials?.length ? this.config.credentials : DEFAULT_CREDENTIAL_CHAIN;
+    this.credential = new CredentialChain(methods, {
+      tenantId: this.config.tenantId,
+      clientId: this.config.clientId,
+    });
+    logger.debug(`Azure credential chain initialized: ${methods.join(' → ')}`);
   }
 
   /**
    * Get access token for specified scopes
    */
   async getAccessToken(scopes: string[] = ['https://api.applicationinsights.io/.default']): Promise<string> {
-    if (!this.credential) {
-      throw new Error('Azure credential not initialized');
-    }
-
     try {
       const tokenResponse = await this.credential.getToken(scopes);
       logger.debug('Access token obtained successfully');
       return tokenResponse.token;
     } catch (error) {
       logger.error('Failed to get access token:', error);
-      throw new Error('Failed to authenticate with Azure');
+      throw new Error(`Failed to authenticate with Azure: ${error instanceof Error ? error.message : error}`);
     }
   }
 
@@ -64,4 +58,11 @@ export class AzureManagedIdentityProvider implements IAuthenticationProvider {
   async getOpenAIToken(): Promise<string> {
     return this.getAccessToken(['https://cognitiveservices.azure.com/.default']);
   }
+
+  /**
+   * Report which credential of the chain returned the last token
+   */
+  getCredentialReport(): CredentialReport {
+    return this.credential.getReport();
+  }
 }
\ No newline at end of file
@@ -0,0 +1,142 @@
+import { AccessTokenWithExpiry, IAuthenticationProvider, CredentialReport } from '../../core/interfaces/IAuthenticationProvider';
+import { AuthConfig } from '../../core/types/ProviderTypes';
+import { logger } from '../../utils/logger';
+import { AZURE_SCOPES } from './scopes';
+import { CachedToken, TokenCache } from './TokenCache';
+
+/**
+ * Claims read from an access token to know its expiry and whom it was issued to
+ */
+interface TokenClaims {
+  exp?: number;
+  upn?: string;
+  unique_name?: string;
+  preferred_username?: string;
+  appid?: string;
+  azp?: string;
+  tid?: string;
+  oid?: string;
+}
+
+/** Lifetime assumed for opaque tokens, whose expiry cannot be read */
+const DEFAULT_TOKEN_LIFETIME_MS = 60 * 60 * 1000;
+
+const TENANT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Decode the payload of a JWT access token, undefined for opaque tokens
+ */
+export function decodeTokenClaims(token: string): TokenClaims | undefined {
+  const payload = token.split('.')[1];
+  if (!payload) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Expiry of an access token from its exp claim, an hour from now for opaque tokens
+ */
+export function getTokenExpiry(token: string): number {
+  const exp = decodeTokenClaims(token)?.exp;
+  return exp ? exp * 1000 : Date.now() + DEFAULT_TOKEN_LIFETIME_MS;
+}
+
+/**
+ * Identity a cached token belongs to: the tenant and credential type from the auth configuration
+ */
+export function getTokenCacheIdentity(config: AuthConfig): { tenantId: string; credentialType: string } {
+  return {
+    tenantId: config.tenantId || 'default',
+    credentialType: config.clientId ? `${config.type}:${config.clientId}` : config.type,
+  };
+}
+
+/**
+ * Authentication provider decorator that keeps tokens in the on-disk TokenCache,
+ * so that CLI invocations reuse tokens until shortly before they expire
+ */
+export class CachedAuthenticationProvider implements IAuthenticationProvider {
+  private readonly tenantId: string;
+  private readonly credentialType: string;
+  private lastCachedToken?: CachedToken;
+
+  constructor(
+    private readonly provider: IAuthenticationProvider,
+    config: AuthConfig,
+    private readonly cache: TokenCache = new TokenCache()
+  ) {
+    ({ tenantId: this.tenantId, credentialType: this.credentialType } = getTokenCacheIdentity(config));
+  }
+
+  async getAccessToken(scopes: string[] = [AZURE_SCOPES.applicationInsights]): Promise<string> {
+    return (await this.getAccessTokenWithExpiry(scopes)).token;
+  }
+
+  async getAccessTokenWithExpiry(scopes: string[] = [AZURE_SCOPES.applicationInsights]): Promise<AccessTokenWithExpiry> {
+    const scope = scopes.join(' ');
+    const cached = this.cache.get(this.tenantId, this.credentialType, scope);
+    if (cached && this.isIssuedForTenant(cached)) {
+      logger.debug(`Using cached access token for ${scope}`);
+      this.lastCachedToken = cached;
+      return { token: cached.token, expiresOnTimestamp: cached.expiresOnTimestamp };
+    }
+
+    const token = await this.provider.getAccessToken(scopes);
+    this.lastCachedToken = undefined;
+
+    // Only JWTs can be cached, the expiry is read from the token itself
+    const claims = decodeTokenClaims(token);
+    if (claims?.exp) {
+      this.cache.set({
+        tenantId: this.tenantId,
+        credentialType: this.credentialType,
+        scope,
+        token,
+        expiresOnTimestamp: claims.exp * 1000,
+        method: this.provider.getCredentialReport?.().method,
+        account: claims.upn || claims.unique_name || claims.preferred_username || claims.appid || claims.azp,
+        issuedTenantId: claims.tid,
+        objectId: claims.oid,
+      });
+    }
+    return { token, expiresOnTimestamp: getTokenExpiry(token) };
+  }
+
+  async validateCredentials(): Promise<boolean> {
+    try {
+      await this.getAccessToken([AZURE_SCOPES.management]);
+      return true;
+    } catch (error) {
+      logger.warn('Azure credential validation failed:', error);
+      return false;
+    }
+  }
+
+  async getOpenAIToken(): Promise<string> {
+    return this.getAccessToken([AZURE_SCOPES.cognitiveServices]);
+  }
+
+  /**
+   * Whether a cached token was issued for the configured tenant; tenants configured by domain name cannot be compared
+   */
+  private isIssuedForTenant(cached: CachedToken): boolean {
+    if (!cached.issuedTenantId || !TENANT_ID_PATTERN.test(this.tenantId)) {
+      return true;
+    }
+    return cached.issuedTenantId.toLowerCase() === this.tenantId.toLowerCase();
+  }
+
+  getCredentialReport(): CredentialReport {
+    if (this.lastCachedToken) {
+      const method = this.lastCachedToken.method;
+      return { method, attempts: method ? [{ method }] : [], cached: true };
+    }
+    return this.provider.getCredentialReport?.() || { attempts: [] };
+  }
+}
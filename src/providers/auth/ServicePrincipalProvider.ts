@@ -0,0 +1,111 @@
+import { ClientCertificateCredential, ClientSecretCredential, TokenCredential } from '@azure/identity';
+import { IAuthenticationProvider, CredentialReport } from '../../core/interfaces/IAuthenticationProvider';
+import { AuthConfig } from '../../core/types/ProviderTypes';
+import { logger } from '../../utils/logger';
+import { AZURE_SCOPES, toDefaultScopes } from './scopes';
+
+/**
+ * Azure Service Principal authentication provider.
+ * Authenticates an app registration with a client secret or a certificate (client credentials flow),
+ * for environments where DefaultAzureCredential is not available such as CI runners.
+ */
+export class ServicePrincipalProvider implements IAuthenticationProvider {
+  private credential: TokenCredential;
+  private method: 'client-secret' | 'client-certificate';
+  private lastError?: string;
+  private authenticated = false;
+
+  constructor(private config: AuthConfig) {
+    if (this.config.type !== 'service-principal') {
+      throw new Error('Invalid provider type for ServicePrincipalProvider');
+    }
+
+    if (!this.config.tenantId || !this.config.clientId) {
+      throw new Error('Service Principal provider requires tenantId and clientId');
+    }
+
+    if (!this.config.certificatePath && !this.config.clientSecret) {
+      throw new Error('Service Principal provider requires clientSecret or certificatePath');
+    }
+
+    this.method = this.config.certificatePath ? 'client-certificate' : 'client-secret';
+    this.credential = this.createCredential(this.config.tenantId, this.config.clientId);
+  }
+
+  private createCredential(tenantId: string, clientId: string): TokenCredential {
+    // The certificate takes precedence when both are configured
+    if (this.config.certificatePath) {
+      logger.debug('Service Principal certificate credential initialized');
+      return new ClientCertificateCredential(
+        tenantId,
+        clientId,
+        { certificatePath: this.config.certificatePath, certificatePassword: this.config.certificatePassword },
+        { sendCertificateChain: this.config.sendCertificateChain }
+      );
+    }
+
+    logger.debug('Service Principal client secret credential initialized');
+    return new ClientSecretCredential(tenantId, clientId, this.config.clientSecret!);
+  }
+
+  /**
+   * Get access token for specified scopes.
+   * Tokens are issued for a single resource, so all scopes must belong to the same one.
+   */
+  async getAccessToken(scopes: string[] = [AZURE_SCOPES.applicationInsights]): Promise<string> {
+    const defaultScopes = toDefaultScopes(scopes);
+    if (defaultScopes.length !== 1) {
+      throw new Error(`Service Principal tokens are issued for one resource at a time, got scopes: ${scopes.join(', ')}`);
+    }
+
+    try {
+      const tokenResponse = await this.credential.getToken(defaultScopes);
+      if (!tokenResponse) {
+        throw new Error('No token returned');
+      }
+      logger.debug(`Access token obtained successfully for ${defaultScopes[0]}`);
+      this.authenticated = true;
+      this.lastError = undefined;
+      return tokenResponse.token;
+    } catch (error) {
+      logger.error('Failed to get access token with service principal:', error);
+      this.authenticated = false;
+      this.lastError = error instanceof Error ? error.message : String(error);
+      throw new Error(`Service Principal authentication failed: ${this.lastError}`);
+    }
+  }
+
+  /**
+   * Validate current credentials
+   */
+  async validateCredentials(): Promise<boolean> {
+    try {
+      await this.getAccessToken([AZURE_SCOPES.management]);
+      logger.debug('Service Principal credentials validated successfully');
+      return true;
+    } catch (error) {
+      logger.warn('Service Principal credential validation failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get token specifically for OpenAI/AI services
+   */
+  async getOpenAIToken(): Promise<string> {
+    return this.getAccessToken([AZURE_SCOPES.cognitiveServices]);
+  }
+
+  /**
+   * Report the service principal credential and the error of the last token request
+   */
+  getCredentialReport(): CredentialReport {
+    if (!this.authenticated && !this.lastError) {
+      return { attempts: [] };
+    }
+    return {
+      method: this.authenticated ? this.method : undefined,
+      attempts: [{ method: this.method, error: this.lastError }],
+    };
+  }
+}
@@ -0,0 +1,158 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { logger } from '../../utils/logger';
+
+/**
+ * Access token cached for one tenant, credential type and scope
+ */
+export interface CachedToken {
+  tenantId: string; // Configured tenant, or "default" when the credential picks it
+  credentialType: string; // Auth provider type, with the client ID for service principals and user-assigned identities
+  scope: string;
+  token: string;
+  expiresOnTimestamp: number;
+  method?: string; // Credential that issued the token, e.g. azure-cli
+  account?: string; // User principal name or application ID from the token
+  issuedTenantId?: string; // Tenant the token was issued for (tid claim)
+  objectId?: string; // Object ID of the signed-in user or application (oid claim)
+}
+
+interface EncryptedCacheFile {
+  version: 1;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/** Tokens closer than this to their expiry are refreshed instead of returned */
+export const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const CACHE_FILE = 'token-cache.json';
+const KEY_FILE = 'token-cache.key';
+
+/**
+ * Whether a new token of the same tenant and credential type was issued for another tenant or account
+ */
+function isReplacedBy(cached: CachedToken, entry: CachedToken): boolean {
+  if (cached.tenantId !== entry.tenantId || cached.credentialType !== entry.credentialType) {
+    return false;
+  }
+  return (!!cached.issuedTenantId && !!entry.issuedTenantId && cached.issuedTenantId !== entry.issuedTenantId)
+    || (!!cached.objectId && !!entry.objectId && cached.objectId !== entry.objectId);
+}
+
+/**
+ * Per-user on-disk token cache shared by CLI invocations.
+ * Entries are encrypted with AES-256-GCM using a random key stored next to the cache,
+ * both files readable by the current user only.
+ */
+export class TokenCache {
+  private entries: Map<string, CachedToken> | null = null;
+
+  constructor(private readonly cacheDir: string = path.join(os.homedir(), '.aidx')) {}
+
+  static key(tenantId: string, credentialType: string, scope: string): string {
+    return `${tenantId}|${credentialType}|${scope}`;
+  }
+
+  /**
+   * Get a token that is not about to expire
+   */
+  get(tenantId: string, credentialType: string, scope: string): CachedToken | undefined {
+    const entry = this.load().get(TokenCache.key(tenantId, credentialType, scope));
+    if (!entry || entry.expiresOnTimestamp - TOKEN_REFRESH_MARGIN_MS <= Date.now()) {
+      return undefined;
+    }
+    return entry;
+  }
+
+  set(entry: CachedToken): void {
+    const entries = this.load();
+    entries.set(TokenCache.key(entry.tenantId, entry.credentialType, entry.scope), entry);
+
+    // Drop expired tokens while writing, and the tokens of another tenant or account signed in with the same credential
+    for (const [key, cached] of entries) {
+      if (cached.expiresOnTimestamp <= Date.now() || isReplacedBy(cached, entry)) {
+        entries.delete(key);
+      }
+    }
+    this.save(entries);
+  }
+
+  /**
+   * All cached tokens, including expired ones
+   */
+  list(): CachedToken[] {
+    return [...this.load().values()];
+  }
+
+  /**
+   * Remove the cache and its key, returning the number of tokens removed
+   */
+  clear(): number {
+    const count = this.load().size;
+    this.entries = new Map();
+    for (const file of [CACHE_FILE, KEY_FILE]) {
+      fs.rmSync(path.join(this.cacheDir, file), { force: true });
+    }
+    logger.debug(`Token cache cleared (${count} tokens)`);
+    return count;
+  }
+
+  private load(): Map<string, CachedToken> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    this.entries = new Map();
+    const cachePath = path.join(this.cacheDir, CACHE_FILE);
+    const keyPath = path.join(this.cacheDir, KEY_FILE);
+    if (!fs.existsSync(cachePath) || !fs.existsSync(keyPath)) {
+      return this.entries;
+    }
+
+    try {
+      const file: EncryptedCacheFile = JSON.parse(fs.readFileSync(cachePath, 'utf-8'));
+      const decipher = crypto.createDecipheriv('aes-256-gcm', fs.readFileSync(keyPath), Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const data = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf-8');
+      const tokens: CachedToken[] = JSON.parse(data);
+      tokens.forEach(entry => this.entries!.set(TokenCache.key(entry.tenantId, entry.credentialType, entry.scope), entry));
+    } catch (error) {
+      // A corrupt cache or a changed key only costs a new token request
+      logger.debug(`Ignoring unreadable token cache: ${error}`);
+    }
+    return this.entries;
+  }
+
+  private save(entries: Map<string, CachedToken>): void {
+    try {
+      fs.mkdirSync(this.cacheDir, { recursive: true, mode: 0o700 });
+      const iv = crypto.randomBytes(12);
+      const cipher = crypto.createCipheriv('aes-256-gcm', this.getKey(), iv);
+      const data = Buffer.concat([cipher.update(JSON.stringify([...entries.values()]), 'utf-8'), cipher.final()]);
+      const file: EncryptedCacheFile = {
+        version: 1,
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64'),
+      };
+      fs.writeFileSync(path.join(this.cacheDir, CACHE_FILE), JSON.stringify(file), { mode: 0o600 });
+    } catch (error) {
+      logger.warn(`Failed to write token cache: ${error}`);
+    }
+  }
+
+  private getKey(): Buffer {
+    const keyPath = path.join(this.cacheDir, KEY_FILE);
+    if (fs.existsSync(keyPath)) {
+      return fs.readFileSync(keyPath);
+    }
+
+    const key = crypto.randomBytes(32);
+    fs.writeFileSync(keyPath, key, { mode: 0o600 });
+    return key;
+  }
+}
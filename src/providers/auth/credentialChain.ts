@@ -0,0 +1,200 @@
+import {
+  AccessToken,
+  AzureCliCredential,
+  AzureDeveloperCliCredential,
+  AzurePowerShellCredential,
+  DefaultAzureCredential,
+  DeviceCodeCredential,
+  EnvironmentCredential,
+  GetTokenOptions,
+  InteractiveBrowserCredential,
+  ManagedIdentityCredential,
+  TokenCredential,
+  WorkloadIdentityCredential,
+} from '@azure/identity';
+import { IAuthenticationProvider, CredentialAttempt, CredentialReport } from '../../core/interfaces/IAuthenticationProvider';
+import { AzureCredentialMethod } from '../../core/types/ProviderTypes';
+import { logger } from '../../utils/logger';
+import { getTokenExpiry } from './CachedAuthenticationProvider';
+
+/**
+ * All credential methods that can be listed in a chain
+ */
+export const AZURE_CREDENTIAL_METHODS: AzureCredentialMethod[] = [
+  'environment',
+  'workload-identity',
+  'managed-identity',
+  'azure-cli',
+  'azure-developer-cli',
+  'azure-powershell',
+  'device-code',
+  'interactive-browser',
+];
+
+/**
+ * Chain used when none is configured: the developer and hosted credentials of DefaultAzureCredential
+ */
+export const DEFAULT_CREDENTIAL_CHAIN: AzureCredentialMethod[] = [
+  'environment',
+  'workload-identity',
+  'managed-identity',
+  'azure-cli',
+  'azure-powershell',
+  'azure-developer-cli',
+];
+
+const CREDENTIAL_LABELS: Record<string, string> = {
+  'environment': 'Environment variables',
+  'workload-identity': 'Workload identity',
+  'managed-identity': 'Managed identity',
+  'azure-cli': 'Azure CLI',
+  'azure-developer-cli': 'Azure Developer CLI',
+  'azure-powershell': 'Azure PowerShell',
+  'device-code': 'Device code login',
+  'interactive-browser': 'Interactive browser login',
+  'client-secret': 'Service principal (client secret)',
+  'client-certificate': 'Service principal (certificate)',
+};
+
+/**
+ * Human-readable name of a credential method, e.g. "Azure CLI" for azure-cli
+ */
+export function describeCredentialMethod(method: string): string {
+  return CREDENTIAL_LABELS[method] || method;
+}
+
+export interface CredentialChainOptions {
+  tenantId?: string;
+  clientId?: string; // User-assigned managed identity or workload identity client ID
+}
+
+/**
+ * Ordered chain of Azure credentials. The first credential that returns a token is remembered
+ * and tried first on later requests; the others are only tried again when it stops working.
+ * Credentials are created on first use so that interactive ones do not prompt up front.
+ */
+export class CredentialChain implements TokenCredential {
+  private methods: AzureCredentialMethod[];
+  private credentials = new Map<AzureCredentialMethod, TokenCredential>();
+  private activeMethod?: AzureCredentialMethod;
+  private attempts: CredentialAttempt[] = [];
+
+  constructor(
+    methods: AzureCredentialMethod[],
+    private options: CredentialChainOptions = {}
+  ) {
+    this.methods = [...new Set(methods)];
+    if (methods.length === 0) {
+      throw new Error('Credential chain must list at least one credential');
+    }
+
+    const unknown = methods.filter(method => !AZURE_CREDENTIAL_METHODS.includes(method));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown credential method(s): ${unknown.join(', ')}`);
+    }
+  }
+
+  async getToken(scopes: string | string[], options?: GetTokenOptions): Promise<AccessToken> {
+    const order = this.activeMethod
+      ? [this.activeMethod, ...this.methods.filter(method => method !== this.activeMethod)]
+      : this.methods;
+    const attempts: CredentialAttempt[] = [];
+
+    for (const method of order) {
+      try {
+        const token = await this.getCredential(method).getToken(scopes, options);
+        if (!token) {
+          throw new Error('No token returned');
+        }
+
+        if (this.activeMethod !== method) {
+          logger.info(`Authenticated with ${describeCredentialMethod(method)}`);
+        }
+        attempts.push({ method });
+        this.activeMethod = method;
+        this.attempts = attempts;
+        return token;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.debug(`${describeCredentialMethod(method)} credential failed: ${message}`);
+        attempts.push({ method, error: message });
+      }
+    }
+
+    this.activeMethod = undefined;
+    this.attempts = attempts;
+    throw new Error(`No credential in the chain could authenticate (${attempts
+      .map(attempt => `${attempt.method}: ${attempt.error}`)
+      .join('; ')})`);
+  }
+
+  /**
+   * Credential that returned the last token and the credentials tried for it
+   */
+  getReport(): CredentialReport {
+    return { method: this.activeMethod, attempts: [...this.attempts] };
+  }
+
+  private getCredential(method: AzureCredentialMethod): TokenCredential {
+    let credential = this.credentials.get(method);
+    if (!credential) {
+      credential = createCredential(method, this.options);
+      this.credentials.set(method, credential);
+    }
+    return credential;
+  }
+}
+
+/**
+ * Create the @azure/identity credential for one method of the chain
+ */
+function createCredential(method: AzureCredentialMethod, options: CredentialChainOptions): TokenCredential {
+  const tenantId = options.tenantId || undefined;
+  const clientId = options.clientId || undefined;
+
+  switch (method) {
+    case 'environment':
+      return new EnvironmentCredential();
+    case 'workload-identity':
+      return new WorkloadIdentityCredential({ tenantId, clientId });
+    case 'managed-identity':
+      return new ManagedIdentityCredential({ clientId });
+    case 'azure-cli':
+      return new AzureCliCredential({ tenantId });
+    case 'azure-developer-cli':
+      return new AzureDeveloperCliCredential({ tenantId });
+    case 'azure-powershell':
+      return new AzurePowerShellCredential({ tenantId });
+    case 'device-code':
+      // Headless sessions (e.g. over SSH): sign in on another device. The prompt goes to stderr to keep stdout clean
+      return new DeviceCodeCredential({
+        tenantId,
+        userPromptCallback: (info) => {
+          process.stderr.write(`\n${info.message}\n\n`);
+        },
+      });
+    case 'interactive-browser':
+      return new InteractiveBrowserCredential({ tenantId });
+  }
+}
+
+/**
+ * TokenCredential for SDK clients that need one (Log Analytics, Azure Data Explorer):
+ * tokens come from the configured auth provider, or from DefaultAzureCredential without one
+ */
+export function resolveTokenCredential(authProvider?: IAuthenticationProvider): TokenCredential {
+  if (!authProvider) {
+    return new DefaultAzureCredential();
+  }
+
+  return {
+    getToken: async (scopes: string | string[]) => {
+      const scopeList = Array.isArray(scopes) ? scopes : [scopes];
+      if (authProvider.getAccessTokenWithExpiry) {
+        return authProvider.getAccessTokenWithExpiry(scopeList);
+      }
+      const token = await authProvider.getAccessToken(scopeList);
+      return { token, expiresOnTimestamp: getTokenExpiry(token) };
+    }
+  };
+}
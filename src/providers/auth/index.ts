@@ -1 +1,6 @@
-export * from './AzureManagedIdentityProvider';
\ No newline at end of file
+export * from './AzureManagedIdentityProvider';
+export * from './ServicePrincipalProvider';
+export * from './credentialChain';
+export * from './scopes';
+export * from './CachedAuthenticationProvider';
+export * from './TokenCache';
@@ -0,0 +1,28 @@
+/**
+ * Token scopes of the Azure services the providers talk to
+ */
+export const AZURE_SCOPES = {
+  applicationInsights: 'https://api.applicationinsights.io/.default',
+  logAnalytics: 'https://api.loganalytics.io/.default',
+  management: 'https://management.azure.com/.default',
+  cognitiveServices: 'https://cognitiveservices.azure.com/.default',
+} as const;
+
+/**
+ * Convert scopes to the "{resource}/.default" form required by the client credentials flow.
+ * Delegated permissions (https://api.loganalytics.io/Data.Read) and bare resource URIs
+ * (https://mycluster.kusto.windows.net) are mapped to the resource's .default scope.
+ */
+export function toDefaultScopes(scopes: string[]): string[] {
+  const normalized = scopes.map(scope => {
+    if (scope.endsWith('/.default')) {
+      return scope;
+    }
+    if (/^https?:\/\//i.test(scope)) {
+      return `${new URL(scope).origin}/.default`;
+    }
+    // Application ID URIs such as api://my-app are used as the resource as is
+    return `${scope.replace(/\/+$/, '')}/.default`;
+  });
+  return [...new Set(normalized)];
+}
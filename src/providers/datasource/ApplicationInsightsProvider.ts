@@ -4,12 +4,17 @@ import { IAuthenticationProvider } from '../../core/interfaces/IAuthenticationPr
 import { DataSourceConfig } from '../../core/types/ProviderTypes';
 import { QueryResult } from '../../types';
 import { logger } from '../../utils/logger';
+import { APPLICATION_INSIGHTS_API_KEY_ENV, describeSecretSource, resolveSecret } from '../../utils/secrets';
+import { rethrowIfCancelled } from '../../utils/cancellation';
+import { createResilientAdapter, ResilientExecutor } from '../../infrastructure/http';
 
 /**
- * Azure Application Insights data source provider implementation
+ * Azure Application Insights data source provider implementation.
+ * Requests are authenticated with an AAD token, or with an API key (x-api-key header) when authMode is 'api-key'.
  */
 export class ApplicationInsightsProvider implements IDataSourceProvider {
   private httpClient: AxiosInstance;
+  private apiKey?: string;
 
   constructor(
     private config: DataSourceConfig,
@@ -23,10 +28,18 @@ export class ApplicationInsightsProvider implements IDataSourceProvider {
       throw new Error('Application Insights provider requires applicationId');
     }
 
+    if (this.config.authMode === 'api-key') {
+      this.apiKey = resolveSecret(this.config.apiKey, APPLICATION_INSIGHTS_API_KEY_ENV);
+      if (!this.apiKey) {
+        throw new Error(`Application Insights API key not found in ${describeSecretSource(this.config.apiKey, APPLICATION_INSIGHTS_API_KEY_ENV)}`);
+      }
+    }
+
     const baseURL = this.config.endpoint || 'https://api.applicationinsights.io/v1/apps';
     this.httpClient = axios.create({
       baseURL,
       timeout: 30000,
+      adapter: createResilientAdapter(new ResilientExecutor('Application Insights', this.config.retry)),
     });
 
     this.setupInterceptors();
@@ -34,6 +47,11 @@ export class ApplicationInsightsProvider implements IDataSourceProvider {
 
   private setupInterceptors(): void {
     this.httpClient.interceptors.request.use(async (config) => {
+      if (this.apiKey) {
+        config.headers['x-api-key'] = this.apiKey;
+        return config;
+      }
+
       try {
         let token: string;
         if (this.authProvider) {
@@ -81,11 +99,19 @@ export class ApplicationInsightsProvider implements IDataSourceProvider {
         requestBody.timespan = request.timespan;
       }
 
-      const response = await this.httpClient.post(url, requestBody);
+      const response = await this.httpClient.post(url, requestBody, {
+        signal: request.signal,
+        ...(request.timeout && {
+          timeout: request.timeout,
+          // Server-side limit as well, so that the query does not keep running on the service
+          headers: { Prefer: `wait=${Math.ceil(request.timeout / 1000)}` }
+        })
+      });
 
       logger.debug(`Application Insights query executed successfully, returned ${response.data?.tables?.[0]?.rows?.length || 0} rows`);
       return response.data;
     } catch (error) {
+      rethrowIfCancelled(error, request.signal);
       logger.error('Failed to execute Application Insights query:', error);
       throw new Error(`Application Insights query execution failed: ${error}`);
     }
@@ -172,6 +198,7 @@ export class ApplicationInsightsProvider implements IDataSourceProvider {
         applicationName: response.data?.properties?.applicationName || 'Unknown',
         tenantId: this.config.tenantId,
         endpoint: this.config.endpoint || 'https://api.applicationinsights.io/v1/apps',
+        authMode: this.apiKey ? 'api-key' : 'aad',
         instrumentationKey: response.data?.properties?.instrumentationKey,
         appId: response.data?.properties?.appId,
         createdDate: response.data?.properties?.createdDate,
@@ -0,0 +1,322 @@
+import axios, { AxiosInstance } from 'axios';
+import { IDataSourceProvider, QueryExecutionRequest, ValidationResult, SchemaResult, MetadataResult } from '../../core/interfaces/IDataSourceProvider';
+import { IAuthenticationProvider } from '../../core/interfaces/IAuthenticationProvider';
+import { DataSourceConfig } from '../../core/types/ProviderTypes';
+import { QueryResult, QueryRow } from '../../types';
+import { logger } from '../../utils/logger';
+import { AZURE_METRIC_AGGREGATIONS, AzureMetricQuery, buildAzureMetricFilter, parseAzureMetricQuery } from '../../utils/metricQuery';
+import { createResilientAdapter, ResilientExecutor } from '../../infrastructure/http';
+import { rethrowIfCancelled } from '../../utils/cancellation';
+
+const METRICS_API_VERSION = '2018-01-01';
+const RESOURCES_API_VERSION = '2021-04-01';
+
+/**
+ * Metric definition as listed in the schema
+ */
+export interface AzureMetricDefinition {
+  name: string;
+  displayName?: string;
+  unit?: string;
+  primaryAggregation?: string;
+  aggregations: string[];
+  timeGrains: string[];
+  dimensions: string[];
+}
+
+interface MetricDefinitionResponse {
+  name?: { value?: string; localizedValue?: string };
+  unit?: string;
+  primaryAggregationType?: string;
+  supportedAggregationTypes?: string[];
+  metricAvailabilities?: Array<{ timeGrain?: string }>;
+  dimensions?: Array<{ value?: string }>;
+}
+
+interface MetricResponse {
+  name?: { value?: string };
+  unit?: string;
+  timeseries?: Array<{
+    metadatavalues?: Array<{ name?: { value?: string }; value?: string }>;
+    data?: Array<Record<string, unknown>>;
+  }>;
+}
+
+/**
+ * Azure Monitor platform metrics data source provider implementation.
+ * Queries are AzureMetricQuery JSON rather than KQL; the schema lists the metric definitions
+ * of the configured resource, and time series are returned as one table with a row per data point.
+ */
+export class AzureMetricsProvider implements IDataSourceProvider {
+  private httpClient: AxiosInstance;
+  private resourceId: string;
+
+  constructor(
+    private config: DataSourceConfig,
+    private authProvider?: IAuthenticationProvider
+  ) {
+    if (this.config.type !== 'azure-metrics') {
+      throw new Error('Invalid provider type for AzureMetricsProvider');
+    }
+
+    if (this.config.resourceId) {
+      this.resourceId = this.config.resourceId.replace(/\/+$/, '');
+    } else if (this.config.subscriptionId && this.config.resourceGroup && this.config.resourceType && this.config.resourceName) {
+      this.resourceId = `/subscriptions/${this.config.subscriptionId}/resourceGroups/${this.config.resourceGroup}/providers/${this.config.resourceType}/${this.config.resourceName}`;
+    } else {
+      throw new Error('Azure Metrics provider requires resourceId, or subscriptionId, resourceGroup, resourceType and resourceName');
+    }
+
+    const baseURL = this.config.endpoint || 'https://management.azure.com';
+    this.httpClient = axios.create({
+      baseURL,
+      timeout: 30000,
+      adapter: createResilientAdapter(new ResilientExecutor('Azure Metrics', this.config.retry)),
+    });
+
+    this.setupInterceptors();
+  }
+
+  private setupInterceptors(): void {
+    this.httpClient.interceptors.request.use(async (config) => {
+      try {
+        let token: string;
+        if (this.authProvider) {
+          token = await this.authProvider.getAccessToken(['https://management.azure.com/.default']);
+        } else {
+          // Fallback to direct token acquisition
+          const { DefaultAzureCredential } = await import('@azure/identity');
+          const credential = new DefaultAzureCredential();
+          const tokenResponse = await credential.getToken(['https://management.azure.com/.default']);
+          token = tokenResponse.token;
+        }
+
+        config.headers.Authorization = `Bearer ${token}`;
+        return config;
+      } catch (error) {
+        logger.error('Failed to add auth token to Azure Metrics request:', error);
+        throw error;
+      }
+    });
+
+    this.httpClient.interceptors.response.use(
+      (response) => response,
+      (error) => {
+        logger.error('Azure Metrics API error:', error.response?.data || error.message);
+        // Surface the message returned by Azure Monitor instead of the bare status code
+        const message = error.response?.data?.error?.message || error.response?.data?.message;
+        if (message) {
+          error.message = `${error.message}: ${message}`;
+        }
+        throw error;
+      }
+    );
+  }
+
+  /**
+   * Execute a metric query (AzureMetricQuery JSON) against the configured resource
+   */
+  async executeQuery(request: QueryExecutionRequest): Promise<QueryResult> {
+    let query: AzureMetricQuery;
+    try {
+      query = parseAzureMetricQuery(request.query);
+    } catch (error) {
+      throw new Error(`Azure Metrics query is invalid: ${error instanceof Error ? error.message : error}`);
+    }
+
+    try {
+      logger.debug(`Executing metric query on Azure Metrics: ${query.metricNames.join(', ')}`);
+
+      const params: Record<string, string | number> = {
+        'api-version': METRICS_API_VERSION,
+        metricnames: query.metricNames.join(','),
+      };
+      if (query.aggregations?.length) {
+        params.aggregation = query.aggregations.join(',');
+      }
+      if (query.interval) {
+        params.interval = query.interval;
+      }
+      const timespan = query.timespan || request.timespan;
+      if (timespan) {
+        params.timespan = timespan;
+      }
+      const filter = buildAzureMetricFilter(query);
+      if (filter) {
+        params.$filter = filter;
+      }
+      if (query.top) {
+        params.top = query.top;
+      }
+      if (query.orderBy) {
+        params.orderby = query.orderBy;
+      }
+      if (query.metricNamespace) {
+        params.metricnamespace = query.metricNamespace;
+      }
+
+      const response = await this.httpClient.get(`${this.resourceId}/providers/Microsoft.Insights/metrics`, {
+        params,
+        timeout: request.timeout,
+        signal: request.signal
+      });
+
+      const result = this.transformMetricsResponse(response.data?.value || [], query);
+      logger.debug(`Azure Metrics query executed successfully, returned ${result.tables[0].rows.length} data points`);
+      return result;
+    } catch (error) {
+      rethrowIfCancelled(error, request.signal);
+      logger.error('Failed to execute Azure Metrics query:', error);
+      throw new Error(`Azure Metrics query execution failed: ${error}`);
+    }
+  }
+
+  /**
+   * Validate connection by listing the metric definitions of the resource
+   */
+  async validateConnection(): Promise<ValidationResult> {
+    try {
+      logger.debug('Validating Azure Metrics connection...');
+
+      await this.getMetricDefinitions();
+
+      logger.debug('Azure Metrics connection validated successfully');
+      return { isValid: true };
+    } catch (error) {
+      logger.error('Azure Metrics connection validation failed:', error);
+      return {
+        isValid: false,
+        error: `Connection validation failed: ${error}`
+      };
+    }
+  }
+
+  /**
+   * Get the metric definitions of the resource as schema information
+   */
+  async getSchema(): Promise<SchemaResult> {
+    try {
+      logger.debug('Retrieving Azure Metrics definitions...');
+
+      const metrics = await this.getMetricDefinitions();
+
+      logger.debug(`Azure Metrics definitions retrieved successfully (${metrics.length} metrics)`);
+      return { schema: { resourceId: this.resourceId, metrics } };
+    } catch (error) {
+      logger.error('Failed to retrieve Azure Metrics definitions:', error);
+      return { schema: null, error: `Schema retrieval failed: ${error}` };
+    }
+  }
+
+  /**
+   * Get metadata about the monitored resource
+   */
+  async getMetadata(): Promise<MetadataResult> {
+    try {
+      logger.debug('Retrieving Azure Metrics resource metadata...');
+
+      const response = await this.httpClient.get(this.resourceId, {
+        params: { 'api-version': RESOURCES_API_VERSION }
+      });
+
+      const metadata = {
+        resourceId: this.resourceId,
+        resourceName: response.data?.name,
+        resourceType: response.data?.type,
+        location: response.data?.location,
+        kind: response.data?.kind
+      };
+
+      logger.debug('Azure Metrics resource metadata retrieved successfully');
+      return { metadata };
+    } catch (error) {
+      logger.error('Failed to retrieve Azure Metrics resource metadata:', error);
+      return { metadata: null, error: `Metadata retrieval failed: ${error}` };
+    }
+  }
+
+  private async getMetricDefinitions(): Promise<AzureMetricDefinition[]> {
+    const response = await this.httpClient.get(`${this.resourceId}/providers/Microsoft.Insights/metricDefinitions`, {
+      params: { 'api-version': METRICS_API_VERSION }
+    });
+
+    const definitions: MetricDefinitionResponse[] = response.data?.value || [];
+    return definitions
+      .filter(definition => definition.name?.value)
+      .map(definition => ({
+        name: definition.name!.value!,
+        displayName: definition.name!.localizedValue,
+        unit: definition.unit,
+        primaryAggregation: definition.primaryAggregationType,
+        aggregations: definition.supportedAggregationTypes || [],
+        timeGrains: (definition.metricAvailabilities || [])
+          .map(availability => availability.timeGrain)
+          .filter((grain): grain is string => !!grain),
+        dimensions: (definition.dimensions || [])
+          .map(dimension => dimension.value)
+          .filter((dimension): dimension is string => !!dimension)
+      }));
+  }
+
+  /**
+   * Flatten metric time series into one table: timestamp, metric, unit, a column per
+   * dimension, and a column per aggregation (lowercase, as returned by the API)
+   */
+  private transformMetricsResponse(metrics: MetricResponse[], query: AzureMetricQuery): QueryResult {
+    const dimensions: string[] = [...(query.splitBy || [])];
+    const aggregations = new Set<string>((query.aggregations || []).map(name => name.toLowerCase()));
+
+    for (const metric of metrics) {
+      for (const series of metric.timeseries || []) {
+        for (const metadata of series.metadatavalues || []) {
+          const name = metadata.name?.value;
+          if (name && !dimensions.some(dimension => dimension.toLowerCase() === name.toLowerCase())) {
+            dimensions.push(name);
+          }
+        }
+        for (const point of series.data || []) {
+          Object.keys(point).filter(key => key !== 'timeStamp').forEach(key => aggregations.add(key));
+        }
+      }
+    }
+
+    // Known aggregations in API order, followed by any others the API returned
+    const canonical = AZURE_METRIC_AGGREGATIONS.map(name => name.toLowerCase());
+    const aggregationColumns = [
+      ...canonical.filter(name => aggregations.has(name)),
+      ...[...aggregations].filter(name => !canonical.includes(name))
+    ];
+
+    const rows: QueryRow[] = [];
+    for (const metric of metrics) {
+      for (const series of metric.timeseries || []) {
+        const dimensionValues = dimensions.map(dimension =>
+          series.metadatavalues?.find(metadata => metadata.name?.value?.toLowerCase() === dimension.toLowerCase())?.value ?? null
+        );
+        for (const point of series.data || []) {
+          rows.push([
+            point.timeStamp,
+            metric.name?.value,
+            metric.unit,
+            ...dimensionValues,
+            ...aggregationColumns.map(name => point[name] ?? null)
+          ]);
+        }
+      }
+    }
+
+    return {
+      tables: [{
+        name: 'PrimaryResult',
+        columns: [
+          { name: 'timestamp', type: 'datetime' },
+          { name: 'metric', type: 'string' },
+          { name: 'unit', type: 'string' },
+          ...dimensions.map(name => ({ name, type: 'string' })),
+          ...aggregationColumns.map(name => ({ name, type: 'real' }))
+        ],
+        rows
+      }]
+    };
+  }
+}
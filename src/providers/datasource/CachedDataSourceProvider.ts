@@ -0,0 +1,69 @@
+import {
+  IDataSourceProvider,
+  MetadataResult,
+  QueryExecutionRequest,
+  SchemaResult,
+  ValidationResult
+} from '../../core/interfaces/IDataSourceProvider';
+import { DataSourceConfig } from '../../core/types/ProviderTypes';
+import { QueryResult } from '../../types';
+import { throwIfCancelled } from '../../utils/cancellation';
+import { logger } from '../../utils/logger';
+import { QueryResultCache } from './QueryResultCache';
+
+/**
+ * Identity of the data a data source configuration queries: its type and the resource it points at
+ */
+export function getDataSourceCacheIdentity(config: DataSourceConfig): string {
+  const resource = config.applicationId
+    || config.workspaceId
+    || (config.clusterUri && `${config.clusterUri}/${config.database || ''}`)
+    || config.resourceId
+    || [config.subscriptionId, config.resourceGroup, config.resourceName].filter(Boolean).join('/')
+    || config.directory
+    || config.endpoint
+    || 'default';
+  return `${config.type}:${resource}`;
+}
+
+/**
+ * Data source decorator that reuses results of queries run recently against the same
+ * data source and time window, e.g. when iterating on charts or re-running history items
+ */
+export class CachedDataSourceProvider implements IDataSourceProvider {
+  constructor(
+    private readonly provider: IDataSourceProvider,
+    private readonly dataSourceIdentity: string,
+    private readonly cache: QueryResultCache = new QueryResultCache()
+  ) {}
+
+  async executeQuery(request: QueryExecutionRequest): Promise<QueryResult> {
+    throwIfCancelled(request.signal);
+
+    const key = QueryResultCache.key(request.query, this.dataSourceIdentity, request.timespan);
+    const cached = this.cache.get(key);
+    if (cached) {
+      logger.debug(`Serving query result from the ${cached.cache?.tier} cache`);
+      return cached;
+    }
+
+    const result = await this.provider.executeQuery(request);
+    // Partial results of a fan-out query are not cached, the failed sources are queried again next time
+    if (!result.errors?.length) {
+      this.cache.set(key, result);
+    }
+    return result;
+  }
+
+  validateConnection(): Promise<ValidationResult> {
+    return this.provider.validateConnection();
+  }
+
+  getSchema(): Promise<SchemaResult> {
+    return this.provider.getSchema();
+  }
+
+  getMetadata(): Promise<MetadataResult> {
+    return this.provider.getMetadata();
+  }
+}
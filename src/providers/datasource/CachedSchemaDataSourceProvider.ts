@@ -0,0 +1,80 @@
+import {
+  IDataSourceProvider,
+  MetadataResult,
+  QueryExecutionRequest,
+  SchemaResult,
+  ValidationResult
+} from '../../core/interfaces/IDataSourceProvider';
+import { QueryResult, SchemaCacheConfig } from '../../types';
+import { logger } from '../../utils/logger';
+import { SchemaCache } from './SchemaCache';
+
+export const DEFAULT_SCHEMA_REFRESH_AFTER_SECONDS = 60 * 60;
+export const DEFAULT_SCHEMA_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Data source decorator that keeps the schema in the on-disk SchemaCache, so that CLI invocations
+ * do not fetch the metadata before every query. Schemas older than refreshAfterSeconds are still
+ * used while a fresh one is fetched in the background; schemas older than ttlSeconds are not used.
+ */
+export class CachedSchemaDataSourceProvider implements IDataSourceProvider {
+  private readonly refreshAfterMs: number;
+  private readonly ttlMs: number;
+  private refreshing?: Promise<SchemaResult>;
+
+  constructor(
+    private readonly provider: IDataSourceProvider,
+    private readonly dataSourceIdentity: string,
+    private readonly cache: SchemaCache = new SchemaCache(),
+    config: SchemaCacheConfig = {}
+  ) {
+    this.refreshAfterMs = (config.refreshAfterSeconds ?? DEFAULT_SCHEMA_REFRESH_AFTER_SECONDS) * 1000;
+    this.ttlMs = (config.ttlSeconds ?? DEFAULT_SCHEMA_CACHE_TTL_SECONDS) * 1000;
+  }
+
+  executeQuery(request: QueryExecutionRequest): Promise<QueryResult> {
+    return this.provider.executeQuery(request);
+  }
+
+  validateConnection(): Promise<ValidationResult> {
+    return this.provider.validateConnection();
+  }
+
+  async getSchema(): Promise<SchemaResult> {
+    const cached = this.cache.get(this.dataSourceIdentity);
+    const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+    if (!cached || age >= this.ttlMs) {
+      return this.refreshSchema();
+    }
+
+    if (age >= this.refreshAfterMs) {
+      logger.debug(`Cached schema is ${Math.round(age / 60000)} minutes old, refreshing it in the background`);
+      this.refreshSchema().catch(error => logger.debug(`Background schema refresh failed: ${error}`));
+    }
+    return cached.schema;
+  }
+
+  /**
+   * Fetch the schema from the data source and cache it. Failed lookups are not cached,
+   * and concurrent calls share one request.
+   */
+  refreshSchema(): Promise<SchemaResult> {
+    if (!this.refreshing) {
+      this.refreshing = this.provider.getSchema()
+        .then(schema => {
+          if (!schema.error) {
+            this.cache.set(this.dataSourceIdentity, schema);
+          }
+          return schema;
+        })
+        .finally(() => {
+          this.refreshing = undefined;
+        });
+    }
+    return this.refreshing;
+  }
+
+  getMetadata(): Promise<MetadataResult> {
+    return this.provider.getMetadata();
+  }
+}
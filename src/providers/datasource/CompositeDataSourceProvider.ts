@@ -0,0 +1,225 @@
+import { IDataSourceProvider, QueryExecutionRequest, ValidationResult, SchemaResult, MetadataResult } from '../../core/interfaces/IDataSourceProvider';
+import { QueryResult, QueryResultError, QueryTable } from '../../types';
+import { logger } from '../../utils/logger';
+import { rethrowIfCancelled, throwIfCancelled } from '../../utils/cancellation';
+import { ProviderHealth, ProviderHealthTracker } from '../../infrastructure/ProviderHealthTracker';
+
+/**
+ * Data source provider registered under an identifier (the key in config.providers.dataSources)
+ */
+export interface NamedDataSourceProvider {
+  id: string;
+  provider: IDataSourceProvider;
+}
+
+/**
+ * How the composite provider uses its data sources:
+ * - failover: run against the first available source, moving on when it fails
+ * - fanout: run against every source and return all their tables, named after the source
+ */
+export type CompositeDataSourceMode = 'failover' | 'fanout';
+
+/**
+ * Health state tracked for each data source
+ */
+export type DataSourceHealth = ProviderHealth;
+
+export interface CompositeDataSourceProviderOptions {
+  mode?: CompositeDataSourceMode;
+  /** How long a failed data source is skipped in failover mode (default: 60s) */
+  cooldownMs?: number;
+}
+
+/**
+ * Composite data source provider that fails over between data sources
+ * or fans a query out to all of them
+ */
+export class CompositeDataSourceProvider implements IDataSourceProvider {
+  private readonly mode: CompositeDataSourceMode;
+  private readonly health: ProviderHealthTracker;
+  private lastProviderId: string | null = null;
+
+  constructor(
+    private readonly providers: NamedDataSourceProvider[],
+    options: CompositeDataSourceProviderOptions = {}
+  ) {
+    if (providers.length === 0) {
+      throw new Error('CompositeDataSourceProvider requires at least one data source');
+    }
+    this.mode = options.mode || 'failover';
+    this.health = new ProviderHealthTracker(providers.map(({ id }) => id), options.cooldownMs);
+  }
+
+  /**
+   * Execute a query using failover or fan-out depending on the mode
+   */
+  async executeQuery(request: QueryExecutionRequest): Promise<QueryResult> {
+    if (this.mode === 'fanout') {
+      return this.executeFanOut(request);
+    }
+    return this.executeWithFailover('executeQuery', provider => provider.executeQuery(request));
+  }
+
+  /**
+   * In failover mode the connection is valid when any source is reachable,
+   * in fan-out mode every source has to be reachable
+   */
+  async validateConnection(): Promise<ValidationResult> {
+    if (this.mode === 'failover') {
+      try {
+        return await this.executeWithFailover('validateConnection', async provider => {
+          const result = await provider.validateConnection();
+          if (!result.isValid) {
+            throw new Error(result.error || 'Connection validation failed');
+          }
+          return result;
+        });
+      } catch (error) {
+        return { isValid: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+
+    const results = await Promise.all(this.providers.map(async ({ id, provider }) => {
+      try {
+        return { id, result: await provider.validateConnection() };
+      } catch (error) {
+        return { id, result: { isValid: false, error: String(error) } };
+      }
+    }));
+    const failures = results.filter(({ result }) => !result.isValid);
+
+    if (failures.length > 0) {
+      return {
+        isValid: false,
+        error: failures.map(({ id, result }) => `${id}: ${result.error || 'Connection validation failed'}`).join('; ')
+      };
+    }
+    return { isValid: true };
+  }
+
+  /**
+   * Schema of the first data source that returns one
+   */
+  async getSchema(): Promise<SchemaResult> {
+    try {
+      return await this.executeWithFailover('getSchema', async provider => {
+        const result = await provider.getSchema();
+        if (result.error) {
+          throw new Error(result.error);
+        }
+        return result;
+      }, false);
+    } catch (error) {
+      return { schema: null, tables: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Metadata of the first data source that returns it, along with the composite layout
+   */
+  async getMetadata(): Promise<MetadataResult> {
+    const sources = this.providers.map(({ id }) => id);
+    try {
+      const result = await this.executeWithFailover('getMetadata', async provider => {
+        const metadata = await provider.getMetadata();
+        if (metadata.error) {
+          throw new Error(metadata.error);
+        }
+        return metadata;
+      }, false);
+      return {
+        ...result,
+        properties: { ...result.properties, compositeMode: this.mode, sources }
+      };
+    } catch (error) {
+      return {
+        properties: { compositeMode: this.mode, sources },
+        metadata: null,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Identifier of the data source that answered the most recent failover-mode request
+   */
+  getLastProviderId(): string | null {
+    return this.lastProviderId;
+  }
+
+  /**
+   * Current health state of every data source, in configured order
+   */
+  getProviderHealth(): DataSourceHealth[] {
+    return this.health.getHealth();
+  }
+
+  /**
+   * Run the query against every data source in parallel and return the tables of each,
+   * prefixed with the source id, along with the errors of the sources that failed
+   */
+  private async executeFanOut(request: QueryExecutionRequest): Promise<QueryResult> {
+    const settled = await Promise.allSettled(
+      this.providers.map(({ provider }) => provider.executeQuery(request))
+    );
+    throwIfCancelled(request.signal);
+
+    const tables: QueryTable[] = [];
+    const errors: QueryResultError[] = [];
+
+    settled.forEach((outcome, index) => {
+      const { id } = this.providers[index];
+      if (outcome.status === 'rejected') {
+        const message = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+        this.health.recordFailure(id, message);
+        errors.push({ source: id, message });
+        logger.warn(`Data source '${id}' failed during fan-out query: ${message}`);
+        return;
+      }
+
+      this.health.recordSuccess(id);
+      (outcome.value.tables || []).forEach(table => {
+        tables.push({ ...table, name: `${id}/${table.name}` });
+      });
+    });
+
+    if (errors.length === this.providers.length) {
+      throw new Error(`All data sources failed: ${errors.map(({ source, message }) => `${source}: ${message}`).join('; ')}`);
+    }
+
+    return errors.length > 0 ? { tables, errors } : { tables };
+  }
+
+  /**
+   * Run an operation against data sources in order until one succeeds
+   */
+  private async executeWithFailover<T>(
+    operation: string,
+    fn: (provider: IDataSourceProvider, id: string) => Promise<T>,
+    trackHealth = true
+  ): Promise<T> {
+    const errors: string[] = [];
+
+    for (const { id, provider } of this.health.getCandidates(this.providers)) {
+      try {
+        const result = await fn(provider, id);
+        if (trackHealth) {
+          this.health.recordSuccess(id);
+        }
+        this.lastProviderId = id;
+        return result;
+      } catch (error) {
+        // Cancelled queries are not sent to the next data source
+        rethrowIfCancelled(error);
+        const message = error instanceof Error ? error.message : String(error);
+        if (trackHealth) {
+          this.health.recordFailure(id, message);
+        }
+        errors.push(`${id}: ${message}`);
+        logger.warn(`Data source '${id}' failed during ${operation}, trying next data source: ${message}`);
+      }
+    }
+
+    throw new Error(`All data sources failed: ${errors.join('; ')}`);
+  }
+}
@@ -0,0 +1,358 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IDataSourceProvider, QueryExecutionRequest, ValidationResult, SchemaResult, MetadataResult } from '../../core/interfaces/IDataSourceProvider';
+import { DataSourceConfig } from '../../core/types/ProviderTypes';
+import { QueryResult } from '../../types';
+import { logger } from '../../utils/logger';
+import { rethrowIfCancelled, throwIfCancelled } from '../../utils/cancellation';
+import { convertKqlValue, executeKql, KqlTable } from '../../utils/kql/interpreter';
+import { toTimeInterval } from '../../utils/timeRange';
+
+/**
+ * File extensions loaded as tables, by format
+ */
+const TABLE_FILE_FORMATS: Record<string, 'csv' | 'json' | 'ndjson'> = {
+  '.csv': 'csv',
+  '.json': 'json',
+  '.ndjson': 'ndjson',
+  '.jsonl': 'ndjson'
+};
+
+/**
+ * Columns the request timespan filters on, in order of preference
+ */
+const TIME_COLUMNS = ['timestamp', 'TimeGenerated', 'Timestamp'];
+
+const NUMBER_PATTERN = /^-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+interface LoadedTable {
+  mtimeMs: number;
+  size: number;
+  table: KqlTable;
+}
+
+/**
+ * Offline data source that runs queries over a directory of CSV, JSON and NDJSON files,
+ * one table per file named after it (requests.csv is the requests table). Queries run in
+ * the local KQL interpreter, which supports a practical subset of KQL.
+ *
+ * Column types are inferred from the values; CSV headers may declare them as name:type.
+ * JSON files hold an array of objects, or a query result as written by `aidx --output json`.
+ */
+export class LocalFilesProvider implements IDataSourceProvider {
+  private directory: string;
+  private loaded = new Map<string, LoadedTable>();
+
+  constructor(private config: DataSourceConfig) {
+    if (this.config.type !== 'local-files') {
+      throw new Error('Invalid provider type for LocalFilesProvider');
+    }
+
+    if (!this.config.directory) {
+      throw new Error('Local files provider requires directory');
+    }
+
+    this.directory = path.resolve(this.config.directory.replace(/^~(?=$|[\\/])/, os.homedir()));
+  }
+
+  /**
+   * Run a query over the tables of the directory. The timespan keeps rows whose timestamp
+   * (or TimeGenerated) falls in it, as the query APIs do.
+   */
+  async executeQuery(request: QueryExecutionRequest): Promise<QueryResult> {
+    throwIfCancelled(request.signal);
+    try {
+      logger.debug(`Executing query over local files in ${this.directory}...`);
+
+      let tables = this.loadTables();
+      if (request.timespan) {
+        tables = this.filterByTimespan(tables, request.timespan);
+      }
+      const result = executeKql(request.query, tables);
+
+      logger.debug(`Local files query executed successfully, returned ${result.rows.length} rows`);
+      return {
+        tables: [{
+          name: 'PrimaryResult',
+          columns: result.columns,
+          rows: result.rows
+        }]
+      };
+    } catch (error) {
+      rethrowIfCancelled(error, request.signal);
+      logger.error('Failed to execute local files query:', error);
+      throw new Error(`Local files query execution failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Check that the directory exists and holds at least one table file
+   */
+  async validateConnection(): Promise<ValidationResult> {
+    try {
+      const count = Object.keys(this.loadTables()).length;
+      if (count === 0) {
+        return { isValid: false, error: `No .csv, .json or .ndjson files found in ${this.directory}` };
+      }
+
+      logger.debug(`Local files data source validated: ${count} tables`);
+      return { isValid: true };
+    } catch (error) {
+      logger.warn('Local files data source validation failed:', error);
+      return {
+        isValid: false,
+        error: `Connection validation failed: ${error instanceof Error ? error.message : error}`
+      };
+    }
+  }
+
+  /**
+   * Get the tables and columns inferred from the files
+   */
+  async getSchema(): Promise<SchemaResult> {
+    try {
+      const tables = this.loadTables();
+      logger.debug(`Inferred schema of ${Object.keys(tables).length} tables from local files`);
+      return {
+        tables: Object.keys(tables),
+        schema: {
+          tables: Object.entries(tables).map(([name, table]) => ({ name, columns: table.columns }))
+        }
+      };
+    } catch (error) {
+      logger.error('Failed to read local files schema:', error);
+      return {
+        error: `Schema retrieval failed: ${error instanceof Error ? error.message : error}`
+      };
+    }
+  }
+
+  async getMetadata(): Promise<MetadataResult> {
+    try {
+      const tables = this.loadTables();
+      return {
+        name: this.directory,
+        type: 'local-files',
+        properties: {
+          directory: this.directory,
+          tables: Object.keys(tables)
+        },
+        metadata: Object.fromEntries(Object.entries(tables).map(([name, table]) => [name, { rows: table.rows.length }]))
+      };
+    } catch (error) {
+      logger.error('Failed to get local files metadata:', error);
+      return {
+        error: `Metadata retrieval failed: ${error instanceof Error ? error.message : error}`
+      };
+    }
+  }
+
+  /**
+   * Tables of the directory; files are parsed again only when they change
+   */
+  private loadTables(): Record<string, KqlTable> {
+    if (!fs.existsSync(this.directory) || !fs.statSync(this.directory).isDirectory()) {
+      throw new Error(`Directory ${this.directory} does not exist`);
+    }
+
+    const tables: Record<string, KqlTable> = {};
+    for (const fileName of fs.readdirSync(this.directory).sort()) {
+      const extension = path.extname(fileName).toLowerCase();
+      const format = TABLE_FILE_FORMATS[extension];
+      const filePath = path.join(this.directory, fileName);
+      if (!format || !fs.statSync(filePath).isFile()) {
+        continue;
+      }
+
+      const name = path.basename(fileName, path.extname(fileName));
+      if (tables[name]) {
+        logger.warn(`Skipping ${fileName}: another file already defines the table '${name}'`);
+        continue;
+      }
+
+      const stats = fs.statSync(filePath);
+      const cached = this.loaded.get(filePath);
+      if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+        tables[name] = cached.table;
+        continue;
+      }
+
+      try {
+        const table = readTableFile(fs.readFileSync(filePath, 'utf-8'), format);
+        this.loaded.set(filePath, { mtimeMs: stats.mtimeMs, size: stats.size, table });
+        tables[name] = table;
+      } catch (error) {
+        throw new Error(`Failed to read ${fileName}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    return tables;
+  }
+
+  private filterByTimespan(tables: Record<string, KqlTable>, timespan: string): Record<string, KqlTable> {
+    const { start, end } = toTimeInterval(timespan);
+    const filtered: Record<string, KqlTable> = {};
+    for (const [name, table] of Object.entries(tables)) {
+      const timeColumn = TIME_COLUMNS.find(column => table.columns.some(existing => existing.name === column && existing.type === 'datetime'));
+      filtered[name] = !timeColumn ? table : {
+        columns: table.columns,
+        rows: table.rows.filter(row => {
+          const time = row[timeColumn];
+          return time instanceof Date && time >= start && time <= end;
+        })
+      };
+    }
+    return filtered;
+  }
+}
+
+/**
+ * Parse a table file into typed rows
+ */
+function readTableFile(content: string, format: 'csv' | 'json' | 'ndjson'): KqlTable {
+  if (format === 'csv') {
+    const [header = [], ...records] = parseCsv(content);
+    const declared = header.map(cell => /^(.+?):(\w+)$/.exec(cell.trim()));
+    const names = header.map((cell, index) => declared[index]?.[1] ?? cell.trim());
+    const types = Object.fromEntries(names.flatMap((name, index) => declared[index] ? [[name, declared[index]![2]]] : []));
+    return createTable(
+      records.map(record => Object.fromEntries(names.map((name, index) => [name, record[index] ?? '']))),
+      types,
+      true
+    );
+  }
+
+  if (format === 'ndjson') {
+    const records = content.split(/\r?\n/)
+      .filter(line => line.trim() !== '')
+      .map((line, index) => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          throw new Error(`Invalid JSON on line ${index + 1}`);
+        }
+      });
+    return createTable(records, {}, false);
+  }
+
+  const data = JSON.parse(content);
+  if (Array.isArray(data)) {
+    return createTable(data, {}, false);
+  }
+
+  // Query result: { tables: [{ columns: [{ name, type }], rows: [[...]] }] }
+  const result = data?.tables?.[0];
+  if (result && Array.isArray(result.columns) && Array.isArray(result.rows)) {
+    const columns: Array<{ name: string; type: string }> = result.columns;
+    const records = result.rows.map((row: unknown[]) => Object.fromEntries(columns.map((column, index) => [column.name, row[index]])));
+    return createTable(records, Object.fromEntries(columns.map(column => [column.name, column.type])), false);
+  }
+  throw new Error('Expected an array of objects or a query result with tables');
+}
+
+/**
+ * Table from records, with the declared column types or types inferred from the values.
+ * Values read from text (CSV) may hold numbers, booleans and JSON as text.
+ */
+function createTable(records: Array<Record<string, unknown>>, types: Record<string, string>, fromText: boolean): KqlTable {
+  const names: string[] = [];
+  for (const record of records) {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      throw new Error('Expected every row to be an object');
+    }
+    Object.keys(record).filter(name => !names.includes(name)).forEach(name => names.push(name));
+  }
+  Object.keys(types).filter(name => !names.includes(name)).forEach(name => names.push(name));
+
+  const columns = names.map(name => ({
+    name,
+    type: types[name] ?? inferColumnType(records.map(record => record[name]), fromText)
+  }));
+  const rows = records.map(record => Object.fromEntries(columns.map(({ name, type }) => {
+    const value = record[name];
+    return [name, value === undefined || (fromText && value === '' && type !== 'string') ? null : convertKqlValue(value, type)];
+  })));
+  return { columns, rows };
+}
+
+function inferColumnType(values: unknown[], fromText: boolean): string {
+  const present = values.filter(value => value !== null && value !== undefined && !(fromText && value === ''));
+  const texts = present.filter((value): value is string => typeof value === 'string');
+  const allText = texts.length === present.length;
+
+  if (present.length === 0) {
+    return 'string';
+  }
+  if (present.every(value => typeof value === 'boolean' || (fromText && /^(true|false)$/i.test(String(value))))) {
+    return 'bool';
+  }
+  if (present.every(value => typeof value === 'number' || (fromText && NUMBER_PATTERN.test(String(value))))) {
+    return present.every(value => Number.isInteger(Number(value))) ? 'long' : 'real';
+  }
+  if (allText && texts.every(value => DATETIME_PATTERN.test(value.trim()))) {
+    return 'datetime';
+  }
+  if (present.every(value => typeof value === 'object' || (fromText && isJsonText(String(value))))) {
+    return 'dynamic';
+  }
+  return allText ? 'string' : 'dynamic';
+}
+
+function isJsonText(value: string): boolean {
+  if (!/^\s*[[{]/.test(value)) {
+    return false;
+  }
+  try {
+    JSON.parse(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Records of RFC 4180 CSV: quoted fields may hold commas, line breaks and doubled quotes
+ */
+function parseCsv(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter(fields => fields.length > 1 || fields[0] !== '');
+}
@@ -1,10 +1,14 @@
 import axios, { AxiosInstance } from 'axios';
-import { LogsQueryClient, LogsQueryResult, LogsQueryResultStatus } from '@azure/monitor-query-logs';
+import { LogsQueryClient, LogsQueryResult, LogsQueryResultStatus, QueryTimeInterval } from '@azure/monitor-query-logs';
 import { IDataSourceProvider, QueryExecutionRequest, ValidationResult, SchemaResult, MetadataResult } from '../../core/interfaces/IDataSourceProvider';
 import { IAuthenticationProvider } from '../../core/interfaces/IAuthenticationProvider';
 import { DataSourceConfig } from '../../core/types/ProviderTypes';
 import { QueryResult } from '../../types';
 import { logger } from '../../utils/logger';
+import { resolveTokenCredential } from '../auth/credentialChain';
+import { createResilientAdapter, ResilientExecutor } from '../../infrastructure/http';
+import { rethrowIfCancelled } from '../../utils/cancellation';
+import { toTimeInterval } from '../../utils/timeRange';
 
 /**
  * Azure Monitor Log Analytics data source provider implementation
@@ -12,6 +16,7 @@ import { logger } from '../../utils/logger';
 export class LogAnalyticsProvider implements IDataSourceProvider {
   private httpClient!: AxiosInstance; // Keep for metadata operations
   private logsQueryClient!: LogsQueryClient;
+  private resilience: ResilientExecutor;
   private initializationPromise: Promise<void>;
 
   constructor(
@@ -26,34 +31,26 @@ export class LogAnalyticsProvider implements IDataSourceProvider {
       throw new Error('Log Analytics provider requires subscriptionId, resourceGroup, and resourceName');
     }
 
+    // Shared by the metadata HTTP client and LogsQueryClient so that both count towards one circuit breaker
+    this.resilience = new ResilientExecutor('Log Analytics', this.config.retry);
+
     // Initialize both clients asynchronously
     this.initializationPromise = this.initializeClients();
   }
 
   private async initializeClients(): Promise<void> {
-    // Initialize LogsQueryClient for query operations
-    let credential;
-    if (this.authProvider) {
-      // Use provided auth provider - we need to create a TokenCredential compatible wrapper
-      credential = {
-        getToken: async (scopes: string[]) => {
-          const token = await this.authProvider!.getAccessToken(scopes);
-          return { token, expiresOnTimestamp: Date.now() + (3600 * 1000) }; // 1 hour default
-        }
-      };
-    } else {
-      // Use DefaultAzureCredential
-      const { DefaultAzureCredential } = await import('@azure/identity');
-      credential = new DefaultAzureCredential();
-    }
-    
-    this.logsQueryClient = new LogsQueryClient(credential);
+    // Initialize LogsQueryClient for query operations, with tokens from the auth provider.
+    // Its own retry policy is disabled, queries are retried by the resilient executor instead
+    this.logsQueryClient = new LogsQueryClient(resolveTokenCredential(this.authProvider), {
+      retryOptions: { maxRetries: 0 },
+    });
 
     // Keep HTTP client for metadata operations (still needed for workspace metadata)
     const baseURL = 'https://management.azure.com';
     this.httpClient = axios.create({
       baseURL,
       timeout: 60000, // Log Analytics queries can take longer
+      adapter: createResilientAdapter(this.resilience),
     });
 
     this.setupInterceptors();
@@ -89,12 +86,12 @@ export class LogAnalyticsProvider implements IDataSourceProvider {
   /**
    * Get the workspace ID for the configured Log Analytics workspace
    */
-  private async getWorkspaceId(): Promise<string> {
+  private async getWorkspaceId(signal?: AbortSignal): Promise<string> {
     await this.ensureInitialized();
     
     try {
       const workspaceUrl = `/subscriptions/${this.config.subscriptionId}/resourceGroups/${this.config.resourceGroup}/providers/Microsoft.OperationalInsights/workspaces/${this.config.resourceName}`;
-      const response = await this.httpClient.get(`${workspaceUrl}?api-version=2022-10-01`);
+      const response = await this.httpClient.get(`${workspaceUrl}?api-version=2022-10-01`, { signal });
       
       const workspaceId = response.data.properties?.customerId;
       if (!workspaceId) {
@@ -103,6 +100,7 @@ export class LogAnalyticsProvider implements IDataSourceProvider {
       
       return workspaceId;
     } catch (error) {
+      rethrowIfCancelled(error, signal);
       logger.error('Failed to retrieve workspace ID:', error);
       throw new Error(`Failed to retrieve workspace ID: ${error}`);
     }
@@ -116,17 +114,14 @@ export class LogAnalyticsProvider implements IDataSourceProvider {
       await this.ensureInitialized();
       logger.debug('Executing query on Log Analytics using LogsQueryClient...');
 
-      const workspaceId = await this.getWorkspaceId();
+      const workspaceId = await this.getWorkspaceId(request.signal);
       
-      // Convert timespan to QueryTimeInterval format
-      const timespan = request.timespan 
-        ? { duration: request.timespan }
-        : { duration: 'PT24H' }; // Default to last 24 hours
-
-      const result = await this.logsQueryClient.queryWorkspace(
+      const result = await this.queryWorkspace(
         workspaceId,
         request.query,
-        timespan
+        toQueryTimeInterval(request.timespan),
+        request.signal,
+        request.timeout
       );
 
       // Transform the result to Application Insights format
@@ -135,6 +130,7 @@ export class LogAnalyticsProvider implements IDataSourceProvider {
       logger.debug(`Log Analytics query executed successfully, returned ${transformedResult.tables[0]?.rows?.length || 0} rows`);
       return transformedResult;
     } catch (error) {
+      rethrowIfCancelled(error, request.signal);
       logger.error('Failed to execute Log Analytics query:', error);
       throw new Error(`Log Analytics query execution failed: ${error}`);
     }
@@ -152,11 +148,7 @@ export class LogAnalyticsProvider implements IDataSourceProvider {
       
       // Test connection with a simple query using the LogsQueryClient
       const timespan = { duration: 'PT1H' };
-      await this.logsQueryClient.queryWorkspace(
-        workspaceId,
-        'print "connection_test"',
-        timespan
-      );
+      await this.queryWorkspace(workspaceId, 'print "connection_test"', timespan);
 
       logger.debug('Log Analytics connection validated successfully');
       return { isValid: true };
@@ -192,11 +184,7 @@ export class LogAnalyticsProvider implements IDataSourceProvider {
       `;
 
       const timespan = { duration: 'PT1H' };
-      const result = await this.logsQueryClient.queryWorkspace(
-        workspaceId,
-        schemaQuery,
-        timespan
-      );
+      const result = await this.queryWorkspace(workspaceId, schemaQuery, timespan);
 
       const transformedResult = this.transformLogsQueryResponse(result);
       
@@ -238,6 +226,26 @@ export class LogAnalyticsProvider implements IDataSourceProvider {
     }
   }
 
+  /**
+   * Run a query with retries on throttling and transient failures
+   */
+  private queryWorkspace(
+    workspaceId: string,
+    query: string,
+    timespan: QueryTimeInterval,
+    signal?: AbortSignal,
+    timeout?: number
+  ): Promise<LogsQueryResult> {
+    const options = {
+      abortSignal: signal,
+      ...(timeout && { serverTimeoutInSeconds: Math.ceil(timeout / 1000) })
+    };
+    return this.resilience.execute(
+      () => this.logsQueryClient.queryWorkspace(workspaceId, query, timespan, options),
+      signal
+    );
+  }
+
   /**
    * Transform LogsQueryResult response to Application Insights format
    */
@@ -325,4 +333,19 @@ export class LogAnalyticsProvider implements IDataSourceProvider {
         return logAnalyticsType || 'string';
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * QueryTimeInterval of an ISO 8601 timespan: durations stay relative to the time the service runs the query,
+ * intervals become explicit start and end times. Defaults to the last 24 hours.
+ */
+function toQueryTimeInterval(timespan?: string): QueryTimeInterval {
+  if (!timespan) {
+    return { duration: 'PT24H' };
+  }
+  if (!timespan.includes('/')) {
+    return { duration: timespan };
+  }
+  const { start, end } = toTimeInterval(timespan);
+  return { startTime: start, endTime: end };
+}
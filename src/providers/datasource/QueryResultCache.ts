@@ -0,0 +1,233 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { QueryCacheConfig, QueryResult } from '../../types';
+import { tokenizeKql } from '../../utils/kql/tokenizer';
+import { normalizeTimespan } from '../../utils/timeRange';
+import { logger } from '../../utils/logger';
+
+/**
+ * Cached result of one query, serialized so that callers cannot change it through the results they get
+ */
+interface CacheEntry {
+  data: string; // JSON of the QueryResult
+  cachedAt: number;
+  expiresAt: number;
+}
+
+interface CacheFile extends CacheEntry {
+  version: 1;
+}
+
+export const DEFAULT_QUERY_CACHE_TTL_SECONDS = 300;
+export const DEFAULT_QUERY_CACHE_MAX_ENTRIES = 100;
+export const DEFAULT_QUERY_CACHE_MAX_MEMORY_MB = 50;
+
+/** Directory of the disk tier, one file per query */
+export const DEFAULT_QUERY_CACHE_DIR = path.join(os.homedir(), '.aidx', 'query-cache');
+
+/**
+ * Query text with comments removed and whitespace between tokens collapsed, so that reformatting
+ * a query does not miss the cache; string literals are kept as they are
+ */
+export function normalizeQuery(query: string): string {
+  const { tokens, diagnostics } = tokenizeKql(query);
+  if (diagnostics.length > 0) {
+    return query.trim().replace(/\s+/g, ' ');
+  }
+
+  const values = tokens.filter(token => token.kind !== 'comment' && token.kind !== 'eof').map(token => token.value);
+  while (values[values.length - 1] === ';') {
+    values.pop();
+  }
+  return values.join(' ');
+}
+
+/**
+ * Two-tier cache of query results: a size-bounded in-memory LRU tier, and an optional disk tier
+ * shared by CLI invocations. Entries live for the configured TTL.
+ */
+export class QueryResultCache {
+  private readonly memory = new Map<string, CacheEntry>();
+  private memoryBytes = 0;
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private readonly maxMemoryBytes: number;
+  private readonly cacheDir?: string;
+
+  constructor(config: QueryCacheConfig = {}) {
+    this.ttlMs = (config.ttlSeconds ?? DEFAULT_QUERY_CACHE_TTL_SECONDS) * 1000;
+    this.maxEntries = config.maxEntries ?? DEFAULT_QUERY_CACHE_MAX_ENTRIES;
+    this.maxMemoryBytes = (config.maxMemoryMB ?? DEFAULT_QUERY_CACHE_MAX_MEMORY_MB) * 1024 * 1024;
+    this.cacheDir = config.disk ? config.directory || DEFAULT_QUERY_CACHE_DIR : undefined;
+  }
+
+  /**
+   * Cache key of a query against a data source over a time window. Relative windows (PT2H) are
+   * keyed by their duration, so the TTL bounds how far their results lag behind.
+   */
+  static key(query: string, dataSourceIdentity: string, timespan?: string): string {
+    let window = 'default';
+    if (timespan) {
+      try {
+        window = normalizeTimespan(timespan);
+      } catch {
+        window = timespan.trim();
+      }
+    }
+    return crypto.createHash('sha256')
+      .update(JSON.stringify([normalizeQuery(query), dataSourceIdentity, window]))
+      .digest('hex');
+  }
+
+  /**
+   * Get an unexpired result, marked with where and when it was cached
+   */
+  get(key: string): QueryResult | undefined {
+    const now = Date.now();
+    const entry = this.memory.get(key);
+    if (entry) {
+      if (entry.expiresAt > now) {
+        // Move to the most recently used end
+        this.memory.delete(key);
+        this.memory.set(key, entry);
+        return this.toResult(entry, 'memory');
+      }
+      this.deleteFromMemory(key);
+    }
+
+    const fileEntry = this.readFile(key);
+    if (fileEntry && fileEntry.expiresAt > now) {
+      this.setInMemory(key, fileEntry);
+      return this.toResult(fileEntry, 'disk');
+    }
+    return undefined;
+  }
+
+  set(key: string, result: QueryResult): void {
+    // A result served from the cache is stored without its cache marker
+    const { cache: _cache, ...uncached } = result;
+    const now = Date.now();
+    const entry: CacheEntry = { data: JSON.stringify(uncached), cachedAt: now, expiresAt: now + this.ttlMs };
+
+    this.setInMemory(key, entry);
+    this.writeFile(key, entry);
+  }
+
+  /**
+   * Remove all cached results of both tiers, returning the number removed from disk
+   * (or from memory when there is no disk tier)
+   */
+  clear(): number {
+    const memoryCount = this.memory.size;
+    this.memory.clear();
+    this.memoryBytes = 0;
+
+    if (!this.cacheDir) {
+      return memoryCount;
+    }
+    return QueryResultCache.clearDirectory(this.cacheDir);
+  }
+
+  /**
+   * Remove the cached results of a disk tier directory, returning the number removed
+   */
+  static clearDirectory(cacheDir: string = DEFAULT_QUERY_CACHE_DIR): number {
+    if (!fs.existsSync(cacheDir)) {
+      return 0;
+    }
+    const files = fs.readdirSync(cacheDir).filter(file => file.endsWith('.json'));
+    for (const file of files) {
+      fs.rmSync(path.join(cacheDir, file), { force: true });
+    }
+    logger.debug(`Query cache cleared (${files.length} results)`);
+    return files.length;
+  }
+
+  private toResult(entry: CacheEntry, tier: 'memory' | 'disk'): QueryResult {
+    return {
+      ...JSON.parse(entry.data),
+      cache: { tier, cachedAt: new Date(entry.cachedAt).toISOString(), expiresAt: new Date(entry.expiresAt).toISOString() }
+    };
+  }
+
+  private setInMemory(key: string, entry: CacheEntry): void {
+    this.deleteFromMemory(key);
+    // Results larger than the whole memory tier are only kept on disk
+    if (entry.data.length * 2 > this.maxMemoryBytes) {
+      return;
+    }
+
+    this.memory.set(key, entry);
+    this.memoryBytes += entry.data.length * 2;
+
+    // Evict the least recently used results until both limits are met
+    for (const oldestKey of this.memory.keys()) {
+      if (this.memory.size <= this.maxEntries && this.memoryBytes <= this.maxMemoryBytes) {
+        break;
+      }
+      this.deleteFromMemory(oldestKey);
+    }
+  }
+
+  private deleteFromMemory(key: string): void {
+    const entry = this.memory.get(key);
+    if (entry) {
+      this.memoryBytes -= entry.data.length * 2;
+      this.memory.delete(key);
+    }
+  }
+
+  private readFile(key: string): CacheEntry | undefined {
+    if (!this.cacheDir) {
+      return undefined;
+    }
+    const filePath = path.join(this.cacheDir, `${key}.json`);
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+
+    try {
+      const file: CacheFile = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      if (file.expiresAt <= Date.now()) {
+        fs.rmSync(filePath, { force: true });
+        return undefined;
+      }
+      return { data: file.data, cachedAt: file.cachedAt, expiresAt: file.expiresAt };
+    } catch (error) {
+      // A corrupt entry only costs running the query again
+      logger.debug(`Ignoring unreadable query cache entry ${key}: ${error}`);
+      return undefined;
+    }
+  }
+
+  private writeFile(key: string, entry: CacheEntry): void {
+    if (!this.cacheDir) {
+      return;
+    }
+
+    try {
+      // Results may hold telemetry data, so they are readable by the current user only
+      fs.mkdirSync(this.cacheDir, { recursive: true, mode: 0o700 });
+      const file: CacheFile = { version: 1, ...entry };
+      fs.writeFileSync(path.join(this.cacheDir, `${key}.json`), JSON.stringify(file), { mode: 0o600 });
+      this.pruneFiles();
+    } catch (error) {
+      logger.warn(`Failed to write query cache: ${error}`);
+    }
+  }
+
+  /**
+   * Drop results older than the TTL from the disk tier while writing
+   */
+  private pruneFiles(): void {
+    const now = Date.now();
+    for (const file of fs.readdirSync(this.cacheDir!).filter(name => name.endsWith('.json'))) {
+      const filePath = path.join(this.cacheDir!, file);
+      if (fs.statSync(filePath).mtimeMs + this.ttlMs <= now) {
+        fs.rmSync(filePath, { force: true });
+      }
+    }
+  }
+}
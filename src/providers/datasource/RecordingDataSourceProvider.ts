@@ -0,0 +1,42 @@
+import {
+  IDataSourceProvider,
+  MetadataResult,
+  QueryExecutionRequest,
+  SchemaResult,
+  ValidationResult
+} from '../../core/interfaces/IDataSourceProvider';
+import { QueryResult } from '../../types';
+import { Cassette } from '../../utils/cassette';
+
+/**
+ * Data source decorator that records queries and their results into a cassette (--record),
+ * or answers from one without calling the data source (--replay)
+ */
+export class RecordingDataSourceProvider implements IDataSourceProvider {
+  constructor(
+    private readonly provider: IDataSourceProvider,
+    private readonly cassette: Cassette
+  ) {}
+
+  async executeQuery(request: QueryExecutionRequest): Promise<QueryResult> {
+    const { signal, ...recorded } = request;
+    const result = await this.cassette.run('dataSource', 'executeQuery', recorded, () => this.provider.executeQuery(request), signal);
+    if (this.cassette.mode === 'replay') {
+      // Replayed results come from the cassette, whichever cache served them while recording
+      delete result.cache;
+    }
+    return result;
+  }
+
+  validateConnection(): Promise<ValidationResult> {
+    return this.cassette.run('dataSource', 'validateConnection', {}, () => this.provider.validateConnection());
+  }
+
+  getSchema(): Promise<SchemaResult> {
+    return this.cassette.run('dataSource', 'getSchema', {}, () => this.provider.getSchema());
+  }
+
+  getMetadata(): Promise<MetadataResult> {
+    return this.cassette.run('dataSource', 'getMetadata', {}, () => this.provider.getMetadata());
+  }
+}
@@ -0,0 +1,86 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SchemaResult } from '../../core/interfaces/IDataSourceProvider';
+import { KqlSchema } from '../../utils/kql/schema';
+import { logger } from '../../utils/logger';
+
+/**
+ * Schema fetched from a data source
+ */
+export interface CachedSchema {
+  schema: SchemaResult;
+  fetchedAt: number;
+}
+
+/**
+ * Tables and columns of a data source at a point in time, compared by `aidx schema diff`
+ */
+export interface SchemaSnapshot {
+  takenAt: string; // ISO 8601
+  tables: KqlSchema['tables'];
+}
+
+interface SchemaCacheFile {
+  version: 1;
+  dataSource: string;
+  cached?: CachedSchema;
+  snapshot?: SchemaSnapshot;
+}
+
+export const DEFAULT_SCHEMA_CACHE_DIR = path.join(os.homedir(), '.aidx', 'cache');
+
+/**
+ * Per-user on-disk cache of data source schemas and their last snapshot, one file per data source
+ */
+export class SchemaCache {
+  constructor(private readonly cacheDir: string = DEFAULT_SCHEMA_CACHE_DIR) {}
+
+  get(dataSource: string): CachedSchema | undefined {
+    return this.read(dataSource)?.cached;
+  }
+
+  set(dataSource: string, schema: SchemaResult): void {
+    this.write(dataSource, { cached: { schema, fetchedAt: Date.now() } });
+  }
+
+  getSnapshot(dataSource: string): SchemaSnapshot | undefined {
+    return this.read(dataSource)?.snapshot;
+  }
+
+  setSnapshot(dataSource: string, snapshot: SchemaSnapshot): void {
+    this.write(dataSource, { snapshot });
+  }
+
+  private filePath(dataSource: string): string {
+    const hash = crypto.createHash('sha256').update(dataSource).digest('hex').slice(0, 16);
+    return path.join(this.cacheDir, `schema-${hash}.json`);
+  }
+
+  private read(dataSource: string): SchemaCacheFile | undefined {
+    const filePath = this.filePath(dataSource);
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+
+    try {
+      const file: SchemaCacheFile = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      return file.dataSource === dataSource ? file : undefined;
+    } catch (error) {
+      // A corrupt cache only costs fetching the schema again
+      logger.debug(`Ignoring unreadable schema cache ${filePath}: ${error}`);
+      return undefined;
+    }
+  }
+
+  private write(dataSource: string, update: Partial<SchemaCacheFile>): void {
+    try {
+      fs.mkdirSync(this.cacheDir, { recursive: true, mode: 0o700 });
+      const file: SchemaCacheFile = { ...this.read(dataSource), ...update, version: 1, dataSource };
+      fs.writeFileSync(this.filePath(dataSource), JSON.stringify(file), { mode: 0o600 });
+    } catch (error) {
+      logger.warn(`Failed to write schema cache: ${error}`);
+    }
+  }
+}
@@ -1,3 +1,11 @@
 export * from './LogAnalyticsProvider';
 export * from './ApplicationInsightsProvider';
 export * from './AzureDataExplorerProvider';
+export * from './AzureMetricsProvider';
+export * from './LocalFilesProvider';
+export * from './CompositeDataSourceProvider';
+export * from './CachedDataSourceProvider';
+export * from './QueryResultCache';
+export * from './CachedSchemaDataSourceProvider';
+export * from './SchemaCache';
+export * from './RecordingDataSourceProvider';
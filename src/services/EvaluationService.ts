@@ -0,0 +1,174 @@
+import { createHash } from 'crypto';
+import { IAIProvider } from '../core/interfaces/IAIProvider';
+import { IDataSourceProvider } from '../core/interfaces/IDataSourceProvider';
+import { DataSourceType } from '../core/types/ProviderTypes';
+import { buildSystemPrompt } from '../providers/ai/prompts/systemPrompts';
+import { containsKqlManagementCommand, validateKql } from '../utils/kql';
+import { validateAzureMetricQuery } from '../utils/metricQuery';
+import { logger } from '../utils/logger';
+import {
+  compareQueryResults,
+  EVALUATION_REPORT_VERSION,
+  EvaluationCase,
+  EvaluationCaseResult,
+  EvaluationExpectedResult,
+  EvaluationReport,
+  EvaluationRun,
+  EvaluationSuite,
+  summarizeEvaluationRun
+} from '../utils/evaluation';
+
+/**
+ * AI provider to evaluate, with what identifies it in reports
+ */
+export interface EvaluatedAIProvider {
+  id: string;
+  type: string;
+  model?: string;
+  provider: IAIProvider;
+}
+
+export interface EvaluationOptions {
+  timespan?: string; // ISO 8601 duration or interval the queries run over
+  onCaseCompleted?: (provider: EvaluatedAIProvider, result: EvaluationCaseResult) => void;
+}
+
+/**
+ * Runs evaluation suites: every case goes through each AI provider, and the generated query is
+ * executed against the data source and compared with the expected result set
+ */
+export class EvaluationService {
+  private readonly expectedResults = new Map<string, Promise<EvaluationExpectedResult>>();
+
+  constructor(
+    private readonly dataSourceProvider: IDataSourceProvider,
+    private readonly dataSourceType: DataSourceType
+  ) {}
+
+  async run(suite: EvaluationSuite, providers: EvaluatedAIProvider[], options: EvaluationOptions = {}): Promise<EvaluationReport> {
+    // The schema is fetched once and given to every provider, as the CLI does for each question
+    let schema: unknown;
+    try {
+      schema = (await this.dataSourceProvider.getSchema()).schema;
+    } catch (error) {
+      logger.warn('Could not retrieve schema, evaluating without it');
+    }
+
+    const runs: EvaluationRun[] = [];
+    for (const evaluated of providers) {
+      logger.info(`Evaluating ${evaluated.id} on ${suite.cases.length} cases of ${suite.name}`);
+      await evaluated.provider.initialize();
+
+      const cases: EvaluationCaseResult[] = [];
+      for (const testCase of suite.cases) {
+        const result = await this.runCase(testCase, evaluated.provider, schema, options.timespan);
+        cases.push(result);
+        options.onCaseCompleted?.(evaluated, result);
+      }
+
+      runs.push({
+        provider: evaluated.id,
+        type: evaluated.type,
+        ...(evaluated.model && { model: evaluated.model }),
+        promptHash: this.getPromptHash(options.timespan),
+        summary: summarizeEvaluationRun(cases),
+        cases
+      });
+    }
+
+    return {
+      version: EVALUATION_REPORT_VERSION,
+      suite: suite.name,
+      createdAt: new Date().toISOString(),
+      dataSourceType: this.dataSourceType,
+      ...(options.timespan && { timespan: options.timespan }),
+      runs
+    };
+  }
+
+  private async runCase(testCase: EvaluationCase, provider: IAIProvider, schema: unknown, timespan?: string): Promise<EvaluationCaseResult> {
+    const result: EvaluationCaseResult = { id: testCase.id, question: testCase.question, syntaxValid: false, executed: false, correct: false };
+
+    const generationStart = Date.now();
+    try {
+      const nlQuery = await provider.generateQuery({
+        userInput: testCase.question,
+        schema,
+        dataSourceType: this.dataSourceType,
+        timespan
+      });
+      result.generationMs = Date.now() - generationStart;
+      result.generatedKql = nlQuery.generatedKQL;
+      result.confidence = nlQuery.confidence;
+    } catch (error) {
+      result.generationMs = Date.now() - generationStart;
+      result.reason = `Generation failed: ${errorMessage(error)}`;
+      return result;
+    }
+
+    const diagnostics = this.dataSourceType === 'azure-metrics'
+      ? validateAzureMetricQuery(result.generatedKql)
+      : validateKql(result.generatedKql);
+    const syntaxError = diagnostics.find(diagnostic => diagnostic.severity === 'error');
+    result.syntaxValid = !syntaxError;
+    // The local parser covers a subset of KQL, so the data source decides whether the query runs,
+    // except for management commands, which are never sent
+    if (this.dataSourceType !== 'azure-metrics' && containsKqlManagementCommand(result.generatedKql)) {
+      result.reason = 'Not executed: management commands are never sent to the data source';
+      return result;
+    }
+
+    let expected: EvaluationExpectedResult;
+    try {
+      expected = await this.getExpectedResult(testCase, timespan);
+    } catch (error) {
+      result.reason = `Expected query failed: ${errorMessage(error)}`;
+      return result;
+    }
+
+    const executionStart = Date.now();
+    try {
+      const queryResult = await this.dataSourceProvider.executeQuery({ query: result.generatedKql, timespan });
+      result.executionMs = Date.now() - executionStart;
+      result.executed = true;
+
+      const comparison = compareQueryResults(queryResult.tables[0], expected, testCase.ordered);
+      result.correct = comparison.equivalent;
+      result.reason = comparison.reason;
+    } catch (error) {
+      result.executionMs = Date.now() - executionStart;
+      result.reason = syntaxError ? `Invalid syntax: ${syntaxError.message}` : `Execution failed: ${errorMessage(error)}`;
+    }
+    return result;
+  }
+
+  /**
+   * The expected result set of a case, running its expected query once for all providers
+   */
+  private getExpectedResult(testCase: EvaluationCase, timespan?: string): Promise<EvaluationExpectedResult> {
+    if (testCase.expectedResult) {
+      return Promise.resolve(testCase.expectedResult);
+    }
+
+    let expected = this.expectedResults.get(testCase.id);
+    if (!expected) {
+      expected = this.dataSourceProvider.executeQuery({ query: testCase.expectedKql!, timespan }).then(queryResult => {
+        const table = queryResult.tables[0];
+        return { columns: table?.columns.map(column => column.name) ?? [], rows: table?.rows ?? [] };
+      });
+      this.expectedResults.set(testCase.id, expected);
+    }
+    return expected;
+  }
+
+  /**
+   * Short hash of the system prompt for the data source type and timespan, which changes whenever the prompt does
+   */
+  private getPromptHash(timespan?: string): string {
+    return createHash('sha256').update(buildSystemPrompt(this.dataSourceType, undefined, undefined, timespan)).digest('hex').slice(0, 12);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -3,11 +3,15 @@ import {
   ISessionManager,
   IAIProvider,
   NLQueryRequest,
-  IQuerySession
+  IQuerySession,
+  QueryValidationResult,
+  QueryValidationOptions
 } from '../core/interfaces';
 import { QueryResult, QueryResultWithTiming, NLQuery, SupportedLanguage } from '../types';
 import { DataSourceType } from '../core/types/ProviderTypes';
 import { logger } from '../utils/logger';
+import { rethrowIfCancelled } from '../utils/cancellation';
+import { resolveTimeRangeTimespan } from '../utils/timeExpression';
 
 /**
  * Query service request
@@ -62,12 +66,17 @@ export class QueryService {
     }
 
     try {
+      const timespan = this.resolveTimespan(request.timespan, session);
       let result: QueryResultWithTiming;
       let nlQuery: NLQuery | undefined;
 
       if (request.mode === 'raw') {
         // Execute as raw KQL
-        result = await this.orchestrator.executeRawQuery(request.userInput);
+        result = await this.orchestrator.executeRawQuery(request.userInput, {
+          timespan,
+          timeout: this.resolveTimeout(request.timeout, session),
+          signal: request.signal
+        });
         session.addToHistory(request.userInput, 1.0, 'generated', 'Raw KQL execution');
       } else if (request.mode === 'template') {
         // Execute as template query
@@ -77,7 +86,10 @@ export class QueryService {
         result = await this.orchestrator.executeTemplateQuery({
           templateId: request.templateId,
           parameters: request.parameters || {},
-          schema: request.schema
+          schema: request.schema,
+          timespan,
+          timeout: this.resolveTimeout(request.timeout, session),
+          signal: request.signal
         });
         session.addToHistory(`Template: ${request.templateId}`, 1.0, 'generated', 'Template execution');
       } else {
@@ -87,14 +99,30 @@ export class QueryService {
           userInput: request.userInput,
           schema: request.schema,
           dataSourceType: request.dataSourceType,
-          extraContext: request.extraContext
+          extraContext: request.extraContext,
+          signal: request.signal,
+          timespan
         });
 
         // Add to session history
         session.addToHistory(nlQuery.generatedKQL, nlQuery.confidence, 'generated', nlQuery.reasoning);
 
-        // Execute the query
-        result = await this.orchestrator.executeRawQuery(nlQuery.generatedKQL);
+        // Execute the query, repairing it automatically if execution fails
+        const execution = await this.orchestrator.executeGeneratedQuery(nlQuery, {
+          userInput: request.userInput,
+          schema: request.schema,
+          dataSourceType: request.dataSourceType,
+          extraContext: request.extraContext,
+          session,
+          signal: request.signal,
+          timespan,
+          timeout: this.resolveTimeout(request.timeout, session)
+        });
+        nlQuery = execution.nlQuery;
+        result = {
+          result: execution.result,
+          executionTime: execution.executionTime
+        };
       }
 
       logger.info(`QueryService: Query executed successfully in ${result.executionTime}ms`);
@@ -106,11 +134,62 @@ export class QueryService {
       };
 
     } catch (error) {
+      rethrowIfCancelled(error, request.signal);
       logger.error('QueryService: Query execution failed:', error);
       throw new Error(`Query execution failed: ${error}`);
     }
   }
 
+  /**
+   * Execute a query generated earlier with generateQuery, repairing it automatically if execution fails
+   */
+  async executeGeneratedQuery(nlQuery: NLQuery, request: QueryServiceRequest): Promise<QueryServiceResult> {
+    logger.info('QueryService: Executing generated query');
+
+    let session: IQuerySession;
+    if (request.sessionId) {
+      const existingSession = await this.sessionManager.getSession(request.sessionId);
+      if (!existingSession) {
+        throw new Error(`Session not found: ${request.sessionId}`);
+      }
+      session = existingSession;
+    } else {
+      session = await this.sessionManager.createSession({
+        language: request.language as SupportedLanguage,
+        defaultMode: request.mode || 'direct'
+      });
+    }
+
+    try {
+      const execution = await this.orchestrator.executeGeneratedQuery(nlQuery, {
+        userInput: request.userInput,
+        schema: request.schema,
+        dataSourceType: request.dataSourceType,
+        extraContext: request.extraContext,
+        session,
+        signal: request.signal,
+        timespan: this.resolveTimespan(request.timespan, session),
+        timeout: this.resolveTimeout(request.timeout, session)
+      });
+
+      logger.info(`QueryService: Generated query executed successfully in ${execution.executionTime}ms`);
+
+      return {
+        result: {
+          result: execution.result,
+          executionTime: execution.executionTime
+        },
+        session,
+        nlQuery: execution.nlQuery
+      };
+
+    } catch (error) {
+      rethrowIfCancelled(error, request.signal);
+      logger.error('QueryService: Generated query execution failed:', error);
+      throw new Error(`Query execution failed: ${error}`);
+    }
+  }
+
   /**
    * Regenerate a query with different approach
    */
@@ -120,7 +199,8 @@ export class QueryService {
     sessionId: string,
     attemptNumber: number = 1,
     dataSourceType?: DataSourceType,
-    extraContext?: string
+    extraContext?: string,
+    signal?: AbortSignal
   ): Promise<{ nlQuery: NLQuery; session: IQuerySession }> {
     logger.info(`QueryService: Regenerating query (attempt ${attemptNumber})`);
 
@@ -141,7 +221,9 @@ export class QueryService {
         userInput: originalQuestion,
         context: regenerationContext,
         dataSourceType,
-        extraContext
+        extraContext,
+        signal,
+        timespan: this.resolveTimespan(undefined, session)
       });
       
       if (!newQuery) {
@@ -164,6 +246,7 @@ export class QueryService {
       };
 
     } catch (error) {
+      rethrowIfCancelled(error, signal);
       logger.error('QueryService: Query regeneration failed:', error);
       throw new Error(`Query regeneration failed: ${error}`);
     }
@@ -172,8 +255,8 @@ export class QueryService {
   /**
    * Validate a query
    */
-  async validateQuery(query: string): Promise<{ isValid: boolean; error?: string }> {
-    return await this.orchestrator.validateQuery(query);
+  async validateQuery(query: string, options?: QueryValidationOptions): Promise<QueryValidationResult> {
+    return await this.orchestrator.validateQuery(query, options);
   }
 
   /**
@@ -211,12 +294,18 @@ export class QueryService {
   async createSession(options: {
     language?: SupportedLanguage;
     defaultMode?: 'direct' | 'step' | 'raw' | 'template';
+    timeRange?: string;
+    timeZone?: string;
+    queryTimeout?: number;
   } = {}): Promise<IQuerySession> {
     logger.info('QueryService: Creating new session');
 
     const session = await this.sessionManager.createSession({
       language: options.language || 'auto',
-      defaultMode: options.defaultMode || 'step'
+      defaultMode: options.defaultMode || 'step',
+      timeRange: options.timeRange,
+      timeZone: options.timeZone,
+      queryTimeout: options.queryTimeout
     });
 
     logger.info(`QueryService: Created new session: ${session.sessionId}`);
@@ -233,6 +322,8 @@ export class QueryService {
     schema?: any;
     dataSourceType?: DataSourceType;
     extraContext?: string;
+    signal?: AbortSignal;
+    timespan?: string;
   }): Promise<{
     nlQuery: NLQuery;
     session: IQuerySession;
@@ -260,7 +351,9 @@ export class QueryService {
         userInput: request.userInput,
         schema: request.schema,
         dataSourceType: request.dataSourceType,
-        extraContext: request.extraContext
+        extraContext: request.extraContext,
+        signal: request.signal,
+        timespan: this.resolveTimespan(request.timespan, session)
       });
 
       // Add to session history but don't execute
@@ -274,6 +367,7 @@ export class QueryService {
       };
 
     } catch (error) {
+      rethrowIfCancelled(error, request.signal);
       logger.error('QueryService: Query generation failed:', error);
       throw new Error(`Query generation failed: ${error}`);
     }
@@ -288,7 +382,7 @@ export class QueryService {
       query: string;
       timestamp: Date;
       confidence: number;
-      action: 'generated' | 'edited' | 'regenerated';
+      action: 'generated' | 'edited' | 'regenerated' | 'failed';
       reason?: string;
     }>;
   }> {
@@ -312,6 +406,9 @@ export class QueryService {
     showConfidenceThreshold: number;
     allowEditing: boolean;
     maxRegenerationAttempts: number;
+    timeRange: string;
+    timeZone: string;
+    queryTimeout: number;
   }>): Promise<void> {
     await this.sessionManager.updateSessionOptions(sessionId, options);
   }
@@ -322,4 +419,21 @@ export class QueryService {
   async endSession(sessionId: string): Promise<void> {
     await this.sessionManager.endSession(sessionId);
   }
+
+  /**
+   * Timespan of a request: its own, otherwise the time range of its session as of now
+   */
+  private resolveTimespan(timespan: string | undefined, session: IQuerySession): string | undefined {
+    if (timespan) {
+      return timespan;
+    }
+    return resolveTimeRangeTimespan(session.options?.timeRange, { timeZone: session.options?.timeZone });
+  }
+
+  /**
+   * Timeout of a request: its own, otherwise the query timeout of its session
+   */
+  private resolveTimeout(timeout: number | undefined, session: IQuerySession): number | undefined {
+    return timeout ?? session.options?.queryTimeout;
+  }
 }
\ No newline at end of file
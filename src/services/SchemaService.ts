@@ -0,0 +1,131 @@
+import { CachedSchemaDataSourceProvider } from '../providers/datasource/CachedSchemaDataSourceProvider';
+import { SchemaCache, SchemaSnapshot } from '../providers/datasource/SchemaCache';
+import { diffKqlSchemas, KqlSchema, KqlSchemaDiff, normalizeKqlSchema } from '../utils/kql/schema';
+import { logger } from '../utils/logger';
+
+/**
+ * Dynamic columns whose keys are tracked like columns, as "customDimensions.<key>"
+ */
+const DIMENSION_COLUMNS = ['customDimensions', 'Properties'];
+
+/**
+ * Schema compared with the last snapshot
+ */
+export interface SchemaDiffResult {
+  previous?: SchemaSnapshot; // Undefined when there was no snapshot yet
+  current: SchemaSnapshot;
+  diff?: KqlSchemaDiff;
+}
+
+/**
+ * Refreshes the cached schema of the data source and compares it with snapshots,
+ * to notice tables, columns and custom dimensions a data source starts or stops emitting
+ */
+export class SchemaService {
+  constructor(
+    private readonly schemaProvider: CachedSchemaDataSourceProvider,
+    private readonly cache: SchemaCache,
+    private readonly dataSourceIdentity: string
+  ) {}
+
+  /**
+   * Fetch the schema from the data source into the cache. The first refresh also
+   * records the snapshot later diffs compare with.
+   */
+  async refresh(): Promise<KqlSchema> {
+    const schema = await this.fetchSchema();
+    if (!this.cache.getSnapshot(this.dataSourceIdentity)) {
+      this.cache.setSnapshot(this.dataSourceIdentity, await this.createSnapshot(schema));
+    }
+    return schema;
+  }
+
+  /**
+   * Fetch the schema and compare it with the last snapshot, which it then replaces unless save is false
+   */
+  async diff(options: { save?: boolean } = {}): Promise<SchemaDiffResult> {
+    const previous = this.cache.getSnapshot(this.dataSourceIdentity);
+    const current = await this.createSnapshot(await this.fetchSchema(), previous);
+
+    if (options.save !== false) {
+      this.cache.setSnapshot(this.dataSourceIdentity, current);
+    }
+    return {
+      previous,
+      current,
+      diff: previous ? diffKqlSchemas({ tables: previous.tables }, { tables: current.tables }) : undefined
+    };
+  }
+
+  private async fetchSchema(): Promise<KqlSchema> {
+    const schemaResult = await this.schemaProvider.refreshSchema();
+    if (schemaResult.error) {
+      throw new Error(schemaResult.error);
+    }
+
+    const schema = normalizeKqlSchema(schemaResult);
+    if (!schema) {
+      throw new Error('The data source returned no tables');
+    }
+    return schema;
+  }
+
+  /**
+   * Snapshot of the columns and dimension keys. When the keys cannot be collected,
+   * those of the previous snapshot are kept so that they are not reported as removed.
+   */
+  private async createSnapshot(schema: KqlSchema, previous?: SchemaSnapshot): Promise<SchemaSnapshot> {
+    const tables: KqlSchema['tables'] = {};
+    for (const [table, columns] of Object.entries(schema.tables)) {
+      tables[table] = columns ? { ...columns } : null;
+    }
+
+    const keys = await this.collectDimensionKeys(schema);
+    if (keys) {
+      for (const [table, column, key] of keys) {
+        tables[table] = { ...tables[table], [`${column}.${key}`]: 'dynamic' };
+      }
+    } else {
+      for (const [table, columns] of Object.entries(tables)) {
+        const previousKeys = Object.entries(previous?.tables[table] || {})
+          .filter(([name]) => DIMENSION_COLUMNS.some(column => name.startsWith(`${column}.`) && columns?.[column] === 'dynamic'));
+        tables[table] = previousKeys.length > 0 ? { ...columns, ...Object.fromEntries(previousKeys) } : columns;
+      }
+    }
+    return { takenAt: new Date().toISOString(), tables };
+  }
+
+  /**
+   * Keys of the dimension columns across all of the last day's rows of each table,
+   * undefined when the query fails
+   */
+  private async collectDimensionKeys(schema: KqlSchema): Promise<Array<[string, string, string]> | undefined> {
+    const keySets: string[] = [];
+    for (const [table, columns] of Object.entries(schema.tables)) {
+      const column = DIMENSION_COLUMNS.find(name => columns?.[name] === 'dynamic');
+      if (column) {
+        // make_bag merges the dimensions of every row, so the bag holds each key seen in the window
+        keySets.push(`(['${table}'] | summarize Dimensions = make_bag(['${column}']) | project TableName = '${table}', ColumnName = '${column}', Dimensions)`);
+      }
+    }
+    if (keySets.length === 0) {
+      return [];
+    }
+
+    const query = [
+      `union ${keySets.join(', ')}`,
+      '| mv-expand Key = bag_keys(Dimensions) to typeof(string)',
+      '| summarize by TableName, ColumnName, Key'
+    ].join('\n');
+
+    try {
+      const result = await this.schemaProvider.executeQuery({ query, timespan: 'P1D' });
+      return (result.tables[0]?.rows || [])
+        .filter(row => row[2] !== null && row[2] !== '')
+        .map(row => [String(row[0]), String(row[1]), String(row[2])]);
+    } catch (error) {
+      logger.warn(`Could not collect custom dimension keys: ${error}`);
+      return undefined;
+    }
+  }
+}
@@ -6,6 +6,7 @@ import {
   TemplateParameters 
 } from '../core/interfaces/ITemplateRepository';
 import { logger } from '../utils/logger';
+import { formatKql } from '../utils/kql';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
@@ -75,16 +76,20 @@ export class TemplateService implements ITemplateRepository {
   /**
    * Save a template
    */
-  async saveTemplate(template: QueryTemplate): Promise<void> {
+  async saveTemplate(newTemplate: QueryTemplate): Promise<void> {
     await this.initialize();
     
-    logger.info(`TemplateService: Saving template: ${template.id}`);
+    logger.info(`TemplateService: Saving template: ${newTemplate.id}`);
 
     // Validate template
-    this.validateTemplate(template);
-
-    // Update timestamps
-    template.metadata.updatedAt = new Date();
+    this.validateTemplate(newTemplate);
+
+    // Store a copy with the query formatted one pipe stage per line and updated timestamps
+    const template: QueryTemplate = {
+      ...newTemplate,
+      kqlTemplate: formatKql(newTemplate.kqlTemplate),
+      metadata: { ...newTemplate.metadata, updatedAt: new Date() }
+    };
 
     // Store in memory
     this.templates.set(template.id, template);
@@ -1,18 +1,44 @@
 import { 
   IQueryOrchestrator, 
   NLQueryRequest, 
+  GeneratedQueryExecutionResult,
+  QueryValidationResult,
+  QueryValidationOptions,
   TemplateQueryRequest, 
+  RawQueryOptions,
   IAIProvider, 
   IDataSourceProvider,
   ITemplateRepository
 } from '../../core/interfaces';
 import { QueryResultWithTiming, NLQuery } from '../../types';
 import { logger } from '../../utils/logger';
+import {
+  validateKql,
+  validateKqlAgainstSchema,
+  summarizeKqlDiagnostics,
+  normalizeKqlSchema,
+  containsKqlManagementCommand,
+  KqlSchema
+} from '../../utils/kql';
+import { validateAzureMetricQuery } from '../../utils/metricQuery';
+import { rethrowIfCancelled } from '../../utils/cancellation';
+
+/**
+ * Default number of automatic repair attempts (matches SessionManager defaults)
+ */
+const DEFAULT_MAX_REGENERATION_ATTEMPTS = 3;
+
+/**
+ * Errors that regenerating the query cannot fix (authentication, permissions, connectivity)
+ */
+const NON_REPAIRABLE_ERROR_PATTERN = /\b(401|403)\b|unauthori[sz]ed|forbidden|authentication|credential|ECONNREFUSED|ENOTFOUND|ETIMEDOUT|ECONNRESET|network error/i;
 
 /**
  * Query orchestrator implementation
  */
 export class QueryOrchestrator implements IQueryOrchestrator {
+  private schemaCatalog?: Promise<KqlSchema | null>;
+
   constructor(
     private aiProvider: IAIProvider,
     private dataSourceProvider: IDataSourceProvider,
@@ -22,7 +48,7 @@ export class QueryOrchestrator implements IQueryOrchestrator {
   /**
    * Execute a natural language query
    */
-  async executeNaturalLanguageQuery(request: NLQueryRequest): Promise<QueryResultWithTiming> {
+  async executeNaturalLanguageQuery(request: NLQueryRequest): Promise<GeneratedQueryExecutionResult> {
     logger.info(`Executing natural language query: "${request.userInput}"`);
 
     const startTime = Date.now();
@@ -33,24 +59,26 @@ export class QueryOrchestrator implements IQueryOrchestrator {
         userInput: request.userInput,
         schema: request.schema,
         dataSourceType: request.dataSourceType,
-        extraContext: request.extraContext
+        extraContext: request.extraContext,
+        signal: request.signal,
+        timespan: request.timespan
       });
+      request.session?.addToHistory(nlQuery.generatedKQL, nlQuery.confidence, 'generated', nlQuery.reasoning);
 
-      // Execute the generated KQL
-      const result = await this.dataSourceProvider.executeQuery({
-        query: nlQuery.generatedKQL
-      });
+      // Execute the generated KQL, repairing it when execution fails
+      const execution = await this.executeGeneratedQuery(nlQuery, request);
 
       const executionTime = Date.now() - startTime;
 
       logger.info(`Natural language query executed successfully in ${executionTime}ms`);
 
       return {
-        result,
+        ...execution,
         executionTime
       };
 
     } catch (error) {
+      rethrowIfCancelled(error, request.signal);
       const executionTime = Date.now() - startTime;
       logger.error('Failed to execute natural language query:', error);
       
@@ -58,6 +86,88 @@ export class QueryOrchestrator implements IQueryOrchestrator {
     }
   }
 
+  /**
+   * Execute a generated query, feeding execution errors back to the AI provider
+   * to repair the query up to maxRegenerationAttempts times. Repaired queries are
+   * validated like raw queries and not executed when invalid or management commands.
+   */
+  async executeGeneratedQuery(nlQuery: NLQuery, request: NLQueryRequest): Promise<GeneratedQueryExecutionResult> {
+    const maxAttempts = request.maxRegenerationAttempts
+      ?? request.session?.options.maxRegenerationAttempts
+      ?? DEFAULT_MAX_REGENERATION_ATTEMPTS;
+    const startTime = Date.now();
+
+    let currentQuery = nlQuery;
+    let repairAttempts = 0;
+
+    while (true) {
+      try {
+        const result = await this.dataSourceProvider.executeQuery({
+          query: currentQuery.generatedKQL,
+          timespan: request.timespan,
+          timeout: request.timeout,
+          signal: request.signal
+        });
+
+        if (repairAttempts > 0) {
+          logger.info(`Query repaired successfully after ${repairAttempts} attempt(s)`);
+        }
+
+        return {
+          result,
+          executionTime: Date.now() - startTime,
+          nlQuery: currentQuery,
+          repairAttempts
+        };
+      } catch (error) {
+        // A cancelled query is not repaired
+        rethrowIfCancelled(error, request.signal);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+
+        if (repairAttempts >= maxAttempts || NON_REPAIRABLE_ERROR_PATTERN.test(errorMessage)) {
+          request.session?.addToHistory(currentQuery.generatedKQL, currentQuery.confidence, 'failed', `Execution failed: ${errorMessage}`);
+          if (repairAttempts > 0) {
+            throw new Error(`${errorMessage} (after ${repairAttempts} repair attempt(s))`);
+          }
+          throw error;
+        }
+
+        repairAttempts++;
+        logger.warn(`Generated query failed, attempting repair ${repairAttempts}/${maxAttempts}: ${errorMessage}`);
+
+        currentQuery = await this.aiProvider.regenerateQuery({
+          userInput: request.userInput,
+          context: {
+            previousQuery: currentQuery.generatedKQL,
+            previousReasoning: currentQuery.reasoning,
+            attemptNumber: repairAttempts,
+            executionError: errorMessage
+          },
+          schema: request.schema,
+          dataSourceType: request.dataSourceType,
+          extraContext: request.extraContext,
+          signal: request.signal,
+          timespan: request.timespan
+        });
+
+        request.session?.addToHistory(
+          currentQuery.generatedKQL,
+          currentQuery.confidence,
+          'regenerated',
+          `Repair attempt ${repairAttempts} after execution error: ${errorMessage}`
+        );
+
+        // The repaired query must pass the checks raw queries do before it reaches the data source
+        const rejection = await this.checkRepairedQuery(currentQuery.generatedKQL, request);
+        if (rejection) {
+          logger.warn(`Repaired query rejected: ${rejection}`);
+          request.session?.addToHistory(currentQuery.generatedKQL, currentQuery.confidence, 'failed', `Repaired query rejected: ${rejection}`);
+          throw error;
+        }
+      }
+    }
+  }
+
   /**
    * Execute a template query
    */
@@ -82,7 +192,10 @@ export class QueryOrchestrator implements IQueryOrchestrator {
 
       // Execute the generated KQL
       const result = await this.dataSourceProvider.executeQuery({
-        query: kqlQuery
+        query: kqlQuery,
+        timespan: request.timespan,
+        timeout: request.timeout,
+        signal: request.signal
       });
 
       const executionTime = Date.now() - startTime;
@@ -95,6 +208,7 @@ export class QueryOrchestrator implements IQueryOrchestrator {
       };
 
     } catch (error) {
+      rethrowIfCancelled(error, request.signal);
       const executionTime = Date.now() - startTime;
       logger.error('Failed to execute template query:', error);
       
@@ -105,13 +219,18 @@ export class QueryOrchestrator implements IQueryOrchestrator {
   /**
    * Execute a raw KQL query
    */
-  async executeRawQuery(query: string): Promise<QueryResultWithTiming> {
+  async executeRawQuery(query: string, options: RawQueryOptions = {}): Promise<QueryResultWithTiming> {
     logger.info(`Executing raw KQL query: ${query}`);
 
     const startTime = Date.now();
 
     try {
-      const result = await this.dataSourceProvider.executeQuery({ query });
+      const result = await this.dataSourceProvider.executeQuery({
+        query,
+        timespan: options.timespan,
+        timeout: options.timeout,
+        signal: options.signal
+      });
       const executionTime = Date.now() - startTime;
 
       logger.info(`Raw KQL query executed successfully in ${executionTime}ms`);
@@ -122,6 +241,7 @@ export class QueryOrchestrator implements IQueryOrchestrator {
       };
 
     } catch (error) {
+      rethrowIfCancelled(error, options.signal);
       const executionTime = Date.now() - startTime;
       logger.error('Failed to execute raw KQL query:', error);
       
@@ -132,8 +252,8 @@ export class QueryOrchestrator implements IQueryOrchestrator {
   /**
    * Validate a KQL query
    */
-  async validateQuery(query: string): Promise<{ isValid: boolean; error?: string }> {
-    logger.debug(`Validating KQL query: ${query}`);
+  async validateQuery(query: string, options: QueryValidationOptions = {}): Promise<QueryValidationResult> {
+    logger.debug(`Validating query: ${query}`);
 
     try {
       // Use the AI provider to validate the query if it supports validation
@@ -144,26 +264,29 @@ export class QueryOrchestrator implements IQueryOrchestrator {
         }
       }
 
-      // Fallback: Basic validation by attempting to execute against data source
-      // This is a simple check - could be enhanced with more sophisticated validation
-      if (!query || query.trim().length === 0) {
-        return {
-          isValid: false,
-          error: 'Query cannot be empty'
-        };
+      // Parse the query locally and report positioned syntax errors
+      let diagnostics = options.dataSourceType === 'azure-metrics' ? validateAzureMetricQuery(query) : validateKql(query);
+
+      // Resolve tables and columns against the data source schema once the syntax is valid
+      if (options.checkSchema && options.dataSourceType !== 'azure-metrics' && !diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+        const schema = await this.getSchemaCatalog();
+        if (schema) {
+          diagnostics = [...diagnostics, ...validateKqlAgainstSchema(query, schema)].sort((a, b) => a.offset - b.offset);
+        }
       }
 
-      // Basic KQL syntax checks
-      const basicErrors = this.performBasicValidation(query);
-      if (basicErrors) {
+      const error = summarizeKqlDiagnostics(diagnostics);
+      if (error) {
+        logger.debug(`Query validation failed: ${error}`);
         return {
           isValid: false,
-          error: basicErrors
+          error,
+          diagnostics
         };
       }
 
       logger.debug('Query validation passed');
-      return { isValid: true };
+      return { isValid: true, diagnostics };
 
     } catch (error) {
       logger.error('Query validation failed:', error);
@@ -175,36 +298,36 @@ export class QueryOrchestrator implements IQueryOrchestrator {
   }
 
   /**
-   * Perform basic KQL validation
+   * Why a repaired query must not be executed: a syntax error or a management command
    */
-  private performBasicValidation(query: string): string | null {
-    // Basic checks for common KQL syntax issues
-    const trimmedQuery = query.trim();
-
-    // Check for empty query
-    if (!trimmedQuery) {
-      return 'Query cannot be empty';
-    }
-
-    // Check for dangerous operations (basic security)
-    const dangerousKeywords = ['drop', 'delete', 'truncate', '.create', '.set'];
-    const lowerQuery = trimmedQuery.toLowerCase();
-    
-    for (const keyword of dangerousKeywords) {
-      if (lowerQuery.includes(keyword)) {
-        return `Potentially dangerous operation detected: ${keyword}`;
-      }
+  private async checkRepairedQuery(query: string, request: NLQueryRequest): Promise<string | undefined> {
+    if (request.dataSourceType !== 'azure-metrics' && containsKqlManagementCommand(query)) {
+      return 'management commands are not executed';
     }
+    const validation = await this.validateQuery(query, { dataSourceType: request.dataSourceType });
+    return validation.isValid ? undefined : validation.error || 'Query validation failed';
+  }
 
-    // Check for basic KQL table names (Application Insights specific)
-    const validTables = ['requests', 'dependencies', 'exceptions', 'pageviews', 'traces', 'customevents', 'availabilityresults'];
-    const hasValidTable = validTables.some(table => lowerQuery.includes(table));
-    
-    if (!hasValidTable) {
-      logger.warn('Query does not contain any known Application Insights tables');
-      // Don't fail validation, just warn
+  /**
+   * Table and column catalog of the data source, fetched once and reused for later validations.
+   * Failed lookups are not cached so that the next validation tries again.
+   */
+  private getSchemaCatalog(): Promise<KqlSchema | null> {
+    if (!this.schemaCatalog) {
+      this.schemaCatalog = Promise.resolve()
+        .then(() => this.dataSourceProvider.getSchema())
+        .then(schemaResult => {
+          if (schemaResult.error) {
+            throw new Error(schemaResult.error);
+          }
+          return normalizeKqlSchema(schemaResult);
+        })
+        .catch(error => {
+          logger.warn('Could not retrieve schema for query validation:', error);
+          this.schemaCatalog = undefined;
+          return null;
+        });
     }
-
-    return null;
+    return this.schemaCatalog;
   }
-}
\ No newline at end of file
+}
@@ -16,7 +16,7 @@ export class QuerySession implements IQuerySession {
     query: string;
     timestamp: Date;
     confidence: number;
-    action: 'generated' | 'edited' | 'regenerated';
+    action: 'generated' | 'edited' | 'regenerated' | 'failed';
     reason?: string;
   }> = [];
 
@@ -28,7 +28,7 @@ export class QuerySession implements IQuerySession {
   /**
    * Add a query to the session history
    */
-  addToHistory(query: string, confidence: number, action: 'generated' | 'edited' | 'regenerated', reason?: string): void {
+  addToHistory(query: string, confidence: number, action: 'generated' | 'edited' | 'regenerated' | 'failed', reason?: string): void {
     this.queryHistory.push(query);
     this.detailedHistory.push({
       query,
@@ -61,7 +61,7 @@ export class QuerySession implements IQuerySession {
     query: string;
     timestamp: Date;
     confidence: number;
-    action: 'generated' | 'edited' | 'regenerated';
+    action: 'generated' | 'edited' | 'regenerated' | 'failed';
     reason?: string;
   }> {
     return [...this.detailedHistory];
@@ -22,7 +22,33 @@ export interface Config {
     enableProviderFallback: boolean;
     aiProviderOrder?: string[];
     dataSourceProviderOrder?: string[];
+    dataSourceMode?: 'failover' | 'fanout'; // How dataSourceProviderOrder is used (default: failover)
+    cooldownSeconds?: number; // How long a failed provider is skipped (default: 60)
   };
+  queryCache?: QueryCacheConfig;
+  schemaCache?: SchemaCacheConfig;
+}
+
+/**
+ * On-disk cache of data source schemas, used for query generation and validation
+ */
+export interface SchemaCacheConfig {
+  enabled?: boolean; // default: true
+  refreshAfterSeconds?: number; // Older schemas are used while a fresh one is fetched in the background (default: 3600)
+  ttlSeconds?: number; // Older schemas are fetched again before use (default: 604800, 7 days)
+  directory?: string; // default: ~/.aidx/cache
+}
+
+/**
+ * Cache of query results, keyed by normalized query, data source and time window
+ */
+export interface QueryCacheConfig {
+  enabled?: boolean; // default: true
+  ttlSeconds?: number; // How long results are reused (default: 300)
+  maxEntries?: number; // Results kept in memory (default: 100)
+  maxMemoryMB?: number; // Size of the results kept in memory (default: 50)
+  disk?: boolean; // Also keep results on disk, shared by CLI invocations (default: false)
+  directory?: string; // Directory of the disk tier (default: ~/.aidx/query-cache)
 }
 
 /**
@@ -33,6 +59,19 @@ export type MultiProviderConfig = Config;
 
 export interface QueryResult {
   tables: QueryTable[];
+  cache?: QueryCacheHit; // Set when the result was served from the query cache
+  errors?: QueryResultError[]; // Data sources that failed in a fan-out query, the result is partial when set
+}
+
+export interface QueryResultError {
+  source: string;
+  message: string;
+}
+
+export interface QueryCacheHit {
+  tier: 'memory' | 'disk';
+  cachedAt: string; // ISO 8601
+  expiresAt: string; // ISO 8601
 }
 
 export interface QueryTable {
@@ -60,6 +99,7 @@ export interface NLQuery {
   generatedKQL: string;
   confidence: number;
   reasoning?: string;
+  provider?: string; // AI provider that answered (set when provider fallback is active)
 }
 
 // Regeneration context for AI service
@@ -67,6 +107,35 @@ export interface RegenerationContext {
   previousQuery: string;
   previousReasoning?: string;
   attemptNumber: number;
+  executionError?: string; // Error returned by the data source when previousQuery was executed
+}
+
+// Positioned problem found while validating a KQL query
+export interface KqlDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  offset: number; // 0-based character offset into the query
+  length: number; // Number of characters the diagnostic covers
+}
+
+// Query pattern that makes a KQL query slower or more expensive than necessary
+export interface KqlPerformanceFinding {
+  rule: 'missing-time-filter' | 'contains-instead-of-has' | 'search-all-tables' | 'join-without-strategy' | 'sort-before-take';
+  severity: 'high' | 'medium' | 'low';
+  message: string;
+  suggestion: string;
+  rewrite?: string; // The whole query with the suggestion applied, when it can be rewritten mechanically
+  line: number; // 1-based
+  column: number; // 1-based
+  offset: number; // 0-based character offset into the query
+  length: number; // Number of characters the finding covers
+}
+
+export interface KqlPerformanceReport {
+  score: number; // 0-100, 100 when no finding was reported
+  findings: KqlPerformanceFinding[]; // Most severe first
 }
 
 export interface QueryHistory {
@@ -0,0 +1,66 @@
+/**
+ * Thrown when a query, or the AI request generating it, is cancelled through its AbortSignal
+ */
+export class QueryCancelledError extends Error {
+  constructor(message = 'Query was cancelled') {
+    super(message);
+    this.name = 'QueryCancelledError';
+  }
+}
+
+/**
+ * Names of the errors axios, the Azure SDK, and the OpenAI and Anthropic SDKs reject aborted requests with
+ */
+const ABORT_ERROR_NAMES = ['AbortError', 'CanceledError', 'APIUserAbortError', 'QueryCancelledError'];
+
+/**
+ * Whether an error comes from cancelling the request, either by its type or because the signal was aborted
+ */
+export function isCancellationError(error: unknown, signal?: AbortSignal): boolean {
+  if (signal?.aborted || error instanceof QueryCancelledError) {
+    return true;
+  }
+  const abortError = error as { name?: string; code?: string; constructor?: { name?: string } } | undefined;
+  return ABORT_ERROR_NAMES.includes(abortError?.name || '')
+    || ABORT_ERROR_NAMES.includes(abortError?.constructor?.name || '')
+    || abortError?.code === 'ERR_CANCELED';
+}
+
+/**
+ * Throw QueryCancelledError when the signal has been aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new QueryCancelledError();
+  }
+}
+
+/**
+ * Rethrow cancellations as QueryCancelledError, so that catch blocks do not report them as failures
+ */
+export function rethrowIfCancelled(error: unknown, signal?: AbortSignal): void {
+  if (isCancellationError(error, signal)) {
+    throw error instanceof QueryCancelledError ? error : new QueryCancelledError();
+  }
+}
+
+/**
+ * Reject with QueryCancelledError as soon as the signal is aborted, for operations that cannot be
+ * interrupted themselves. The operation keeps running in the background and its outcome is ignored.
+ */
+export function abortable<T>(operation: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return operation;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new QueryCancelledError());
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+
+    operation.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
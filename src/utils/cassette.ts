@@ -0,0 +1,274 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isCancellationError, throwIfCancelled } from './cancellation';
+import { logger } from './logger';
+import { resolveSecret } from './secrets';
+
+/**
+ * Cassettes hold the requests providers received and what they answered, so that a session can be
+ * replayed without the live Azure OpenAI and data source: for bug reports and real-shaped test data.
+ * Secrets and tokens are redacted before anything is written.
+ */
+
+export type CassetteMode = 'record' | 'replay';
+
+export type CassetteProviderKind = 'ai' | 'dataSource';
+
+export interface CassetteInteraction {
+  provider: CassetteProviderKind;
+  method: string;
+  request: unknown;
+  response?: unknown;
+  error?: { name: string; message: string }; // Set instead of response when the call failed
+}
+
+export interface CassetteFile {
+  version: number;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
+
+export interface CassetteOptions {
+  secrets?: string[]; // Values to redact wherever they appear, e.g. the configured API keys
+}
+
+export const CASSETTE_VERSION = 1;
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Names of fields whose values are secrets, e.g. apiKey, clientSecret, accessToken or authorization
+ */
+const SECRET_KEY = /(api[-_]?key|secret|password|token|authorization|connection[-_]?string|signature)$/i;
+
+/**
+ * Environment variables holding secrets that providers fall back to
+ */
+const SECRET_ENV_VAR = /(KEY|SECRET|TOKEN|PASSWORD)$/i;
+
+/**
+ * Secrets recognizable by their shape, with the replacement keeping what precedes them
+ */
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(Bearer\s+)[A-Za-z0-9\-._~+/]+=*/g, `$1${REDACTED}`],
+  [/\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g, REDACTED],
+  [/\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{16,}/g, REDACTED],
+  [/([?&](?:sig|code|access_token|api[-_]?key|client_secret)=)[^&\s"']+/gi, `$1${REDACTED}`],
+  [/\b((?:AccountKey|SharedAccessKey|Password|InstrumentationKey)=)[^;\s"']+/gi, `$1${REDACTED}`]
+];
+
+const MIN_SECRET_LENGTH = 6;
+
+/**
+ * Record or replay the interactions of providers with a cassette file. Recording writes the
+ * file after every interaction, so a cassette survives the process being interrupted.
+ */
+export class Cassette {
+  private readonly keys: string[];
+  private readonly used = new Set<number>();
+  private readonly secrets: string[];
+
+  private constructor(
+    readonly filePath: string,
+    readonly mode: CassetteMode,
+    private readonly interactions: CassetteInteraction[],
+    options: CassetteOptions
+  ) {
+    this.secrets = Array.from(new Set((options.secrets || []).filter(secret => secret.length >= MIN_SECRET_LENGTH)))
+      .sort((a, b) => b.length - a.length);
+    this.keys = interactions.map(interaction => stableStringify(interaction.request));
+  }
+
+  /**
+   * Start recording into a file, replacing what it held
+   */
+  static record(filePath: string, options: CassetteOptions = {}): Cassette {
+    const cassette = new Cassette(path.resolve(filePath), 'record', [], options);
+    cassette.save();
+    return cassette;
+  }
+
+  /**
+   * Load a recorded file for replaying
+   */
+  static replay(filePath: string, options: CassetteOptions = {}): Cassette {
+    const resolved = path.resolve(filePath);
+    let file: CassetteFile;
+    try {
+      file = JSON.parse(fs.readFileSync(resolved, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Could not read cassette ${resolved}: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!file || !Array.isArray(file.interactions)) {
+      throw new Error(`${resolved} is not a cassette: interactions are missing`);
+    }
+    if (file.version !== CASSETTE_VERSION) {
+      throw new Error(`Cassette ${resolved} has version ${file.version}, expected ${CASSETTE_VERSION}`);
+    }
+    return new Cassette(resolved, 'replay', file.interactions, options);
+  }
+
+  /**
+   * Run a provider call: in record mode call it and record the outcome, in replay mode answer
+   * from the cassette. The request is matched against the recorded ones after redaction.
+   */
+  async run<T>(provider: CassetteProviderKind, method: string, request: unknown, call: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    throwIfCancelled(signal);
+    const recordedRequest = this.redact(request);
+
+    if (this.mode === 'replay') {
+      return this.play<T>(provider, method, recordedRequest);
+    }
+
+    try {
+      const response = await call();
+      this.add({ provider, method, request: recordedRequest, response: this.redact(response) });
+      return response;
+    } catch (error) {
+      // Cancelling is up to the user, replaying it would not reproduce anything
+      if (!isCancellationError(error, signal)) {
+        this.add({
+          provider,
+          method,
+          request: recordedRequest,
+          error: {
+            name: error instanceof Error ? error.name : 'Error',
+            message: this.redactText(error instanceof Error ? error.message : String(error))
+          }
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace secrets in a JSON-compatible copy of a value
+   */
+  redact(value: unknown): unknown {
+    if (value === undefined) {
+      return undefined;
+    }
+    return this.redactValue(JSON.parse(JSON.stringify(value)));
+  }
+
+  private redactValue(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return this.redactText(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+        key,
+        SECRET_KEY.test(key) && (typeof item === 'string' || typeof item === 'number') && item !== '' ? REDACTED : this.redactValue(item)
+      ]));
+    }
+    return value;
+  }
+
+  private redactText(text: string): string {
+    let redacted = text;
+    for (const secret of this.secrets) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+    for (const [pattern, replacement] of SECRET_PATTERNS) {
+      redacted = redacted.replace(pattern, replacement);
+    }
+    return redacted;
+  }
+
+  /**
+   * Answer from the first unused interaction recorded for the same request. Repeated requests
+   * reuse the last one once all are used; a request that was not recorded gets the next unused
+   * interaction of the method, so a session whose prompts differ slightly still replays in order.
+   */
+  private play<T>(provider: CassetteProviderKind, method: string, request: unknown): T {
+    const key = stableStringify(request);
+    const candidates = this.interactions
+      .map((interaction, index) => ({ interaction, index }))
+      .filter(({ interaction }) => interaction.provider === provider && interaction.method === method)
+      .map(({ index }) => index);
+    const matching = candidates.filter(index => this.keys[index] === key);
+
+    let index: number | undefined = matching.find(candidate => !this.used.has(candidate)) ?? matching[matching.length - 1];
+    if (index === undefined) {
+      index = candidates.find(candidate => !this.used.has(candidate));
+      if (index === undefined) {
+        throw new Error(`Cassette ${this.filePath} has no recorded ${provider} ${method} interaction for this request`);
+      }
+      logger.warn(`Replaying the next recorded ${provider} ${method} interaction, which was recorded for a different request`);
+    }
+    this.used.add(index);
+
+    const interaction = this.interactions[index];
+    if (interaction.error) {
+      const error = new Error(interaction.error.message);
+      error.name = interaction.error.name;
+      throw error;
+    }
+    return (interaction.response === undefined ? undefined : JSON.parse(JSON.stringify(interaction.response))) as T;
+  }
+
+  private add(interaction: CassetteInteraction): void {
+    this.interactions.push(interaction);
+    this.keys.push(stableStringify(interaction.request));
+    this.save();
+  }
+
+  private save(): void {
+    const file: CassetteFile = {
+      version: CASSETTE_VERSION,
+      recordedAt: new Date().toISOString(),
+      interactions: this.interactions
+    };
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      // Results hold the user's telemetry, keep them to the user
+      fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    } catch (error) {
+      logger.warn(`Failed to write cassette ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+/**
+ * Secret values of a configuration (API keys, client secrets, ...), with environment variable
+ * references resolved, and of the environment variables providers read secrets from
+ */
+export function collectSecrets(config: unknown, env: NodeJS.ProcessEnv = process.env): string[] {
+  const secrets: string[] = [];
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      for (const [key, item] of Object.entries(value)) {
+        if (SECRET_KEY.test(key) && typeof item === 'string') {
+          const secret = resolveSecret(item);
+          if (secret) {
+            secrets.push(secret);
+          }
+        } else {
+          visit(item);
+        }
+      }
+    }
+  };
+  visit(config);
+
+  for (const [name, value] of Object.entries(env)) {
+    if (SECRET_ENV_VAR.test(name) && value) {
+      secrets.push(value);
+    }
+  }
+  return secrets;
+}
+
+/**
+ * JSON with object keys sorted, so that equal requests give equal text
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => item && typeof item === 'object' && !Array.isArray(item)
+    ? Object.fromEntries(Object.keys(item).sort().map(key => [key, item[key]]))
+    : item) ?? '';
+}
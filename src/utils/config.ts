@@ -215,6 +215,18 @@ export class ConfigManager {
         logger.error(`Default data source provider '${providers.dataSources.default}' configuration is incomplete: database is required`);
         return false;
       }
+    } else if (defaultDataSource.type === 'azure-metrics') {
+      const hasResourceParts = defaultDataSource.subscriptionId && defaultDataSource.resourceGroup &&
+        defaultDataSource.resourceType && defaultDataSource.resourceName;
+      if (!defaultDataSource.resourceId && !hasResourceParts) {
+        logger.error(`Default data source provider '${providers.dataSources.default}' configuration is incomplete: resourceId is required`);
+        return false;
+      }
+    } else if (defaultDataSource.type === 'local-files') {
+      if (!defaultDataSource.directory) {
+        logger.error(`Default data source provider '${providers.dataSources.default}' configuration is incomplete: directory is required`);
+        return false;
+      }
     } else {
       logger.error(`Unknown data source provider type: '${defaultDataSource.type}'`);
       return false;
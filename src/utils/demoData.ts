@@ -0,0 +1,687 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { QueryColumn, QueryTable } from '../types';
+import { parseDuration } from './timeRange';
+
+/**
+ * Synthetic Application Insights telemetry for demos and tests. Page views of the first service
+ * (the frontend) start operations that call the other services over HTTP and a SQL database, so
+ * requests, dependencies, exceptions, traces, pageViews and customEvents share operation_Ids and
+ * parent ids the way real telemetry does, and failures propagate to the callers.
+ */
+
+export type DemoLatencyDistribution = 'lognormal' | 'normal' | 'exponential';
+
+export const DEMO_LATENCY_DISTRIBUTIONS: DemoLatencyDistribution[] = ['lognormal', 'normal', 'exponential'];
+
+export type DemoIncidentKind = 'latency-spike' | 'exception-burst';
+
+export const DEMO_INCIDENT_KINDS: DemoIncidentKind[] = ['latency-spike', 'exception-burst'];
+
+/**
+ * Incident injected into the generated telemetry
+ */
+export interface DemoIncident {
+  kind: DemoIncidentKind;
+  start: Date;
+  durationMs: number;
+  service?: string; // Affected service; every service when unset
+  factor?: number; // latency-spike: multiplier of the service's own latency (default: 5)
+  errorRate?: number; // exception-burst: share of failing requests (default: 0.5)
+  exceptionType?: string; // exception-burst: exception thrown (default: System.TimeoutException)
+}
+
+export interface DemoDataOptions {
+  start: Date;
+  end: Date;
+  services?: string[]; // The first one is the frontend; default: DEMO_SERVICES
+  operationsPerMinute?: number; // Page views starting an operation, on average (default: 10)
+  errorRate?: number; // Share of requests failing in each service (default: 0.02)
+  latencyDistribution?: DemoLatencyDistribution; // Default: lognormal
+  latencyMedianMs?: number; // Median of each service's own processing time (default: 60)
+  incidents?: DemoIncident[];
+  seed?: number; // Same seed and options, same telemetry
+}
+
+export type DemoDataFormat = 'csv' | 'json' | 'ndjson';
+
+export const DEMO_DATA_FORMATS: DemoDataFormat[] = ['csv', 'json', 'ndjson'];
+
+export const DEMO_SERVICES = ['web-frontend', 'orders-api', 'payments-api', 'inventory-api'];
+
+/**
+ * More operations than this are refused: the tables would not fit in memory
+ */
+export const MAX_DEMO_OPERATIONS = 500000;
+
+const DEFAULT_INCIDENT_DURATION_MS = 30 * 60 * 1000;
+
+type DemoTableName = 'requests' | 'dependencies' | 'exceptions' | 'traces' | 'pageViews' | 'customEvents';
+
+type DemoRecord = Record<string, unknown>;
+
+const SERVER_CONTEXT: Array<[string, string]> = [
+  ['itemType', 'string'], ['operation_Name', 'string'], ['operation_Id', 'string'], ['operation_ParentId', 'string'],
+  ['cloud_RoleName', 'string'], ['cloud_RoleInstance', 'string']
+];
+
+const CLIENT_CONTEXT: Array<[string, string]> = [
+  ['session_Id', 'string'], ['user_Id', 'string'], ['client_Type', 'string']
+];
+
+/**
+ * Columns of each table, a subset of the Application Insights schema
+ */
+const TABLE_COLUMNS: Record<DemoTableName, Array<[string, string]>> = {
+  requests: [
+    ['timestamp', 'datetime'], ['id', 'string'], ['name', 'string'], ['url', 'string'], ['success', 'bool'],
+    ['resultCode', 'string'], ['duration', 'real'], ['performanceBucket', 'string'], ['customDimensions', 'dynamic'],
+    ...SERVER_CONTEXT, ...CLIENT_CONTEXT
+  ],
+  dependencies: [
+    ['timestamp', 'datetime'], ['id', 'string'], ['target', 'string'], ['type', 'string'], ['name', 'string'],
+    ['data', 'string'], ['success', 'bool'], ['resultCode', 'string'], ['duration', 'real'], ['performanceBucket', 'string'],
+    ...SERVER_CONTEXT
+  ],
+  exceptions: [
+    ['timestamp', 'datetime'], ['problemId', 'string'], ['type', 'string'], ['method', 'string'], ['outerType', 'string'],
+    ['outerMessage', 'string'], ['innermostType', 'string'], ['innermostMessage', 'string'], ['severityLevel', 'long'],
+    ...SERVER_CONTEXT
+  ],
+  traces: [
+    ['timestamp', 'datetime'], ['message', 'string'], ['severityLevel', 'long'], ['customDimensions', 'dynamic'],
+    ...SERVER_CONTEXT
+  ],
+  pageViews: [
+    ['timestamp', 'datetime'], ['id', 'string'], ['name', 'string'], ['url', 'string'], ['duration', 'real'],
+    ['performanceBucket', 'string'], ...SERVER_CONTEXT, ...CLIENT_CONTEXT,
+    ['client_Browser', 'string'], ['client_City', 'string'], ['client_CountryOrRegion', 'string']
+  ],
+  customEvents: [
+    ['timestamp', 'datetime'], ['name', 'string'], ['customDimensions', 'dynamic'], ['customMeasurements', 'dynamic'],
+    ...SERVER_CONTEXT, ...CLIENT_CONTEXT
+  ]
+};
+
+/**
+ * Pages of the frontend, with the request each page makes and the event a successful one logs
+ */
+const PAGES = [
+  { name: 'Home', path: '/', method: 'GET', event: undefined },
+  { name: 'Products', path: '/products', method: 'GET', event: 'ProductViewed' },
+  { name: 'Cart', path: '/cart', method: 'GET', event: 'AddToCart' },
+  { name: 'Checkout', path: '/checkout', method: 'POST', event: 'CheckoutCompleted' }
+];
+
+const EXCEPTION_MESSAGES: Record<string, string> = {
+  'System.TimeoutException': 'The operation has timed out.',
+  'System.InvalidOperationException': 'Sequence contains no elements',
+  'System.NullReferenceException': 'Object reference not set to an instance of an object.',
+  'Microsoft.Data.SqlClient.SqlException': 'Transaction (Process ID 64) was deadlocked on lock resources with another process and has been chosen as the deadlock victim. Rerun the transaction.',
+  'System.Net.Http.HttpRequestException': 'Response status code does not indicate success: 500 (Internal Server Error).'
+};
+
+/** Exceptions of requests failing on their own, picked at random */
+const FAILURE_EXCEPTIONS = [
+  'System.InvalidOperationException',
+  'System.NullReferenceException',
+  'Microsoft.Data.SqlClient.SqlException',
+  'System.TimeoutException'
+];
+
+const SQL_EXCEPTION = 'Microsoft.Data.SqlClient.SqlException';
+const HTTP_EXCEPTION = 'System.Net.Http.HttpRequestException';
+
+const LOCATIONS: Array<[string, string]> = [
+  ['Seattle', 'United States'], ['New York', 'United States'], ['London', 'United Kingdom'], ['Berlin', 'Germany'],
+  ['Tokyo', 'Japan'], ['Sydney', 'Australia'], ['Toronto', 'Canada'], ['São Paulo', 'Brazil']
+];
+const BROWSERS = ['Chrome 126.0', 'Edg 126.0', 'Firefox 127.0', 'Safari 17.5', 'Chrome Mobile 126.0'];
+const TENANTS = ['contoso', 'fabrikam', 'northwind', 'adventure-works'];
+const PRODUCTS = ['P-1001', 'P-1002', 'P-1003', 'P-2001', 'P-2002', 'P-3001'];
+
+const PERFORMANCE_BUCKETS: Array<[number, string]> = [
+  [250, '<250ms'], [500, '250ms-500ms'], [1000, '500ms-1sec'], [3000, '1sec-3sec'], [7000, '3sec-7sec'],
+  [15000, '7sec-15sec'], [30000, '15sec-30sec'], [60000, '30sec-1min'], [120000, '1min-2min'], [300000, '2min-5min']
+];
+
+interface DemoSession {
+  sessionId: string;
+  userId: string;
+  browser: string;
+  city: string;
+  country: string;
+}
+
+interface DemoOperation {
+  operationId: string;
+  operationName: string;
+  session: DemoSession;
+}
+
+interface DemoCallResult {
+  duration: number;
+  success: boolean;
+  resultCode: string;
+}
+
+/**
+ * Generate the telemetry tables. Throws an Error when the options are invalid.
+ */
+export function generateDemoData(options: DemoDataOptions): QueryTable[] {
+  return new DemoDataGenerator(options).generate();
+}
+
+/**
+ * Parse an --incident option: comma-separated key=value pairs, the kind may be given alone first,
+ * e.g. "latency-spike,service=orders-api,at=3h,duration=30m,factor=8". `at` is a date/time or a
+ * duration before the end of the generated range; an incident without it starts mid-range.
+ */
+export function parseDemoIncident(spec: string, range: { start: Date; end: Date }): DemoIncident {
+  const values: Record<string, string> = {};
+  spec.split(',').map(part => part.trim()).filter(Boolean).forEach((part, index) => {
+    const separator = part.indexOf('=');
+    if (separator < 0 && index === 0) {
+      values.kind = part;
+    } else if (separator > 0) {
+      values[part.slice(0, separator).trim()] = part.slice(separator + 1).trim();
+    } else {
+      throw new Error(`Invalid incident setting '${part}': expected key=value`);
+    }
+  });
+
+  const unknown = Object.keys(values).filter(key => !['kind', 'service', 'at', 'duration', 'factor', 'errorRate', 'exception'].includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown incident setting '${unknown[0]}'`);
+  }
+
+  const kind = values.kind as DemoIncidentKind;
+  if (!DEMO_INCIDENT_KINDS.includes(kind)) {
+    throw new Error(`Incident kind must be one of ${DEMO_INCIDENT_KINDS.join(', ')}`);
+  }
+
+  const durationMs = values.duration === undefined ? DEFAULT_INCIDENT_DURATION_MS : parseDuration(values.duration);
+  if (durationMs === undefined) {
+    throw new Error(`Invalid incident duration '${values.duration}'`);
+  }
+
+  let start = new Date((range.start.getTime() + range.end.getTime() - durationMs) / 2);
+  if (values.at !== undefined) {
+    const ago = parseDuration(values.at);
+    start = ago !== undefined ? new Date(range.end.getTime() - ago) : new Date(values.at);
+    if (isNaN(start.getTime())) {
+      throw new Error(`Invalid incident start '${values.at}': expected a date/time or a duration before the end`);
+    }
+  }
+
+  const incident: DemoIncident = { kind, start, durationMs };
+  if (values.service) {
+    incident.service = values.service;
+  }
+  if (values.factor !== undefined) {
+    incident.factor = readNumber(values.factor, 'factor', 1);
+  }
+  if (values.errorRate !== undefined) {
+    incident.errorRate = readNumber(values.errorRate, 'errorRate', 0, 1);
+  }
+  if (values.exception) {
+    incident.exceptionType = values.exception;
+  }
+  return incident;
+}
+
+/**
+ * Write one file per table into the directory, in a format the local-files data source reads.
+ * CSV headers and JSON files declare the column types; NDJSON leaves them to inference.
+ * Returns the paths of the written files.
+ */
+export function writeDemoData(tables: QueryTable[], directory: string, format: DemoDataFormat): string[] {
+  fs.mkdirSync(directory, { recursive: true });
+  return tables.map(table => {
+    const filePath = path.join(directory, `${table.name}.${format}`);
+    fs.writeFileSync(filePath, formatTable(table, format), 'utf-8');
+    return filePath;
+  });
+}
+
+function formatTable(table: QueryTable, format: DemoDataFormat): string {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify({ tables: [table] })}\n`;
+    case 'ndjson':
+      return table.rows
+        .map(row => JSON.stringify(Object.fromEntries(table.columns.map((column, index) => [column.name, row[index]]))))
+        .map(line => `${line}\n`)
+        .join('');
+    case 'csv': {
+      const header = table.columns.map(column => escapeCsvField(`${column.name}:${column.type}`)).join(',');
+      const lines = table.rows.map(row => row.map(cell => escapeCsvField(formatCsvCell(cell))).join(','));
+      return [header, ...lines].map(line => `${line}\n`).join('');
+    }
+  }
+}
+
+function formatCsvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function escapeCsvField(field: string): string {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+function readNumber(value: string, name: string, minimum: number, maximum = Infinity): number {
+  const number = Number(value);
+  if (value.trim() === '' || isNaN(number) || number < minimum || number > maximum) {
+    throw new Error(`Incident ${name} must be a number ${maximum === Infinity ? `of at least ${minimum}` : `between ${minimum} and ${maximum}`}`);
+  }
+  return number;
+}
+
+class DemoDataGenerator {
+  private random: () => number;
+  private records: Record<DemoTableName, DemoRecord[]> = {
+    requests: [], dependencies: [], exceptions: [], traces: [], pageViews: [], customEvents: []
+  };
+  private services: string[];
+  private operationsPerMinute: number;
+  private errorRate: number;
+  private latencyDistribution: DemoLatencyDistribution;
+  private latencyMedianMs: number;
+  private incidents: DemoIncident[];
+
+  constructor(private options: DemoDataOptions) {
+    this.services = options.services ?? DEMO_SERVICES;
+    this.operationsPerMinute = options.operationsPerMinute ?? 10;
+    this.errorRate = options.errorRate ?? 0.02;
+    this.latencyDistribution = options.latencyDistribution ?? 'lognormal';
+    this.latencyMedianMs = options.latencyMedianMs ?? 60;
+    this.incidents = options.incidents ?? [];
+    this.random = createRandom(options.seed ?? Date.now());
+    this.validate();
+  }
+
+  generate(): QueryTable[] {
+    const { start, end } = this.options;
+    const window = end.getTime() - start.getTime();
+    const count = Math.round(this.operationsPerMinute * window / 60000);
+    if (count > MAX_DEMO_OPERATIONS) {
+      throw new Error(`${count} operations is more than ${MAX_DEMO_OPERATIONS}: lower the rate or shorten the time range`);
+    }
+
+    const sessions = Array.from({ length: Math.max(1, Math.ceil(count / 12)) }, () => this.createSession());
+    const times = Array.from({ length: count }, () => this.sampleTime(start.getTime(), window)).sort((a, b) => a - b);
+    times.forEach(time => this.generateOperation(time, this.pick(sessions)));
+
+    return (Object.keys(TABLE_COLUMNS) as DemoTableName[]).map(name => this.toTable(name));
+  }
+
+  private validate(): void {
+    const { start, end } = this.options;
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+      throw new Error('The time range must end after it starts');
+    }
+    if (this.services.length === 0 || this.services.some(service => !/^[A-Za-z0-9][\w.-]*$/.test(service))) {
+      throw new Error('Services must be one or more names of letters, digits, dots, dashes and underscores');
+    }
+    if (new Set(this.services).size !== this.services.length) {
+      throw new Error('Service names must be unique');
+    }
+    if (!(this.operationsPerMinute > 0)) {
+      throw new Error('The rate of operations must be positive');
+    }
+    if (!(this.errorRate >= 0 && this.errorRate <= 1)) {
+      throw new Error('The error rate must be between 0 and 1');
+    }
+    if (!DEMO_LATENCY_DISTRIBUTIONS.includes(this.latencyDistribution)) {
+      throw new Error(`The latency distribution must be one of ${DEMO_LATENCY_DISTRIBUTIONS.join(', ')}`);
+    }
+    if (!(this.latencyMedianMs > 0)) {
+      throw new Error('The latency median must be positive');
+    }
+    for (const incident of this.incidents) {
+      if (incident.service && !this.services.includes(incident.service)) {
+        throw new Error(`Incident service '${incident.service}' is not one of ${this.services.join(', ')}`);
+      }
+    }
+  }
+
+  /**
+   * Start of an operation; traffic follows a daily cycle peaking at noon UTC
+   */
+  private sampleTime(start: number, window: number): number {
+    for (;;) {
+      const time = start + this.random() * window;
+      const hour = (time / 3600000) % 24;
+      if (this.random() < 0.6 + 0.4 * Math.sin((hour - 6) / 24 * 2 * Math.PI)) {
+        return Math.floor(time);
+      }
+    }
+  }
+
+  private createSession(): DemoSession {
+    const [city, country] = this.pick(LOCATIONS);
+    return {
+      sessionId: this.randomId(22),
+      userId: this.randomId(22),
+      browser: this.pick(BROWSERS),
+      city,
+      country
+    };
+  }
+
+  private generateOperation(time: number, session: DemoSession): void {
+    const page = this.pick(PAGES);
+    const frontend = this.services[0];
+    const operation: DemoOperation = { operationId: this.randomId(32), operationName: `${page.method} ${page.path}`, session };
+    const pageViewId = this.randomId(16);
+
+    const result = this.handleRequest(frontend, `${page.method} ${page.path}`, pageViewId, time + this.randomInt(20, 120), operation);
+    const clientTime = this.sampleLatency(400, 'lognormal');
+    const duration = round(result.duration + clientTime);
+
+    this.add('pageViews', {
+      timestamp: time,
+      id: pageViewId,
+      name: page.name,
+      url: `https://${frontend}.example.com${page.path}`,
+      duration,
+      performanceBucket: performanceBucket(duration),
+      itemType: 'pageView',
+      operation_Name: page.name,
+      operation_Id: operation.operationId,
+      operation_ParentId: operation.operationId,
+      cloud_RoleName: frontend,
+      client_Browser: session.browser,
+      client_City: session.city,
+      client_CountryOrRegion: session.country
+    }, operation, 'Browser');
+
+    if (page.event && result.success) {
+      const dimensions: Record<string, unknown> = { page: page.name };
+      const measurements: Record<string, number> = {};
+      if (page.event === 'CheckoutCompleted') {
+        measurements.orderValue = round(this.sampleLatency(80, 'lognormal'));
+        measurements.itemCount = this.randomInt(1, 6);
+      } else {
+        dimensions.productId = this.pick(PRODUCTS);
+      }
+      this.add('customEvents', {
+        timestamp: time + Math.round(duration),
+        name: page.event,
+        customDimensions: dimensions,
+        customMeasurements: Object.keys(measurements).length > 0 ? measurements : null,
+        itemType: 'customEvent',
+        operation_Name: page.name,
+        operation_Id: operation.operationId,
+        operation_ParentId: pageViewId,
+        cloud_RoleName: frontend
+      }, operation, 'Browser');
+    }
+  }
+
+  /**
+   * Request of a service with the dependencies it calls; the frontend calls one or two of the
+   * other services (all of them on checkout), the others call the database
+   */
+  private handleRequest(service: string, name: string, parentId: string, time: number, operation: DemoOperation): DemoCallResult {
+    const id = this.randomId(16);
+    const instance = `${service}-${this.randomInt(0, 1)}`;
+    const context = {
+      operation_Name: operation.operationName,
+      operation_Id: operation.operationId,
+      cloud_RoleName: service,
+      cloud_RoleInstance: instance
+    };
+    const resource = service.replace(/[-_.]?(api|service|svc)$/i, '') || service;
+    const { factor, errorRate, exceptionType } = this.conditionsAt(service, time);
+
+    let ownFailure: string | undefined;
+    if (this.random() < errorRate) {
+      ownFailure = exceptionType ?? this.pick(FAILURE_EXCEPTIONS);
+    }
+
+    this.add('traces', {
+      timestamp: time,
+      message: `Executing ${name}`,
+      severityLevel: 1,
+      customDimensions: { CategoryName: `${pascalCase(resource)}Controller` },
+      itemType: 'trace',
+      operation_ParentId: id,
+      ...context
+    });
+
+    let elapsed = this.sampleLatency(this.latencyMedianMs) * factor / 2;
+    let failedDependency = false;
+
+    const downstream = this.services.slice(1);
+    const callees = service !== this.services[0] || downstream.length === 0 ? []
+      : name.startsWith('POST') ? downstream
+        : this.shuffle(downstream).slice(0, this.randomInt(1, Math.min(2, downstream.length)));
+
+    for (const callee of callees) {
+      const dependencyId = this.randomId(16);
+      const method = name.startsWith('POST') ? 'POST' : 'GET';
+      const calleeResource = callee.replace(/[-_.]?(api|service|svc)$/i, '') || callee;
+      const route = `${method} /api/${calleeResource}${method === 'GET' && this.random() < 0.5 ? '/{id}' : ''}`;
+      const dependencyTime = time + Math.round(elapsed);
+      const network = this.sampleLatency(3, 'lognormal');
+      const result = this.handleRequest(callee, route, dependencyId, dependencyTime + Math.round(network / 2), operation);
+      const duration = round(result.duration + network);
+
+      this.add('dependencies', {
+        timestamp: dependencyTime,
+        id: dependencyId,
+        target: `${callee}.internal`,
+        type: 'HTTP',
+        name: route,
+        data: `http://${callee}.internal${route.slice(method.length + 1).replace('{id}', String(this.randomInt(1000, 9999)))}`,
+        success: result.success,
+        resultCode: result.resultCode,
+        duration,
+        performanceBucket: performanceBucket(duration),
+        itemType: 'remotedependency',
+        operation_ParentId: id,
+        ...context
+      });
+
+      elapsed += duration;
+      failedDependency = failedDependency || !result.success;
+    }
+
+    if (callees.length === 0) {
+      const dependencyId = this.randomId(16);
+      const sqlFailure = ownFailure === SQL_EXCEPTION;
+      const duration = round(this.sampleLatency(this.latencyMedianMs / 4) * factor);
+      const table = pascalCase(resource);
+
+      this.add('dependencies', {
+        timestamp: time + Math.round(elapsed),
+        id: dependencyId,
+        target: 'sql-demo.database.windows.net | demo',
+        type: 'SQL',
+        name: `sql-demo.database.windows.net | demo`,
+        data: name.startsWith('POST') ? `INSERT INTO ${table} VALUES (@p0, @p1, @p2)` : `SELECT * FROM ${table} WHERE Id = @p0`,
+        success: !sqlFailure,
+        resultCode: sqlFailure ? '1205' : '0',
+        duration,
+        performanceBucket: performanceBucket(duration),
+        itemType: 'remotedependency',
+        operation_ParentId: id,
+        ...context
+      });
+
+      elapsed += duration;
+    }
+
+    elapsed += this.sampleLatency(this.latencyMedianMs) * factor / 2;
+    const duration = round(elapsed);
+    const failure = ownFailure ?? (failedDependency ? HTTP_EXCEPTION : undefined);
+    const success = failure === undefined;
+    const resultCode = success ? (name.startsWith('POST') ? '201' : '200') : (failure === 'System.TimeoutException' ? '504' : '500');
+
+    if (failure) {
+      const message = EXCEPTION_MESSAGES[failure] ?? `Exception of type '${failure}' was thrown.`;
+      const method = `${pascalCase(resource)}.Controllers.${pascalCase(resource)}Controller.${name.startsWith('POST') ? 'Create' : 'Get'}`;
+      this.add('exceptions', {
+        timestamp: time + Math.round(elapsed) - 1,
+        problemId: `${failure} at ${method}`,
+        type: failure,
+        method,
+        outerType: failure,
+        outerMessage: message,
+        innermostType: failure,
+        innermostMessage: message,
+        severityLevel: 3,
+        itemType: 'exception',
+        operation_ParentId: id,
+        ...context
+      });
+      this.add('traces', {
+        timestamp: time + Math.round(elapsed) - 1,
+        message: `Request ${name} failed: ${message}`,
+        severityLevel: 3,
+        customDimensions: { CategoryName: `${pascalCase(resource)}Controller` },
+        itemType: 'trace',
+        operation_ParentId: id,
+        ...context
+      });
+    }
+
+    const pathName = name.slice(name.indexOf(' ') + 1).replace('{id}', String(this.randomInt(1000, 9999)));
+    this.add('requests', {
+      timestamp: time,
+      id,
+      name,
+      url: service === this.services[0] ? `https://${service}.example.com${pathName}` : `http://${service}.internal${pathName}`,
+      success,
+      resultCode,
+      duration,
+      performanceBucket: performanceBucket(duration),
+      customDimensions: { TenantId: this.pick(TENANTS) },
+      itemType: 'request',
+      operation_ParentId: parentId,
+      ...context
+    }, service === this.services[0] ? operation : undefined, 'PC');
+
+    return { duration, success, resultCode };
+  }
+
+  /**
+   * Latency factor and failure conditions of a service, with the incidents active at the time
+   */
+  private conditionsAt(service: string, time: number): { factor: number; errorRate: number; exceptionType?: string } {
+    let factor = 1;
+    let errorRate = this.errorRate;
+    let exceptionType: string | undefined;
+    for (const incident of this.incidents) {
+      const start = incident.start.getTime();
+      if (time < start || time >= start + incident.durationMs || (incident.service && incident.service !== service)) {
+        continue;
+      }
+      if (incident.kind === 'latency-spike') {
+        factor *= incident.factor ?? 5;
+      } else if ((incident.errorRate ?? 0.5) >= errorRate) {
+        errorRate = incident.errorRate ?? 0.5;
+        exceptionType = incident.exceptionType ?? 'System.TimeoutException';
+      }
+    }
+    return { factor, errorRate, exceptionType };
+  }
+
+  private add(table: DemoTableName, record: DemoRecord, operation?: DemoOperation, clientType?: string): void {
+    if (operation) {
+      record.session_Id = operation.session.sessionId;
+      record.user_Id = operation.session.userId;
+      record.client_Type = clientType;
+    }
+    this.records[table].push(record);
+  }
+
+  private toTable(name: DemoTableName): QueryTable {
+    const columns: QueryColumn[] = TABLE_COLUMNS[name].map(([column, type]) => ({ name: column, type }));
+    const records = this.records[name].sort((a, b) => (a.timestamp as number) - (b.timestamp as number));
+    return {
+      name,
+      columns,
+      rows: records.map(record => columns.map(({ name: column }) => {
+        const value = record[column];
+        if (column === 'timestamp') {
+          return new Date(value as number).toISOString();
+        }
+        return value === undefined ? null : value;
+      }))
+    };
+  }
+
+  /**
+   * Sample of the latency distribution with the given median, in milliseconds
+   */
+  private sampleLatency(median: number, distribution: DemoLatencyDistribution = this.latencyDistribution): number {
+    switch (distribution) {
+      case 'lognormal':
+        return median * Math.exp(0.5 * this.standardNormal());
+      case 'normal':
+        return Math.max(median * 0.05, median * (1 + 0.25 * this.standardNormal()));
+      case 'exponential':
+        return -median / Math.LN2 * Math.log(1 - this.random());
+    }
+  }
+
+  private standardNormal(): number {
+    return Math.sqrt(-2 * Math.log(1 - this.random())) * Math.cos(2 * Math.PI * this.random());
+  }
+
+  private randomInt(minimum: number, maximum: number): number {
+    return minimum + Math.floor(this.random() * (maximum - minimum + 1));
+  }
+
+  private randomId(length: number): string {
+    let id = '';
+    while (id.length < length) {
+      id += Math.floor(this.random() * 0x100000000).toString(16).padStart(8, '0');
+    }
+    return id.slice(0, length);
+  }
+
+  private pick<T>(values: T[]): T {
+    return values[Math.floor(this.random() * values.length)];
+  }
+
+  private shuffle<T>(values: T[]): T[] {
+    const shuffled = [...values];
+    for (let index = shuffled.length - 1; index > 0; index--) {
+      const other = Math.floor(this.random() * (index + 1));
+      [shuffled[index], shuffled[other]] = [shuffled[other], shuffled[index]];
+    }
+    return shuffled;
+  }
+}
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function performanceBucket(duration: number): string {
+  return PERFORMANCE_BUCKETS.find(([limit]) => duration < limit)?.[1] ?? '>=5min';
+}
+
+function pascalCase(value: string): string {
+  return value.split(/[-_.\s]+/).filter(Boolean).map(part => part[0].toUpperCase() + part.slice(1)).join('');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
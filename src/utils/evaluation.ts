@@ -0,0 +1,302 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { QueryTable } from '../types';
+
+/**
+ * Evaluation suites benchmark natural language to KQL generation: each case is a question with
+ * the KQL or the result set it should lead to. Runs score the queries a provider generates for
+ * syntax validity, result equivalence, confidence calibration and latency, and reports compare
+ * runs across providers, models and earlier reports (e.g. before a prompt change).
+ */
+
+export interface EvaluationExpectedResult {
+  columns?: string[]; // Matched by name when the generated query returns all of them, by position otherwise
+  rows: unknown[][];
+}
+
+export interface EvaluationCase {
+  id: string;
+  question: string;
+  expectedKql?: string; // Run against the data source to get the expected result set
+  expectedResult?: EvaluationExpectedResult;
+  ordered?: boolean; // Compare rows in order (default: as a set)
+}
+
+export interface EvaluationSuite {
+  name: string;
+  description?: string;
+  since?: string; // Time range the queries run over, e.g. 7d, unless given on the command line
+  cases: EvaluationCase[];
+}
+
+export interface EvaluationCaseResult {
+  id: string;
+  question: string;
+  generatedKql?: string;
+  confidence?: number;
+  syntaxValid: boolean;
+  executed: boolean;
+  correct: boolean; // The generated query returned the expected result set
+  reason?: string; // Why the case failed
+  generationMs?: number;
+  executionMs?: number;
+}
+
+export interface EvaluationLatency {
+  meanMs: number;
+  p50Ms: number;
+  p95Ms: number;
+}
+
+export interface EvaluationRunSummary {
+  cases: number;
+  syntaxValidity: number; // Share of cases whose query parses
+  executionRate: number; // Share of cases whose query ran
+  accuracy: number; // Share of cases returning the expected result set
+  meanConfidence?: number;
+  brierScore?: number; // Mean squared gap between confidence and correctness, 0 is perfect calibration
+  overconfidence?: number; // Mean confidence minus accuracy of the generated queries
+  latency: EvaluationLatency; // Of query generation
+}
+
+export interface EvaluationRun {
+  provider: string; // Id of the configured AI provider
+  type: string;
+  model?: string;
+  promptHash: string; // Fingerprint of the system prompt, to tell prompt versions apart
+  summary: EvaluationRunSummary;
+  cases: EvaluationCaseResult[];
+}
+
+export interface EvaluationReport {
+  version: number;
+  suite: string;
+  createdAt: string;
+  dataSourceType: string;
+  timespan?: string;
+  runs: EvaluationRun[];
+}
+
+export interface EvaluationRunComparison {
+  label: string;
+  accuracyDelta: number;
+  syntaxValidityDelta: number;
+  brierScoreDelta?: number;
+  p50LatencyDeltaMs: number;
+  regressions: string[]; // Cases the baseline answered correctly and this run does not
+  fixes: string[]; // Cases this run answers correctly and the baseline did not
+}
+
+export const EVALUATION_REPORT_VERSION = 1;
+
+/**
+ * Load and check a suite file (JSON). Cases without an id are numbered.
+ */
+export function loadEvaluationSuite(filePath: string): EvaluationSuite {
+  let suite: EvaluationSuite;
+  try {
+    suite = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read evaluation suite ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!suite || !Array.isArray(suite.cases) || suite.cases.length === 0) {
+    throw new Error(`Evaluation suite ${filePath} must contain a non-empty cases array`);
+  }
+
+  const ids = new Set<string>();
+  const cases = suite.cases.map((testCase, index) => {
+    const id = testCase?.id ?? String(index + 1);
+    if (!testCase || typeof testCase.question !== 'string' || testCase.question.trim() === '') {
+      throw new Error(`Case ${id} of ${filePath} has no question`);
+    }
+    if (testCase.expectedKql === undefined && testCase.expectedResult === undefined) {
+      throw new Error(`Case ${id} of ${filePath} needs an expectedKql or an expectedResult`);
+    }
+    if (testCase.expectedResult !== undefined && !Array.isArray(testCase.expectedResult.rows)) {
+      throw new Error(`The expectedResult of case ${id} of ${filePath} must have a rows array`);
+    }
+    if (ids.has(id)) {
+      throw new Error(`Case id ${id} appears more than once in ${filePath}`);
+    }
+    ids.add(id);
+    return { ...testCase, id };
+  });
+
+  return { ...suite, name: suite.name || path.basename(filePath, path.extname(filePath)), cases };
+}
+
+/**
+ * Compare a result table with the expected result set. Numbers are equal when they agree to
+ * 9 significant digits, so that averages computed in a different order still match.
+ */
+export function compareQueryResults(
+  actual: QueryTable | undefined,
+  expected: EvaluationExpectedResult,
+  ordered = false
+): { equivalent: boolean; reason?: string } {
+  const actualColumns = actual?.columns.map(column => column.name) ?? [];
+  const actualRows = actual?.rows ?? [];
+  const expectedWidth = expected.columns?.length ?? expected.rows[0]?.length ?? actualColumns.length;
+
+  // Columns may be named differently, e.g. count_ and Requests, so names only pick the order
+  const byName = expected.columns?.map(name => actualColumns.findIndex(column => column.toLowerCase() === name.toLowerCase()));
+  const indexes = byName && byName.every(index => index >= 0) ? byName : undefined;
+  if (!indexes && actualColumns.length !== expectedWidth && actualRows.length > 0) {
+    return { equivalent: false, reason: `Expected ${expectedWidth} columns, got ${actualColumns.length}` };
+  }
+  if (actualRows.length !== expected.rows.length) {
+    return { equivalent: false, reason: `Expected ${expected.rows.length} rows, got ${actualRows.length}` };
+  }
+
+  const actualKeys = actualRows.map(row => rowKey(indexes ? indexes.map(index => row[index]) : row));
+  const expectedKeys = expected.rows.map(rowKey);
+  if (!ordered) {
+    actualKeys.sort();
+    expectedKeys.sort();
+  }
+  const differing = expectedKeys.filter((key, index) => key !== actualKeys[index]).length;
+  return differing === 0
+    ? { equivalent: true }
+    : { equivalent: false, reason: `${differing} of ${expectedKeys.length} rows differ${ordered ? ' or are out of order' : ''}` };
+}
+
+/**
+ * Scores of the case results of a run
+ */
+export function summarizeEvaluationRun(cases: EvaluationCaseResult[]): EvaluationRunSummary {
+  const share = (count: number) => cases.length > 0 ? count / cases.length : 0;
+  const generated = cases.filter(result => result.confidence !== undefined);
+  const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+
+  const meanConfidence = mean(generated.map(result => result.confidence!));
+  return {
+    cases: cases.length,
+    syntaxValidity: share(cases.filter(result => result.syntaxValid).length),
+    executionRate: share(cases.filter(result => result.executed).length),
+    accuracy: share(cases.filter(result => result.correct).length),
+    meanConfidence,
+    brierScore: mean(generated.map(result => (result.confidence! - (result.correct ? 1 : 0)) ** 2)),
+    overconfidence: meanConfidence !== undefined
+      ? meanConfidence - mean(generated.map(result => result.correct ? 1 : 0))!
+      : undefined,
+    latency: summarizeLatency(cases.map(result => result.generationMs).filter((ms): ms is number => ms !== undefined))
+  };
+}
+
+/**
+ * Compare the runs of a report with the runs of a baseline report for the same providers and models
+ */
+export function compareEvaluationReports(report: EvaluationReport, baseline: EvaluationReport): EvaluationRunComparison[] {
+  return report.runs.flatMap(run => {
+    const previous = baseline.runs.find(candidate => runLabel(candidate.provider, candidate.model) === runLabel(run.provider, run.model));
+    if (!previous) {
+      return [];
+    }
+    const correct = (results: EvaluationCaseResult[]) => new Set(results.filter(result => result.correct).map(result => result.id));
+    const now = correct(run.cases);
+    const before = correct(previous.cases);
+    const ids = run.cases.map(result => result.id).filter(id => previous.cases.some(result => result.id === id));
+
+    return [{
+      label: runLabel(run.provider, run.model),
+      accuracyDelta: run.summary.accuracy - previous.summary.accuracy,
+      syntaxValidityDelta: run.summary.syntaxValidity - previous.summary.syntaxValidity,
+      brierScoreDelta: run.summary.brierScore !== undefined && previous.summary.brierScore !== undefined
+        ? run.summary.brierScore - previous.summary.brierScore
+        : undefined,
+      p50LatencyDeltaMs: run.summary.latency.p50Ms - previous.summary.latency.p50Ms,
+      regressions: ids.filter(id => before.has(id) && !now.has(id)),
+      fixes: ids.filter(id => !before.has(id) && now.has(id))
+    }];
+  });
+}
+
+/**
+ * Provider and model of a run, e.g. "ollama (llama3.1:8b)"
+ */
+export function runLabel(provider: string, model?: string): string {
+  return model ? `${provider} (${model})` : provider;
+}
+
+/**
+ * Markdown comparison of the runs of a report, with the changes since a baseline report
+ */
+export function formatEvaluationReportMarkdown(report: EvaluationReport, comparisons: EvaluationRunComparison[] = []): string {
+  const lines = [
+    `# Evaluation: ${report.suite}`,
+    '',
+    `${report.createdAt} · ${report.dataSourceType}${report.timespan ? ` · ${report.timespan}` : ''}`,
+    '',
+    '| Provider | Prompt | Accuracy | Syntax valid | Executed | Confidence | Brier score | Overconfidence | Latency p50 | Latency p95 |',
+    '|----------|--------|----------|--------------|----------|------------|-------------|----------------|-------------|-------------|',
+    ...report.runs.map(run => {
+      const summary = run.summary;
+      return `| ${runLabel(run.provider, run.model)} | ${run.promptHash} | ${percent(summary.accuracy)} | ${percent(summary.syntaxValidity)} | ${percent(summary.executionRate)} | ` +
+        `${optional(summary.meanConfidence, percent)} | ${optional(summary.brierScore, value => value.toFixed(3))} | ` +
+        `${optional(summary.overconfidence, signedPercent)} | ${summary.latency.p50Ms} ms | ${summary.latency.p95Ms} ms |`;
+    })
+  ];
+
+  if (comparisons.length > 0) {
+    lines.push('', '## Changes since the baseline', '');
+    lines.push('| Provider | Accuracy | Syntax valid | Brier score | Latency p50 | Regressions | Fixes |');
+    lines.push('|----------|----------|--------------|-------------|-------------|-------------|-------|');
+    for (const comparison of comparisons) {
+      lines.push(`| ${comparison.label} | ${signedPercent(comparison.accuracyDelta)} | ${signedPercent(comparison.syntaxValidityDelta)} | ` +
+        `${optional(comparison.brierScoreDelta, value => `${value >= 0 ? '+' : ''}${value.toFixed(3)}`)} | ` +
+        `${comparison.p50LatencyDeltaMs >= 0 ? '+' : ''}${comparison.p50LatencyDeltaMs} ms | ` +
+        `${comparison.regressions.join(', ') || '-'} | ${comparison.fixes.join(', ') || '-'} |`);
+    }
+  }
+
+  for (const run of report.runs) {
+    const failures = run.cases.filter(result => !result.correct);
+    if (failures.length === 0) {
+      continue;
+    }
+    lines.push('', `## Failed cases: ${runLabel(run.provider, run.model)}`, '');
+    for (const failure of failures) {
+      lines.push(`- **${failure.id}** ${failure.question}: ${failure.reason ?? 'incorrect result'}`);
+      if (failure.generatedKql) {
+        lines.push(`  \`${failure.generatedKql.replace(/\s*\n\s*/g, ' ')}\``);
+      }
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function summarizeLatency(values: number[]): EvaluationLatency {
+  if (values.length === 0) {
+    return { meanMs: 0, p50Ms: 0, p95Ms: 0 };
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  // Nearest-rank percentiles
+  const percentile = (p: number) => sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+  return {
+    meanMs: Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    p50Ms: percentile(50),
+    p95Ms: percentile(95)
+  };
+}
+
+function rowKey(row: unknown[]): string {
+  return JSON.stringify(row.map(value => {
+    if (typeof value === 'number') {
+      return Number(value.toPrecision(9));
+    }
+    return value === undefined ? null : value;
+  }));
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function signedPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${percent(value)}`;
+}
+
+function optional(value: number | undefined, format: (value: number) => string): string {
+  return value === undefined ? '-' : format(value);
+}
@@ -0,0 +1,354 @@
+/**
+ * Syntax tree produced by the KQL parser.
+ * Every node records the source range it was parsed from (start inclusive, end exclusive).
+ */
+
+export interface KqlNodeRange {
+  start: number;
+  end: number;
+}
+
+// ----- Scalar expressions -----
+
+export type KqlLiteralType = 'string' | 'long' | 'real' | 'bool' | 'timespan' | 'datetime' | 'guid' | 'dynamic' | 'null';
+
+export interface KqlLiteral extends KqlNodeRange {
+  kind: 'Literal';
+  literalType: KqlLiteralType;
+  value: unknown; // Decoded value: string, number, boolean, milliseconds for timespans, ISO text for datetimes
+  raw: string;
+}
+
+export interface KqlNameReference extends KqlNodeRange {
+  kind: 'Name';
+  name: string;
+  bracketed?: boolean; // Written as ['name']
+}
+
+export interface KqlWildcard extends KqlNodeRange {
+  kind: 'Wildcard';
+  pattern: string; // e.g. "*" or "custom*"
+}
+
+export interface KqlBinaryExpression extends KqlNodeRange {
+  kind: 'Binary';
+  operator: string;
+  left: KqlExpression;
+  right: KqlExpression;
+}
+
+export interface KqlUnaryExpression extends KqlNodeRange {
+  kind: 'Unary';
+  operator: '-' | '+';
+  operand: KqlExpression;
+}
+
+export interface KqlCallExpression extends KqlNodeRange {
+  kind: 'Call';
+  name: string;
+  args: KqlExpression[];
+}
+
+export interface KqlMemberExpression extends KqlNodeRange {
+  kind: 'Member';
+  target: KqlExpression;
+  member: string;
+}
+
+export interface KqlIndexExpression extends KqlNodeRange {
+  kind: 'Index';
+  target: KqlExpression;
+  index: KqlExpression;
+}
+
+export interface KqlInExpression extends KqlNodeRange {
+  kind: 'In';
+  operator: 'in' | '!in' | 'in~' | '!in~' | 'has_any' | 'has_all';
+  operand: KqlExpression;
+  values: KqlExpression[];
+}
+
+export interface KqlBetweenExpression extends KqlNodeRange {
+  kind: 'Between';
+  negated: boolean;
+  operand: KqlExpression;
+  low: KqlExpression;
+  high: KqlExpression;
+}
+
+export interface KqlParenthesizedExpression extends KqlNodeRange {
+  kind: 'Parenthesized';
+  expression: KqlExpression;
+}
+
+/**
+ * A tabular expression used where a scalar is expected, e.g. toscalar(T | count)
+ */
+export interface KqlTabularSubquery extends KqlNodeRange {
+  kind: 'TabularSubquery';
+  pipeline: KqlPipeline;
+}
+
+export type KqlExpression =
+  | KqlLiteral
+  | KqlNameReference
+  | KqlWildcard
+  | KqlBinaryExpression
+  | KqlUnaryExpression
+  | KqlCallExpression
+  | KqlMemberExpression
+  | KqlIndexExpression
+  | KqlInExpression
+  | KqlBetweenExpression
+  | KqlParenthesizedExpression
+  | KqlTabularSubquery;
+
+/**
+ * Expression with an optional output column name: `Name = expr`
+ */
+export interface KqlNamedExpression extends KqlNodeRange {
+  name?: string;
+  expression: KqlExpression;
+  type?: string; // mv-expand 'to typeof(type)'
+}
+
+/**
+ * Operator option such as kind=inner, hint.strategy=shuffle or withsource=Table
+ */
+export interface KqlOperatorOption extends KqlNodeRange {
+  name: string;
+  value: string;
+}
+
+export interface KqlSortItem extends KqlNodeRange {
+  expression: KqlExpression;
+  direction?: 'asc' | 'desc';
+  nulls?: 'first' | 'last';
+}
+
+// ----- Tabular operators -----
+
+interface KqlOperatorBase extends KqlNodeRange {
+  name: string; // Operator as written, e.g. "where", "project-away", "order"
+}
+
+export interface KqlWhereOperator extends KqlOperatorBase {
+  kind: 'Where';
+  predicate: KqlExpression;
+}
+
+export interface KqlProjectOperator extends KqlOperatorBase {
+  kind: 'Project';
+  columns: KqlNamedExpression[];
+}
+
+export interface KqlExtendOperator extends KqlOperatorBase {
+  kind: 'Extend';
+  columns: KqlNamedExpression[];
+}
+
+export interface KqlSummarizeOperator extends KqlOperatorBase {
+  kind: 'Summarize';
+  options: KqlOperatorOption[];
+  aggregates: KqlNamedExpression[];
+  by: KqlNamedExpression[];
+}
+
+export interface KqlSortOperator extends KqlOperatorBase {
+  kind: 'Sort';
+  items: KqlSortItem[];
+}
+
+export interface KqlTopOperator extends KqlOperatorBase {
+  kind: 'Top';
+  count: KqlExpression;
+  items: KqlSortItem[];
+}
+
+export interface KqlTakeOperator extends KqlOperatorBase {
+  kind: 'Take';
+  count: KqlExpression;
+}
+
+export interface KqlCountOperator extends KqlOperatorBase {
+  kind: 'Count';
+}
+
+export interface KqlDistinctOperator extends KqlOperatorBase {
+  kind: 'Distinct';
+  columns: KqlNamedExpression[];
+}
+
+export interface KqlJoinOperator extends KqlOperatorBase {
+  kind: 'Join';
+  options: KqlOperatorOption[];
+  right: KqlPipeline;
+  on: KqlExpression[];
+}
+
+export interface KqlUnionOperator extends KqlOperatorBase {
+  kind: 'Union';
+  options: KqlOperatorOption[];
+  tables: KqlPipeline[];
+}
+
+export interface KqlMvExpandOperator extends KqlOperatorBase {
+  kind: 'MvExpand';
+  options: KqlOperatorOption[];
+  columns: KqlNamedExpression[];
+  limit?: KqlExpression;
+}
+
+export type KqlParsePatternPart =
+  | { kind: 'text'; value: string }
+  | { kind: 'wildcard' }
+  | { kind: 'column'; name: string; type?: string };
+
+export interface KqlParseOperator extends KqlOperatorBase {
+  kind: 'Parse';
+  options: KqlOperatorOption[];
+  source: KqlExpression;
+  pattern: KqlParsePatternPart[];
+}
+
+export interface KqlRenderOperator extends KqlOperatorBase {
+  kind: 'Render';
+  visualization: string;
+  properties: KqlNamedExpression[];
+}
+
+export interface KqlEvaluateOperator extends KqlOperatorBase {
+  kind: 'Evaluate';
+  options: KqlOperatorOption[];
+  plugin: KqlCallExpression;
+}
+
+export interface KqlAsOperator extends KqlOperatorBase {
+  kind: 'As';
+  alias: string;
+}
+
+export interface KqlSearchOperator extends KqlOperatorBase {
+  kind: 'Search';
+  options: KqlOperatorOption[];
+  tables: string[]; // Tables listed in `search in (...)`
+  predicate: KqlExpression;
+}
+
+export interface KqlPrintOperator extends KqlOperatorBase {
+  kind: 'Print';
+  columns: KqlNamedExpression[];
+}
+
+export interface KqlRangeOperator extends KqlOperatorBase {
+  kind: 'Range';
+  column: string;
+  from: KqlExpression;
+  to: KqlExpression;
+  step: KqlExpression;
+}
+
+export interface KqlDatatableOperator extends KqlOperatorBase {
+  kind: 'Datatable';
+  columns: Array<{ name: string; type: string }>;
+  values: KqlExpression[];
+}
+
+/**
+ * Operator whose arguments are checked for balanced brackets but not parsed in detail
+ * (make-series, getschema, serialize, sample, invoke, fork, ...)
+ */
+export interface KqlGenericOperator extends KqlOperatorBase {
+  kind: 'Generic';
+  text: string;
+}
+
+export type KqlOperator =
+  | KqlWhereOperator
+  | KqlProjectOperator
+  | KqlExtendOperator
+  | KqlSummarizeOperator
+  | KqlSortOperator
+  | KqlTopOperator
+  | KqlTakeOperator
+  | KqlCountOperator
+  | KqlDistinctOperator
+  | KqlJoinOperator
+  | KqlUnionOperator
+  | KqlMvExpandOperator
+  | KqlParseOperator
+  | KqlRenderOperator
+  | KqlEvaluateOperator
+  | KqlAsOperator
+  | KqlSearchOperator
+  | KqlPrintOperator
+  | KqlRangeOperator
+  | KqlDatatableOperator
+  | KqlGenericOperator;
+
+/**
+ * Operators that produce a table without input and so can start a pipeline
+ */
+export type KqlSourceOperator =
+  | KqlUnionOperator
+  | KqlSearchOperator
+  | KqlPrintOperator
+  | KqlRangeOperator
+  | KqlDatatableOperator;
+
+/**
+ * Tabular expression: a source followed by piped operators, e.g. `requests | where success == false | take 10`
+ */
+export interface KqlPipeline extends KqlNodeRange {
+  kind: 'Pipeline';
+  source: KqlExpression | KqlSourceOperator;
+  operators: KqlOperator[];
+}
+
+// ----- Statements -----
+
+export interface KqlFunctionParameter extends KqlNodeRange {
+  name: string;
+  type: string;
+  defaultValue?: KqlExpression;
+}
+
+export interface KqlFunctionDefinition extends KqlNodeRange {
+  kind: 'Function';
+  parameters: KqlFunctionParameter[];
+  body: KqlStatement[];
+  result?: KqlExpression; // Value of a scalar body such as { x * 2 }, which then ends with no query statement
+}
+
+export interface KqlLetStatement extends KqlNodeRange {
+  kind: 'Let';
+  name: string;
+  value: KqlExpression | KqlPipeline | KqlFunctionDefinition;
+}
+
+export interface KqlSetStatement extends KqlNodeRange {
+  kind: 'Set';
+  option: string;
+  value?: string;
+}
+
+export interface KqlQueryStatement extends KqlNodeRange {
+  kind: 'Query';
+  pipeline: KqlPipeline;
+}
+
+/**
+ * Control command such as `.show tables` or `.drop table T` (not allowed in queries)
+ */
+export interface KqlManagementCommand extends KqlNodeRange {
+  kind: 'ManagementCommand';
+  command: string; // e.g. ".drop" or "drop" when written without the leading dot
+  text: string;
+}
+
+export type KqlStatement = KqlLetStatement | KqlSetStatement | KqlQueryStatement | KqlManagementCommand;
+
+export interface KqlScript extends KqlNodeRange {
+  kind: 'Script';
+  statements: KqlStatement[];
+}
@@ -0,0 +1,269 @@
+import { KqlToken, tokenizeKql } from './tokenizer';
+
+/**
+ * Options for formatting KQL
+ */
+export interface KqlFormatOptions {
+  indentSize?: number; // Spaces per indentation level (default: 4)
+  maxLineLength?: number; // Longer summarize/project/extend stages get one item per line (default: 100)
+}
+
+/**
+ * Bracketed part of the token stream: ( ... ), [ ... ] or { ... }
+ */
+interface KqlTokenGroup {
+  open: KqlToken;
+  items: KqlFormatItem[];
+  close: KqlToken;
+}
+
+type KqlFormatItem = KqlToken | KqlTokenGroup;
+
+/**
+ * Operators whose comma-separated lists are split one item per line when the stage is too long
+ */
+const LIST_OPERATORS = new Set([
+  'project', 'project-away', 'project-keep', 'project-reorder', 'project-rename',
+  'extend', 'summarize', 'distinct', 'order', 'sort'
+]);
+
+const CLOSING_BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+/**
+ * Format a KQL query: every pipe stage on its own line, subqueries containing pipes
+ * (join, union, toscalar, function bodies, ...) indented on their own lines, pipes of
+ * let statements indented below the let, and long lists split one item per line.
+ * Comments and the text of every token are kept as written, so the result is
+ * deterministic and formatting it again returns the same text. Queries that cannot
+ * be tokenized (e.g. an unterminated string) are returned unchanged.
+ */
+export function formatKql(query: string, options: KqlFormatOptions = {}): string {
+  const { tokens, diagnostics } = tokenizeKql(query);
+  if (diagnostics.length > 0) {
+    return query;
+  }
+
+  const items = groupTokens(tokens.filter(token => token.kind !== 'eof'));
+  if (!items) {
+    return query;
+  }
+
+  const formatter = new KqlFormatter(options.indentSize ?? 4, options.maxLineLength ?? 100);
+  return formatter.formatSequence(items, 0);
+}
+
+/**
+ * Nest tokens by bracket; returns null when brackets do not balance
+ */
+function groupTokens(tokens: KqlToken[]): KqlFormatItem[] | null {
+  const root: KqlFormatItem[] = [];
+  const stack: Array<{ open: KqlToken; items: KqlFormatItem[] }> = [];
+
+  for (const token of tokens) {
+    const current = stack.length > 0 ? stack[stack.length - 1].items : root;
+    if (token.kind === 'punctuation' && CLOSING_BRACKETS[token.value]) {
+      stack.push({ open: token, items: [] });
+    } else if (token.kind === 'punctuation' && [')', ']', '}'].includes(token.value)) {
+      const group = stack.pop();
+      if (!group || CLOSING_BRACKETS[group.open.value] !== token.value) {
+        return null;
+      }
+      (stack.length > 0 ? stack[stack.length - 1].items : root).push({ open: group.open, items: group.items, close: token });
+    } else {
+      current.push(token);
+    }
+  }
+
+  return stack.length === 0 ? root : null;
+}
+
+function isGroup(item: KqlFormatItem): item is KqlTokenGroup {
+  return 'open' in item;
+}
+
+function firstToken(item: KqlFormatItem): KqlToken {
+  return isGroup(item) ? item.open : item;
+}
+
+function lastToken(item: KqlFormatItem): KqlToken {
+  return isGroup(item) ? item.close : item;
+}
+
+function isToken(item: KqlFormatItem | undefined, kind: KqlToken['kind'], value?: string): boolean {
+  return !!item && !isGroup(item) && item.kind === kind && (value === undefined || item.value === value);
+}
+
+function isPunctuation(item: KqlFormatItem | undefined, value: string): boolean {
+  return isToken(item, 'punctuation', value);
+}
+
+function endsWithComment(items: KqlFormatItem[]): boolean {
+  const last = items[items.length - 1];
+  return !!last && !isGroup(last) && last.kind === 'comment';
+}
+
+/**
+ * Split items at top-level separator tokens, dropping the separators
+ */
+function splitItems(items: KqlFormatItem[], separator: string): KqlFormatItem[][] {
+  const parts: KqlFormatItem[][] = [[]];
+  for (const item of items) {
+    if (isPunctuation(item, separator)) {
+      parts.push([]);
+    } else {
+      parts[parts.length - 1].push(item);
+    }
+  }
+  return parts;
+}
+
+class KqlFormatter {
+  constructor(private readonly indentSize: number, private readonly maxLineLength: number) {}
+
+  /**
+   * Statements separated by ';'. The first line is not indented (the caller positions it).
+   */
+  formatSequence(items: KqlFormatItem[], level: number): string {
+    const statements = splitItems(items, ';');
+    const lines: string[] = [];
+
+    statements.forEach((statement, index) => {
+      if (statement.length === 0) {
+        return;
+      }
+      let text = this.formatStatement(statement, level);
+      if (index < statements.length - 1) {
+        text += (endsWithComment(statement) ? `\n${this.indent(level)}` : '') + ';';
+      }
+      lines.push(text);
+    });
+
+    return lines.join(`\n${this.indent(level)}`);
+  }
+
+  private formatStatement(items: KqlFormatItem[], level: number): string {
+    const firstCode = items.find(item => isGroup(item) || item.kind !== 'comment');
+    const isLet = !!firstCode && !isGroup(firstCode) && firstCode.kind === 'identifier' && firstCode.value === 'let';
+    const pipeLevel = isLet ? level + 1 : level;
+
+    const stages = splitItems(items, '|');
+    let text = this.formatStage(stages[0], level);
+    for (const stage of stages.slice(1)) {
+      text += `${text ? `\n${this.indent(pipeLevel)}` : ''}| ${this.formatStage(stage, pipeLevel)}`;
+    }
+    return text;
+  }
+
+  private formatStage(items: KqlFormatItem[], level: number): string {
+    const text = this.formatInline(items, level);
+    if (text.includes('\n') || this.indent(level).length + 2 + text.length <= this.maxLineLength) {
+      return text;
+    }
+    return this.formatList(items, level) ?? text;
+  }
+
+  /**
+   * Items on one line, except for comments (which end the line) and groups containing pipes or statements
+   */
+  private formatInline(items: KqlFormatItem[], level: number): string {
+    let text = '';
+    let previous: KqlToken | null = null;
+
+    for (const item of items) {
+      const first = firstToken(item);
+      if (previous?.kind === 'comment') {
+        text += `\n${this.indent(level + 1)}`;
+      } else if (previous) {
+        text += this.spacing(previous, first);
+      }
+      text += isGroup(item) ? this.formatGroup(item, level) : item.value.trimEnd();
+      previous = lastToken(item);
+    }
+
+    return text;
+  }
+
+  private formatGroup(group: KqlTokenGroup, level: number): string {
+    const hasStages = group.open.value !== '[' &&
+      group.items.some(item => isPunctuation(item, '|') || isPunctuation(item, ';'));
+
+    if (hasStages) {
+      const inner = this.formatSequence(group.items, level + 1);
+      return `${group.open.value}\n${this.indent(level + 1)}${inner}\n${this.indent(level)}${group.close.value}`;
+    }
+
+    const inner = this.formatInline(group.items, level);
+    const beforeClose = endsWithComment(group.items) ? `\n${this.indent(level)}` : '';
+    return `${group.open.value}${inner}${beforeClose}${group.close.value}`;
+  }
+
+  /**
+   * One list item per line below the operator, e.g.
+   *   summarize
+   *       Requests = count(),
+   *       Failures = countif(success == false)
+   *       by name
+   */
+  private formatList(items: KqlFormatItem[], level: number): string | undefined {
+    if (items.some(item => !isGroup(item) && item.kind === 'comment')) {
+      return undefined;
+    }
+
+    // Operator names such as project-away are written as adjacent tokens
+    let headerLength = 1;
+    while (
+      isToken(items[headerLength], 'operator', '-') &&
+      isToken(items[headerLength + 1], 'identifier') &&
+      lastToken(items[headerLength - 1]).end === firstToken(items[headerLength]).start &&
+      lastToken(items[headerLength]).end === firstToken(items[headerLength + 1]).start
+    ) {
+      headerLength += 2;
+    }
+    if (!isToken(items[0], 'identifier')) {
+      return undefined;
+    }
+    const operator = items.slice(0, headerLength).map(item => firstToken(item).value).join('');
+    if (!LIST_OPERATORS.has(operator)) {
+      return undefined;
+    }
+    if ((operator === 'order' || operator === 'sort') && isToken(items[headerLength], 'identifier', 'by')) {
+      headerLength++;
+    }
+
+    const header = this.formatInline(items.slice(0, headerLength), level);
+    const rest = items.slice(headerLength);
+    const byIndex = operator === 'summarize'
+      ? rest.findIndex(item => isToken(item, 'identifier', 'by'))
+      : -1;
+    const listItems = byIndex >= 0 ? rest.slice(0, byIndex) : rest;
+    const itemIndent = this.indent(level + 1);
+
+    const lines = [header];
+    const parts = listItems.length > 0 ? splitItems(listItems, ',') : [];
+    parts.forEach((part, index) => {
+      lines.push(`${itemIndent}${this.formatInline(part, level + 1)}${index < parts.length - 1 ? ',' : ''}`);
+    });
+    if (byIndex >= 0) {
+      lines.push(`${itemIndent}${this.formatInline(rest.slice(byIndex), level + 1)}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  private spacing(previous: KqlToken, next: KqlToken): string {
+    if (next.kind === 'punctuation' && (next.value === ',' || next.value === ';')) {
+      return '';
+    }
+    if (previous.kind === 'punctuation' && ['(', '[', '{'].includes(previous.value)) {
+      return '';
+    }
+    if (previous.kind === 'punctuation' && previous.value === ',') {
+      return ' ';
+    }
+    return next.start === previous.end ? '' : ' ';
+  }
+
+  private indent(level: number): string {
+    return ' '.repeat(level * this.indentSize);
+  }
+}
@@ -0,0 +1,9 @@
+export * from './ast';
+export * from './tokenizer';
+export * from './parser';
+export * from './validator';
+export * from './schema';
+export * from './semanticValidator';
+export * from './formatter';
+export * from './performanceAdvisor';
+export * from './interpreter';
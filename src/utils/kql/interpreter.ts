@@ -0,0 +1,1782 @@
+import {
+  KqlCallExpression,
+  KqlDatatableOperator,
+  KqlExpression,
+  KqlFunctionDefinition,
+  KqlJoinOperator,
+  KqlLiteral,
+  KqlMvExpandOperator,
+  KqlNamedExpression,
+  KqlNameReference,
+  KqlOperator,
+  KqlOperatorOption,
+  KqlPipeline,
+  KqlProjectOperator,
+  KqlRangeOperator,
+  KqlSortItem,
+  KqlSourceOperator,
+  KqlStatement,
+  KqlSummarizeOperator
+} from './ast';
+import { parseKql, parseKqlDatetime, parseKqlTimespan } from './parser';
+import { aggregateColumnNamesOf, byColumnNameOf, columnNameOf, suggestKqlName, wildcardPattern } from './semanticValidator';
+import { summarizeKqlDiagnostics } from './validator';
+
+export interface KqlTableColumn {
+  name: string;
+  type: string; // KQL type: string, long, real, bool, datetime, timespan or dynamic
+}
+
+/**
+ * Row of an in-memory table, holding a value for every column of the table
+ */
+export type KqlRow = Record<string, unknown>;
+
+/**
+ * In-memory table. Values are strings, numbers, booleans, Dates (datetime columns),
+ * arrays and objects (dynamic columns) or null.
+ */
+export interface KqlTable {
+  columns: KqlTableColumn[];
+  rows: KqlRow[];
+}
+
+/**
+ * Query result with values as the query APIs return them: datetimes as ISO strings and
+ * timespans as [d.]hh:mm:ss[.fffffff]
+ */
+export interface KqlResultTable {
+  columns: KqlTableColumn[];
+  rows: unknown[][];
+}
+
+export interface KqlInterpreterOptions {
+  now?: Date; // Time of now() and ago() (default: the current time)
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Rows a range operator may produce */
+const MAX_RANGE_ROWS = 1000000;
+
+/**
+ * Aggregation functions of summarize. Functions ending in "if" take a predicate
+ * (the only argument of countif, the second one of the others).
+ */
+const AGGREGATE_FUNCTIONS = new Set([
+  'count', 'countif', 'dcount', 'dcountif', 'sum', 'sumif', 'avg', 'avgif', 'min', 'minif', 'max', 'maxif',
+  'stdev', 'stdevp', 'variance', 'variancep', 'make_list', 'make_set', 'make_bag', 'percentile', 'percentiles',
+  'arg_max', 'arg_min', 'any', 'take_any'
+]);
+
+const COMPARISON_OPERATORS = new Set(['==', '!=', '<>', '=~', '!~', '<', '<=', '>', '>=']);
+
+const AGGREGATE_TYPES: Record<string, string> = {
+  count: 'long', countif: 'long', dcount: 'long', dcountif: 'long', avg: 'real', avgif: 'real',
+  stdev: 'real', stdevp: 'real', variance: 'real', variancep: 'real', make_list: 'dynamic', make_set: 'dynamic',
+  make_bag: 'dynamic'
+};
+
+/** Aggregations returning values of their argument, which keep its column type */
+const VALUE_AGGREGATES = new Set(['min', 'minif', 'max', 'maxif', 'percentile', 'any', 'take_any']);
+
+/** Result types of scalar functions that do not depend on their arguments */
+const FUNCTION_TYPES: Record<string, string> = {
+  startofday: 'datetime', startofweek: 'datetime', startofmonth: 'datetime', startofyear: 'datetime',
+  todatetime: 'datetime', datetime_add: 'datetime', now: 'datetime', ago: 'datetime',
+  dayofweek: 'timespan', totimespan: 'timespan',
+  dayofmonth: 'long', hourofday: 'long', getmonth: 'long', monthofyear: 'long', getyear: 'long',
+  datetime_diff: 'long', toint: 'long', tolong: 'long', strlen: 'long', indexof: 'long', array_length: 'long',
+  todouble: 'real', toreal: 'real', todecimal: 'real', sqrt: 'real', exp: 'real', log: 'real', log10: 'real', pow: 'real',
+  tostring: 'string', format_datetime: 'string', tolower: 'string', toupper: 'string', substring: 'string',
+  strcat: 'string', strcat_delim: 'string', trim: 'string', trim_start: 'string', trim_end: 'string',
+  replace_string: 'string', replace_regex: 'string', gettype: 'string',
+  tobool: 'bool', toboolean: 'bool', isempty: 'bool', isnotempty: 'bool', isnull: 'bool', isnotnull: 'bool', not: 'bool',
+  todynamic: 'dynamic', parse_json: 'dynamic', split: 'dynamic', bag_keys: 'dynamic', pack_array: 'dynamic',
+  pack: 'dynamic', bag_pack: 'dynamic'
+};
+
+/** Functions whose result has the type of their first argument */
+const ARGUMENT_TYPED_FUNCTIONS = new Set(['round', 'abs', 'ceiling', 'sum', 'sumif']);
+
+/**
+ * Calendar units of datetime_diff and datetime_add; months and years are handled separately
+ */
+const DATETIME_PART_MS: Record<string, number> = {
+  week: 7 * DAY_MS, day: DAY_MS, hour: 3600000, minute: 60000, second: 1000, millisecond: 1
+};
+
+/**
+ * timespan value; plain numbers would be indistinguishable from longs in arithmetic and results
+ */
+class Timespan {
+  constructor(readonly milliseconds: number) {}
+}
+
+/**
+ * Run a query over in-memory tables with a practical subset of KQL: where, project (and
+ * project-away/keep/rename/reorder), extend, summarize with the common aggregations, sort,
+ * top, take, count, distinct, join (inner, innerunique, leftouter, semi and anti joins),
+ * union, mv-expand, print, range, datatable, let statements and common scalar functions.
+ * Numbers are doubles; whether they are longs or reals follows from column types, literals and
+ * function signatures, so that dividing longs truncates the result as in Kusto.
+ * Throws an Error for syntax errors and for anything outside the subset.
+ */
+export function executeKql(query: string, tables: Record<string, KqlTable>, options: KqlInterpreterOptions = {}): KqlResultTable {
+  const { script, diagnostics } = parseKql(query);
+  const syntaxError = summarizeKqlDiagnostics(diagnostics);
+  if (syntaxError) {
+    throw new Error(`Syntax error: ${syntaxError}`);
+  }
+
+  const table = new KqlInterpreter(tables, options.now ?? new Date()).run(script.statements);
+  return {
+    columns: table.columns,
+    rows: table.rows.map(row => table.columns.map(column => serializeValue(row[column.name])))
+  };
+}
+
+/**
+ * Result value as returned by the query APIs
+ */
+function serializeValue(value: unknown): unknown {
+  if (value === undefined || (typeof value === 'number' && !isFinite(value))) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof Timespan) {
+    return formatTimespanValue(value.milliseconds);
+  }
+  return value;
+}
+
+class KqlInterpreter {
+  private readonly scalars = new Map<string, unknown>();
+  private readonly scalarTypes = new Map<string, string | undefined>();
+  private readonly tabulars = new Map<string, KqlTable>();
+  // Columns of the input of the operator being applied, which names in expressions refer to
+  private columns: KqlTableColumn[] = [];
+  private readonly expressionTypes = new WeakMap<KqlExpression, { columns: KqlTableColumn[]; type: string | undefined }>();
+
+  constructor(private readonly tables: Record<string, KqlTable>, private readonly now: Date) {}
+
+  run(statements: KqlStatement[]): KqlTable {
+    let result: KqlTable | undefined;
+    for (const statement of statements) {
+      switch (statement.kind) {
+        case 'Let':
+          this.bind(statement.name, statement.value);
+          break;
+        case 'Query':
+          result = this.evaluatePipeline(statement.pipeline);
+          break;
+        case 'ManagementCommand':
+          throw unsupported(`The control command '${statement.command}'`);
+        // set statements are request options that do not change results
+      }
+    }
+
+    if (!result) {
+      throw new Error('The query has no tabular expression to run');
+    }
+    return result;
+  }
+
+  private bind(name: string, value: KqlExpression | KqlPipeline | KqlFunctionDefinition): void {
+    if (value.kind === 'Function') {
+      throw unsupported(`The user-defined function '${name}'`);
+    }
+    if (value.kind === 'Pipeline' || value.kind === 'TabularSubquery') {
+      this.tabulars.set(name, this.evaluatePipeline(value.kind === 'Pipeline' ? value : value.pipeline));
+    } else if (value.kind === 'Name' && this.findTable(value.name)) {
+      this.tabulars.set(name, this.findTable(value.name)!);
+    } else {
+      this.scalars.set(name, this.evaluate(value, {}));
+      this.scalarTypes.set(name, this.expressionType(value));
+    }
+  }
+
+  // ----- Tabular expressions -----
+
+  private evaluatePipeline(pipeline: KqlPipeline): KqlTable {
+    return pipeline.operators.reduce(
+      (table, operator) => this.withColumns(table.columns, () => this.applyOperator(operator, table)),
+      this.withColumns([], () => this.evaluateSource(pipeline.source))
+    );
+  }
+
+  /**
+   * Run fn with the columns names in expressions refer to, restoring the outer columns afterwards
+   */
+  private withColumns<T>(columns: KqlTableColumn[], fn: () => T): T {
+    const outer = this.columns;
+    this.columns = columns;
+    try {
+      return fn();
+    } finally {
+      this.columns = outer;
+    }
+  }
+
+  private evaluateSource(source: KqlExpression | KqlSourceOperator): KqlTable {
+    switch (source.kind) {
+      case 'Name':
+        return this.resolveTable(source.name);
+      case 'Parenthesized':
+        return this.evaluateSource(source.expression);
+      case 'TabularSubquery':
+        return this.evaluatePipeline(source.pipeline);
+      case 'Call':
+        if (source.name === 'table' && source.args[0]?.kind === 'Literal') {
+          return this.resolveTable(String(source.args[0].value));
+        }
+        throw unsupported(`The tabular function '${source.name}()'`);
+      case 'Union':
+        return this.union(source.tables, source.options, []);
+      case 'Print':
+        return this.print(source.columns);
+      case 'Range':
+        return this.range(source);
+      case 'Datatable':
+        return this.datatable(source);
+      case 'Search':
+        throw unsupported(`The 'search' operator`);
+      default:
+        throw new Error('Expected a table name or tabular expression');
+    }
+  }
+
+  private findTable(name: string): KqlTable | undefined {
+    return this.tabulars.get(name) ?? (hasOwn(this.tables, name) ? this.tables[name] : undefined);
+  }
+
+  private resolveTable(name: string): KqlTable {
+    const table = this.findTable(name);
+    if (!table) {
+      const suggestion = suggestKqlName(name, [...Object.keys(this.tables), ...this.tabulars.keys()]);
+      throw new Error(`Unknown table '${name}'${suggestion ? ` (did you mean '${suggestion}'?)` : ''}`);
+    }
+    return table;
+  }
+
+  private applyOperator(operator: KqlOperator, table: KqlTable): KqlTable {
+    switch (operator.kind) {
+      case 'Where':
+        return { columns: table.columns, rows: table.rows.filter(row => this.evaluate(operator.predicate, row) === true) };
+
+      case 'Project':
+        return this.project(operator, table);
+
+      case 'Extend':
+        // Later columns may refer to earlier ones
+        return operator.columns.reduce((result, item, index) => this.withColumns(result.columns, () => {
+          const name = item.name ?? columnNameOf(item.expression) ?? `Column${index + 1}`;
+          const values = result.rows.map(row => this.evaluate(item.expression, row));
+          return withColumn(result, { name, type: this.typeOf(item.expression, result, values) }, values);
+        }), table);
+
+      case 'Summarize':
+        return this.summarize(operator, table);
+
+      case 'Sort':
+        return { columns: table.columns, rows: this.sortRows(table.rows, operator.items) };
+
+      case 'Top':
+        return { columns: table.columns, rows: this.sortRows(table.rows, operator.items).slice(0, this.evaluateCount(operator.count)) };
+
+      case 'Take':
+        return { columns: table.columns, rows: table.rows.slice(0, this.evaluateCount(operator.count)) };
+
+      case 'Count':
+        return { columns: [{ name: 'Count', type: 'long' }], rows: [{ Count: table.rows.length }] };
+
+      case 'Distinct': {
+        const projected = operator.columns.some(item => item.expression.kind === 'Wildcard')
+          ? table
+          : this.projectColumns(operator.columns, table);
+        const seen = new Set<string>();
+        const rows = projected.rows.filter(row => {
+          const key = rowKey(row, projected.columns.map(column => column.name));
+          if (seen.has(key)) {
+            return false;
+          }
+          seen.add(key);
+          return true;
+        });
+        return { columns: projected.columns, rows };
+      }
+
+      case 'Join':
+        return this.join(operator, table);
+
+      case 'Union':
+        return this.union(operator.tables, operator.options, [table]);
+
+      case 'MvExpand':
+        return this.mvExpand(operator, table);
+
+      case 'As':
+        this.tabulars.set(operator.alias, table);
+        return table;
+
+      case 'Render':
+        // Visualization hints do not change the result
+        return table;
+
+      case 'Generic':
+        if (operator.name === 'serialize' && !operator.text.includes('=')) {
+          return table;
+        }
+        throw unsupported(`The '${operator.name}' operator`);
+
+      default:
+        throw unsupported(`The '${operator.name}' operator`);
+    }
+  }
+
+  private project(operator: KqlProjectOperator, table: KqlTable): KqlTable {
+    if (operator.name === 'project') {
+      return this.projectColumns(operator.columns, table);
+    }
+
+    if (operator.name === 'project-rename') {
+      const renames = new Map<string, string>();
+      for (const item of operator.columns) {
+        const existing = columnNameOf(item.expression);
+        if (!existing || !item.name) {
+          throw new Error('project-rename expects NewName = ExistingName');
+        }
+        this.requireColumn(table, existing);
+        renames.set(existing, item.name);
+      }
+      return {
+        columns: table.columns.map(column => ({ ...column, name: renames.get(column.name) ?? column.name })),
+        rows: table.rows.map(row => Object.fromEntries(Object.entries(row).map(([name, value]) => [renames.get(name) ?? name, value])))
+      };
+    }
+
+    // project-away, project-keep and project-reorder select existing columns by name or pattern
+    const selected: string[] = [];
+    for (const item of operator.columns) {
+      if (item.expression.kind === 'Wildcard') {
+        const pattern = wildcardPattern(item.expression.pattern);
+        table.columns.forEach(column => pattern.test(column.name) && selected.push(column.name));
+      } else {
+        const name = columnNameOf(item.expression);
+        if (!name) {
+          throw new Error(`${operator.name} expects column names`);
+        }
+        this.requireColumn(table, name);
+        selected.push(name);
+      }
+    }
+
+    const columns = operator.name === 'project-reorder'
+      ? [...selected.map(name => table.columns.find(column => column.name === name)!), ...table.columns.filter(column => !selected.includes(column.name))]
+      : table.columns.filter(column => selected.includes(column.name) === (operator.name === 'project-keep'));
+    return selectColumns(table, Array.from(new Set(columns)));
+  }
+
+  /**
+   * Columns computed from the input row, as in project and distinct
+   */
+  private projectColumns(items: KqlNamedExpression[], table: KqlTable): KqlTable {
+    const columns: KqlTableColumn[] = [];
+    const rows: KqlRow[] = table.rows.map(() => ({}));
+    items.forEach((item, index) => {
+      const name = item.name ?? columnNameOf(item.expression) ?? `Column${index + 1}`;
+      const values = table.rows.map(row => this.evaluate(item.expression, row));
+      values.forEach((value, rowIndex) => rows[rowIndex][name] = value);
+      columns.push({ name, type: this.typeOf(item.expression, table, values) });
+    });
+    return { columns, rows };
+  }
+
+  private summarize(operator: KqlSummarizeOperator, table: KqlTable): KqlTable {
+    const groups = new Map<string, { keys: unknown[]; rows: KqlRow[] }>();
+    for (const row of table.rows) {
+      const keys = operator.by.map(item => this.evaluate(item.expression, row));
+      const key = JSON.stringify(keys.map(valueKey));
+      const group = groups.get(key) ?? { keys, rows: [] };
+      group.rows.push(row);
+      groups.set(key, group);
+    }
+    if (operator.by.length === 0 && groups.size === 0) {
+      // Aggregating no rows still produces a row, e.g. a count of 0
+      groups.set('', { keys: [], rows: [] });
+    }
+
+    const byNames = operator.by.map((item, index) =>
+      item.name ?? columnNameOf(item.expression) ?? byColumnNameOf(item.expression) ?? `Column${index + 1}`);
+    const aggregates = operator.aggregates.map((item, index) => this.planAggregate(item, table, byNames, operator.by.length + index + 1));
+
+    const rows = Array.from(groups.values()).map(group => {
+      const row: KqlRow = {};
+      byNames.forEach((name, index) => row[name] = group.keys[index]);
+      for (const aggregate of aggregates) {
+        const values = aggregate.compute(group.rows);
+        aggregate.names.forEach((name, index) => row[name] = values[index]);
+      }
+      return row;
+    });
+
+    const columns: KqlTableColumn[] = operator.by.map((item, index) => ({
+      name: byNames[index],
+      type: this.typeOf(item.expression, table, rows.map(row => row[byNames[index]]))
+    }));
+    for (const aggregate of aggregates) {
+      aggregate.names.forEach((name, index) => columns.push({
+        name,
+        type: aggregate.types?.[index] ?? inferType(rows.map(row => row[name]))
+      }));
+    }
+    return { columns, rows };
+  }
+
+  /**
+   * Result columns of one summarize aggregation and how to compute them for a group of rows
+   */
+  private planAggregate(item: KqlNamedExpression, table: KqlTable, byNames: string[], position: number): {
+    names: string[];
+    types?: Array<string | undefined>; // Inferred from the results where undefined
+    compute: (rows: KqlRow[]) => unknown[];
+  } {
+    const expression = item.expression;
+    const columnType = (argument?: KqlExpression) => argument ? this.expressionType(argument) : undefined;
+
+    if (expression.kind === 'Call' && (expression.name === 'arg_max' || expression.name === 'arg_min')) {
+      const [by, ...rest] = expression.args;
+      if (!by) {
+        throw new Error(`${expression.name}() expects the expression to maximize or minimize`);
+      }
+      const byName = item.name ?? columnNameOf(by) ?? `${expression.name}_`;
+      const outputs = rest.flatMap(arg => {
+        if (arg.kind !== 'Wildcard') {
+          return [arg];
+        }
+        const pattern = wildcardPattern(arg.pattern);
+        return table.columns
+          .filter(column => pattern.test(column.name) && column.name !== byName && !byNames.includes(column.name))
+          .map(column => nameReference(column.name));
+      });
+      const sign = expression.name === 'arg_max' ? 1 : -1;
+      return {
+        names: [byName, ...outputs.map((arg, index) => columnNameOf(arg) ?? `Column${index + 1}`)],
+        types: [columnType(by), ...outputs.map(columnType)],
+        compute: rows => {
+          let best: { row: KqlRow; value: unknown } | undefined;
+          for (const row of rows) {
+            const value = this.evaluate(by, row);
+            if (value !== null && (!best || sign * (compareValues(value, best.value) ?? 0) > 0)) {
+              best = { row, value };
+            }
+          }
+          return best ? [best.value, ...outputs.map(arg => this.evaluate(arg, best!.row))] : [null, ...outputs.map(() => null)];
+        }
+      };
+    }
+
+    if (expression.kind === 'Call' && expression.name === 'percentiles') {
+      const names = aggregateColumnNamesOf(expression) ?? expression.args.slice(1).map((_, index) => `Column${position + index}`);
+      return {
+        names,
+        types: names.map(() => columnType(expression.args[0])),
+        compute: rows => {
+          const values = rows.map(row => this.evaluate(expression.args[0], row));
+          return expression.args.slice(1).map(arg => percentileOf(values, toNumber(this.evaluate(arg, {}))));
+        }
+      };
+    }
+
+    return {
+      names: [item.name ?? aggregateColumnNamesOf(expression)?.[0] ?? `Column${position}`],
+      types: [this.expressionType(expression)],
+      compute: rows => [this.evaluate(expression, rows[0] ?? {}, rows)]
+    };
+  }
+
+  private sortRows(rows: KqlRow[], items: KqlSortItem[]): KqlRow[] {
+    const keyed = rows.map(row => ({ row, keys: items.map(item => this.evaluate(item.expression, row)) }));
+    keyed.sort((a, b) => {
+      for (let index = 0; index < items.length; index++) {
+        const direction = items[index].direction ?? 'desc';
+        const nullsFirst = (items[index].nulls ?? (direction === 'asc' ? 'first' : 'last')) === 'first';
+        const left = a.keys[index];
+        const right = b.keys[index];
+        if (left === null || right === null) {
+          if (left !== right) {
+            return (left === null) === nullsFirst ? -1 : 1;
+          }
+          continue;
+        }
+        const order = compareValues(left, right) ?? toText(left).localeCompare(toText(right));
+        if (order !== 0) {
+          return direction === 'asc' ? order : -order;
+        }
+      }
+      return 0;
+    });
+    return keyed.map(item => item.row);
+  }
+
+  private join(operator: KqlJoinOperator, left: KqlTable): KqlTable {
+    const right = this.evaluatePipeline(operator.right);
+    const kind = optionValue(operator.options, 'kind') ?? (operator.name === 'lookup' ? 'leftouter' : 'innerunique');
+    const keys = operator.on.flatMap(joinKeysOf);
+    keys.forEach(key => {
+      this.requireColumn(left, key.left);
+      this.requireColumn(right, key.right);
+    });
+
+    // Rows with a null key match no row
+    const keyOf = (row: KqlRow, side: 'left' | 'right'): string | undefined => {
+      const values = keys.map(key => row[key[side]]);
+      return values.some(value => value === null) ? undefined : JSON.stringify(values.map(valueKey));
+    };
+    const index = (rows: KqlRow[], side: 'left' | 'right') => {
+      const map = new Map<string, KqlRow[]>();
+      for (const row of rows) {
+        const key = keyOf(row, side);
+        if (key !== undefined) {
+          map.set(key, [...(map.get(key) ?? []), row]);
+        }
+      }
+      return map;
+    };
+
+    switch (kind) {
+      case 'leftsemi':
+      case 'leftanti':
+      case 'anti':
+      case 'leftantisemi': {
+        const matches = index(right.rows, 'right');
+        const semi = kind === 'leftsemi';
+        return { columns: left.columns, rows: left.rows.filter(row => matches.has(keyOf(row, 'left') ?? '') === semi) };
+      }
+      case 'rightsemi':
+      case 'rightanti':
+      case 'rightantisemi': {
+        const matches = index(left.rows, 'left');
+        const semi = kind === 'rightsemi';
+        return { columns: right.columns, rows: right.rows.filter(row => matches.has(keyOf(row, 'right') ?? '') === semi) };
+      }
+      case 'inner':
+      case 'innerunique':
+      case 'leftouter':
+        break;
+      default:
+        throw unsupported(`join kind=${kind}`);
+    }
+
+    let leftRows = left.rows;
+    if (kind === 'innerunique') {
+      // Only the first left row of each key is joined
+      const seen = new Set<string>();
+      leftRows = left.rows.filter(row => {
+        const key = keyOf(row, 'left');
+        if (key === undefined || seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+    }
+
+    // Right columns named like left columns get a "1" suffix; lookup does not repeat its keys
+    const leftNames = new Set(left.columns.map(column => column.name));
+    const rightColumns = right.columns
+      .filter(column => operator.name !== 'lookup' || !keys.some(key => key.right === column.name && key.left === column.name))
+      .map(column => ({ source: column.name, column: { ...column, name: leftNames.has(column.name) ? `${column.name}1` : column.name } }));
+
+    const rightIndex = index(right.rows, 'right');
+    const rows: KqlRow[] = [];
+    for (const row of leftRows) {
+      const key = keyOf(row, 'left');
+      const matches = key === undefined ? [] : rightIndex.get(key) ?? [];
+      if (matches.length === 0 && kind === 'leftouter') {
+        rows.push({ ...row, ...Object.fromEntries(rightColumns.map(({ column }) => [column.name, null])) });
+      }
+      for (const match of matches) {
+        rows.push({ ...row, ...Object.fromEntries(rightColumns.map(({ source, column }) => [column.name, match[source]])) });
+      }
+    }
+
+    return { columns: [...left.columns, ...rightColumns.map(({ column }) => column)], rows };
+  }
+
+  private union(items: KqlPipeline[], options: KqlOperatorOption[], inputs: KqlTable[]): KqlTable {
+    const sources: Array<{ name: string; table: KqlTable }> = inputs.map(table => ({ name: '', table }));
+    for (const item of items) {
+      if (item.source.kind === 'Wildcard' && item.operators.length === 0) {
+        const pattern = wildcardPattern(item.source.pattern);
+        Object.keys(this.tables)
+          .filter(name => pattern.test(name))
+          .forEach(name => sources.push({ name, table: this.tables[name] }));
+      } else {
+        sources.push({ name: item.source.kind === 'Name' ? item.source.name : '', table: this.evaluatePipeline(item) });
+      }
+    }
+
+    let columns: KqlTableColumn[] = [];
+    for (const { table } of sources) {
+      columns.push(...table.columns.filter(column => !columns.some(existing => existing.name === column.name)));
+    }
+    if (optionValue(options, 'kind') === 'inner') {
+      columns = columns.filter(column => sources.every(({ table }) => table.columns.some(other => other.name === column.name)));
+    }
+
+    const sourceColumn = optionValue(options, 'withsource');
+    const rows = sources.flatMap(({ name, table }) => table.rows.map(row => {
+      const result: KqlRow = sourceColumn ? { [sourceColumn]: name } : {};
+      columns.forEach(column => result[column.name] = hasOwn(row, column.name) ? row[column.name] : null);
+      return result;
+    }));
+    return { columns: sourceColumn ? [{ name: sourceColumn, type: 'string' }, ...columns] : columns, rows };
+  }
+
+  private mvExpand(operator: KqlMvExpandOperator, table: KqlTable): KqlTable {
+    const items = operator.columns.map(item => {
+      const name = item.name ?? columnNameOf(item.expression);
+      if (!name) {
+        throw new Error('mv-expand expects a column or Name = expression');
+      }
+      return { name, expression: item.expression, type: item.type };
+    });
+    const limit = operator.limit ? this.evaluateCount(operator.limit) : Infinity;
+    const indexColumn = optionValue(operator.options, 'with_itemindex');
+
+    const rows: KqlRow[] = [];
+    for (const row of table.rows) {
+      const arrays = items.map(item => expandableValues(this.evaluate(item.expression, row)));
+      const length = Math.min(Math.max(0, ...arrays.map(values => values.length)), limit);
+      for (let index = 0; index < length; index++) {
+        const expanded: KqlRow = { ...row };
+        items.forEach((item, itemIndex) => {
+          const value = arrays[itemIndex][index] ?? null;
+          expanded[item.name] = item.type ? convertKqlValue(value, item.type) : value;
+        });
+        if (indexColumn) {
+          expanded[indexColumn] = index;
+        }
+        rows.push(expanded);
+      }
+    }
+
+    const typeOfItem = (name: string) => normalizeType(items.find(item => item.name === name)?.type ?? 'dynamic');
+    const columns = table.columns.map(column => items.some(item => item.name === column.name) ? { ...column, type: typeOfItem(column.name) } : column);
+    items
+      .filter(item => !columns.some(column => column.name === item.name))
+      .forEach(item => columns.push({ name: item.name, type: typeOfItem(item.name) }));
+    if (indexColumn) {
+      columns.push({ name: indexColumn, type: 'long' });
+    }
+    return { columns, rows };
+  }
+
+  private print(items: KqlNamedExpression[]): KqlTable {
+    const row: KqlRow = {};
+    const columns = items.map((item, index) => {
+      const name = item.name ?? `print_${index}`;
+      row[name] = this.evaluate(item.expression, {});
+      return { name, type: this.expressionType(item.expression) ?? inferType([row[name]]) };
+    });
+    return { columns, rows: [row] };
+  }
+
+  private range(operator: KqlRangeOperator): KqlTable {
+    const from = this.evaluate(operator.from, {});
+    const to = this.evaluate(operator.to, {});
+    const step = this.evaluate(operator.step, {});
+
+    const dates = from instanceof Date && to instanceof Date && step instanceof Timespan;
+    const start = dates ? (from as Date).getTime() : toNumber(from);
+    const end = dates ? (to as Date).getTime() : toNumber(to);
+    const increment = dates ? (step as Timespan).milliseconds : toNumber(step);
+    if (start === null || end === null || increment === null || increment <= 0) {
+      throw new Error('range expects numbers, or datetimes with a timespan step, and a positive step');
+    }
+    if ((end - start) / increment >= MAX_RANGE_ROWS) {
+      throw new Error(`range would produce more than ${MAX_RANGE_ROWS} rows`);
+    }
+
+    const rows: KqlRow[] = [];
+    for (let value = start; value <= end; value += increment) {
+      rows.push({ [operator.column]: dates ? new Date(value) : value });
+    }
+    const type = dates
+      ? 'datetime'
+      : unifyTypes([operator.from, operator.to, operator.step].map(expression => this.expressionType(expression)));
+    return { columns: [{ name: operator.column, type: type ?? inferType(rows.map(row => row[operator.column])) }], rows };
+  }
+
+  private datatable(operator: KqlDatatableOperator): KqlTable {
+    const values = operator.values.map(value => this.evaluate(value, {}));
+    const rows: KqlRow[] = [];
+    for (let offset = 0; offset < values.length; offset += operator.columns.length) {
+      const row: KqlRow = {};
+      operator.columns.forEach((column, index) => row[column.name] = convertKqlValue(values[offset + index] ?? null, column.type));
+      rows.push(row);
+    }
+    return { columns: operator.columns.map(column => ({ name: column.name, type: normalizeType(column.type) })), rows };
+  }
+
+  private evaluateCount(expression: KqlExpression): number {
+    const value = this.evaluate(expression, {});
+    if (typeof value !== 'number' || value < 0) {
+      throw new Error(`Expected a number of rows but found ${toText(value) || 'null'}`);
+    }
+    return Math.floor(value);
+  }
+
+  private requireColumn(table: KqlTable, name: string): void {
+    if (!table.columns.some(column => column.name === name)) {
+      const suggestion = suggestKqlName(name, table.columns.map(column => column.name));
+      throw new Error(`Unknown column '${name}'${suggestion ? ` (did you mean '${suggestion}'?)` : ''}`);
+    }
+  }
+
+  /**
+   * Type of a computed column: the type of a copied column, then the static type of the expression,
+   * otherwise inferred from the values
+   */
+  private typeOf(expression: KqlExpression, table: KqlTable, values: unknown[]): string {
+    const source = expression.kind === 'Name' ? table.columns.find(column => column.name === expression.name) : undefined;
+    return source?.type ?? this.expressionType(expression) ?? inferType(values);
+  }
+
+  /**
+   * Static type of an expression over the current columns, from column types, literals and
+   * function signatures; undefined when only the values tell
+   */
+  private expressionType(expression: KqlExpression): string | undefined {
+    const cached = this.expressionTypes.get(expression);
+    if (cached?.columns === this.columns) {
+      return cached.type;
+    }
+    const type = this.inferExpressionType(expression);
+    this.expressionTypes.set(expression, { columns: this.columns, type });
+    return type;
+  }
+
+  private inferExpressionType(expression: KqlExpression): string | undefined {
+    switch (expression.kind) {
+      case 'Literal':
+        return expression.literalType === 'null' ? undefined : expression.literalType;
+      case 'Name': {
+        const column = this.columns.find(item => item.name === expression.name);
+        return column ? normalizeType(column.type) : this.scalarTypes.get(expression.name);
+      }
+      case 'Parenthesized':
+        return this.expressionType(expression.expression);
+      case 'Unary':
+        return this.expressionType(expression.operand);
+      case 'Binary':
+        return ['+', '-', '*', '/', '%'].includes(expression.operator)
+          ? arithmeticType(expression.operator, this.expressionType(expression.left), this.expressionType(expression.right))
+          : 'bool';
+      case 'In':
+      case 'Between':
+        return 'bool';
+      case 'Member':
+      case 'Index':
+        return 'dynamic';
+      case 'Call':
+        return this.callType(expression);
+      default:
+        return undefined;
+    }
+  }
+
+  private callType(call: KqlCallExpression): string | undefined {
+    const argumentType = (index: number) => call.args[index] ? this.expressionType(call.args[index]) : undefined;
+    if (hasOwn(AGGREGATE_TYPES, call.name)) {
+      return AGGREGATE_TYPES[call.name];
+    }
+    if (hasOwn(FUNCTION_TYPES, call.name)) {
+      return FUNCTION_TYPES[call.name];
+    }
+    if (VALUE_AGGREGATES.has(call.name) || ARGUMENT_TYPED_FUNCTIONS.has(call.name)) {
+      return argumentType(0);
+    }
+
+    switch (call.name) {
+      case 'bin':
+      case 'floor': {
+        const type = argumentType(0);
+        return type === 'long' || type === 'real' ? unifyTypes([type, argumentType(1)]) : type;
+      }
+      case 'iif':
+      case 'iff':
+        return unifyTypes([argumentType(1), argumentType(2)]);
+      case 'case':
+        return unifyTypes(call.args.map((_, index) => index % 2 === 1 || index === call.args.length - 1 ? argumentType(index) : undefined));
+      case 'coalesce':
+      case 'min_of':
+      case 'max_of':
+        return unifyTypes(call.args.map((_, index) => argumentType(index)));
+      case 'extract':
+        return call.args[3]?.kind === 'Name' ? normalizeType(call.args[3].name) : 'string';
+      default:
+        return undefined;
+    }
+  }
+
+  // ----- Scalar expressions -----
+
+  /**
+   * Value of an expression for a row. In summarize, group holds the rows aggregations run over.
+   */
+  private evaluate(expression: KqlExpression, row: KqlRow, group?: KqlRow[]): unknown {
+    switch (expression.kind) {
+      case 'Literal':
+        return literalValue(expression);
+
+      case 'Name':
+        return this.resolveName(expression.name, row);
+
+      case 'Parenthesized':
+        return this.evaluate(expression.expression, row, group);
+
+      case 'Unary': {
+        const value = this.evaluate(expression.operand, row, group);
+        return expression.operator === '+' ? value : arithmetic('*', value, -1);
+      }
+
+      case 'Binary':
+        return this.evaluateBinary(expression.operator, expression.left, expression.right, row, group);
+
+      case 'In': {
+        const operand = this.evaluate(expression.operand, row, group);
+        const values = expression.values.flatMap(value => this.evaluateList(value, row, group));
+        switch (expression.operator) {
+          case 'in':
+          case '!in':
+            return operand === null ? null : values.some(value => valueKey(value) === valueKey(operand)) === (expression.operator === 'in');
+          case 'in~':
+          case '!in~':
+            return operand === null ? null : values.some(value => toText(value).toLowerCase() === toText(operand).toLowerCase()) === (expression.operator === 'in~');
+          case 'has_any':
+            return values.some(value => stringOperator('has', operand, value));
+          case 'has_all':
+            return values.every(value => stringOperator('has', operand, value));
+        }
+        break;
+      }
+
+      case 'Between': {
+        const operand = this.evaluate(expression.operand, row, group);
+        const low = this.evaluate(expression.low, row, group);
+        let high = this.evaluate(expression.high, row, group);
+        if (low instanceof Date && high instanceof Timespan) {
+          high = new Date(low.getTime() + high.milliseconds);
+        }
+        const fromLow = compareValues(operand, low);
+        const toHigh = compareValues(operand, high);
+        if (fromLow === undefined || toHigh === undefined) {
+          return null;
+        }
+        return (fromLow >= 0 && toHigh <= 0) !== expression.negated;
+      }
+
+      case 'Call':
+        return this.evaluateCall(expression, row, group);
+
+      case 'Member':
+        return memberOf(this.evaluate(expression.target, row, group), expression.member);
+
+      case 'Index':
+        return memberOf(this.evaluate(expression.target, row, group), this.evaluate(expression.index, row, group));
+
+      case 'TabularSubquery': {
+        const table = this.evaluatePipeline(expression.pipeline);
+        return table.rows.length > 0 && table.columns.length > 0 ? table.rows[0][table.columns[0].name] : null;
+      }
+
+      case 'Wildcard':
+        throw new Error(`Unexpected '${expression.pattern}' in an expression`);
+    }
+    return null;
+  }
+
+  private resolveName(name: string, row: KqlRow): unknown {
+    if (hasOwn(row, name)) {
+      return row[name];
+    }
+    if (this.scalars.has(name)) {
+      return this.scalars.get(name);
+    }
+    const suggestion = suggestKqlName(name, [...Object.keys(row), ...this.scalars.keys()]);
+    throw new Error(`Unknown column or variable '${name}'${suggestion ? ` (did you mean '${suggestion}'?)` : ''}`);
+  }
+
+  /**
+   * Values of the right side of in and has_any: arrays, a single column table or scalars
+   */
+  private evaluateList(expression: KqlExpression, row: KqlRow, group?: KqlRow[]): unknown[] {
+    let table: KqlTable | undefined;
+    if (expression.kind === 'TabularSubquery') {
+      table = this.evaluatePipeline(expression.pipeline);
+    } else if (expression.kind === 'Name' && !hasOwn(row, expression.name) && this.tabulars.has(expression.name)) {
+      table = this.tabulars.get(expression.name);
+    }
+    if (table) {
+      const column = table.columns[0]?.name;
+      return column === undefined ? [] : table.rows.map(tableRow => tableRow[column]);
+    }
+
+    const value = this.evaluate(expression, row, group);
+    return Array.isArray(value) ? value : [value];
+  }
+
+  private evaluateBinary(operator: string, leftExpression: KqlExpression, rightExpression: KqlExpression, row: KqlRow, group?: KqlRow[]): unknown {
+    if (leftExpression.kind === 'Wildcard') {
+      // * has "error": any column has the term, and for negated operators no column does
+      const term = this.evaluate(rightExpression, row, group);
+      const values = Object.values(row).filter(value => value !== null);
+      return operator.startsWith('!')
+        ? values.every(value => stringOperator(operator, value, term))
+        : values.some(value => stringOperator(operator, value, term));
+    }
+
+    const left = this.evaluate(leftExpression, row, group);
+    if (operator === 'and' && left !== true) {
+      return false;
+    }
+    if (operator === 'or' && left === true) {
+      return true;
+    }
+    const right = this.evaluate(rightExpression, row, group);
+
+    switch (operator) {
+      case 'and':
+      case 'or':
+        return right === true;
+      case '/':
+        if (this.expressionType(leftExpression) === 'long' && this.expressionType(rightExpression) === 'long') {
+          // Dividing longs is integer division
+          const quotient = arithmetic(operator, left, right);
+          return typeof quotient === 'number' ? Math.trunc(quotient) : quotient;
+        }
+        return arithmetic(operator, left, right);
+      case '+':
+      case '-':
+      case '*':
+      case '%':
+        return arithmetic(operator, left, right);
+    }
+
+    if (operator === 'matches regex') {
+      return new RegExp(toText(right)).test(toText(left));
+    }
+    if (!COMPARISON_OPERATORS.has(operator)) {
+      return stringOperator(operator, left, right);
+    }
+    if (left === null || right === null) {
+      return null;
+    }
+
+    switch (operator) {
+      case '==':
+        return valueKey(left) === valueKey(right);
+      case '!=':
+      case '<>':
+        return valueKey(left) !== valueKey(right);
+      case '=~':
+        return toText(left).toLowerCase() === toText(right).toLowerCase();
+      case '!~':
+        return toText(left).toLowerCase() !== toText(right).toLowerCase();
+      case '<':
+      case '<=':
+      case '>':
+      case '>=': {
+        const order = compareValues(left, right);
+        if (order === undefined) {
+          return null;
+        }
+        return operator === '<' ? order < 0 : operator === '<=' ? order <= 0 : operator === '>' ? order > 0 : order >= 0;
+      }
+    }
+    return null;
+  }
+
+  private evaluateCall(call: KqlCallExpression, row: KqlRow, group?: KqlRow[]): unknown {
+    if (AGGREGATE_FUNCTIONS.has(call.name)) {
+      if (!group) {
+        throw new Error(`The aggregation ${call.name}() can only be used in summarize`);
+      }
+      return this.aggregate(call, group);
+    }
+
+    switch (call.name) {
+      // Only the chosen branch is evaluated
+      case 'iif':
+      case 'iff':
+        return this.evaluate(call.args[0], row, group) === true
+          ? this.evaluate(call.args[1], row, group)
+          : call.args[2] ? this.evaluate(call.args[2], row, group) : null;
+      case 'case': {
+        for (let index = 0; index + 1 < call.args.length; index += 2) {
+          if (this.evaluate(call.args[index], row, group) === true) {
+            return this.evaluate(call.args[index + 1], row, group);
+          }
+        }
+        const fallback = call.args.length % 2 === 1 ? call.args[call.args.length - 1] : undefined;
+        return fallback ? this.evaluate(fallback, row, group) : null;
+      }
+      case 'toscalar':
+        return call.args[0] ? this.evaluate(call.args[0], row, group) : null;
+      case 'now':
+        return addTime(this.now, call.args[0] ? this.evaluate(call.args[0], row, group) : new Timespan(0));
+      case 'ago':
+        return addTime(this.now, arithmetic('*', this.evaluate(call.args[0], row, group), -1));
+    }
+
+    const implementation = hasOwn(SCALAR_FUNCTIONS, call.name) ? SCALAR_FUNCTIONS[call.name] : undefined;
+    if (!implementation) {
+      throw unsupported(`The function '${call.name}()'`);
+    }
+    return implementation(call.args.map(arg => this.evaluate(arg, row, group)));
+  }
+
+  /**
+   * Single valued aggregation over the rows of a summarize group
+   */
+  private aggregate(call: KqlCallExpression, rows: KqlRow[]): unknown {
+    let name = call.name;
+    let args = call.args;
+    if (/^(count|dcount|sum|avg|min|max)if$/.test(name)) {
+      const predicateIndex = name === 'countif' ? 0 : 1;
+      const predicate = args[predicateIndex];
+      rows = predicate ? rows.filter(row => this.evaluate(predicate, row) === true) : rows;
+      args = args.filter((_, index) => index !== predicateIndex);
+      name = name.slice(0, -2);
+    }
+
+    const values = () => {
+      if (!args[0]) {
+        throw new Error(`${call.name}() expects an expression to aggregate`);
+      }
+      return rows.map(row => this.evaluate(args[0], row)).filter(value => value !== null);
+    };
+
+    switch (name) {
+      case 'count':
+        return args.length > 0 ? values().length : rows.length;
+      case 'dcount':
+        return new Set(values().map(valueKey)).size;
+      case 'sum':
+        return sumOf(values());
+      case 'avg': {
+        const numbers = values().map(toNumber).filter((value): value is number => value !== null);
+        return numbers.length > 0 ? numbers.reduce((total, value) => total + value, 0) / numbers.length : null;
+      }
+      case 'min':
+      case 'max':
+        return values().reduce<unknown>((best, value) => {
+          const order = best === null ? undefined : compareValues(value, best);
+          return best === null || (order !== undefined && (name === 'min' ? order < 0 : order > 0)) ? value : best;
+        }, null);
+      case 'stdev':
+      case 'stdevp':
+      case 'variance':
+      case 'variancep': {
+        const variance = varianceOf(values().map(toNumber).filter((value): value is number => value !== null), !name.endsWith('p'));
+        return variance === null || name.startsWith('variance') ? variance : Math.sqrt(variance);
+      }
+      case 'make_list':
+      case 'make_set': {
+        const limit = args[1] ? toNumber(this.evaluate(args[1], {})) ?? Infinity : Infinity;
+        const list = name === 'make_set'
+          ? Array.from(new Map(values().map(value => [valueKey(value), value])).values())
+          : values();
+        return list.slice(0, limit).map(serializeValue);
+      }
+      case 'make_bag':
+        // Property bags merged into one; the first value seen for a key is kept
+        return values().reduce<Record<string, unknown>>((bag, value) => {
+          const dynamic = toDynamic(value);
+          if (dynamic !== null && typeof dynamic === 'object' && !Array.isArray(dynamic)) {
+            Object.entries(dynamic).filter(([key]) => !hasOwn(bag, key)).forEach(([key, item]) => {
+              bag[key] = item;
+            });
+          }
+          return bag;
+        }, {});
+      case 'percentile':
+        return percentileOf(values(), toNumber(args[1] ? this.evaluate(args[1], {}) : null));
+      case 'any':
+      case 'take_any':
+        return rows.length > 0 && args[0] ? this.evaluate(args[0], rows[0]) : null;
+      default:
+        throw unsupported(`${call.name}() inside an expression`);
+    }
+  }
+}
+
+// ----- Values -----
+
+function unsupported(feature: string): Error {
+  return new Error(`${feature} is not supported by the local KQL interpreter`);
+}
+
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function nameReference(name: string): KqlNameReference {
+  return { kind: 'Name', name, start: 0, end: 0 };
+}
+
+function optionValue(options: KqlOperatorOption[], name: string): string | undefined {
+  return options.find(option => option.name === name)?.value;
+}
+
+function literalValue(literal: KqlLiteral): unknown {
+  if (literal.value === null || literal.value === undefined) {
+    return null;
+  }
+  switch (literal.literalType) {
+    case 'datetime':
+      return new Date(String(literal.value));
+    case 'timespan':
+      return new Timespan(Number(literal.value));
+    default:
+      return literal.value;
+  }
+}
+
+/**
+ * `on Column`, `on $left.A == $right.B` and combinations joined with `and`
+ */
+function joinKeysOf(condition: KqlExpression): Array<{ left: string; right: string }> {
+  if (condition.kind === 'Name') {
+    return [{ left: condition.name, right: condition.name }];
+  }
+  if (condition.kind === 'Binary' && condition.operator === 'and') {
+    return [...joinKeysOf(condition.left), ...joinKeysOf(condition.right)];
+  }
+  if (condition.kind === 'Binary' && condition.operator === '==') {
+    const sides = [condition.left, condition.right].map(side =>
+      side.kind === 'Member' && side.target.kind === 'Name' ? { side: side.target.name, column: side.member } : undefined);
+    const left = sides.find(side => side?.side === '$left');
+    const right = sides.find(side => side?.side === '$right');
+    if (left && right) {
+      return [{ left: left.column, right: right.column }];
+    }
+  }
+  throw unsupported('Join conditions other than Column and $left.Column == $right.Column');
+}
+
+function withColumn(table: KqlTable, column: KqlTableColumn, values: unknown[]): KqlTable {
+  const exists = table.columns.some(existing => existing.name === column.name);
+  return {
+    columns: exists ? table.columns.map(existing => existing.name === column.name ? column : existing) : [...table.columns, column],
+    rows: table.rows.map((row, index) => ({ ...row, [column.name]: values[index] }))
+  };
+}
+
+function selectColumns(table: KqlTable, columns: KqlTableColumn[]): KqlTable {
+  return {
+    columns,
+    rows: table.rows.map(row => Object.fromEntries(columns.map(column => [column.name, row[column.name]])))
+  };
+}
+
+function rowKey(row: KqlRow, columns: string[]): string {
+  return JSON.stringify(columns.map(column => valueKey(row[column])));
+}
+
+/**
+ * Identity of a value for equality, grouping and distinct
+ */
+function valueKey(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (value instanceof Date) {
+    return `d:${value.getTime()}`;
+  }
+  if (value instanceof Timespan) {
+    return `t:${value.milliseconds}`;
+  }
+  return `${typeof value}:${typeof value === 'object' ? JSON.stringify(value) : String(value)}`;
+}
+
+/**
+ * Order of two values of the same type, undefined when they cannot be compared
+ */
+function compareValues(left: unknown, right: unknown): number | undefined {
+  const a = orderValue(left);
+  const b = orderValue(right);
+  if (!a || !b || a.kind !== b.kind) {
+    return undefined;
+  }
+  return a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+}
+
+function orderValue(value: unknown): { kind: string; value: number | string } | undefined {
+  if (value instanceof Date) {
+    return { kind: 'datetime', value: value.getTime() };
+  }
+  if (value instanceof Timespan) {
+    return { kind: 'timespan', value: value.milliseconds };
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return { kind: typeof value, value: Number(value) };
+  }
+  if (typeof value === 'string') {
+    return { kind: 'string', value };
+  }
+  return undefined;
+}
+
+function typeOfValue(value: unknown): string {
+  if (value instanceof Date) {
+    return 'datetime';
+  }
+  if (value instanceof Timespan) {
+    return 'timespan';
+  }
+  switch (typeof value) {
+    case 'string':
+      return 'string';
+    case 'number':
+      return Number.isInteger(value) ? 'long' : 'real';
+    case 'boolean':
+      return 'bool';
+    default:
+      return 'dynamic';
+  }
+}
+
+/**
+ * Common type of expressions: longs mixed with reals are reals; undefined when unknown or mixed otherwise
+ */
+function unifyTypes(types: Array<string | undefined>): string | undefined {
+  const known = new Set(types.filter((type): type is string => type !== undefined));
+  if (known.size === 1) {
+    return known.values().next().value as string;
+  }
+  return known.size > 0 && Array.from(known).every(type => type === 'long' || type === 'real') ? 'real' : undefined;
+}
+
+/**
+ * Result type of arithmetic on operands of the given types
+ */
+function arithmeticType(operator: string, left?: string, right?: string): string | undefined {
+  if (left === 'datetime') {
+    return right === 'datetime' && operator === '-' ? 'timespan' : right === 'timespan' ? 'datetime' : undefined;
+  }
+  if (right === 'datetime') {
+    return left === 'timespan' && operator === '+' ? 'datetime' : undefined;
+  }
+  if (left === 'timespan' && right === 'timespan') {
+    return operator === '/' ? 'real' : operator === '*' ? undefined : 'timespan';
+  }
+  if (left === 'timespan' || right === 'timespan') {
+    return operator === '*' || (operator === '/' && left === 'timespan') ? 'timespan' : undefined;
+  }
+  return left === 'long' || left === 'real' ? unifyTypes([left, right]) : undefined;
+}
+
+/**
+ * Column type of computed values: longs mixed with reals are reals, other mixes are dynamic
+ */
+function inferType(values: unknown[]): string {
+  const types = new Set(values.filter(value => value !== null && value !== undefined).map(typeOfValue));
+  if (types.size === 0) {
+    return 'string';
+  }
+  if (types.size === 1) {
+    return types.values().next().value as string;
+  }
+  return Array.from(types).every(type => type === 'long' || type === 'real') ? 'real' : 'dynamic';
+}
+
+function normalizeType(type: string): string {
+  const aliases: Record<string, string> = { int: 'long', double: 'real', decimal: 'real', boolean: 'bool', date: 'datetime', time: 'timespan' };
+  return aliases[type] ?? type;
+}
+
+/**
+ * Value converted to a column type, e.g. text read from a file; null when it does not convert.
+ * Dynamic values may be given as JSON text.
+ */
+export function convertKqlValue(value: unknown, type: string): unknown {
+  switch (normalizeType(type)) {
+    case 'long':
+      return toLong(value);
+    case 'real':
+      return toNumber(value);
+    case 'bool':
+      return toBool(value);
+    case 'datetime':
+      return toDate(value);
+    case 'timespan':
+      return toTimespan(value);
+    case 'string':
+      return toText(value);
+    case 'dynamic':
+      return toDynamic(value);
+    default:
+      return value ?? null;
+  }
+}
+
+/**
+ * Text of a value for string operators and tostring()
+ */
+function toText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof Timespan) {
+    return formatTimespanValue(value.milliseconds);
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return isNaN(value) ? null : value;
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return isNaN(number) ? null : number;
+  }
+  return null;
+}
+
+function toLong(value: unknown): number | null {
+  const number = toNumber(value);
+  return number === null ? null : Math.trunc(number);
+}
+
+function toBool(value: unknown): boolean | null {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return value !== 0;
+  }
+  if (typeof value === 'string' && /^(true|false)$/i.test(value.trim())) {
+    return value.trim().toLowerCase() === 'true';
+  }
+  return null;
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const iso = parseKqlDatetime(value);
+    return iso ? new Date(iso) : null;
+  }
+  return null;
+}
+
+function toTimespan(value: unknown): Timespan | null {
+  if (value instanceof Timespan) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const milliseconds = parseKqlTimespan(value.trim());
+    return milliseconds === undefined ? null : new Timespan(milliseconds);
+  }
+  return null;
+}
+
+/**
+ * Strings holding JSON objects or arrays, as dynamic columns are stored in CSV exports
+ */
+function toDynamic(value: unknown): unknown {
+  if (typeof value === 'string' && /^\s*[[{]/.test(value)) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+function memberOf(target: unknown, key: unknown): unknown {
+  const value = toDynamic(target);
+  if (Array.isArray(value) && typeof key === 'number') {
+    return value[key < 0 ? value.length + key : key] ?? null;
+  }
+  if (value !== null && typeof value === 'object' && !Array.isArray(value) && typeof key === 'string') {
+    return hasOwn(value, key) ? (value as Record<string, unknown>)[key] ?? null : null;
+  }
+  return null;
+}
+
+/**
+ * Elements mv-expand produces for a value: array items, or one single-property bag per bag property
+ */
+function expandableValues(value: unknown): unknown[] {
+  const dynamic = toDynamic(value);
+  if (Array.isArray(dynamic)) {
+    return dynamic;
+  }
+  if (dynamic !== null && typeof dynamic === 'object') {
+    return Object.entries(dynamic).map(([key, item]) => ({ [key]: item }));
+  }
+  return dynamic === null || dynamic === undefined ? [] : [dynamic];
+}
+
+function arithmetic(operator: string, left: unknown, right: unknown): unknown {
+  if (left === null || right === null || left === undefined || right === undefined) {
+    return null;
+  }
+
+  if (left instanceof Date) {
+    if (right instanceof Date && operator === '-') {
+      return new Timespan(left.getTime() - right.getTime());
+    }
+    if (right instanceof Timespan && (operator === '+' || operator === '-')) {
+      return addTime(left, operator === '+' ? right : new Timespan(-right.milliseconds));
+    }
+    return null;
+  }
+  if (right instanceof Date) {
+    return operator === '+' && left instanceof Timespan ? addTime(right, left) : null;
+  }
+
+  if (left instanceof Timespan || right instanceof Timespan) {
+    const a = left instanceof Timespan ? left.milliseconds : toNumber(left);
+    const b = right instanceof Timespan ? right.milliseconds : toNumber(right);
+    if (a === null || b === null) {
+      return null;
+    }
+    if (left instanceof Timespan && right instanceof Timespan) {
+      return operator === '/' ? a / b : operator === '+' || operator === '-' || operator === '%' ? new Timespan(numeric(operator, a, b)) : null;
+    }
+    return operator === '*' || (operator === '/' && left instanceof Timespan) ? new Timespan(numeric(operator, a, b)) : null;
+  }
+
+  const a = toNumber(left);
+  const b = toNumber(right);
+  return a === null || b === null || typeof left === 'string' || typeof right === 'string' ? null : numeric(operator, a, b);
+}
+
+function numeric(operator: string, a: number, b: number): number {
+  switch (operator) {
+    case '+':
+      return a + b;
+    case '-':
+      return a - b;
+    case '*':
+      return a * b;
+    case '/':
+      return a / b;
+    default:
+      return a % b;
+  }
+}
+
+function addTime(date: Date, offset: unknown): Date | null {
+  return offset instanceof Timespan ? new Date(date.getTime() + offset.milliseconds) : null;
+}
+
+/**
+ * contains, has, hasprefix, hassuffix, startswith and endswith, with _cs and ! variants
+ */
+function stringOperator(operator: string, left: unknown, right: unknown): boolean {
+  const negated = operator.startsWith('!');
+  const name = negated ? operator.slice(1) : operator;
+  const caseSensitive = name.endsWith('_cs');
+  const base = caseSensitive ? name.slice(0, -3) : name;
+
+  let text = toText(left);
+  let term = toText(right);
+  if (!caseSensitive) {
+    text = text.toLowerCase();
+    term = term.toLowerCase();
+  }
+
+  let result: boolean;
+  switch (base) {
+    case 'contains':
+      result = text.includes(term);
+      break;
+    case 'startswith':
+      result = text.startsWith(term);
+      break;
+    case 'endswith':
+      result = text.endsWith(term);
+      break;
+    case 'has':
+    case 'hasprefix':
+    case 'hassuffix': {
+      // Terms are runs of letters and digits
+      const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const before = base === 'hassuffix' ? '' : '(?:^|[^\\p{L}\\p{N}])';
+      const after = base === 'hasprefix' ? '' : '(?:$|[^\\p{L}\\p{N}])';
+      result = new RegExp(`${before}${escaped}${after}`, 'u').test(text);
+      break;
+    }
+    default:
+      throw unsupported(`The '${operator}' operator`);
+  }
+  return negated ? !result : result;
+}
+
+function sumOf(values: unknown[]): unknown {
+  if (values.length > 0 && values.every(value => value instanceof Timespan)) {
+    return new Timespan(values.reduce<number>((total, value) => total + (value as Timespan).milliseconds, 0));
+  }
+  return values.map(toNumber).reduce<number>((total, value) => total + (value ?? 0), 0);
+}
+
+function varianceOf(values: number[], sample: boolean): number | null {
+  const count = sample ? values.length - 1 : values.length;
+  if (count <= 0) {
+    return values.length > 0 ? 0 : null;
+  }
+  const mean = values.reduce((total, value) => total + value, 0) / values.length;
+  return values.reduce((total, value) => total + (value - mean) ** 2, 0) / count;
+}
+
+/**
+ * Nearest-rank percentile of numbers, datetimes or timespans
+ */
+function percentileOf(values: unknown[], percentage: number | null): unknown {
+  const sorted = values
+    .filter(value => ['number', 'datetime', 'timespan'].includes(orderValue(value)?.kind ?? ''))
+    .sort((a, b) => compareValues(a, b) ?? 0);
+  if (sorted.length === 0 || percentage === null) {
+    return null;
+  }
+  const rank = Math.ceil((Math.min(Math.max(percentage, 0), 100) / 100) * sorted.length);
+  return sorted[Math.max(rank - 1, 0)];
+}
+
+function bin(value: unknown, size: unknown): unknown {
+  if (value instanceof Date) {
+    return size instanceof Timespan && size.milliseconds > 0
+      ? new Date(Math.floor(value.getTime() / size.milliseconds) * size.milliseconds)
+      : null;
+  }
+  if (value instanceof Timespan) {
+    return size instanceof Timespan && size.milliseconds > 0
+      ? new Timespan(Math.floor(value.milliseconds / size.milliseconds) * size.milliseconds)
+      : null;
+  }
+  const number = toNumber(value);
+  const step = toNumber(size);
+  return number === null || step === null || step <= 0 || typeof value === 'string' ? null : Math.floor(number / step) * step;
+}
+
+function startOf(value: unknown, unit: 'day' | 'week' | 'month' | 'year'): Date | null {
+  const date = toDate(value);
+  if (!date) {
+    return null;
+  }
+  switch (unit) {
+    case 'day':
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    case 'week':
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - date.getUTCDay()));
+    case 'month':
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+    case 'year':
+      return new Date(Date.UTC(date.getUTCFullYear(), 0, 1));
+  }
+}
+
+function datetimeDiff(part: unknown, first: unknown, second: unknown): number | null {
+  const a = toDate(first);
+  const b = toDate(second);
+  const unit = String(part).toLowerCase();
+  if (!a || !b) {
+    return null;
+  }
+  if (unit === 'year') {
+    return a.getUTCFullYear() - b.getUTCFullYear();
+  }
+  if (unit === 'month') {
+    return (a.getUTCFullYear() - b.getUTCFullYear()) * 12 + a.getUTCMonth() - b.getUTCMonth();
+  }
+  const size = DATETIME_PART_MS[unit];
+  if (!size) {
+    throw new Error(`Unknown datetime part '${unit}'`);
+  }
+  return Math.floor(a.getTime() / size) - Math.floor(b.getTime() / size);
+}
+
+function datetimeAdd(part: unknown, amount: unknown, value: unknown): Date | null {
+  const date = toDate(value);
+  const count = toLong(amount);
+  const unit = String(part).toLowerCase();
+  if (!date || count === null) {
+    return null;
+  }
+  if (unit === 'year' || unit === 'month') {
+    const result = new Date(date);
+    result.setUTCMonth(result.getUTCMonth() + (unit === 'year' ? count * 12 : count));
+    return result;
+  }
+  const size = DATETIME_PART_MS[unit];
+  if (!size) {
+    throw new Error(`Unknown datetime part '${unit}'`);
+  }
+  return new Date(date.getTime() + count * size);
+}
+
+function formatDatetime(value: unknown, format: unknown): string | null {
+  const date = toDate(value);
+  if (!date) {
+    return null;
+  }
+  const pad = (number: number, length = 2) => String(number).padStart(length, '0');
+  const hours = date.getUTCHours();
+  const parts: Record<string, string> = {
+    yyyy: String(date.getUTCFullYear()),
+    yy: pad(date.getUTCFullYear() % 100),
+    MM: pad(date.getUTCMonth() + 1),
+    dd: pad(date.getUTCDate()),
+    HH: pad(hours),
+    hh: pad(hours % 12 || 12),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+    tt: hours < 12 ? 'AM' : 'PM'
+  };
+  return toText(format).replace(/yyyy|yy|MM|dd|HH|hh|mm|ss|tt|f{1,7}/g, token =>
+    token.startsWith('f') ? pad(date.getUTCMilliseconds(), 3).padEnd(7, '0').slice(0, token.length) : parts[token]);
+}
+
+/**
+ * [-][d.]hh:mm:ss[.fffffff] as Kusto formats timespans
+ */
+function formatTimespanValue(milliseconds: number): string {
+  const sign = milliseconds < 0 ? '-' : '';
+  const ticks = Math.round(Math.abs(milliseconds) * 10000);
+  const totalSeconds = Math.floor(ticks / 10000000);
+  const fraction = ticks % 10000000;
+  const days = Math.floor(totalSeconds / 86400);
+  const pad = (number: number) => String(number).padStart(2, '0');
+  const clock = `${pad(Math.floor(totalSeconds / 3600) % 24)}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}`;
+  return `${sign}${days > 0 ? `${days}.` : ''}${clock}${fraction > 0 ? `.${String(fraction).padStart(7, '0')}` : ''}`;
+}
+
+/**
+ * Scalar functions whose arguments are all evaluated; null inputs give null results
+ * unless the function exists to handle them (isnull, coalesce, ...)
+ */
+const SCALAR_FUNCTIONS: Record<string, (args: unknown[]) => unknown> = {
+  bin: ([value, size]) => bin(value, size),
+  floor: ([value, size]) => bin(value, size),
+  startofday: ([value]) => startOf(value, 'day'),
+  startofweek: ([value]) => startOf(value, 'week'),
+  startofmonth: ([value]) => startOf(value, 'month'),
+  startofyear: ([value]) => startOf(value, 'year'),
+  dayofweek: ([value]) => {
+    const date = toDate(value);
+    return date ? new Timespan(date.getUTCDay() * DAY_MS) : null;
+  },
+  dayofmonth: ([value]) => toDate(value)?.getUTCDate() ?? null,
+  hourofday: ([value]) => toDate(value)?.getUTCHours() ?? null,
+  getmonth: ([value]) => toDate(value) ? toDate(value)!.getUTCMonth() + 1 : null,
+  monthofyear: ([value]) => toDate(value) ? toDate(value)!.getUTCMonth() + 1 : null,
+  getyear: ([value]) => toDate(value)?.getUTCFullYear() ?? null,
+  datetime_diff: ([part, first, second]) => datetimeDiff(part, first, second),
+  datetime_add: ([part, amount, value]) => datetimeAdd(part, amount, value),
+  format_datetime: ([value, format]) => formatDatetime(value, format),
+  todatetime: ([value]) => toDate(value),
+  totimespan: ([value]) => toTimespan(value),
+  tostring: ([value]) => toText(value),
+  toint: ([value]) => toLong(value),
+  tolong: ([value]) => toLong(value),
+  todouble: ([value]) => toNumber(value),
+  toreal: ([value]) => toNumber(value),
+  todecimal: ([value]) => toNumber(value),
+  tobool: ([value]) => toBool(value),
+  toboolean: ([value]) => toBool(value),
+  todynamic: ([value]) => toDynamic(value),
+  parse_json: ([value]) => toDynamic(value),
+  strlen: ([value]) => value === null ? null : toText(value).length,
+  tolower: ([value]) => value === null ? null : toText(value).toLowerCase(),
+  toupper: ([value]) => value === null ? null : toText(value).toUpperCase(),
+  substring: ([value, start, length]) => {
+    const from = toLong(start) ?? 0;
+    const count = length === undefined ? undefined : toLong(length) ?? 0;
+    return toText(value).substring(Math.max(from, 0), count === undefined ? undefined : Math.max(from, 0) + Math.max(count, 0));
+  },
+  strcat: args => args.map(toText).join(''),
+  strcat_delim: ([delimiter, ...args]) => args.map(toText).join(toText(delimiter)),
+  split: ([value, delimiter, index]) => {
+    const parts = toText(value).split(toText(delimiter));
+    return index === undefined ? parts : parts[toLong(index) ?? 0] === undefined ? [] : [parts[toLong(index) ?? 0]];
+  },
+  trim: ([pattern, value]) => toText(value).replace(new RegExp(`^(?:${toText(pattern)})+|(?:${toText(pattern)})+$`, 'g'), ''),
+  trim_start: ([pattern, value]) => toText(value).replace(new RegExp(`^(?:${toText(pattern)})+`), ''),
+  trim_end: ([pattern, value]) => toText(value).replace(new RegExp(`(?:${toText(pattern)})+$`), ''),
+  replace_string: ([value, lookup, replacement]) => toText(value).split(toText(lookup)).join(toText(replacement)),
+  replace_regex: ([value, pattern, replacement]) =>
+    toText(value).replace(new RegExp(toText(pattern), 'g'), toText(replacement).replace(/\\(\d)/g, '$$$1')),
+  indexof: ([value, lookup]) => value === null ? null : toText(value).indexOf(toText(lookup)),
+  extract: ([pattern, group, value, type]) => {
+    const match = new RegExp(toText(pattern)).exec(toText(value));
+    const extracted = match?.[toLong(group) ?? 0];
+    return extracted === undefined ? null : type === undefined ? extracted : convertKqlValue(extracted, toText(type));
+  },
+  isempty: ([value]) => value === null || value === '',
+  isnotempty: ([value]) => value !== null && value !== '',
+  isnull: ([value]) => value === null,
+  isnotnull: ([value]) => value !== null,
+  coalesce: args => args.find(value => value !== null && value !== '') ?? null,
+  not: ([value]) => value === null ? null : !toBool(value),
+  round: ([value, digits]) => {
+    const number = toNumber(value);
+    const factor = 10 ** (toLong(digits) ?? 0);
+    return number === null ? null : Math.round(number * factor) / factor;
+  },
+  abs: ([value]) => value instanceof Timespan ? new Timespan(Math.abs(value.milliseconds)) : mapNumber(value, Math.abs),
+  ceiling: ([value]) => mapNumber(value, Math.ceil),
+  sqrt: ([value]) => mapNumber(value, Math.sqrt),
+  exp: ([value]) => mapNumber(value, Math.exp),
+  log: ([value]) => mapNumber(value, Math.log),
+  log10: ([value]) => mapNumber(value, Math.log10),
+  pow: ([base, exponent]) => {
+    const a = toNumber(base);
+    const b = toNumber(exponent);
+    return a === null || b === null ? null : a ** b;
+  },
+  min_of: args => args.filter(value => value !== null).reduce<unknown>((min, value) => min === null || (compareValues(value, min) ?? 0) < 0 ? value : min, null),
+  max_of: args => args.filter(value => value !== null).reduce<unknown>((max, value) => max === null || (compareValues(value, max) ?? 0) > 0 ? value : max, null),
+  array_length: ([value]) => {
+    const dynamic = toDynamic(value);
+    return Array.isArray(dynamic) ? dynamic.length : null;
+  },
+  bag_keys: ([value]) => {
+    const dynamic = toDynamic(value);
+    return dynamic !== null && typeof dynamic === 'object' && !Array.isArray(dynamic) ? Object.keys(dynamic) : null;
+  },
+  pack_array: args => args.map(serializeValue),
+  pack: args => packBag(args),
+  bag_pack: args => packBag(args),
+  gettype: ([value]) => value === null ? 'null' : typeOfValue(value) === 'dynamic' ? (Array.isArray(value) ? 'array' : 'dictionary') : typeOfValue(value)
+};
+
+function mapNumber(value: unknown, transform: (value: number) => number): number | null {
+  const number = toNumber(value);
+  return number === null ? null : transform(number);
+}
+
+function packBag(args: unknown[]): Record<string, unknown> {
+  const bag: Record<string, unknown> = {};
+  for (let index = 0; index + 1 < args.length; index += 2) {
+    bag[toText(args[index])] = serializeValue(args[index + 1]);
+  }
+  return bag;
+}
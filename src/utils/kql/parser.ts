@@ -0,0 +1,1343 @@
+import { KqlDiagnostic } from '../../types';
+import { KqlToken, TIMESPAN_UNITS, createDiagnostic, tokenizeKql } from './tokenizer';
+import {
+  KqlCallExpression,
+  KqlDatatableOperator,
+  KqlExpression,
+  KqlFunctionDefinition,
+  KqlFunctionParameter,
+  KqlLetStatement,
+  KqlLiteral,
+  KqlManagementCommand,
+  KqlNamedExpression,
+  KqlOperator,
+  KqlOperatorOption,
+  KqlParsePatternPart,
+  KqlPipeline,
+  KqlRangeOperator,
+  KqlScript,
+  KqlSearchOperator,
+  KqlSetStatement,
+  KqlSortItem,
+  KqlSourceOperator,
+  KqlStatement,
+  KqlUnionOperator,
+  KqlWildcard
+} from './ast';
+
+export interface KqlParseResult {
+  script: KqlScript;
+  tokens: KqlToken[];
+  diagnostics: KqlDiagnostic[];
+}
+
+/**
+ * Tabular operators that may follow a pipe
+ */
+export const KQL_TABULAR_OPERATORS = [
+  'where', 'filter', 'project', 'project-away', 'project-keep', 'project-rename', 'project-reorder',
+  'extend', 'summarize', 'order', 'sort', 'top', 'take', 'limit', 'count', 'distinct', 'join', 'lookup',
+  'union', 'mv-expand', 'mv-apply', 'parse', 'parse-where', 'parse-kv', 'render', 'make-series', 'evaluate',
+  'as', 'getschema', 'serialize', 'sample', 'sample-distinct', 'search', 'invoke', 'top-nested',
+  'top-hitters', 'facet', 'fork', 'partition', 'scan', 'consume', 'reduce'
+];
+
+/**
+ * String operators usable in predicates; each may also be negated with a leading "!"
+ */
+export const KQL_STRING_OPERATORS = [
+  'contains', 'contains_cs', 'has', 'has_cs', 'hasprefix', 'hasprefix_cs', 'hassuffix', 'hassuffix_cs',
+  'startswith', 'startswith_cs', 'endswith', 'endswith_cs'
+];
+
+const TABULAR_OPERATOR_SET = new Set(KQL_TABULAR_OPERATORS);
+const STRING_OPERATOR_SET = new Set(KQL_STRING_OPERATORS);
+const SOURCE_OPERATORS = new Set(['union', 'search', 'print', 'range', 'datatable']);
+const COMPARISON_OPERATORS = new Set(['==', '!=', '<>', '<', '<=', '>', '>=', '=~', '!~']);
+const OPTION_NAMES = new Set(['kind', 'withsource', 'isfuzzy', 'bagexpansion', 'with_itemindex', 'flags', 'decodeblocks']);
+
+/**
+ * Control commands that modify data or metadata when written without the leading dot
+ */
+const BARE_MANAGEMENT_VERBS = new Set(['drop', 'delete', 'truncate', 'create', 'alter', 'purge', 'ingest']);
+
+class KqlSyntaxError extends Error {
+  constructor(message: string, public readonly start: number, public readonly end: number) {
+    super(message);
+    this.name = 'KqlSyntaxError';
+  }
+}
+
+/**
+ * Recursive descent parser over the token stream of a single query text
+ */
+class KqlParser {
+  private readonly tokens: KqlToken[];
+  private pos = 0;
+  private lastEnd = 0;
+  readonly diagnostics: KqlDiagnostic[] = [];
+
+  constructor(private readonly text: string, tokens: KqlToken[]) {
+    this.tokens = tokens.filter(token => token.kind !== 'comment');
+  }
+
+  parseScript(): KqlScript {
+    const statements: KqlStatement[] = [];
+
+    while (!this.isEof()) {
+      if (this.isPunct(';')) {
+        this.next();
+        continue;
+      }
+
+      try {
+        const statement = this.parseStatement();
+        statements.push(statement);
+        if (!this.isEof() && !this.isPunct(';')) {
+          const expected = statement.kind === 'Query' ? `'|' or ';'` : `';'`;
+          this.fail(`Expected ${expected} but found ${this.describe(this.peek())}`);
+        }
+      } catch (error) {
+        if (!(error instanceof KqlSyntaxError)) {
+          throw error;
+        }
+        this.diagnostics.push(createDiagnostic(this.text, error.start, error.end, error.message));
+        this.skipToStatementEnd();
+      }
+    }
+
+    return { kind: 'Script', statements, start: 0, end: this.text.length };
+  }
+
+  // ----- Statements -----
+
+  private parseStatement(): KqlStatement {
+    const token = this.peek();
+
+    if (this.isPunct('.') && this.peek(1).kind === 'identifier' && this.peek(1).start === token.end) {
+      this.next();
+      return this.parseManagementCommand(token, `.${this.readHyphenatedName()}`);
+    }
+
+    if (token.kind === 'identifier') {
+      const following = this.peek(1);
+      if (token.value === 'let' && following.kind === 'identifier') {
+        return this.parseLet();
+      }
+      if (token.value === 'set' && following.kind === 'identifier') {
+        return this.parseSet();
+      }
+      if (BARE_MANAGEMENT_VERBS.has(token.value.toLowerCase()) && following.kind === 'identifier') {
+        this.next();
+        return this.parseManagementCommand(token, token.value.toLowerCase());
+      }
+    }
+
+    const pipeline = this.parsePipeline();
+    return { kind: 'Query', pipeline, start: pipeline.start, end: pipeline.end };
+  }
+
+  private parseManagementCommand(startToken: KqlToken, command: string): KqlManagementCommand {
+    while (!this.isEof() && !this.isPunct(';')) {
+      this.next();
+    }
+    return {
+      kind: 'ManagementCommand',
+      command,
+      text: this.text.slice(startToken.start, this.lastEnd),
+      start: startToken.start,
+      end: this.lastEnd
+    };
+  }
+
+  private parseLet(): KqlLetStatement {
+    const start = this.next().start;
+    const name = this.expectIdentifier('a name after let').value;
+    this.expectOperator('=');
+
+    const value = this.isPunct('(') && this.looksLikeFunctionDefinition()
+      ? this.parseFunctionDefinition()
+      : this.parseTabularOrScalar();
+
+    return { kind: 'Let', name, value, start, end: this.lastEnd };
+  }
+
+  private parseSet(): KqlSetStatement {
+    const start = this.next().start;
+    const option = this.readDottedName();
+    let value: string | undefined;
+    if (this.isOperator('=')) {
+      this.next();
+      value = this.next().value;
+    }
+    return { kind: 'Set', option, value, start, end: this.lastEnd };
+  }
+
+  private looksLikeFunctionDefinition(): boolean {
+    const close = this.findClosingIndex(this.pos);
+    return close !== -1 && this.tokens[close + 1]?.value === '{' && this.tokens[close + 1].kind === 'punctuation';
+  }
+
+  private parseFunctionDefinition(): KqlFunctionDefinition {
+    const start = this.expectPunct('(').start;
+    const parameters: KqlFunctionParameter[] = [];
+
+    while (!this.isPunct(')')) {
+      const nameToken = this.expectIdentifier('a parameter name');
+      this.expectPunct(':');
+      let type: string;
+      if (this.isPunct('(')) {
+        // Tabular parameter schema such as T:(*) or T:(Name:string)
+        const open = this.next();
+        const closeIndex = this.findClosingIndex(this.pos - 1);
+        if (closeIndex === -1) {
+          this.fail(`Expected ')' to close the parameter schema`, open);
+        }
+        this.pos = closeIndex + 1;
+        this.lastEnd = this.tokens[closeIndex].end;
+        type = this.text.slice(open.start, this.lastEnd);
+      } else {
+        type = this.expectIdentifier('a parameter type').value;
+      }
+
+      let defaultValue: KqlExpression | undefined;
+      if (this.isOperator('=')) {
+        this.next();
+        defaultValue = this.parseExpression();
+      }
+      parameters.push({ name: nameToken.value, type, defaultValue, start: nameToken.start, end: this.lastEnd });
+
+      if (!this.isPunct(',')) {
+        break;
+      }
+      this.next();
+    }
+    this.expectPunct(')');
+    this.expectPunct('{');
+
+    const body: KqlStatement[] = [];
+    let result: KqlExpression | undefined;
+    while (!this.isPunct('}')) {
+      if (this.isEof()) {
+        this.fail(`Expected '}' to close the function body`);
+      }
+      if (this.isPunct(';')) {
+        this.next();
+        continue;
+      }
+      if (result) {
+        this.fail(`Expected '}' after the function result but found ${this.describe(this.peek())}`);
+      }
+      const statement = this.parseFunctionStatement();
+      if (statement.kind === 'Query' || statement.kind === 'Let' || statement.kind === 'Set' || statement.kind === 'ManagementCommand') {
+        body.push(statement);
+      } else {
+        result = statement;
+      }
+      if (!this.isPunct(';') && !this.isPunct('}')) {
+        this.fail(`Expected ';' or '}' but found ${this.describe(this.peek())}`);
+      }
+    }
+    this.expectPunct('}');
+
+    return { kind: 'Function', parameters, body, ...(result && { result }), start, end: this.lastEnd };
+  }
+
+  /**
+   * Statement of a function body: the last one may be a scalar expression, and a bare name
+   * (a table or tabular parameter) is taken as a query
+   */
+  private parseFunctionStatement(): KqlStatement | KqlExpression {
+    const token = this.peek();
+    const isStatement = (token.kind === 'identifier' && ['let', 'set'].includes(token.value) && this.peek(1).kind === 'identifier')
+      || (token.kind === 'identifier' && BARE_MANAGEMENT_VERBS.has(token.value.toLowerCase()) && this.peek(1).kind === 'identifier')
+      || (this.isPunct('.') && this.peek(1).kind === 'identifier' && this.peek(1).start === token.end);
+    if (isStatement) {
+      return this.parseStatement();
+    }
+
+    const value = this.parseTabularOrScalar();
+    if (value.kind === 'Pipeline') {
+      return { kind: 'Query', pipeline: value, start: value.start, end: value.end };
+    }
+    if (value.kind === 'Name' || value.kind === 'TabularSubquery') {
+      const pipeline: KqlPipeline = { kind: 'Pipeline', source: value, operators: [], start: value.start, end: value.end };
+      return { kind: 'Query', pipeline, start: value.start, end: value.end };
+    }
+    return value;
+  }
+
+  // ----- Tabular expressions -----
+
+  private parseTabularOrScalar(): KqlExpression | KqlPipeline {
+    if (this.isSourceOperatorStart()) {
+      return this.parsePipeline();
+    }
+    const start = this.peek().start;
+    const expression = this.parseExpression();
+    return this.isPunct('|') ? this.continuePipeline(expression, start) : expression;
+  }
+
+  private parsePipeline(): KqlPipeline {
+    const start = this.peek().start;
+    const source = this.isSourceOperatorStart() ? this.parseSourceOperator() : this.parseSourceExpression();
+    return this.continuePipeline(source, start);
+  }
+
+  private continuePipeline(source: KqlExpression | KqlSourceOperator, start: number): KqlPipeline {
+    const operators: KqlOperator[] = [];
+    while (this.isPunct('|')) {
+      this.next();
+      operators.push(this.parseOperator());
+    }
+    return { kind: 'Pipeline', source, operators, start, end: this.lastEnd };
+  }
+
+  private parseSourceExpression(): KqlExpression {
+    const token = this.peek();
+    if (token.kind !== 'identifier' && !this.isPunct('(') && !this.isPunct('[')) {
+      this.fail(`Expected a table name or tabular expression but found ${this.describe(token)}`);
+    }
+    const expression = this.parsePostfix();
+    if (!['Name', 'Call', 'Member', 'TabularSubquery', 'Parenthesized'].includes(expression.kind)) {
+      this.fail(`Expected a table name or tabular expression but found ${this.describe(token)}`, token);
+    }
+    return expression;
+  }
+
+  private isSourceOperatorStart(): boolean {
+    const token = this.peek();
+    if (token.kind !== 'identifier' || !SOURCE_OPERATORS.has(token.value)) {
+      return false;
+    }
+    const following = this.peek(1);
+    if (token.value === 'range') {
+      return following.kind === 'identifier'; // range() is also a scalar function
+    }
+    if (token.value === 'datatable') {
+      return following.value === '(';
+    }
+    return following.kind !== 'eof' && !['|', ';', ')', ',', '.', '='].includes(following.value);
+  }
+
+  private parseSourceOperator(): KqlSourceOperator {
+    const token = this.next();
+    switch (token.value) {
+      case 'union':
+        return this.parseUnion(token);
+      case 'search':
+        return this.parseSearch(token);
+      case 'print':
+        return { kind: 'Print', name: 'print', columns: this.parseNamedExpressionList(), start: token.start, end: this.lastEnd };
+      case 'range':
+        return this.parseRange(token);
+      default:
+        return this.parseDatatable(token);
+    }
+  }
+
+  private parseOperator(): KqlOperator {
+    const token = this.peek();
+    if (token.kind !== 'identifier') {
+      this.fail(`Expected a query operator after '|' but found ${this.describe(token)}`);
+    }
+    const name = this.readHyphenatedName();
+    const start = token.start;
+
+    switch (name) {
+      case 'where':
+      case 'filter':
+        return { kind: 'Where', name, predicate: this.parseExpression(), start, end: this.lastEnd };
+
+      case 'project':
+      case 'project-away':
+      case 'project-keep':
+      case 'project-reorder': {
+        const columns = this.parseNamedExpressionList(name !== 'project');
+        return { kind: 'Project', name, columns, start, end: this.lastEnd };
+      }
+
+      case 'project-rename': {
+        const columns = this.parseNamedExpressionList();
+        const unnamed = columns.find(column => !column.name);
+        if (unnamed) {
+          this.fail(`project-rename expects 'NewName = ExistingName'`, this.tokenAt(unnamed.start, unnamed.end));
+        }
+        return { kind: 'Project', name, columns, start, end: this.lastEnd };
+      }
+
+      case 'extend':
+        return { kind: 'Extend', name, columns: this.parseNamedExpressionList(), start, end: this.lastEnd };
+
+      case 'summarize': {
+        const options = this.parseOptions();
+        const aggregates = this.isIdentifier('by') || this.isOperatorEnd() ? [] : this.parseNamedExpressionList();
+        let by: KqlNamedExpression[] = [];
+        if (this.isIdentifier('by')) {
+          this.next();
+          by = this.parseNamedExpressionList();
+        }
+        if (aggregates.length === 0 && by.length === 0) {
+          this.fail(`summarize requires an aggregation or a 'by' clause`, token);
+        }
+        return { kind: 'Summarize', name, options, aggregates, by, start, end: this.lastEnd };
+      }
+
+      case 'order':
+      case 'sort': {
+        this.expectIdentifier(`'by' after '${name}'`, 'by');
+        return { kind: 'Sort', name, items: this.parseSortList(), start, end: this.lastEnd };
+      }
+
+      case 'top': {
+        const count = this.parseExpression();
+        this.expectIdentifier(`'by' after the number of rows in top`, 'by');
+        return { kind: 'Top', name, count, items: [this.parseSortItem()], start, end: this.lastEnd };
+      }
+
+      case 'take':
+      case 'limit':
+        return { kind: 'Take', name, count: this.parseExpression(), start, end: this.lastEnd };
+
+      case 'count':
+        return { kind: 'Count', name, start, end: this.lastEnd };
+
+      case 'distinct':
+        return { kind: 'Distinct', name, columns: this.parseNamedExpressionList(true), start, end: this.lastEnd };
+
+      case 'join':
+      case 'lookup': {
+        const options = this.parseOptions();
+        let right: KqlPipeline;
+        if (this.isPunct('(')) {
+          this.next();
+          right = this.parsePipeline();
+          this.expectPunct(')');
+        } else {
+          const sourceStart = this.peek().start;
+          right = { kind: 'Pipeline', source: this.parseSourceExpression(), operators: [], start: sourceStart, end: this.lastEnd };
+        }
+        this.expectIdentifier(`'on' after the ${name} table`, 'on');
+        const on = [this.parseExpression()];
+        while (this.isPunct(',')) {
+          this.next();
+          on.push(this.parseExpression());
+        }
+        return { kind: 'Join', name, options, right, on, start, end: this.lastEnd };
+      }
+
+      case 'union':
+        return this.parseUnion(token);
+
+      case 'search':
+        return this.parseSearch(token);
+
+      case 'mv-expand': {
+        const options = this.parseOptions();
+        const columns = this.parseNamedExpressionList(false, true);
+        let limit: KqlExpression | undefined;
+        if (this.isIdentifier('limit')) {
+          this.next();
+          limit = this.parseExpression();
+        }
+        return { kind: 'MvExpand', name, options, columns, limit, start, end: this.lastEnd };
+      }
+
+      case 'parse':
+      case 'parse-where':
+        return this.parseParseOperator(token, name);
+
+      case 'render': {
+        const visualization = this.expectIdentifier('a visualization type after render').value;
+        let properties: KqlNamedExpression[] = [];
+        if (this.isIdentifier('with')) {
+          this.next();
+          this.expectPunct('(');
+          properties = this.parseNamedExpressionList();
+          this.expectPunct(')');
+        }
+        return { kind: 'Render', name, visualization, properties, start, end: this.lastEnd };
+      }
+
+      case 'evaluate': {
+        const options = this.parseOptions();
+        const plugin = this.parsePostfix();
+        if (plugin.kind !== 'Call') {
+          this.fail('Expected a plugin call after evaluate, e.g. evaluate bag_unpack(Column)', this.tokenAt(plugin.start, plugin.end));
+        }
+        return { kind: 'Evaluate', name, options, plugin, start, end: this.lastEnd };
+      }
+
+      case 'as': {
+        this.parseOptions(); // e.g. hint.materialized=true
+        const alias = this.expectIdentifier('a name after as').value;
+        return { kind: 'As', name, alias, start, end: this.lastEnd };
+      }
+
+      default:
+        if (TABULAR_OPERATOR_SET.has(name)) {
+          return this.parseGenericOperator(token, name);
+        }
+        if (TABULAR_OPERATOR_SET.has(name.toLowerCase())) {
+          this.fail(`Unknown query operator '${name}' (operators are case-sensitive, did you mean '${name.toLowerCase()}'?)`, token);
+        }
+        this.fail(`Unknown query operator '${name}'`, this.tokenAt(start, this.lastEnd));
+    }
+  }
+
+  private parseUnion(token: KqlToken): KqlUnionOperator {
+    const options = this.parseOptions();
+    const tables: KqlPipeline[] = [];
+
+    do {
+      if (tables.length > 0) {
+        this.next(); // ','
+      }
+      const itemStart = this.peek().start;
+      if (this.isPunct('(')) {
+        this.next();
+        tables.push(this.parsePipeline());
+        this.expectPunct(')');
+        continue;
+      }
+      const wildcard = this.tryParseWildcard();
+      const source = wildcard || this.parseSourceExpression();
+      tables.push({ kind: 'Pipeline', source, operators: [], start: itemStart, end: this.lastEnd });
+    } while (this.isPunct(','));
+
+    return { kind: 'Union', name: 'union', options, tables, start: token.start, end: this.lastEnd };
+  }
+
+  private parseSearch(token: KqlToken): KqlSearchOperator {
+    const options = this.parseOptions();
+    const tables: string[] = [];
+
+    if (this.isIdentifier('in') && this.peek(1).value === '(') {
+      this.next();
+      this.next();
+      do {
+        if (tables.length > 0) {
+          this.next(); // ','
+        }
+        const wildcard = this.tryParseWildcard();
+        tables.push(wildcard ? wildcard.pattern : this.expectIdentifier('a table name').value);
+      } while (this.isPunct(','));
+      this.expectPunct(')');
+    }
+
+    let predicate: KqlExpression;
+    if (this.isOperator('*')) {
+      const star = this.next();
+      predicate = { kind: 'Wildcard', pattern: '*', start: star.start, end: star.end };
+    } else {
+      predicate = this.parseExpression();
+      if (this.isPunct(':')) {
+        // Column-scoped term: search Message:"timeout"
+        this.next();
+        const right = this.parseExpression();
+        predicate = { kind: 'Binary', operator: ':', left: predicate, right, start: predicate.start, end: this.lastEnd };
+      }
+    }
+
+    return { kind: 'Search', name: 'search', options, tables, predicate, start: token.start, end: this.lastEnd };
+  }
+
+  private parseRange(token: KqlToken): KqlRangeOperator {
+    const column = this.expectIdentifier('a column name after range').value;
+    this.expectIdentifier(`'from' in range`, 'from');
+    const from = this.parseExpression();
+    this.expectIdentifier(`'to' in range`, 'to');
+    const to = this.parseExpression();
+    this.expectIdentifier(`'step' in range`, 'step');
+    const step = this.parseExpression();
+    return { kind: 'Range', name: 'range', column, from, to, step, start: token.start, end: this.lastEnd };
+  }
+
+  private parseDatatable(token: KqlToken): KqlDatatableOperator {
+    this.expectPunct('(');
+    const columns: Array<{ name: string; type: string }> = [];
+    do {
+      if (columns.length > 0) {
+        this.next(); // ','
+      }
+      const columnName = this.expectIdentifier('a column name').value;
+      this.expectPunct(':');
+      columns.push({ name: columnName, type: this.expectIdentifier('a column type').value });
+    } while (this.isPunct(','));
+    this.expectPunct(')');
+
+    this.expectPunct('[');
+    const values: KqlExpression[] = [];
+    while (!this.isPunct(']')) {
+      values.push(this.parseExpression());
+      if (!this.isPunct(',')) {
+        break;
+      }
+      this.next();
+    }
+    this.expectPunct(']');
+
+    return { kind: 'Datatable', name: 'datatable', columns, values, start: token.start, end: this.lastEnd };
+  }
+
+  private parseParseOperator(token: KqlToken, name: string): KqlOperator {
+    const options = this.parseOptions();
+    const source = this.parseExpression();
+    this.expectIdentifier(`'with' after the ${name} source expression`, 'with');
+
+    const pattern: KqlParsePatternPart[] = [];
+    while (!this.isOperatorEnd()) {
+      const part = this.next();
+      if (part.kind === 'string') {
+        pattern.push({ kind: 'text', value: decodeStringLiteral(part.value) });
+      } else if (part.kind === 'operator' && part.value === '*') {
+        pattern.push({ kind: 'wildcard' });
+      } else if (part.kind === 'identifier') {
+        let type: string | undefined;
+        if (this.isPunct(':')) {
+          this.next();
+          type = this.expectIdentifier('a column type').value;
+        }
+        pattern.push({ kind: 'column', name: part.value, type });
+      } else {
+        this.fail(`Unexpected ${this.describe(part)} in ${name} pattern`, part);
+      }
+    }
+
+    if (pattern.length === 0) {
+      this.fail(`Expected a pattern after 'with'`);
+    }
+    return { kind: 'Parse', name, options, source, pattern, start: token.start, end: this.lastEnd };
+  }
+
+  /**
+   * Consume an operator's arguments without interpreting them, checking that brackets balance
+   */
+  private parseGenericOperator(token: KqlToken, name: string): KqlOperator {
+    const stack: KqlToken[] = [];
+    const pairs: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+    while (!this.isEof()) {
+      const current = this.peek();
+      if (current.kind === 'punctuation') {
+        if (stack.length === 0 && ['|', ';', ')', ']', '}'].includes(current.value)) {
+          break;
+        }
+        if (['(', '[', '{'].includes(current.value)) {
+          stack.push(current);
+        } else if (pairs[current.value]) {
+          const open = stack.pop();
+          if (!open || open.value !== pairs[current.value]) {
+            this.fail(`Unexpected '${current.value}'`, current);
+          }
+        }
+      }
+      this.next();
+    }
+
+    if (stack.length > 0) {
+      const open = stack[stack.length - 1];
+      this.fail(`'${open.value}' is never closed`, open);
+    }
+    return { kind: 'Generic', name, text: this.text.slice(token.start, this.lastEnd), start: token.start, end: this.lastEnd };
+  }
+
+  // ----- Operator arguments -----
+
+  /**
+   * Parse `name=value` options (kind=inner, hint.strategy=shuffle, withsource=T, ...)
+   */
+  private parseOptions(): KqlOperatorOption[] {
+    const options: KqlOperatorOption[] = [];
+
+    while (this.peek().kind === 'identifier') {
+      const token = this.peek();
+      const isHint = token.value === 'hint' && this.isPunct('.', 1);
+      if (!isHint && !(OPTION_NAMES.has(token.value) && this.isOperator('=', 1))) {
+        break;
+      }
+      // "kind = count()" in summarize is an aggregate, not an option
+      const valueIndex = isHint ? 4 : 2;
+      if (this.isPunct('(', valueIndex + 1) && this.peek(valueIndex + 1).start === this.peek(valueIndex).end) {
+        break;
+      }
+
+      const name = this.readDottedName();
+      this.expectOperator('=');
+      const value = this.next();
+      if (value.kind === 'eof' || value.kind === 'punctuation') {
+        this.fail(`Expected a value for ${name}`, value);
+      }
+      options.push({ name, value: value.value, start: token.start, end: this.lastEnd });
+    }
+
+    return options;
+  }
+
+  private parseNamedExpressionList(allowWildcards = false, allowTypeCast = false): KqlNamedExpression[] {
+    const items: KqlNamedExpression[] = [];
+
+    do {
+      if (items.length > 0) {
+        this.next(); // ','
+      }
+      const start = this.peek().start;
+
+      const wildcard = allowWildcards ? this.tryParseWildcard() : null;
+      if (wildcard) {
+        items.push({ expression: wildcard, start, end: this.lastEnd });
+        continue;
+      }
+
+      let name: string | undefined;
+      if (this.peek().kind === 'identifier' && this.isOperator('=', 1)) {
+        name = this.next().value;
+        this.next();
+      } else if (this.isPunct('[') && this.peek(1).kind === 'string' && this.isPunct(']', 2) && this.isOperator('=', 3)) {
+        this.next();
+        name = decodeStringLiteral(this.next().value);
+        this.next();
+        this.next();
+      }
+
+      const expression = this.parseExpression();
+      let type: string | undefined;
+      if (allowTypeCast && this.isIdentifier('to')) {
+        this.next();
+        this.expectIdentifier(`'typeof' after 'to'`, 'typeof');
+        const token = this.peek();
+        const [typeName] = this.parseArgumentList();
+        if (typeName?.kind !== 'Name') {
+          this.fail('Expected a type name inside typeof()', token);
+        }
+        type = typeName.name;
+      }
+      items.push({ name, expression, type, start, end: this.lastEnd });
+    } while (this.isPunct(','));
+
+    return items;
+  }
+
+  private parseSortList(): KqlSortItem[] {
+    const items = [this.parseSortItem()];
+    while (this.isPunct(',')) {
+      this.next();
+      items.push(this.parseSortItem());
+    }
+    return items;
+  }
+
+  private parseSortItem(): KqlSortItem {
+    const start = this.peek().start;
+    const expression = this.parseExpression();
+    let direction: KqlSortItem['direction'];
+    let nulls: KqlSortItem['nulls'];
+
+    if (this.isIdentifier('asc') || this.isIdentifier('desc')) {
+      direction = this.next().value as KqlSortItem['direction'];
+    }
+    if (this.isIdentifier('nulls')) {
+      this.next();
+      if (!this.isIdentifier('first') && !this.isIdentifier('last')) {
+        this.fail(`Expected 'first' or 'last' after 'nulls' but found ${this.describe(this.peek())}`);
+      }
+      nulls = this.next().value as KqlSortItem['nulls'];
+    }
+
+    return { expression, direction, nulls, start, end: this.lastEnd };
+  }
+
+  /**
+   * Column name pattern containing '*' (e.g. customDimensions*, *), only where wildcards are allowed
+   */
+  private tryParseWildcard(): KqlWildcard | null {
+    let index = this.pos;
+    let end = this.tokens[index].start;
+    let hasStar = false;
+
+    while (
+      this.tokens[index].start === end &&
+      (this.tokens[index].kind === 'identifier' || (this.tokens[index].kind === 'operator' && this.tokens[index].value === '*'))
+    ) {
+      hasStar = hasStar || this.tokens[index].value === '*';
+      end = this.tokens[index].end;
+      index++;
+    }
+
+    if (!hasStar) {
+      return null;
+    }
+    const start = this.tokens[this.pos].start;
+    this.pos = index;
+    this.lastEnd = end;
+    return { kind: 'Wildcard', pattern: this.text.slice(start, end), start, end };
+  }
+
+  // ----- Scalar expressions -----
+
+  /**
+   * Scalar expression, or a tabular expression when followed by a pipe (used for call arguments and let values)
+   */
+  private parseArgument(): KqlExpression {
+    const start = this.peek().start;
+    const value = this.parseTabularOrScalar();
+    if (value.kind === 'Pipeline') {
+      return { kind: 'TabularSubquery', pipeline: value, start, end: this.lastEnd };
+    }
+    return value;
+  }
+
+  private parseArgumentList(): KqlExpression[] {
+    this.expectPunct('(');
+    const args: KqlExpression[] = [];
+    while (!this.isPunct(')')) {
+      if (this.isOperator('*') && (this.isPunct(')', 1) || this.isPunct(',', 1))) {
+        const star = this.next();
+        args.push({ kind: 'Wildcard', pattern: '*', start: star.start, end: star.end });
+      } else {
+        args.push(this.parseArgument());
+      }
+      if (!this.isPunct(',')) {
+        break;
+      }
+      this.next();
+    }
+    this.expectPunct(')');
+    return args;
+  }
+
+  private parseExpression(): KqlExpression {
+    return this.parseOr();
+  }
+
+  private parseOr(): KqlExpression {
+    let left = this.parseAnd();
+    while (this.isIdentifier('or')) {
+      this.next();
+      const right = this.parseAnd();
+      left = { kind: 'Binary', operator: 'or', left, right, start: left.start, end: this.lastEnd };
+    }
+    return left;
+  }
+
+  private parseAnd(): KqlExpression {
+    let left = this.parseComparison();
+    while (this.isIdentifier('and')) {
+      this.next();
+      const right = this.parseComparison();
+      left = { kind: 'Binary', operator: 'and', left, right, start: left.start, end: this.lastEnd };
+    }
+    return left;
+  }
+
+  private parseComparison(): KqlExpression {
+    let left: KqlExpression;
+    if (this.isOperator('*') && this.isStringOperator(this.peek(1))) {
+      // Term over all columns: where * has "error"
+      const star = this.next();
+      left = { kind: 'Wildcard', pattern: '*', start: star.start, end: star.end };
+    } else {
+      left = this.parseAdditive();
+    }
+
+    while (true) {
+      const token = this.peek();
+      const value = token.value;
+
+      if (token.kind === 'operator' && COMPARISON_OPERATORS.has(value)) {
+        this.next();
+        const right = this.parseAdditive();
+        left = { kind: 'Binary', operator: value, left, right, start: left.start, end: this.lastEnd };
+        continue;
+      }
+
+      const negated = token.kind === 'operator' && value.startsWith('!') && value.length > 1;
+      const word = negated ? value.slice(1) : value;
+      if (token.kind !== 'identifier' && !negated) {
+        return left;
+      }
+
+      if (STRING_OPERATOR_SET.has(word)) {
+        this.next();
+        const right = this.parseAdditive();
+        left = { kind: 'Binary', operator: value, left, right, start: left.start, end: this.lastEnd };
+      } else if (word === 'matches' && !negated) {
+        this.next();
+        this.expectIdentifier(`'regex' after 'matches'`, 'regex');
+        const right = this.parseAdditive();
+        left = { kind: 'Binary', operator: 'matches regex', left, right, start: left.start, end: this.lastEnd };
+      } else if (word === 'in' || word === 'in~' || ((word === 'has_any' || word === 'has_all') && !negated)) {
+        this.next();
+        const values = this.parseArgumentList();
+        left = { kind: 'In', operator: value as 'in', operand: left, values, start: left.start, end: this.lastEnd };
+      } else if (word === 'between') {
+        this.next();
+        this.expectPunct('(');
+        const low = this.parseAdditive();
+        this.expectOperator('..');
+        const high = this.parseAdditive();
+        this.expectPunct(')');
+        left = { kind: 'Between', negated, operand: left, low, high, start: left.start, end: this.lastEnd };
+      } else if (negated) {
+        this.fail(`Unknown operator '${value}'`, token);
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private parseAdditive(): KqlExpression {
+    let left = this.parseMultiplicative();
+    while (this.isOperator('+') || this.isOperator('-')) {
+      const operator = this.next().value;
+      const right = this.parseMultiplicative();
+      left = { kind: 'Binary', operator, left, right, start: left.start, end: this.lastEnd };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): KqlExpression {
+    let left = this.parseUnary();
+    while (this.isOperator('*') || this.isOperator('/') || this.isOperator('%')) {
+      const operator = this.next().value;
+      const right = this.parseUnary();
+      left = { kind: 'Binary', operator, left, right, start: left.start, end: this.lastEnd };
+    }
+    return left;
+  }
+
+  private parseUnary(): KqlExpression {
+    if (this.isOperator('-') || this.isOperator('+')) {
+      const token = this.next();
+      const operand = this.parseUnary();
+      return { kind: 'Unary', operator: token.value as '-' | '+', operand, start: token.start, end: this.lastEnd };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): KqlExpression {
+    let expression = this.parsePrimary();
+
+    while (true) {
+      if (this.isPunct('.') && this.peek(1).kind === 'identifier') {
+        this.next();
+        const member = this.next().value;
+        if (this.isPunct('(')) {
+          // database("x").table("y")
+          const args = this.parseArgumentList();
+          expression = { kind: 'Member', target: expression, member, start: expression.start, end: this.lastEnd };
+          expression = { kind: 'Call', name: member, args: [expression, ...args], start: expression.start, end: this.lastEnd };
+        } else {
+          expression = { kind: 'Member', target: expression, member, start: expression.start, end: this.lastEnd };
+        }
+      } else if (this.isPunct('[')) {
+        this.next();
+        const index = this.parseExpression();
+        this.expectPunct(']');
+        expression = { kind: 'Index', target: expression, index, start: expression.start, end: this.lastEnd };
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parsePrimary(): KqlExpression {
+    const token = this.peek();
+
+    switch (token.kind) {
+      case 'number':
+        this.next();
+        return this.createNumberLiteral(token);
+
+      case 'timespan':
+        this.next();
+        return this.createTimespanLiteral(token);
+
+      case 'string': {
+        this.next();
+        let value = decodeStringLiteral(token.value);
+        // Adjacent string literals are concatenated
+        while (this.peek().kind === 'string') {
+          value += decodeStringLiteral(this.next().value);
+        }
+        return { kind: 'Literal', literalType: 'string', value, raw: this.text.slice(token.start, this.lastEnd), start: token.start, end: this.lastEnd };
+      }
+
+      case 'identifier': {
+        if (token.value === 'true' || token.value === 'false') {
+          this.next();
+          return { kind: 'Literal', literalType: 'bool', value: token.value === 'true', raw: token.value, start: token.start, end: token.end };
+        }
+        if (this.isPunct('(', 1)) {
+          if (token.value === 'datetime' || token.value === 'timespan' || token.value === 'guid') {
+            return this.parseTypedLiteral();
+          }
+          if (token.value === 'dynamic') {
+            return this.parseDynamicLiteral();
+          }
+          this.next();
+          const args = this.parseArgumentList();
+          return { kind: 'Call', name: token.value, args, start: token.start, end: this.lastEnd } as KqlCallExpression;
+        }
+        this.next();
+        return { kind: 'Name', name: token.value, start: token.start, end: token.end };
+      }
+
+      case 'punctuation':
+        if (token.value === '(') {
+          this.next();
+          const inner = this.parseArgument();
+          this.expectPunct(')');
+          if (inner.kind === 'TabularSubquery') {
+            return { ...inner, start: token.start, end: this.lastEnd };
+          }
+          return { kind: 'Parenthesized', expression: inner, start: token.start, end: this.lastEnd };
+        }
+        if (token.value === '[') {
+          this.next();
+          const nameToken = this.next();
+          if (nameToken.kind !== 'string') {
+            this.fail(`Expected a quoted column name inside [ ] but found ${this.describe(nameToken)}`, nameToken);
+          }
+          this.expectPunct(']');
+          return { kind: 'Name', name: decodeStringLiteral(nameToken.value), bracketed: true, start: token.start, end: this.lastEnd };
+        }
+        break;
+    }
+
+    this.fail(`Expected an expression but found ${this.describe(token)}`);
+  }
+
+  private createNumberLiteral(token: KqlToken): KqlLiteral {
+    const raw = token.value;
+    if (/^0[xX][0-9A-Fa-f]+$/.test(raw)) {
+      return { kind: 'Literal', literalType: 'long', value: parseInt(raw, 16), raw, start: token.start, end: token.end };
+    }
+    if (!/^(\d+(\.\d+)?|\.\d+)([eE][+-]?\d+)?$/.test(raw)) {
+      this.fail(`Invalid numeric literal '${raw}'`, token);
+    }
+    const literalType = /[.eE]/.test(raw) ? 'real' : 'long';
+    return { kind: 'Literal', literalType, value: Number(raw), raw, start: token.start, end: token.end };
+  }
+
+  private createTimespanLiteral(token: KqlToken): KqlLiteral {
+    const match = /^([\d.]+(?:[eE][+-]?\d+)?)([A-Za-z]+)$/.exec(token.value);
+    const unit = match ? TIMESPAN_UNITS[match[2].toLowerCase()] : undefined;
+    if (!match || unit === undefined || isNaN(Number(match[1]))) {
+      this.fail(`Invalid timespan literal '${token.value}'`, token);
+    }
+    return { kind: 'Literal', literalType: 'timespan', value: Number(match[1]) * unit, raw: token.value, start: token.start, end: token.end };
+  }
+
+  /**
+   * datetime(...), timespan(...) and guid(...) literals, whose content is not regular KQL
+   */
+  private parseTypedLiteral(): KqlLiteral {
+    const typeToken = this.next();
+    const open = this.next();
+    const closeIndex = this.findClosingIndex(this.pos - 1);
+    if (closeIndex === -1) {
+      this.fail(`Expected ')' to close the ${typeToken.value} literal`, open);
+    }
+    const close = this.tokens[closeIndex];
+    this.pos = closeIndex + 1;
+    this.lastEnd = close.end;
+
+    const content = this.text.slice(open.end, close.start).trim();
+    const unquoted = /^(['"]).*\1$/s.test(content) ? content.slice(1, -1) : content;
+    const raw = this.text.slice(typeToken.start, close.end);
+    const range = { start: typeToken.start, end: close.end };
+
+    if (typeToken.value === 'datetime') {
+      const value = unquoted === 'null' || unquoted === '' ? null : parseKqlDatetime(unquoted);
+      if (value === undefined) {
+        this.fail(`Invalid datetime literal '${content}'`, typeToken);
+      }
+      return { kind: 'Literal', literalType: 'datetime', value, raw, ...range };
+    }
+
+    if (typeToken.value === 'timespan') {
+      const value = unquoted === 'null' ? null : parseKqlTimespan(unquoted);
+      if (value === undefined) {
+        this.fail(`Invalid timespan literal '${content}'`, typeToken);
+      }
+      return { kind: 'Literal', literalType: 'timespan', value, raw, ...range };
+    }
+
+    return { kind: 'Literal', literalType: 'guid', value: unquoted, raw, ...range };
+  }
+
+  private parseDynamicLiteral(): KqlLiteral {
+    const typeToken = this.next();
+    this.expectPunct('(');
+    const value = this.parseDynamicValue();
+    this.expectPunct(')');
+    return {
+      kind: 'Literal',
+      literalType: 'dynamic',
+      value,
+      raw: this.text.slice(typeToken.start, this.lastEnd),
+      start: typeToken.start,
+      end: this.lastEnd
+    };
+  }
+
+  private parseDynamicValue(): unknown {
+    const token = this.peek();
+
+    if (this.isPunct('[')) {
+      this.next();
+      const items: unknown[] = [];
+      while (!this.isPunct(']')) {
+        items.push(this.parseDynamicValue());
+        if (!this.isPunct(',')) {
+          break;
+        }
+        this.next();
+      }
+      this.expectPunct(']');
+      return items;
+    }
+
+    if (this.isPunct('{')) {
+      this.next();
+      const entries: Record<string, unknown> = {};
+      while (!this.isPunct('}')) {
+        const key = this.next();
+        if (key.kind !== 'string' && key.kind !== 'identifier') {
+          this.fail(`Expected a property name but found ${this.describe(key)}`, key);
+        }
+        this.expectPunct(':');
+        entries[key.kind === 'string' ? decodeStringLiteral(key.value) : key.value] = this.parseDynamicValue();
+        if (!this.isPunct(',')) {
+          break;
+        }
+        this.next();
+      }
+      this.expectPunct('}');
+      return entries;
+    }
+
+    if (token.kind === 'identifier' && ['null', 'true', 'false'].includes(token.value)) {
+      this.next();
+      return token.value === 'null' ? null : token.value === 'true';
+    }
+
+    const literal = this.parseUnary();
+    if (literal.kind === 'Literal') {
+      return literal.value;
+    }
+    if (literal.kind === 'Unary' && literal.operand.kind === 'Literal' && typeof literal.operand.value === 'number') {
+      return literal.operator === '-' ? -literal.operand.value : literal.operand.value;
+    }
+    this.fail('Expected a constant value inside dynamic()', token);
+  }
+
+  // ----- Token helpers -----
+
+  private peek(offset = 0): KqlToken {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): KqlToken {
+    const token = this.tokens[this.pos];
+    if (token.kind !== 'eof') {
+      this.pos++;
+      this.lastEnd = token.end;
+    }
+    return token;
+  }
+
+  private isEof(): boolean {
+    return this.peek().kind === 'eof';
+  }
+
+  private isPunct(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.kind === 'punctuation' && token.value === value;
+  }
+
+  private isOperator(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.kind === 'operator' && token.value === value;
+  }
+
+  private isIdentifier(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.kind === 'identifier' && token.value === value;
+  }
+
+  /**
+   * True when the current operator's arguments are finished
+   */
+  /**
+   * String operator such as has, contains or !startswith
+   */
+  private isStringOperator(token: KqlToken): boolean {
+    if (token.kind === 'operator' && token.value.startsWith('!')) {
+      return STRING_OPERATOR_SET.has(token.value.slice(1));
+    }
+    return token.kind === 'identifier' && STRING_OPERATOR_SET.has(token.value);
+  }
+
+  private isOperatorEnd(): boolean {
+    return this.isEof() || this.isPunct('|') || this.isPunct(';') || this.isPunct(')') || this.isPunct('}');
+  }
+
+  private expectPunct(value: string): KqlToken {
+    if (!this.isPunct(value)) {
+      this.fail(`Expected '${value}' but found ${this.describe(this.peek())}`);
+    }
+    return this.next();
+  }
+
+  private expectOperator(value: string): KqlToken {
+    if (!this.isOperator(value)) {
+      this.fail(`Expected '${value}' but found ${this.describe(this.peek())}`);
+    }
+    return this.next();
+  }
+
+  private expectIdentifier(description: string, value?: string): KqlToken {
+    const token = this.peek();
+    if (token.kind !== 'identifier' || (value !== undefined && token.value !== value)) {
+      this.fail(`Expected ${description} but found ${this.describe(token)}`);
+    }
+    return this.next();
+  }
+
+  /**
+   * Read a name that may contain hyphens written without spaces, such as project-away or mv-expand
+   */
+  private readHyphenatedName(): string {
+    let name = this.next().value;
+    while (
+      this.isOperator('-') && this.peek().start === this.lastEnd &&
+      this.peek(1).kind === 'identifier' && this.peek(1).start === this.peek().end
+    ) {
+      this.next();
+      name += `-${this.next().value}`;
+    }
+    return name;
+  }
+
+  private readDottedName(): string {
+    let name = this.expectIdentifier('a name').value;
+    while (this.isPunct('.') && this.peek(1).kind === 'identifier') {
+      this.next();
+      name += `.${this.next().value}`;
+    }
+    return name;
+  }
+
+  /**
+   * Index of the token closing the bracket at openIndex, or -1 when it is never closed
+   */
+  private findClosingIndex(openIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.kind !== 'punctuation') {
+        continue;
+      }
+      if (['(', '[', '{'].includes(token.value)) {
+        depth++;
+      } else if ([')', ']', '}'].includes(token.value)) {
+        depth--;
+        if (depth === 0) {
+          return i;
+        }
+      }
+    }
+    return -1;
+  }
+
+  private skipToStatementEnd(): void {
+    while (!this.isEof() && !this.isPunct(';')) {
+      this.next();
+    }
+  }
+
+  private tokenAt(start: number, end: number): KqlToken {
+    return { kind: 'identifier', value: this.text.slice(start, end), start, end };
+  }
+
+  private describe(token: KqlToken): string {
+    return token.kind === 'eof' ? 'end of query' : `'${token.value}'`;
+  }
+
+  private fail(message: string, token: KqlToken = this.peek()): never {
+    throw new KqlSyntaxError(message, token.start, token.end);
+  }
+}
+
+/**
+ * Decode the value of a string literal token (handles escapes, verbatim and obfuscated strings)
+ */
+export function decodeStringLiteral(raw: string): string {
+  if (raw.startsWith('```')) {
+    return raw.slice(3, raw.endsWith('```') && raw.length >= 6 ? -3 : undefined);
+  }
+
+  let body = raw.replace(/^[hH]/, '');
+  const verbatim = body.startsWith('@');
+  body = body.replace(/^@/, '');
+  const quote = body[0];
+  const inner = body.length > 1 && body.endsWith(quote) ? body.slice(1, -1) : body.slice(1);
+
+  if (verbatim) {
+    return inner.split(quote + quote).join(quote);
+  }
+
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '0': '\0', '\\': '\\', '\'': '\'', '"': '"' };
+  return inner.replace(/\\(.)/g, (_match, char: string) => escapes[char] ?? char);
+}
+
+/**
+ * Parse the content of a datetime(...) literal into an ISO string (undefined when invalid)
+ */
+export function parseKqlDatetime(content: string): string | undefined {
+  let normalized = content.trim().replace(' ', 'T');
+  if (/^\d{4}-\d{2}-\d{2}T[\d:.]+$/.test(normalized)) {
+    normalized += 'Z'; // KQL datetimes are UTC
+  }
+  const date = new Date(normalized);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Parse the content of a timespan(...) literal into milliseconds (undefined when invalid)
+ */
+export function parseKqlTimespan(content: string): number | undefined {
+  const unitMatch = /^([\d.]+)\s*([A-Za-z]+)$/.exec(content);
+  if (unitMatch) {
+    const unit = TIMESPAN_UNITS[unitMatch[2].toLowerCase()];
+    return unit === undefined || isNaN(Number(unitMatch[1])) ? undefined : Number(unitMatch[1]) * unit;
+  }
+
+  // [d.]hh:mm[:ss[.fffffff]]
+  const clockMatch = /^(?:(\d+)\.)?(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?$/.exec(content);
+  if (clockMatch) {
+    const [, days = '0', hours, minutes, seconds = '0', fraction = '0'] = clockMatch;
+    return Number(days) * 86400000 + Number(hours) * 3600000 + Number(minutes) * 60000 +
+      Number(seconds) * 1000 + Number(`0.${fraction}`) * 1000;
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a KQL query text into a syntax tree, collecting positioned syntax errors.
+ * Parsing continues with the next statement after an error.
+ */
+export function parseKql(text: string): KqlParseResult {
+  const { tokens, diagnostics } = tokenizeKql(text);
+  const parser = new KqlParser(text, tokens);
+  const script = parser.parseScript();
+
+  return {
+    script,
+    tokens,
+    diagnostics: [...diagnostics, ...parser.diagnostics].sort((a, b) => a.offset - b.offset)
+  };
+}
@@ -0,0 +1,424 @@
+import { DataSourceType } from '../../core/types/ProviderTypes';
+import { KqlPerformanceFinding, KqlPerformanceReport } from '../../types';
+import {
+  KqlExpression,
+  KqlFunctionDefinition,
+  KqlJoinOperator,
+  KqlLetStatement,
+  KqlOperator,
+  KqlPipeline,
+  KqlSearchOperator,
+  KqlSourceOperator,
+  KqlStatement
+} from './ast';
+import { formatKql } from './formatter';
+import { parseKql } from './parser';
+import { getLineAndColumn } from './tokenizer';
+
+/**
+ * Generated queries scoring below this are confirmed with the user before they run
+ */
+export const KQL_PERFORMANCE_CONFIRM_SCORE = 60;
+
+type KqlPerformanceSeverity = KqlPerformanceFinding['severity'];
+
+type KqlNode = KqlExpression | KqlOperator | KqlPipeline | KqlStatement | KqlFunctionDefinition;
+
+/**
+ * How the rules apply to a data source
+ */
+interface KqlPerformanceProfile {
+  timeColumn: string; // Column used in suggested time filters
+  timeColumns: string[]; // Columns whose comparisons count as time filters
+  dataDescription: string; // What an unfiltered table reads, for messages
+  appliesTimespan: boolean; // Whether the data source limits queries to the request timespan itself
+  missingTimeFilterSeverity: KqlPerformanceSeverity;
+  searchScope: string; // What search without `in (...)` scans, for messages
+  searchSeverity: KqlPerformanceSeverity;
+}
+
+/**
+ * Rule settings per data source; null where queries are not KQL
+ */
+const PERFORMANCE_PROFILES: Record<DataSourceType, KqlPerformanceProfile | null> = {
+  'application-insights': {
+    timeColumn: 'timestamp',
+    timeColumns: ['timestamp', 'TimeGenerated'],
+    dataDescription: 'the whole retention period (90 days by default)',
+    appliesTimespan: true,
+    missingTimeFilterSeverity: 'medium',
+    searchScope: 'every telemetry table of the application',
+    searchSeverity: 'medium'
+  },
+  'log-analytics': {
+    timeColumn: 'TimeGenerated',
+    timeColumns: ['TimeGenerated', 'timestamp'],
+    dataDescription: 'the whole retention period of the workspace',
+    appliesTimespan: true,
+    missingTimeFilterSeverity: 'medium',
+    searchScope: 'every table of the workspace',
+    searchSeverity: 'high'
+  },
+  'azure-data-explorer': {
+    timeColumn: 'Timestamp',
+    timeColumns: ['Timestamp', 'timestamp', 'TimeGenerated'],
+    dataDescription: 'all of its data, which may cover years',
+    appliesTimespan: false,
+    missingTimeFilterSeverity: 'high',
+    searchScope: 'every table of the database',
+    searchSeverity: 'high'
+  },
+  'azure-metrics': null,
+  'local-files': {
+    timeColumn: 'timestamp',
+    timeColumns: ['timestamp', 'TimeGenerated', 'Timestamp'],
+    dataDescription: 'every row of the file',
+    appliesTimespan: true,
+    missingTimeFilterSeverity: 'low',
+    searchScope: 'every table of the directory',
+    searchSeverity: 'low'
+  }
+};
+
+const SEVERITY_PENALTIES: Record<KqlPerformanceSeverity, number> = { high: 40, medium: 20, low: 10 };
+const SEVERITY_RANKS: Record<KqlPerformanceSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Substring operators and the term operators that use the term index instead
+ */
+const TERM_OPERATORS: Record<string, string> = {
+  'contains': 'has',
+  '!contains': '!has',
+  'contains_cs': 'has_cs',
+  '!contains_cs': '!has_cs'
+};
+
+const TIME_COMPARISONS = new Set(['>', '>=', '<', '<=', '==']);
+
+const TIME_FUNCTIONS = new Set([
+  'ago', 'now', 'datetime', 'todatetime', 'datetime_add', 'make_datetime', 'ingestion_time',
+  'startofday', 'startofweek', 'startofmonth', 'startofyear', 'endofday', 'endofweek', 'endofmonth', 'endofyear'
+]);
+
+// Operators after which the right side of a join is no longer a full table scan
+const REDUCING_OPERATORS = new Set<KqlOperator['kind']>(['Where', 'Summarize', 'Take', 'Top', 'Distinct', 'Count']);
+
+/**
+ * Look for query patterns that make KQL slow or expensive: tables read without a time filter,
+ * `contains` where `has` would use the term index, `search` across all tables, joins of an
+ * unfiltered right side without `hint.strategy`, and `sort` followed by `take` instead of `top`.
+ * Tables need no time filter of their own when the query runs over a timespan that the data
+ * source applies to every table (all but Azure Data Explorer).
+ * Findings are ranked by severity and carry a suggested rewrite where one can be made mechanically.
+ * The score starts at 100 and drops with every finding. Queries with syntax errors, and data
+ * sources that are not queried with KQL, get no findings.
+ */
+export function analyzeKqlPerformance(
+  query: string,
+  dataSourceType: DataSourceType = 'application-insights',
+  timespan?: string
+): KqlPerformanceReport {
+  const profile = dataSourceType in PERFORMANCE_PROFILES
+    ? PERFORMANCE_PROFILES[dataSourceType]
+    : PERFORMANCE_PROFILES['application-insights'];
+  const { script, diagnostics } = parseKql(query);
+  if (!profile || diagnostics.length > 0) {
+    return { score: 100, findings: [] };
+  }
+
+  const advisor = new KqlPerformanceAdvisor(query, profile, !!timespan && profile.appliesTimespan);
+  advisor.checkStatements(script.statements);
+
+  const findings = advisor.findings.sort((a, b) =>
+    SEVERITY_RANKS[a.severity] - SEVERITY_RANKS[b.severity] || a.offset - b.offset
+  );
+  const penalty = findings.reduce((total, finding) => total + SEVERITY_PENALTIES[finding.severity], 0);
+  return { score: Math.max(0, 100 - penalty), findings };
+}
+
+/**
+ * Call visit for every syntax tree node below (and including) node
+ */
+function forEachNode(node: unknown, visit: (node: KqlNode) => void): void {
+  if (Array.isArray(node)) {
+    node.forEach(child => forEachNode(child, visit));
+    return;
+  }
+  if (!node || typeof node !== 'object') {
+    return;
+  }
+  if (typeof (node as { kind?: unknown }).kind === 'string') {
+    visit(node as KqlNode);
+  }
+  for (const value of Object.values(node)) {
+    if (value && typeof value === 'object') {
+      forEachNode(value, visit);
+    }
+  }
+}
+
+class KqlPerformanceAdvisor {
+  readonly findings: KqlPerformanceFinding[] = [];
+  private readonly lets = new Map<string, KqlLetStatement['value']>();
+  private readonly timeChecked = new Set<KqlPipeline>();
+
+  constructor(
+    private readonly query: string,
+    private readonly profile: KqlPerformanceProfile,
+    private readonly timeLimited: boolean // The data source limits every table to the request timespan
+  ) {}
+
+  checkStatements(statements: KqlStatement[]): void {
+    for (const statement of statements) {
+      if (statement.kind === 'Let') {
+        this.lets.set(statement.name, statement.value);
+      }
+    }
+
+    forEachNode(statements, node => {
+      switch (node.kind) {
+        case 'Binary':
+          this.checkTermOperator(node);
+          break;
+        case 'Search':
+          this.checkSearch(node);
+          break;
+        case 'Join':
+          this.checkJoin(node);
+          break;
+        case 'Pipeline':
+          this.checkSortBeforeTake(node);
+          break;
+      }
+    });
+
+    // Time filters are followed from the query statements into the let statements they reference
+    for (const statement of statements) {
+      if (statement.kind === 'Query' && !this.timeLimited) {
+        this.checkTimeFilter(statement.pipeline, false);
+      }
+    }
+  }
+
+  /**
+   * Report tables read without a time filter. filtered is true when rows of this pipeline
+   * are time-filtered further down the query (e.g. by a where after a union).
+   */
+  private checkTimeFilter(pipeline: KqlPipeline, filtered: boolean): void {
+    if (this.timeChecked.has(pipeline)) {
+      return;
+    }
+    this.timeChecked.add(pipeline);
+
+    const filterIndex = pipeline.operators.findIndex(operator =>
+      operator.kind === 'Where' && this.isTimeFilter(operator.predicate)
+    );
+    // `T | take 10` stops reading as soon as it has enough rows
+    const covered = filtered || filterIndex >= 0 || pipeline.operators[0]?.kind === 'Take';
+
+    this.checkTimeFilterSource(pipeline.source, covered);
+
+    pipeline.operators.forEach((operator, index) => {
+      if (operator.kind === 'Join') {
+        this.checkTimeFilter(operator.right, false);
+      } else if (operator.kind === 'Union') {
+        operator.tables.forEach(table => this.checkTimeFilter(table, filtered || filterIndex > index));
+      }
+    });
+
+    // Subqueries such as toscalar(T | ...) are read on their own
+    forEachNode(pipeline.operators, node => {
+      if (node.kind === 'TabularSubquery') {
+        this.checkTimeFilter(node.pipeline, false);
+      }
+    });
+  }
+
+  private checkTimeFilterSource(source: KqlExpression | KqlSourceOperator, covered: boolean): void {
+    switch (source.kind) {
+      case 'Name': {
+        const value = this.lets.get(source.name);
+        if (value?.kind === 'Pipeline') {
+          this.checkTimeFilter(value, covered);
+        } else if (value && value.kind !== 'Function') {
+          this.checkTimeFilterSource(value, covered);
+        } else if (!value && !covered && !source.name.startsWith('_')) {
+          this.reportMissingTimeFilter(source.name, source.start, source.end);
+        }
+        break;
+      }
+      case 'Parenthesized':
+        this.checkTimeFilterSource(source.expression, covered);
+        break;
+      case 'TabularSubquery':
+        this.checkTimeFilter(source.pipeline, covered);
+        break;
+      case 'Union':
+        source.tables.forEach(table => this.checkTimeFilter(table, covered));
+        break;
+    }
+  }
+
+  private reportMissingTimeFilter(table: string, start: number, end: number): void {
+    const filter = `where ${this.profile.timeColumn} > ago(1d)`;
+    this.report(
+      'missing-time-filter',
+      this.profile.missingTimeFilterSeverity,
+      start,
+      end,
+      `'${table}' is read without a time filter, so the query scans ${this.profile.dataDescription}`,
+      `Filter on time right after the table, e.g. | ${filter}`,
+      `${this.query.slice(0, end)}\n| ${filter}${this.query.slice(end)}`
+    );
+  }
+
+  private isTimeFilter(expression: KqlExpression): boolean {
+    switch (expression.kind) {
+      case 'Binary':
+        if (expression.operator === 'and') {
+          return this.isTimeFilter(expression.left) || this.isTimeFilter(expression.right);
+        }
+        if (expression.operator === 'or') {
+          return this.isTimeFilter(expression.left) && this.isTimeFilter(expression.right);
+        }
+        return TIME_COMPARISONS.has(expression.operator) &&
+          (this.isTimeValue(expression.left) || this.isTimeValue(expression.right));
+      case 'Between':
+        return !expression.negated && (this.isTimeValue(expression.operand) || this.isTimeValue(expression.low));
+      case 'Parenthesized':
+        return this.isTimeFilter(expression.expression);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * A time column, or an expression built from datetime literals and functions such as ago()
+   */
+  private isTimeValue(expression: KqlExpression): boolean {
+    let found = false;
+    forEachNode(expression, node => {
+      if (
+        (node.kind === 'Name' && this.profile.timeColumns.includes(node.name)) ||
+        (node.kind === 'Call' && TIME_FUNCTIONS.has(node.name)) ||
+        (node.kind === 'Literal' && node.literalType === 'datetime')
+      ) {
+        found = true;
+      }
+    });
+    return found;
+  }
+
+  private checkTermOperator(expression: Extract<KqlExpression, { kind: 'Binary' }>): void {
+    const replacement = TERM_OPERATORS[expression.operator];
+    const { right } = expression;
+    if (!replacement || right.kind !== 'Literal' || right.literalType !== 'string') {
+      return;
+    }
+    // Only whole terms of at least three alphanumeric characters are indexed
+    const term = String(right.value);
+    if (!/^[A-Za-z0-9]{3,}$/.test(term)) {
+      return;
+    }
+
+    const start = this.query.indexOf(expression.operator, expression.left.end);
+    if (start < 0 || start >= right.start) {
+      return;
+    }
+    const end = start + expression.operator.length;
+    this.report(
+      'contains-instead-of-has',
+      'medium',
+      start,
+      end,
+      `'${expression.operator}' looks for "${term}" inside every value instead of using the term index`,
+      `Use '${replacement}' if "${term}" is a whole word; it no longer matches inside longer words`,
+      this.query.slice(0, start) + replacement + this.query.slice(end)
+    );
+  }
+
+  private checkSearch(search: KqlSearchOperator): void {
+    if (search.tables.length > 0 && !search.tables.includes('*')) {
+      return;
+    }
+    const isSearchAll = search.predicate.kind === 'Wildcard';
+    this.report(
+      'search-all-tables',
+      isSearchAll ? 'high' : this.profile.searchSeverity,
+      search.start,
+      search.end,
+      `'${this.query.slice(search.start, search.end).split('\n')[0]}' scans ${this.profile.searchScope}`,
+      'Query the table that holds the data, e.g. requests | where * has "term", or name the tables with search in (requests, traces)'
+    );
+  }
+
+  private checkJoin(join: KqlJoinOperator): void {
+    if (join.name !== 'join' || join.options.some(option => option.name.startsWith('hint.')) || this.isReduced(join.right)) {
+      return;
+    }
+    const nameEnd = join.start + join.name.length;
+    this.report(
+      'join-without-strategy',
+      'medium',
+      join.start,
+      nameEnd,
+      'The right side of this join is neither filtered nor summarized and no hint.strategy is set',
+      'Filter or summarize the right side before joining; when both sides are large add hint.strategy=shuffle (or hint.strategy=broadcast when the left side is small)',
+      `${this.query.slice(0, nameEnd)} hint.strategy=shuffle${this.query.slice(nameEnd)}`
+    );
+  }
+
+  private isReduced(pipeline: KqlPipeline): boolean {
+    if (pipeline.operators.some(operator => REDUCING_OPERATORS.has(operator.kind))) {
+      return true;
+    }
+    const value = pipeline.source.kind === 'Name' ? this.lets.get(pipeline.source.name) : undefined;
+    return value?.kind === 'Pipeline' && this.isReduced(value);
+  }
+
+  private checkSortBeforeTake(pipeline: KqlPipeline): void {
+    pipeline.operators.forEach((sort, index) => {
+      const take = pipeline.operators[index + 1];
+      if (sort.kind !== 'Sort' || take?.kind !== 'Take') {
+        return;
+      }
+
+      const count = this.query.slice(take.count.start, take.count.end);
+      const items = this.query.slice(sort.items[0].start, sort.items[sort.items.length - 1].end);
+      const top = `top ${count} by ${items}`;
+      this.report(
+        'sort-before-take',
+        'low',
+        sort.start,
+        take.end,
+        `'${sort.name}' followed by '${take.name}' sorts every row before keeping ${count}`,
+        `Use '${top}', which keeps only the top rows while sorting`,
+        // top sorts by a single expression
+        sort.items.length === 1 ? this.query.slice(0, sort.start) + top + this.query.slice(take.end) : undefined
+      );
+    });
+  }
+
+  private report(
+    rule: KqlPerformanceFinding['rule'],
+    severity: KqlPerformanceSeverity,
+    start: number,
+    end: number,
+    message: string,
+    suggestion: string,
+    rewrite?: string
+  ): void {
+    const { line, column } = getLineAndColumn(this.query, start);
+    this.findings.push({
+      rule,
+      severity,
+      message,
+      suggestion,
+      rewrite: rewrite !== undefined ? formatKql(rewrite) : undefined,
+      line,
+      column,
+      offset: start,
+      length: Math.max(end - start, 1)
+    });
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Table and column catalog used to resolve the identifiers a query references.
+ * A table whose columns are null is known to exist, but its columns were not returned.
+ */
+export interface KqlSchema {
+  tables: Record<string, Record<string, string> | null>;
+}
+
+interface RawSchemaTable {
+  name?: string;
+  columns?: unknown;
+  rows?: unknown[][];
+}
+
+/**
+ * Tables and columns added or removed between two catalogs
+ */
+export interface KqlSchemaDiff {
+  addedTables: string[];
+  removedTables: string[];
+  changedTables: Array<{
+    table: string;
+    addedColumns: string[];
+    removedColumns: string[];
+  }>;
+}
+
+/**
+ * Build a catalog from an IDataSourceProvider.getSchema() result.
+ * Understands the formats returned by the built-in providers:
+ * - Application Insights metadata API: { tables: [{ name, columns: [{ name, type }] }] }
+ * - Log Analytics getschema summary: query result rows of [TableName, ColumnCount, ["Column:type", ...]]
+ * - Azure Data Explorer: { TableName: { ColumnName: ColumnType } }
+ * Returns null when no table could be found.
+ */
+export function normalizeKqlSchema(schemaResult: { tables?: string[]; schema?: unknown } | null | undefined): KqlSchema | null {
+  const tables: KqlSchema['tables'] = {};
+  const raw = schemaResult?.schema as { tables?: unknown } | null | undefined;
+
+  if (raw && typeof raw === 'object') {
+    if (Array.isArray(raw.tables)) {
+      for (const table of raw.tables as Array<string | RawSchemaTable | null>) {
+        if (table && typeof table === 'object' && Array.isArray(table.rows) && Array.isArray(table.columns)) {
+          readSchemaRows(table.columns, table.rows, tables);
+        } else if (typeof table === 'string') {
+          tables[table] = tables[table] || null;
+        } else if (table && typeof table.name === 'string') {
+          tables[table.name] = readColumnList(table.columns);
+        }
+      }
+    } else if (raw.tables && typeof raw.tables === 'object') {
+      for (const [name, table] of Object.entries(raw.tables as Record<string, RawSchemaTable | null>)) {
+        tables[name] = readColumnList(table?.columns ?? table);
+      }
+    } else {
+      for (const [name, columns] of Object.entries(raw as Record<string, unknown>)) {
+        if (columns && typeof columns === 'object' && !Array.isArray(columns)) {
+          tables[name] = readColumnList(columns);
+        }
+      }
+    }
+  }
+
+  for (const name of schemaResult?.tables || []) {
+    if (typeof name === 'string' && !(name in tables)) {
+      tables[name] = null;
+    }
+  }
+
+  return Object.keys(tables).length > 0 ? { tables } : null;
+}
+
+/**
+ * Columns given as [{ name, type }], ["name:type"] or { name: type }
+ */
+function readColumnList(columns: unknown): Record<string, string> | null {
+  if (Array.isArray(columns)) {
+    const result: Record<string, string> = {};
+    for (const column of columns) {
+      if (typeof column === 'string') {
+        const separator = column.lastIndexOf(':');
+        result[separator > 0 ? column.slice(0, separator) : column] = separator > 0 ? column.slice(separator + 1) : '';
+      } else if (column && typeof column.name === 'string') {
+        result[column.name] = String(column.type ?? '');
+      }
+    }
+    return Object.keys(result).length > 0 ? result : null;
+  }
+
+  if (columns && typeof columns === 'object') {
+    const entries = Object.entries(columns).filter(([, type]) => typeof type === 'string');
+    return entries.length > 0 ? Object.fromEntries(entries) as Record<string, string> : null;
+  }
+
+  return null;
+}
+
+/**
+ * Query result rows describing tables, either one row per table with a column list
+ * (TableName, Columns) or one row per column (TableName, ColumnName, ColumnType)
+ */
+function readSchemaRows(
+  columns: Array<{ name: string }>,
+  rows: unknown[][],
+  tables: KqlSchema['tables']
+): void {
+  const indexOf = (name: string) => columns.findIndex(column => column.name === name);
+  const tableIndex = indexOf('TableName');
+  const listIndex = indexOf('Columns');
+  const columnIndex = indexOf('ColumnName');
+  const typeIndex = indexOf('ColumnType');
+
+  if (tableIndex < 0) {
+    return;
+  }
+
+  for (const row of rows) {
+    const tableName = String(row[tableIndex]);
+
+    if (listIndex >= 0) {
+      let list = row[listIndex];
+      if (typeof list === 'string') {
+        try {
+          list = JSON.parse(list);
+        } catch {
+          list = [];
+        }
+      }
+      tables[tableName] = readColumnList(list);
+    } else if (columnIndex >= 0) {
+      const tableColumns = tables[tableName] || {};
+      tableColumns[String(row[columnIndex])] = typeIndex >= 0 ? String(row[typeIndex]) : '';
+      tables[tableName] = tableColumns;
+    } else {
+      tables[tableName] = tables[tableName] || null;
+    }
+  }
+}
+
+/**
+ * Compare two catalogs. Tables whose columns are unknown on either side are only compared by name.
+ */
+export function diffKqlSchemas(previous: KqlSchema, current: KqlSchema): KqlSchemaDiff {
+  const byName = (a: string, b: string) => a.localeCompare(b);
+  const diff: KqlSchemaDiff = {
+    addedTables: Object.keys(current.tables).filter(name => !(name in previous.tables)).sort(byName),
+    removedTables: Object.keys(previous.tables).filter(name => !(name in current.tables)).sort(byName),
+    changedTables: []
+  };
+
+  for (const table of Object.keys(current.tables).filter(name => name in previous.tables).sort(byName)) {
+    const before = previous.tables[table];
+    const after = current.tables[table];
+    if (!before || !after) {
+      continue;
+    }
+
+    const addedColumns = Object.keys(after).filter(column => !(column in before)).sort(byName);
+    const removedColumns = Object.keys(before).filter(column => !(column in after)).sort(byName);
+    if (addedColumns.length > 0 || removedColumns.length > 0) {
+      diff.changedTables.push({ table, addedColumns, removedColumns });
+    }
+  }
+  return diff;
+}
@@ -0,0 +1,605 @@
+import { KqlDiagnostic } from '../../types';
+import {
+  KqlCallExpression,
+  KqlExpression,
+  KqlNameReference,
+  KqlNamedExpression,
+  KqlOperator,
+  KqlOperatorOption,
+  KqlPipeline,
+  KqlProjectOperator,
+  KqlSourceOperator,
+  KqlStatement
+} from './ast';
+import { parseKql } from './parser';
+import { KqlSchema } from './schema';
+import { createDiagnostic } from './tokenizer';
+
+/**
+ * Columns of a tabular expression (name -> type, '' when the type is not known).
+ * null when the columns cannot be determined (stored functions, plugins, make-series, ...),
+ * which turns off column checks until an operator such as project defines them again.
+ */
+type KqlColumns = Map<string, string> | null;
+
+interface KqlScope {
+  tables: Map<string, KqlColumns>; // Tabular let statements, function parameters and `as` aliases
+  scalars: Set<string>; // Scalar let statements and function parameters
+}
+
+/**
+ * Names of the same table or column in classic Application Insights and in
+ * workspace-based (Log Analytics) Application Insights
+ */
+const EQUIVALENT_NAMES: Array<[string, string]> = [
+  ['requests', 'AppRequests'],
+  ['dependencies', 'AppDependencies'],
+  ['exceptions', 'AppExceptions'],
+  ['traces', 'AppTraces'],
+  ['pageViews', 'AppPageViews'],
+  ['customEvents', 'AppEvents'],
+  ['customMetrics', 'AppMetrics'],
+  ['availabilityResults', 'AppAvailabilityResults'],
+  ['browserTimings', 'AppBrowserTimings'],
+  ['performanceCounters', 'AppPerformanceCounters'],
+  ['timestamp', 'TimeGenerated'],
+  ['cloud_RoleName', 'AppRoleName'],
+  ['cloud_RoleInstance', 'AppRoleInstance'],
+  ['customDimensions', 'Properties'],
+  ['customMeasurements', 'Measurements'],
+  ['operation_Id', 'OperationId'],
+  ['operation_Name', 'OperationName'],
+  ['operation_ParentId', 'ParentId'],
+  ['duration', 'DurationMs'],
+  ['itemType', 'Type'],
+  ['type', 'ExceptionType'],
+  ['user_Id', 'UserId'],
+  ['user_AuthenticatedId', 'UserAuthenticatedId'],
+  ['session_Id', 'SessionId'],
+  ['client_City', 'ClientCity'],
+  ['client_CountryOrRegion', 'ClientCountryOrRegion'],
+  ['client_Browser', 'ClientBrowser'],
+  ['client_OS', 'ClientOS'],
+  ['client_Type', 'ClientType'],
+  ['application_Version', 'AppVersion']
+];
+
+const EQUIVALENTS = EQUIVALENT_NAMES.reduce((map, [classic, workspace]) => {
+  map.set(classic, [...(map.get(classic) || []), workspace]);
+  map.set(workspace, [...(map.get(workspace) || []), classic]);
+  return map;
+}, new Map<string, string[]>());
+
+/**
+ * Aggregation functions whose unnamed result column is `<prefix>_<column>`, e.g. avg(duration) -> avg_duration
+ */
+const AGGREGATE_PREFIXES: Record<string, string> = {
+  dcount: 'dcount', dcountif: 'dcountif', sum: 'sum', sumif: 'sumif', avg: 'avg', avgif: 'avgif',
+  min: 'min', minif: 'minif', max: 'max', maxif: 'maxif', stdev: 'stdev', variance: 'variance',
+  make_list: 'list', make_set: 'set', make_bag: 'bag'
+};
+
+/**
+ * Resolve the tables and columns a query references against a schema catalog.
+ * Unknown columns are errors, unknown tables are warnings (schemas may list only part
+ * of the tables, and stored functions are not listed). Both carry a "did you mean"
+ * suggestion when a similar name exists. Queries with syntax errors are not checked.
+ */
+export function validateKqlAgainstSchema(query: string, schema: KqlSchema): KqlDiagnostic[] {
+  const { script, diagnostics } = parseKql(query);
+  if (diagnostics.length > 0) {
+    return [];
+  }
+
+  const validator = new KqlSemanticValidator(query, schema);
+  validator.checkStatements(script.statements, { tables: new Map(), scalars: new Set() });
+  return validator.diagnostics.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Closest match for a misspelled table or column name: a known classic/workspace equivalent,
+ * a case-insensitive match, or the nearest name by edit distance
+ */
+export function suggestKqlName(name: string, candidates: Iterable<string>): string | undefined {
+  const names = [...candidates];
+
+  const equivalent = EQUIVALENTS.get(name)?.find(candidate => names.includes(candidate));
+  if (equivalent) {
+    return equivalent;
+  }
+
+  const lowerName = name.toLowerCase();
+  const sameCase = names.find(candidate => candidate.toLowerCase() === lowerName);
+  if (sameCase) {
+    return sameCase;
+  }
+
+  const maxDistance = Math.max(1, Math.floor(name.length / 3));
+  let best: string | undefined;
+  let bestDistance = maxDistance + 1;
+  for (const candidate of names) {
+    const distance = editDistance(lowerName, candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+class KqlSemanticValidator {
+  readonly diagnostics: KqlDiagnostic[] = [];
+  private readonly reported = new Set<string>();
+
+  constructor(private readonly query: string, private readonly schema: KqlSchema) {}
+
+  checkStatements(statements: KqlStatement[], scope: KqlScope): void {
+    for (const statement of statements) {
+      if (statement.kind === 'Query') {
+        this.checkPipeline(statement.pipeline, scope);
+      } else if (statement.kind === 'Let') {
+        const value = statement.value;
+        if (value.kind === 'Function') {
+          const body: KqlScope = { tables: new Map(scope.tables), scalars: new Set(scope.scalars) };
+          for (const parameter of value.parameters) {
+            body.tables.set(parameter.name, null);
+            body.scalars.add(parameter.name);
+          }
+          this.checkStatements(value.body, body);
+          if (value.result) {
+            this.checkExpression(value.result, null, body);
+          }
+          scope.tables.set(statement.name, null);
+        } else if (value.kind === 'Pipeline' || value.kind === 'TabularSubquery') {
+          scope.tables.set(statement.name, this.checkPipeline(value.kind === 'Pipeline' ? value : value.pipeline, scope));
+        } else if (value.kind === 'Name' && (scope.tables.has(value.name) || value.name in this.schema.tables)) {
+          scope.tables.set(statement.name, this.resolveTable(value, scope));
+        } else if (value.kind === 'Call' && value.name === 'materialize' && value.args[0]?.kind === 'TabularSubquery') {
+          scope.tables.set(statement.name, this.checkPipeline(value.args[0].pipeline, scope));
+        } else {
+          this.checkExpression(value, null, scope);
+          scope.scalars.add(statement.name);
+        }
+      }
+    }
+  }
+
+  private checkPipeline(pipeline: KqlPipeline, scope: KqlScope): KqlColumns {
+    let columns = this.checkSource(pipeline.source, scope);
+    for (const operator of pipeline.operators) {
+      columns = this.checkOperator(operator, columns, scope);
+    }
+    return columns;
+  }
+
+  private checkSource(source: KqlExpression | KqlSourceOperator, scope: KqlScope): KqlColumns {
+    switch (source.kind) {
+      case 'Name':
+        return this.resolveTable(source, scope);
+      case 'TabularSubquery':
+        return this.checkPipeline(source.pipeline, scope);
+      case 'Parenthesized':
+        return this.checkSource(source.expression, scope);
+      case 'Union':
+      case 'Search':
+      case 'Print':
+      case 'Range':
+      case 'Datatable':
+        return this.checkOperator(source, new Map(), scope);
+      default:
+        // Function calls and cross-database references such as database("x").T
+        return null;
+    }
+  }
+
+  private resolveTable(reference: KqlNameReference, scope: KqlScope): KqlColumns {
+    if (scope.tables.has(reference.name)) {
+      return copyColumns(scope.tables.get(reference.name)!);
+    }
+    if (scope.scalars.has(reference.name)) {
+      return null;
+    }
+
+    const columns = this.schema.tables[reference.name];
+    if (columns !== undefined) {
+      return columns ? new Map(Object.entries(columns)) : null;
+    }
+
+    const suggestion = suggestKqlName(reference.name, [...Object.keys(this.schema.tables), ...scope.tables.keys()]);
+    this.report(reference, `Unknown table '${reference.name}'`, suggestion, 'warning');
+    return null;
+  }
+
+  private checkOperator(operator: KqlOperator, columns: KqlColumns, scope: KqlScope): KqlColumns {
+    switch (operator.kind) {
+      case 'Where':
+        this.checkExpression(operator.predicate, columns, scope);
+        return columns;
+
+      case 'Project':
+        return this.checkProject(operator, columns, scope);
+
+      case 'Extend': {
+        let result = copyColumns(columns);
+        for (const item of operator.columns) {
+          this.checkExpression(item.expression, result, scope);
+          const name = item.name ?? columnNameOf(item.expression);
+          result = name && result ? result.set(name, typeOf(item.expression, columns)) : null;
+        }
+        return result;
+      }
+
+      case 'Summarize': {
+        const result = new Map<string, string>();
+        let known = true;
+        for (const item of operator.by) {
+          this.checkExpression(item.expression, columns, scope);
+          const name = item.name ?? columnNameOf(item.expression) ?? byColumnNameOf(item.expression);
+          if (name) {
+            result.set(name, typeOf(item.expression, columns));
+          } else {
+            known = false;
+          }
+        }
+        for (const item of operator.aggregates) {
+          this.checkExpression(item.expression, columns, scope);
+          const names = item.name ? [item.name] : aggregateColumnNamesOf(item.expression);
+          if (names) {
+            names.forEach(name => result.set(name, ''));
+          } else {
+            known = false;
+          }
+        }
+        return known ? result : null;
+      }
+
+      case 'Sort':
+      case 'Top':
+        if (operator.kind === 'Top') {
+          this.checkExpression(operator.count, null, scope);
+        }
+        operator.items.forEach(item => this.checkExpression(item.expression, columns, scope));
+        return columns;
+
+      case 'Take':
+        this.checkExpression(operator.count, null, scope);
+        return columns;
+
+      case 'Count':
+        return new Map([['Count', 'long']]);
+
+      case 'Distinct':
+        if (operator.columns.some(item => item.expression.kind === 'Wildcard')) {
+          return columns;
+        }
+        return this.projectColumns(operator.columns, columns, scope);
+
+      case 'Join': {
+        const right = this.checkPipeline(operator.right, scope);
+        operator.on.forEach(condition => this.checkJoinCondition(condition, columns, right, scope));
+
+        const kind = optionValue(operator.options, 'kind') ?? (operator.name === 'lookup' ? 'leftouter' : 'innerunique');
+        if (/^left(anti)?semi$|^leftanti$/.test(kind)) {
+          return columns;
+        }
+        if (/^right(anti)?semi$|^rightanti$/.test(kind)) {
+          return right;
+        }
+        if (!columns || !right) {
+          return null;
+        }
+        const result = new Map(columns);
+        right.forEach((type, name) => result.set(result.has(name) && operator.name === 'join' ? `${name}1` : name, type));
+        return result;
+      }
+
+      case 'Union': {
+        const result = copyColumns(columns);
+        const tables = operator.tables.map(table => table.source.kind === 'Wildcard' ? null : this.checkPipeline(table, scope));
+        const source = optionValue(operator.options, 'withsource');
+        if (!result || tables.some(table => table === null)) {
+          return null;
+        }
+        tables.forEach(table => table!.forEach((type, name) => result.set(name, type)));
+        return source ? result.set(source, 'string') : result;
+      }
+
+      case 'MvExpand': {
+        let result = copyColumns(columns);
+        for (const item of operator.columns) {
+          this.checkExpression(item.expression, columns, scope);
+          const name = item.name ?? columnNameOf(item.expression);
+          result = name && result ? result.set(name, item.type ?? 'dynamic') : null;
+        }
+        const indexColumn = optionValue(operator.options, 'with_itemindex');
+        return indexColumn && result ? result.set(indexColumn, 'long') : result;
+      }
+
+      case 'Parse': {
+        this.checkExpression(operator.source, columns, scope);
+        const result = copyColumns(columns);
+        for (const part of operator.pattern) {
+          if (part.kind === 'column') {
+            result?.set(part.name, part.type || 'string');
+          }
+        }
+        return result;
+      }
+
+      case 'Render':
+        return columns;
+
+      case 'Evaluate':
+        operator.plugin.args.forEach(arg => this.checkExpression(arg, columns, scope));
+        return null;
+
+      case 'As':
+        scope.tables.set(operator.alias, copyColumns(columns));
+        return columns;
+
+      case 'Print':
+        return this.projectColumns(
+          operator.columns.map((item, index) => ({ ...item, name: item.name ?? `print_${index}` })),
+          columns,
+          scope
+        );
+
+      case 'Range':
+        [operator.from, operator.to, operator.step].forEach(expression => this.checkExpression(expression, null, scope));
+        return new Map([[operator.column, '']]);
+
+      case 'Datatable':
+        return new Map(operator.columns.map(column => [column.name, column.type]));
+
+      case 'Generic':
+        if (operator.name === 'sample' || operator.name === 'sample-distinct' || (operator.name === 'serialize' && !operator.text.includes('='))) {
+          return columns;
+        }
+        if (operator.name === 'getschema') {
+          return new Map([['ColumnName', 'string'], ['ColumnOrdinal', 'int'], ['DataType', 'string'], ['ColumnType', 'string']]);
+        }
+        return null;
+
+      default:
+        // search scans columns of every table
+        return null;
+    }
+  }
+
+  private checkProject(operator: KqlProjectOperator, columns: KqlColumns, scope: KqlScope): KqlColumns {
+    switch (operator.name) {
+      case 'project':
+        return this.projectColumns(operator.columns, columns, scope);
+
+      case 'project-rename': {
+        const result = copyColumns(columns);
+        for (const item of operator.columns) {
+          this.checkExpression(item.expression, columns, scope);
+          const existing = columnNameOf(item.expression);
+          if (result && existing) {
+            const type = result.get(existing) ?? '';
+            result.delete(existing);
+            result.set(item.name!, type);
+          }
+        }
+        return result;
+      }
+
+      default: {
+        // project-away, project-keep and project-reorder select existing columns by name or pattern
+        const selected = new Set<string>();
+        for (const item of operator.columns) {
+          if (item.expression.kind === 'Wildcard') {
+            const pattern = wildcardPattern(item.expression.pattern);
+            columns?.forEach((_, name) => pattern.test(name) && selected.add(name));
+          } else {
+            this.checkExpression(item.expression, columns, scope);
+            const name = columnNameOf(item.expression);
+            if (name) {
+              selected.add(name);
+            }
+          }
+        }
+        if (!columns || operator.name === 'project-reorder') {
+          return columns;
+        }
+        const keep = operator.name === 'project-keep';
+        return new Map([...columns].filter(([name]) => selected.has(name) === keep));
+      }
+    }
+  }
+
+  /**
+   * Columns produced by a project-style list: each item keeps its own name or the name it is given
+   */
+  private projectColumns(items: KqlNamedExpression[], columns: KqlColumns, scope: KqlScope): KqlColumns {
+    const result = new Map<string, string>();
+    let known = true;
+    for (const item of items) {
+      this.checkExpression(item.expression, columns, scope);
+      const name = item.name ?? columnNameOf(item.expression);
+      if (name) {
+        result.set(name, typeOf(item.expression, columns));
+      } else {
+        known = false;
+      }
+    }
+    return known ? result : null;
+  }
+
+  /**
+   * `on Column`, `on $left.A == $right.B` and combinations joined with `and`
+   */
+  private checkJoinCondition(condition: KqlExpression, left: KqlColumns, right: KqlColumns, scope: KqlScope): void {
+    if (condition.kind === 'Name') {
+      this.checkColumn(condition, left, scope);
+      this.checkColumn(condition, right, scope);
+    } else if (condition.kind === 'Binary' && (condition.operator === '==' || condition.operator === 'and')) {
+      this.checkJoinCondition(condition.left, left, right, scope);
+      this.checkJoinCondition(condition.right, left, right, scope);
+    } else if (condition.kind === 'Member' && condition.target.kind === 'Name' && ['$left', '$right'].includes(condition.target.name)) {
+      const reference: KqlNameReference = { kind: 'Name', name: condition.member, start: condition.start, end: condition.end };
+      this.checkColumn(reference, condition.target.name === '$left' ? left : right, scope);
+    } else {
+      this.checkExpression(condition, null, scope);
+    }
+  }
+
+  private checkExpression(expression: KqlExpression, columns: KqlColumns, scope: KqlScope): void {
+    switch (expression.kind) {
+      case 'Name':
+        this.checkColumn(expression, columns, scope);
+        return;
+      case 'Member':
+        this.checkExpression(expression.target, columns, scope);
+        return;
+      case 'Index':
+        this.checkExpression(expression.target, columns, scope);
+        this.checkExpression(expression.index, columns, scope);
+        return;
+      case 'Call':
+        if (expression.name !== 'typeof') {
+          expression.args.forEach(arg => this.checkExpression(arg, columns, scope));
+        }
+        return;
+      case 'Binary':
+        this.checkExpression(expression.left, columns, scope);
+        this.checkExpression(expression.right, columns, scope);
+        return;
+      case 'Unary':
+        this.checkExpression(expression.operand, columns, scope);
+        return;
+      case 'In':
+        [expression.operand, ...expression.values].forEach(value => this.checkExpression(value, columns, scope));
+        return;
+      case 'Between':
+        [expression.operand, expression.low, expression.high].forEach(value => this.checkExpression(value, columns, scope));
+        return;
+      case 'Parenthesized':
+        this.checkExpression(expression.expression, columns, scope);
+        return;
+      case 'TabularSubquery':
+        this.checkPipeline(expression.pipeline, scope);
+        return;
+      default:
+        return;
+    }
+  }
+
+  private checkColumn(reference: KqlNameReference, columns: KqlColumns, scope: KqlScope): void {
+    const name = reference.name;
+    if (
+      !columns ||
+      columns.has(name) ||
+      scope.scalars.has(name) ||
+      scope.tables.has(name) ||
+      name === 'null' ||
+      name.startsWith('$') ||
+      name.startsWith('_') // Hidden system columns such as _ResourceId are not always listed
+    ) {
+      return;
+    }
+
+    this.report(reference, `Unknown column '${name}'`, suggestKqlName(name, columns.keys()), 'error');
+  }
+
+  /**
+   * Report each unknown name once, at its first occurrence
+   */
+  private report(reference: KqlNameReference, message: string, suggestion: string | undefined, severity: KqlDiagnostic['severity']): void {
+    if (this.reported.has(message)) {
+      return;
+    }
+    this.reported.add(message);
+    const text = suggestion ? `${message} (did you mean '${suggestion}'?)` : message;
+    this.diagnostics.push(createDiagnostic(this.query, reference.start, reference.end, text, severity));
+  }
+}
+
+function copyColumns(columns: KqlColumns): KqlColumns {
+  return columns ? new Map(columns) : null;
+}
+
+function optionValue(options: KqlOperatorOption[], name: string): string | undefined {
+  return options.find(option => option.name === name)?.value;
+}
+
+/**
+ * Regular expression matching names against a column or table pattern such as custom*
+ */
+export function wildcardPattern(pattern: string): RegExp {
+  return new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+}
+
+function typeOf(expression: KqlExpression, columns: KqlColumns): string {
+  return expression.kind === 'Name' ? columns?.get(expression.name) ?? '' : '';
+}
+
+/**
+ * Name of the column an unnamed expression produces: the column itself, or
+ * Column_key for dynamic property access such as customDimensions.key
+ */
+export function columnNameOf(expression: KqlExpression): string | undefined {
+  if (expression.kind === 'Name') {
+    return expression.name;
+  }
+  if (expression.kind === 'Member' && expression.target.kind === 'Name') {
+    return `${expression.target.name}_${expression.member}`;
+  }
+  if (expression.kind === 'Index' && expression.target.kind === 'Name' && expression.index.kind === 'Literal' && expression.index.literalType === 'string') {
+    return `${expression.target.name}_${expression.index.value}`;
+  }
+  return undefined;
+}
+
+/**
+ * Grouping expressions such as bin(timestamp, 1h) keep the name of the column they are computed from
+ */
+export function byColumnNameOf(expression: KqlExpression): string | undefined {
+  return expression.kind === 'Call' && expression.args.length > 0 ? columnNameOf(expression.args[0]) : undefined;
+}
+
+/**
+ * Default result column names of an unnamed aggregation, or undefined when they cannot be inferred
+ */
+export function aggregateColumnNamesOf(expression: KqlExpression): string[] | undefined {
+  if (expression.kind !== 'Call') {
+    return undefined;
+  }
+  const call: KqlCallExpression = expression;
+  const column = call.args.length > 0 ? columnNameOf(call.args[0]) : undefined;
+
+  switch (call.name) {
+    case 'count':
+    case 'countif':
+      return [`${call.name}_`];
+    case 'percentile':
+    case 'percentiles': {
+      const percentages = call.args.slice(1).map(arg => arg.kind === 'Literal' ? String(arg.value).replace('.', '_') : undefined);
+      return column && percentages.every(Boolean) ? percentages.map(value => `percentile_${column}_${value}`) : undefined;
+    }
+    case 'arg_max':
+    case 'arg_min': {
+      const names = call.args.map(columnNameOf);
+      return names.every(Boolean) ? names as string[] : undefined;
+    }
+    default:
+      return column && AGGREGATE_PREFIXES[call.name] ? [`${AGGREGATE_PREFIXES[call.name]}_${column}`] : undefined;
+  }
+}
@@ -0,0 +1,264 @@
+import { KqlDiagnostic } from '../../types';
+
+/**
+ * Kinds of tokens produced by the KQL tokenizer
+ */
+export type KqlTokenKind =
+  | 'identifier'
+  | 'string'
+  | 'number'
+  | 'timespan'
+  | 'operator'
+  | 'punctuation'
+  | 'comment'
+  | 'eof';
+
+/**
+ * A KQL token with its position in the source text
+ */
+export interface KqlToken {
+  kind: KqlTokenKind;
+  value: string; // Exact source text of the token
+  start: number; // Offset of the first character
+  end: number; // Offset after the last character
+}
+
+export interface KqlTokenizeResult {
+  tokens: KqlToken[]; // Always terminated by an 'eof' token
+  diagnostics: KqlDiagnostic[];
+}
+
+/**
+ * Units accepted after a number to form a timespan literal (e.g. 5m, 1.5h, 100ms)
+ */
+export const TIMESPAN_UNITS: Record<string, number> = {
+  d: 86400000, day: 86400000, days: 86400000,
+  h: 3600000, hr: 3600000, hrs: 3600000, hour: 3600000, hours: 3600000,
+  m: 60000, min: 60000, minute: 60000, minutes: 60000,
+  s: 1000, sec: 1000, second: 1000, seconds: 1000,
+  ms: 1, milli: 1, millis: 1, millisecond: 1, milliseconds: 1,
+  microsecond: 0.001, microseconds: 0.001,
+  tick: 0.0001, ticks: 0.0001
+};
+
+const PUNCTUATION = new Set(['(', ')', '[', ']', '{', '}', ',', ';', ':', '|', '.']);
+
+// Longest operators first so that e.g. "==" is not read as two "=" tokens
+const OPERATORS = ['..', '==', '!=', '<>', '<=', '>=', '=~', '!~', '=>', '<|', '=', '<', '>', '+', '-', '*', '/', '%', '!', '?'];
+
+const isIdentifierStart = (char: string): boolean => /[A-Za-z_$]/.test(char);
+const isIdentifierPart = (char: string): boolean => /[A-Za-z0-9_]/.test(char);
+const isDigit = (char: string): boolean => char >= '0' && char <= '9';
+
+/**
+ * Convert a character offset into a 1-based line and column
+ */
+export function getLineAndColumn(text: string, offset: number): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+  const limit = Math.min(offset, text.length);
+  for (let i = 0; i < limit; i++) {
+    if (text[i] === '\n') {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: limit - lineStart + 1 };
+}
+
+/**
+ * Create a positioned diagnostic for a range of the source text
+ */
+export function createDiagnostic(
+  text: string,
+  start: number,
+  end: number,
+  message: string,
+  severity: KqlDiagnostic['severity'] = 'error'
+): KqlDiagnostic {
+  const { line, column } = getLineAndColumn(text, start);
+  return {
+    severity,
+    message,
+    line,
+    column,
+    offset: start,
+    length: Math.max(end - start, 1)
+  };
+}
+
+/**
+ * Split a KQL query into tokens. Comments are kept in the token stream so that
+ * tools such as formatters can preserve them; the parser skips them.
+ */
+export function tokenizeKql(text: string): KqlTokenizeResult {
+  const tokens: KqlToken[] = [];
+  const diagnostics: KqlDiagnostic[] = [];
+  let pos = 0;
+
+  const push = (kind: KqlTokenKind, start: number, end: number): void => {
+    tokens.push({ kind, value: text.slice(start, end), start, end });
+  };
+
+  while (pos < text.length) {
+    const char = text[pos];
+    const next = text[pos + 1];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    // Line comments
+    if (char === '/' && next === '/') {
+      const start = pos;
+      while (pos < text.length && text[pos] !== '\n') {
+        pos++;
+      }
+      push('comment', start, pos);
+      continue;
+    }
+
+    // Multi-line string literals: ```...```
+    if (text.startsWith('```', pos)) {
+      const start = pos;
+      const close = text.indexOf('```', pos + 3);
+      if (close === -1) {
+        pos = text.length;
+        diagnostics.push(createDiagnostic(text, start, start + 3, 'Unterminated multi-line string literal'));
+      } else {
+        pos = close + 3;
+      }
+      push('string', start, pos);
+      continue;
+    }
+
+    // String literals, optionally prefixed with @ (verbatim) or h/H (obfuscated)
+    const prefixLength = (char === '@' || char === 'h' || char === 'H') && (next === '\'' || next === '"')
+      ? 1
+      : (char === 'h' || char === 'H') && next === '@' && (text[pos + 2] === '\'' || text[pos + 2] === '"') ? 2 : 0;
+    if (char === '\'' || char === '"' || prefixLength > 0) {
+      const start = pos;
+      const verbatim = text.slice(pos, pos + prefixLength).includes('@');
+      const quote = text[pos + prefixLength];
+      pos += prefixLength + 1;
+      let terminated = false;
+
+      while (pos < text.length) {
+        const current = text[pos];
+        if (current === '\n' || current === '\r') {
+          break;
+        }
+        if (!verbatim && current === '\\') {
+          pos += 2;
+          continue;
+        }
+        if (current === quote) {
+          if (verbatim && text[pos + 1] === quote) {
+            pos += 2;
+            continue;
+          }
+          pos++;
+          terminated = true;
+          break;
+        }
+        pos++;
+      }
+
+      if (!terminated) {
+        pos = Math.min(pos, text.length);
+        diagnostics.push(createDiagnostic(text, start, pos, 'Unterminated string literal'));
+      }
+      push('string', start, pos);
+      continue;
+    }
+
+    // Numbers, real numbers and timespan literals
+    if (isDigit(char) || (char === '.' && next !== undefined && isDigit(next) && !isIdentifierPart(text[pos - 1] || ''))) {
+      const start = pos;
+      if (char === '0' && (next === 'x' || next === 'X')) {
+        pos += 2;
+        while (pos < text.length && /[0-9A-Fa-f]/.test(text[pos])) {
+          pos++;
+        }
+      } else {
+        while (pos < text.length && isDigit(text[pos])) {
+          pos++;
+        }
+        if (text[pos] === '.' && isDigit(text[pos + 1] || '')) {
+          pos++;
+          while (pos < text.length && isDigit(text[pos])) {
+            pos++;
+          }
+        }
+        if ((text[pos] === 'e' || text[pos] === 'E') && (isDigit(text[pos + 1] || '') || ((text[pos + 1] === '+' || text[pos + 1] === '-') && isDigit(text[pos + 2] || '')))) {
+          pos += 2;
+          while (pos < text.length && isDigit(text[pos])) {
+            pos++;
+          }
+        }
+      }
+
+      // A unit directly after the number makes it a timespan (1h, 30s, 100ms)
+      const suffixStart = pos;
+      while (pos < text.length && isIdentifierPart(text[pos])) {
+        pos++;
+      }
+      const suffix = text.slice(suffixStart, pos);
+      push(suffix && TIMESPAN_UNITS[suffix.toLowerCase()] !== undefined ? 'timespan' : 'number', start, pos);
+      continue;
+    }
+
+    if (isIdentifierStart(char)) {
+      const start = pos;
+      pos++;
+      while (pos < text.length && isIdentifierPart(text[pos])) {
+        pos++;
+      }
+      if (text[pos] === '~' && text.slice(start, pos) === 'in') {
+        pos++; // in~
+      }
+      push('identifier', start, pos);
+      continue;
+    }
+
+    // Negated string operators such as !contains and !has
+    if (char === '!' && next !== undefined && /[A-Za-z_]/.test(next)) {
+      const start = pos;
+      pos++;
+      while (pos < text.length && isIdentifierPart(text[pos])) {
+        pos++;
+      }
+      if (text[pos] === '~') {
+        pos++; // !in~
+      }
+      push('operator', start, pos);
+      continue;
+    }
+
+    if (char === '.' && next === '.') {
+      push('operator', pos, pos + 2);
+      pos += 2;
+      continue;
+    }
+
+    if (PUNCTUATION.has(char)) {
+      push('punctuation', pos, pos + 1);
+      pos++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => text.startsWith(op, pos));
+    if (operator) {
+      push('operator', pos, pos + operator.length);
+      pos += operator.length;
+      continue;
+    }
+
+    diagnostics.push(createDiagnostic(text, pos, pos + 1, `Unexpected character '${char}'`));
+    pos++;
+  }
+
+  tokens.push({ kind: 'eof', value: '', start: text.length, end: text.length });
+  return { tokens, diagnostics };
+}
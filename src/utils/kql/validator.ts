@@ -0,0 +1,53 @@
+import { KqlDiagnostic } from '../../types';
+import { KqlStatement } from './ast';
+import { parseKql } from './parser';
+import { createDiagnostic } from './tokenizer';
+
+/**
+ * Check a KQL query for syntax errors and disallowed management commands.
+ * Returns positioned diagnostics ordered by their location in the query.
+ */
+export function validateKql(query: string): KqlDiagnostic[] {
+  if (!query || query.trim().length === 0) {
+    return [createDiagnostic(query || '', 0, 0, 'Query cannot be empty')];
+  }
+
+  const { script, diagnostics } = parseKql(query);
+  const results = [...diagnostics];
+
+  for (const statement of script.statements) {
+    if (statement.kind === 'ManagementCommand') {
+      const message = statement.command === '.show'
+        ? `Management command '${statement.command}' cannot be run as a query`
+        : `Potentially dangerous operation detected: ${statement.command}`;
+      results.push(createDiagnostic(query, statement.start, statement.start + statement.command.length, message));
+    }
+  }
+
+  if (diagnostics.length === 0 && !script.statements.some(isTabularStatement)) {
+    const end = query.trimEnd().length;
+    results.push(createDiagnostic(query, end, end, 'Query must end with a tabular expression (let statements alone return nothing)'));
+  }
+
+  return results.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Whether the query runs a management command such as .drop, which is never sent even when
+ * other local diagnostics are overruled by the data source
+ */
+export function containsKqlManagementCommand(query: string): boolean {
+  return parseKql(query).script.statements.some(statement => statement.kind === 'ManagementCommand');
+}
+
+/**
+ * First error diagnostic formatted as "Line 2, column 5: message"
+ */
+export function summarizeKqlDiagnostics(diagnostics: KqlDiagnostic[]): string | undefined {
+  const error = diagnostics.find(diagnostic => diagnostic.severity === 'error');
+  return error ? `Line ${error.line}, column ${error.column}: ${error.message}` : undefined;
+}
+
+function isTabularStatement(statement: KqlStatement): boolean {
+  return statement.kind === 'Query' || statement.kind === 'ManagementCommand';
+}
@@ -0,0 +1,180 @@
+import { KqlDiagnostic } from '../types';
+import { createDiagnostic } from './kql';
+
+/**
+ * Aggregations supported by the Azure Monitor metrics API
+ */
+export const AZURE_METRIC_AGGREGATIONS = ['Average', 'Total', 'Minimum', 'Maximum', 'Count'] as const;
+
+export type AzureMetricAggregation = typeof AZURE_METRIC_AGGREGATIONS[number];
+
+/**
+ * Dimension filter of a metric query, e.g. { dimension: 'ApiName', values: ['GetBlob'] }
+ */
+export interface AzureMetricFilter {
+  dimension: string;
+  operator?: 'eq' | 'ne' | 'sw'; // Default: eq. Several values are combined with "or"
+  values: string[];
+}
+
+/**
+ * Structured request for Azure Monitor platform metrics. Used instead of KQL
+ * by the azure-metrics data source, written as JSON in the query text.
+ */
+export interface AzureMetricQuery {
+  metricNames: string[];
+  aggregations?: AzureMetricAggregation[]; // Default: the metric's primary aggregation
+  interval?: string; // ISO 8601 duration between data points, e.g. PT5M
+  timespan?: string; // ISO 8601 duration (PT24H) or start/end interval
+  filters?: AzureMetricFilter[];
+  splitBy?: string[]; // Dimensions that get a separate time series per value
+  top?: number; // Maximum number of time series when splitting
+  orderBy?: string; // e.g. "Average desc", used with top
+  metricNamespace?: string;
+}
+
+const DURATION_PATTERN = /^P(?!$)(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/;
+const FILTER_OPERATORS = ['eq', 'ne', 'sw'];
+
+/**
+ * Parse and check a metric query written as JSON. Throws an Error describing the first problem.
+ * Aggregation names are matched case-insensitively and returned in their canonical spelling.
+ */
+export function parseAzureMetricQuery(text: string): AzureMetricQuery {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Metric query must be JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Metric query must be a JSON object');
+  }
+  const raw = value as Record<string, unknown>;
+
+  const metricNames = readStringList(raw.metricNames, 'metricNames');
+  if (metricNames.length === 0) {
+    throw new Error('metricNames must name at least one metric');
+  }
+  const query: AzureMetricQuery = { metricNames };
+
+  if (raw.aggregations !== undefined) {
+    const names = typeof raw.aggregations === 'string' ? raw.aggregations.split(',') : readStringList(raw.aggregations, 'aggregations');
+    query.aggregations = names.map(name => {
+      const aggregation = AZURE_METRIC_AGGREGATIONS.find(known => known.toLowerCase() === name.trim().toLowerCase());
+      if (!aggregation) {
+        throw new Error(`Unknown aggregation '${name}' (expected one of ${AZURE_METRIC_AGGREGATIONS.join(', ')})`);
+      }
+      return aggregation;
+    });
+  }
+
+  if (raw.interval !== undefined) {
+    if (typeof raw.interval !== 'string' || !(DURATION_PATTERN.test(raw.interval) || raw.interval === 'FULL')) {
+      throw new Error(`interval must be an ISO 8601 duration such as PT5M, got ${JSON.stringify(raw.interval)}`);
+    }
+    query.interval = raw.interval;
+  }
+
+  if (raw.timespan !== undefined) {
+    if (typeof raw.timespan !== 'string' || !isTimespan(raw.timespan)) {
+      throw new Error(`timespan must be an ISO 8601 duration or start/end interval, got ${JSON.stringify(raw.timespan)}`);
+    }
+    query.timespan = raw.timespan;
+  }
+
+  if (raw.filters !== undefined) {
+    if (!Array.isArray(raw.filters)) {
+      throw new Error('filters must be a list of { dimension, operator, values }');
+    }
+    query.filters = raw.filters.map((filter: Record<string, unknown>, index) => {
+      if (!filter || typeof filter.dimension !== 'string' || !filter.dimension) {
+        throw new Error(`filters[${index}] must name a dimension`);
+      }
+      const operator = filter.operator ?? 'eq';
+      if (typeof operator !== 'string' || !FILTER_OPERATORS.includes(operator)) {
+        throw new Error(`filters[${index}].operator must be one of ${FILTER_OPERATORS.join(', ')}`);
+      }
+      const values = readStringList(filter.values, `filters[${index}].values`);
+      if (values.length === 0) {
+        throw new Error(`filters[${index}].values must list at least one value`);
+      }
+      return { dimension: filter.dimension, operator: operator as AzureMetricFilter['operator'], values };
+    });
+  }
+
+  if (raw.splitBy !== undefined) {
+    query.splitBy = readStringList(raw.splitBy, 'splitBy');
+  }
+
+  if (raw.top !== undefined) {
+    if (typeof raw.top !== 'number' || !Number.isInteger(raw.top) || raw.top <= 0) {
+      throw new Error('top must be a positive whole number');
+    }
+    query.top = raw.top;
+  }
+
+  for (const field of ['orderBy', 'metricNamespace'] as const) {
+    if (raw[field] !== undefined) {
+      if (typeof raw[field] !== 'string') {
+        throw new Error(`${field} must be a string`);
+      }
+      query[field] = raw[field] as string;
+    }
+  }
+
+  return query;
+}
+
+/**
+ * Check a metric query, reporting problems the same way as KQL diagnostics
+ */
+export function validateAzureMetricQuery(text: string): KqlDiagnostic[] {
+  try {
+    parseAzureMetricQuery(text);
+    return [];
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // JSON syntax errors report the character position
+    const position = /position (\d+)/.exec(message);
+    const offset = position ? Number(position[1]) : 0;
+    return [createDiagnostic(text, offset, offset, message)];
+  }
+}
+
+/**
+ * $filter expression for the metrics API: dimension filters joined with "and",
+ * plus "Dimension eq '*'" for every dimension to split by
+ */
+export function buildAzureMetricFilter(query: AzureMetricQuery): string | undefined {
+  const quote = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+  const clauses = (query.filters || []).map(filter => {
+    const parts = filter.values.map(value => `${filter.dimension} ${filter.operator || 'eq'} ${quote(value)}`);
+    return parts.length > 1 ? `(${parts.join(' or ')})` : parts[0];
+  });
+  for (const dimension of query.splitBy || []) {
+    if (!query.filters?.some(filter => filter.dimension === dimension)) {
+      clauses.push(`${dimension} eq '*'`);
+    }
+  }
+
+  return clauses.length > 0 ? clauses.join(' and ') : undefined;
+}
+
+function readStringList(value: unknown, field: string): string[] {
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || item.trim() === '')) {
+    throw new Error(`${field} must be a list of names`);
+  }
+  return value;
+}
+
+function isTimespan(value: string): boolean {
+  const parts = value.split('/');
+  if (parts.length === 1) {
+    return DURATION_PATTERN.test(value);
+  }
+  return parts.length === 2 && parts.every(part => DURATION_PATTERN.test(part) || !isNaN(Date.parse(part))) &&
+    parts.some(part => !DURATION_PATTERN.test(part));
+}
@@ -1,5 +1,7 @@
 import { AIProviderConfig, DataSourceConfig, AuthConfig, AIProviderType, DataSourceType, AuthType } from '../core/types/ProviderTypes';
 import { logger } from './logger';
+import { AZURE_CREDENTIAL_METHODS } from '../providers/auth/credentialChain';
+import { APPLICATION_INSIGHTS_API_KEY_ENV, getEnvReference, resolveSecret } from './secrets';
 
 /**
  * Validation result for provider configurations
@@ -30,9 +32,11 @@ export class ProviderConfigValidator {
       case 'ollama':
         return this.validateOllamaConfig(config);
       case 'anthropic':
-        result.errors.push('Anthropic provider not yet implemented');
-        result.isValid = false;
-        break;
+        return this.validateAnthropicConfig(config);
+      case 'openai-compatible':
+        return this.validateOpenAICompatibleConfig(config);
+      case 'mock':
+        return this.validateMockConfig(config);
       default:
         result.errors.push(`Unsupported AI provider type: ${config.type}`);
         result.isValid = false;
@@ -45,25 +49,41 @@ export class ProviderConfigValidator {
    * Validate data source provider configuration
    */
   static validateDataSourceConfig(config: DataSourceConfig): ValidationResult {
-    const result: ValidationResult = { isValid: true, errors: [], warnings: [] };
+    let result: ValidationResult = { isValid: true, errors: [], warnings: [] };
 
     // Type-specific validation
     switch (config.type) {
       case 'application-insights':
-        return this.validateApplicationInsightsConfig(config);
+        result = this.validateApplicationInsightsConfig(config);
+        break;
       case 'log-analytics':
-        return this.validateLogAnalyticsConfig(config);
+        result = this.validateLogAnalyticsConfig(config);
+        break;
       case 'azure-data-explorer':
-        return this.validateAzureDataExplorerConfig(config);
+        result = this.validateAzureDataExplorerConfig(config);
+        break;
       case 'azure-metrics':
-        result.errors.push('Azure Metrics provider not yet implemented');
-        result.isValid = false;
+        result = this.validateAzureMetricsConfig(config);
+        break;
+      case 'local-files':
+        result = this.validateLocalFilesConfig(config);
         break;
       default:
         result.errors.push(`Unsupported data source provider type: ${config.type}`);
         result.isValid = false;
     }
 
+    // Retry settings are shared by all data sources
+    if (config.retry) {
+      for (const [key, value] of Object.entries(config.retry)) {
+        const minimum = key === 'circuitBreakerThreshold' ? 1 : 0;
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < minimum) {
+          result.errors.push(`Invalid retry setting ${key}: ${value} (expected a number of at least ${minimum})`);
+          result.isValid = false;
+        }
+      }
+    }
+
     return result;
   }
 
@@ -77,9 +97,7 @@ export class ProviderConfigValidator {
       case 'azure-managed-identity':
         return this.validateAzureManagedIdentityConfig(config);
       case 'service-principal':
-        result.errors.push('Service Principal auth provider not yet implemented');
-        result.isValid = false;
-        break;
+        return this.validateServicePrincipalConfig(config);
       default:
         result.errors.push(`Unsupported auth provider type: ${config.type}`);
         result.isValid = false;
@@ -171,6 +189,87 @@ export class ProviderConfigValidator {
     return result;
   }
 
+  /**
+   * Validate mock provider configuration
+   */
+  private static validateMockConfig(config: AIProviderConfig): ValidationResult {
+    const result: ValidationResult = { isValid: true, errors: [], warnings: [] };
+
+    if (!config.rulesFile) {
+      result.warnings.push('Mock rules file not specified, questions will be answered from query templates only');
+    }
+
+    // Warn about unused fields
+    if (config.endpoint) {
+      result.warnings.push('Endpoint not used for mock provider, will be ignored');
+    }
+    if (config.apiKey) {
+      result.warnings.push('API key not used for mock provider, will be ignored');
+    }
+
+    return result;
+  }
+
+  /**
+   * Validate Anthropic configuration
+   */
+  private static validateAnthropicConfig(config: AIProviderConfig): ValidationResult {
+    const result: ValidationResult = { isValid: true, errors: [], warnings: [] };
+
+    if (!config.apiKey) {
+      result.errors.push('Anthropic API key is required');
+      result.isValid = false;
+    }
+
+    if (!config.model) {
+      result.warnings.push('Anthropic model not specified, will use default (claude-sonnet-4-5)');
+    }
+
+    // Custom endpoint is optional (e.g. for API gateways)
+    if (config.endpoint && !this.isValidUrl(config.endpoint)) {
+      result.errors.push('Anthropic endpoint must be a valid URL');
+      result.isValid = false;
+    }
+
+    // Anthropic doesn't use deploymentName
+    if (config.deploymentName) {
+      result.warnings.push('Deployment name not used for Anthropic provider, will be ignored');
+    }
+
+    return result;
+  }
+
+  /**
+   * Validate OpenAI-compatible endpoint configuration
+   */
+  private static validateOpenAICompatibleConfig(config: AIProviderConfig): ValidationResult {
+    const result: ValidationResult = { isValid: true, errors: [], warnings: [] };
+
+    if (!config.endpoint) {
+      result.errors.push('OpenAI-compatible endpoint (base URL) is required');
+      result.isValid = false;
+    } else if (!this.isValidUrl(config.endpoint)) {
+      result.errors.push('OpenAI-compatible endpoint must be a valid URL');
+      result.isValid = false;
+    }
+
+    // Servers serve whatever models they loaded, so there is no sensible default
+    if (!config.model) {
+      result.errors.push('Model name is required for OpenAI-compatible provider');
+      result.isValid = false;
+    }
+
+    if (config.authHeader && !config.apiKey) {
+      result.warnings.push(`Auth header '${config.authHeader}' configured without an API key, it will not be sent`);
+    }
+
+    if (config.deploymentName) {
+      result.warnings.push('Deployment name not used for OpenAI-compatible provider, will be ignored');
+    }
+
+    return result;
+  }
+
   /**
    * Validate Application Insights configuration
    */
@@ -182,6 +281,21 @@ export class ProviderConfigValidator {
       result.isValid = false;
     }
 
+    if (config.authMode && config.authMode !== 'aad' && config.authMode !== 'api-key') {
+      result.errors.push(`Unsupported Application Insights auth mode: ${config.authMode} (expected aad or api-key)`);
+      result.isValid = false;
+    }
+
+    if (config.authMode === 'api-key') {
+      if (!resolveSecret(config.apiKey, APPLICATION_INSIGHTS_API_KEY_ENV)) {
+        const source = getEnvReference(config.apiKey) || APPLICATION_INSIGHTS_API_KEY_ENV;
+        result.errors.push(`Application Insights API key is required for api-key auth mode (set ${source})`);
+        result.isValid = false;
+      } else if (config.apiKey && !getEnvReference(config.apiKey)) {
+        result.warnings.push(`Application Insights API key is stored in plain text, consider setting ${APPLICATION_INSIGHTS_API_KEY_ENV} instead`);
+      }
+    }
+
     // Only generate warnings for actual issues, not for optional fields that have reasonable defaults
     // Resource discovery is optional and many users don't need these fields
     // No longer warn about missing subscriptionId, resourceGroup, resourceName
@@ -270,6 +384,64 @@ export class ProviderConfigValidator {
     return result;
   }
 
+  /**
+   * Validate Azure Metrics configuration
+   */
+  private static validateAzureMetricsConfig(config: DataSourceConfig): ValidationResult {
+    const result: ValidationResult = { isValid: true, errors: [], warnings: [] };
+
+    // Either the full resource ID or the parts it is built from
+    if (config.resourceId) {
+      if (!/^\/subscriptions\/[^/]+\/resourceGroups\/[^/]+\/providers\/.+\/.+/i.test(config.resourceId)) {
+        result.errors.push('Azure Metrics resource ID must look like /subscriptions/{id}/resourceGroups/{group}/providers/{namespace}/{type}/{name}');
+        result.isValid = false;
+      }
+    } else {
+      const missing = (['subscriptionId', 'resourceGroup', 'resourceType', 'resourceName'] as const).filter(field => !config[field]);
+      if (missing.length > 0) {
+        result.errors.push(`Azure Metrics resource ID is required (or ${missing.join(', ')})`);
+        result.isValid = false;
+      }
+    }
+
+    if (config.endpoint && !this.isValidUrl(config.endpoint)) {
+      result.errors.push('Azure Metrics endpoint must be a valid URL');
+      result.isValid = false;
+    }
+
+    // Warn about unused fields
+    if (config.applicationId) {
+      result.warnings.push('Application ID not used for Azure Metrics provider, will be ignored');
+    }
+    if (config.workspaceId) {
+      result.warnings.push('Workspace ID not used for Azure Metrics provider, will be ignored');
+    }
+
+    return result;
+  }
+
+  /**
+   * Validate local files configuration
+   */
+  private static validateLocalFilesConfig(config: DataSourceConfig): ValidationResult {
+    const result: ValidationResult = { isValid: true, errors: [], warnings: [] };
+
+    if (!config.directory) {
+      result.errors.push('Local files directory is required');
+      result.isValid = false;
+    }
+
+    // Warn about unused fields
+    if (config.applicationId) {
+      result.warnings.push('Application ID not used for local files provider, will be ignored');
+    }
+    if (config.workspaceId) {
+      result.warnings.push('Workspace ID not used for local files provider, will be ignored');
+    }
+
+    return result;
+  }
+
   /**
    * Validate Azure Managed Identity configuration
    */
@@ -278,10 +450,58 @@ export class ProviderConfigValidator {
 
     // Tenant ID is optional for managed identity - no need to warn
     // Client ID and secret are not used for managed identity - no need to warn unless misconfigured
+
+    // Explicit credential chain
+    if (config.credentials !== undefined) {
+      if (!Array.isArray(config.credentials) || config.credentials.length === 0) {
+        result.errors.push('Credential chain must list at least one credential');
+        result.isValid = false;
+      } else {
+        const unknown = config.credentials.filter(method => !AZURE_CREDENTIAL_METHODS.includes(method));
+        if (unknown.length > 0) {
+          result.errors.push(`Unknown credential method(s): ${unknown.join(', ')} (expected ${AZURE_CREDENTIAL_METHODS.join(', ')})`);
+          result.isValid = false;
+        }
+        if (new Set(config.credentials).size !== config.credentials.length) {
+          result.warnings.push('Credential chain lists a credential more than once, duplicates will be ignored');
+        }
+      }
+    }
     
     return result;
   }
 
+  /**
+   * Validate Service Principal configuration
+   */
+  private static validateServicePrincipalConfig(config: AuthConfig): ValidationResult {
+    const result: ValidationResult = { isValid: true, errors: [], warnings: [] };
+
+    if (!config.tenantId) {
+      result.errors.push('Service Principal tenant ID is required');
+      result.isValid = false;
+    }
+
+    if (!config.clientId) {
+      result.errors.push('Service Principal client ID is required');
+      result.isValid = false;
+    }
+
+    // Either a client secret or a certificate
+    if (!config.clientSecret && !config.certificatePath) {
+      result.errors.push('Service Principal client secret or certificate path is required');
+      result.isValid = false;
+    } else if (config.clientSecret && config.certificatePath) {
+      result.warnings.push('Both client secret and certificate configured for Service Principal, certificate will be used');
+    }
+
+    if (!config.certificatePath && (config.certificatePassword || config.sendCertificateChain)) {
+      result.warnings.push('Certificate options set without certificate path for Service Principal, will be ignored');
+    }
+
+    return result;
+  }
+
   /**
    * Validate if string is a valid URL
    */
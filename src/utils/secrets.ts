@@ -0,0 +1,42 @@
+/**
+ * Secrets in the configuration file can reference an environment variable instead of holding the value,
+ * e.g. "apiKey": "${AZURE_APPLICATION_INSIGHTS_API_KEY}", so that config.json can be shared without them.
+ */
+const ENV_REFERENCE = /^\$\{([A-Za-z_][A-Za-z0-9_]*)\}$/;
+
+/**
+ * Environment variable read for the Application Insights API key when the configuration has no apiKey
+ */
+export const APPLICATION_INSIGHTS_API_KEY_ENV = 'AZURE_APPLICATION_INSIGHTS_API_KEY';
+
+/**
+ * Name of the environment variable a config value refers to, if it is a "${NAME}" reference
+ */
+export function getEnvReference(value?: string): string | undefined {
+  return value ? ENV_REFERENCE.exec(value.trim())?.[1] : undefined;
+}
+
+/**
+ * Resolve a secret from a config value or environment variable reference,
+ * falling back to the given environment variable when the config has no value
+ */
+export function resolveSecret(value: string | undefined, fallbackEnvVar?: string): string | undefined {
+  if (value) {
+    const envVar = getEnvReference(value);
+    return envVar ? process.env[envVar] || undefined : value;
+  }
+
+  return fallbackEnvVar ? process.env[fallbackEnvVar] || undefined : undefined;
+}
+
+/**
+ * Where a secret is read from, for messages that must not print the secret itself
+ */
+export function describeSecretSource(value: string | undefined, fallbackEnvVar?: string): string {
+  if (value) {
+    const envVar = getEnvReference(value);
+    return envVar ? `environment variable ${envVar}` : 'configuration file';
+  }
+
+  return fallbackEnvVar ? `environment variable ${fallbackEnvVar}` : 'configuration file';
+}
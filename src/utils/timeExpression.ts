@@ -0,0 +1,595 @@
+import { describeTimespan, parseDuration, resolveTimespan, TimeInterval, TimeRangeOptions, toIsoDuration, toTimeInterval } from './timeRange';
+
+/**
+ * Natural language time expressions such as "last 2 hours", "yesterday", "last Tuesday",
+ * "between 14:00 and 15:30 yesterday UTC" or "since the deploy at 9am JST". Results only depend on
+ * the expression, the reference time and the time zone, so the same input always gives the same range.
+ */
+
+/**
+ * Options for resolving time expressions
+ */
+export interface TimeExpressionOptions {
+  now?: Date; // Reference time; defaults to the current time
+  timeZone?: string; // Zone of times that name none: IANA name, abbreviation or UTC offset; defaults to the system zone
+}
+
+/**
+ * Time range options of the CLI, with a natural language alternative to --since and --from/--to
+ */
+export interface TimeOptions extends TimeRangeOptions {
+  time?: string;
+}
+
+/**
+ * Concrete range of a time expression
+ */
+export interface ResolvedTimeRange extends TimeInterval {
+  duration: string; // ISO 8601 duration from start to end
+  timespan: string; // Sent to data sources: the duration for "last ..." expressions, which stay relative, otherwise start/end
+  timeZone: string; // Zone the expression was resolved in
+}
+
+/**
+ * Time zone with its UTC offset at an instant
+ */
+interface Zone {
+  name: string;
+  offsetMinutes(instant: number): number;
+}
+
+interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+interface TimeOfDay {
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Day, time and absolute instant found in the words of one point in time
+ */
+interface PointParts {
+  day?: CalendarDate;
+  weekday?: boolean; // The day is the most recent occurrence of a named weekday
+  time?: TimeOfDay;
+  instant?: number;
+}
+
+interface ResolutionContext {
+  now: number;
+  zone: Zone;
+  today: CalendarDate;
+  weekday: number; // 0 = Sunday
+}
+
+/** UTC offsets in minutes of unambiguous zone abbreviations (CST and similar are left out on purpose) */
+const ZONE_ABBREVIATIONS: Record<string, number> = {
+  utc: 0, gmt: 0, wet: 0, west: 60, bst: 60, cet: 60, cest: 120, eet: 120, eest: 180,
+  ist: 330, sgt: 480, hkt: 480, jst: 540, kst: 540, aest: 600, aedt: 660,
+  est: -300, edt: -240, cdt: -300, mst: -420, mdt: -360, pst: -480, pdt: -420,
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const UNIT_MS: Record<string, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  s: 'second', sec: 'second', secs: 'second', second: 'second', seconds: 'second',
+  m: 'minute', min: 'minute', mins: 'minute', minute: 'minute', minutes: 'minute',
+  h: 'hour', hr: 'hour', hrs: 'hour', hour: 'hour', hours: 'hour',
+  d: 'day', day: 'day', days: 'day',
+  w: 'week', week: 'week', weeks: 'week',
+};
+
+const RELATIVE_EXPRESSION = /^(?:the\s+)?(last|past|previous)\s+(?:(an?|\d+(?:\.\d+)?)\s*)?([a-z]+)$/;
+const RANGE_EXPRESSION = /^(.*?)\b(?:between|from)\s+(.+?)\s+(?:and|to|until)\s+(.+)$/;
+const SINCE_EXPRESSION = /^(?:since|after)\s+(.+)$/;
+const TIME_OF_DAY = /^(\d{1,2})(?::(\d{2}))?(?::(\d{2}))?(am|pm)?$/;
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const ISO_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})t(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(z|[+-]\d{2}:?\d{2})?$/;
+const UTC_OFFSET = /^(?:(?:utc|gmt)([+-])(\d{1,2})(?::?(\d{2}))?|([+-])(\d{2}):?(\d{2}))$/;
+
+const ianaFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function fixedZone(name: string, offset: number): Zone {
+  return { name, offsetMinutes: () => offset };
+}
+
+function formatOffset(offset: number): string {
+  const sign = offset < 0 ? '-' : '+';
+  const absolute = Math.abs(offset);
+  return `UTC${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}:${String(absolute % 60).padStart(2, '0')}`;
+}
+
+function ianaZone(timeZone: string): Zone | undefined {
+  let formatter = ianaFormatters.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+      });
+    } catch {
+      return undefined;
+    }
+    ianaFormatters.set(timeZone, formatter);
+  }
+
+  const zoneFormatter = formatter;
+  return {
+    name: zoneFormatter.resolvedOptions().timeZone,
+    offsetMinutes: (instant: number) => {
+      const parts = zoneFormatter.formatToParts(new Date(instant));
+      const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+      const wallClock = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+      return Math.round((wallClock - Math.floor(instant / 1000) * 1000) / 60000);
+    },
+  };
+}
+
+/**
+ * Zone of an abbreviation (JST), a UTC offset (UTC+9, +09:00) or an IANA name (Asia/Tokyo)
+ */
+function resolveZone(value: string): Zone | undefined {
+  const lower = value.toLowerCase();
+  if (lower in ZONE_ABBREVIATIONS) {
+    return fixedZone(value.toUpperCase(), ZONE_ABBREVIATIONS[lower]);
+  }
+
+  const offset = UTC_OFFSET.exec(lower);
+  if (offset) {
+    const [, sign, hours, minutes, isoSign, isoHours, isoMinutes] = offset;
+    const total = Number(hours ?? isoHours) * 60 + Number(minutes ?? isoMinutes ?? 0);
+    const minutesOffset = (sign ?? isoSign) === '-' ? -total : total;
+    return fixedZone(formatOffset(minutesOffset), minutesOffset);
+  }
+
+  // Only names with a slash are looked up, Intl also knows words such as "EST" with other meanings
+  return value.includes('/') ? ianaZone(value) : undefined;
+}
+
+/**
+ * Zone of the options, the system zone by default
+ */
+function getDefaultZone(timeZone?: string): Zone {
+  if (timeZone) {
+    const zone = resolveZone(timeZone) ?? ianaZone(timeZone);
+    if (!zone) {
+      throw new Error(`Unknown time zone '${timeZone}'`);
+    }
+    return zone;
+  }
+  return ianaZone(Intl.DateTimeFormat().resolvedOptions().timeZone) ?? fixedZone('UTC', 0);
+}
+
+function toWallClock(instant: number, zone: Zone): { date: CalendarDate; weekday: number; time: TimeOfDay } {
+  const shifted = new Date(instant + zone.offsetMinutes(instant) * 60000);
+  return {
+    date: { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() },
+    weekday: shifted.getUTCDay(),
+    time: { hour: shifted.getUTCHours(), minute: shifted.getUTCMinutes(), second: shifted.getUTCSeconds() },
+  };
+}
+
+/**
+ * Instant of a wall-clock time in the zone; the offset is looked up twice so that DST changes land right
+ */
+function fromWallClock(date: CalendarDate, time: TimeOfDay, zone: Zone): number {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, time.hour, time.minute, time.second);
+  const guess = wallClock - zone.offsetMinutes(wallClock) * 60000;
+  return wallClock - zone.offsetMinutes(guess) * 60000;
+}
+
+function addDays(date: CalendarDate, days: number): CalendarDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+const MIDNIGHT: TimeOfDay = { hour: 0, minute: 0, second: 0 };
+
+/**
+ * Words of an expression, with "9 am" joined to "9am"
+ */
+function tokenize(text: string): string[] {
+  const words = text.replace(/,/g, ' ').split(/\s+/).filter(Boolean);
+  const tokens: string[] = [];
+  for (const word of words) {
+    const lower = word.toLowerCase();
+    if ((lower === 'am' || lower === 'pm') && tokens.length > 0 && /^\d{1,2}(:\d{2}){0,2}$/.test(tokens[tokens.length - 1])) {
+      tokens[tokens.length - 1] += lower;
+    } else {
+      tokens.push(word);
+    }
+  }
+  return tokens;
+}
+
+function parseTimeOfDay(token: string): TimeOfDay | undefined {
+  if (token === 'noon') {
+    return { hour: 12, minute: 0, second: 0 };
+  }
+  if (token === 'midnight') {
+    return MIDNIGHT;
+  }
+
+  const match = TIME_OF_DAY.exec(token);
+  // A bare number is not a time: "9" needs am/pm or minutes
+  if (!match || (match[2] === undefined && match[4] === undefined)) {
+    return undefined;
+  }
+  let hour = Number(match[1]);
+  const minute = Number(match[2] ?? 0);
+  const second = Number(match[3] ?? 0);
+  if (match[4]) {
+    if (hour < 1 || hour > 12) {
+      return undefined;
+    }
+    hour = (hour % 12) + (match[4] === 'pm' ? 12 : 0);
+  }
+  return hour < 24 && minute < 60 && second < 60 ? { hour, minute, second } : undefined;
+}
+
+function parseCalendarDate(year: string, month: string, day: string): CalendarDate | undefined {
+  const date = { year: Number(year), month: Number(month), day: Number(day) };
+  const check = addDays(date, 0);
+  return check.month === date.month && check.day === date.day ? date : undefined;
+}
+
+/**
+ * Most recent weekday on or before today, or strictly before today for "last Tuesday"
+ */
+function resolveWeekday(weekday: number, strictlyBefore: boolean, context: ResolutionContext): CalendarDate {
+  let daysBack = (context.weekday - weekday + 7) % 7;
+  if (daysBack === 0 && strictlyBefore) {
+    daysBack = 7;
+  }
+  return addDays(context.today, -daysBack);
+}
+
+/**
+ * Day, time and instant named by the words of one point in time. Words that name none, like
+ * "the deploy at", are skipped.
+ */
+function parsePoint(tokens: string[], context: ResolutionContext): PointParts {
+  const parts: PointParts = {};
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index].toLowerCase();
+    const next = tokens[index + 1]?.toLowerCase();
+
+    const dateTime = ISO_DATE_TIME.exec(token);
+    if (dateTime) {
+      const [, year, month, day, hour, minute, second, offset] = dateTime;
+      const date = parseCalendarDate(year, month, day);
+      if (!date) {
+        throw new Error(`Invalid date '${tokens[index]}'`);
+      }
+      const time = { hour: Number(hour), minute: Number(minute), second: Number(second ?? 0) };
+      if (offset) {
+        parts.instant = Date.parse(tokens[index].toUpperCase());
+      } else {
+        parts.day = date;
+        parts.time = time;
+      }
+      continue;
+    }
+
+    const isoDate = ISO_DATE.exec(token);
+    if (isoDate) {
+      parts.day = parseCalendarDate(isoDate[1], isoDate[2], isoDate[3]);
+      if (!parts.day) {
+        throw new Error(`Invalid date '${tokens[index]}'`);
+      }
+      continue;
+    }
+
+    if (token === 'now') {
+      parts.instant = context.now;
+      continue;
+    }
+    if (token === 'today') {
+      parts.day = context.today;
+      continue;
+    }
+    if (token === 'yesterday') {
+      parts.day = addDays(context.today, -1);
+      continue;
+    }
+
+    const weekday = WEEKDAYS.findIndex(name => token === name || token === name.slice(0, 3));
+    if (weekday >= 0) {
+      parts.day = resolveWeekday(weekday, tokens[index - 1]?.toLowerCase() === 'last', context);
+      parts.weekday = true;
+      continue;
+    }
+
+    // "2 hours ago", "an hour ago"
+    const unit = next ? UNIT_ALIASES[next] : undefined;
+    if (unit && tokens[index + 2]?.toLowerCase() === 'ago' && (/^\d+(\.\d+)?$/.test(token) || token === 'a' || token === 'an')) {
+      const count = /^\d/.test(token) ? Number(token) : 1;
+      parts.instant = context.now - count * UNIT_MS[unit];
+      index += 2;
+      continue;
+    }
+
+    const time = parseTimeOfDay(token);
+    if (time) {
+      parts.time = time;
+    }
+  }
+
+  return parts;
+}
+
+/**
+ * Instant of a point, with the day falling back to defaultDay and the time to midnight
+ */
+function resolvePoint(parts: PointParts, defaultDay: CalendarDate | undefined, context: ResolutionContext): number {
+  if (parts.instant !== undefined) {
+    return parts.instant;
+  }
+  return fromWallClock(parts.day ?? defaultDay ?? context.today, parts.time ?? MIDNIGHT, context.zone);
+}
+
+function hasPoint(parts: PointParts): boolean {
+  return parts.day !== undefined || parts.time !== undefined || parts.instant !== undefined;
+}
+
+function absoluteRange(start: number, end: number, expression: string, context: ResolutionContext): ResolvedTimeRange {
+  if (!(start < end)) {
+    throw new Error(`Time range '${expression}' ends before it starts`);
+  }
+  if (start >= context.now) {
+    throw new Error(`Time range '${expression}' is in the future`);
+  }
+  return {
+    start: new Date(start),
+    end: new Date(end),
+    duration: toIsoDuration(end - start),
+    timespan: `${new Date(start).toISOString()}/${new Date(end).toISOString()}`,
+    timeZone: context.zone.name,
+  };
+}
+
+function relativeRange(duration: number, context: ResolutionContext): ResolvedTimeRange {
+  const isoDuration = toIsoDuration(duration);
+  return {
+    start: new Date(context.now - duration),
+    end: new Date(context.now),
+    duration: isoDuration,
+    timespan: isoDuration,
+    timeZone: context.zone.name,
+  };
+}
+
+/**
+ * Calendar ranges: this week (weeks start on Monday), last week, this month and last month
+ */
+function parseCalendarRange(text: string, context: ResolutionContext): [number, number] | undefined {
+  const startOfWeek = addDays(context.today, -((context.weekday + 6) % 7));
+  const startOfMonth = { ...context.today, day: 1 };
+  const at = (date: CalendarDate) => fromWallClock(date, MIDNIGHT, context.zone);
+
+  switch (text) {
+    case 'this week':
+      return [at(startOfWeek), context.now];
+    case 'last week':
+    case 'previous week':
+      return [at(addDays(startOfWeek, -7)), at(startOfWeek)];
+    case 'this month':
+      return [at(startOfMonth), context.now];
+    case 'last month':
+    case 'previous month': {
+      const previous = startOfMonth.month === 1
+        ? { year: startOfMonth.year - 1, month: 12, day: 1 }
+        : { ...startOfMonth, month: startOfMonth.month - 1 };
+      return [at(previous), at(startOfMonth)];
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Resolve a time expression to a concrete range:
+ * - durations and ISO 8601 timespans: "2h", "PT2H", "2024-01-01T00:00Z/2024-01-02T00:00Z"
+ * - relative ranges, which stay relative to the time each query runs: "last 2 hours", "past 30 minutes", "last day"
+ * - days: "today", "yesterday", "Tuesday", "last Tuesday", "2024-03-01", "this week", "last week", "this month", "last month"
+ * - ranges: "between 14:00 and 15:30 yesterday", "from 2024-03-01 09:00 to 2024-03-01 17:30"
+ * - open ranges until now: "since 9am", "since the deploy at 9am JST", "since 2 hours ago"
+ * Times without a day are today's, or yesterday's when they are still ahead. A zone in the expression
+ * (UTC, JST, UTC+9, +09:00, Asia/Tokyo) overrides options.timeZone.
+ */
+export function parseTimeExpression(expression: string, options: TimeExpressionOptions = {}): ResolvedTimeRange {
+  const text = expression.trim();
+  if (!text) {
+    throw new Error('Time range expression is empty');
+  }
+
+  let zone = getDefaultZone(options.timeZone);
+  const now = (options.now ?? new Date()).getTime();
+  const createContext = (): ResolutionContext => {
+    const wallClock = toWallClock(now, zone);
+    return { now, zone, today: wallClock.date, weekday: wallClock.weekday };
+  };
+
+  // Durations and ISO 8601 intervals
+  if (!/\s/.test(text)) {
+    const duration = parseDuration(text);
+    if (duration !== undefined) {
+      return relativeRange(duration, createContext());
+    }
+    if (text.includes('/') && !resolveZone(text)) {
+      const { start, end } = toTimeInterval(text, new Date(now));
+      return absoluteRange(start.getTime(), end.getTime(), text, createContext());
+    }
+  }
+
+  const tokens = tokenize(text).filter(token => {
+    const tokenZone = resolveZone(token);
+    if (tokenZone) {
+      zone = tokenZone;
+    }
+    return !tokenZone;
+  });
+  const context = createContext();
+  const phrase = tokens.join(' ').toLowerCase();
+
+  const relative = RELATIVE_EXPRESSION.exec(phrase);
+  if (relative && UNIT_ALIASES[relative[3]]) {
+    const [, , count, unit] = relative;
+    // "last week" is the previous calendar week, "past week" and "last 1 week" are the last 7 days
+    if (count !== undefined || relative[1] === 'past' || !['week', 'weeks'].includes(unit)) {
+      const multiplier = count === undefined || count === 'a' || count === 'an' ? 1 : Number(count);
+      if (multiplier > 0) {
+        return relativeRange(multiplier * UNIT_MS[UNIT_ALIASES[unit]], context);
+      }
+    }
+  }
+
+  const calendarRange = parseCalendarRange(phrase, context);
+  if (calendarRange) {
+    return absoluteRange(calendarRange[0], calendarRange[1], text, context);
+  }
+
+  const since = SINCE_EXPRESSION.exec(phrase);
+  if (since) {
+    const parts = parsePoint(tokens.slice(1), context);
+    if (!hasPoint(parts)) {
+      throw new Error(`Could not find a date or time in '${expression}'`);
+    }
+    let start = resolvePoint(parts, undefined, context);
+    // "since 9am" before 9am means yesterday's 9am
+    if (parts.instant === undefined && !parts.day && start > now) {
+      start = resolvePoint(parts, addDays(context.today, -1), context);
+    }
+    return absoluteRange(start, now, text, context);
+  }
+
+  const range = RANGE_EXPRESSION.exec(phrase);
+  if (range) {
+    const [outerText, startText, endText] = [range[1], range[2], range[3]];
+    const outer = parsePoint(tokenize(outerText), context);
+    const startParts = parsePoint(tokenize(startText), context);
+    const endParts = parsePoint(tokenize(endText), context);
+    if (!hasPoint(startParts) || !hasPoint(endParts)) {
+      throw new Error(`Could not find a start and an end in '${expression}'`);
+    }
+
+    const startDay = startParts.day ?? outer.day ?? endParts.day;
+    const endDay = endParts.day ?? outer.day ?? startParts.day;
+    let start = resolvePoint(startParts, startDay, context);
+    let end = endParts.time || endParts.instant !== undefined
+      ? resolvePoint(endParts, endDay, context)
+      // A day without a time ends at the end of that day
+      : fromWallClock(addDays(endParts.day!, 1), MIDNIGHT, context.zone);
+
+    // "between 22:00 and 02:00 yesterday" runs overnight, unless both ends name their own day
+    if (end <= start && endParts.time && endParts.instant === undefined && !(startParts.day && endParts.day)) {
+      end = fromWallClock(addDays(endDay ?? context.today, 1), endParts.time, context.zone);
+    }
+    // Weekdays are their most recent occurrence, so on a Tuesday "between Monday and Wednesday" is last week's
+    if (end <= start && startParts.weekday) {
+      start = resolvePoint({ ...startParts, day: addDays(startParts.day!, -7) }, undefined, context);
+    }
+    // Times without any day that are still ahead refer to yesterday
+    if (!startDay && startParts.instant === undefined && start > now) {
+      start -= UNIT_MS.day;
+      end -= UNIT_MS.day;
+    }
+    // Ranges that are still going on end now, as "today" does
+    return absoluteRange(start, Math.min(end, now), text, context);
+  }
+
+  const parts = parsePoint(tokens, context);
+  if (parts.day && !parts.time && parts.instant === undefined) {
+    const start = fromWallClock(parts.day, MIDNIGHT, context.zone);
+    const end = Math.min(fromWallClock(addDays(parts.day, 1), MIDNIGHT, context.zone), now);
+    return absoluteRange(start, end, text, context);
+  }
+  if (hasPoint(parts)) {
+    throw new Error(`'${expression}' is a point in time, not a range: use "since ..." or "between ... and ..."`);
+  }
+  throw new Error(`Could not understand the time range '${expression}'`);
+}
+
+/**
+ * Time range of the --time, --since and --from/--to options, undefined when none is given
+ */
+export function resolveTimeRange(options: TimeOptions, expressionOptions: TimeExpressionOptions = {}): ResolvedTimeRange | undefined {
+  if (options.time && (options.since || options.from || options.to)) {
+    throw new Error('Use only one of --time, --since or --from/--to');
+  }
+  if (options.time) {
+    return parseTimeExpression(options.time, expressionOptions);
+  }
+
+  const now = expressionOptions.now ?? new Date();
+  const timespan = resolveTimespan(options, now);
+  if (!timespan) {
+    return undefined;
+  }
+  const { start, end } = toTimeInterval(timespan, now);
+  return {
+    start,
+    end,
+    duration: toIsoDuration(end.getTime() - start.getTime()),
+    timespan,
+    timeZone: getDefaultZone(expressionOptions.timeZone).name,
+  };
+}
+
+/**
+ * Timespan of a time range kept as the user wrote it, such as a session's: a duration, an ISO 8601
+ * interval or an expression. It is resolved for each query, so that open-ended ranges such as
+ * "since 9am" or "this week" end when the query runs rather than when the range was set.
+ */
+export function resolveTimeRangeTimespan(timeRange: string | undefined, options: TimeExpressionOptions = {}): string | undefined {
+  return timeRange?.trim() ? parseTimeExpression(timeRange, options).timespan : undefined;
+}
+
+function formatWallClock(instant: number, zone: Zone): string {
+  const { date, time } = toWallClock(instant, zone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const seconds = time.second ? `:${pad(time.second)}` : '';
+  return `${date.year}-${pad(date.month)}-${pad(date.day)} ${pad(time.hour)}:${pad(time.minute)}${seconds}`;
+}
+
+/**
+ * Timespan as the user sees it before queries run, in their zone:
+ * "the last 2 hours (2024-01-10 19:00 → 2024-01-10 21:00 Asia/Tokyo)" or
+ * "2024-01-09 14:00 → 2024-01-09 15:30 UTC (PT1H30M)"
+ */
+export function formatTimespan(timespan: string, options: TimeExpressionOptions = {}): string {
+  const zone = getDefaultZone(options.timeZone);
+  const { start, end } = toTimeInterval(timespan, options.now ?? new Date());
+  const interval = `${formatWallClock(start.getTime(), zone)} → ${formatWallClock(end.getTime(), zone)} ${zone.name}`;
+
+  return timespan.includes('/')
+    ? `${interval} (${toIsoDuration(end.getTime() - start.getTime())})`
+    : `${describeTimespan(timespan)} (${interval})`;
+}
+
+/**
+ * Resolved range as the user sees it, in the zone it was resolved in
+ */
+export function formatTimeRange(range: ResolvedTimeRange, options: Omit<TimeExpressionOptions, 'timeZone'> = {}): string {
+  return formatTimespan(range.timespan, { ...options, timeZone: range.timeZone });
+}
@@ -0,0 +1,235 @@
+/**
+ * Time ranges of queries. Timespans are ISO 8601 strings, as the Application Insights, Log Analytics
+ * and Azure Monitor Metrics APIs take them: a duration ending now (PT2H) or an interval (start/end).
+ */
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/** Units for describing durations: milliseconds, name and KQL timespan suffix, largest first */
+const DURATION_UNITS: Array<[number, string, string]> = [
+  [UNIT_MS.d, 'day', 'd'],
+  [UNIT_MS.h, 'hour', 'h'],
+  [UNIT_MS.m, 'minute', 'm'],
+  [UNIT_MS.s, 'second', 's'],
+];
+
+const SHORTHAND_DURATION = /^(\d+(?:\.\d+)?)\s*([smhdw])$/i;
+const ISO_DURATION = /^P(?:(\d+(?:\.\d+)?)W)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i;
+
+/**
+ * Time range options of the CLI and sessions
+ */
+export interface TimeRangeOptions {
+  since?: string; // Duration ending now: 30m, 2h, 7d, 1w or ISO 8601 (PT2H)
+  from?: string; // Start: a date/time, or a duration meaning that long ago
+  to?: string; // End: a date/time, or a duration meaning that long ago; defaults to now
+}
+
+/**
+ * Start and end of a timespan
+ */
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Milliseconds of a shorthand (30m, 2h, 7d, 1w) or ISO 8601 (PT30M, P1D) duration,
+ * undefined when the value is not a positive duration
+ */
+export function parseDuration(value: string): number | undefined {
+  const trimmed = value.trim();
+
+  const shorthand = SHORTHAND_DURATION.exec(trimmed);
+  if (shorthand) {
+    const ms = Number(shorthand[1]) * UNIT_MS[shorthand[2].toLowerCase()];
+    return ms > 0 ? ms : undefined;
+  }
+
+  const iso = ISO_DURATION.exec(trimmed);
+  if (!iso || /^P$|T$/i.test(trimmed)) {
+    return undefined;
+  }
+  const [, weeks, days, hours, minutes, seconds] = iso.map(part => Number(part || 0));
+  const ms = weeks * UNIT_MS.w + days * UNIT_MS.d + hours * UNIT_MS.h + minutes * UNIT_MS.m + seconds * UNIT_MS.s;
+  return ms > 0 ? ms : undefined;
+}
+
+/**
+ * ISO 8601 duration of a number of milliseconds, e.g. PT2H or P7D
+ */
+export function toIsoDuration(ms: number): string {
+  let remaining = Math.round(ms / 1000);
+  const days = Math.floor(remaining / 86400);
+  remaining -= days * 86400;
+  const hours = Math.floor(remaining / 3600);
+  remaining -= hours * 3600;
+  const minutes = Math.floor(remaining / 60);
+  const seconds = remaining - minutes * 60;
+
+  const time = `${hours ? `${hours}H` : ''}${minutes ? `${minutes}M` : ''}${seconds ? `${seconds}S` : ''}`;
+  return days || time ? `P${days ? `${days}D` : ''}${time ? `T${time}` : ''}` : 'PT0S';
+}
+
+/**
+ * Date of a point in time: an ISO 8601 or other Date.parse-able value, or a duration meaning that long before now
+ */
+function parsePointInTime(value: string, now: Date): Date | undefined {
+  const duration = parseDuration(value);
+  if (duration !== undefined) {
+    return new Date(now.getTime() - duration);
+  }
+  const time = Date.parse(value);
+  return isNaN(time) ? undefined : new Date(time);
+}
+
+/**
+ * ISO 8601 timespan of a session time range or API value: a duration (24h, PT24H) or an interval (start/end).
+ * Durations stay relative so that a long-running session keeps querying the latest data.
+ */
+export function normalizeTimespan(value: string, now: Date = new Date()): string {
+  const trimmed = value.trim();
+  const parts = trimmed.split('/');
+
+  if (parts.length === 1) {
+    const duration = parseDuration(trimmed);
+    if (duration === undefined) {
+      throw new Error(`Invalid time range '${value}': use a duration such as 30m, 24h, 7d or PT24H, or an interval start/end`);
+    }
+    return toIsoDuration(duration);
+  }
+
+  if (parts.length === 2) {
+    const { start, end } = toTimeInterval(trimmed, now);
+    return `${start.toISOString()}/${end.toISOString()}`;
+  }
+
+  throw new Error(`Invalid time range '${value}': use a duration such as 30m, 24h, 7d or PT24H, or an interval start/end`);
+}
+
+/**
+ * ISO 8601 timespan of the --since, --from and --to options, undefined when none is given
+ */
+export function resolveTimespan(options: TimeRangeOptions, now: Date = new Date()): string | undefined {
+  const { since, from, to } = options;
+
+  if (since && (from || to)) {
+    throw new Error('Use either --since or --from/--to, not both');
+  }
+  if (since) {
+    const duration = parseDuration(since);
+    if (duration === undefined) {
+      throw new Error(`Invalid --since value '${since}': use a duration such as 30m, 2h, 7d or PT2H`);
+    }
+    return toIsoDuration(duration);
+  }
+  if (to && !from) {
+    throw new Error('--to requires --from');
+  }
+  if (!from) {
+    return undefined;
+  }
+
+  const start = parsePointInTime(from, now);
+  if (!start) {
+    throw new Error(`Invalid --from value '${from}': use a date/time such as 2024-01-01T08:00:00Z or a duration such as 2d`);
+  }
+  const end = to ? parsePointInTime(to, now) : now;
+  if (!end) {
+    throw new Error(`Invalid --to value '${to}': use a date/time such as 2024-01-01T12:00:00Z or a duration such as 1d`);
+  }
+  if (start >= end) {
+    throw new Error('--from must be before --to');
+  }
+  return `${start.toISOString()}/${end.toISOString()}`;
+}
+
+/**
+ * Start and end of a timespan; durations end now, and interval parts may be dates or durations (start/PT2H)
+ */
+export function toTimeInterval(timespan: string, now: Date = new Date()): TimeInterval {
+  const [first, second] = timespan.trim().split('/');
+
+  if (second === undefined) {
+    const duration = parseDuration(first);
+    if (duration === undefined) {
+      throw new Error(`Invalid timespan '${timespan}'`);
+    }
+    return { start: new Date(now.getTime() - duration), end: now };
+  }
+
+  const firstDuration = parseDuration(first);
+  const secondDuration = parseDuration(second);
+  const start = firstDuration === undefined ? new Date(Date.parse(first)) : undefined;
+  const end = secondDuration === undefined ? new Date(Date.parse(second)) : undefined;
+
+  const interval = start && end ? { start, end }
+    : start && secondDuration !== undefined ? { start, end: new Date(start.getTime() + secondDuration) }
+      : end && firstDuration !== undefined ? { start: new Date(end.getTime() - firstDuration), end }
+        : undefined;
+
+  if (!interval || isNaN(interval.start.getTime()) || isNaN(interval.end.getTime()) || interval.start >= interval.end) {
+    throw new Error(`Invalid timespan '${timespan}'`);
+  }
+  return interval;
+}
+
+/**
+ * Duration of a timespan that is a plain duration rather than an interval
+ */
+function getRelativeDuration(timespan: string): number | undefined {
+  const parts = timespan.trim().split('/');
+  return parts.length === 1 ? parseDuration(parts[0]) : undefined;
+}
+
+/**
+ * Largest unit that divides the duration, with the count of that unit
+ */
+function splitDuration(duration: number): { count: number; unit: [number, string, string] } {
+  const unit = DURATION_UNITS.find(([ms]) => duration % ms === 0) || DURATION_UNITS[DURATION_UNITS.length - 1];
+  return { count: Math.round(duration / unit[0]), unit };
+}
+
+/**
+ * Readable form of a timespan for prompts and status lines: "the last 2 hours" or "<start> to <end>"
+ */
+export function describeTimespan(timespan: string): string {
+  const duration = getRelativeDuration(timespan);
+  if (duration === undefined) {
+    const { start, end } = toTimeInterval(timespan);
+    return `${start.toISOString()} to ${end.toISOString()}`;
+  }
+
+  const { count, unit: [, name] } = splitDuration(duration);
+  return count === 1 ? `the last ${name}` : `the last ${count} ${name}s`;
+}
+
+/**
+ * KQL condition on a time column for a timespan, for services without a native time range:
+ * "> ago(2h)" or "between (datetime(<start>) .. datetime(<end>))"
+ */
+export function toKqlTimeFilter(timespan: string): string {
+  const duration = getRelativeDuration(timespan);
+  if (duration === undefined) {
+    const { start, end } = toTimeInterval(timespan);
+    return `between (datetime(${start.toISOString()}) .. datetime(${end.toISOString()}))`;
+  }
+
+  const { count, unit: [, , suffix] } = splitDuration(duration);
+  return `> ago(${count}${suffix})`;
+}
+
+/**
+ * Warning for raw queries on Azure Data Explorer, which has no query time range: the timespan
+ * only applies when the query filters on it
+ */
+export function describeUnappliedTimespan(timespan: string): string {
+  return `Azure Data Explorer has no query time range, so ${describeTimespan(timespan)} does not apply to raw queries. ` +
+    `Filter on it in the query instead, e.g. | where Timestamp ${toKqlTimeFilter(timespan)}`;
+}
@@ -1,9 +1,14 @@
 import chalk from 'chalk';
-import { QueryResult, QueryTable, QueryColumn, AnalysisResult, StatisticalAnalysis, PatternAnalysis, ContextualInsights } from '../types';
+import { QueryResult, QueryTable, QueryColumn, AnalysisResult, StatisticalAnalysis, PatternAnalysis, ContextualInsights, KqlDiagnostic, KqlPerformanceReport, QueryCacheHit } from '../types';
 import { ChartRenderer } from './chart';
+import { KQL_PERFORMANCE_CONFIRM_SCORE } from './kql';
 
 export class Visualizer {
   public static displayResult(result: QueryResult, options?: { hideEmptyColumns?: boolean }): void {
+    if (result.errors?.length) {
+      console.log(chalk.yellow(this.formatPartialResultWarning(result)));
+    }
+
     if (!result.tables || result.tables.length === 0) {
       console.log(chalk.yellow('No data returned from query'));
       return;
@@ -30,6 +35,9 @@ export class Visualizer {
     }
 
     const lines: string[] = [];
+    if (result.errors?.length) {
+      lines.push(chalk.yellow(this.formatPartialResultWarning(result)));
+    }
 
     result.tables.forEach((table, index) => {
       if (result.tables.length > 1) {
@@ -422,9 +430,17 @@ export class Visualizer {
     }
   }
 
-  public static displaySummary(executionTime: number, rowCount: number): void {
+  private static formatPartialResultWarning(result: QueryResult): string {
+    const failures = (result.errors || []).map(({ source, message }) => `  ${source}: ${message}`);
+    return ['⚠️  Partial result, these data sources failed:', ...failures].join('\n');
+  }
+
+  public static displaySummary(executionTime: number, rowCount: number, cache?: QueryCacheHit): void {
     console.log(chalk.dim(`\n⏱️  Query executed in ${executionTime}ms`));
     console.log(chalk.dim(`📊 Returned ${rowCount} rows`));
+    if (cache) {
+      console.log(chalk.dim(`⚡ Served from the ${cache.tier} cache (cached ${new Date(cache.cachedAt).toLocaleTimeString()}, use --no-cache to re-run)`));
+    }
   }
 
   public static displayError(error: string): void {
@@ -451,10 +467,69 @@ export class Visualizer {
     ChartRenderer.displayChart(data, chartType);
   }
 
-  public static displayKQLQuery(query: string, confidence: number): void {
+  public static displayKQLQuery(query: string, confidence: number, provider?: string): void {
     console.log(chalk.bold.cyan('\n🔍 Generated KQL Query:'));
     console.log(chalk.white(query));
     console.log(chalk.dim(`Confidence: ${Math.round(confidence * 100)}%`));
+    if (provider) {
+      console.log(chalk.dim(`AI Provider: ${provider}`));
+    }
+  }
+
+  /**
+   * Format KQL diagnostics, showing the offending line with a marker under the reported column
+   */
+  public static formatDiagnostics(query: string, diagnostics: KqlDiagnostic[]): string {
+    const lines = query.split('\n');
+
+    return diagnostics.map(diagnostic => {
+      const color = diagnostic.severity === 'error' ? chalk.red : chalk.yellow;
+      const label = diagnostic.severity === 'error' ? '❌' : '⚠️ ';
+      const sourceLine = (lines[diagnostic.line - 1] || '').replace(/\r$/, '');
+      const markerLength = Math.max(1, Math.min(diagnostic.length, sourceLine.length - diagnostic.column + 1));
+      const gutter = `${diagnostic.line} | `;
+
+      return [
+        color(`${label} Line ${diagnostic.line}, column ${diagnostic.column}: ${diagnostic.message}`),
+        chalk.dim(gutter) + sourceLine,
+        ' '.repeat(gutter.length + diagnostic.column - 1) + color('^'.repeat(markerLength))
+      ].join('\n');
+    }).join('\n\n');
+  }
+
+  public static displayDiagnostics(query: string, diagnostics: KqlDiagnostic[]): void {
+    if (diagnostics.length === 0) {
+      return;
+    }
+    console.log(chalk.bold.yellow('\n🩺 Query Diagnostics:'));
+    console.log(this.formatDiagnostics(query, diagnostics));
+  }
+
+  /**
+   * Format a performance report: the score, then each finding with its suggestion and rewrite
+   */
+  public static formatPerformanceReport(report: KqlPerformanceReport): string {
+    const scoreColor = report.score >= 80 ? chalk.green : report.score >= KQL_PERFORMANCE_CONFIRM_SCORE ? chalk.yellow : chalk.red;
+    const lines = [chalk.cyan.bold('⚡ Performance: ') + scoreColor(`${report.score}/100`)];
+
+    for (const finding of report.findings) {
+      const color = finding.severity === 'high' ? chalk.red : finding.severity === 'medium' ? chalk.yellow : chalk.blue;
+      lines.push(color(`  [${finding.severity}] Line ${finding.line}, column ${finding.column}: ${finding.message}`));
+      lines.push(chalk.dim(`    💡 ${finding.suggestion}`));
+      if (finding.rewrite) {
+        lines.push(chalk.dim('    Rewrite:'));
+        lines.push(...finding.rewrite.split('\n').map(line => chalk.green(`      ${line}`)));
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  public static displayPerformanceReport(report: KqlPerformanceReport): void {
+    if (report.findings.length === 0) {
+      return;
+    }
+    console.log('\n' + this.formatPerformanceReport(report));
   }
 
   /**
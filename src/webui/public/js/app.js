@@ -119,6 +119,7 @@ class AppInsightsDetectiveApp {
             const response = await window.apiClient.startSession(sessionConfig);
             
             console.log('Session started:', response.sessionId);
+            this.showTimeRange(response.timeRange);
             return response;
             
         } catch (error) {
@@ -127,19 +128,41 @@ class AppInsightsDetectiveApp {
         }
     }
 
+    /**
+     * Browser time zone, for time ranges such as "yesterday" or "since 9am"
+     */
+    getTimeZone() {
+        try {
+            return Intl.DateTimeFormat().resolvedOptions().timeZone;
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    /**
+     * Show the time range the server resolved for the session's queries
+     */
+    showTimeRange(timeRange) {
+        if (timeRange && this.sessionStatus) {
+            this.sessionStatus.title = `Time range: ${timeRange.description}`;
+        }
+    }
+
     getSessionConfig() {
         try {
             const settings = JSON.parse(localStorage.getItem('aidx-settings') || '{}');
             return {
                 language: settings.language || 'en',
                 defaultMode: settings.defaultMode || 'smart',
-                timeRange: settings.defaultTimeRange || '24h'
+                timeRange: settings.defaultTimeRange || '24h',
+                timeZone: this.getTimeZone()
             };
         } catch (error) {
             return {
                 language: 'en',
                 defaultMode: 'smart',
-                timeRange: '24h'
+                timeRange: '24h',
+                timeZone: this.getTimeZone()
             };
         }
     }
@@ -242,29 +265,43 @@ class AppInsightsDetectiveApp {
         }
     }
 
-    saveSettings() {
+    async saveSettings() {
         try {
             const settings = {
                 defaultMode: document.getElementById('default-mode')?.value || 'smart',
-                defaultTimeRange: document.getElementById('default-time-range')?.value || '24h',
+                defaultTimeRange: document.getElementById('default-time-range')?.value.trim() || '24h',
                 showEmptyColumns: document.getElementById('show-empty-columns')?.checked || false,
                 lastUpdated: new Date().toISOString()
             };
             
-            localStorage.setItem('aidx-settings', JSON.stringify(settings));
+            let message = 'Settings saved successfully';
             
-            // Update API client session if needed
+            // Update API client session if needed; the server resolves and validates the time range
             if (window.apiClient.sessionId) {
-                window.apiClient.updateSession(settings).catch(error => {
-                    console.warn('Failed to update session settings:', error);
-                });
+                try {
+                    const response = await window.apiClient.updateSession({
+                        defaultMode: settings.defaultMode,
+                        timeRange: settings.defaultTimeRange,
+                        timeZone: this.getTimeZone(),
+                        showEmptyColumns: settings.showEmptyColumns
+                    });
+                    this.showTimeRange(response.timeRange);
+                    if (response.timeRange) {
+                        message += ` (time range: ${response.timeRange.description})`;
+                    }
+                } catch (error) {
+                    this.showError(`Failed to update session settings: ${error.message}`);
+                    return;
+                }
             }
             
+            localStorage.setItem('aidx-settings', JSON.stringify(settings));
+            
             // Apply settings to query editor
             window.queryEditor.setMode(settings.defaultMode);
             
             this.closeSettings();
-            this.showSuccess('Settings saved successfully');
+            this.showSuccess(message);
             
         } catch (error) {
             console.error('Failed to save settings:', error);
@@ -7,6 +7,7 @@ class QueryEditor {
         this.mode = 'smart';
         this.currentQuery = '';
         this.reviewData = null;
+        this.validationTimer = null;
         
         this.initializeElements();
         this.bindEvents();
@@ -18,6 +19,7 @@ class QueryEditor {
         this.executeBtn = document.getElementById('execute-btn');
         this.clearBtn = document.getElementById('clear-btn');
         this.modeRadios = document.querySelectorAll('input[name="execution-mode"]');
+        this.diagnosticsList = document.getElementById('query-diagnostics');
         
         // Review section elements
         this.reviewSection = document.getElementById('query-review-section');
@@ -26,6 +28,8 @@ class QueryEditor {
         this.confidenceValue = document.getElementById('confidence-value');
         this.reasoningText = document.getElementById('reasoning-text');
         this.reasoningSection = document.getElementById('reasoning-section');
+        this.providerBadge = document.getElementById('provider-badge');
+        this.generatedDiagnosticsList = document.getElementById('generated-query-diagnostics');
         
         // Review action buttons
         this.explainBtn = document.getElementById('explain-btn');
@@ -47,6 +51,7 @@ class QueryEditor {
         // Query input
         this.queryInput.addEventListener('input', () => {
             this.validateInput();
+            this.scheduleSyntaxCheck();
         });
 
         this.queryInput.addEventListener('keydown', (e) => {
@@ -90,6 +95,7 @@ class QueryEditor {
     onModeChanged() {
         this.queryInput.placeholder = this.getPlaceholderText();
         this.hideReviewSection();
+        this.scheduleSyntaxCheck();
     }
 
     getPlaceholderText() {
@@ -109,6 +115,57 @@ class QueryEditor {
         this.executeBtn.disabled = !hasInput;
     }
 
+    /**
+     * Check KQL syntax shortly after the user stops typing (raw mode only)
+     */
+    scheduleSyntaxCheck() {
+        clearTimeout(this.validationTimer);
+
+        const query = this.queryInput.value;
+        if (this.mode !== 'raw' || !query.trim()) {
+            this.renderDiagnostics(this.diagnosticsList, []);
+            return;
+        }
+
+        this.validationTimer = setTimeout(() => this.checkSyntax(query, this.diagnosticsList), 400);
+    }
+
+    /**
+     * Validate a query on the server and show its diagnostics; returns whether it is valid
+     */
+    async checkSyntax(query, listElement) {
+        try {
+            const response = await window.apiClient.validateQuery(query);
+            this.renderDiagnostics(listElement, response.diagnostics || []);
+            return response.isValid;
+        } catch (error) {
+            // Validation is advisory, the data source reports errors on execution anyway
+            console.warn('Query validation failed:', error);
+            this.renderDiagnostics(listElement, []);
+            return true;
+        }
+    }
+
+    renderDiagnostics(listElement, diagnostics) {
+        if (!listElement) return;
+
+        listElement.innerHTML = '';
+        diagnostics.forEach(diagnostic => {
+            const item = document.createElement('li');
+            item.className = diagnostic.severity;
+
+            const location = document.createElement('span');
+            location.className = 'diagnostic-location';
+            location.textContent = `Ln ${diagnostic.line}, Col ${diagnostic.column}`;
+
+            item.appendChild(location);
+            item.appendChild(document.createTextNode(diagnostic.message));
+            listElement.appendChild(item);
+        });
+
+        listElement.classList.toggle('hidden', diagnostics.length === 0);
+    }
+
     async executeQuery() {
         const userInput = this.queryInput.value.trim();
         if (!userInput) return;
@@ -157,6 +214,13 @@ class QueryEditor {
     }
 
     async executeDirectQuery(query) {
+        clearTimeout(this.validationTimer);
+        const isValid = await this.checkSyntax(query, this.diagnosticsList);
+        if (!isValid) {
+            // Diagnostics are shown below the editor; don't send a query that cannot parse
+            return;
+        }
+
         try {
             const response = await window.apiClient.executeQuery(query, 'raw');
             
@@ -207,6 +271,18 @@ class QueryEditor {
             this.reasoningSection.classList.add('hidden');
         }
 
+        // Show which AI provider answered (when provider fallback is active)
+        if (generateResponse.provider) {
+            this.providerBadge.textContent = `via ${generateResponse.provider}`;
+            this.providerBadge.classList.remove('hidden');
+        } else {
+            this.providerBadge.classList.add('hidden');
+        }
+
+        // Show syntax problems in the generated query, if any
+        this.renderDiagnostics(this.generatedDiagnosticsList, []);
+        this.checkSyntax(generateResponse.query, this.generatedDiagnosticsList);
+
         // Show the review section
         this.reviewSection.classList.remove('hidden');
     }
@@ -372,6 +448,7 @@ class QueryEditor {
         this.currentQuery = '';
         this.reviewData = null;
         this.hideReviewSection();
+        this.renderDiagnostics(this.diagnosticsList, []);
         this.validateInput();
         this.queryInput.focus();
     }
@@ -80,6 +80,12 @@ class ResultsViewer {
             const confidence = window.dataFormatter.formatConfidence(response.confidence);
             statusInfo = ` • Confidence: ${confidence}`;
         }
+        if (resultData.cache) {
+            statusInfo += ` • Cached ${new Date(resultData.cache.cachedAt).toLocaleTimeString()}`;
+        }
+        if (resultData.errors?.length) {
+            statusInfo += ` • Partial result, failed: ${resultData.errors.map(error => `${error.source} (${error.message})`).join(', ')}`;
+        }
 
         this.resultsInfo.textContent = formattedCount + statusInfo;
     }
@@ -70,9 +70,9 @@ class APIClient {
             throw new Error('No active session');
         }
         
-        return await this.request(`/session/${this.sessionId}`, {
+        return await this.request('/session/settings', {
             method: 'PUT',
-            body: JSON.stringify(updates)
+            body: JSON.stringify({ sessionId: this.sessionId, ...updates })
         });
     }
 
@@ -86,7 +86,8 @@ class APIClient {
                 userInput,
                 mode,
                 dataSourceType: 'applicationInsights',
-                extraContext
+                extraContext,
+                sessionId: this.sessionId
             })
         });
     }
@@ -102,6 +103,13 @@ class APIClient {
         });
     }
 
+    async validateQuery(query) {
+        return await this.request('/query/validate', {
+            method: 'POST',
+            body: JSON.stringify({ query })
+        });
+    }
+
     async explainQuery(query) {
         return await this.request('/query/explain', {
             method: 'POST',
@@ -115,7 +123,8 @@ class APIClient {
             body: JSON.stringify({
                 originalQuery,
                 userInput,
-                feedback
+                feedback,
+                sessionId: this.sessionId
             })
         });
     }
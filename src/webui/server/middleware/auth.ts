@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { IAuthenticationProvider } from '../../../core/interfaces';
+import { DataSourceConfig } from '../../../core/types/ProviderTypes';
 import { logger } from '../../../utils/logger';
+import { APPLICATION_INSIGHTS_API_KEY_ENV, describeSecretSource, resolveSecret } from '../../../utils/secrets';
 
 /**
  * Extend Express Request interface to include auth info
@@ -11,6 +13,7 @@ declare global {
       auth?: {
         isAuthenticated: boolean;
         token?: string;
+        credential?: string; // Credential the auth provider authenticated with, e.g. azure-cli
         error?: string;
       };
     }
@@ -18,9 +21,10 @@ declare global {
 }
 
 /**
- * Create authentication middleware that validates Azure credentials
+ * Create authentication middleware that validates Azure credentials,
+ * or the API key when the data source authenticates with one instead of AAD
  */
-export function createAuthMiddleware(authProvider: IAuthenticationProvider) {
+export function createAuthMiddleware(authProvider: IAuthenticationProvider, dataSourceConfig?: DataSourceConfig) {
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       // Skip authentication for health check endpoints
@@ -29,14 +33,32 @@ export function createAuthMiddleware(authProvider: IAuthenticationProvider) {
         return;
       }
 
-      // Validate Azure credentials
+      if (dataSourceConfig?.authMode === 'api-key') {
+        if (resolveSecret(dataSourceConfig.apiKey, APPLICATION_INSIGHTS_API_KEY_ENV)) {
+          req.auth = { isAuthenticated: true, credential: 'api-key' };
+          next();
+          return;
+        }
+
+        req.auth = { isAuthenticated: false, error: 'API key not found' };
+        logger.warn('API key not found for WebUI request');
+        res.status(401).json({
+          error: 'Authentication failed',
+          message: `Application Insights API key not found in ${describeSecretSource(dataSourceConfig.apiKey, APPLICATION_INSIGHTS_API_KEY_ENV)}.`,
+          code: 'AUTH_FAILED'
+        });
+        return;
+      }
+
+      // Validate Azure credentials with the same credential chain the data sources use
       const isValid = await authProvider.validateCredentials();
       
       if (isValid) {
         req.auth = {
-          isAuthenticated: true
+          isAuthenticated: true,
+          credential: authProvider.getCredentialReport?.().method
         };
-        logger.debug('Authentication successful for WebUI request');
+        logger.debug(`Authentication successful for WebUI request${req.auth.credential ? ` (${req.auth.credential})` : ''}`);
         next();
       } else {
         req.auth = {
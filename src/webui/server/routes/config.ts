@@ -84,7 +84,8 @@ export function createConfigRoutes(container: ServiceContainer): Router {
           },
           auth: {
             name: defaultAuth,
-            configured: !!config.providers.auth[defaultAuth]
+            configured: !!config.providers.auth[defaultAuth],
+            credential: req.auth?.credential
           }
         },
         timestamp: new Date().toISOString()
@@ -2,10 +2,13 @@ import { Router, Request, Response } from 'express';
 import { ServiceContainer } from '../../../infrastructure/di/ServiceContainer';
 import { requireAuth } from '../middleware/auth';
 import { QueryService, QueryServiceRequest } from '../../../services/QueryService';
-import { IAIProvider, IDataSourceProvider } from '../../../core/interfaces';
+import { IAIProvider, IDataSourceProvider, ISessionManager } from '../../../core/interfaces';
 import { ConfigManager } from '../../../utils/config';
 import { DataSourceType } from '../../../core/types/ProviderTypes';
 import { logger } from '../../../utils/logger';
+import { formatKql } from '../../../utils/kql';
+import { isCancellationError } from '../../../utils/cancellation';
+import { resolveTimeRangeTimespan } from '../../../utils/timeExpression';
 
 /**
  * Request interfaces for API endpoints
@@ -15,6 +18,7 @@ interface GenerateQueryRequest {
   mode?: 'smart' | 'review' | 'raw';
   dataSourceType?: DataSourceType;
   extraContext?: string;
+  sessionId?: string; // The session's time range is described to the AI
 }
 
 interface ExecuteQueryRequest {
@@ -27,10 +31,31 @@ interface ExplainQueryRequest {
   query: string;
 }
 
+interface ValidateQueryRequest {
+  query: string;
+  dataSourceType?: DataSourceType;
+}
+
 interface RegenerateQueryRequest {
   originalQuery: string;
   userInput: string;
   feedback: string;
+  sessionId?: string;
+}
+
+/**
+ * Signal that is aborted when the client disconnects before the response is sent,
+ * so that queries of closed browser tabs do not keep running on Azure
+ */
+function abortOnDisconnect(req: Request, res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      logger.info(`WebUI: Client disconnected, cancelling ${req.method} ${req.originalUrl}`);
+      controller.abort();
+    }
+  });
+  return controller.signal;
 }
 
 /**
@@ -46,13 +71,23 @@ export function createQueryRoutes(container: ServiceContainer): Router {
   const aiProvider = container.resolve<IAIProvider>('aiProvider');
   const dataSourceProvider = container.resolve<IDataSourceProvider>('dataSourceProvider');
   const configManager = container.resolve<ConfigManager>('configManager');
+  const sessionManager = container.resolve<ISessionManager>('sessionManager');
+
+  /**
+   * Timespan of the session's time range as of now, for generation that does not go through QueryService
+   */
+  const getSessionTimespan = async (sessionId?: string): Promise<string | undefined> => {
+    const session = sessionId ? await sessionManager.getSession(sessionId) : null;
+    return resolveTimeRangeTimespan(session?.options.timeRange, { timeZone: session?.options.timeZone });
+  };
 
   /**
    * POST /api/query/generate - Generate KQL from natural language
    */
   router.post('/generate', async (req: Request, res: Response) => {
+    const signal = abortOnDisconnect(req, res);
     try {
-      const { userInput, mode = 'smart', dataSourceType, extraContext }: GenerateQueryRequest = req.body;
+      const { userInput, mode = 'smart', dataSourceType, extraContext, sessionId }: GenerateQueryRequest = req.body;
 
       if (!userInput) {
         return res.status(400).json({
@@ -85,19 +120,26 @@ export function createQueryRoutes(container: ServiceContainer): Router {
         userInput,
         schema,
         dataSourceType: finalDataSourceType,
-        extraContext
+        extraContext,
+        signal,
+        timespan: await getSessionTimespan(sessionId)
       });
 
       res.json({
-        query: nlQuery.generatedKQL,
+        query: finalDataSourceType === 'azure-metrics' ? nlQuery.generatedKQL : formatKql(nlQuery.generatedKQL),
         confidence: nlQuery.confidence,
         reasoning: nlQuery.reasoning,
+        provider: nlQuery.provider,
         mode: nlQuery.confidence >= 0.7 ? 'execute' : 'review',
         originalInput: userInput,
         timestamp: new Date().toISOString()
       });
 
     } catch (error) {
+      if (isCancellationError(error, signal)) {
+        logger.info('WebUI: Query generation cancelled');
+        return;
+      }
       logger.error('Query generation failed:', error);
       res.status(500).json({
         error: 'Query generation failed',
@@ -111,6 +153,7 @@ export function createQueryRoutes(container: ServiceContainer): Router {
    * POST /api/query/execute - Execute a query (any mode)
    */
   router.post('/execute', async (req: Request, res: Response) => {
+    const signal = abortOnDisconnect(req, res);
     try {
       const { query, mode = 'smart', sessionId }: ExecuteQueryRequest = req.body;
 
@@ -130,7 +173,8 @@ export function createQueryRoutes(container: ServiceContainer): Router {
       const queryRequest: QueryServiceRequest = {
         userInput: query,
         mode: mode === 'raw' ? 'raw' : 'direct',
-        sessionId
+        sessionId,
+        signal
       };
 
       const result = await queryService.executeQuery(queryRequest);
@@ -144,6 +188,10 @@ export function createQueryRoutes(container: ServiceContainer): Router {
       });
 
     } catch (error) {
+      if (isCancellationError(error, signal)) {
+        logger.info('WebUI: Query execution cancelled');
+        return;
+      }
       logger.error('Query execution failed:', error);
       res.status(500).json({
         error: 'Query execution failed',
@@ -153,6 +201,44 @@ export function createQueryRoutes(container: ServiceContainer): Router {
     }
   });
 
+  /**
+   * POST /api/query/validate - Check KQL syntax and return positioned diagnostics
+   */
+  router.post('/validate', async (req: Request, res: Response) => {
+    try {
+      const { query, dataSourceType }: ValidateQueryRequest = req.body;
+
+      if (typeof query !== 'string') {
+        return res.status(400).json({
+          error: 'Missing required field',
+          message: 'query is required',
+          code: 'MISSING_QUERY'
+        });
+      }
+
+      // Azure Metrics queries are checked as metric query JSON rather than KQL
+      const config = configManager.getConfig();
+      const validation = await queryService.validateQuery(query, {
+        dataSourceType: dataSourceType || config.providers.dataSources.default as DataSourceType
+      });
+
+      res.json({
+        isValid: validation.isValid,
+        error: validation.error,
+        diagnostics: validation.diagnostics || [],
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      logger.error('Query validation failed:', error);
+      res.status(500).json({
+        error: 'Query validation failed',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+        code: 'VALIDATION_FAILED'
+      });
+    }
+  });
+
   /**
    * POST /api/query/explain - Get query explanation
    */
@@ -192,8 +278,9 @@ export function createQueryRoutes(container: ServiceContainer): Router {
    * POST /api/query/regenerate - Regenerate query with feedback
    */
   router.post('/regenerate', async (req: Request, res: Response) => {
+    const signal = abortOnDisconnect(req, res);
     try {
-      const { originalQuery, userInput, feedback }: RegenerateQueryRequest = req.body;
+      const { originalQuery, userInput, feedback, sessionId }: RegenerateQueryRequest = req.body;
 
       if (!originalQuery || !userInput || !feedback) {
         return res.status(400).json({
@@ -225,13 +312,16 @@ export function createQueryRoutes(container: ServiceContainer): Router {
       const nlQuery = await aiProvider.generateQuery({
         userInput: enhancedInput,
         schema,
-        dataSourceType
+        dataSourceType,
+        signal,
+        timespan: await getSessionTimespan(sessionId)
       });
 
       res.json({
-        query: nlQuery.generatedKQL,
+        query: dataSourceType === 'azure-metrics' ? nlQuery.generatedKQL : formatKql(nlQuery.generatedKQL),
         confidence: nlQuery.confidence,
         reasoning: nlQuery.reasoning,
+        provider: nlQuery.provider,
         mode: nlQuery.confidence >= 0.7 ? 'execute' : 'review',
         originalInput: userInput,
         feedback,
@@ -239,6 +329,10 @@ export function createQueryRoutes(container: ServiceContainer): Router {
       });
 
     } catch (error) {
+      if (isCancellationError(error, signal)) {
+        logger.info('WebUI: Query regeneration cancelled');
+        return;
+      }
       logger.error('Query regeneration failed:', error);
       res.status(500).json({
         error: 'Query regeneration failed',
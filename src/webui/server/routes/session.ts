@@ -3,6 +3,7 @@ import { ServiceContainer } from '../../../infrastructure/di/ServiceContainer';
 import { requireAuth } from '../middleware/auth';
 import { SessionManager } from '../../../services/orchestration/SessionManager';
 import { logger } from '../../../utils/logger';
+import { formatTimeRange, parseTimeExpression, ResolvedTimeRange } from '../../../utils/timeExpression';
 
 /**
  * Session management interfaces
@@ -10,16 +11,44 @@ import { logger } from '../../../utils/logger';
 interface CreateSessionRequest {
   language?: string;
   defaultMode?: 'smart' | 'review' | 'raw';
-  timeRange?: string;
+  timeRange?: string; // Duration, ISO 8601 interval or expression such as "yesterday" or "since 9am"
+  timeZone?: string; // Zone of the browser, for expressions that name none
 }
 
 interface UpdateSessionRequest {
   language?: string;
   defaultMode?: 'smart' | 'review' | 'raw';
   timeRange?: string;
+  timeZone?: string;
   showEmptyColumns?: boolean;
 }
 
+/**
+ * Resolved time range as sent back to the browser, which shows it before queries run
+ */
+function toTimeRangeResponse(expression: string, range: ResolvedTimeRange) {
+  return {
+    expression,
+    start: range.start.toISOString(),
+    end: range.end.toISOString(),
+    duration: range.duration,
+    timespan: range.timespan,
+    timeZone: range.timeZone,
+    description: formatTimeRange(range)
+  };
+}
+
+/**
+ * 400 response body for a time range that parseTimeExpression rejects
+ */
+function invalidTimeRangeResponse(error: unknown): { error: string; message: string; code: string } {
+  return {
+    error: 'Invalid time range',
+    message: error instanceof Error ? error.message : String(error),
+    code: 'INVALID_TIME_RANGE'
+  };
+}
+
 /**
  * Create session-related API routes
  */
@@ -36,13 +65,23 @@ export function createSessionRoutes(container: ServiceContainer): Router {
    */
   router.post('/start', async (req: Request, res: Response) => {
     try {
-      const { language = 'en', defaultMode = 'smart', timeRange = '24h' }: CreateSessionRequest = req.body;
+      const { language = 'en', defaultMode = 'smart', timeRange = '24h', timeZone }: CreateSessionRequest = req.body;
+
+      let range: ResolvedTimeRange;
+      try {
+        range = parseTimeExpression(timeRange, { timeZone });
+      } catch (error) {
+        return res.status(400).json(invalidTimeRangeResponse(error));
+      }
 
       logger.info('WebUI: Starting new session');
 
+      // The expression applies to the session's queries through QueryService, which resolves it for each query
       const session = await sessionManager.createSession({
         language: language as any,
-        defaultMode: defaultMode as any
+        defaultMode: defaultMode as any,
+        timeRange,
+        timeZone: range.timeZone
       });
       
       // Configure session settings using addToHistory for context
@@ -63,6 +102,7 @@ export function createSessionRoutes(container: ServiceContainer): Router {
           showEmptyColumns: false,
           charts: true
         },
+        timeRange: toTimeRangeResponse(timeRange, range),
         timestamp: new Date().toISOString()
       });
 
@@ -113,8 +153,8 @@ export function createSessionRoutes(container: ServiceContainer): Router {
           userInput: item.reason || '',
           executedAt: item.timestamp,
           resultCount: 0, // Not available in session history
-          status: 'success', // Assume success for now
-          error: null
+          status: item.action === 'failed' ? 'error' : 'success',
+          error: item.action === 'failed' ? item.reason : null
         })),
         timestamp: new Date().toISOString()
       });
@@ -139,6 +179,7 @@ export function createSessionRoutes(container: ServiceContainer): Router {
         language, 
         defaultMode, 
         timeRange, 
+        timeZone,
         showEmptyColumns 
       } = req.body as UpdateSessionRequest & { sessionId: string };
 
@@ -150,6 +191,13 @@ export function createSessionRoutes(container: ServiceContainer): Router {
         });
       }
 
+      let range: ResolvedTimeRange | undefined;
+      try {
+        range = timeRange ? parseTimeExpression(timeRange, { timeZone }) : undefined;
+      } catch (error) {
+        return res.status(400).json(invalidTimeRangeResponse(error));
+      }
+
       logger.info(`WebUI: Updating settings for session ${sessionId}`);
 
       const session = await sessionManager.getSession(sessionId);
@@ -172,10 +220,14 @@ export function createSessionRoutes(container: ServiceContainer): Router {
       };
 
       session.addToHistory(settingsKey, 1.0, 'generated', JSON.stringify(updatedSettings));
+      if (range) {
+        await sessionManager.updateSessionOptions(sessionId, { timeRange, timeZone: range.timeZone });
+      }
 
       res.json({
         sessionId,
         settings: updatedSettings,
+        ...(timeRange && range && { timeRange: toTimeRangeResponse(timeRange, range) }),
         timestamp: new Date().toISOString()
       });
 
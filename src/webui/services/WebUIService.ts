@@ -74,8 +74,10 @@ export class WebUIService {
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
     // Authentication middleware
+    const config = this.configManager.getConfig();
     const authMiddleware = createAuthMiddleware(
-      this.container.resolve<IAuthenticationProvider>('authProvider')
+      this.container.resolve<IAuthenticationProvider>('authProvider'),
+      config.providers.dataSources[config.providers.dataSources.default]
     );
     this.app.use('/api', authMiddleware);
 
@@ -1,3 +1,6 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { Bootstrap } from '../../src/infrastructure/Bootstrap';
 import { ServiceContainer } from '../../src/infrastructure/di/ServiceContainer';
 import { ProviderFactory } from '../../src/infrastructure/di/ProviderFactory';
@@ -12,7 +15,8 @@ jest.mock('../../src/utils/config', () => {
           auth: {
             default: 'azure-managed-identity',
             'azure-managed-identity': {
-              type: 'azure-managed-identity'
+              type: 'azure-managed-identity',
+              tokenCache: false
             }
           },
           ai: {
@@ -32,6 +36,9 @@ jest.mock('../../src/utils/config', () => {
               tenantId: 'test-tenant-id'
             }
           }
+        },
+        schemaCache: {
+          enabled: false
         }
       };
 
@@ -50,6 +57,10 @@ jest.mock('../../src/utils/config', () => {
 jest.mock('@azure/identity', () => ({
   DefaultAzureCredential: jest.fn().mockImplementation(() => ({
     getToken: jest.fn().mockResolvedValue({ token: 'mock-token' })
+  })),
+  // First credential of the default chain
+  EnvironmentCredential: jest.fn().mockImplementation(() => ({
+    getToken: jest.fn().mockResolvedValue({ token: 'mock-token' })
   }))
 }));
 
@@ -186,6 +197,42 @@ describe('Bootstrap and Dependency Injection', () => {
     });
   });
 
+  describe('Recording and replaying', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'aidx-bootstrap-cassette-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should answer queries from the replayed cassette', async () => {
+      const cassettePath = path.join(directory, 'session.json');
+      fs.writeFileSync(cassettePath, JSON.stringify({
+        version: 1,
+        recordedAt: '2024-01-10T12:00:00.000Z',
+        interactions: [{
+          provider: 'dataSource',
+          method: 'executeQuery',
+          request: { query: 'requests | count' },
+          response: { tables: [{ name: 'PrimaryResult', columns: [{ name: 'Count', type: 'long' }], rows: [[42]] }] }
+        }]
+      }));
+
+      const replayContainer = await new Bootstrap({ replay: cassettePath }).initialize();
+      const result = await replayContainer.resolve<IDataSourceProvider>('dataSourceProvider').executeQuery({ query: 'requests | count' });
+
+      expect(result.tables[0].rows).toEqual([[42]]);
+    });
+
+    it('should not record and replay at once', async () => {
+      await expect(new Bootstrap({ record: path.join(directory, 'a.json'), replay: path.join(directory, 'b.json') }).initialize())
+        .rejects.toThrow('Use only one of --record or --replay');
+    });
+  });
+
   describe('Authentication Provider Integration', () => {
     it('should provide functional auth provider', async () => {
       const authProvider = container.resolve<IAuthenticationProvider>('authProvider');
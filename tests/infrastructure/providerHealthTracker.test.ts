@@ -0,0 +1,48 @@
+import { ProviderHealthTracker } from '../../src/infrastructure/ProviderHealthTracker';
+
+describe('ProviderHealthTracker', () => {
+  const entries = [{ id: 'primary' }, { id: 'secondary' }, { id: 'tertiary' }];
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should try healthy providers in order and cooling-down ones last, soonest available first', () => {
+    jest.useFakeTimers();
+    const tracker = new ProviderHealthTracker(entries.map(({ id }) => id), 1000);
+
+    tracker.recordFailure('secondary', 'throttled');
+    jest.advanceTimersByTime(500);
+    tracker.recordFailure('primary', 'unavailable');
+
+    expect(tracker.getCandidates(entries).map(({ id }) => id)).toEqual(['tertiary', 'secondary', 'primary']);
+
+    jest.advanceTimersByTime(600);
+    expect(tracker.getCandidates(entries).map(({ id }) => id)).toEqual(['secondary', 'tertiary', 'primary']);
+  });
+
+  it('should count consecutive failures until a success resets the provider', () => {
+    const tracker = new ProviderHealthTracker(['primary', 'secondary']);
+
+    tracker.recordFailure('primary', 'first');
+    tracker.recordFailure('primary', 'second');
+
+    expect(tracker.getHealth()).toEqual([
+      { id: 'primary', healthy: false, consecutiveFailures: 2, cooldownUntil: expect.any(Date), lastError: 'second' },
+      { id: 'secondary', healthy: true, consecutiveFailures: 0 }
+    ]);
+
+    tracker.recordSuccess('primary');
+    expect(tracker.getHealth()[0]).toEqual({ id: 'primary', healthy: true, consecutiveFailures: 0 });
+  });
+
+  it('should report providers as healthy again once their cooldown has passed', () => {
+    jest.useFakeTimers();
+    const tracker = new ProviderHealthTracker(['primary'], 1000);
+
+    tracker.recordFailure('primary', 'unavailable');
+    jest.advanceTimersByTime(1000);
+
+    expect(tracker.getHealth()[0]).toMatchObject({ healthy: true, consecutiveFailures: 1, lastError: 'unavailable' });
+  });
+});
@@ -0,0 +1,208 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  CircuitOpenError,
+  ResilientExecutor,
+  computeBackoffMs,
+  getRetryAfterMs,
+  isRetryableError
+} from '../../src/infrastructure/http';
+import { ApplicationInsightsProvider } from '../../src/providers/datasource/ApplicationInsightsProvider';
+import { logger } from '../../src/utils/logger';
+import { QueryCancelledError } from '../../src/utils/cancellation';
+
+interface StubResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+describe('Resilient HTTP layer', () => {
+  let server: http.Server;
+  let endpoint: string;
+  let responses: StubResponse[];
+  let requestCount: number;
+
+  const mockAuthProvider = {
+    getAccessToken: jest.fn().mockResolvedValue('mock-auth-token'),
+    validateCredentials: jest.fn().mockResolvedValue(true),
+    getOpenAIToken: jest.fn().mockResolvedValue('mock-openai-token')
+  };
+
+  const createProvider = (retry = {}) => new ApplicationInsightsProvider(
+    { type: 'application-insights', applicationId: 'test-app-id', endpoint, retry: { baseDelayMs: 1, ...retry } },
+    mockAuthProvider
+  );
+
+  const queryResult = { tables: [{ name: 'PrimaryResult', columns: [{ name: 'count_', type: 'long' }], rows: [[42]] }] };
+
+  beforeAll(async () => {
+    // Local stand-in for the Application Insights API, answering with the queued responses in order
+    server = http.createServer((req, res) => {
+      requestCount++;
+      const { status, headers, body } = responses.shift() || { status: 200, body: queryResult };
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify(body ?? {}));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    responses = [];
+    requestCount = 0;
+  });
+
+  describe('against a stub server', () => {
+    it('should retry 503 responses until the query succeeds', async () => {
+      responses = [{ status: 503 }, { status: 503 }];
+      const provider = createProvider();
+
+      const result = await provider.executeQuery({ query: 'requests | count' });
+
+      expect(result.tables[0].rows).toEqual([[42]]);
+      expect(requestCount).toBe(3);
+      expect(mockAuthProvider.getAccessToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for Retry-After on 429 responses', async () => {
+      responses = [{ status: 429, headers: { 'retry-after-ms': '200' } }];
+      const provider = createProvider();
+
+      const started = Date.now();
+      await provider.executeQuery({ query: 'requests | count' });
+
+      expect(Date.now() - started).toBeGreaterThanOrEqual(190);
+      expect(requestCount).toBe(2);
+    });
+
+    it('should not retry client errors', async () => {
+      responses = [{ status: 400, body: { error: { message: 'Syntax error' } } }];
+      const provider = createProvider();
+
+      await expect(provider.executeQuery({ query: 'requests |' })).rejects.toThrow('Application Insights query execution failed');
+      expect(requestCount).toBe(1);
+    });
+
+    it('should fail after the configured number of retries', async () => {
+      responses = [{ status: 502 }, { status: 502 }, { status: 502 }];
+      const provider = createProvider({ maxRetries: 1 });
+
+      await expect(provider.executeQuery({ query: 'requests | count' })).rejects.toThrow('status code 502');
+      expect(requestCount).toBe(2);
+    });
+
+    it('should fail fast when Retry-After exceeds the limit', async () => {
+      responses = [{ status: 429, headers: { 'retry-after': '120' } }];
+      const provider = createProvider();
+
+      await expect(provider.executeQuery({ query: 'requests | count' })).rejects.toThrow('status code 429');
+      expect(requestCount).toBe(1);
+    });
+
+    it('should open the circuit after consecutive failures', async () => {
+      responses = Array(4).fill({ status: 503 });
+      const provider = createProvider({ maxRetries: 1, circuitBreakerThreshold: 2 });
+
+      await expect(provider.executeQuery({ query: 'requests | count' })).rejects.toThrow('status code 503');
+      await expect(provider.executeQuery({ query: 'requests | count' })).rejects.toThrow('status code 503');
+      await expect(provider.executeQuery({ query: 'requests | count' })).rejects.toThrow('temporarily unavailable');
+      expect(requestCount).toBe(4);
+    });
+
+    it('should abort the request when the signal is aborted', async () => {
+      responses = [{ status: 503, headers: { 'retry-after-ms': '5000' } }];
+      const provider = createProvider();
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 100);
+
+      const started = Date.now();
+      await expect(provider.executeQuery({ query: 'requests | count', signal: controller.signal })).rejects.toBeInstanceOf(QueryCancelledError);
+
+      expect(Date.now() - started).toBeLessThan(2000);
+      expect(requestCount).toBe(1);
+    });
+
+    it('should report attempts in debug logs', async () => {
+      const debugSpy = jest.spyOn(logger, 'debug');
+      responses = [{ status: 503 }];
+      const provider = createProvider();
+
+      await provider.executeQuery({ query: 'requests | count' });
+
+      expect(debugSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Application Insights request failed on attempt 1/4 (HTTP 503), retrying in'),
+        { httpAttempt: expect.objectContaining({ provider: 'Application Insights', attempt: 1, maxAttempts: 4, status: 503 }) }
+      );
+      debugSpy.mockRestore();
+    });
+  });
+
+  describe('ResilientExecutor', () => {
+    it('should let a trial request through once the circuit reset time has passed', async () => {
+      const executor = new ResilientExecutor('Test', { maxRetries: 0, circuitBreakerThreshold: 1, circuitBreakerResetMs: 50 });
+      const unavailable = Object.assign(new Error('Service unavailable'), { statusCode: 503 });
+
+      await expect(executor.execute(() => Promise.reject(unavailable))).rejects.toThrow('Service unavailable');
+      await expect(executor.execute(() => Promise.resolve('ok'))).rejects.toBeInstanceOf(CircuitOpenError);
+
+      await new Promise(resolve => setTimeout(resolve, 60));
+      await expect(executor.execute(() => Promise.resolve('ok'))).resolves.toBe('ok');
+      expect(executor.circuitBreaker.state).toBe('closed');
+    });
+
+    it('should retry Kusto throttling errors', async () => {
+      const sleep = jest.fn().mockResolvedValue(undefined);
+      const executor = new ResilientExecutor('Test', {}, sleep);
+      const throttled = Object.assign(new Error('POST request failed with status 429'), {
+        name: 'ThrottlingError',
+        inner: { response: { status: 429, headers: { 'retry-after': '2' } } }
+      });
+      const operation = jest.fn().mockRejectedValueOnce(throttled).mockResolvedValue('ok');
+
+      await expect(executor.execute(operation)).resolves.toBe('ok');
+      expect(sleep).toHaveBeenCalledWith(2000, undefined);
+    });
+
+    it('should stop retrying once the signal is aborted', async () => {
+      const controller = new AbortController();
+      const sleep = jest.fn().mockImplementation(async () => controller.abort());
+      const executor = new ResilientExecutor('Test', {}, sleep);
+      const operation = jest.fn().mockRejectedValue(Object.assign(new Error('Service unavailable'), { statusCode: 503 }));
+
+      await expect(executor.execute(operation, controller.signal)).rejects.toBeInstanceOf(QueryCancelledError);
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(executor.circuitBreaker.state).toBe('closed');
+    });
+  });
+
+  describe('helpers', () => {
+    it('should read Retry-After as seconds or an HTTP date', () => {
+      const now = Date.parse('2024-01-01T00:00:00Z');
+
+      expect(getRetryAfterMs({ response: { headers: { 'retry-after': '5' } } }, now)).toBe(5000);
+      expect(getRetryAfterMs({ response: { headers: { 'retry-after': 'Mon, 01 Jan 2024 00:00:10 GMT' } } }, now)).toBe(10000);
+      expect(getRetryAfterMs({ response: { headers: { get: (name: string) => (name === 'x-ms-retry-after-ms' ? '750' : undefined) } } })).toBe(750);
+      expect(getRetryAfterMs({ response: { headers: {} } })).toBeUndefined();
+    });
+
+    it('should use capped exponential backoff with full jitter', () => {
+      expect(computeBackoffMs(0, { baseDelayMs: 100 }, () => 1)).toBe(100);
+      expect(computeBackoffMs(3, { baseDelayMs: 100 }, () => 1)).toBe(800);
+      expect(computeBackoffMs(10, { baseDelayMs: 100, maxDelayMs: 1000 }, () => 1)).toBe(1000);
+      expect(computeBackoffMs(3, { baseDelayMs: 100 }, () => 0.5)).toBe(400);
+    });
+
+    it('should only retry transient failures', () => {
+      expect(isRetryableError({ response: { status: 429 } })).toBe(true);
+      expect(isRetryableError({ statusCode: 503 })).toBe(true);
+      expect(isRetryableError({ code: 'ECONNRESET' })).toBe(true);
+      expect(isRetryableError({ response: { status: 401 } })).toBe(false);
+      expect(isRetryableError({ code: 'ECONNABORTED' })).toBe(false);
+    });
+  });
+});
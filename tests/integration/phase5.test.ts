@@ -186,25 +186,25 @@ describe('Phase 5 Integration Tests', () => {
       providerFactory.registerDataSourceProvider('log-analytics', LogAnalyticsProvider);
     });
 
-    it('should throw error for unsupported AI provider type', () => {
-      const unsupportedConfig: AIProviderConfig = {
-        type: 'anthropic' as any, // Type is defined but not implemented
+    it('should throw error for unregistered AI provider type', () => {
+      const unregisteredConfig: AIProviderConfig = {
+        type: 'anthropic', // Valid configuration, but not registered in this factory
         apiKey: 'test-key'
       };
 
       expect(() => {
-        providerFactory.createAIProvider('anthropic' as any, unsupportedConfig);
-      }).toThrow(/Anthropic provider not yet implemented/);
+        providerFactory.createAIProvider('anthropic', unregisteredConfig);
+      }).toThrow(/AI provider not registered: anthropic/);
     });
 
-    it('should throw error for unsupported data source provider type', () => {
-      const unsupportedConfig: DataSourceConfig = {
-        type: 'azure-metrics' as any // Type is defined but not implemented
+    it('should throw error for incomplete data source provider configuration', () => {
+      const incompleteConfig: DataSourceConfig = {
+        type: 'azure-metrics' // Needs a resource ID
       };
 
       expect(() => {
-        providerFactory.createDataSourceProvider('azure-metrics' as any, unsupportedConfig);
-      }).toThrow(/Azure Metrics provider not yet implemented/);
+        providerFactory.createDataSourceProvider('azure-metrics', incompleteConfig);
+      }).toThrow(/Azure Metrics resource ID is required/);
     });
   });
 
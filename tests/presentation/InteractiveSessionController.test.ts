@@ -1,3 +1,4 @@
+import inquirer from 'inquirer';
 import { InteractiveSessionController } from '../../src/presentation/InteractiveSessionController';
 import { QueryService } from '../../src/services/QueryService';
 import { TemplateService } from '../../src/services/TemplateService';
@@ -8,6 +9,7 @@ import { QueryEditorService } from '../../src/services/QueryEditorService';
 import { ConfigManager } from '../../src/utils/config';
 import { IAIProvider } from '../../src/core/interfaces/IAIProvider';
 import { ExternalExecutionProviderConfig } from '../../src/core/types/ProviderTypes';
+import { QueryCancelledError } from '../../src/utils/cancellation';
 
 // Mock dependencies
 jest.mock('inquirer');
@@ -140,4 +142,132 @@ describe('InteractiveSessionController - Azure Portal Integration', () => {
       expect(options[0].description).toContain('full visualization capabilities');
     });
   });
-});
\ No newline at end of file
+
+  describe('Smart mode review', () => {
+    const generatedKQL = 'AppRequests | where timestamp > ago(1h)';
+    const formattedKQL = 'AppRequests\n| where timestamp > ago(1h)';
+
+    beforeEach(() => {
+      (controller as any).currentSession = { sessionId: 'session-1', options: { showConfidenceThreshold: 0.7 } };
+      queryService.generateQuery = jest.fn().mockResolvedValue({
+        nlQuery: { generatedKQL, confidence: 0.9, reasoning: 'Recent requests' }
+      });
+      queryService.executeGeneratedQuery = jest.fn().mockResolvedValue({ result: {}, session: {} });
+      (inquirer.prompt as unknown as jest.Mock).mockReset();
+    });
+
+    it('should send queries with unknown columns to step review with their diagnostics', async () => {
+      queryService.validateQuery = jest.fn().mockResolvedValue({
+        isValid: false,
+        error: `Line 1, column 21: Unknown column 'timestamp' (did you mean 'TimeGenerated'?)`,
+        diagnostics: [{
+          severity: 'error',
+          message: `Unknown column 'timestamp' (did you mean 'TimeGenerated'?)`,
+          line: 1,
+          column: 21,
+          offset: 20,
+          length: 9
+        }]
+      });
+      (inquirer.prompt as unknown as jest.Mock)
+        .mockResolvedValueOnce({ mode: 'direct' })
+        .mockResolvedValueOnce({ action: 'cancel' });
+      jest.spyOn(outputRenderer, 'renderQuery').mockReturnValue({ content: generatedKQL });
+
+      await (controller as any).handleQueryInput('show recent requests');
+
+      expect(queryService.validateQuery).toHaveBeenCalledWith(formattedKQL, { checkSchema: true, dataSourceType: 'application-insights' });
+      expect(queryService.executeGeneratedQuery).not.toHaveBeenCalled();
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining(`Unknown column 'timestamp' (did you mean 'TimeGenerated'?)`));
+    });
+
+    it('should execute valid high-confidence queries without review', async () => {
+      queryService.validateQuery = jest.fn().mockResolvedValue({ isValid: true, diagnostics: [] });
+      (inquirer.prompt as unknown as jest.Mock).mockResolvedValueOnce({ mode: 'direct' });
+      const handleDirectMode = jest.spyOn(controller as any, 'handleDirectMode').mockResolvedValue(undefined);
+
+      await (controller as any).handleQueryInput('show recent requests');
+
+      expect(queryService.executeGeneratedQuery).toHaveBeenCalledWith(
+        expect.objectContaining({ generatedKQL: formattedKQL }),
+        expect.objectContaining({ sessionId: 'session-1', mode: 'direct' })
+      );
+      expect(handleDirectMode).toHaveBeenCalled();
+      expect(inquirer.prompt).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send queries with a low performance score to step review with the findings', async () => {
+      queryService.generateQuery = jest.fn().mockResolvedValue({
+        nlQuery: { generatedKQL: 'search * | where Message contains "timeout"', confidence: 0.9 }
+      });
+      queryService.validateQuery = jest.fn().mockResolvedValue({ isValid: true, diagnostics: [] });
+      (inquirer.prompt as unknown as jest.Mock)
+        .mockResolvedValueOnce({ mode: 'direct' })
+        .mockResolvedValueOnce({ action: 'cancel' });
+      jest.spyOn(outputRenderer, 'renderQuery').mockReturnValue({ content: 'search *' });
+
+      await (controller as any).handleQueryInput('find timeouts');
+
+      expect(queryService.executeGeneratedQuery).not.toHaveBeenCalled();
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('may be slow or expensive'));
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining(`'search *' scans every telemetry table`));
+    });
+  });
+
+  describe('Session settings', () => {
+    beforeEach(() => {
+      (controller as any).currentSession = { sessionId: 'session-1', options: { language: 'en', defaultMode: 'step' } };
+      (inquirer.prompt as unknown as jest.Mock).mockReset();
+    });
+
+    it('should keep the time range expression on the session and resolve it for queries', async () => {
+      (inquirer.prompt as unknown as jest.Mock).mockResolvedValueOnce({ language: 'en', defaultMode: 'step', timeRange: 'last 6 hours' });
+
+      await (controller as any).updateSettings();
+
+      expect((controller as any).currentSession.options.timeRange).toBe('last 6 hours');
+      expect((controller as any).getSessionTimespan()).toBe('PT6H');
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Time range: the last 6 hours'));
+    });
+
+    it('should clear the time range when the answer is empty', async () => {
+      (controller as any).currentSession.options.timeRange = 'PT6H';
+      (inquirer.prompt as unknown as jest.Mock).mockResolvedValueOnce({ language: 'en', defaultMode: 'step', timeRange: '' });
+
+      await (controller as any).updateSettings();
+
+      expect((controller as any).currentSession.options.timeRange).toBeUndefined();
+    });
+
+    it('should reject time ranges it cannot understand', async () => {
+      (inquirer.prompt as unknown as jest.Mock).mockResolvedValueOnce({ language: 'en', defaultMode: 'step', timeRange: 'last 6 hours' });
+
+      await (controller as any).updateSettings();
+      const question = (inquirer.prompt as unknown as jest.Mock).mock.calls[0][0].find((q: { name: string }) => q.name === 'timeRange');
+
+      expect(question.validate('whenever')).toContain("Could not understand the time range 'whenever'");
+      expect(question.validate('yesterday')).toBe(true);
+    });
+  });
+
+  describe('Query cancellation', () => {
+    beforeEach(() => {
+      (controller as any).currentSession = { sessionId: 'session-1', options: {} };
+      (inquirer.prompt as unknown as jest.Mock).mockReset();
+    });
+
+    it('should cancel the running query on Ctrl+C and stay in the session', async () => {
+      const sigintListeners = process.listenerCount('SIGINT');
+      queryService.executeQuery = jest.fn().mockImplementation(({ signal }: { signal: AbortSignal }) =>
+        new Promise((_, reject) => signal.addEventListener('abort', () => reject(new QueryCancelledError())))
+      );
+
+      const execution = (controller as any).executeAndShowResults('requests | count');
+      process.emit('SIGINT');
+      await execution;
+
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Query cancelled'));
+      expect(process.listenerCount('SIGINT')).toBe(sigintListeners);
+    });
+  });
+});
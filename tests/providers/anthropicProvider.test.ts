@@ -0,0 +1,207 @@
+import { AnthropicProvider } from '../../src/providers/ai/AnthropicProvider';
+import { AIProviderConfig } from '../../src/core/types/ProviderTypes';
+import { QueryGenerationRequest, QueryExplanationRequest, RegenerationRequest, QueryAnalysisRequest } from '../../src/core/interfaces/IAIProvider';
+
+const mockCreate = jest.fn();
+
+// Mock the Anthropic SDK
+jest.mock('@anthropic-ai/sdk', () => {
+  return {
+    __esModule: true,
+    default: jest.fn().mockImplementation(() => ({
+      messages: {
+        create: mockCreate
+      }
+    }))
+  };
+});
+
+const jsonResponse = {
+  content: [{ type: 'text', text: '{"kql": "requests | count", "confidence": 0.85, "reasoning": "Test reasoning"}' }],
+  stop_reason: 'end_turn'
+};
+
+describe('AnthropicProvider', () => {
+  let mockAnthropicConfig: AIProviderConfig;
+  let anthropicProvider: AnthropicProvider;
+
+  beforeEach(() => {
+    mockCreate.mockReset();
+    mockCreate.mockResolvedValue(jsonResponse);
+
+    mockAnthropicConfig = {
+      type: 'anthropic',
+      apiKey: 'test-anthropic-key',
+      model: 'claude-sonnet-4-5'
+    };
+
+    anthropicProvider = new AnthropicProvider(mockAnthropicConfig);
+  });
+
+  describe('initialize', () => {
+    it('should initialize successfully with valid config', async () => {
+      await expect(anthropicProvider.initialize()).resolves.toBeUndefined();
+    });
+
+    it('should throw error for invalid provider type', async () => {
+      const invalidConfig = { ...mockAnthropicConfig, type: 'invalid' } as any;
+      const provider = new AnthropicProvider(invalidConfig);
+      await expect(provider.initialize()).rejects.toThrow('Invalid provider type for AnthropicProvider');
+    });
+
+    it('should require an API key', async () => {
+      const configWithoutKey = { ...mockAnthropicConfig };
+      delete configWithoutKey.apiKey;
+      const provider = new AnthropicProvider(configWithoutKey);
+      await expect(provider.initialize()).rejects.toThrow('Anthropic API key is required');
+    });
+
+    it('should pass custom endpoint as base URL', async () => {
+      const Anthropic = require('@anthropic-ai/sdk').default;
+      const provider = new AnthropicProvider({ ...mockAnthropicConfig, endpoint: 'https://gateway.example.com' });
+      await provider.initialize();
+      expect(Anthropic).toHaveBeenCalledWith({
+        apiKey: 'test-anthropic-key',
+        baseURL: 'https://gateway.example.com'
+      });
+    });
+  });
+
+  describe('generateQuery', () => {
+    it('should generate KQL query successfully', async () => {
+      const request: QueryGenerationRequest = {
+        userInput: 'Show me errors',
+        schema: {},
+        language: 'en'
+      };
+
+      const result = await anthropicProvider.generateQuery(request);
+
+      expect(result).toEqual({
+        generatedKQL: 'requests | count',
+        confidence: 0.85,
+        reasoning: 'Test reasoning'
+      });
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({
+        model: 'claude-sonnet-4-5',
+        system: expect.any(String),
+        messages: [{ role: 'user', content: 'Convert this natural language query to KQL: "Show me errors"' }]
+      }), { signal: undefined });
+    });
+
+    it('should use default model when not provided', async () => {
+      const configWithoutModel = { ...mockAnthropicConfig };
+      delete configWithoutModel.model;
+      const provider = new AnthropicProvider(configWithoutModel);
+
+      await provider.generateQuery({ userInput: 'Show me errors' });
+
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({ model: 'claude-sonnet-4-5' }), { signal: undefined });
+    });
+
+    it('should lower confidence for truncated responses', async () => {
+      mockCreate.mockResolvedValueOnce({ ...jsonResponse, stop_reason: 'max_tokens' });
+
+      const result = await anthropicProvider.generateQuery({ userInput: 'Show me errors' });
+
+      expect(result.confidence).toBe(0.6);
+    });
+
+    it('should throw error if not initialized', async () => {
+      const uninitializedProvider = new AnthropicProvider(mockAnthropicConfig);
+      // Manually set client to null to simulate uninitialized state
+      (uninitializedProvider as any).anthropicClient = null;
+      (uninitializedProvider as any).initializationPromise = Promise.resolve();
+
+      await expect(uninitializedProvider.generateQuery({ userInput: 'Show me errors' })).rejects.toThrow('Anthropic client not initialized');
+    });
+
+    it('should handle API errors gracefully', async () => {
+      mockCreate.mockRejectedValueOnce(new Error('API Error'));
+
+      await expect(anthropicProvider.generateQuery({ userInput: 'Show me errors' })).rejects.toThrow('KQL generation failed');
+    });
+
+    it('should fail when response has no text content', async () => {
+      mockCreate.mockResolvedValueOnce({ content: [], stop_reason: 'end_turn' });
+
+      await expect(anthropicProvider.generateQuery({ userInput: 'Show me errors' })).rejects.toThrow('No content received from Anthropic');
+    });
+  });
+
+  describe('explainQuery', () => {
+    it('should explain KQL query successfully', async () => {
+      mockCreate.mockResolvedValueOnce({
+        content: [{ type: 'text', text: 'This query counts requests' }],
+        stop_reason: 'end_turn'
+      });
+
+      const request: QueryExplanationRequest = {
+        query: 'requests | count',
+        options: {
+          language: 'en',
+          technicalLevel: 'intermediate'
+        }
+      };
+
+      const result = await anthropicProvider.explainQuery(request);
+      expect(result).toBe('This query counts requests');
+    });
+  });
+
+  describe('regenerateQuery', () => {
+    it('should regenerate KQL query successfully', async () => {
+      const request: RegenerationRequest = {
+        userInput: 'Show me errors',
+        context: {
+          previousQuery: 'requests | limit 10',
+          attemptNumber: 2
+        },
+        schema: {},
+        language: 'en'
+      };
+
+      const result = await anthropicProvider.regenerateQuery(request);
+
+      expect(result.generatedKQL).toBe('requests | count');
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({ temperature: 0.5 }), { signal: undefined });
+    });
+  });
+
+  describe('analyzeQueryResult', () => {
+    it('should analyze query results successfully', async () => {
+      const request: QueryAnalysisRequest = {
+        result: {
+          tables: [{
+            name: 'PrimaryResult',
+            columns: [{ name: 'count', type: 'long' }],
+            rows: [[100]]
+          }]
+        },
+        originalQuery: 'requests | count',
+        analysisType: 'full'
+      };
+
+      const result = await anthropicProvider.analyzeQueryResult(request);
+
+      expect(result).toHaveProperty('patterns');
+      expect(result).toHaveProperty('insights');
+      expect(result).toHaveProperty('aiInsights');
+      expect(result).toHaveProperty('recommendations');
+      expect(result).toHaveProperty('followUpQueries');
+    });
+  });
+
+  describe('response parsing', () => {
+    it('should extract KQL from markdown code blocks', () => {
+      const response = '```json\n{"kql": "requests | count"}\n```';
+      const kql = (anthropicProvider as any).extractKQLFromResponse(response);
+      expect(kql).toBe('requests | count');
+    });
+
+    it('should provide default reasoning when not available', () => {
+      const reasoning = (anthropicProvider as any).extractReasoningFromResponse('invalid json');
+      expect(reasoning).toBe('Generated by Anthropic Claude (non-JSON response)');
+    });
+  });
+});
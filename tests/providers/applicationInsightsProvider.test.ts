@@ -119,7 +119,7 @@ describe('ApplicationInsightsProvider', () => {
       expect(mockAxiosInstance.post).toHaveBeenCalledWith('/test-app-id/query', {
         query: request.query,
         timespan: request.timespan
-      });
+      }, { signal: undefined });
     });
 
     it('should execute query without timespan', async () => {
@@ -149,7 +149,18 @@ describe('ApplicationInsightsProvider', () => {
       expect(result).toEqual(mockResponse.data);
       expect(mockAxiosInstance.post).toHaveBeenCalledWith('/test-app-id/query', {
         query: request.query
-      });
+      }, { signal: undefined });
+    });
+
+    it('should apply the timeout to the request and the server-side query', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: { tables: [] } });
+
+      await applicationInsightsProvider.executeQuery({ query: 'requests | count', timespan: 'PT2H', timeout: 45000 });
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/test-app-id/query', {
+        query: 'requests | count',
+        timespan: 'PT2H'
+      }, { signal: undefined, timeout: 45000, headers: { Prefer: 'wait=45' } });
     });
 
     it('should handle query execution errors', async () => {
@@ -273,6 +284,7 @@ describe('ApplicationInsightsProvider', () => {
           applicationName: 'Test Application',
           tenantId: 'test-tenant',
           endpoint: 'https://api.applicationinsights.io/v1/apps',
+          authMode: 'aad',
           instrumentationKey: 'test-key',
           appId: 'test-app-id',
           createdDate: '2023-01-01T00:00:00.000Z',
@@ -301,6 +313,7 @@ describe('ApplicationInsightsProvider', () => {
           applicationName: 'Unknown',
           tenantId: 'test-tenant',
           endpoint: 'https://api.applicationinsights.io/v1/apps',
+          authMode: 'aad',
           instrumentationKey: undefined,
           appId: undefined,
           createdDate: undefined,
@@ -323,4 +336,73 @@ describe('ApplicationInsightsProvider', () => {
       });
     });
   });
+
+  describe('API key authentication', () => {
+    const apiKeyConfig: DataSourceConfig = {
+      type: 'application-insights',
+      applicationId: 'test-app-id',
+      authMode: 'api-key',
+      apiKey: 'test-api-key'
+    };
+
+    const runRequestInterceptor = async () => {
+      const interceptor = mockAxiosInstance.interceptors.request.use.mock.calls[0][0];
+      return interceptor({ headers: {} });
+    };
+
+    beforeEach(() => {
+      mockAxiosInstance.interceptors.request.use.mockClear();
+      delete process.env.AZURE_APPLICATION_INSIGHTS_API_KEY;
+      delete process.env.CONTRACTOR_APP_INSIGHTS_KEY;
+    });
+
+    it('should send the API key instead of a bearer token', async () => {
+      const authProvider = {
+        getAccessToken: jest.fn(),
+        validateCredentials: jest.fn(),
+        getOpenAIToken: jest.fn()
+      };
+      new ApplicationInsightsProvider(apiKeyConfig, authProvider);
+
+      const requestConfig = await runRequestInterceptor();
+
+      expect(requestConfig.headers['x-api-key']).toBe('test-api-key');
+      expect(requestConfig.headers.Authorization).toBeUndefined();
+      expect(authProvider.getAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('should read the API key from a referenced environment variable', async () => {
+      process.env.CONTRACTOR_APP_INSIGHTS_KEY = 'env-api-key';
+      new ApplicationInsightsProvider({ ...apiKeyConfig, apiKey: '${CONTRACTOR_APP_INSIGHTS_KEY}' });
+
+      const requestConfig = await runRequestInterceptor();
+
+      expect(requestConfig.headers['x-api-key']).toBe('env-api-key');
+    });
+
+    it('should read the API key from AZURE_APPLICATION_INSIGHTS_API_KEY without apiKey', async () => {
+      process.env.AZURE_APPLICATION_INSIGHTS_API_KEY = 'default-env-api-key';
+      new ApplicationInsightsProvider({ ...apiKeyConfig, apiKey: undefined });
+
+      const requestConfig = await runRequestInterceptor();
+
+      expect(requestConfig.headers['x-api-key']).toBe('default-env-api-key');
+    });
+
+    it('should throw error when the API key cannot be found', () => {
+      expect(() => new ApplicationInsightsProvider({ ...apiKeyConfig, apiKey: '${CONTRACTOR_APP_INSIGHTS_KEY}' })).toThrow(
+        'Application Insights API key not found in environment variable CONTRACTOR_APP_INSIGHTS_KEY'
+      );
+    });
+
+    it('should report the auth mode in metadata', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: { properties: { applicationName: 'test-app' } } });
+      const provider = new ApplicationInsightsProvider(apiKeyConfig);
+
+      const result = await provider.getMetadata();
+
+      expect(result.metadata.authMode).toBe('api-key');
+      expect(result.metadata).not.toHaveProperty('apiKey');
+    });
+  });
 });
\ No newline at end of file
@@ -4,11 +4,13 @@ import { QueryExecutionRequest } from '../../src/core/interfaces/IDataSourceProv
 
 // Mock the entire azure-kusto-data module
 const mockExecute = jest.fn();
+const mockExecuteMgmt = jest.fn();
 const mockSetOption = jest.fn();
 
 jest.mock('azure-kusto-data', () => ({
   Client: jest.fn().mockImplementation(() => ({
-    execute: mockExecute
+    execute: mockExecute,
+    executeMgmt: mockExecuteMgmt
   })),
   KustoConnectionStringBuilder: {
     withAccessToken: jest.fn().mockReturnValue('mock-connection-string-with-token'),
@@ -129,6 +131,21 @@ describe('AzureDataExplorerProvider', () => {
       });
     });
 
+    it('should cancel the query on the cluster when the signal is aborted', async () => {
+      const provider = new AzureDataExplorerProvider(mockConfig);
+      const controller = new AbortController();
+      mockExecute.mockReturnValueOnce(new Promise(() => undefined));
+      mockExecuteMgmt.mockResolvedValueOnce({});
+
+      const execution = provider.executeQuery({ query: 'StormEvents | count', signal: controller.signal });
+      controller.abort();
+
+      await expect(execution).rejects.toThrow('Query was cancelled');
+      const clientRequestId = mockExecute.mock.calls[0][2].clientRequestId;
+      expect(clientRequestId).toMatch(/^aidx;/);
+      expect(mockExecuteMgmt).toHaveBeenCalledWith('Samples', `.cancel query "${clientRequestId}"`);
+    });
+
     it('should handle query execution errors', async () => {
       const provider = new AzureDataExplorerProvider(mockConfig);
       
@@ -320,172 +337,65 @@ describe('AzureDataExplorerProvider', () => {
     });
   });
 
-  describe('Azure CLI credential fallback', () => {
-    let provider: AzureDataExplorerProvider;
+  describe('credentials', () => {
     const mockKustoConnectionStringBuilder = jest.requireMock('azure-kusto-data').KustoConnectionStringBuilder;
-
-    beforeEach(() => {
-      // Create provider without auth provider to test fallback chain
-      provider = new AzureDataExplorerProvider(mockConfig);
-      jest.clearAllMocks();
+    const mockResponse = () => ({
+      primaryResults: [{
+        columns: [{ name: 'BuildVersion', type: 'string' }],
+        rows: createMockRowsGenerator([['1.0.0']])
+      }]
     });
 
-    it('should use DefaultAzureCredential when no authentication errors occur', async () => {
-      // Mock successful DefaultAzureCredential
-      mockKustoConnectionStringBuilder.withTokenCredential.mockReturnValueOnce('mock-connection-string-with-credential');
+    it('should get tokens from the auth provider', async () => {
+      const provider = new AzureDataExplorerProvider(mockConfig, mockAuthProvider);
+      mockExecute.mockResolvedValueOnce(mockResponse());
 
-      const request: QueryExecutionRequest = {
-        query: '.show version'
-      };
+      await provider.executeQuery({ query: '.show version' });
 
-      const mockResponse = {
-        primaryResults: [{
-          columns: [{ name: 'BuildVersion', type: 'string' }],
-          rows: createMockRowsGenerator([['1.0.0']])
-        }]
-      };
-
-      mockExecute.mockResolvedValueOnce(mockResponse);
-
-      await provider.executeQuery(request);
-
-      // Verify DefaultAzureCredential was used first
       expect(mockKustoConnectionStringBuilder.withTokenCredential).toHaveBeenCalledWith(
         'https://help.kusto.windows.net',
         expect.any(Object)
       );
-      expect(mockKustoConnectionStringBuilder.withAzLoginIdentity).not.toHaveBeenCalled();
-      expect(mockKustoConnectionStringBuilder.withSystemManagedIdentity).not.toHaveBeenCalled();
+      const credential = mockKustoConnectionStringBuilder.withTokenCredential.mock.calls[0][1];
+      await expect(credential.getToken('https://kusto.kusto.windows.net/.default')).resolves.toMatchObject({ token: 'mock-auth-token' });
+      expect(mockAuthProvider.getAccessToken).toHaveBeenCalledWith(['https://kusto.kusto.windows.net/.default']);
     });
 
-    it('should fallback to Azure CLI credential when DefaultAzureCredential gets 401 error', async () => {
-      // Mock DefaultAzureCredential connection success but 401 during query execution
-      mockKustoConnectionStringBuilder.withTokenCredential.mockReturnValueOnce('mock-connection-string-with-credential');
-      mockKustoConnectionStringBuilder.withAzLoginIdentity.mockReturnValueOnce('mock-connection-string-azlogin-identity');
-
-      const request: QueryExecutionRequest = {
-        query: '.show version'
-      };
-
-      const mockResponse = {
-        primaryResults: [{
-          columns: [{ name: 'BuildVersion', type: 'string' }],
-          rows: createMockRowsGenerator([['1.0.0']])
-        }]
-      };
-
-      // First execution fails with 401, second succeeds with Azure CLI
-      const authError = new Error('Unauthorized');
-      (authError as any).status = 401;
-      (authError as any).statusCode = 401;
-      mockExecute
-        .mockRejectedValueOnce(authError) // DefaultAzureCredential fails with 401
-        .mockResolvedValueOnce(mockResponse); // Azure CLI succeeds
+    it('should use DefaultAzureCredential without auth provider', async () => {
+      const provider = new AzureDataExplorerProvider(mockConfig);
+      mockExecute.mockResolvedValueOnce(mockResponse());
 
-      await provider.executeQuery(request);
+      await provider.executeQuery({ query: '.show version' });
 
-      // Verify fallback chain was followed
-      expect(mockKustoConnectionStringBuilder.withTokenCredential).toHaveBeenCalledWith(
-        'https://help.kusto.windows.net',
-        expect.any(Object)
-      );
-      expect(mockKustoConnectionStringBuilder.withAzLoginIdentity).toHaveBeenCalledWith(
-        'https://help.kusto.windows.net'
-      );
-      expect(mockExecute).toHaveBeenCalledTimes(2); // First call fails, second succeeds
+      const { DefaultAzureCredential } = jest.requireMock('@azure/identity');
+      expect(DefaultAzureCredential).toHaveBeenCalled();
+      expect(mockKustoConnectionStringBuilder.withTokenCredential).toHaveBeenCalledTimes(1);
     });
 
-    it('should fallback to system managed identity when both DefaultAzureCredential and Azure CLI get 401 errors', async () => {
-      // Mock connection string builders
-      mockKustoConnectionStringBuilder.withTokenCredential.mockReturnValueOnce('mock-connection-string-with-credential');
-      mockKustoConnectionStringBuilder.withAzLoginIdentity.mockReturnValueOnce('mock-connection-string-azlogin-identity');
-      mockKustoConnectionStringBuilder.withSystemManagedIdentity.mockReturnValueOnce('mock-connection-string-system-managed-identity');
+    it('should use DefaultAzureCredential instead of the auth provider when the cluster does not require authentication', async () => {
+      const provider = new AzureDataExplorerProvider({ ...mockConfig, requiresAuthentication: false }, mockAuthProvider);
+      mockExecute.mockResolvedValueOnce(mockResponse());
 
-      const request: QueryExecutionRequest = {
-        query: '.show version'
-      };
+      await provider.executeQuery({ query: '.show version' });
 
-      const mockResponse = {
-        primaryResults: [{
-          columns: [{ name: 'BuildVersion', type: 'string' }],
-          rows: createMockRowsGenerator([['1.0.0']])
-        }]
-      };
+      const { DefaultAzureCredential } = jest.requireMock('@azure/identity');
+      expect(DefaultAzureCredential).toHaveBeenCalled();
+      const credential = mockKustoConnectionStringBuilder.withTokenCredential.mock.calls[0][1];
+      await expect(credential.getToken('https://kusto.kusto.windows.net/.default')).resolves.toMatchObject({ token: 'mock-token' });
+      expect(mockAuthProvider.getAccessToken).not.toHaveBeenCalled();
+    });
 
-      // Both DefaultAzureCredential and Azure CLI fail with 401, system managed identity succeeds
+    it('should not retry failed queries with other credentials', async () => {
+      const provider = new AzureDataExplorerProvider(mockConfig, mockAuthProvider);
       const authError = new Error('Unauthorized');
-      (authError as any).status = 401;
       (authError as any).statusCode = 401;
-      mockExecute
-        .mockRejectedValueOnce(authError) // DefaultAzureCredential fails with 401
-        .mockRejectedValueOnce(authError) // Azure CLI fails with 401
-        .mockResolvedValueOnce(mockResponse); // System managed identity succeeds
-
-      await provider.executeQuery(request);
-
-      // Verify complete fallback chain was followed
-      expect(mockKustoConnectionStringBuilder.withTokenCredential).toHaveBeenCalledWith(
-        'https://help.kusto.windows.net',
-        expect.any(Object)
-      );
-      expect(mockKustoConnectionStringBuilder.withAzLoginIdentity).toHaveBeenCalledWith(
-        'https://help.kusto.windows.net'
-      );
-      expect(mockKustoConnectionStringBuilder.withSystemManagedIdentity).toHaveBeenCalledWith(
-        'https://help.kusto.windows.net'
-      );
-      expect(mockExecute).toHaveBeenCalledTimes(3); // Three calls: DefaultAzureCredential, Azure CLI, system managed identity
-    });
-
-    it('should use access token when auth provider is provided and no 401 error occurs', async () => {
-      // Create provider with auth provider
-      const providerWithAuth = new AzureDataExplorerProvider(mockConfig, mockAuthProvider);
-
-      const request: QueryExecutionRequest = {
-        query: '.show version'
-      };
-
-      const mockResponse = {
-        primaryResults: [{
-          columns: [{ name: 'BuildVersion', type: 'string' }],
-          rows: createMockRowsGenerator([['1.0.0']])
-        }]
-      };
-
-      mockExecute.mockResolvedValueOnce(mockResponse);
-
-      await providerWithAuth.executeQuery(request);
-
-      // Verify auth provider token was used, no fallback needed
-      expect(mockAuthProvider.getAccessToken).toHaveBeenCalledWith(['https://help.kusto.windows.net/.default']);
-      expect(mockKustoConnectionStringBuilder.withAccessToken).toHaveBeenCalledWith(
-        'https://help.kusto.windows.net',
-        'mock-auth-token'
-      );
-      expect(mockKustoConnectionStringBuilder.withTokenCredential).not.toHaveBeenCalled();
-      expect(mockKustoConnectionStringBuilder.withAzLoginIdentity).not.toHaveBeenCalled();
-      expect(mockKustoConnectionStringBuilder.withSystemManagedIdentity).not.toHaveBeenCalled();
-    });
-
-    it('should handle non-authentication errors without fallback', async () => {
-      // Mock successful connection but non-auth error during query execution
-      mockKustoConnectionStringBuilder.withTokenCredential.mockReturnValueOnce('mock-connection-string-with-credential');
-
-      const request: QueryExecutionRequest = {
-        query: 'invalid query syntax'
-      };
-
-      // Mock a non-authentication error (e.g., query syntax error)
-      const syntaxError = new Error('Query syntax error');
-      mockExecute.mockRejectedValueOnce(syntaxError);
+      mockExecute.mockRejectedValueOnce(authError);
 
-      await expect(provider.executeQuery(request)).rejects.toThrow('Azure Data Explorer query execution failed');
+      await expect(provider.executeQuery({ query: '.show version' })).rejects.toThrow('Azure Data Explorer query execution failed');
 
-      // Verify no fallback was attempted for non-auth errors
+      // Falling back between credentials is the auth provider's credential chain's job
+      expect(mockExecute).toHaveBeenCalledTimes(1);
       expect(mockKustoConnectionStringBuilder.withTokenCredential).toHaveBeenCalledTimes(1);
-      expect(mockKustoConnectionStringBuilder.withAzLoginIdentity).not.toHaveBeenCalled();
-      expect(mockKustoConnectionStringBuilder.withSystemManagedIdentity).not.toHaveBeenCalled();
-      expect(mockExecute).toHaveBeenCalledTimes(1); // Only one execution attempt
     });
   });
-});
\ No newline at end of file
+});
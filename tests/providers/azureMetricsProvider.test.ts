@@ -0,0 +1,252 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { AzureMetricsProvider } from '../../src/providers/datasource/AzureMetricsProvider';
+import { DataSourceConfig } from '../../src/core/types/ProviderTypes';
+
+const RESOURCE_ID = '/subscriptions/sub-id/resourceGroups/rg/providers/Microsoft.Compute/virtualMachines/vm1';
+
+interface StubRequest {
+  path: string;
+  query: URLSearchParams;
+  authorization?: string;
+}
+
+describe('AzureMetricsProvider', () => {
+  let server: http.Server;
+  let endpoint: string;
+  let requests: StubRequest[];
+  let respond: (request: StubRequest) => { status: number; body: unknown };
+
+  const mockAuthProvider = {
+    getAccessToken: jest.fn().mockResolvedValue('mock-auth-token'),
+    validateCredentials: jest.fn().mockResolvedValue(true),
+    getOpenAIToken: jest.fn().mockResolvedValue('mock-openai-token')
+  };
+
+  const createProvider = (overrides: Partial<DataSourceConfig> = {}) =>
+    new AzureMetricsProvider({ type: 'azure-metrics', resourceId: RESOURCE_ID, endpoint, ...overrides }, mockAuthProvider);
+
+  beforeAll(async () => {
+    // Local stand-in for the Azure Resource Manager endpoint
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const request = { path: url.pathname, query: url.searchParams, authorization: req.headers.authorization };
+      requests.push(request);
+      const { status, body } = respond(request);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    requests = [];
+    respond = () => ({ status: 404, body: { error: { code: 'NotFound', message: 'Not found' } } });
+  });
+
+  describe('constructor', () => {
+    it('should throw error with invalid provider type', () => {
+      expect(() => new AzureMetricsProvider({ type: 'log-analytics', resourceId: RESOURCE_ID })).toThrow(
+        'Invalid provider type for AzureMetricsProvider'
+      );
+    });
+
+    it('should throw error without resource information', () => {
+      expect(() => new AzureMetricsProvider({ type: 'azure-metrics', subscriptionId: 'sub-id' })).toThrow(
+        'Azure Metrics provider requires resourceId'
+      );
+    });
+
+    it('should build the resource ID from its parts', async () => {
+      respond = () => ({ status: 200, body: { value: [] } });
+      const provider = createProvider({
+        resourceId: undefined,
+        subscriptionId: 'sub-id',
+        resourceGroup: 'rg',
+        resourceType: 'Microsoft.Compute/virtualMachines',
+        resourceName: 'vm1'
+      });
+
+      const result = await provider.getSchema();
+
+      expect(result.schema.resourceId).toBe(RESOURCE_ID);
+      expect(requests[0].path).toBe(`${RESOURCE_ID}/providers/Microsoft.Insights/metricDefinitions`);
+    });
+  });
+
+  describe('getSchema', () => {
+    it('should list metric definitions', async () => {
+      respond = () => ({
+        status: 200,
+        body: {
+          value: [{
+            name: { value: 'Percentage CPU', localizedValue: 'Percentage CPU' },
+            unit: 'Percent',
+            primaryAggregationType: 'Average',
+            supportedAggregationTypes: ['Average', 'Minimum', 'Maximum'],
+            metricAvailabilities: [{ timeGrain: 'PT1M', retention: 'P93D' }, { timeGrain: 'PT1H', retention: 'P93D' }],
+            dimensions: [{ value: 'VMName', localizedValue: 'VM Name' }]
+          }]
+        }
+      });
+      const provider = createProvider();
+
+      const result = await provider.getSchema();
+
+      expect(result.error).toBeUndefined();
+      expect(result.schema.metrics).toEqual([{
+        name: 'Percentage CPU',
+        displayName: 'Percentage CPU',
+        unit: 'Percent',
+        primaryAggregation: 'Average',
+        aggregations: ['Average', 'Minimum', 'Maximum'],
+        timeGrains: ['PT1M', 'PT1H'],
+        dimensions: ['VMName']
+      }]);
+      expect(requests[0].query.get('api-version')).toBe('2018-01-01');
+      expect(requests[0].authorization).toBe('Bearer mock-auth-token');
+      expect(mockAuthProvider.getAccessToken).toHaveBeenCalledWith(['https://management.azure.com/.default']);
+    });
+
+    it('should return error with the API message when listing fails', async () => {
+      respond = () => ({ status: 403, body: { error: { code: 'AuthorizationFailed', message: 'The client does not have authorization' } } });
+      const provider = createProvider();
+
+      const result = await provider.getSchema();
+
+      expect(result.schema).toBeNull();
+      expect(result.error).toContain('The client does not have authorization');
+    });
+  });
+
+  describe('executeQuery', () => {
+    it('should send the metric query and map time series to a table', async () => {
+      respond = () => ({
+        status: 200,
+        body: {
+          value: [{
+            name: { value: 'Percentage CPU' },
+            unit: 'Percent',
+            timeseries: [
+              {
+                metadatavalues: [{ name: { value: 'vmname' }, value: 'vm1' }],
+                data: [
+                  { timeStamp: '2024-01-01T00:00:00Z', average: 12.5, maximum: 40 },
+                  { timeStamp: '2024-01-01T00:05:00Z', average: 15 }
+                ]
+              },
+              {
+                metadatavalues: [{ name: { value: 'vmname' }, value: 'vm2' }],
+                data: [{ timeStamp: '2024-01-01T00:00:00Z', average: 3, maximum: 8 }]
+              }
+            ]
+          }]
+        }
+      });
+      const provider = createProvider();
+
+      const result = await provider.executeQuery({
+        query: JSON.stringify({
+          metricNames: ['Percentage CPU'],
+          aggregations: ['average', 'Maximum'],
+          interval: 'PT5M',
+          timespan: 'PT1H',
+          filters: [{ dimension: 'Region', values: ['westus', 'eastus'] }],
+          splitBy: ['VMName'],
+          top: 5,
+          orderBy: 'Average desc'
+        })
+      });
+
+      const query = requests[0].query;
+      expect(requests[0].path).toBe(`${RESOURCE_ID}/providers/Microsoft.Insights/metrics`);
+      expect(query.get('metricnames')).toBe('Percentage CPU');
+      expect(query.get('aggregation')).toBe('Average,Maximum');
+      expect(query.get('interval')).toBe('PT5M');
+      expect(query.get('timespan')).toBe('PT1H');
+      expect(query.get('$filter')).toBe("(Region eq 'westus' or Region eq 'eastus') and VMName eq '*'");
+      expect(query.get('top')).toBe('5');
+      expect(query.get('orderby')).toBe('Average desc');
+
+      expect(result.tables).toHaveLength(1);
+      expect(result.tables[0].columns).toEqual([
+        { name: 'timestamp', type: 'datetime' },
+        { name: 'metric', type: 'string' },
+        { name: 'unit', type: 'string' },
+        { name: 'VMName', type: 'string' },
+        { name: 'average', type: 'real' },
+        { name: 'maximum', type: 'real' }
+      ]);
+      expect(result.tables[0].rows).toEqual([
+        ['2024-01-01T00:00:00Z', 'Percentage CPU', 'Percent', 'vm1', 12.5, 40],
+        ['2024-01-01T00:05:00Z', 'Percentage CPU', 'Percent', 'vm1', 15, null],
+        ['2024-01-01T00:00:00Z', 'Percentage CPU', 'Percent', 'vm2', 3, 8]
+      ]);
+    });
+
+    it('should use the request timespan when the query has none', async () => {
+      respond = () => ({ status: 200, body: { value: [] } });
+      const provider = createProvider();
+
+      const result = await provider.executeQuery({ query: '{"metricNames": ["Percentage CPU"]}', timespan: 'PT6H' });
+
+      expect(requests[0].query.get('timespan')).toBe('PT6H');
+      expect(requests[0].query.has('$filter')).toBe(false);
+      expect(result.tables[0].rows).toEqual([]);
+    });
+
+    it('should reject queries that are not metric query JSON', async () => {
+      const provider = createProvider();
+
+      await expect(provider.executeQuery({ query: 'requests | take 10' })).rejects.toThrow(
+        'Azure Metrics query is invalid: Metric query must be JSON'
+      );
+      expect(requests).toHaveLength(0);
+    });
+
+    it('should include the API error message when the query fails', async () => {
+      respond = () => ({ status: 400, body: { code: 'BadRequest', message: 'Failed to find metric configuration for provider' } });
+      const provider = createProvider();
+
+      await expect(provider.executeQuery({ query: '{"metricNames": ["Unknown"]}' })).rejects.toThrow(
+        /Azure Metrics query execution failed: .*Failed to find metric configuration for provider/
+      );
+    });
+  });
+
+  describe('validateConnection', () => {
+    it('should report invalid connection when metric definitions cannot be listed', async () => {
+      const provider = createProvider();
+
+      const result = await provider.validateConnection();
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toContain('Connection validation failed');
+    });
+  });
+
+  describe('getMetadata', () => {
+    it('should return resource metadata', async () => {
+      respond = () => ({ status: 200, body: { name: 'vm1', type: 'Microsoft.Compute/virtualMachines', location: 'westus' } });
+      const provider = createProvider();
+
+      const result = await provider.getMetadata();
+
+      expect(requests[0].path).toBe(RESOURCE_ID);
+      expect(requests[0].query.get('api-version')).toBe('2021-04-01');
+      expect(result.metadata).toEqual({
+        resourceId: RESOURCE_ID,
+        resourceName: 'vm1',
+        resourceType: 'Microsoft.Compute/virtualMachines',
+        location: 'westus',
+        kind: undefined
+      });
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { CompositeDataSourceProvider } from '../../src/providers/datasource/CompositeDataSourceProvider';
+import { IDataSourceProvider } from '../../src/core/interfaces';
+import { QueryResult } from '../../src/types';
+
+function createResult(value: string): QueryResult {
+  return {
+    tables: [{
+      name: 'PrimaryResult',
+      columns: [{ name: 'value', type: 'string' }],
+      rows: [[value]]
+    }]
+  };
+}
+
+function createMockDataSource(value: string): jest.Mocked<IDataSourceProvider> {
+  return {
+    executeQuery: jest.fn().mockResolvedValue(createResult(value)),
+    validateConnection: jest.fn().mockResolvedValue({ isValid: true }),
+    getSchema: jest.fn().mockResolvedValue({ tables: [value], schema: { source: value } }),
+    getMetadata: jest.fn().mockResolvedValue({ metadata: { source: value } })
+  };
+}
+
+describe('CompositeDataSourceProvider', () => {
+  let appInsights: jest.Mocked<IDataSourceProvider>;
+  let logAnalytics: jest.Mocked<IDataSourceProvider>;
+
+  beforeEach(() => {
+    appInsights = createMockDataSource('from-app-insights');
+    logAnalytics = createMockDataSource('from-log-analytics');
+  });
+
+  const createComposite = (mode: 'failover' | 'fanout') => new CompositeDataSourceProvider([
+    { id: 'application-insights', provider: appInsights },
+    { id: 'log-analytics', provider: logAnalytics }
+  ], { mode, cooldownMs: 1000 });
+
+  it('should require at least one data source', () => {
+    expect(() => new CompositeDataSourceProvider([])).toThrow('CompositeDataSourceProvider requires at least one data source');
+  });
+
+  describe('failover mode', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should use the first data source when it succeeds', async () => {
+      const composite = createComposite('failover');
+
+      const result = await composite.executeQuery({ query: 'requests | take 1' });
+
+      expect(result).toEqual(createResult('from-app-insights'));
+      expect(logAnalytics.executeQuery).not.toHaveBeenCalled();
+      expect(composite.getLastProviderId()).toBe('application-insights');
+    });
+
+    it('should fail over and skip the failed source during its cooldown', async () => {
+      jest.useFakeTimers();
+      const composite = createComposite('failover');
+      appInsights.executeQuery.mockRejectedValueOnce(new Error('503 Service Unavailable'));
+
+      const first = await composite.executeQuery({ query: 'requests | take 1' });
+      const second = await composite.executeQuery({ query: 'requests | take 1' });
+
+      expect(first).toEqual(createResult('from-log-analytics'));
+      expect(second).toEqual(createResult('from-log-analytics'));
+      expect(appInsights.executeQuery).toHaveBeenCalledTimes(1);
+      expect(composite.getProviderHealth()[0]).toMatchObject({ healthy: false, consecutiveFailures: 1, lastError: '503 Service Unavailable' });
+
+      jest.advanceTimersByTime(1001);
+      const third = await composite.executeQuery({ query: 'requests | take 1' });
+
+      expect(third).toEqual(createResult('from-app-insights'));
+    });
+
+    it('should throw when every data source fails', async () => {
+      const composite = createComposite('failover');
+      appInsights.executeQuery.mockRejectedValueOnce(new Error('down'));
+      logAnalytics.executeQuery.mockRejectedValueOnce(new Error('forbidden'));
+
+      await expect(composite.executeQuery({ query: 'requests' }))
+        .rejects.toThrow('All data sources failed: application-insights: down; log-analytics: forbidden');
+    });
+
+    it('should validate when any data source is reachable', async () => {
+      const composite = createComposite('failover');
+      appInsights.validateConnection.mockResolvedValueOnce({ isValid: false, error: 'unauthorized' });
+
+      await expect(composite.validateConnection()).resolves.toEqual({ isValid: true });
+    });
+
+    it('should return the schema of the first source that provides one', async () => {
+      const composite = createComposite('failover');
+      appInsights.getSchema.mockResolvedValueOnce({ schema: null, tables: [], error: 'Schema retrieval failed' });
+
+      const schema = await composite.getSchema();
+
+      expect(schema.schema).toEqual({ source: 'from-log-analytics' });
+    });
+  });
+
+  describe('fan-out mode', () => {
+    it('should return the tables of every source prefixed with the source', async () => {
+      const composite = createComposite('fanout');
+
+      const result = await composite.executeQuery({ query: 'requests | count', timespan: 'PT1H' });
+
+      expect(appInsights.executeQuery).toHaveBeenCalledWith({ query: 'requests | count', timespan: 'PT1H' });
+      expect(logAnalytics.executeQuery).toHaveBeenCalledWith({ query: 'requests | count', timespan: 'PT1H' });
+      expect(result).toEqual({
+        tables: [
+          { name: 'application-insights/PrimaryResult', columns: [{ name: 'value', type: 'string' }], rows: [['from-app-insights']] },
+          { name: 'log-analytics/PrimaryResult', columns: [{ name: 'value', type: 'string' }], rows: [['from-log-analytics']] }
+        ]
+      });
+    });
+
+    it('should keep every table a source returns', async () => {
+      const composite = createComposite('fanout');
+      appInsights.executeQuery.mockResolvedValueOnce({
+        tables: [...createResult('first').tables, { name: 'Statistics', columns: [], rows: [] }]
+      });
+
+      const result = await composite.executeQuery({ query: 'requests | count' });
+
+      expect(result.tables.map(table => table.name)).toEqual([
+        'application-insights/PrimaryResult',
+        'application-insights/Statistics',
+        'log-analytics/PrimaryResult'
+      ]);
+    });
+
+    it('should report the sources that fail in the partial result', async () => {
+      const composite = createComposite('fanout');
+      logAnalytics.executeQuery.mockRejectedValueOnce(new Error('timeout'));
+
+      const result = await composite.executeQuery({ query: 'requests | count' });
+
+      expect(result.tables.map(table => table.name)).toEqual(['application-insights/PrimaryResult']);
+      expect(result.errors).toEqual([{ source: 'log-analytics', message: 'timeout' }]);
+      expect(composite.getProviderHealth()[1]).toMatchObject({ id: 'log-analytics', healthy: false, lastError: 'timeout' });
+    });
+
+    it('should throw when every source fails', async () => {
+      const composite = createComposite('fanout');
+      appInsights.executeQuery.mockRejectedValueOnce(new Error('down'));
+      logAnalytics.executeQuery.mockRejectedValueOnce(new Error('down'));
+
+      await expect(composite.executeQuery({ query: 'requests' })).rejects.toThrow('All data sources failed');
+    });
+
+    it('should require every source to be reachable', async () => {
+      const composite = createComposite('fanout');
+      logAnalytics.validateConnection.mockResolvedValueOnce({ isValid: false, error: 'unauthorized' });
+
+      await expect(composite.validateConnection()).resolves.toEqual({
+        isValid: false,
+        error: 'log-analytics: unauthorized'
+      });
+    });
+
+    it('should describe the composite layout in metadata', async () => {
+      const composite = createComposite('fanout');
+
+      const metadata = await composite.getMetadata();
+
+      expect(metadata.properties).toEqual({ compositeMode: 'fanout', sources: ['application-insights', 'log-analytics'] });
+      expect(metadata.metadata).toEqual({ source: 'from-app-insights' });
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { AzureCliCredential, DeviceCodeCredential, ManagedIdentityCredential } from '@azure/identity';
+import { CredentialChain, DEFAULT_CREDENTIAL_CHAIN, resolveTokenCredential } from '../../src/providers/auth/credentialChain';
+import { AzureManagedIdentityProvider } from '../../src/providers/auth/AzureManagedIdentityProvider';
+
+const mockTokens: Record<string, jest.Mock> = {
+  environment: jest.fn(),
+  'workload-identity': jest.fn(),
+  'managed-identity': jest.fn(),
+  'azure-cli': jest.fn(),
+  'azure-developer-cli': jest.fn(),
+  'azure-powershell': jest.fn(),
+  'device-code': jest.fn(),
+  'interactive-browser': jest.fn()
+};
+
+jest.mock('@azure/identity', () => {
+  const credential = (method: string) => jest.fn().mockImplementation(() => ({
+    getToken: (...args: unknown[]) => mockTokens[method](...args)
+  }));
+  return {
+    EnvironmentCredential: credential('environment'),
+    WorkloadIdentityCredential: credential('workload-identity'),
+    ManagedIdentityCredential: credential('managed-identity'),
+    AzureCliCredential: credential('azure-cli'),
+    AzureDeveloperCliCredential: credential('azure-developer-cli'),
+    AzurePowerShellCredential: credential('azure-powershell'),
+    DeviceCodeCredential: credential('device-code'),
+    InteractiveBrowserCredential: credential('interactive-browser'),
+    DefaultAzureCredential: credential('environment')
+  };
+});
+
+const token = (value: string) => ({ token: value, expiresOnTimestamp: Date.now() + 3600000 });
+
+describe('CredentialChain', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.values(mockTokens).forEach(mock => {
+      mock.mockReset();
+      mock.mockRejectedValue(new Error('Credential unavailable'));
+    });
+  });
+
+  it('should try credentials in the configured order', async () => {
+    mockTokens['device-code'].mockResolvedValue(token('device-token'));
+    const chain = new CredentialChain(['azure-cli', 'device-code']);
+
+    const result = await chain.getToken(['https://management.azure.com/.default']);
+
+    expect(result.token).toBe('device-token');
+    expect(mockTokens['azure-cli']).toHaveBeenCalledWith(['https://management.azure.com/.default'], undefined);
+    expect(chain.getReport()).toEqual({
+      method: 'device-code',
+      attempts: [
+        { method: 'azure-cli', error: 'Credential unavailable' },
+        { method: 'device-code' }
+      ]
+    });
+  });
+
+  it('should only create credentials that are tried', async () => {
+    mockTokens['azure-cli'].mockResolvedValue(token('cli-token'));
+    const chain = new CredentialChain(['azure-cli', 'device-code'], { tenantId: 'test-tenant-id' });
+
+    await chain.getToken('https://management.azure.com/.default');
+
+    expect(AzureCliCredential).toHaveBeenCalledWith({ tenantId: 'test-tenant-id' });
+    expect(DeviceCodeCredential).not.toHaveBeenCalled();
+  });
+
+  it('should try the credential that succeeded first on later requests', async () => {
+    mockTokens['managed-identity'].mockResolvedValue(token('mi-token'));
+    const chain = new CredentialChain(['azure-cli', 'managed-identity']);
+
+    await chain.getToken('https://management.azure.com/.default');
+    await chain.getToken('https://api.applicationinsights.io/.default');
+
+    expect(mockTokens['azure-cli']).toHaveBeenCalledTimes(1);
+    expect(mockTokens['managed-identity']).toHaveBeenCalledTimes(2);
+    expect(chain.getReport().attempts).toEqual([{ method: 'managed-identity' }]);
+  });
+
+  it('should report every failure when no credential succeeds', async () => {
+    const chain = new CredentialChain(['azure-cli', 'managed-identity']);
+
+    await expect(chain.getToken('https://management.azure.com/.default')).rejects.toThrow(
+      'No credential in the chain could authenticate (azure-cli: Credential unavailable; managed-identity: Credential unavailable)'
+    );
+    expect(chain.getReport().method).toBeUndefined();
+  });
+
+  it('should pass the client ID to managed identity', async () => {
+    mockTokens['managed-identity'].mockResolvedValue(token('mi-token'));
+    const chain = new CredentialChain(['managed-identity'], { clientId: 'user-assigned-id' });
+
+    await chain.getToken('https://management.azure.com/.default');
+
+    expect(ManagedIdentityCredential).toHaveBeenCalledWith({ clientId: 'user-assigned-id' });
+  });
+
+  it('should reject empty chains and unknown credentials', () => {
+    expect(() => new CredentialChain([])).toThrow('Credential chain must list at least one credential');
+    expect(() => new CredentialChain(['azure-cli', 'visual-studio-code' as any])).toThrow(
+      'Unknown credential method(s): visual-studio-code'
+    );
+  });
+
+  describe('resolveTokenCredential', () => {
+    it('should get tokens from the auth provider', async () => {
+      const authProvider = {
+        getAccessToken: jest.fn().mockResolvedValue('provider-token'),
+        validateCredentials: jest.fn(),
+        getOpenAIToken: jest.fn()
+      };
+
+      const credential = resolveTokenCredential(authProvider);
+
+      await expect(credential.getToken('https://api.loganalytics.io/.default')).resolves.toMatchObject({ token: 'provider-token' });
+      expect(authProvider.getAccessToken).toHaveBeenCalledWith(['https://api.loganalytics.io/.default']);
+    });
+
+    it('should report the expiry of the token instead of assuming one', async () => {
+      const exp = Math.floor(Date.now() / 1000) + 600;
+      const jwt = ['header', Buffer.from(JSON.stringify({ exp })).toString('base64url'), 'signature'].join('.');
+      const authProvider = { getAccessToken: jest.fn().mockResolvedValue(jwt), validateCredentials: jest.fn(), getOpenAIToken: jest.fn() };
+      const cachedProvider = {
+        ...authProvider,
+        getAccessTokenWithExpiry: jest.fn().mockResolvedValue({ token: 'cached-token', expiresOnTimestamp: 1234 })
+      };
+
+      await expect(resolveTokenCredential(authProvider).getToken('https://api.loganalytics.io/.default'))
+        .resolves.toEqual({ token: jwt, expiresOnTimestamp: exp * 1000 });
+      await expect(resolveTokenCredential(cachedProvider).getToken(['https://api.loganalytics.io/.default']))
+        .resolves.toEqual({ token: 'cached-token', expiresOnTimestamp: 1234 });
+    });
+  });
+});
+
+describe('AzureManagedIdentityProvider', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.values(mockTokens).forEach(mock => {
+      mock.mockReset();
+      mock.mockRejectedValue(new Error('Credential unavailable'));
+    });
+  });
+
+  it('should use the configured credential chain', async () => {
+    mockTokens['device-code'].mockResolvedValue(token('device-token'));
+    const provider = new AzureManagedIdentityProvider({
+      type: 'azure-managed-identity',
+      credentials: ['azure-cli', 'device-code']
+    });
+
+    await expect(provider.getAccessToken(['https://api.applicationinsights.io/.default'])).resolves.toBe('device-token');
+    expect(provider.getCredentialReport().method).toBe('device-code');
+    expect(mockTokens['managed-identity']).not.toHaveBeenCalled();
+  });
+
+  it('should use the default chain without configured credentials', async () => {
+    mockTokens['azure-developer-cli'].mockResolvedValue(token('azd-token'));
+    const provider = new AzureManagedIdentityProvider({ type: 'azure-managed-identity' });
+
+    await expect(provider.validateCredentials()).resolves.toBe(true);
+    expect(provider.getCredentialReport().attempts.map(attempt => attempt.method)).toEqual(DEFAULT_CREDENTIAL_CHAIN);
+  });
+
+  it('should include the chain errors when authentication fails', async () => {
+    const provider = new AzureManagedIdentityProvider({ type: 'azure-managed-identity', credentials: ['azure-cli'] });
+
+    await expect(provider.getOpenAIToken()).rejects.toThrow(
+      'Failed to authenticate with Azure: No credential in the chain could authenticate (azure-cli: Credential unavailable)'
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import { FailoverAIProvider } from '../../src/providers/ai/FailoverAIProvider';
+import { IAIProvider } from '../../src/core/interfaces';
+
+function createMockProvider(kql: string): jest.Mocked<IAIProvider> {
+  return {
+    initialize: jest.fn().mockResolvedValue(undefined),
+    generateQuery: jest.fn().mockResolvedValue({ generatedKQL: kql, confidence: 0.8, reasoning: 'test' }),
+    explainQuery: jest.fn().mockResolvedValue(`explanation from ${kql}`),
+    regenerateQuery: jest.fn().mockResolvedValue({ generatedKQL: `${kql} | take 5`, confidence: 0.7 }),
+    generateResponse: jest.fn().mockResolvedValue('response'),
+    analyzeQueryResult: jest.fn().mockResolvedValue({ recommendations: [] })
+  };
+}
+
+describe('FailoverAIProvider', () => {
+  let primary: jest.Mocked<IAIProvider>;
+  let secondary: jest.Mocked<IAIProvider>;
+  let failover: FailoverAIProvider;
+
+  beforeEach(() => {
+    primary = createMockProvider('requests | count');
+    secondary = createMockProvider('traces | count');
+    failover = new FailoverAIProvider([
+      { id: 'azure-openai', provider: primary },
+      { id: 'ollama', provider: secondary }
+    ], { cooldownMs: 1000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should require at least one provider', () => {
+    expect(() => new FailoverAIProvider([])).toThrow('FailoverAIProvider requires at least one provider');
+  });
+
+  it('should use the first provider and report it', async () => {
+    const result = await failover.generateQuery({ userInput: 'count requests' });
+
+    expect(result).toEqual({
+      generatedKQL: 'requests | count',
+      confidence: 0.8,
+      reasoning: 'test',
+      provider: 'azure-openai'
+    });
+    expect(secondary.generateQuery).not.toHaveBeenCalled();
+    expect(failover.getLastProviderId()).toBe('azure-openai');
+  });
+
+  it('should fall back to the next provider when the first fails', async () => {
+    primary.generateQuery.mockRejectedValueOnce(new Error('429 Too Many Requests'));
+
+    const result = await failover.generateQuery({ userInput: 'count requests' });
+
+    expect(result.generatedKQL).toBe('traces | count');
+    expect(result.provider).toBe('ollama');
+
+    const [primaryHealth, secondaryHealth] = failover.getProviderHealth();
+    expect(primaryHealth).toMatchObject({ id: 'azure-openai', healthy: false, consecutiveFailures: 1, lastError: '429 Too Many Requests' });
+    expect(secondaryHealth).toMatchObject({ id: 'ollama', healthy: true, consecutiveFailures: 0 });
+  });
+
+  it('should skip a failed provider during its cooldown and retry it afterwards', async () => {
+    jest.useFakeTimers();
+    primary.explainQuery.mockRejectedValueOnce(new Error('connection refused'));
+
+    await failover.explainQuery({ query: 'requests' });
+    await failover.explainQuery({ query: 'requests' });
+
+    expect(primary.explainQuery).toHaveBeenCalledTimes(1);
+    expect(secondary.explainQuery).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(1001);
+    const explanation = await failover.explainQuery({ query: 'requests' });
+
+    expect(explanation).toBe('explanation from requests | count');
+    expect(primary.explainQuery).toHaveBeenCalledTimes(2);
+    expect(failover.getProviderHealth()[0].healthy).toBe(true);
+  });
+
+  it('should still try cooling-down providers when no healthy provider is left', async () => {
+    primary.generateResponse.mockRejectedValueOnce(new Error('down'));
+    secondary.generateResponse.mockRejectedValueOnce(new Error('down'));
+    await expect(failover.generateResponse('prompt')).rejects.toThrow('All AI providers failed: azure-openai: down; ollama: down');
+
+    const response = await failover.generateResponse('prompt');
+
+    expect(response).toBe('response');
+    expect(failover.getLastProviderId()).toBe('azure-openai');
+  });
+
+  it('should tag regenerated queries with the answering provider', async () => {
+    primary.regenerateQuery.mockRejectedValueOnce(new Error('timeout'));
+
+    const result = await failover.regenerateQuery({
+      userInput: 'count requests',
+      context: { previousQuery: 'requests', attemptNumber: 2 }
+    });
+
+    expect(result.provider).toBe('ollama');
+  });
+
+  it('should fall back when initialization fails', async () => {
+    primary.initialize.mockRejectedValueOnce(new Error('Invalid credentials'));
+
+    await expect(failover.initialize()).resolves.toBeUndefined();
+    expect(secondary.initialize).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalFilesProvider } from '../../src/providers/datasource/LocalFilesProvider';
+
+jest.mock('../../src/utils/logger');
+
+describe('LocalFilesProvider', () => {
+  let directory: string;
+
+  const createProvider = () => new LocalFilesProvider({ type: 'local-files', directory });
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'aidx-local-files-'));
+    fs.writeFileSync(path.join(directory, 'requests.csv'), [
+      'timestamp,name,duration,success,resultCode:string,customDimensions',
+      '2024-01-10T10:05:00Z,GET /,120,true,200,"{""tenant"":""a""}"',
+      '2024-01-10T10:40:00Z,"GET /api/orders, v2",850,false,500,"{""tenant"":""b""}"',
+      '2024-01-10T11:15:00Z,GET /api/orders,430.5,true,200,',
+      '2024-01-08T09:00:00Z,GET /,90,true,200,"{""tenant"":""a""}"'
+    ].join('\r\n'));
+    fs.writeFileSync(path.join(directory, 'exceptions.ndjson'), [
+      JSON.stringify({ timestamp: '2024-01-10T10:40:01Z', type: 'TimeoutException', resultCode: '500' }),
+      ''
+    ].join('\n'));
+    fs.writeFileSync(path.join(directory, 'saved.json'), JSON.stringify({
+      tables: [{
+        name: 'PrimaryResult',
+        columns: [{ name: 'name', type: 'string' }, { name: 'count_', type: 'long' }],
+        rows: [['GET /', 2]]
+      }]
+    }));
+    fs.writeFileSync(path.join(directory, 'notes.txt'), 'not a table');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should require a directory', () => {
+    expect(() => new LocalFilesProvider({ type: 'local-files' })).toThrow('Local files provider requires directory');
+  });
+
+  it('should infer the schema of every table file', async () => {
+    const schema = await createProvider().getSchema();
+
+    expect(schema.tables).toEqual(['exceptions', 'requests', 'saved']);
+    expect(schema.schema.tables[1].columns).toEqual([
+      { name: 'timestamp', type: 'datetime' },
+      { name: 'name', type: 'string' },
+      { name: 'duration', type: 'real' },
+      { name: 'success', type: 'bool' },
+      { name: 'resultCode', type: 'string' },
+      { name: 'customDimensions', type: 'dynamic' }
+    ]);
+  });
+
+  it('should run queries across files', async () => {
+    const result = await createProvider().executeQuery({
+      query: `requests
+        | where success == false
+        | join kind=inner (exceptions) on resultCode
+        | project name, type, tenant = tostring(customDimensions.tenant)`
+    });
+
+    expect(result.tables[0]).toEqual({
+      name: 'PrimaryResult',
+      columns: [{ name: 'name', type: 'string' }, { name: 'type', type: 'string' }, { name: 'tenant', type: 'string' }],
+      rows: [['GET /api/orders, v2', 'TimeoutException', 'b']]
+    });
+  });
+
+  it('should read saved query results as tables', async () => {
+    const result = await createProvider().executeQuery({ query: 'saved | project count_' });
+
+    expect(result.tables[0].rows).toEqual([[2]]);
+  });
+
+  it('should keep only rows within the timespan', async () => {
+    const result = await createProvider().executeQuery({
+      query: 'requests | count',
+      timespan: '2024-01-10T00:00:00.000Z/2024-01-11T00:00:00.000Z'
+    });
+
+    expect(result.tables[0].rows).toEqual([[3]]);
+  });
+
+  it('should fail on unsupported operators', async () => {
+    await expect(createProvider().executeQuery({ query: 'requests | make-series count() on timestamp step 1h' }))
+      .rejects.toThrow("Local files query execution failed: The 'make-series' operator is not supported by the local KQL interpreter");
+  });
+
+  it('should fail validation when the directory holds no table files', async () => {
+    const empty = fs.mkdtempSync(path.join(os.tmpdir(), 'aidx-local-files-'));
+    try {
+      const validation = await new LocalFilesProvider({ type: 'local-files', directory: empty }).validateConnection();
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.error).toContain('No .csv, .json or .ndjson files found');
+    } finally {
+      fs.rmSync(empty, { recursive: true, force: true });
+    }
+  });
+});
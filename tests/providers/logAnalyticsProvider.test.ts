@@ -136,14 +136,16 @@ describe('LogAnalyticsProvider', () => {
 
       // Verify workspace metadata was fetched
       expect(mockAxiosInstance.get).toHaveBeenCalledWith(
-        '/subscriptions/test-subscription/resourceGroups/test-rg/providers/Microsoft.OperationalInsights/workspaces/test-workspace?api-version=2022-10-01'
+        '/subscriptions/test-subscription/resourceGroups/test-rg/providers/Microsoft.OperationalInsights/workspaces/test-workspace?api-version=2022-10-01',
+        { signal: undefined }
       );
 
       // Verify LogsQueryClient was called correctly
       expect(mockQueryWorkspace).toHaveBeenCalledWith(
         'test-workspace-id',
         'Heartbeat | summarize count() by bin(TimeGenerated, 1h)',
-        { duration: 'PT24H' }
+        { duration: 'PT24H' },
+        { abortSignal: undefined }
       );
     });
 
@@ -170,7 +172,26 @@ describe('LogAnalyticsProvider', () => {
       expect(mockQueryWorkspace).toHaveBeenCalledWith(
         'test-workspace-id',
         'Heartbeat | count',
-        { duration: 'PT24H' }
+        { duration: 'PT24H' },
+        { abortSignal: undefined }
+      );
+    });
+
+    it('should pass interval timespans and the timeout to the service', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: { properties: { customerId: 'test-workspace-id' } } });
+      mockQueryWorkspace.mockResolvedValue({ status: 'Success', tables: [] });
+
+      await logAnalyticsProvider.executeQuery({
+        query: 'Heartbeat | count',
+        timespan: '2024-01-01T00:00:00Z/2024-01-01T06:00:00Z',
+        timeout: 90000
+      });
+
+      expect(mockQueryWorkspace).toHaveBeenCalledWith(
+        'test-workspace-id',
+        'Heartbeat | count',
+        { startTime: new Date('2024-01-01T00:00:00Z'), endTime: new Date('2024-01-01T06:00:00Z') },
+        { abortSignal: undefined, serverTimeoutInSeconds: 90 }
       );
     });
 
@@ -263,7 +284,8 @@ describe('LogAnalyticsProvider', () => {
       expect(mockQueryWorkspace).toHaveBeenCalledWith(
         'test-workspace-id',
         'print "connection_test"',
-        { duration: 'PT1H' }
+        { duration: 'PT1H' },
+        { abortSignal: undefined }
       );
     });
 
@@ -318,7 +340,8 @@ describe('LogAnalyticsProvider', () => {
       expect(mockQueryWorkspace).toHaveBeenCalledWith(
         'test-workspace-id',
         expect.stringContaining('getschema'),
-        { duration: 'PT1H' }
+        { duration: 'PT1H' },
+        { abortSignal: undefined }
       );
     });
 
@@ -0,0 +1,202 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MockAIProvider, MockAIRulesFile } from '../../src/providers/ai/MockAIProvider';
+import { ProviderFactory } from '../../src/infrastructure/di/ProviderFactory';
+import { TemplateService } from '../../src/services/TemplateService';
+import { QueryTemplate } from '../../src/core/interfaces/ITemplateRepository';
+import { ProviderConfigValidator } from '../../src/utils/providerValidation';
+
+jest.mock('../../src/utils/logger');
+
+const template = (id: string, name: string, tags: string[], kqlTemplate: string, defaultValue?: string): QueryTemplate => ({
+  id,
+  name,
+  description: name,
+  category: 'Test',
+  kqlTemplate,
+  parameters: [{ name: 'timespan', type: 'timespan', description: 'Time period', required: true, defaultValue }],
+  metadata: { version: '1.0.0', createdAt: new Date(0), updatedAt: new Date(0), tags }
+});
+
+const TEMPLATES = [
+  template('errors-analysis', 'Errors Analysis', ['exceptions', 'errors'], 'exceptions | where timestamp > ago({{timespan}}) | summarize count() by type', '1h'),
+  template('dependency-analysis', 'Dependency Analysis', ['dependencies', 'external'], 'dependencies | where timestamp > ago({{timespan}})', '6h'),
+  template('custom-dependencies', 'Custom Dependencies', ['dependencies'], 'dependencies | where timestamp > ago({{timespan}})')
+];
+
+const RULES: MockAIRulesFile = {
+  rules: [
+    {
+      pattern: 'slowest (?<count>\\d+) requests',
+      kql: 'requests | top $<count> by duration desc',
+      confidence: 0.8,
+      reasoning: 'Sorts requests by duration',
+      explanation: 'Lists the slowest requests.',
+      analysis: { aiInsights: 'The checkout endpoint is the slowest.', recommendations: ['Cache the cart'] }
+    },
+    {
+      pattern: 'failures by (\\w+)',
+      kql: ['requests | summarize countif(success == false) by $1', 'requests | where success == false | summarize count() by $1'],
+      dataSourceType: 'application-insights'
+    },
+    { pattern: 'failures', kql: 'AppRequests | where Success == false', dataSourceType: 'log-analytics' },
+    { pattern: 'summarize these findings', response: 'Error rates are stable.' }
+  ]
+};
+
+describe('MockAIProvider', () => {
+  let directory: string;
+  let rulesFile: string;
+  let templates: TemplateService;
+
+  const writeRules = (rules: unknown) => fs.writeFileSync(rulesFile, JSON.stringify(rules));
+
+  const createProvider = (file: string | undefined = rulesFile) =>
+    new MockAIProvider({ type: 'mock', ...(file && { rulesFile: file }) }, undefined, templates);
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'aidx-mock-ai-'));
+    rulesFile = path.join(directory, 'rules.json');
+    writeRules(RULES);
+    templates = new TemplateService();
+    jest.spyOn(templates, 'getTemplates').mockResolvedValue(TEMPLATES);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('generateQuery', () => {
+    it('should answer with the first matching rule and insert its groups', async () => {
+      const provider = createProvider();
+
+      await expect(provider.generateQuery({ userInput: 'Show the SLOWEST 5 requests' })).resolves.toEqual({
+        generatedKQL: 'requests | top 5 by duration desc',
+        confidence: 0.8,
+        reasoning: 'Sorts requests by duration'
+      });
+      await expect(provider.generateQuery({ userInput: 'failures by operation_Name', dataSourceType: 'application-insights' })).resolves.toEqual({
+        generatedKQL: 'requests | summarize countif(success == false) by operation_Name',
+        confidence: 0.9,
+        reasoning: "Matched mock rule 'failures by (\\w+)'"
+      });
+    });
+
+    it('should skip rules for other data source types', async () => {
+      const result = await createProvider().generateQuery({ userInput: 'failures by cloud_RoleName', dataSourceType: 'log-analytics' });
+
+      expect(result.generatedKQL).toBe('AppRequests | where Success == false');
+    });
+
+    it('should answer regeneration attempts with the next query of the rule', async () => {
+      const provider = createProvider();
+      const regenerate = (attemptNumber: number) => provider.regenerateQuery({
+        userInput: 'failures by client_City',
+        context: { previousQuery: 'requests', attemptNumber }
+      });
+
+      expect((await regenerate(1)).generatedKQL).toBe('requests | where success == false | summarize count() by client_City');
+      expect((await regenerate(3)).generatedKQL).toBe('requests | where success == false | summarize count() by client_City');
+    });
+
+    it('should fall back to the template sharing the most keywords', async () => {
+      const provider = createProvider();
+
+      await expect(provider.generateQuery({ userInput: 'analysis of external dependencies' })).resolves.toEqual({
+        generatedKQL: 'dependencies | where timestamp > ago(6h)',
+        confidence: 0.5,
+        reasoning: "Matched the 'Dependency Analysis' template"
+      });
+      // Templates whose required parameters have no default cannot answer
+      expect((await provider.generateQuery({ userInput: 'custom dependencies' })).generatedKQL).toBe('dependencies | where timestamp > ago(6h)');
+    });
+
+    it('should use the default answer, or fail, when nothing matches', async () => {
+      await expect(createProvider().generateQuery({ userInput: 'how is the weather?' }))
+        .rejects.toThrow('No mock rule or template matches "how is the weather?"');
+
+      writeRules({ ...RULES, default: { kql: 'requests | take 10' } });
+      await expect(createProvider().generateQuery({ userInput: 'how is the weather?' })).resolves.toEqual({
+        generatedKQL: 'requests | take 10',
+        confidence: 0.9,
+        reasoning: 'No mock rule matches the question, using the default answer'
+      });
+    });
+
+    it('should answer from templates without a rules file', async () => {
+      const result = await createProvider(undefined).generateQuery({ userInput: 'which exceptions happened?' });
+
+      expect(result.generatedKQL).toBe('exceptions | where timestamp > ago(1h) | summarize count() by type');
+    });
+  });
+
+  describe('explanations, responses and analysis', () => {
+    it('should explain and analyze the query of a rule', async () => {
+      const provider = createProvider();
+      const query = 'requests\n| top 5 by duration desc';
+
+      await expect(provider.explainQuery({ query: 'requests | top 5 by duration desc' })).resolves.toBe('Lists the slowest requests.');
+      await expect(provider.analyzeQueryResult({ result: { tables: [] }, originalQuery: query, analysisType: 'full' })).resolves.toEqual({
+        aiInsights: 'The checkout endpoint is the slowest.',
+        recommendations: ['Cache the cart']
+      });
+    });
+
+    it('should describe other queries and their results', async () => {
+      const provider = createProvider();
+      const result = {
+        tables: [{ name: 'PrimaryResult', columns: [{ name: 'type', type: 'string' }, { name: 'count_', type: 'long' }], rows: [['A', 1], ['B', 2]] }]
+      };
+
+      await expect(provider.explainQuery({ query: 'exceptions | where timestamp > ago(1h) | summarize count() by type' }))
+        .resolves.toBe('This query reads exceptions and then applies where, then summarize.');
+      await expect(provider.analyzeQueryResult({ result, originalQuery: 'exceptions | summarize count() by type', analysisType: 'patterns' }))
+        .resolves.toEqual({
+          aiInsights: 'The query returned 2 rows with 2 columns.',
+          recommendations: [],
+          followUpQueries: [],
+          patterns: { trends: [], anomalies: [], correlations: [] }
+        });
+    });
+
+    it('should answer prompts with the response of the matching rule', async () => {
+      const provider = createProvider();
+
+      await expect(provider.generateResponse('Please summarize these findings')).resolves.toBe('Error rates are stable.');
+      await expect(provider.generateResponse('Anything else?')).resolves.toBe('No mock response matches this prompt.');
+    });
+  });
+
+  describe('rules file', () => {
+    it('should reject invalid rules', async () => {
+      writeRules({ rules: [{ pattern: '(unclosed', kql: 'requests' }] });
+      await expect(createProvider().initialize()).rejects.toThrow(`Rule 1 of ${rulesFile} has an invalid pattern`);
+
+      writeRules({ rules: [{ pattern: 'requests', kql: 'requests', confidence: 2 }] });
+      await expect(createProvider().initialize()).rejects.toThrow('has an invalid confidence: 2');
+
+      writeRules({ questions: [] });
+      await expect(createProvider().initialize()).rejects.toThrow('must contain a rules array');
+
+      await expect(createProvider(path.join(directory, 'missing.json')).initialize()).rejects.toThrow('Could not read mock rules file');
+    });
+  });
+
+  describe('configuration', () => {
+    it('should be created by the provider factory', () => {
+      const factory = new ProviderFactory();
+      factory.registerAIProvider('mock', MockAIProvider);
+
+      expect(factory.createAIProvider('mock', { type: 'mock', rulesFile })).toBeInstanceOf(MockAIProvider);
+      expect(() => new MockAIProvider({ type: 'openai' })).toThrow('Invalid provider type for MockAIProvider');
+    });
+
+    it('should be valid without a rules file', () => {
+      const result = ProviderConfigValidator.validateAIProviderConfig({ type: 'mock' });
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toEqual(['Mock rules file not specified, questions will be answered from query templates only']);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { OpenAICompatibleProvider } from '../../src/providers/ai/OpenAICompatibleProvider';
+import { AIProviderConfig } from '../../src/core/types/ProviderTypes';
+
+const mockCreate = jest.fn();
+
+// Mock the openai module
+jest.mock('openai', () => {
+  return {
+    __esModule: true,
+    default: jest.fn().mockImplementation(() => ({
+      chat: {
+        completions: {
+          create: mockCreate
+        }
+      }
+    }))
+  };
+});
+
+describe('OpenAICompatibleProvider', () => {
+  let mockConfig: AIProviderConfig;
+  const OpenAI = require('openai').default;
+
+  beforeEach(() => {
+    mockCreate.mockReset();
+    mockCreate.mockResolvedValue({
+      choices: [{
+        message: { content: '{"kql": "requests | count", "confidence": 0.85, "reasoning": "Test reasoning"}' },
+        finish_reason: 'stop'
+      }]
+    });
+
+    mockConfig = {
+      type: 'openai-compatible',
+      endpoint: 'http://localhost:8000/v1',
+      model: 'qwen2.5-coder'
+    };
+  });
+
+  describe('initialize', () => {
+    it('should throw error for invalid provider type', async () => {
+      const provider = new OpenAICompatibleProvider({ ...mockConfig, type: 'openai' });
+      await expect(provider.initialize()).rejects.toThrow('Invalid provider type for OpenAICompatibleProvider');
+    });
+
+    it('should require an endpoint', async () => {
+      const configWithoutEndpoint = { ...mockConfig };
+      delete configWithoutEndpoint.endpoint;
+      const provider = new OpenAICompatibleProvider(configWithoutEndpoint);
+      await expect(provider.initialize()).rejects.toThrow('OpenAI-compatible endpoint is required');
+    });
+
+    it('should not send a bearer token when no API key is configured', async () => {
+      const provider = new OpenAICompatibleProvider(mockConfig);
+      await provider.initialize();
+
+      expect(OpenAI).toHaveBeenCalledWith({
+        apiKey: 'not-required',
+        baseURL: 'http://localhost:8000/v1',
+        defaultHeaders: { Authorization: null }
+      });
+    });
+
+    it('should use standard bearer authentication by default', async () => {
+      const provider = new OpenAICompatibleProvider({ ...mockConfig, apiKey: 'sk-gateway' });
+      await provider.initialize();
+
+      expect(OpenAI).toHaveBeenCalledWith({
+        apiKey: 'sk-gateway',
+        baseURL: 'http://localhost:8000/v1',
+        defaultHeaders: {}
+      });
+    });
+
+    it('should send the API key in a custom auth header and merge extra headers', async () => {
+      const provider = new OpenAICompatibleProvider({
+        ...mockConfig,
+        apiKey: 'gateway-key',
+        authHeader: 'x-litellm-api-key',
+        headers: { 'x-team': 'observability' }
+      });
+      await provider.initialize();
+
+      expect(OpenAI).toHaveBeenCalledWith(expect.objectContaining({
+        defaultHeaders: {
+          'x-team': 'observability',
+          Authorization: null,
+          'x-litellm-api-key': 'gateway-key'
+        }
+      }));
+    });
+
+    it('should keep a user supplied Authorization header when no API key is configured', async () => {
+      const provider = new OpenAICompatibleProvider({
+        ...mockConfig,
+        headers: { Authorization: 'Basic dXNlcjpwYXNz' }
+      });
+      await provider.initialize();
+
+      expect(OpenAI).toHaveBeenCalledWith(expect.objectContaining({
+        defaultHeaders: { Authorization: 'Basic dXNlcjpwYXNz' }
+      }));
+    });
+  });
+
+  describe('generateQuery', () => {
+    it('should use the configured model', async () => {
+      const provider = new OpenAICompatibleProvider(mockConfig);
+      const result = await provider.generateQuery({ userInput: 'Show me errors' });
+
+      expect(result.generatedKQL).toBe('requests | count');
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({ model: 'qwen2.5-coder' }), { signal: undefined });
+      expect(mockCreate.mock.calls[0][0]).not.toHaveProperty('response_format');
+    });
+
+    it('should request JSON output when JSON mode is enabled', async () => {
+      const provider = new OpenAICompatibleProvider({ ...mockConfig, jsonMode: true });
+      await provider.generateQuery({ userInput: 'Show me errors' });
+      await provider.regenerateQuery({
+        userInput: 'Show me errors',
+        context: { previousQuery: 'requests | take 10', attemptNumber: 2 }
+      });
+
+      expect(mockCreate).toHaveBeenCalledTimes(2);
+      mockCreate.mock.calls.forEach(([params]) => {
+        expect(params.response_format).toEqual({ type: 'json_object' });
+      });
+    });
+
+    it('should not request JSON output for free-form responses', async () => {
+      const provider = new OpenAICompatibleProvider({ ...mockConfig, jsonMode: true });
+      await provider.explainQuery({ query: 'requests | count' });
+
+      expect(mockCreate.mock.calls[0][0]).not.toHaveProperty('response_format');
+    });
+  });
+});
@@ -96,7 +96,7 @@ describe('OpenAIProvider', () => {
 
       expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({
         model: 'gpt-4o'
-      }));
+      }), { signal: undefined });
     });
 
     it('should use default model when no model configured', async () => {
@@ -130,7 +130,7 @@ describe('OpenAIProvider', () => {
 
       expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({
         model: 'gpt-4o-mini'
-      }));
+      }), { signal: undefined });
     });
   });
 
@@ -160,6 +160,27 @@ describe('OpenAIProvider', () => {
       expect(result.generatedKQL).toBeDefined();
       expect(result.confidence).toBeGreaterThan(0);
     });
+
+    it('should return structured metric queries as JSON text', async () => {
+      const mockOpenAI = require('openai').default;
+      mockOpenAI.mockImplementation(() => ({
+        chat: {
+          completions: {
+            create: jest.fn().mockResolvedValue({
+              choices: [{
+                message: { content: '{"kql": {"metricNames": ["Percentage CPU"], "interval": "PT5M"}, "confidence": 0.8, "reasoning": "CPU metric"}' },
+                finish_reason: 'stop'
+              }]
+            })
+          }
+        }
+      }));
+
+      const provider = new OpenAIProvider(mockOpenAIConfig);
+      const result = await provider.generateQuery({ userInput: 'cpu usage', dataSourceType: 'azure-metrics' });
+
+      expect(JSON.parse(result.generatedKQL)).toEqual({ metricNames: ['Percentage CPU'], interval: 'PT5M' });
+    });
   });
 
   describe('explainQuery', () => {
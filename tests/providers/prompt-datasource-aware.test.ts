@@ -1,4 +1,4 @@
-import { buildSystemPrompt } from '../../src/providers/ai/prompts/systemPrompts';
+import { buildSystemPrompt, buildRegenerationPrompt } from '../../src/providers/ai/prompts/systemPrompts';
 
 describe('Data Source Aware Prompts', () => {
   
@@ -76,6 +76,49 @@ describe('Data Source Aware Prompts', () => {
       expect(prompt).toContain('Analyze the last 24 hours');
     });
 
+    it('should tell the AI that the service applies the time range', () => {
+      const prompt = buildSystemPrompt('application-insights', undefined, undefined, 'PT2H');
+
+      expect(prompt).toContain('The query runs over the last 2 hours (PT2H)');
+      expect(prompt).toContain('do not hardcode another one such as ago(1d)');
+    });
+
+    it('should ask for an explicit time filter on Azure Data Explorer', () => {
+      const prompt = buildSystemPrompt('azure-data-explorer', undefined, undefined, '2024-01-01T00:00:00.000Z/2024-01-02T00:00:00.000Z');
+
+      expect(prompt).toContain('does not limit queries to this window');
+      expect(prompt).toContain('between (datetime(2024-01-01T00:00:00.000Z) .. datetime(2024-01-02T00:00:00.000Z))');
+    });
+
+    it('should ask metric queries to leave out the timespan', () => {
+      const prompt = buildSystemPrompt('azure-metrics', undefined, undefined, 'P7D');
+
+      expect(prompt).toContain('The query runs over the last 7 days (P7D)');
+      expect(prompt).toContain('Leave out "timespan"');
+    });
+
+    it('should not mention a time range when none is given', () => {
+      expect(buildSystemPrompt('application-insights')).not.toContain('Time range:');
+    });
+
+  });
+
+  describe('buildRegenerationPrompt', () => {
+    it('should ask for a different approach when no execution error is given', () => {
+      const prompt = buildRegenerationPrompt('show errors', 'exceptions | take 10', 2);
+
+      expect(prompt).toContain('Previous attempt (attempt 2):');
+      expect(prompt).toContain('DIFFERENT approach');
+    });
+
+    it('should include the failing query and execution error for repairs', () => {
+      const prompt = buildRegenerationPrompt('show errors', 'exceptions | where severity > "high"', 1, "Failed to resolve column 'severity'");
+
+      expect(prompt).toContain('exceptions | where severity > "high"');
+      expect(prompt).toContain("Failed to resolve column 'severity'");
+      expect(prompt).toContain('fix the query');
+      expect(prompt).not.toContain('DIFFERENT approach');
+    });
   });
 
 });
\ No newline at end of file
@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { normalizeQuery, QueryResultCache } from '../../src/providers/datasource/QueryResultCache';
+import { CachedDataSourceProvider, getDataSourceCacheIdentity } from '../../src/providers/datasource/CachedDataSourceProvider';
+import { IDataSourceProvider } from '../../src/core/interfaces/IDataSourceProvider';
+import { QueryResult } from '../../src/types';
+
+jest.mock('../../src/utils/logger');
+
+const result = (value: number): QueryResult => ({
+  tables: [{ name: 'PrimaryResult', columns: [{ name: 'count_', type: 'long' }], rows: [[value]] }]
+});
+
+describe('QueryResultCache', () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aidx-query-cache-'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  describe('key', () => {
+    it('should ignore formatting and comments but not string literals', () => {
+      expect(normalizeQuery('requests\n| where name == "GET /"  // home\n| count;')).toBe('requests | where name == "GET /" | count');
+      expect(QueryResultCache.key('requests | count', 'app-1')).toBe(QueryResultCache.key('requests\n|   count', 'app-1'));
+      expect(QueryResultCache.key('requests | where name == "a b"', 'app-1'))
+        .not.toBe(QueryResultCache.key('requests | where name == "a  b"', 'app-1'));
+    });
+
+    it('should separate data sources and time windows', () => {
+      const key = QueryResultCache.key('requests | count', 'app-1', 'PT24H');
+
+      expect(QueryResultCache.key('requests | count', 'app-1', '24h')).toBe(key);
+      expect(QueryResultCache.key('requests | count', 'app-2', 'PT24H')).not.toBe(key);
+      expect(QueryResultCache.key('requests | count', 'app-1', 'PT1H')).not.toBe(key);
+      expect(QueryResultCache.key('requests | count', 'app-1')).not.toBe(key);
+    });
+  });
+
+  it('should mark hits and expire results after the TTL', () => {
+    jest.useFakeTimers({ now: new Date('2024-01-10T12:00:00.000Z') });
+    const cache = new QueryResultCache({ ttlSeconds: 60 });
+    cache.set('key', result(1));
+
+    expect(cache.get('key')).toEqual({
+      ...result(1),
+      cache: { tier: 'memory', cachedAt: '2024-01-10T12:00:00.000Z', expiresAt: '2024-01-10T12:01:00.000Z' }
+    });
+
+    jest.advanceTimersByTime(60 * 1000);
+    expect(cache.get('key')).toBeUndefined();
+  });
+
+  it('should evict the least recently used results beyond maxEntries', () => {
+    const cache = new QueryResultCache({ maxEntries: 2 });
+    cache.set('a', result(1));
+    cache.set('b', result(2));
+    cache.get('a');
+    cache.set('c', result(3));
+
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBeDefined();
+  });
+
+  it('should keep results within maxMemoryMB', () => {
+    const cache = new QueryResultCache({ maxMemoryMB: 0.001 });
+    cache.set('large', { tables: [{ name: 'PrimaryResult', columns: [], rows: [['x'.repeat(1000)]] }] });
+
+    expect(cache.get('large')).toBeUndefined();
+  });
+
+  it('should share results between instances through the disk tier', () => {
+    new QueryResultCache({ disk: true, directory: cacheDir }).set('key', result(1));
+
+    expect(new QueryResultCache({ directory: cacheDir }).get('key')).toBeUndefined();
+    expect(new QueryResultCache({ disk: true, directory: cacheDir }).get('key')?.cache?.tier).toBe('disk');
+  });
+
+  it('should clear both tiers', () => {
+    const cache = new QueryResultCache({ disk: true, directory: cacheDir });
+    cache.set('a', result(1));
+    cache.set('b', result(2));
+
+    expect(cache.clear()).toBe(2);
+    expect(cache.get('a')).toBeUndefined();
+    expect(fs.readdirSync(cacheDir)).toEqual([]);
+  });
+});
+
+describe('CachedDataSourceProvider', () => {
+  const provider: jest.Mocked<IDataSourceProvider> = {
+    executeQuery: jest.fn(),
+    validateConnection: jest.fn(),
+    getSchema: jest.fn(),
+    getMetadata: jest.fn()
+  };
+
+  beforeEach(() => {
+    provider.executeQuery.mockReset().mockImplementation(async () => result(provider.executeQuery.mock.calls.length));
+  });
+
+  it('should run each query once per time window while the result is cached', async () => {
+    const cached = new CachedDataSourceProvider(provider, 'application-insights:app-1', new QueryResultCache());
+
+    const first = await cached.executeQuery({ query: 'requests | count', timespan: 'PT1H' });
+    const second = await cached.executeQuery({ query: 'requests\n| count', timespan: 'PT1H' });
+    const otherWindow = await cached.executeQuery({ query: 'requests | count', timespan: 'P1D' });
+
+    expect(provider.executeQuery).toHaveBeenCalledTimes(2);
+    expect(first.cache).toBeUndefined();
+    expect(second).toMatchObject({ ...result(1), cache: { tier: 'memory' } });
+    expect(otherWindow.tables[0].rows).toEqual([[2]]);
+  });
+
+  it('should not cache failed queries', async () => {
+    provider.executeQuery.mockRejectedValueOnce(new Error('Throttled'));
+    const cached = new CachedDataSourceProvider(provider, 'application-insights:app-1', new QueryResultCache());
+
+    await expect(cached.executeQuery({ query: 'requests | count' })).rejects.toThrow('Throttled');
+    await cached.executeQuery({ query: 'requests | count' });
+
+    expect(provider.executeQuery).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache partial results of fan-out queries', async () => {
+    provider.executeQuery.mockResolvedValueOnce({ ...result(1), errors: [{ source: 'log-analytics', message: 'timeout' }] });
+    const cached = new CachedDataSourceProvider(provider, 'application-insights:app-1', new QueryResultCache());
+
+    await cached.executeQuery({ query: 'requests | count' });
+    const second = await cached.executeQuery({ query: 'requests | count' });
+
+    expect(provider.executeQuery).toHaveBeenCalledTimes(2);
+    expect(second.cache).toBeUndefined();
+  });
+
+  it('should identify data sources by the resource they query', () => {
+    expect(getDataSourceCacheIdentity({ type: 'application-insights', applicationId: 'app-1' })).toBe('application-insights:app-1');
+    expect(getDataSourceCacheIdentity({ type: 'azure-data-explorer', clusterUri: 'https://help.kusto.windows.net', database: 'Samples' }))
+      .toBe('azure-data-explorer:https://help.kusto.windows.net/Samples');
+  });
+});
@@ -0,0 +1,172 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RecordingAIProvider } from '../../src/providers/ai/RecordingAIProvider';
+import { RecordingDataSourceProvider } from '../../src/providers/datasource/RecordingDataSourceProvider';
+import { IAIProvider } from '../../src/core/interfaces/IAIProvider';
+import { IDataSourceProvider } from '../../src/core/interfaces/IDataSourceProvider';
+import { Cassette, CassetteFile, collectSecrets } from '../../src/utils/cassette';
+import { QueryCancelledError } from '../../src/utils/cancellation';
+
+jest.mock('../../src/utils/logger');
+
+const API_KEY = 'live-openai-key-0123456789';
+
+const queryResult = (rows: unknown[][]) => ({
+  tables: [{ name: 'PrimaryResult', columns: [{ name: 'count_', type: 'long' }], rows }]
+});
+
+describe('Recording providers', () => {
+  let directory: string;
+  let cassettePath: string;
+
+  const aiProvider: jest.Mocked<IAIProvider> = {
+    initialize: jest.fn(),
+    generateQuery: jest.fn(),
+    explainQuery: jest.fn(),
+    regenerateQuery: jest.fn(),
+    generateResponse: jest.fn(),
+    analyzeQueryResult: jest.fn()
+  };
+  const dataSourceProvider: jest.Mocked<IDataSourceProvider> = {
+    executeQuery: jest.fn(),
+    validateConnection: jest.fn(),
+    getSchema: jest.fn(),
+    getMetadata: jest.fn()
+  };
+
+  const readCassette = (): CassetteFile => JSON.parse(fs.readFileSync(cassettePath, 'utf-8'));
+
+  const record = () => {
+    const cassette = Cassette.record(cassettePath, { secrets: [API_KEY] });
+    return {
+      ai: new RecordingAIProvider(aiProvider, cassette),
+      dataSource: new RecordingDataSourceProvider(dataSourceProvider, cassette)
+    };
+  };
+
+  const replay = () => {
+    const cassette = Cassette.replay(cassettePath);
+    return {
+      ai: new RecordingAIProvider(aiProvider, cassette),
+      dataSource: new RecordingDataSourceProvider(dataSourceProvider, cassette)
+    };
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'aidx-cassette-'));
+    cassettePath = path.join(directory, 'session.json');
+    jest.resetAllMocks();
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should replay recorded responses without calling the providers', async () => {
+    aiProvider.generateQuery.mockResolvedValue({ generatedKQL: 'requests | count', confidence: 0.9, reasoning: 'Counts requests' });
+    dataSourceProvider.executeQuery.mockResolvedValue({
+      ...queryResult([[42]]),
+      cache: { tier: 'memory', cachedAt: '2024-01-10T12:00:00.000Z', expiresAt: '2024-01-10T12:05:00.000Z' }
+    });
+    dataSourceProvider.getSchema.mockResolvedValue({ tables: ['requests'] });
+
+    const recording = record();
+    await recording.dataSource.getSchema();
+    await recording.ai.generateQuery({ userInput: 'how many requests?', dataSourceType: 'application-insights', signal: new AbortController().signal });
+    await recording.dataSource.executeQuery({ query: 'requests | count', timespan: 'PT1H' });
+    jest.resetAllMocks();
+
+    const replaying = replay();
+    await replaying.ai.initialize();
+
+    expect(await replaying.dataSource.getSchema()).toEqual({ tables: ['requests'] });
+    expect(await replaying.ai.generateQuery({ userInput: 'how many requests?', dataSourceType: 'application-insights' }))
+      .toEqual({ generatedKQL: 'requests | count', confidence: 0.9, reasoning: 'Counts requests' });
+    expect(await replaying.dataSource.executeQuery({ query: 'requests | count', timespan: 'PT1H' })).toEqual(queryResult([[42]]));
+    expect(aiProvider.initialize).not.toHaveBeenCalled();
+    expect(aiProvider.generateQuery).not.toHaveBeenCalled();
+    expect(dataSourceProvider.executeQuery).not.toHaveBeenCalled();
+  });
+
+  it('should match requests and fall back to the recorded order', async () => {
+    dataSourceProvider.executeQuery
+      .mockResolvedValueOnce(queryResult([[1]]))
+      .mockResolvedValueOnce(queryResult([[2]]))
+      .mockResolvedValueOnce(queryResult([[3]]));
+
+    const recording = record();
+    await recording.dataSource.executeQuery({ query: 'requests | count' });
+    await recording.dataSource.executeQuery({ query: 'exceptions | count' });
+    await recording.dataSource.executeQuery({ query: 'traces | count' });
+
+    const replaying = replay();
+    expect(await replaying.dataSource.executeQuery({ query: 'exceptions | count' })).toEqual(queryResult([[2]]));
+    expect(await replaying.dataSource.executeQuery({ query: 'exceptions | count' })).toEqual(queryResult([[2]]));
+    expect(await replaying.dataSource.executeQuery({ query: 'dependencies | count' })).toEqual(queryResult([[1]]));
+    expect(await replaying.dataSource.executeQuery({ query: 'pageViews | count' })).toEqual(queryResult([[3]]));
+    await expect(replaying.dataSource.executeQuery({ query: 'customEvents | count' }))
+      .rejects.toThrow('has no recorded dataSource executeQuery interaction for this request');
+  });
+
+  it('should redact secrets and tokens', async () => {
+    aiProvider.generateResponse.mockResolvedValue(`Called with Authorization: Bearer abc.def-123 and key ${API_KEY}`);
+    dataSourceProvider.getMetadata.mockResolvedValue({
+      properties: { apiKey: 'app-insights-key', accessToken: 'eyJhbGciOiJSUzI1NiJ9.eyJzdWIiOiIxIn0.c2ln', maxTokens: 1000 }
+    });
+
+    const recording = record();
+    await recording.ai.generateResponse(`Use ${API_KEY} for https://example.com/export?sig=s3cr3t&format=csv`);
+    await recording.dataSource.getMetadata();
+
+    const text = fs.readFileSync(cassettePath, 'utf-8');
+    expect(text).not.toContain(API_KEY);
+    expect(text).not.toContain('s3cr3t');
+    expect(text).not.toContain('abc.def-123');
+    expect(text).not.toContain('app-insights-key');
+    expect(text).not.toContain('eyJhbGciOiJSUzI1NiJ9');
+    expect(readCassette().interactions[0].request).toEqual({
+      prompt: 'Use [REDACTED] for https://example.com/export?sig=[REDACTED]&format=csv'
+    });
+    expect(readCassette().interactions[1].response).toEqual({
+      properties: { apiKey: '[REDACTED]', accessToken: '[REDACTED]', maxTokens: 1000 }
+    });
+  });
+
+  it('should replay failures but not cancellations', async () => {
+    aiProvider.explainQuery.mockRejectedValueOnce(new Error(`401 Unauthorized for key ${API_KEY}`));
+    dataSourceProvider.executeQuery.mockRejectedValueOnce(new QueryCancelledError());
+
+    const recording = record();
+    await expect(recording.ai.explainQuery({ query: 'requests' })).rejects.toThrow('401 Unauthorized');
+    await expect(recording.dataSource.executeQuery({ query: 'requests' })).rejects.toThrow(QueryCancelledError);
+
+    expect(readCassette().interactions).toEqual([{
+      provider: 'ai',
+      method: 'explainQuery',
+      request: { query: 'requests' },
+      error: { name: 'Error', message: '401 Unauthorized for key [REDACTED]' }
+    }]);
+    await expect(replay().ai.explainQuery({ query: 'requests' })).rejects.toThrow('401 Unauthorized for key [REDACTED]');
+  });
+
+  it('should reject files that are not cassettes', () => {
+    fs.writeFileSync(cassettePath, JSON.stringify({ version: 1 }));
+    expect(() => Cassette.replay(cassettePath)).toThrow('is not a cassette');
+
+    expect(() => Cassette.replay(path.join(directory, 'missing.json'))).toThrow('Could not read cassette');
+  });
+
+  it('should collect configured secrets and environment variable references', () => {
+    const config = {
+      providers: {
+        ai: { default: 'openai', openai: { type: 'openai', apiKey: '${OPENAI_API_KEY}', model: 'gpt-4' } },
+        auth: { default: 'service-principal', 'service-principal': { clientId: 'client', clientSecret: 'sp-secret-value' } }
+      }
+    };
+
+    expect(collectSecrets(config, { OPENAI_API_KEY: 'sk-env-key', HOME: '/home/user' }))
+      .toEqual(expect.arrayContaining(['sk-env-key', 'sp-secret-value']));
+    expect(collectSecrets(config, { OPENAI_API_KEY: 'sk-env-key', HOME: '/home/user' })).not.toContain('/home/user');
+  });
+});
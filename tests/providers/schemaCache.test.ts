@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SchemaCache } from '../../src/providers/datasource/SchemaCache';
+import { CachedSchemaDataSourceProvider } from '../../src/providers/datasource/CachedSchemaDataSourceProvider';
+import { IDataSourceProvider, SchemaResult } from '../../src/core/interfaces/IDataSourceProvider';
+import { SchemaService } from '../../src/services/SchemaService';
+
+jest.mock('../../src/utils/logger');
+
+const DATA_SOURCE = 'application-insights:app-1';
+
+const schemaResult = (columns: Array<{ name: string; type: string }>): SchemaResult => ({
+  schema: { tables: [{ name: 'requests', columns }] },
+  tables: ['requests']
+});
+
+describe('Schema cache', () => {
+  let cacheDir: string;
+  let cache: SchemaCache;
+  const provider: jest.Mocked<IDataSourceProvider> = {
+    executeQuery: jest.fn(),
+    validateConnection: jest.fn(),
+    getSchema: jest.fn(),
+    getMetadata: jest.fn()
+  };
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aidx-schema-cache-'));
+    cache = new SchemaCache(cacheDir);
+    provider.getSchema.mockReset().mockResolvedValue(schemaResult([{ name: 'name', type: 'string' }]));
+    provider.executeQuery.mockReset().mockResolvedValue({ tables: [{ name: 'PrimaryResult', columns: [], rows: [] }] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  describe('CachedSchemaDataSourceProvider', () => {
+    it('should fetch the schema once and share it between instances', async () => {
+      await new CachedSchemaDataSourceProvider(provider, DATA_SOURCE, cache).getSchema();
+      const schema = await new CachedSchemaDataSourceProvider(provider, DATA_SOURCE, new SchemaCache(cacheDir)).getSchema();
+
+      expect(schema.tables).toEqual(['requests']);
+      expect(provider.getSchema).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep schemas of other data sources apart', async () => {
+      await new CachedSchemaDataSourceProvider(provider, DATA_SOURCE, cache).getSchema();
+      await new CachedSchemaDataSourceProvider(provider, 'application-insights:app-2', cache).getSchema();
+
+      expect(provider.getSchema).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use an old schema while refreshing it in the background', async () => {
+      jest.useFakeTimers({ now: new Date('2024-01-10T12:00:00.000Z'), doNotFake: ['setImmediate', 'nextTick'] });
+      const cachedProvider = new CachedSchemaDataSourceProvider(provider, DATA_SOURCE, cache, { refreshAfterSeconds: 60 });
+      await cachedProvider.getSchema();
+      provider.getSchema.mockResolvedValue(schemaResult([{ name: 'resultCode', type: 'string' }]));
+
+      jest.setSystemTime(new Date('2024-01-10T12:05:00.000Z'));
+      const stale = await cachedProvider.getSchema();
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(stale).toEqual(schemaResult([{ name: 'name', type: 'string' }]));
+      expect(provider.getSchema).toHaveBeenCalledTimes(2);
+      expect(cache.get(DATA_SOURCE)?.schema).toEqual(schemaResult([{ name: 'resultCode', type: 'string' }]));
+    });
+
+    it('should fetch schemas older than the TTL before use', async () => {
+      jest.useFakeTimers({ now: new Date('2024-01-10T12:00:00.000Z') });
+      const cachedProvider = new CachedSchemaDataSourceProvider(provider, DATA_SOURCE, cache, { ttlSeconds: 60 });
+      await cachedProvider.getSchema();
+      provider.getSchema.mockResolvedValue(schemaResult([{ name: 'resultCode', type: 'string' }]));
+
+      jest.setSystemTime(new Date('2024-01-10T12:05:00.000Z'));
+
+      expect(await cachedProvider.getSchema()).toEqual(schemaResult([{ name: 'resultCode', type: 'string' }]));
+    });
+
+    it('should not cache failed lookups', async () => {
+      provider.getSchema.mockResolvedValueOnce({ schema: null, error: 'Schema retrieval failed: 403' });
+      const cachedProvider = new CachedSchemaDataSourceProvider(provider, DATA_SOURCE, cache);
+
+      await cachedProvider.getSchema();
+      await cachedProvider.getSchema();
+
+      expect(provider.getSchema).toHaveBeenCalledTimes(2);
+      expect(cache.get(DATA_SOURCE)?.schema.error).toBeUndefined();
+    });
+  });
+
+  describe('SchemaService', () => {
+    const createService = () => new SchemaService(new CachedSchemaDataSourceProvider(provider, DATA_SOURCE, cache), cache, DATA_SOURCE);
+
+    it('should record the first schema as the baseline', async () => {
+      const result = await createService().diff();
+
+      expect(result.previous).toBeUndefined();
+      expect(result.diff).toBeUndefined();
+      expect(cache.getSnapshot(DATA_SOURCE)?.tables).toEqual({ requests: { name: 'string' } });
+    });
+
+    it('should report columns and custom dimensions added since the last snapshot', async () => {
+      const service = createService();
+      await service.refresh();
+      provider.getSchema.mockResolvedValue(schemaResult([
+        { name: 'name', type: 'string' },
+        { name: 'customDimensions', type: 'dynamic' }
+      ]));
+      provider.executeQuery.mockResolvedValue({
+        tables: [{
+          name: 'PrimaryResult',
+          columns: [{ name: 'TableName', type: 'string' }, { name: 'ColumnName', type: 'string' }, { name: 'Key', type: 'string' }],
+          rows: [['requests', 'customDimensions', 'TenantId']]
+        }]
+      });
+
+      const result = await service.diff();
+
+      expect(result.diff?.changedTables).toEqual([
+        { table: 'requests', addedColumns: ['customDimensions', 'customDimensions.TenantId'], removedColumns: [] }
+      ]);
+      expect(provider.executeQuery).toHaveBeenCalledWith(expect.objectContaining({
+        query: expect.stringContaining(`summarize Dimensions = make_bag(['customDimensions'])`),
+        timespan: 'P1D'
+      }));
+      expect(provider.executeQuery.mock.calls[0][0].query).not.toContain('take');
+      expect((await service.diff()).diff?.changedTables).toEqual([]);
+    });
+
+    it('should keep the custom dimensions of the last snapshot when they cannot be queried', async () => {
+      const service = createService();
+      provider.getSchema.mockResolvedValue(schemaResult([{ name: 'customDimensions', type: 'dynamic' }]));
+      provider.executeQuery.mockResolvedValueOnce({
+        tables: [{ name: 'PrimaryResult', columns: [], rows: [['requests', 'customDimensions', 'TenantId']] }]
+      });
+      await service.refresh();
+      provider.executeQuery.mockRejectedValueOnce(new Error('Throttled'));
+
+      const result = await service.diff();
+
+      expect(result.diff?.changedTables).toEqual([]);
+      expect(result.current.tables.requests).toEqual({ customDimensions: 'dynamic', 'customDimensions.TenantId': 'dynamic' });
+    });
+
+    it('should keep the snapshot when asked not to save', async () => {
+      const service = createService();
+      await service.refresh();
+      provider.getSchema.mockResolvedValue(schemaResult([{ name: 'resultCode', type: 'string' }]));
+
+      await service.diff({ save: false });
+
+      expect(cache.getSnapshot(DATA_SOURCE)?.tables).toEqual({ requests: { name: 'string' } });
+    });
+
+    it('should fail when the schema cannot be fetched', async () => {
+      provider.getSchema.mockResolvedValue({ schema: null, error: 'Schema retrieval failed: 403' });
+
+      await expect(createService().refresh()).rejects.toThrow('Schema retrieval failed: 403');
+    });
+  });
+});
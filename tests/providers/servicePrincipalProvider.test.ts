@@ -0,0 +1,136 @@
+import { ClientCertificateCredential, ClientSecretCredential } from '@azure/identity';
+import { ServicePrincipalProvider } from '../../src/providers/auth/ServicePrincipalProvider';
+import { toDefaultScopes } from '../../src/providers/auth/scopes';
+import { AuthConfig } from '../../src/core/types/ProviderTypes';
+
+const mockGetToken = jest.fn();
+
+jest.mock('@azure/identity', () => ({
+  ClientSecretCredential: jest.fn().mockImplementation(() => ({ getToken: mockGetToken })),
+  ClientCertificateCredential: jest.fn().mockImplementation(() => ({ getToken: mockGetToken }))
+}));
+
+describe('ServicePrincipalProvider', () => {
+  const secretConfig: AuthConfig = {
+    type: 'service-principal',
+    tenantId: 'test-tenant-id',
+    clientId: 'test-client-id',
+    clientSecret: 'test-secret'
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetToken.mockResolvedValue({ token: 'sp-token', expiresOnTimestamp: Date.now() + 3600000 });
+  });
+
+  describe('constructor', () => {
+    it('should create a client secret credential', () => {
+      new ServicePrincipalProvider(secretConfig);
+
+      expect(ClientSecretCredential).toHaveBeenCalledWith('test-tenant-id', 'test-client-id', 'test-secret');
+      expect(ClientCertificateCredential).not.toHaveBeenCalled();
+    });
+
+    it('should prefer a certificate credential when a certificate path is configured', () => {
+      new ServicePrincipalProvider({
+        ...secretConfig,
+        certificatePath: '/etc/ssl/private/sp.pem',
+        certificatePassword: 'cert-password',
+        sendCertificateChain: true
+      });
+
+      expect(ClientCertificateCredential).toHaveBeenCalledWith(
+        'test-tenant-id',
+        'test-client-id',
+        { certificatePath: '/etc/ssl/private/sp.pem', certificatePassword: 'cert-password' },
+        { sendCertificateChain: true }
+      );
+      expect(ClientSecretCredential).not.toHaveBeenCalled();
+    });
+
+    it('should throw error with invalid provider type', () => {
+      expect(() => new ServicePrincipalProvider({ ...secretConfig, type: 'azure-managed-identity' })).toThrow(
+        'Invalid provider type for ServicePrincipalProvider'
+      );
+    });
+
+    it('should throw error without a client secret or certificate', () => {
+      expect(() => new ServicePrincipalProvider({ ...secretConfig, clientSecret: undefined })).toThrow(
+        'Service Principal provider requires clientSecret or certificatePath'
+      );
+    });
+  });
+
+  describe('getAccessToken', () => {
+    it('should request tokens with .default scopes', async () => {
+      const provider = new ServicePrincipalProvider(secretConfig);
+
+      const token = await provider.getAccessToken(['https://api.loganalytics.io/Data.Read']);
+
+      expect(token).toBe('sp-token');
+      expect(mockGetToken).toHaveBeenCalledWith(['https://api.loganalytics.io/.default']);
+    });
+
+    it('should default to the Application Insights scope', async () => {
+      const provider = new ServicePrincipalProvider(secretConfig);
+
+      await provider.getAccessToken();
+
+      expect(mockGetToken).toHaveBeenCalledWith(['https://api.applicationinsights.io/.default']);
+    });
+
+    it('should reject scopes for more than one resource', async () => {
+      const provider = new ServicePrincipalProvider(secretConfig);
+
+      await expect(provider.getAccessToken([
+        'https://api.applicationinsights.io/.default',
+        'https://management.azure.com/.default'
+      ])).rejects.toThrow('Service Principal tokens are issued for one resource at a time');
+      expect(mockGetToken).not.toHaveBeenCalled();
+    });
+
+    it('should include the credential error in the message', async () => {
+      mockGetToken.mockRejectedValueOnce(new Error('AADSTS7000215: Invalid client secret provided'));
+      const provider = new ServicePrincipalProvider(secretConfig);
+
+      await expect(provider.getAccessToken()).rejects.toThrow(
+        'Service Principal authentication failed: AADSTS7000215: Invalid client secret provided'
+      );
+    });
+  });
+
+  describe('getOpenAIToken', () => {
+    it('should request a Cognitive Services token', async () => {
+      const provider = new ServicePrincipalProvider(secretConfig);
+
+      await provider.getOpenAIToken();
+
+      expect(mockGetToken).toHaveBeenCalledWith(['https://cognitiveservices.azure.com/.default']);
+    });
+  });
+
+  describe('validateCredentials', () => {
+    it('should return false when no token can be obtained', async () => {
+      mockGetToken.mockRejectedValueOnce(new Error('Certificate file not found'));
+      const provider = new ServicePrincipalProvider(secretConfig);
+
+      await expect(provider.validateCredentials()).resolves.toBe(false);
+      expect(mockGetToken).toHaveBeenCalledWith(['https://management.azure.com/.default']);
+    });
+  });
+
+  describe('scopes', () => {
+    it('should map resources and delegated permissions to .default scopes', () => {
+      expect(toDefaultScopes([
+        'https://mycluster.westus.kusto.windows.net',
+        'https://api.loganalytics.io/Data.Read',
+        'https://api.loganalytics.io/.default',
+        'api://my-app/'
+      ])).toEqual([
+        'https://mycluster.westus.kusto.windows.net/.default',
+        'https://api.loganalytics.io/.default',
+        'api://my-app/.default'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TokenCache, TOKEN_REFRESH_MARGIN_MS } from '../../src/providers/auth/TokenCache';
+import { CachedAuthenticationProvider } from '../../src/providers/auth/CachedAuthenticationProvider';
+import { AuthConfig } from '../../src/core/types/ProviderTypes';
+
+const createJwt = (claims: Record<string, unknown>) =>
+  ['header', Buffer.from(JSON.stringify(claims)).toString('base64url'), 'signature'].join('.');
+
+describe('TokenCache', () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aidx-token-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  const entry = (overrides: Partial<Parameters<TokenCache['set']>[0]> = {}) => ({
+    tenantId: 'test-tenant-id',
+    credentialType: 'azure-managed-identity',
+    scope: 'https://api.applicationinsights.io/.default',
+    token: 'secret-access-token',
+    expiresOnTimestamp: Date.now() + 3600000,
+    ...overrides
+  });
+
+  it('should share tokens between instances', () => {
+    new TokenCache(cacheDir).set(entry());
+
+    const cached = new TokenCache(cacheDir).get('test-tenant-id', 'azure-managed-identity', 'https://api.applicationinsights.io/.default');
+
+    expect(cached?.token).toBe('secret-access-token');
+  });
+
+  it('should encrypt the cache file', () => {
+    new TokenCache(cacheDir).set(entry());
+
+    const content = fs.readFileSync(path.join(cacheDir, 'token-cache.json'), 'utf-8');
+
+    expect(content).not.toContain('secret-access-token');
+    expect(content).not.toContain('test-tenant-id');
+  });
+
+  it('should not return tokens that are about to expire', () => {
+    const cache = new TokenCache(cacheDir);
+    cache.set(entry({ expiresOnTimestamp: Date.now() + TOKEN_REFRESH_MARGIN_MS - 1000 }));
+
+    expect(cache.get('test-tenant-id', 'azure-managed-identity', 'https://api.applicationinsights.io/.default')).toBeUndefined();
+  });
+
+  it('should key tokens by tenant, credential type and scope', () => {
+    const cache = new TokenCache(cacheDir);
+    cache.set(entry());
+
+    expect(cache.get('other-tenant-id', 'azure-managed-identity', 'https://api.applicationinsights.io/.default')).toBeUndefined();
+    expect(cache.get('test-tenant-id', 'service-principal:test-client-id', 'https://api.applicationinsights.io/.default')).toBeUndefined();
+    expect(cache.get('test-tenant-id', 'azure-managed-identity', 'https://management.azure.com/.default')).toBeUndefined();
+  });
+
+  it('should replace the tokens of another account signed in with the same credential', () => {
+    const cache = new TokenCache(cacheDir);
+    cache.set(entry({ issuedTenantId: 'first-tenant-id', objectId: 'first-user-id' }));
+    cache.set(entry({ scope: 'https://management.azure.com/.default', issuedTenantId: 'second-tenant-id', objectId: 'second-user-id' }));
+    cache.set(entry({ tenantId: 'other-tenant-id', issuedTenantId: 'other-tenant-id', objectId: 'other-user-id' }));
+
+    expect(new TokenCache(cacheDir).list().map(cached => cached.objectId).sort()).toEqual(['other-user-id', 'second-user-id']);
+  });
+
+  it('should remove the cache and its key when cleared', () => {
+    const cache = new TokenCache(cacheDir);
+    cache.set(entry());
+    cache.set(entry({ scope: 'https://management.azure.com/.default' }));
+
+    expect(cache.clear()).toBe(2);
+    expect(fs.readdirSync(cacheDir)).toEqual([]);
+    expect(new TokenCache(cacheDir).list()).toEqual([]);
+  });
+
+  it('should ignore a cache that cannot be decrypted', () => {
+    new TokenCache(cacheDir).set(entry());
+    fs.writeFileSync(path.join(cacheDir, 'token-cache.key'), Buffer.alloc(32));
+
+    expect(new TokenCache(cacheDir).list()).toEqual([]);
+  });
+});
+
+describe('CachedAuthenticationProvider', () => {
+  let cacheDir: string;
+  const config: AuthConfig = { type: 'azure-managed-identity', tenantId: 'test-tenant-id' };
+
+  const createProvider = (token: string) => ({
+    getAccessToken: jest.fn().mockResolvedValue(token),
+    validateCredentials: jest.fn(),
+    getOpenAIToken: jest.fn(),
+    getCredentialReport: jest.fn().mockReturnValue({ method: 'azure-cli', attempts: [{ method: 'azure-cli' }] })
+  });
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aidx-token-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should reuse tokens across provider instances', async () => {
+    const token = createJwt({ exp: Math.floor(Date.now() / 1000) + 3600, upn: 'user@contoso.com' });
+    const first = createProvider(token);
+    const second = createProvider('unused-token');
+
+    await new CachedAuthenticationProvider(first, config, new TokenCache(cacheDir)).getAccessToken(['https://api.applicationinsights.io/.default']);
+    const cachedProvider = new CachedAuthenticationProvider(second, config, new TokenCache(cacheDir));
+    const result = await cachedProvider.getAccessToken(['https://api.applicationinsights.io/.default']);
+
+    expect(result).toBe(token);
+    expect(second.getAccessToken).not.toHaveBeenCalled();
+    expect(cachedProvider.getCredentialReport()).toEqual({ method: 'azure-cli', attempts: [{ method: 'azure-cli' }], cached: true });
+    expect(new TokenCache(cacheDir).list()[0]).toMatchObject({ account: 'user@contoso.com', method: 'azure-cli' });
+  });
+
+  it('should request a new token shortly before expiry', async () => {
+    const expiring = createJwt({ exp: Math.floor((Date.now() + TOKEN_REFRESH_MARGIN_MS - 1000) / 1000) });
+    const fresh = createJwt({ exp: Math.floor(Date.now() / 1000) + 3600 });
+    const provider = createProvider(expiring);
+    const cachedProvider = new CachedAuthenticationProvider(provider, config, new TokenCache(cacheDir));
+
+    await cachedProvider.getOpenAIToken();
+    provider.getAccessToken.mockResolvedValue(fresh);
+
+    await expect(cachedProvider.getOpenAIToken()).resolves.toBe(fresh);
+    expect(provider.getAccessToken).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not reuse tokens issued for another tenant than the configured one', async () => {
+    const tenantId = '11111111-2222-3333-4444-555555555555';
+    const fresh = createJwt({ exp: Math.floor(Date.now() / 1000) + 3600, tid: tenantId });
+    const cache = new TokenCache(cacheDir);
+    cache.set({
+      tenantId,
+      credentialType: 'azure-managed-identity',
+      scope: 'https://api.applicationinsights.io/.default',
+      token: 'other-tenant-token',
+      expiresOnTimestamp: Date.now() + 3600000,
+      issuedTenantId: '99999999-2222-3333-4444-555555555555'
+    });
+    const provider = createProvider(fresh);
+
+    const result = await new CachedAuthenticationProvider(provider, { type: 'azure-managed-identity', tenantId }, cache)
+      .getAccessToken(['https://api.applicationinsights.io/.default']);
+
+    expect(result).toBe(fresh);
+    expect(new TokenCache(cacheDir).list()).toEqual([expect.objectContaining({ token: fresh, issuedTenantId: tenantId })]);
+  });
+
+  it('should return the expiry of fresh and cached tokens', async () => {
+    const exp = Math.floor(Date.now() / 1000) + 3600;
+    const cachedProvider = new CachedAuthenticationProvider(createProvider(createJwt({ exp })), config, new TokenCache(cacheDir));
+
+    const fresh = await cachedProvider.getAccessTokenWithExpiry(['https://api.applicationinsights.io/.default']);
+    const cached = await cachedProvider.getAccessTokenWithExpiry(['https://api.applicationinsights.io/.default']);
+
+    expect(fresh.expiresOnTimestamp).toBe(exp * 1000);
+    expect(cached).toEqual(fresh);
+    expect(cachedProvider.getCredentialReport().cached).toBe(true);
+  });
+
+  it('should not cache tokens without an expiry', async () => {
+    const provider = createProvider('opaque-token');
+    const cachedProvider = new CachedAuthenticationProvider(provider, config, new TokenCache(cacheDir));
+
+    await cachedProvider.getAccessToken(['https://management.azure.com/.default']);
+
+    expect(new TokenCache(cacheDir).list()).toEqual([]);
+  });
+});
@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EvaluationService } from '../../src/services/EvaluationService';
+import { MockAIProvider } from '../../src/providers/ai/MockAIProvider';
+import { LocalFilesProvider } from '../../src/providers/datasource/LocalFilesProvider';
+import { ITemplateRepository } from '../../src/core/interfaces/ITemplateRepository';
+import { EvaluationSuite } from '../../src/utils/evaluation';
+
+jest.mock('../../src/utils/logger');
+
+const REQUESTS = [
+  'timestamp:datetime,name,cloud_RoleName,success:bool,duration:real',
+  '2024-01-10T10:00:00Z,GET /,web-frontend,true,120',
+  '2024-01-10T10:01:00Z,GET /orders,orders-api,false,900',
+  '2024-01-10T10:02:00Z,GET /orders,orders-api,true,300',
+  '2024-01-10T10:03:00Z,GET /,web-frontend,true,80'
+].join('\n');
+
+const SUITE: EvaluationSuite = {
+  name: 'smoke',
+  cases: [
+    { id: 'by-service', question: 'requests by service', expectedKql: 'requests | summarize count() by cloud_RoleName' },
+    { id: 'failures', question: 'how many failures?', expectedResult: { rows: [[1]] } },
+    { id: 'slowest', question: 'slowest operation', expectedResult: { columns: ['name'], rows: [['GET /orders']] }, ordered: true },
+    { id: 'typo', question: 'typo', expectedResult: { rows: [] } },
+    { id: 'unknown', question: 'something else', expectedResult: { rows: [] } }
+  ]
+};
+
+describe('EvaluationService', () => {
+  let directory: string;
+
+  const mockProvider = (rules: unknown[]) => {
+    const rulesFile = path.join(directory, `rules-${rules.length}.json`);
+    fs.writeFileSync(rulesFile, JSON.stringify({ rules }));
+    const templates = { getTemplates: jest.fn().mockResolvedValue([]), applyTemplate: jest.fn() };
+    return new MockAIProvider({ type: 'mock', rulesFile }, undefined, templates as unknown as ITemplateRepository);
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'aidx-eval-service-'));
+    fs.mkdirSync(path.join(directory, 'data'));
+    fs.writeFileSync(path.join(directory, 'data', 'requests.csv'), REQUESTS);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should score the generated queries of each provider against the data source', async () => {
+    const dataSource = new LocalFilesProvider({ type: 'local-files', directory: path.join(directory, 'data') });
+    const executeQuery = jest.spyOn(dataSource, 'executeQuery');
+    const service = new EvaluationService(dataSource, 'local-files');
+
+    const good = mockProvider([
+      { pattern: 'by service', kql: 'requests | summarize Requests = count() by cloud_RoleName', confidence: 0.9 },
+      { pattern: 'failures', kql: 'requests | where success == false | count', confidence: 0.8 },
+      { pattern: 'slowest', kql: 'requests | top 1 by duration desc | project name', confidence: 0.7 },
+      { pattern: 'typo', kql: 'requests | wher success', confidence: 0.6 }
+    ]);
+    const weak = mockProvider([
+      { pattern: 'by service', kql: 'requests | summarize count() by name', confidence: 0.9 },
+      { pattern: 'failures', kql: 'missing | count', confidence: 0.9 }
+    ]);
+
+    const completed: string[] = [];
+    const report = await service.run(SUITE, [
+      { id: 'good', type: 'mock', provider: good },
+      { id: 'weak', type: 'mock', model: 'v2', provider: weak }
+    ], { onCaseCompleted: (provider, result) => completed.push(`${provider.id}:${result.id}`) });
+
+    const [goodRun, weakRun] = report.runs;
+    expect(goodRun.cases.map(result => [result.id, result.syntaxValid, result.executed, result.correct])).toEqual([
+      ['by-service', true, true, true],
+      ['failures', true, true, true],
+      ['slowest', true, true, true],
+      ['typo', false, false, false],
+      ['unknown', false, false, false]
+    ]);
+    expect(goodRun.cases[3].reason).toBe("Invalid syntax: Unknown query operator 'wher'");
+    expect(goodRun.cases[4].reason).toBe('Generation failed: No mock rule or template matches "something else"');
+    expect(goodRun.summary).toEqual(expect.objectContaining({ cases: 5, accuracy: 0.6, syntaxValidity: 0.6, meanConfidence: expect.closeTo(0.75, 6) }));
+
+    expect(weakRun).toEqual(expect.objectContaining({ provider: 'weak', model: 'v2', promptHash: goodRun.promptHash }));
+    expect(weakRun.cases[0]).toEqual(expect.objectContaining({ executed: true, correct: false, reason: '2 of 2 rows differ' }));
+    expect(weakRun.cases[1].reason).toMatch(/^Execution failed: .*missing/);
+
+    expect(completed).toHaveLength(10);
+    expect(report).toEqual(expect.objectContaining({ suite: 'smoke', dataSourceType: 'local-files', version: 1 }));
+    // The expected query runs once for both providers
+    expect(executeQuery.mock.calls.filter(([request]) => request.query === SUITE.cases[0].expectedKql)).toHaveLength(1);
+  });
+
+  it('should run queries the local parser rejects and never send management commands', async () => {
+    const dataSource = new LocalFilesProvider({ type: 'local-files', directory: path.join(directory, 'data') });
+    const executeQuery = jest.spyOn(dataSource, 'executeQuery').mockResolvedValue({
+      tables: [{ name: 'PrimaryResult', columns: [{ name: 'Count', type: 'long' }], rows: [[1]] }]
+    });
+    const service = new EvaluationService(dataSource, 'local-files');
+    const suite: EvaluationSuite = {
+      name: 'smoke',
+      cases: [
+        { id: 'unparsed', question: 'failures', expectedResult: { rows: [[1]] } },
+        { id: 'drop', question: 'drop', expectedResult: { rows: [[1]] } }
+      ]
+    };
+
+    const report = await service.run(suite, [{
+      id: 'good',
+      type: 'mock',
+      provider: mockProvider([
+        { pattern: 'failures', kql: 'requests | where success == false | newop | count', confidence: 0.9 },
+        { pattern: 'drop', kql: '.drop table requests', confidence: 0.9 }
+      ])
+    }]);
+
+    expect(report.runs[0].cases.map(result => [result.id, result.syntaxValid, result.executed, result.correct])).toEqual([
+      ['unparsed', false, true, true],
+      ['drop', false, false, false]
+    ]);
+    expect(report.runs[0].cases[1].reason).toBe('Not executed: management commands are never sent to the data source');
+    expect(executeQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it('should hash the system prompt of the timespan the queries run over', async () => {
+    const dataSource = new LocalFilesProvider({ type: 'local-files', directory: path.join(directory, 'data') });
+    const service = new EvaluationService(dataSource, 'local-files');
+    const suite: EvaluationSuite = { name: 'smoke', cases: [SUITE.cases[1]] };
+    const promptHash = async (timespan?: string) =>
+      (await service.run(suite, [{ id: 'good', type: 'mock', provider: mockProvider([]) }], { timespan })).runs[0].promptHash;
+
+    const [allTime, lastHour, lastDay] = [await promptHash(), await promptHash('PT1H'), await promptHash('P1D')];
+
+    expect(new Set([allTime, lastHour, lastDay]).size).toBe(3);
+    expect(await promptHash('PT1H')).toBe(lastHour);
+  });
+});
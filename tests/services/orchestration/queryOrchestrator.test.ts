@@ -1,6 +1,8 @@
 import { QueryOrchestrator } from '../../../src/services/orchestration/QueryOrchestrator';
+import { QuerySession } from '../../../src/services/orchestration/SessionManager';
 import { IAIProvider, IDataSourceProvider, ITemplateRepository, QueryTemplate, TemplateParameters } from '../../../src/core/interfaces';
 import { NLQuery, QueryResult } from '../../../src/types';
+import { QueryCancelledError } from '../../../src/utils/cancellation';
 
 // Mock AI Provider
 const mockAIProvider: IAIProvider = {
@@ -142,7 +144,9 @@ describe('QueryOrchestrator', () => {
         result: expect.objectContaining({
           tables: expect.any(Array)
         }),
-        executionTime: expect.any(Number)
+        executionTime: expect.any(Number),
+        nlQuery: { generatedKQL: 'requests | take 10', confidence: 0.8, reasoning: 'Simple request query' },
+        repairAttempts: 0
       });
     });
 
@@ -158,6 +162,195 @@ describe('QueryOrchestrator', () => {
     });
   });
 
+  describe('automatic query repair', () => {
+    const failingQuery: NLQuery = {
+      generatedKQL: 'requests | where duration > "1s"',
+      confidence: 0.8,
+      reasoning: 'Slow requests'
+    };
+
+    beforeEach(() => {
+      mockAIProvider.regenerateQuery = jest.fn().mockResolvedValue({
+        generatedKQL: 'requests | where duration > 1000',
+        confidence: 0.75,
+        reasoning: 'Compare duration as a number'
+      } as NLQuery);
+    });
+
+    it('should feed the execution error back to the AI provider and run the repaired query', async () => {
+      (mockDataSourceProvider.executeQuery as jest.Mock)
+        .mockRejectedValueOnce(new Error("Semantic error: Cannot compare values of types 'real' and 'string'"));
+
+      const execution = await orchestrator.executeGeneratedQuery(failingQuery, {
+        userInput: 'show slow requests',
+        dataSourceType: 'application-insights'
+      });
+
+      expect(mockAIProvider.regenerateQuery).toHaveBeenCalledWith({
+        userInput: 'show slow requests',
+        context: {
+          previousQuery: 'requests | where duration > "1s"',
+          previousReasoning: 'Slow requests',
+          attemptNumber: 1,
+          executionError: "Semantic error: Cannot compare values of types 'real' and 'string'"
+        },
+        schema: undefined,
+        dataSourceType: 'application-insights',
+        extraContext: undefined
+      });
+      expect(mockDataSourceProvider.executeQuery).toHaveBeenLastCalledWith({ query: 'requests | where duration > 1000' });
+      expect(execution.repairAttempts).toBe(1);
+      expect(execution.nlQuery.generatedKQL).toBe('requests | where duration > 1000');
+    });
+
+    it('should record every repair attempt with its error in the session history', async () => {
+      const session = new QuerySession('session_test', { maxRegenerationAttempts: 2 });
+      (mockDataSourceProvider.executeQuery as jest.Mock)
+        .mockRejectedValueOnce(new Error("Failed to resolve column 'durationMs'"))
+        .mockRejectedValueOnce(new Error('Syntax error near "|"'));
+
+      await orchestrator.executeGeneratedQuery(failingQuery, { userInput: 'show slow requests', session });
+
+      const history = session.getDetailedHistory();
+      expect(history).toHaveLength(2);
+      expect(history.map(entry => entry.action)).toEqual(['regenerated', 'regenerated']);
+      expect(history[0].reason).toBe("Repair attempt 1 after execution error: Failed to resolve column 'durationMs'");
+      expect(history[1].reason).toBe('Repair attempt 2 after execution error: Syntax error near "|"');
+    });
+
+    it('should stop after maxRegenerationAttempts from the session options', async () => {
+      const session = new QuerySession('session_test', { maxRegenerationAttempts: 2 });
+      mockDataSourceProvider.executeQuery = jest.fn().mockRejectedValue(new Error('Semantic error'));
+
+      await expect(orchestrator.executeGeneratedQuery(failingQuery, { userInput: 'show slow requests', session }))
+        .rejects.toThrow('Semantic error (after 2 repair attempt(s))');
+      expect(mockAIProvider.regenerateQuery).toHaveBeenCalledTimes(2);
+      expect(mockDataSourceProvider.executeQuery).toHaveBeenCalledTimes(3);
+      expect(session.getDetailedHistory().map(entry => [entry.action, entry.reason])).toEqual([
+        ['regenerated', 'Repair attempt 1 after execution error: Semantic error'],
+        ['regenerated', 'Repair attempt 2 after execution error: Semantic error'],
+        ['failed', 'Execution failed: Semantic error']
+      ]);
+    });
+
+    it('should not execute repaired queries that fail validation or are management commands', async () => {
+      const session = new QuerySession('session_test', {});
+      mockDataSourceProvider.executeQuery = jest.fn().mockRejectedValue(new Error('Semantic error'));
+
+      for (const generatedKQL of ['.drop table requests', 'requests | wher duration > 1000']) {
+        mockAIProvider.regenerateQuery = jest.fn().mockResolvedValue({ generatedKQL, confidence: 0.9, reasoning: 'Repaired' });
+
+        await expect(orchestrator.executeGeneratedQuery(failingQuery, {
+          userInput: 'show slow requests',
+          dataSourceType: 'azure-data-explorer',
+          session
+        })).rejects.toThrow('Semantic error');
+      }
+
+      expect(mockDataSourceProvider.executeQuery).toHaveBeenCalledTimes(2);
+      expect(mockDataSourceProvider.executeQuery).not.toHaveBeenCalledWith(expect.objectContaining({ query: '.drop table requests' }));
+      expect(session.getDetailedHistory().filter(entry => entry.action === 'failed').map(entry => entry.reason)).toEqual([
+        'Repaired query rejected: management commands are not executed',
+        "Repaired query rejected: Line 1, column 12: Unknown query operator 'wher'"
+      ]);
+    });
+
+    it('should not try to repair authentication or connectivity errors', async () => {
+      mockDataSourceProvider.executeQuery = jest.fn().mockRejectedValue(new Error('Request failed with status code 401'));
+
+      await expect(orchestrator.executeGeneratedQuery(failingQuery, { userInput: 'show slow requests' }))
+        .rejects.toThrow('Request failed with status code 401');
+      expect(mockAIProvider.regenerateQuery).not.toHaveBeenCalled();
+    });
+
+    it('should repair queries executed from natural language', async () => {
+      mockAIProvider.generateQuery = jest.fn().mockResolvedValue(failingQuery);
+      (mockDataSourceProvider.executeQuery as jest.Mock).mockRejectedValueOnce(new Error('Semantic error'));
+      const session = new QuerySession('session_test', {});
+
+      const result = await orchestrator.executeNaturalLanguageQuery({ userInput: 'show slow requests', session });
+
+      expect(result.result.tables).toHaveLength(1);
+      expect(result.repairAttempts).toBe(1);
+      expect(result.nlQuery.generatedKQL).toBe('requests | where duration > 1000');
+      expect(session.getDetailedHistory().map(entry => entry.action)).toEqual(['generated', 'regenerated']);
+    });
+
+    it('should not repair when maxRegenerationAttempts is 0', async () => {
+      mockDataSourceProvider.executeQuery = jest.fn().mockRejectedValue(new Error('Semantic error'));
+
+      await expect(orchestrator.executeGeneratedQuery(failingQuery, { userInput: 'show slow requests', maxRegenerationAttempts: 0 }))
+        .rejects.toThrow('Semantic error');
+      expect(mockAIProvider.regenerateQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancellation', () => {
+    const query: NLQuery = { generatedKQL: 'requests | count', confidence: 0.8, reasoning: 'Count requests' };
+
+    it('should pass the signal to the AI provider and the data source', async () => {
+      mockAIProvider.generateQuery = jest.fn().mockResolvedValue(query);
+      const controller = new AbortController();
+
+      await orchestrator.executeNaturalLanguageQuery({ userInput: 'count requests', signal: controller.signal });
+
+      expect(mockAIProvider.generateQuery).toHaveBeenCalledWith(expect.objectContaining({ signal: controller.signal }));
+      expect(mockDataSourceProvider.executeQuery).toHaveBeenCalledWith({ query: 'requests | count', signal: controller.signal });
+    });
+
+    it('should not repair a cancelled query', async () => {
+      const controller = new AbortController();
+      mockDataSourceProvider.executeQuery = jest.fn().mockImplementation(async () => {
+        controller.abort();
+        throw Object.assign(new Error('canceled'), { name: 'CanceledError' });
+      });
+
+      await expect(orchestrator.executeGeneratedQuery(query, { userInput: 'count requests', signal: controller.signal }))
+        .rejects.toBeInstanceOf(QueryCancelledError);
+      expect(mockAIProvider.regenerateQuery).not.toHaveBeenCalled();
+    });
+
+    it('should report cancelled raw queries as cancelled rather than failed', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      mockDataSourceProvider.executeQuery = jest.fn().mockRejectedValue(new QueryCancelledError());
+
+      await expect(orchestrator.executeRawQuery('requests | count', { signal: controller.signal }))
+        .rejects.toThrow('Query was cancelled');
+    });
+  });
+
+  describe('time range', () => {
+    const query: NLQuery = { generatedKQL: 'requests | count', confidence: 0.8, reasoning: 'Count requests' };
+
+    it('should describe the timespan to the AI and execute the query over it', async () => {
+      mockAIProvider.generateQuery = jest.fn().mockResolvedValue(query);
+
+      await orchestrator.executeNaturalLanguageQuery({ userInput: 'count requests', timespan: 'PT2H', timeout: 30000 });
+
+      expect(mockAIProvider.generateQuery).toHaveBeenCalledWith(expect.objectContaining({ timespan: 'PT2H' }));
+      expect(mockDataSourceProvider.executeQuery).toHaveBeenCalledWith({ query: 'requests | count', timespan: 'PT2H', timeout: 30000 });
+    });
+
+    it('should keep the timespan for repairs', async () => {
+      mockDataSourceProvider.executeQuery = jest.fn()
+        .mockRejectedValueOnce(new Error("Failed to resolve column 'severity'"))
+        .mockResolvedValue({ tables: [] });
+      mockAIProvider.regenerateQuery = jest.fn().mockResolvedValue({ ...query, generatedKQL: 'requests | count // repaired' });
+
+      await orchestrator.executeGeneratedQuery(query, { userInput: 'count requests', timespan: 'P1D' });
+
+      expect(mockAIProvider.regenerateQuery).toHaveBeenCalledWith(expect.objectContaining({ timespan: 'P1D' }));
+      expect(mockDataSourceProvider.executeQuery).toHaveBeenLastCalledWith({ query: 'requests | count // repaired', timespan: 'P1D' });
+    });
+
+    it('should execute raw queries over the timespan', async () => {
+      await orchestrator.executeRawQuery('requests | count', { timespan: 'PT30M' });
+
+      expect(mockDataSourceProvider.executeQuery).toHaveBeenCalledWith({ query: 'requests | count', timespan: 'PT30M' });
+    });
+  });
+
   describe('executeRawQuery', () => {
     it('should execute raw KQL query directly', async () => {
       const query = 'requests | count';
@@ -208,6 +401,57 @@ describe('QueryOrchestrator', () => {
       expect(result.isValid).toBe(false);
       expect(result.error).toContain('Potentially dangerous operation detected: drop');
     });
+
+    it('should not flag keywords inside column names or string literals', async () => {
+      const query = 'requests | where name == "drop table" | extend deleted = true';
+
+      const result = await orchestrator.validateQuery(query);
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should return positioned diagnostics for syntax errors', async () => {
+      const query = 'requests\n| summarize count() by';
+
+      const result = await orchestrator.validateQuery(query);
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Line 2, column 23: Expected an expression but found end of query');
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({ severity: 'error', line: 2, column: 23 })
+      ]);
+    });
+
+    it('should resolve tables and columns against the cached schema when requested', async () => {
+      (mockDataSourceProvider.getSchema as jest.Mock).mockResolvedValueOnce({
+        schema: { AppRequests: { TimeGenerated: 'datetime', Name: 'string' } }
+      });
+
+      const result = await orchestrator.validateQuery('AppRequests | where timestamp > ago(1h)', { checkSchema: true });
+      await orchestrator.validateQuery('AppRequests | take 1', { checkSchema: true });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe(`Line 1, column 21: Unknown column 'timestamp' (did you mean 'TimeGenerated'?)`);
+      expect(mockDataSourceProvider.getSchema).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip schema checks when the schema cannot be retrieved', async () => {
+      (mockDataSourceProvider.getSchema as jest.Mock).mockResolvedValueOnce({ error: 'Schema retrieval failed' });
+
+      const result = await orchestrator.validateQuery('AppRequests | where timestamp > ago(1h)', { checkSchema: true });
+
+      expect(result).toEqual({ isValid: true, diagnostics: [] });
+    });
+
+    it('should validate metric queries instead of KQL for Azure Metrics', async () => {
+      const valid = await orchestrator.validateQuery('{"metricNames": ["Percentage CPU"]}', { checkSchema: true, dataSourceType: 'azure-metrics' });
+      const invalid = await orchestrator.validateQuery('{"metricNames": ["Percentage CPU"], "aggregations": ["Median"]}', { dataSourceType: 'azure-metrics' });
+
+      expect(valid).toEqual({ isValid: true, diagnostics: [] });
+      expect(invalid.isValid).toBe(false);
+      expect(invalid.error).toContain(`Unknown aggregation 'Median'`);
+      expect(mockDataSourceProvider.getSchema).not.toHaveBeenCalled();
+    });
   });
 
   describe('executeTemplateQuery', () => {
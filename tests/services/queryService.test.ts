@@ -0,0 +1,65 @@
+import { QueryService } from '../../src/services/QueryService';
+import { SessionManager } from '../../src/services/orchestration/SessionManager';
+import { IAIProvider, IQueryOrchestrator } from '../../src/core/interfaces';
+
+jest.mock('../../src/utils/logger');
+
+describe('QueryService', () => {
+  const result = { tables: [{ name: 'PrimaryResult', columns: [], rows: [] }] };
+  const nlQuery = { generatedKQL: 'requests | count', confidence: 0.9, reasoning: 'Counts requests' };
+
+  let orchestrator: jest.Mocked<Pick<IQueryOrchestrator, 'executeRawQuery' | 'executeGeneratedQuery'>>;
+  let queryService: QueryService;
+
+  beforeEach(() => {
+    orchestrator = {
+      executeRawQuery: jest.fn().mockResolvedValue({ result, executionTime: 5 }),
+      executeGeneratedQuery: jest.fn().mockResolvedValue({ result, executionTime: 5, nlQuery, repairAttempts: 0 })
+    };
+    const aiProvider = { generateQuery: jest.fn().mockResolvedValue(nlQuery) } as unknown as IAIProvider;
+    queryService = new QueryService(orchestrator as unknown as IQueryOrchestrator, new SessionManager(), aiProvider);
+  });
+
+  describe('time range', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should resolve the time range expression of a session when each query runs', async () => {
+      jest.useFakeTimers({ now: new Date('2024-01-10T10:00:00.000Z') });
+      const session = await queryService.createSession({ timeRange: 'since 9am', timeZone: 'UTC' });
+
+      await queryService.executeQuery({ userInput: 'requests | count', mode: 'raw', sessionId: session.sessionId });
+      jest.setSystemTime(new Date('2024-01-10T11:30:00.000Z'));
+      await queryService.executeQuery({ userInput: 'requests | count', mode: 'raw', sessionId: session.sessionId });
+
+      expect(orchestrator.executeRawQuery.mock.calls.map(([, options]) => options?.timespan)).toEqual([
+        '2024-01-10T09:00:00.000Z/2024-01-10T10:00:00.000Z',
+        '2024-01-10T09:00:00.000Z/2024-01-10T11:30:00.000Z'
+      ]);
+    });
+  });
+
+  describe('query timeout', () => {
+    it('should run the queries of a session with its time range and timeout', async () => {
+      const session = await queryService.createSession({ timeRange: '2h', queryTimeout: 45000 });
+
+      await queryService.executeQuery({ userInput: 'requests | count', mode: 'raw', sessionId: session.sessionId });
+      await queryService.executeQuery({ userInput: 'How many requests?', mode: 'direct', sessionId: session.sessionId });
+
+      expect(orchestrator.executeRawQuery).toHaveBeenCalledWith('requests | count', expect.objectContaining({ timespan: 'PT2H', timeout: 45000 }));
+      expect(orchestrator.executeGeneratedQuery).toHaveBeenCalledWith(nlQuery, expect.objectContaining({ timespan: 'PT2H', timeout: 45000 }));
+    });
+
+    it('should prefer the timeout of the request and leave it unset otherwise', async () => {
+      const timed = await queryService.createSession({ queryTimeout: 45000 });
+      const untimed = await queryService.createSession();
+
+      await queryService.executeGeneratedQuery(nlQuery, { userInput: 'How many requests?', sessionId: timed.sessionId, timeout: 10000 });
+      await queryService.executeQuery({ userInput: 'requests | count', mode: 'raw', sessionId: untimed.sessionId });
+
+      expect(orchestrator.executeGeneratedQuery).toHaveBeenCalledWith(nlQuery, expect.objectContaining({ timeout: 10000 }));
+      expect(orchestrator.executeRawQuery).toHaveBeenCalledWith('requests | count', expect.objectContaining({ timeout: undefined }));
+    });
+  });
+});
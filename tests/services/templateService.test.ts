@@ -83,7 +83,20 @@ describe('TemplateService', () => {
     it('should save a template', async () => {
       await templateService.saveTemplate(testTemplate);
       const savedTemplate = await templateService.getTemplate(testTemplate.id);
-      expect(savedTemplate).toEqual(testTemplate);
+      expect(savedTemplate).toEqual({
+        ...testTemplate,
+        kqlTemplate: 'requests\n| where timestamp > ago({{timespan}})\n| take {{limit}}',
+        metadata: { ...testTemplate.metadata, updatedAt: expect.any(Date) }
+      });
+    });
+
+    it('should format the query when saving a template without changing the given template', async () => {
+      const updatedAt = testTemplate.metadata.updatedAt;
+      await templateService.saveTemplate(testTemplate);
+      const savedTemplate = await templateService.getTemplate(testTemplate.id);
+      expect(savedTemplate?.kqlTemplate).toBe('requests\n| where timestamp > ago({{timespan}})\n| take {{limit}}');
+      expect(testTemplate.kqlTemplate).toBe('requests | where timestamp > ago({{timespan}}) | take {{limit}}');
+      expect(testTemplate.metadata.updatedAt).toBe(updatedAt);
     });
 
     it('should get all templates', async () => {
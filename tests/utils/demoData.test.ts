@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DemoDataOptions, generateDemoData, parseDemoIncident, writeDemoData } from '../../src/utils/demoData';
+import { LocalFilesProvider } from '../../src/providers/datasource/LocalFilesProvider';
+import { QueryTable } from '../../src/types';
+
+jest.mock('../../src/utils/logger');
+
+const START = new Date('2024-01-10T10:00:00.000Z');
+const END = new Date('2024-01-10T12:00:00.000Z');
+
+const options: DemoDataOptions = { start: START, end: END, operationsPerMinute: 5, seed: 7 };
+
+const records = (tables: QueryTable[], name: string): Array<Record<string, any>> => {
+  const table = tables.find(candidate => candidate.name === name)!;
+  return table.rows.map(row => Object.fromEntries(table.columns.map((column, index) => [column.name, row[index]])));
+};
+
+describe('Demo data', () => {
+  describe('generateDemoData', () => {
+    it('should generate the same telemetry for the same seed', () => {
+      expect(generateDemoData(options)).toEqual(generateDemoData(options));
+      expect(generateDemoData({ ...options, seed: 8 })).not.toEqual(generateDemoData(options));
+    });
+
+    it('should start an operation per page view within the range', () => {
+      const tables = generateDemoData(options);
+      const pageViews = records(tables, 'pageViews');
+
+      expect(pageViews).toHaveLength(600);
+      expect(new Set(pageViews.map(pageView => pageView.operation_Id)).size).toBe(600);
+      expect(pageViews.every(pageView => pageView.timestamp >= START.toISOString() && pageView.timestamp < END.toISOString())).toBe(true);
+    });
+
+    it('should correlate telemetry through operation and parent ids', () => {
+      const tables = generateDemoData(options);
+      const requests = records(tables, 'requests');
+      const dependencies = records(tables, 'dependencies');
+      const ids = new Set([...records(tables, 'pageViews'), ...requests, ...dependencies].map(item => item.id));
+      const operations = new Set(records(tables, 'pageViews').map(pageView => pageView.operation_Id));
+
+      for (const name of ['requests', 'dependencies', 'exceptions', 'traces', 'customEvents']) {
+        const items = records(tables, name);
+        expect(items.length).toBeGreaterThan(0);
+        expect(items.every(item => operations.has(item.operation_Id) && ids.has(item.operation_ParentId))).toBe(true);
+      }
+
+      // Every downstream request answers an HTTP dependency with its outcome
+      const byId = new Map(dependencies.map(dependency => [dependency.id, dependency]));
+      const downstream = requests.filter(request => request.cloud_RoleName !== 'web-frontend');
+      expect(downstream.every(request => {
+        const dependency = byId.get(request.operation_ParentId);
+        return dependency?.type === 'HTTP' && dependency.success === request.success && dependency.duration >= request.duration;
+      })).toBe(true);
+    });
+
+    it('should inject incidents into the affected service only', () => {
+      const incidentStart = new Date('2024-01-10T11:00:00.000Z');
+      const tables = generateDemoData({
+        ...options,
+        errorRate: 0,
+        incidents: [
+          { kind: 'latency-spike', service: 'orders-api', start: incidentStart, durationMs: 30 * 60 * 1000, factor: 10 },
+          { kind: 'exception-burst', service: 'payments-api', start: incidentStart, durationMs: 30 * 60 * 1000, errorRate: 1 }
+        ]
+      });
+      const requests = records(tables, 'requests');
+      const during = (request: Record<string, any>) =>
+        request.timestamp >= incidentStart.toISOString() && request.timestamp < '2024-01-10T11:30:00.000Z';
+      const averageDuration = (items: Array<Record<string, any>>) => items.reduce((sum, item) => sum + item.duration, 0) / items.length;
+
+      const orders = requests.filter(request => request.cloud_RoleName === 'orders-api');
+      expect(averageDuration(orders.filter(during))).toBeGreaterThan(5 * averageDuration(orders.filter(request => !during(request))));
+
+      const payments = requests.filter(request => request.cloud_RoleName === 'payments-api');
+      expect(payments.filter(during).every(request => !request.success && request.resultCode === '504')).toBe(true);
+      expect(payments.filter(request => !during(request)).every(request => request.success)).toBe(true);
+      expect(new Set(records(tables, 'exceptions')
+        .filter(exception => exception.cloud_RoleName === 'payments-api')
+        .map(exception => exception.type))).toEqual(new Set(['System.TimeoutException']));
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => generateDemoData({ ...options, errorRate: 2 })).toThrow('The error rate must be between 0 and 1');
+      expect(() => generateDemoData({ ...options, end: START })).toThrow('The time range must end after it starts');
+      expect(() => generateDemoData({
+        ...options,
+        incidents: [{ kind: 'latency-spike', service: 'search-api', start: START, durationMs: 60000 }]
+      })).toThrow("Incident service 'search-api' is not one of");
+    });
+  });
+
+  describe('parseDemoIncident', () => {
+    const range = { start: START, end: END };
+
+    it('should read the kind, settings and a start before the end', () => {
+      expect(parseDemoIncident('latency-spike,service=orders-api,at=45m,duration=10m,factor=8', range)).toEqual({
+        kind: 'latency-spike',
+        service: 'orders-api',
+        start: new Date('2024-01-10T11:15:00.000Z'),
+        durationMs: 10 * 60 * 1000,
+        factor: 8
+      });
+    });
+
+    it('should center incidents without a start in the range', () => {
+      expect(parseDemoIncident('kind=exception-burst,errorRate=0.6,exception=System.OutOfMemoryException', range)).toEqual({
+        kind: 'exception-burst',
+        start: new Date('2024-01-10T10:45:00.000Z'),
+        durationMs: 30 * 60 * 1000,
+        errorRate: 0.6,
+        exceptionType: 'System.OutOfMemoryException'
+      });
+    });
+
+    it('should reject unknown kinds and settings', () => {
+      expect(() => parseDemoIncident('outage', range)).toThrow('Incident kind must be one of latency-spike, exception-burst');
+      expect(() => parseDemoIncident('latency-spike,severity=high', range)).toThrow("Unknown incident setting 'severity'");
+      expect(() => parseDemoIncident('exception-burst,errorRate=1.5', range)).toThrow('Incident errorRate must be a number between 0 and 1');
+    });
+  });
+
+  describe('writeDemoData', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'aidx-demo-data-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it.each(['csv', 'json', 'ndjson'] as const)('should write %s files the local-files data source reads', async (format) => {
+      const tables = generateDemoData({ ...options, operationsPerMinute: 1 });
+      writeDemoData(tables, directory, format);
+
+      const provider = new LocalFilesProvider({ type: 'local-files', directory });
+      const schema = await provider.getSchema();
+      const result = await provider.executeQuery({ query: 'requests | summarize count(), countif(success == false)' });
+
+      expect(schema.tables).toEqual(['customEvents', 'dependencies', 'exceptions', 'pageViews', 'requests', 'traces']);
+      expect(schema.schema.tables.find((table: { name: string }) => table.name === 'requests').columns)
+        .toEqual(expect.arrayContaining([{ name: 'timestamp', type: 'datetime' }, { name: 'customDimensions', type: 'dynamic' }]));
+      const requests = records(tables, 'requests');
+      expect(result.tables[0].rows).toEqual([[requests.length, requests.filter(request => !request.success).length]]);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  compareEvaluationReports,
+  compareQueryResults,
+  EvaluationCaseResult,
+  EvaluationReport,
+  formatEvaluationReportMarkdown,
+  loadEvaluationSuite,
+  summarizeEvaluationRun
+} from '../../src/utils/evaluation';
+
+const table = (columns: string[], rows: unknown[][]) => ({
+  name: 'PrimaryResult',
+  columns: columns.map(name => ({ name, type: 'string' })),
+  rows
+});
+
+const caseResult = (id: string, correct: boolean, confidence?: number, generationMs = 100): EvaluationCaseResult => ({
+  id,
+  question: `Question ${id}`,
+  syntaxValid: confidence !== undefined,
+  executed: confidence !== undefined,
+  correct,
+  confidence,
+  generationMs
+});
+
+const report = (cases: EvaluationCaseResult[], model = 'gpt-4o'): EvaluationReport => ({
+  version: 1,
+  suite: 'smoke',
+  createdAt: '2024-01-10T12:00:00.000Z',
+  dataSourceType: 'local-files',
+  runs: [{ provider: 'openai', type: 'openai', model, promptHash: 'abc123', summary: summarizeEvaluationRun(cases), cases }]
+});
+
+describe('Evaluation', () => {
+  describe('compareQueryResults', () => {
+    it('should compare rows as a set unless ordered', () => {
+      const actual = table(['cloud_RoleName', 'count_'], [['orders-api', 3], ['web-frontend', 5]]);
+      const expected = { columns: ['cloud_RoleName', 'count_'], rows: [['web-frontend', 5], ['orders-api', 3]] };
+
+      expect(compareQueryResults(actual, expected)).toEqual({ equivalent: true });
+      expect(compareQueryResults(actual, expected, true)).toEqual({ equivalent: false, reason: '2 of 2 rows differ or are out of order' });
+    });
+
+    it('should match columns by name, or by position when renamed', () => {
+      const actual = table(['Requests', 'cloud_RoleName'], [[5, 'web-frontend']]);
+
+      expect(compareQueryResults(actual, { columns: ['cloud_RoleName', 'Requests'], rows: [['web-frontend', 5]] }).equivalent).toBe(true);
+      expect(compareQueryResults(actual, { columns: ['count_', 'cloud_RoleName'], rows: [[5, 'web-frontend']] }).equivalent).toBe(true);
+      expect(compareQueryResults(actual, { rows: [[5, 'web-frontend', 1]] })).toEqual({ equivalent: false, reason: 'Expected 3 columns, got 2' });
+    });
+
+    it('should tolerate rounding differences only', () => {
+      const actual = table(['avg_duration'], [[0.1 + 0.2]]);
+
+      expect(compareQueryResults(actual, { rows: [[0.3]] }).equivalent).toBe(true);
+      expect(compareQueryResults(actual, { rows: [[0.31]] })).toEqual({ equivalent: false, reason: '1 of 1 rows differ' });
+      expect(compareQueryResults(actual, { rows: [] })).toEqual({ equivalent: false, reason: 'Expected 0 rows, got 1' });
+    });
+  });
+
+  describe('summarizeEvaluationRun', () => {
+    it('should score accuracy, calibration and latency', () => {
+      const summary = summarizeEvaluationRun([
+        caseResult('1', true, 0.9, 100),
+        caseResult('2', false, 0.8, 300),
+        caseResult('3', true, 0.5, 200),
+        caseResult('4', false, undefined, 400)
+      ]);
+
+      expect(summary).toEqual({
+        cases: 4,
+        syntaxValidity: 0.75,
+        executionRate: 0.75,
+        accuracy: 0.5,
+        meanConfidence: expect.closeTo(0.7333, 4),
+        brierScore: expect.closeTo((0.01 + 0.64 + 0.25) / 3, 6),
+        overconfidence: expect.closeTo(0.7333 - 0.6667, 3),
+        latency: { meanMs: 250, p50Ms: 200, p95Ms: 400 }
+      });
+    });
+  });
+
+  describe('reports', () => {
+    it('should compare runs with a baseline for the same provider and model', () => {
+      const baseline = report([caseResult('1', true, 0.9), caseResult('2', false, 0.9), caseResult('3', true, 0.9)]);
+      const current = report([caseResult('1', false, 0.9), caseResult('2', true, 0.9), caseResult('3', true, 0.9, 150)]);
+
+      expect(compareEvaluationReports(current, baseline)).toEqual([{
+        label: 'openai (gpt-4o)',
+        accuracyDelta: 0,
+        syntaxValidityDelta: 0,
+        brierScoreDelta: 0,
+        p50LatencyDeltaMs: 0,
+        regressions: ['1'],
+        fixes: ['2']
+      }]);
+      expect(compareEvaluationReports(report([caseResult('1', true, 0.9)], 'gpt-4o-mini'), baseline)).toEqual([]);
+    });
+
+    it('should format a Markdown report listing failed cases', () => {
+      const current = report([caseResult('1', true, 1), { ...caseResult('2', false, 0.5), generatedKql: 'requests\n| count', reason: 'Expected 2 rows, got 1' }]);
+      const markdown = formatEvaluationReportMarkdown(current, compareEvaluationReports(current, current));
+
+      expect(markdown).toContain('| openai (gpt-4o) | abc123 | 50.0% | 100.0% | 100.0% | 75.0% | 0.125 | +25.0% | 100 ms | 100 ms |');
+      expect(markdown).toContain('## Changes since the baseline');
+      expect(markdown).toContain('- **2** Question 2: Expected 2 rows, got 1\n  `requests | count`');
+    });
+  });
+
+  describe('loadEvaluationSuite', () => {
+    let directory: string;
+
+    const writeSuite = (suite: unknown) => {
+      const filePath = path.join(directory, 'suite.json');
+      fs.writeFileSync(filePath, JSON.stringify(suite));
+      return filePath;
+    };
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'aidx-eval-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should name the suite and number cases without ids', () => {
+      const suite = loadEvaluationSuite(writeSuite({
+        cases: [{ question: 'How many requests?', expectedKql: 'requests | count' }, { id: 'errors', question: 'Errors?', expectedResult: { rows: [] } }]
+      }));
+
+      expect(suite.name).toBe('suite');
+      expect(suite.cases.map(testCase => testCase.id)).toEqual(['1', 'errors']);
+    });
+
+    it('should reject cases without a question or expectation', () => {
+      expect(() => loadEvaluationSuite(writeSuite({ cases: [] }))).toThrow('must contain a non-empty cases array');
+      expect(() => loadEvaluationSuite(writeSuite({ cases: [{ question: 'How many requests?' }] })))
+        .toThrow('Case 1 of');
+      expect(() => loadEvaluationSuite(writeSuite({ cases: [{ id: 'a', expectedKql: 'requests' }] }))).toThrow('Case a of');
+      expect(() => loadEvaluationSuite(writeSuite({
+        cases: [{ id: 'a', question: 'Q', expectedKql: 'requests' }, { id: 'a', question: 'Q', expectedKql: 'requests' }]
+      }))).toThrow('Case id a appears more than once');
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { formatKql } from '../../src/utils/kql';
+
+describe('formatKql', () => {
+  it('should put every pipe stage on its own line', () => {
+    expect(formatKql('requests | where timestamp > ago(1h) | summarize count() by name | top 10 by count_ desc')).toBe(
+      'requests\n' +
+      '| where timestamp > ago(1h)\n' +
+      '| summarize count() by name\n' +
+      '| top 10 by count_ desc'
+    );
+  });
+
+  it('should indent subqueries containing pipes', () => {
+    expect(formatKql('requests | join kind=inner (dependencies | where success == false) on operation_Id | take 5')).toBe(
+      'requests\n' +
+      '| join kind=inner (\n' +
+      '    dependencies\n' +
+      '    | where success == false\n' +
+      ') on operation_Id\n' +
+      '| take 5'
+    );
+  });
+
+  it('should indent the pipes of let statements', () => {
+    expect(formatKql('let slow = requests | where duration > 500; slow | count')).toBe(
+      'let slow = requests\n' +
+      '    | where duration > 500;\n' +
+      'slow\n' +
+      '| count'
+    );
+  });
+
+  it('should split long summarize lists one item per line', () => {
+    const query = 'requests | summarize Requests = count(), Failures = countif(success == false), AvgDuration = avg(duration) by name';
+
+    expect(formatKql(query, { maxLineLength: 60 })).toBe(
+      'requests\n' +
+      '| summarize\n' +
+      '    Requests = count(),\n' +
+      '    Failures = countif(success == false),\n' +
+      '    AvgDuration = avg(duration)\n' +
+      '    by name'
+    );
+  });
+
+  it('should honor the indent size', () => {
+    expect(formatKql('union (traces | take 1), requests', { indentSize: 2 })).toBe(
+      'union (\n' +
+      '  traces\n' +
+      '  | take 1\n' +
+      '), requests'
+    );
+  });
+
+  it('should normalize spacing after commas and brackets', () => {
+    expect(formatKql('requests | where name in~ ( "a","b" ) | project name,duration')).toBe(
+      'requests\n' +
+      '| where name in~ ("a", "b")\n' +
+      '| project name, duration'
+    );
+  });
+
+  it('should keep comments and template placeholders', () => {
+    expect(formatKql('requests // recent\n| where timestamp > ago({{timespan}}) | take 10')).toBe(
+      'requests // recent\n' +
+      '| where timestamp > ago({{timespan}})\n' +
+      '| take 10'
+    );
+  });
+
+  it('should be idempotent', () => {
+    const formatted = formatKql(
+      'let t = 500; requests | where duration > t | summarize count() by bin(timestamp, 5m) | join (exceptions | count) on $left.x == $right.y'
+    );
+
+    expect(formatKql(formatted)).toBe(formatted);
+  });
+
+  it('should return queries it cannot tokenize unchanged', () => {
+    expect(formatKql('requests | where name == "unterminated')).toBe('requests | where name == "unterminated');
+    expect(formatKql('requests | where (a > 1')).toBe('requests | where (a > 1');
+  });
+});
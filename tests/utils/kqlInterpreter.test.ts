@@ -0,0 +1,215 @@
+import { executeKql, KqlTable } from '../../src/utils/kql';
+
+const NOW = new Date('2024-01-10T12:00:00.000Z');
+
+const tables: Record<string, KqlTable> = {
+  requests: {
+    columns: [
+      { name: 'timestamp', type: 'datetime' },
+      { name: 'name', type: 'string' },
+      { name: 'duration', type: 'real' },
+      { name: 'success', type: 'bool' },
+      { name: 'operation_Id', type: 'string' }
+    ],
+    rows: [
+      { timestamp: new Date('2024-01-10T10:05:00.000Z'), name: 'GET /', duration: 120, success: true, operation_Id: 'op1' },
+      { timestamp: new Date('2024-01-10T10:40:00.000Z'), name: 'GET /api/orders', duration: 850, success: false, operation_Id: 'op2' },
+      { timestamp: new Date('2024-01-10T11:15:00.000Z'), name: 'GET /api/orders', duration: 430, success: true, operation_Id: 'op3' },
+      { timestamp: new Date('2024-01-08T09:00:00.000Z'), name: 'GET /', duration: 90, success: true, operation_Id: 'op4' }
+    ]
+  },
+  exceptions: {
+    columns: [
+      { name: 'timestamp', type: 'datetime' },
+      { name: 'type', type: 'string' },
+      { name: 'operation_Id', type: 'string' }
+    ],
+    rows: [
+      { timestamp: new Date('2024-01-10T10:40:01.000Z'), type: 'TimeoutException', operation_Id: 'op2' }
+    ]
+  }
+};
+
+const run = (query: string) => executeKql(query, tables, { now: NOW });
+
+describe('executeKql', () => {
+  it('should filter with ago and summarize by bin', () => {
+    const result = run(`requests
+      | where timestamp > ago(1d)
+      | summarize count(), avg(duration) by bin(timestamp, 1h)
+      | order by timestamp asc`);
+
+    expect(result.columns).toEqual([
+      { name: 'timestamp', type: 'datetime' },
+      { name: 'count_', type: 'long' },
+      { name: 'avg_duration', type: 'real' }
+    ]);
+    expect(result.rows).toEqual([
+      ['2024-01-10T10:00:00.000Z', 2, 485],
+      ['2024-01-10T11:00:00.000Z', 1, 430]
+    ]);
+  });
+
+  it('should compute aggregates inside expressions', () => {
+    const result = run('requests | summarize failureRate = round(100.0 * countif(success == false) / count(), 1)');
+
+    expect(result.rows).toEqual([[25]]);
+  });
+
+  it('should join tables and keep unmatched rows of leftouter joins', () => {
+    const result = run(`requests
+      | join kind=leftouter (exceptions | project operation_Id, type) on operation_Id
+      | project operation_Id, type
+      | sort by operation_Id asc`);
+
+    expect(result.rows).toEqual([['op1', null], ['op2', 'TimeoutException'], ['op3', null], ['op4', null]]);
+  });
+
+  it('should support let, top and string operators', () => {
+    const result = run(`let slow = 400;
+      requests
+      | where name has "orders" and duration > slow
+      | top 1 by duration desc
+      | extend route = tostring(split(name, " ")[1])
+      | project route, duration`);
+
+    expect(result.rows).toEqual([['/api/orders', 850]]);
+  });
+
+  it('should match terms in any column', () => {
+    expect(run('requests | where * has "orders" and * !has "op3" | project operation_Id').rows).toEqual([['op2']]);
+  });
+
+  it('should return arg_max rows with every column', () => {
+    const result = run('requests | summarize arg_max(timestamp, *) by name | project name, operation_Id | sort by name asc');
+
+    expect(result.rows).toEqual([['GET /', 'op1'], ['GET /api/orders', 'op3']]);
+  });
+
+  it('should merge property bags with make_bag', () => {
+    const result = run(`requests
+      | extend Dimensions = bag_pack(name, duration)
+      | summarize Dimensions = make_bag(Dimensions)
+      | mv-expand Key = bag_keys(Dimensions) to typeof(string)
+      | project Key, Value = Dimensions[Key]`);
+
+    expect(result.rows).toEqual([['GET /', 120], ['GET /api/orders', 850]]);
+  });
+
+  it('should format timespans like Kusto', () => {
+    const result = run('print elapsed = datetime(2024-01-10T12:30:00Z) - datetime(2024-01-09T10:00:00Z)');
+
+    expect(result.columns).toEqual([{ name: 'elapsed', type: 'timespan' }]);
+    expect(result.rows).toEqual([['1.02:30:00']]);
+  });
+
+  describe('types', () => {
+    it('should divide longs as integers and other numbers as reals', () => {
+      const result = run('print longs = 7 / 2, reals = 7.0 / 2, negative = -7 / 2, mixed = 7 / 2.0');
+
+      expect(result.columns.map(column => column.type)).toEqual(['long', 'real', 'long', 'real']);
+      expect(result.rows).toEqual([[3, 3.5, -3, 3.5]]);
+    });
+
+    it('should divide long columns as integers', () => {
+      const result = run(`requests
+        | summarize total = count(), failed = countif(success == false)
+        | extend ratio = failed / total, percent = 100 * failed / total, share = todouble(failed) / total`);
+
+      expect(result.rows).toEqual([[4, 1, 0, 25, 0.25]]);
+    });
+
+    it('should type computed columns from columns, literals and functions rather than values', () => {
+      const result = run(`requests
+        | where operation_Id == "op1"
+        | extend bucket = bin(duration, 100), rounded = round(duration), whole = tolong(duration), half = whole / 2,
+            elapsed = now() - timestamp, hour = bin(timestamp, 1h), label = iif(success, 1, 2.5)
+        | project bucket, rounded, whole, half, elapsed, hour, label`);
+
+      expect(result.columns).toEqual([
+        { name: 'bucket', type: 'real' },
+        { name: 'rounded', type: 'real' },
+        { name: 'whole', type: 'long' },
+        { name: 'half', type: 'long' },
+        { name: 'elapsed', type: 'timespan' },
+        { name: 'hour', type: 'datetime' },
+        { name: 'label', type: 'real' }
+      ]);
+      expect(result.rows).toEqual([[100, 120, 120, 60, '01:55:00', '2024-01-10T10:00:00.000Z', 1]]);
+    });
+
+    it('should type aggregates from their arguments', () => {
+      const result = run(`requests
+        | summarize total = sum(todouble(1)), calls = sum(1), slowest = max(duration), p50 = percentile(duration, 50), hours = dcount(bin(timestamp, 1h))`);
+
+      expect(result.columns.map(column => column.type)).toEqual(['real', 'long', 'real', 'real', 'long']);
+      expect(result.rows).toEqual([[4, 4, 850, 120, 3]]);
+    });
+
+    it('should type printed values and ranges from their expressions', () => {
+      expect(run('print whole = 2.0, count = 2').columns).toEqual([{ name: 'whole', type: 'real' }, { name: 'count', type: 'long' }]);
+      expect(run('range x from 1 to 2 step 0.5').columns).toEqual([{ name: 'x', type: 'real' }]);
+      expect(run('range x from 1 to 3 step 1').columns).toEqual([{ name: 'x', type: 'long' }]);
+    });
+  });
+
+  describe('null join keys', () => {
+    const withNullKeys: Record<string, KqlTable> = {
+      ...tables,
+      traces: {
+        columns: [{ name: 'operation_Id', type: 'string' }, { name: 'message', type: 'string' }],
+        rows: [{ operation_Id: null, message: 'startup' }, { operation_Id: 'op2', message: 'retrying' }]
+      },
+      spans: {
+        columns: [{ name: 'operation_Id', type: 'string' }, { name: 'span', type: 'string' }],
+        rows: [{ operation_Id: null, span: 'orphan' }, { operation_Id: 'op2', span: 'db' }]
+      }
+    };
+    const runWithNullKeys = (query: string) => executeKql(query, withNullKeys, { now: NOW });
+
+    it('should not match null keys in joins', () => {
+      expect(runWithNullKeys('traces | join kind=inner (spans) on operation_Id | project message, span').rows)
+        .toEqual([['retrying', 'db']]);
+      expect(runWithNullKeys('traces | join kind=leftouter (spans) on operation_Id | project message, span | sort by message asc').rows)
+        .toEqual([['retrying', 'db'], ['startup', null]]);
+      expect(runWithNullKeys('traces | join kind=leftanti (spans) on operation_Id | project message').rows)
+        .toEqual([['startup']]);
+    });
+
+    it('should keep rows with null keys unmatched in lookups', () => {
+      const result = runWithNullKeys('traces | lookup (spans) on operation_Id | project message, span | sort by message asc');
+
+      expect(result.rows).toEqual([['retrying', 'db'], ['startup', null]]);
+    });
+  });
+
+  describe('mv-expand', () => {
+    it('should convert expanded values to the type given with typeof', () => {
+      const result = run('print ids = dynamic(["1", "2", "x"]) | mv-expand id = ids to typeof(long) | project id');
+
+      expect(result.columns).toEqual([{ name: 'id', type: 'long' }]);
+      expect(result.rows).toEqual([[1], [2], [null]]);
+    });
+
+    it('should expand arrays side by side with the item index', () => {
+      const result = run('print a = dynamic([1, 2, 3]), b = dynamic(["x"]) | mv-expand with_itemindex = i a, b | project i, a, b');
+
+      expect(result.columns).toEqual([{ name: 'i', type: 'long' }, { name: 'a', type: 'dynamic' }, { name: 'b', type: 'dynamic' }]);
+      expect(result.rows).toEqual([[0, 1, 'x'], [1, 2, null], [2, 3, null]]);
+    });
+  });
+
+  it('should suggest a table for unknown names', () => {
+    expect(() => run('request | count')).toThrow("'request'");
+    expect(() => run('request | count')).toThrow('requests');
+  });
+
+  it('should name unsupported operators', () => {
+    expect(() => run('requests | make-series count() on timestamp step 1h'))
+      .toThrow("The 'make-series' operator is not supported by the local KQL interpreter");
+  });
+
+  it('should report syntax errors', () => {
+    expect(() => run('requests | where')).toThrow('Syntax error');
+  });
+});
@@ -0,0 +1,200 @@
+import { containsKqlManagementCommand, parseKql, tokenizeKql, validateKql, summarizeKqlDiagnostics } from '../../src/utils/kql';
+import { KqlFunctionDefinition, KqlQueryStatement, KqlLetStatement } from '../../src/utils/kql/ast';
+
+const messages = (query: string) => validateKql(query).map(diagnostic => diagnostic.message);
+
+describe('KQL tokenizer', () => {
+  it('should produce positioned tokens including comments', () => {
+    const { tokens, diagnostics } = tokenizeKql('requests // recent\n| take 10');
+
+    expect(diagnostics).toEqual([]);
+    expect(tokens.map(token => token.kind)).toEqual(['identifier', 'comment', 'punctuation', 'identifier', 'number', 'eof']);
+    expect(tokens[3]).toMatchObject({ value: 'take', start: 21, end: 25 });
+  });
+
+  it('should recognize timespans, verbatim strings and negated operators', () => {
+    const { tokens } = tokenizeKql(`x > ago(1.5h) and p !contains @'C:\\temp' and y in~ ("a")`);
+
+    expect(tokens.find(token => token.value === '1.5h')?.kind).toBe('timespan');
+    expect(tokens.find(token => token.value === '!contains')?.kind).toBe('operator');
+    expect(tokens.find(token => token.value === `@'C:\\temp'`)?.kind).toBe('string');
+    expect(tokens.find(token => token.value === 'in~')?.kind).toBe('identifier');
+  });
+
+  it('should report unterminated strings with their position', () => {
+    const { diagnostics } = tokenizeKql('requests\n| where name == "abc');
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ message: 'Unterminated string literal', line: 2, column: 17 })
+    ]);
+  });
+});
+
+describe('KQL parser', () => {
+  it('should build a pipeline with typed operators', () => {
+    const { script, diagnostics } = parseKql(
+      'requests | where success == false and name has "api" | summarize failures = count() by bin(timestamp, 5m) | top 5 by failures desc'
+    );
+
+    expect(diagnostics).toEqual([]);
+    const pipeline = (script.statements[0] as KqlQueryStatement).pipeline;
+    expect(pipeline.source).toMatchObject({ kind: 'Name', name: 'requests' });
+    expect(pipeline.operators.map(operator => operator.kind)).toEqual(['Where', 'Summarize', 'Top']);
+    expect(pipeline.operators[1]).toMatchObject({
+      aggregates: [{ name: 'failures', expression: { kind: 'Call', name: 'count', args: [] } }],
+      by: [{ expression: { kind: 'Call', name: 'bin' } }]
+    });
+    expect(pipeline.operators[2]).toMatchObject({ count: { value: 5 }, items: [{ direction: 'desc' }] });
+  });
+
+  it('should parse let statements with tabular and scalar values', () => {
+    const { script, diagnostics } = parseKql('let since = ago(1d);\nlet failed = requests | where timestamp > since and success == false;\nfailed | count');
+
+    expect(diagnostics).toEqual([]);
+    expect(script.statements.map(statement => statement.kind)).toEqual(['Let', 'Let', 'Query']);
+    expect((script.statements[0] as KqlLetStatement).value.kind).toBe('Call');
+    expect((script.statements[1] as KqlLetStatement).value.kind).toBe('Pipeline');
+  });
+
+  it('should parse user-defined functions with scalar and tabular bodies', () => {
+    const functionOf = (query: string) => {
+      const { script, diagnostics } = parseKql(query);
+      expect(diagnostics).toEqual([]);
+      return (script.statements[0] as KqlLetStatement).value as KqlFunctionDefinition;
+    };
+
+    const doubled = functionOf('let f = (x:long) { x * 2 }; requests | extend y = f(itemCount)');
+    expect(doubled.result).toMatchObject({ kind: 'Binary', operator: '*' });
+    expect(doubled.body).toEqual([]);
+
+    const key = functionOf('let key = (a:string, b:string) { strcat(a, "-", b) }; requests | extend k = key(name, operation_Id)');
+    expect(key.result).toMatchObject({ kind: 'Call', name: 'strcat' });
+
+    const scaled = functionOf('let scaled = (x:real) { let factor = 1000.0; x / factor }; print scaled(5)');
+    expect(scaled.body.map(statement => statement.kind)).toEqual(['Let']);
+    expect(scaled.result?.kind).toBe('Binary');
+
+    const tabular = functionOf('let first = (T:(*)) { T | take 1 }; first(requests)');
+    expect(tabular.body.map(statement => statement.kind)).toEqual(['Query']);
+    expect(tabular.result).toBeUndefined();
+  });
+
+  it('should report statements after the result of a function', () => {
+    expect(parseKql('let f = (x:long) { x * 2; requests }; print f(1)').diagnostics[0].message)
+      .toBe("Expected '}' after the function result but found 'requests'");
+  });
+
+  it('should parse literals into values', () => {
+    const { script } = parseKql('print a = 5m, b = datetime(2024-01-01 10:00), c = dynamic({"k": [1, -2]}), d = 0x10');
+
+    const columns = ((script.statements[0] as KqlQueryStatement).pipeline.source as { columns: Array<{ expression: unknown }> }).columns;
+    expect(columns.map(column => (column.expression as { value: unknown }).value)).toEqual([
+      300000,
+      '2024-01-01T10:00:00.000Z',
+      { k: [1, -2] },
+      16
+    ]);
+  });
+
+  it('should parse joins, unions, mv-expand and parse operators', () => {
+    const query = [
+      'union withsource=SourceTable requests, (traces | where severityLevel > 2)',
+      '| join kind=leftouter hint.strategy=shuffle (dependencies | project operation_Id) on $left.operation_Id == $right.operation_Id',
+      '| mv-expand tags to typeof(string) limit 10',
+      '| parse message with "user=" user:string " " *',
+      '| project-away customDimensions*'
+    ].join('\n');
+
+    const { script, diagnostics } = parseKql(query);
+
+    expect(diagnostics).toEqual([]);
+    const pipeline = (script.statements[0] as KqlQueryStatement).pipeline;
+    expect(pipeline.source).toMatchObject({ kind: 'Union', options: [{ name: 'withsource', value: 'SourceTable' }] });
+    expect(pipeline.operators[0]).toMatchObject({
+      kind: 'Join',
+      options: [{ name: 'kind', value: 'leftouter' }, { name: 'hint.strategy', value: 'shuffle' }]
+    });
+    expect(pipeline.operators[2]).toMatchObject({
+      kind: 'Parse',
+      pattern: [{ kind: 'text', value: 'user=' }, { kind: 'column', name: 'user', type: 'string' }, { kind: 'text', value: ' ' }, { kind: 'wildcard' }]
+    });
+    expect(pipeline.operators[3]).toMatchObject({ kind: 'Project', columns: [{ expression: { kind: 'Wildcard', pattern: 'customDimensions*' } }] });
+  });
+
+  it('should parse terms over all columns', () => {
+    const { script, diagnostics } = parseKql('requests | where * has "error"');
+
+    expect(diagnostics).toEqual([]);
+    expect((script.statements[0] as KqlQueryStatement).pipeline.operators[0]).toMatchObject({
+      kind: 'Where',
+      predicate: { kind: 'Binary', operator: 'has', left: { kind: 'Wildcard', pattern: '*' } }
+    });
+    expect(parseKql('requests | where * == "error"').diagnostics).toHaveLength(1);
+  });
+
+  it('should detect management commands with and without the leading dot', () => {
+    expect(parseKql('.drop table requests').script.statements[0]).toMatchObject({ kind: 'ManagementCommand', command: '.drop' });
+    expect(parseKql('drop table requests').script.statements[0]).toMatchObject({ kind: 'ManagementCommand', command: 'drop' });
+  });
+
+  it('should continue with the next statement after a syntax error', () => {
+    const { script, diagnostics } = parseKql('let x = (1 + ;\nrequests | take 1');
+
+    expect(diagnostics).toHaveLength(1);
+    expect(script.statements.map(statement => statement.kind)).toEqual(['Query']);
+  });
+});
+
+describe('validateKql', () => {
+  it.each([
+    'requests | take 10',
+    'requests | where name contains "drop" | extend deleted = true | project deleted',
+    'requests | where resultCode in ("500", "503") and duration between (100 .. 500) | order by timestamp desc nulls last',
+    'range x from 1 to 10 step 1 | extend y = x * 2',
+    'requests | where * has "error" and * !contains "timeout"',
+    'let f = (n:int) { requests | take n };\nf(5)',
+    'let f = (x:long) { x * 2 };\nrequests | extend y = f(duration)',
+    'requests | make-series count() default=0 on timestamp from ago(1d) to now() step 1h by name | render timechart'
+  ])('should accept %s', query => {
+    expect(validateKql(query)).toEqual([]);
+  });
+
+  it('should reject empty queries', () => {
+    expect(messages('   ')).toEqual(['Query cannot be empty']);
+  });
+
+  it('should flag management commands as dangerous', () => {
+    expect(messages('.set-or-append T <| requests')).toEqual(['Potentially dangerous operation detected: .set-or-append']);
+    expect(messages('.show tables')).toEqual([`Management command '.show' cannot be run as a query`]);
+    expect(containsKqlManagementCommand('requests | take 1;\n.drop table requests')).toBe(true);
+    expect(containsKqlManagementCommand('requests | wher success')).toBe(false);
+  });
+
+  it('should report unknown operators with their line and column', () => {
+    const diagnostics = validateKql('requests\n| wher success == false');
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ severity: 'error', message: `Unknown query operator 'wher'`, line: 2, column: 3, length: 4 })
+    ]);
+    expect(summarizeKqlDiagnostics(diagnostics)).toBe(`Line 2, column 3: Unknown query operator 'wher'`);
+  });
+
+  it('should point out case mistakes in operator names', () => {
+    expect(messages('requests | Where success')).toEqual([
+      `Unknown query operator 'Where' (operators are case-sensitive, did you mean 'where'?)`
+    ]);
+  });
+
+  it.each([
+    ['requests | where (success == false', `Expected ')' but found end of query`],
+    ['requests | take 10 rows', `Expected '|' or ';' but found 'rows'`],
+    ['requests | summarize', `summarize requires an aggregation or a 'by' clause`],
+    ['requests | order timestamp', `Expected 'by' after 'order' but found 'timestamp'`],
+    ['requests | extend x = 5q', `Invalid numeric literal '5q'`],
+    ['requests | where timestamp > datetime(yesterday)', `Invalid datetime literal 'yesterday'`],
+    ['requests | where name == ', 'Expected an expression but found end of query'],
+    ['let x = 1;', 'Query must end with a tabular expression (let statements alone return nothing)']
+  ])('should report syntax errors in %s', (query, message) => {
+    expect(messages(query)).toEqual([message]);
+  });
+});
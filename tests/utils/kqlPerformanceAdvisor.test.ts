@@ -0,0 +1,111 @@
+import { analyzeKqlPerformance } from '../../src/utils/kql';
+
+const rules = (query: string, dataSourceType?: Parameters<typeof analyzeKqlPerformance>[1]) =>
+  analyzeKqlPerformance(query, dataSourceType).findings.map(finding => finding.rule);
+
+describe('analyzeKqlPerformance', () => {
+  it('should report nothing for a time-filtered query', () => {
+    expect(analyzeKqlPerformance('requests | where timestamp > ago(1h) | summarize count() by name')).toEqual({
+      score: 100,
+      findings: []
+    });
+  });
+
+  describe('missing time filter', () => {
+    it('should suggest a time filter on the data source time column', () => {
+      const [finding] = analyzeKqlPerformance('requests | summarize count() by name').findings;
+
+      expect(finding).toMatchObject({ rule: 'missing-time-filter', severity: 'medium', line: 1, column: 1, length: 8 });
+      expect(finding.rewrite).toBe('requests\n| where timestamp > ago(1d)\n| summarize count() by name');
+    });
+
+    it('should use TimeGenerated on Log Analytics and rank the finding higher on Data Explorer', () => {
+      expect(analyzeKqlPerformance('AppRequests | count', 'log-analytics').findings[0].suggestion)
+        .toContain('where TimeGenerated > ago(1d)');
+      expect(analyzeKqlPerformance('StormEvents | count', 'azure-data-explorer').findings[0].severity).toBe('high');
+    });
+
+    it('should accept time filters written with between, datetime literals or after a union', () => {
+      expect(rules('requests | where timestamp between (ago(2h) .. ago(1h))')).toEqual([]);
+      expect(rules('requests | where timestamp >= datetime(2024-01-01) and success == false')).toEqual([]);
+      expect(rules('union requests, dependencies | where timestamp > ago(1d) | count')).toEqual([]);
+    });
+
+    it('should not count a filter that only one side of an or applies', () => {
+      expect(rules('requests | where timestamp > ago(1h) or success == false')).toEqual(['missing-time-filter']);
+    });
+
+    it('should follow let statements to where their tables are filtered', () => {
+      expect(rules('let r = requests; r | where timestamp > ago(1h) | count')).toEqual([]);
+      expect(rules('let r = requests | where timestamp > ago(1h); r | count')).toEqual([]);
+      expect(rules('let r = requests; r | count')).toEqual(['missing-time-filter']);
+    });
+
+    it('should check the right side of joins and scalar subqueries on their own', () => {
+      const findings = analyzeKqlPerformance(
+        'requests | where timestamp > ago(1h) | extend total = toscalar(exceptions | count)'
+      ).findings;
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0].message).toContain(`'exceptions'`);
+    });
+
+    it('should not report queries that only take a few rows', () => {
+      expect(rules('requests | take 10')).toEqual([]);
+    });
+
+    it('should rely on the timespan the data source applies, except on Data Explorer', () => {
+      const query = 'union requests, exceptions | join kind=inner (dependencies | where success == false) on operation_Id | count';
+
+      expect(analyzeKqlPerformance(query, 'application-insights', 'PT1H')).toEqual({ score: 100, findings: [] });
+      expect(analyzeKqlPerformance('AppRequests | count', 'log-analytics', 'P1D').findings).toEqual([]);
+      expect(analyzeKqlPerformance('StormEvents | count', 'azure-data-explorer', 'P1D').findings.map(finding => finding.rule))
+        .toEqual(['missing-time-filter']);
+    });
+  });
+
+  it('should suggest has instead of contains for whole terms', () => {
+    const [finding] = analyzeKqlPerformance('requests | where timestamp > ago(1h) and name !contains "health"').findings;
+
+    expect(finding).toMatchObject({ rule: 'contains-instead-of-has', severity: 'medium', column: 47, length: 9 });
+    expect(finding.rewrite).toBe('requests\n| where timestamp > ago(1h) and name !has "health"');
+    expect(rules('requests | where timestamp > ago(1h) and url contains "/api/"')).toEqual([]);
+  });
+
+  it('should report search across all tables', () => {
+    expect(analyzeKqlPerformance('search *').findings[0]).toMatchObject({ rule: 'search-all-tables', severity: 'high' });
+    expect(analyzeKqlPerformance('search "timeout"').findings[0].severity).toBe('medium');
+    expect(analyzeKqlPerformance('search "timeout"', 'log-analytics').findings[0].severity).toBe('high');
+    expect(rules('search in (traces) "timeout" | where timestamp > ago(1h)')).toEqual([]);
+  });
+
+  it('should report joins of an unfiltered right side without hint.strategy', () => {
+    const query = 'requests | where timestamp > ago(1h) | join kind=inner (dependencies) on operation_Id';
+    const finding = analyzeKqlPerformance(query).findings.find(item => item.rule === 'join-without-strategy');
+
+    expect(finding?.rewrite).toContain('| join hint.strategy=shuffle kind=inner (dependencies) on operation_Id');
+    expect(rules('requests | where timestamp > ago(1h) | join hint.strategy=broadcast (dependencies) on operation_Id'))
+      .not.toContain('join-without-strategy');
+    expect(rules('requests | where timestamp > ago(1h) | join (dependencies | where timestamp > ago(1h)) on operation_Id'))
+      .toEqual([]);
+  });
+
+  it('should suggest top instead of sort followed by take', () => {
+    const [finding] = analyzeKqlPerformance('requests | where timestamp > ago(1h) | order by duration desc | take 10').findings;
+
+    expect(finding).toMatchObject({ rule: 'sort-before-take', severity: 'low' });
+    expect(finding.rewrite).toBe('requests\n| where timestamp > ago(1h)\n| top 10 by duration desc');
+  });
+
+  it('should rank findings by severity and lower the score for each', () => {
+    const report = analyzeKqlPerformance('StormEvents | where State contains "TEXAS" | sort by Time | take 5', 'azure-data-explorer');
+
+    expect(report.findings.map(finding => finding.severity)).toEqual(['high', 'medium', 'low']);
+    expect(report.score).toBe(30);
+  });
+
+  it('should not analyze invalid queries or metrics data sources', () => {
+    expect(analyzeKqlPerformance('requests | where')).toEqual({ score: 100, findings: [] });
+    expect(analyzeKqlPerformance('requests', 'azure-metrics')).toEqual({ score: 100, findings: [] });
+  });
+});
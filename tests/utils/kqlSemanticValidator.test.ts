@@ -0,0 +1,149 @@
+import { normalizeKqlSchema, validateKqlAgainstSchema, suggestKqlName, diffKqlSchemas, KqlSchema } from '../../src/utils/kql';
+
+const appInsightsSchema: KqlSchema = {
+  tables: {
+    requests: {
+      timestamp: 'datetime', name: 'string', success: 'bool', duration: 'real', resultCode: 'string',
+      operation_Id: 'string', customDimensions: 'dynamic', cloud_RoleName: 'string'
+    },
+    dependencies: { timestamp: 'datetime', target: 'string', duration: 'real', operation_Id: 'string' },
+    exceptions: null
+  }
+};
+
+const logAnalyticsSchema: KqlSchema = {
+  tables: {
+    AppRequests: { TimeGenerated: 'datetime', Name: 'string', Success: 'bool', DurationMs: 'real', AppRoleName: 'string' }
+  }
+};
+
+const messages = (query: string, schema: KqlSchema = appInsightsSchema) =>
+  validateKqlAgainstSchema(query, schema).map(diagnostic => diagnostic.message);
+
+describe('normalizeKqlSchema', () => {
+  it('should read the Application Insights metadata format', () => {
+    const schema = normalizeKqlSchema({
+      schema: { tables: [{ name: 'requests', columns: [{ name: 'timestamp', type: 'datetime' }] }] },
+      tables: ['requests', 'traces']
+    });
+
+    expect(schema).toEqual({ tables: { requests: { timestamp: 'datetime' }, traces: null } });
+  });
+
+  it('should read the Log Analytics getschema summary', () => {
+    const schema = normalizeKqlSchema({
+      schema: {
+        tables: [{
+          name: 'PrimaryResult',
+          columns: [{ name: 'TableName', type: 'string' }, { name: 'ColumnCount', type: 'long' }, { name: 'Columns', type: 'dynamic' }],
+          rows: [['AppRequests', 2, ['TimeGenerated:datetime', 'Name:string']], ['AppTraces', 1, '["Message:string"]']]
+        }]
+      }
+    });
+
+    expect(schema).toEqual({
+      tables: {
+        AppRequests: { TimeGenerated: 'datetime', Name: 'string' },
+        AppTraces: { Message: 'string' }
+      }
+    });
+  });
+
+  it('should read the Azure Data Explorer table map', () => {
+    expect(normalizeKqlSchema({ tables: ['StormEvents'], schema: { StormEvents: { State: 'string' } } })).toEqual({
+      tables: { StormEvents: { State: 'string' } }
+    });
+  });
+
+  it('should return null when no tables are found', () => {
+    expect(normalizeKqlSchema({ schema: null })).toBeNull();
+    expect(normalizeKqlSchema(undefined)).toBeNull();
+  });
+});
+
+describe('diffKqlSchemas', () => {
+  it('should report tables and columns added or removed', () => {
+    const diff = diffKqlSchemas(
+      { tables: { requests: { name: 'string', duration: 'real' }, pageViews: { name: 'string' }, traces: null } },
+      { tables: { requests: { name: 'string', resultCode: 'string' }, customEvents: { name: 'string' }, traces: { message: 'string' } } }
+    );
+
+    expect(diff).toEqual({
+      addedTables: ['customEvents'],
+      removedTables: ['pageViews'],
+      changedTables: [{ table: 'requests', addedColumns: ['resultCode'], removedColumns: ['duration'] }]
+    });
+  });
+});
+
+describe('validateKqlAgainstSchema', () => {
+  it.each([
+    'requests | where timestamp > ago(1h) and success == false | project name, duration',
+    'requests | summarize failures = countif(success == false), count() by bin(timestamp, 5m), cloud_RoleName | where count_ > 0 | order by timestamp',
+    'requests | summarize avg(duration), percentiles(duration, 50, 95) by name | where avg_duration > percentile_duration_95',
+    'requests | extend code = toint(resultCode), area = tostring(customDimensions.area) | where code >= 500 | project-rename Area = area | project Area',
+    'let threshold = 500;\nlet slow = requests | where duration > threshold | project operation_Id, duration;\nslow | join kind=inner (dependencies | project operation_Id, target) on operation_Id | project target, duration',
+    'requests | join (dependencies) on $left.operation_Id == $right.operation_Id | project duration1',
+    'requests | parse name with "GET /" route:string "/" * | summarize count() by route',
+    'requests | project-away customDimensions, cloud* | where name != "" | count | where Count > 0',
+    'exceptions | where anything == 1',
+    'requests | evaluate bag_unpack(customDimensions) | where area == "checkout"',
+    'requests | mv-expand with_itemindex=i tag = customDimensions.tags | project i, tag',
+    'print now = now(), since = ago(1h)',
+    'union requests, dependencies | where target != "" or name != "" | project _ResourceId'
+  ])('should accept %s', query => {
+    expect(validateKqlAgainstSchema(query, appInsightsSchema)).toEqual([]);
+  });
+
+  it('should flag unknown columns with did-you-mean suggestions', () => {
+    const diagnostics = validateKqlAgainstSchema('requests\n| where duraton > 100 and Success == false\n| project nam', appInsightsSchema);
+
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual([
+      `Unknown column 'duraton' (did you mean 'duration'?)`,
+      `Unknown column 'Success' (did you mean 'success'?)`,
+      `Unknown column 'nam' (did you mean 'name'?)`
+    ]);
+    expect(diagnostics[0]).toMatchObject({ severity: 'error', line: 2, column: 9, length: 7 });
+  });
+
+  it('should suggest Log Analytics names for Application Insights identifiers', () => {
+    const diagnostics = validateKqlAgainstSchema('requests | where timestamp > ago(1h)', logAnalyticsSchema);
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ severity: 'warning', message: `Unknown table 'requests' (did you mean 'AppRequests'?)` })
+    ]);
+    expect(messages('AppRequests | where timestamp > ago(1h) | summarize count() by cloud_RoleName', logAnalyticsSchema)).toEqual([
+      `Unknown column 'timestamp' (did you mean 'TimeGenerated'?)`,
+      `Unknown column 'cloud_RoleName' (did you mean 'AppRoleName'?)`
+    ]);
+  });
+
+  it('should track the columns each operator produces', () => {
+    expect(messages('requests | project name | where duration > 1')).toEqual([`Unknown column 'duration'`]);
+    expect(messages('requests | summarize total = count() by name | project timestamp')).toEqual([`Unknown column 'timestamp'`]);
+    expect(messages('requests | join kind=leftsemi (dependencies) on operation_Id | project target')).toEqual([`Unknown column 'target'`]);
+  });
+
+  it('should check both sides of a join condition', () => {
+    expect(messages('requests | join (dependencies) on $left.operation_Id == $right.name')).toEqual([
+      `Unknown column 'name'`
+    ]);
+  });
+
+  it('should report each unknown name once', () => {
+    expect(messages('requests | where foo > 1 | where foo < 10')).toEqual([`Unknown column 'foo'`]);
+  });
+
+  it('should skip queries with syntax errors', () => {
+    expect(validateKqlAgainstSchema('requests | where foo >', appInsightsSchema)).toEqual([]);
+  });
+});
+
+describe('suggestKqlName', () => {
+  it('should prefer known equivalents, then case-insensitive and close matches', () => {
+    expect(suggestKqlName('timestamp', ['TimeGenerated', 'Timestamp'])).toBe('TimeGenerated');
+    expect(suggestKqlName('resultcode', ['ResultCode'])).toBe('ResultCode');
+    expect(suggestKqlName('opration_Id', ['operation_Id', 'operation_Name'])).toBe('operation_Id');
+    expect(suggestKqlName('xyz', ['operation_Id'])).toBeUndefined();
+  });
+});
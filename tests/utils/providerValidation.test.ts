@@ -123,17 +123,98 @@ describe('ProviderConfigValidator', () => {
       });
     });
 
-    describe('Unsupported Providers', () => {
-      it('should reject unsupported AI provider types', () => {
+    describe('Anthropic', () => {
+      it('should validate complete Anthropic configuration', () => {
         const config: AIProviderConfig = {
           type: 'anthropic',
-          apiKey: 'test-key'
+          apiKey: 'test-key',
+          model: 'claude-sonnet-4-5'
+        };
+
+        const result = ProviderConfigValidator.validateAIProviderConfig(config);
+
+        expect(result.isValid).toBe(true);
+        expect(result.errors).toHaveLength(0);
+        expect(result.warnings).toHaveLength(0);
+      });
+
+      it('should reject Anthropic config without API key', () => {
+        const config: AIProviderConfig = {
+          type: 'anthropic',
+          model: 'claude-sonnet-4-5'
+        };
+
+        const result = ProviderConfigValidator.validateAIProviderConfig(config);
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toContain('Anthropic API key is required');
+      });
+
+      it('should warn about missing model and unused fields', () => {
+        const config: AIProviderConfig = {
+          type: 'anthropic',
+          apiKey: 'test-key',
+          deploymentName: 'unused'
+        };
+
+        const result = ProviderConfigValidator.validateAIProviderConfig(config);
+
+        expect(result.isValid).toBe(true);
+        expect(result.warnings).toContain('Anthropic model not specified, will use default (claude-sonnet-4-5)');
+        expect(result.warnings).toContain('Deployment name not used for Anthropic provider, will be ignored');
+      });
+
+      it('should reject invalid Anthropic endpoint URL', () => {
+        const config: AIProviderConfig = {
+          type: 'anthropic',
+          apiKey: 'test-key',
+          endpoint: 'not-a-url'
         };
 
         const result = ProviderConfigValidator.validateAIProviderConfig(config);
 
         expect(result.isValid).toBe(false);
-        expect(result.errors).toContain('Anthropic provider not yet implemented');
+        expect(result.errors).toContain('Anthropic endpoint must be a valid URL');
+      });
+    });
+    describe('OpenAI-compatible', () => {
+      it('should validate complete OpenAI-compatible configuration', () => {
+        const config: AIProviderConfig = {
+          type: 'openai-compatible',
+          endpoint: 'http://localhost:8000/v1',
+          model: 'qwen2.5-coder'
+        };
+
+        const result = ProviderConfigValidator.validateAIProviderConfig(config);
+
+        expect(result.isValid).toBe(true);
+        expect(result.errors).toHaveLength(0);
+      });
+
+      it('should require endpoint and model', () => {
+        const config: AIProviderConfig = {
+          type: 'openai-compatible'
+        };
+
+        const result = ProviderConfigValidator.validateAIProviderConfig(config);
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toContain('OpenAI-compatible endpoint (base URL) is required');
+        expect(result.errors).toContain('Model name is required for OpenAI-compatible provider');
+      });
+
+      it('should warn about auth header without API key', () => {
+        const config: AIProviderConfig = {
+          type: 'openai-compatible',
+          endpoint: 'http://localhost:4000',
+          model: 'gpt-4o',
+          authHeader: 'x-api-key'
+        };
+
+        const result = ProviderConfigValidator.validateAIProviderConfig(config);
+
+        expect(result.isValid).toBe(true);
+        expect(result.warnings).toContain("Auth header 'x-api-key' configured without an API key, it will not be sent");
       });
     });
   });
@@ -179,6 +260,54 @@ describe('ProviderConfigValidator', () => {
       });
     });
 
+    describe('Application Insights API key', () => {
+      afterEach(() => {
+        delete process.env.AZURE_APPLICATION_INSIGHTS_API_KEY;
+      });
+
+      it('should accept an API key from the environment', () => {
+        process.env.AZURE_APPLICATION_INSIGHTS_API_KEY = 'test-api-key';
+        const config: DataSourceConfig = {
+          type: 'application-insights',
+          applicationId: 'test-app-id',
+          authMode: 'api-key'
+        };
+
+        const result = ProviderConfigValidator.validateDataSourceConfig(config);
+
+        expect(result.isValid).toBe(true);
+        expect(result.warnings).toHaveLength(0);
+      });
+
+      it('should require an API key in api-key mode', () => {
+        const config: DataSourceConfig = {
+          type: 'application-insights',
+          applicationId: 'test-app-id',
+          authMode: 'api-key',
+          apiKey: '${MISSING_APP_INSIGHTS_KEY}'
+        };
+
+        const result = ProviderConfigValidator.validateDataSourceConfig(config);
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toContain('Application Insights API key is required for api-key auth mode (set MISSING_APP_INSIGHTS_KEY)');
+      });
+
+      it('should warn about plain text API keys', () => {
+        const config: DataSourceConfig = {
+          type: 'application-insights',
+          applicationId: 'test-app-id',
+          authMode: 'api-key',
+          apiKey: 'test-api-key'
+        };
+
+        const result = ProviderConfigValidator.validateDataSourceConfig(config);
+
+        expect(result.isValid).toBe(true);
+        expect(result.warnings[0]).toContain('Application Insights API key is stored in plain text');
+      });
+    });
+
     describe('Log Analytics', () => {
       it('should validate complete Log Analytics configuration', () => {
         const config: DataSourceConfig = {
@@ -235,16 +364,55 @@ describe('ProviderConfigValidator', () => {
       });
     });
 
-    describe('Unsupported Providers', () => {
-      it('should reject unsupported data source provider types', () => {
+    describe('Azure Metrics', () => {
+      it('should validate configuration with a resource ID', () => {
+        const config: DataSourceConfig = {
+          type: 'azure-metrics',
+          resourceId: '/subscriptions/test-sub-id/resourceGroups/test-rg/providers/Microsoft.Compute/virtualMachines/test-vm'
+        };
+
+        const result = ProviderConfigValidator.validateDataSourceConfig(config);
+
+        expect(result.isValid).toBe(true);
+        expect(result.errors).toHaveLength(0);
+      });
+
+      it('should validate configuration with resource ID parts', () => {
+        const config: DataSourceConfig = {
+          type: 'azure-metrics',
+          subscriptionId: 'test-sub-id',
+          resourceGroup: 'test-rg',
+          resourceType: 'Microsoft.Compute/virtualMachines',
+          resourceName: 'test-vm'
+        };
+
+        const result = ProviderConfigValidator.validateDataSourceConfig(config);
+
+        expect(result.isValid).toBe(true);
+      });
+
+      it('should reject missing resource information', () => {
+        const config: DataSourceConfig = {
+          type: 'azure-metrics',
+          subscriptionId: 'test-sub-id'
+        };
+
+        const result = ProviderConfigValidator.validateDataSourceConfig(config);
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toContain('Azure Metrics resource ID is required (or resourceGroup, resourceType, resourceName)');
+      });
+
+      it('should reject malformed resource IDs', () => {
         const config: DataSourceConfig = {
-          type: 'azure-metrics'
+          type: 'azure-metrics',
+          resourceId: 'test-vm'
         };
 
         const result = ProviderConfigValidator.validateDataSourceConfig(config);
 
         expect(result.isValid).toBe(false);
-        expect(result.errors).toContain('Azure Metrics provider not yet implemented');
+        expect(result.errors[0]).toMatch(/resource ID must look like/);
       });
     });
   });
@@ -286,20 +454,102 @@ describe('ProviderConfigValidator', () => {
         expect(result.isValid).toBe(true);
         expect(result.warnings).toHaveLength(0);
       });
+
+      it('should validate a credential chain', () => {
+        const config: AuthConfig = {
+          type: 'azure-managed-identity',
+          credentials: ['azure-cli', 'device-code']
+        };
+
+        const result = ProviderConfigValidator.validateAuthConfig(config);
+
+        expect(result.isValid).toBe(true);
+        expect(result.warnings).toHaveLength(0);
+      });
+
+      it('should reject empty or unknown credential chains', () => {
+        const empty = ProviderConfigValidator.validateAuthConfig({ type: 'azure-managed-identity', credentials: [] });
+        const unknown = ProviderConfigValidator.validateAuthConfig({
+          type: 'azure-managed-identity',
+          credentials: ['azure-cli', 'vscode' as any]
+        });
+
+        expect(empty.isValid).toBe(false);
+        expect(empty.errors).toContain('Credential chain must list at least one credential');
+        expect(unknown.isValid).toBe(false);
+        expect(unknown.errors[0]).toContain('Unknown credential method(s): vscode');
+      });
+
+      it('should warn about duplicate credentials', () => {
+        const config: AuthConfig = {
+          type: 'azure-managed-identity',
+          credentials: ['azure-cli', 'device-code', 'azure-cli']
+        };
+
+        const result = ProviderConfigValidator.validateAuthConfig(config);
+
+        expect(result.isValid).toBe(true);
+        expect(result.warnings).toContain('Credential chain lists a credential more than once, duplicates will be ignored');
+      });
     });
 
-    describe('Unsupported Providers', () => {
-      it('should reject unsupported auth provider types', () => {
+    describe('Service Principal', () => {
+      it('should validate client secret configuration', () => {
         const config: AuthConfig = {
           type: 'service-principal',
+          tenantId: 'test-tenant-id',
           clientId: 'test-client-id',
           clientSecret: 'test-secret'
         };
 
         const result = ProviderConfigValidator.validateAuthConfig(config);
 
+        expect(result.isValid).toBe(true);
+        expect(result.errors).toHaveLength(0);
+        expect(result.warnings).toHaveLength(0);
+      });
+
+      it('should validate certificate configuration', () => {
+        const config: AuthConfig = {
+          type: 'service-principal',
+          tenantId: 'test-tenant-id',
+          clientId: 'test-client-id',
+          certificatePath: '/etc/ssl/private/sp.pem'
+        };
+
+        const result = ProviderConfigValidator.validateAuthConfig(config);
+
+        expect(result.isValid).toBe(true);
+      });
+
+      it('should require tenant ID, client ID and a credential', () => {
+        const config: AuthConfig = {
+          type: 'service-principal'
+        };
+
+        const result = ProviderConfigValidator.validateAuthConfig(config);
+
         expect(result.isValid).toBe(false);
-        expect(result.errors).toContain('Service Principal auth provider not yet implemented');
+        expect(result.errors).toEqual([
+          'Service Principal tenant ID is required',
+          'Service Principal client ID is required',
+          'Service Principal client secret or certificate path is required'
+        ]);
+      });
+
+      it('should warn when both client secret and certificate are configured', () => {
+        const config: AuthConfig = {
+          type: 'service-principal',
+          tenantId: 'test-tenant-id',
+          clientId: 'test-client-id',
+          clientSecret: 'test-secret',
+          certificatePath: '/etc/ssl/private/sp.pem'
+        };
+
+        const result = ProviderConfigValidator.validateAuthConfig(config);
+
+        expect(result.isValid).toBe(true);
+        expect(result.warnings).toContain('Both client secret and certificate configured for Service Principal, certificate will be used');
       });
     });
   });
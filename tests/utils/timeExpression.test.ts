@@ -0,0 +1,136 @@
+import { formatTimeRange, formatTimespan, parseTimeExpression, resolveTimeRange, resolveTimeRangeTimespan } from '../../src/utils/timeExpression';
+
+describe('timeExpression', () => {
+  // Wednesday 2024-01-10 12:00 UTC, 21:00 in Tokyo
+  const now = new Date('2024-01-10T12:00:00.000Z');
+  const resolve = (expression: string, timeZone = 'UTC') => parseTimeExpression(expression, { now, timeZone });
+  const interval = (expression: string, timeZone?: string) => {
+    const range = resolve(expression, timeZone);
+    return [range.start.toISOString(), range.end.toISOString()];
+  };
+
+  describe('relative ranges', () => {
+    it('should keep "last" ranges relative', () => {
+      expect(resolve('last 2 hours')).toMatchObject({ duration: 'PT2H', timespan: 'PT2H', start: new Date('2024-01-10T10:00:00.000Z'), end: now });
+      expect(resolve('past 30 minutes').timespan).toBe('PT30M');
+      expect(resolve('the last hour').timespan).toBe('PT1H');
+      expect(resolve('last day').timespan).toBe('P1D');
+      expect(resolve('past week').timespan).toBe('P7D');
+      expect(resolve('last 2 weeks').timespan).toBe('P14D');
+    });
+
+    it('should accept durations and ISO 8601 timespans', () => {
+      expect(resolve('6h').timespan).toBe('PT6H');
+      expect(resolve('PT90M').timespan).toBe('PT1H30M');
+      expect(interval('2024-01-01T00:00:00Z/2024-01-01T06:00:00Z')).toEqual(['2024-01-01T00:00:00.000Z', '2024-01-01T06:00:00.000Z']);
+    });
+  });
+
+  describe('days', () => {
+    it('should resolve today and yesterday in the time zone', () => {
+      expect(interval('today')).toEqual(['2024-01-10T00:00:00.000Z', '2024-01-10T12:00:00.000Z']);
+      expect(interval('yesterday')).toEqual(['2024-01-09T00:00:00.000Z', '2024-01-10T00:00:00.000Z']);
+      expect(interval('yesterday', 'Asia/Tokyo')).toEqual(['2024-01-08T15:00:00.000Z', '2024-01-09T15:00:00.000Z']);
+    });
+
+    it('should resolve weekdays to their most recent occurrence', () => {
+      expect(interval('last Tuesday')).toEqual(['2024-01-09T00:00:00.000Z', '2024-01-10T00:00:00.000Z']);
+      expect(interval('last Wednesday')).toEqual(['2024-01-03T00:00:00.000Z', '2024-01-04T00:00:00.000Z']);
+      expect(interval('on Friday')).toEqual(['2024-01-05T00:00:00.000Z', '2024-01-06T00:00:00.000Z']);
+      expect(interval('2024-01-02')).toEqual(['2024-01-02T00:00:00.000Z', '2024-01-03T00:00:00.000Z']);
+    });
+
+    it('should resolve calendar weeks and months', () => {
+      expect(interval('this week')).toEqual(['2024-01-08T00:00:00.000Z', '2024-01-10T12:00:00.000Z']);
+      expect(interval('last week')).toEqual(['2024-01-01T00:00:00.000Z', '2024-01-08T00:00:00.000Z']);
+      expect(interval('last month')).toEqual(['2023-12-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z']);
+    });
+  });
+
+  describe('ranges', () => {
+    it('should resolve times of a named day in the named zone', () => {
+      const range = resolve('between 14:00 and 15:30 yesterday UTC', 'Asia/Tokyo');
+
+      expect([range.start.toISOString(), range.end.toISOString()]).toEqual(['2024-01-09T14:00:00.000Z', '2024-01-09T15:30:00.000Z']);
+      expect(range.duration).toBe('PT1H30M');
+      expect(range.timespan).toBe('2024-01-09T14:00:00.000Z/2024-01-09T15:30:00.000Z');
+      expect(range.timeZone).toBe('UTC');
+    });
+
+    it('should accept from/to, UTC offsets and full dates', () => {
+      expect(interval('from 2024-01-02 09:00 to 2024-01-02 17:30 +09:00')).toEqual(['2024-01-02T00:00:00.000Z', '2024-01-02T08:30:00.000Z']);
+      expect(interval('yesterday from 9am to 5pm', 'UTC+1')).toEqual(['2024-01-09T08:00:00.000Z', '2024-01-09T16:00:00.000Z']);
+      expect(interval('from Monday to Tuesday')).toEqual(['2024-01-08T00:00:00.000Z', '2024-01-10T00:00:00.000Z']);
+    });
+
+    it('should run overnight ranges into the next day and move ranges still ahead to yesterday', () => {
+      expect(interval('between 22:00 and 02:00 yesterday')).toEqual(['2024-01-09T22:00:00.000Z', '2024-01-10T02:00:00.000Z']);
+      expect(interval('between 14:00 and 15:00')).toEqual(['2024-01-09T14:00:00.000Z', '2024-01-09T15:00:00.000Z']);
+    });
+
+    it('should end ranges that are still going on now', () => {
+      expect(interval('between 9am and 5pm')).toEqual(['2024-01-10T09:00:00.000Z', '2024-01-10T12:00:00.000Z']);
+      expect(interval('from Monday to Wednesday')).toEqual(['2024-01-08T00:00:00.000Z', '2024-01-10T12:00:00.000Z']);
+    });
+
+    it('should take the weekdays of a range from the same week', () => {
+      const tuesday = new Date('2024-01-09T12:00:00.000Z');
+      const range = parseTimeExpression('between Monday and Wednesday', { now: tuesday, timeZone: 'UTC' });
+
+      expect([range.start.toISOString(), range.end.toISOString()]).toEqual(['2024-01-01T00:00:00.000Z', '2024-01-04T00:00:00.000Z']);
+    });
+
+    it('should resolve open ranges until now', () => {
+      expect(interval('since the deploy at 9am JST', 'UTC')).toEqual(['2024-01-10T00:00:00.000Z', '2024-01-10T12:00:00.000Z']);
+      expect(interval('since 1pm')).toEqual(['2024-01-09T13:00:00.000Z', '2024-01-10T12:00:00.000Z']);
+      expect(interval('since 2 hours ago')).toEqual(['2024-01-10T10:00:00.000Z', '2024-01-10T12:00:00.000Z']);
+      expect(interval('since 2024-01-10T11:15:00Z')).toEqual(['2024-01-10T11:15:00.000Z', '2024-01-10T12:00:00.000Z']);
+      expect(interval('since Monday', 'America/New_York')).toEqual(['2024-01-08T05:00:00.000Z', '2024-01-10T12:00:00.000Z']);
+    });
+  });
+
+  describe('errors', () => {
+    it('should reject expressions it cannot resolve', () => {
+      expect(() => resolve('')).toThrow('Time range expression is empty');
+      expect(() => resolve('whenever')).toThrow("Could not understand the time range 'whenever'");
+      expect(() => resolve('yesterday at 9am')).toThrow('is a point in time, not a range');
+      expect(() => resolve('since the deploy')).toThrow('Could not find a date or time');
+      expect(() => resolve('from 2024-01-09 15:00 to 2024-01-09 14:00')).toThrow('ends before it starts');
+      expect(() => resolve('last 2 hours', 'Mars/Olympus')).toThrow("Unknown time zone 'Mars/Olympus'");
+    });
+  });
+
+  it('should follow daylight saving time in IANA zones', () => {
+    const summer = parseTimeExpression('yesterday', { now: new Date('2024-07-10T12:00:00.000Z'), timeZone: 'Europe/Berlin' });
+
+    expect(summer.start.toISOString()).toBe('2024-07-08T22:00:00.000Z');
+  });
+
+  it('should resolve kept time ranges at the time of each query', () => {
+    const later = new Date('2024-01-10T15:00:00.000Z');
+
+    expect(resolveTimeRangeTimespan('since 9am', { now, timeZone: 'UTC' })).toBe('2024-01-10T09:00:00.000Z/2024-01-10T12:00:00.000Z');
+    expect(resolveTimeRangeTimespan('since 9am', { now: later, timeZone: 'UTC' })).toBe('2024-01-10T09:00:00.000Z/2024-01-10T15:00:00.000Z');
+    expect(resolveTimeRangeTimespan('24h')).toBe('P1D');
+    expect(resolveTimeRangeTimespan(undefined)).toBeUndefined();
+  });
+
+  describe('resolveTimeRange', () => {
+    it('should resolve --time and the duration options', () => {
+      expect(resolveTimeRange({ time: 'yesterday' }, { now, timeZone: 'UTC' })?.timespan).toBe('2024-01-09T00:00:00.000Z/2024-01-10T00:00:00.000Z');
+      expect(resolveTimeRange({ since: '2h' }, { now, timeZone: 'UTC' })?.timespan).toBe('PT2H');
+      expect(resolveTimeRange({}, { now })).toBeUndefined();
+    });
+
+    it('should reject --time together with other time range options', () => {
+      expect(() => resolveTimeRange({ time: 'yesterday', since: '2h' })).toThrow('Use only one of --time, --since or --from/--to');
+    });
+  });
+
+  it('should format ranges in the zone the user sees', () => {
+    expect(formatTimeRange(resolve('between 14:00 and 15:30 yesterday', 'Asia/Tokyo'), { now }))
+      .toBe('2024-01-09 14:00 → 2024-01-09 15:30 Asia/Tokyo (PT1H30M)');
+    expect(formatTimespan('PT2H', { now, timeZone: 'Asia/Tokyo' }))
+      .toBe('the last 2 hours (2024-01-10 19:00 → 2024-01-10 21:00 Asia/Tokyo)');
+  });
+});
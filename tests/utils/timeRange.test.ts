@@ -0,0 +1,107 @@
+import {
+  describeTimespan,
+  describeUnappliedTimespan,
+  normalizeTimespan,
+  parseDuration,
+  resolveTimespan,
+  toIsoDuration,
+  toKqlTimeFilter,
+  toTimeInterval
+} from '../../src/utils/timeRange';
+
+describe('timeRange', () => {
+  const now = new Date('2024-01-10T12:00:00.000Z');
+
+  describe('parseDuration', () => {
+    it('should parse shorthand and ISO 8601 durations', () => {
+      expect(parseDuration('30m')).toBe(30 * 60 * 1000);
+      expect(parseDuration('2h')).toBe(2 * 60 * 60 * 1000);
+      expect(parseDuration('7d')).toBe(7 * 24 * 60 * 60 * 1000);
+      expect(parseDuration('1w')).toBe(7 * 24 * 60 * 60 * 1000);
+      expect(parseDuration('PT1H30M')).toBe(90 * 60 * 1000);
+      expect(parseDuration('P1DT12H')).toBe(36 * 60 * 60 * 1000);
+    });
+
+    it('should reject values that are not positive durations', () => {
+      expect(parseDuration('0h')).toBeUndefined();
+      expect(parseDuration('P')).toBeUndefined();
+      expect(parseDuration('PT')).toBeUndefined();
+      expect(parseDuration('2 hours')).toBeUndefined();
+      expect(parseDuration('2024-01-01')).toBeUndefined();
+    });
+  });
+
+  it('should format ISO 8601 durations', () => {
+    expect(toIsoDuration(2 * 60 * 60 * 1000)).toBe('PT2H');
+    expect(toIsoDuration(7 * 24 * 60 * 60 * 1000)).toBe('P7D');
+    expect(toIsoDuration(36 * 60 * 60 * 1000 + 90 * 1000)).toBe('P1DT12H1M30S');
+    expect(toIsoDuration(0)).toBe('PT0S');
+  });
+
+  describe('resolveTimespan', () => {
+    it('should turn --since into a relative duration', () => {
+      expect(resolveTimespan({ since: '2h' }, now)).toBe('PT2H');
+      expect(resolveTimespan({ since: 'P7D' }, now)).toBe('P7D');
+    });
+
+    it('should turn --from and --to into an interval', () => {
+      expect(resolveTimespan({ from: '2024-01-01T08:00:00Z', to: '2024-01-01T12:00:00Z' }, now))
+        .toBe('2024-01-01T08:00:00.000Z/2024-01-01T12:00:00.000Z');
+      expect(resolveTimespan({ from: '2d' }, now)).toBe('2024-01-08T12:00:00.000Z/2024-01-10T12:00:00.000Z');
+    });
+
+    it('should return undefined without time range options', () => {
+      expect(resolveTimespan({}, now)).toBeUndefined();
+    });
+
+    it('should reject invalid combinations and values', () => {
+      expect(() => resolveTimespan({ since: '2h', from: '1d' }, now)).toThrow('Use either --since or --from/--to');
+      expect(() => resolveTimespan({ to: '2024-01-01' }, now)).toThrow('--to requires --from');
+      expect(() => resolveTimespan({ since: 'yesterday' }, now)).toThrow("Invalid --since value 'yesterday'");
+      expect(() => resolveTimespan({ from: 'soon' }, now)).toThrow("Invalid --from value 'soon'");
+      expect(() => resolveTimespan({ from: '1d', to: '2d' }, now)).toThrow('--from must be before --to');
+    });
+  });
+
+  describe('normalizeTimespan', () => {
+    it('should accept session time ranges as durations or intervals', () => {
+      expect(normalizeTimespan('24h')).toBe('P1D');
+      expect(normalizeTimespan('PT90M')).toBe('PT1H30M');
+      expect(normalizeTimespan('2024-01-01T00:00:00Z/PT6H')).toBe('2024-01-01T00:00:00.000Z/2024-01-01T06:00:00.000Z');
+    });
+
+    it('should reject invalid time ranges', () => {
+      expect(() => normalizeTimespan('forever')).toThrow("Invalid time range 'forever'");
+      expect(() => normalizeTimespan('2024-01-02/2024-01-01')).toThrow('Invalid timespan');
+    });
+  });
+
+  it('should resolve durations to intervals ending now', () => {
+    expect(toTimeInterval('PT2H', now)).toEqual({ start: new Date('2024-01-10T10:00:00.000Z'), end: now });
+    expect(toTimeInterval('P1D/2024-01-05T00:00:00Z', now)).toEqual({
+      start: new Date('2024-01-04T00:00:00.000Z'),
+      end: new Date('2024-01-05T00:00:00.000Z')
+    });
+  });
+
+  it('should describe timespans for prompts', () => {
+    expect(describeTimespan('PT2H')).toBe('the last 2 hours');
+    expect(describeTimespan('P1D')).toBe('the last day');
+    expect(describeTimespan('PT90M')).toBe('the last 90 minutes');
+    expect(describeTimespan('2024-01-01T00:00:00Z/2024-01-02T00:00:00Z')).toBe('2024-01-01T00:00:00.000Z to 2024-01-02T00:00:00.000Z');
+  });
+
+  it('should build KQL time filters', () => {
+    expect(toKqlTimeFilter('PT2H')).toBe('> ago(2h)');
+    expect(toKqlTimeFilter('P7D')).toBe('> ago(7d)');
+    expect(toKqlTimeFilter('2024-01-01T00:00:00Z/2024-01-02T00:00:00Z'))
+      .toBe('between (datetime(2024-01-01T00:00:00.000Z) .. datetime(2024-01-02T00:00:00.000Z))');
+  });
+
+  it('should suggest the filter for raw queries the timespan does not apply to', () => {
+    expect(describeUnappliedTimespan('PT2H')).toBe(
+      'Azure Data Explorer has no query time range, so the last 2 hours does not apply to raw queries. ' +
+      'Filter on it in the query instead, e.g. | where Timestamp > ago(2h)'
+    );
+  });
+});
@@ -439,6 +439,15 @@ describe('Visualizer', () => {
       expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('30%'));
       consoleSpy.mockRestore();
     });
+
+    it('should show the AI provider that answered when provided', () => {
+      const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+
+      Visualizer.displayKQLQuery('requests | count', 0.85, 'ollama');
+
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('AI Provider: ollama'));
+      consoleSpy.mockRestore();
+    });
   });
 
   describe('edge cases and data types', () => {
@@ -1258,4 +1267,25 @@ describe('Visualizer', () => {
       consoleSpy.mockRestore();
     });
   });
+
+  describe('formatDiagnostics', () => {
+    it('should show the offending line with a marker under the reported column', () => {
+      const query = 'requests\n| wher success == false';
+
+      const output = Visualizer.formatDiagnostics(query, [{
+        severity: 'error',
+        message: "Unknown query operator 'wher'",
+        line: 2,
+        column: 3,
+        offset: 11,
+        length: 4
+      }]);
+
+      expect(output).toBe([
+        "red(❌ Line 2, column 3: Unknown query operator 'wher')",
+        'dim(2 | )| wher success == false',
+        '      red(^^^^)'
+      ].join('\n'));
+    });
+  });
 });
@@ -0,0 +1,62 @@
+import { Request, Response } from 'express';
+import { createAuthMiddleware } from '../../src/webui/server/middleware/auth';
+import { IAuthenticationProvider } from '../../src/core/interfaces';
+import { DataSourceConfig } from '../../src/core/types/ProviderTypes';
+
+jest.mock('../../src/utils/logger');
+
+describe('createAuthMiddleware', () => {
+  const apiKeyConfig: DataSourceConfig = { type: 'application-insights', authMode: 'api-key', apiKey: '${TEST_APPINSIGHTS_API_KEY}' };
+
+  let authProvider: jest.Mocked<IAuthenticationProvider>;
+  let res: { status: jest.Mock; json: jest.Mock };
+  let next: jest.Mock;
+
+  const run = async (dataSourceConfig?: DataSourceConfig) => {
+    const req = { path: '/query/execute' } as Request;
+    await createAuthMiddleware(authProvider, dataSourceConfig)(req, res as unknown as Response, next);
+    return req;
+  };
+
+  beforeEach(() => {
+    authProvider = {
+      getAccessToken: jest.fn(),
+      validateCredentials: jest.fn().mockResolvedValue(false),
+      getOpenAIToken: jest.fn()
+    };
+    res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+    next = jest.fn();
+  });
+
+  afterEach(() => {
+    delete process.env.TEST_APPINSIGHTS_API_KEY;
+  });
+
+  it('should validate Azure credentials for AAD data sources', async () => {
+    await run({ type: 'application-insights' });
+
+    expect(authProvider.validateCredentials).toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should accept requests without Azure credentials when the data source has an API key', async () => {
+    process.env.TEST_APPINSIGHTS_API_KEY = 'test-api-key';
+
+    const req = await run(apiKeyConfig);
+
+    expect(authProvider.validateCredentials).not.toHaveBeenCalled();
+    expect(req.auth).toEqual({ isAuthenticated: true, credential: 'api-key' });
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should reject requests when the API key is missing', async () => {
+    await run(apiKeyConfig);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      message: 'Application Insights API key not found in environment variable TEST_APPINSIGHTS_API_KEY.'
+    }));
+    expect(next).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,84 @@
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ServiceContainer } from '../../src/infrastructure/di/ServiceContainer';
+import { QueryOrchestrator } from '../../src/services/orchestration/QueryOrchestrator';
+import { QueryService } from '../../src/services/QueryService';
+import { createQueryRoutes } from '../../src/webui/server/routes/query';
+import { IAIProvider, IDataSourceProvider, ISessionManager } from '../../src/core/interfaces';
+
+jest.mock('../../src/utils/logger');
+
+describe('Query routes', () => {
+  let server: http.Server;
+  let endpoint: string;
+  let defaultDataSource: string;
+
+  const validate = async (body: unknown) => {
+    const response = await fetch(`${endpoint}/api/query/validate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeAll(async () => {
+    const aiProvider = { initialize: jest.fn() } as unknown as IAIProvider;
+    const dataSourceProvider = { getSchema: jest.fn().mockResolvedValue({ schema: null }) } as unknown as IDataSourceProvider;
+    const sessionManager = { getSession: jest.fn().mockResolvedValue(null) } as unknown as ISessionManager;
+
+    const container = new ServiceContainer();
+    container.register('aiProvider', aiProvider);
+    container.register('dataSourceProvider', dataSourceProvider);
+    container.register('sessionManager', sessionManager);
+    container.register('configManager', {
+      getConfig: () => ({ providers: { ai: { default: 'openai' }, dataSources: { default: defaultDataSource }, auth: { default: 'azure-managed-identity' } } })
+    });
+    container.register('queryService', new QueryService(new QueryOrchestrator(aiProvider, dataSourceProvider), sessionManager, aiProvider));
+
+    const app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      req.auth = { isAuthenticated: true };
+      next();
+    });
+    app.use('/api/query', createQueryRoutes(container));
+
+    server = app.listen(0, '127.0.0.1');
+    await new Promise<void>(resolve => server.once('listening', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('POST /api/query/validate', () => {
+    const metricQuery = JSON.stringify({ metricNames: ['Percentage CPU'], aggregations: ['Average'], interval: 'PT5M' });
+
+    it('should validate metric query JSON when the default data source is Azure Metrics', async () => {
+      defaultDataSource = 'azure-metrics';
+
+      const valid = await validate({ query: metricQuery });
+      expect(valid.status).toBe(200);
+      expect(valid.body).toEqual(expect.objectContaining({ isValid: true, diagnostics: [] }));
+
+      const invalid = await validate({ query: JSON.stringify({ metricNames: [] }) });
+      expect(invalid.body.isValid).toBe(false);
+      expect(invalid.body.error).toContain('metricNames must name at least one metric');
+    });
+
+    it('should validate KQL for other data sources unless the request names the data source type', async () => {
+      defaultDataSource = 'application-insights';
+
+      expect((await validate({ query: 'requests | where success == false | count' })).body.isValid).toBe(true);
+      expect((await validate({ query: metricQuery })).body.isValid).toBe(false);
+      expect((await validate({ query: metricQuery, dataSourceType: 'azure-metrics' })).body.isValid).toBe(true);
+    });
+
+    it('should require a query', async () => {
+      expect(await validate({})).toEqual({ status: 400, body: expect.objectContaining({ code: 'MISSING_QUERY' }) });
+    });
+  });
+});